@@ -101,6 +101,11 @@ const icons = {
       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2zm9-13.5V9" />
     </svg>
   ),
+  trophy: (
+    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 21h8m-4-4v4m-5-17h10v5a5 5 0 01-10 0V4zm10 1h3v2a3 3 0 01-3 3M7 5H4v2a3 3 0 003 3" />
+    </svg>
+  ),
   question: (
     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.228 9c.549-1.165 2.03-2 3.772-2 2.21 0 4 1.343 4 3 0 1.4-1.278 2.575-3.006 2.907-.542.104-.994.54-.994 1.093m0 3h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -146,6 +151,11 @@ const icons = {
       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
     </svg>
   ),
+  queue: (
+    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" />
+    </svg>
+  ),
   seo: (
     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
@@ -186,6 +196,7 @@ const navSections: NavSection[] = [
       { href: "/dashboard/suggestions", label: "Edit Suggestions", icon: icons.pencil },
       { href: "/dashboard/comments", label: "Comments", icon: icons.comments },
       { href: "/dashboard/reports", label: "Reports", icon: icons.flag },
+      { href: "/dashboard/points", label: "Points", icon: icons.trophy },
     ],
   },
   // Analytics Section
@@ -207,6 +218,8 @@ const navSections: NavSection[] = [
       { href: "/dashboard/security", label: "Security", icon: icons.shield, adminOnly: true },
       { href: "/dashboard/donations", label: "Donations", icon: icons.heart, adminOnly: true },
       { href: "/dashboard/exports", label: "Exports", icon: icons.download, adminOnly: true },
+      { href: "/dashboard/jobs", label: "Jobs", icon: icons.queue, adminOnly: true },
+      { href: "/dashboard/webhooks", label: "Webhooks", icon: icons.link, adminOnly: true },
     ],
   },
 ];
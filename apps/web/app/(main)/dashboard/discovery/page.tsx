@@ -27,7 +27,10 @@ const SOURCE_TYPE_ICONS: Record<string, string> = {
   github_search: "🔍",
   npm: "📦",
   pypi: "🐍",
+  crates: "🦀",
+  vscode: "🧩",
   website: "🌐",
+  rss: "📰",
 };
 
 type QueueStatus = keyof typeof QUEUE_STATUS;
@@ -9,7 +9,8 @@
  * - Trend chart
  * - Payment method breakdown
  * - Badge tier distribution
- * - Recent donations list
+ * - Campaign progress, management and CSV export
+ * - Recent donations list with receipt and statement downloads
  * - Pending bank transfer confirmation
  */
 
@@ -17,7 +18,12 @@ import { useState, useEffect, useRef } from 'react';
 import Link from 'next/link';
 import { cn } from '@/lib/design-system';
 import { useToast } from '@/components/toast';
-import { BADGE_CONFIG, formatDonationAmount, type DonorBadgeTier } from '@/lib/donations/types';
+import {
+  BADGE_CONFIG,
+  formatDonationAmount,
+  type DonationCampaignStats,
+  type DonorBadgeTier,
+} from '@/lib/donations/types';
 
 interface DonationStats {
   overview: {
@@ -48,6 +54,10 @@ interface DonationStats {
     donor_email?: string | null;
     is_anonymous: boolean;
     message: string | null;
+    user_id: string | null;
+    campaign_title: string | null;
+    receipt_url: string | null;
+    statement_url: string | null;
     created_at: string;
   }>;
   pending_transfers: Array<{
@@ -368,6 +378,9 @@ export default function DonationsDashboardPage() {
         </div>
       </div>
 
+      {/* Campaigns */}
+      <CampaignsPanel />
+
       {/* Pending Bank Transfers */}
       {stats.pending_transfers.length > 0 && (
         <div className="rounded-xl border border-amber-800/50 bg-amber-900/10 p-6">
@@ -459,6 +472,11 @@ export default function DonationsDashboardPage() {
                   </td>
                   <td className="py-3 font-medium text-white">
                     {formatDonationAmount(donation.amount, donation.currency)}
+                    {donation.campaign_title && (
+                      <p className="text-xs font-normal text-violet-400 truncate max-w-[160px]">
+                        {donation.campaign_title}
+                      </p>
+                    )}
                   </td>
                   <td className="py-3">
                     <span className={cn(
@@ -506,6 +524,32 @@ export default function DonationsDashboardPage() {
                             </svg>
                             {donation.donor_email ? 'Resend Thank You' : 'Send Thank You'}
                           </button>
+                          {donation.receipt_url && (
+                            <a
+                              href={donation.receipt_url}
+                              download
+                              onClick={() => setActionMenuId(null)}
+                              className="w-full px-4 py-2 text-left text-sm text-gray-300 hover:bg-gray-700 flex items-center gap-2"
+                            >
+                              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                              </svg>
+                              Download Receipt
+                            </a>
+                          )}
+                          {donation.statement_url && (
+                            <a
+                              href={donation.statement_url}
+                              download
+                              onClick={() => setActionMenuId(null)}
+                              className="w-full px-4 py-2 text-left text-sm text-gray-300 hover:bg-gray-700 flex items-center gap-2"
+                            >
+                              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                              </svg>
+                              {new Date(donation.created_at).getFullYear()} Statement
+                            </a>
+                          )}
                           <button
                             onClick={() => handleCopyDonationId(donation.id)}
                             className="w-full px-4 py-2 text-left text-sm text-gray-300 hover:bg-gray-700 rounded-b-lg flex items-center gap-2"
@@ -668,3 +712,275 @@ function PeriodCard({
     </div>
   );
 }
+
+const EMPTY_CAMPAIGN_FORM = {
+  slug: '',
+  title: '',
+  description: '',
+  target_amount: '',
+  currency: 'USD',
+  ends_at: '',
+};
+
+function CampaignsPanel() {
+  const [campaigns, setCampaigns] = useState<DonationCampaignStats[] | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_CAMPAIGN_FORM);
+  const [saving, setSaving] = useState(false);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const { success, error: showError } = useToast();
+
+  const fetchCampaigns = async () => {
+    try {
+      const response = await fetch('/api/dashboard/donations/campaigns');
+      if (!response.ok) throw new Error('Failed to load campaigns');
+      const data = await response.json();
+      setCampaigns(data.campaigns);
+    } catch {
+      showError('Failed to load campaigns');
+    }
+  };
+
+  useEffect(() => {
+    fetchCampaigns();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch('/api/dashboard/donations/campaigns', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          slug: form.slug,
+          title: form.title,
+          description: form.description || undefined,
+          target_amount: parseFloat(form.target_amount),
+          currency: form.currency,
+          // The deadline is the end of the chosen day
+          ends_at: form.ends_at ? new Date(`${form.ends_at}T23:59:59`).toISOString() : undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to create campaign');
+      }
+
+      success('Campaign created');
+      setForm(EMPTY_CAMPAIGN_FORM);
+      setShowForm(false);
+      fetchCampaigns();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to create campaign');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdate = async (campaign: DonationCampaignStats, updates: { is_active?: boolean; is_featured?: boolean }) => {
+    setUpdatingId(campaign.id);
+    try {
+      const response = await fetch(`/api/dashboard/donations/campaigns/${campaign.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(updates),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to update campaign');
+      }
+
+      fetchCampaigns();
+    } catch (err) {
+      showError(err instanceof Error ? err.message : 'Failed to update campaign');
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const inputClassName = cn(
+    'w-full px-3 py-2 rounded-lg text-sm',
+    'bg-gray-800 border border-gray-700 text-white',
+    'focus:outline-none focus:ring-2 focus:ring-blue-500'
+  );
+
+  return (
+    <div className="rounded-xl border border-gray-800 bg-gray-900/50 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white">Campaigns</h3>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="px-3 py-1.5 rounded-lg bg-gray-800 text-gray-300 hover:bg-gray-700 transition-colors text-sm"
+        >
+          {showForm ? 'Cancel' : 'New Campaign'}
+        </button>
+      </div>
+
+      {showForm && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-6 p-4 rounded-lg bg-gray-900/50 border border-gray-800">
+          <input
+            type="text"
+            value={form.title}
+            onChange={(e) => setForm({ ...form, title: e.target.value })}
+            placeholder="Title (e.g. Fund hosting for 2027)"
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={form.slug}
+            onChange={(e) => setForm({ ...form, slug: e.target.value.toLowerCase() })}
+            placeholder="Slug (e.g. hosting-2027)"
+            className={inputClassName}
+          />
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min={1}
+              value={form.target_amount}
+              onChange={(e) => setForm({ ...form, target_amount: e.target.value })}
+              placeholder="Target amount"
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              maxLength={3}
+              value={form.currency}
+              onChange={(e) => setForm({ ...form, currency: e.target.value.toUpperCase() })}
+              className={cn(inputClassName, 'w-20')}
+            />
+          </div>
+          <input
+            type="date"
+            value={form.ends_at}
+            onChange={(e) => setForm({ ...form, ends_at: e.target.value })}
+            title="Deadline (optional)"
+            className={inputClassName}
+          />
+          <textarea
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+            placeholder="Description shown to donors"
+            rows={2}
+            className={cn(inputClassName, 'md:col-span-2 resize-none')}
+          />
+          <div className="md:col-span-2 flex justify-end">
+            <button
+              onClick={handleCreate}
+              disabled={saving || !form.title || !form.slug || !form.target_amount}
+              className={cn(
+                'px-4 py-2 rounded-lg text-sm font-medium',
+                'bg-blue-600 hover:bg-blue-700 text-white',
+                'disabled:opacity-50 disabled:cursor-not-allowed',
+                'transition-colors'
+              )}
+            >
+              {saving ? 'Creating...' : 'Create Campaign'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {campaigns?.map((campaign) => (
+          <div
+            key={campaign.id}
+            className={cn(
+              'p-4 rounded-lg bg-gray-900/50 border border-gray-800',
+              !campaign.is_active && 'opacity-60'
+            )}
+          >
+            <div className="flex items-start justify-between gap-4 mb-3">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <p className="font-semibold text-white truncate">{campaign.title}</p>
+                  <span className={cn(
+                    'px-2 py-0.5 rounded-full text-xs',
+                    campaign.is_open ? 'bg-green-900/30 text-green-400' : 'bg-gray-700 text-gray-400'
+                  )}>
+                    {campaign.is_open ? 'open' : campaign.is_active ? 'ended' : 'inactive'}
+                  </span>
+                  {campaign.is_featured && (
+                    <span className="px-2 py-0.5 rounded-full text-xs bg-violet-900/30 text-violet-400">
+                      featured
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  /donate?campaign={campaign.slug}
+                  {campaign.ends_at && ` · ends ${new Date(campaign.ends_at).toLocaleDateString()}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  onClick={() => handleUpdate(campaign, { is_featured: !campaign.is_featured })}
+                  disabled={updatingId === campaign.id}
+                  className="px-3 py-1.5 rounded-lg text-xs bg-gray-800 text-gray-300 hover:bg-gray-700 disabled:opacity-50 transition-colors"
+                >
+                  {campaign.is_featured ? 'Unfeature' : 'Feature'}
+                </button>
+                <button
+                  onClick={() => handleUpdate(campaign, { is_active: !campaign.is_active })}
+                  disabled={updatingId === campaign.id}
+                  className="px-3 py-1.5 rounded-lg text-xs bg-gray-800 text-gray-300 hover:bg-gray-700 disabled:opacity-50 transition-colors"
+                >
+                  {campaign.is_active ? 'Deactivate' : 'Activate'}
+                </button>
+                <a
+                  href={`/api/dashboard/donations/campaigns/${campaign.id}/export`}
+                  download
+                  className="px-3 py-1.5 rounded-lg text-xs bg-gray-800 text-gray-300 hover:bg-gray-700 transition-colors"
+                >
+                  Export CSV
+                </a>
+              </div>
+            </div>
+
+            <div className="w-full bg-gray-800 rounded-full h-2 mb-3">
+              <div
+                className="h-2 rounded-full bg-gradient-to-r from-blue-600 to-cyan-500"
+                style={{ width: `${campaign.percent_funded}%` }}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+              <div>
+                <p className="text-white font-semibold">
+                  {formatDonationAmount(campaign.raised_amount, campaign.currency)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  of {formatDonationAmount(campaign.target_amount, campaign.currency)} ({campaign.percent_funded}%)
+                </p>
+              </div>
+              <div>
+                <p className="text-white font-semibold">{campaign.donor_count}</p>
+                <p className="text-xs text-gray-500">donors</p>
+              </div>
+              <div>
+                <p className="text-white font-semibold">{campaign.donation_count}</p>
+                <p className="text-xs text-gray-500">{campaign.recurring_donations} recurring</p>
+              </div>
+              <div>
+                <p className="text-white font-semibold">
+                  {formatDonationAmount(campaign.average_donation, campaign.currency)}
+                </p>
+                <p className="text-xs text-gray-500">average</p>
+              </div>
+              <div>
+                <p className="text-white font-semibold">
+                  {formatDonationAmount(campaign.pending_amount, campaign.currency)}
+                </p>
+                <p className="text-xs text-gray-500">pending</p>
+              </div>
+            </div>
+          </div>
+        ))}
+        {campaigns?.length === 0 && (
+          <p className="text-gray-500 text-center py-4">No campaigns yet</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -39,6 +39,9 @@ import {
   AlertCircleIcon,
   ClockIcon,
   TrashIcon,
+  BracesIcon,
+  DatabaseIcon,
+  FileBoxIcon,
 } from "lucide-react";
 
 export default function ExportsPage() {
@@ -227,6 +230,9 @@ function ExportJobRow({
     json: <FileJsonIcon className="w-4 h-4 text-yellow-400" />,
     csv: <FileTextIcon className="w-4 h-4 text-green-400" />,
     xlsx: <FileSpreadsheetIcon className="w-4 h-4 text-blue-400" />,
+    ndjson: <BracesIcon className="w-4 h-4 text-orange-400" />,
+    parquet: <FileBoxIcon className="w-4 h-4 text-purple-400" />,
+    sql: <DatabaseIcon className="w-4 h-4 text-cyan-400" />,
   };
 
   const typeIcon = {
@@ -275,6 +281,12 @@ function ExportJobRow({
         {job.status === "processing" && job.current_step && (
           <p className="text-xs text-gray-500 mt-1">{job.current_step}</p>
         )}
+        {job.status === "processing" && job.total_rows !== null && (
+          <p className="text-xs text-gray-500">
+            {job.rows_processed.toLocaleString()} /{" "}
+            {job.total_rows.toLocaleString()} rows
+          </p>
+        )}
         {job.status === "processing" && (
           <div className="mt-2 h-1 bg-gray-700 rounded-full overflow-hidden">
             <div
@@ -443,6 +455,24 @@ function ExportWizard({
       description: "Native Excel spreadsheet format",
       icon: <FileSpreadsheetIcon className="w-6 h-6 text-blue-400" />,
     },
+    {
+      value: "ndjson",
+      label: "NDJSON",
+      description: "One JSON object per line, for large exports and pipelines",
+      icon: <BracesIcon className="w-6 h-6 text-orange-400" />,
+    },
+    {
+      value: "parquet",
+      label: "Parquet",
+      description: "Columnar format for analytics tools and data warehouses",
+      icon: <FileBoxIcon className="w-6 h-6 text-purple-400" />,
+    },
+    {
+      value: "sql",
+      label: "SQL Dump",
+      description: "PostgreSQL INSERT statements",
+      icon: <DatabaseIcon className="w-6 h-6 text-cyan-400" />,
+    },
   ];
 
   return (
@@ -3,59 +3,124 @@
 /**
  * FAQ Analytics Dashboard
  *
- * Admin view showing:
- * - Query statistics
- * - Popular questions
+ * Moderator view of questions mined from the assistant and search:
+ * - Query statistics and sources
+ * - Review queue for AI-drafted FAQs (edit, publish, reject)
+ * - Popular question clusters
+ * - FAQ performance (helpful votes)
  * - Category breakdown
- * - FAQ performance metrics
  */
 
-import { useState, useEffect, useMemo } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { cn } from "@/lib/design-system";
+import { FAQ_CATEGORIES, getCategoryLabel } from "@/lib/faq-generator";
 import {
-  getTrackedQueries,
-  getCachedFAQs,
-  getFAQStats,
-  FAQ_CATEGORIES,
-} from "@/lib/faq-generator";
+  getFaqAnalytics,
+  getPopularFaqClusters,
+  getFaqEntries,
+  reviewFaq,
+  draftFaqFromCluster,
+  type FAQAnalytics,
+  type FAQClusterSummary,
+  type FAQDraft,
+} from "@/app/actions/faq";
+
+type Tab = "review" | "queries" | "faqs" | "categories";
+
+const SOURCE_LABELS = {
+  assistant: "Assistant",
+  ai_search: "AI search",
+  search: "Site search",
+} as const;
 
 export default function FAQAnalyticsPage() {
-  const [activeTab, setActiveTab] = useState<"queries" | "faqs" | "categories">("queries");
-  const [refreshKey, setRefreshKey] = useState(0);
-
-  // Load data synchronously - these are localStorage reads
-  // refreshKey is used to invalidate cache and reload data periodically
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  const queries = useMemo(() => getTrackedQueries(), [refreshKey]);
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  const faqs = useMemo(() => getCachedFAQs(), [refreshKey]);
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  const stats = useMemo(() => getFAQStats(), [refreshKey]);
-
-  // Refresh data every 30 seconds
-  useEffect(() => {
-    const interval = setInterval(() => setRefreshKey((k) => k + 1), 30000);
-    return () => clearInterval(interval);
+  const [activeTab, setActiveTab] = useState<Tab>("review");
+  const [analytics, setAnalytics] = useState<FAQAnalytics | null>(null);
+  const [clusters, setClusters] = useState<FAQClusterSummary[]>([]);
+  const [faqs, setFaqs] = useState<FAQDraft[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [analyticsResult, clustersResult, faqsResult] = await Promise.all([
+        getFaqAnalytics(),
+        getPopularFaqClusters(),
+        getFaqEntries(),
+      ]);
+      const firstError = analyticsResult.error || clustersResult.error || faqsResult.error;
+      if (firstError) {
+        setError(firstError);
+        return;
+      }
+      setAnalytics(analyticsResult.analytics || null);
+      setClusters(clustersResult.clusters || []);
+      setFaqs(faqsResult.faqs || []);
+      setError(null);
+    } catch {
+      setError("Failed to load FAQ analytics");
+    } finally {
+      setIsLoading(false);
+    }
   }, []);
 
-  // Sort queries by count
-  const sortedQueries = [...queries].sort((a, b) => b.count - a.count);
-  const sortedFaqs = [...faqs].sort((a, b) => b.queryCount - a.queryCount);
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleReview = async (
+    faqId: string,
+    action: "publish" | "reject" | "unpublish",
+    edits?: { question: string; answer: string; category: string }
+  ) => {
+    setBusyId(faqId);
+    const result = await reviewFaq(faqId, action, edits);
+    setBusyId(null);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    fetchData();
+  };
+
+  const handleDraft = async (clusterId: string) => {
+    setBusyId(clusterId);
+    const result = await draftFaqFromCluster(clusterId);
+    setBusyId(null);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    await fetchData();
+    setActiveTab("review");
+  };
+
+  const drafts = faqs.filter((f) => f.status === "draft");
+  const publishedFaqs = faqs.filter((f) => f.status === "published");
 
   return (
     <div className="space-y-6">
       {/* Header */}
       <div>
         <h1 className="text-2xl font-bold text-white">FAQ Analytics</h1>
-        <p className="mt-1 text-gray-400">Track popular queries and FAQ performance</p>
+        <p className="mt-1 text-gray-400">
+          Questions asked through the assistant and search, and the FAQs drafted from them
+        </p>
       </div>
 
+      {error && (
+        <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/20 text-sm text-red-400">
+          {error}
+        </div>
+      )}
+
       {/* Stats Overview */}
-      {stats && stats.topCategories && (
+      {analytics && (
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <StatCard
             label="Total Queries"
-            value={stats.totalQueries}
+            value={analytics.totalQueries}
             icon={
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path
@@ -70,7 +135,7 @@ export default function FAQAnalyticsPage() {
           />
           <StatCard
             label="Unique Questions"
-            value={stats.uniqueQueries}
+            value={analytics.uniqueQuestions}
             icon={
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path
@@ -84,8 +149,8 @@ export default function FAQAnalyticsPage() {
             color="blue"
           />
           <StatCard
-            label="Generated FAQs"
-            value={stats.generatedFAQs}
+            label="Published FAQs"
+            value={analytics.publishedFAQs}
             icon={
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path
@@ -99,15 +164,15 @@ export default function FAQAnalyticsPage() {
             color="cyan"
           />
           <StatCard
-            label="Categories"
-            value={stats.topCategories.length}
+            label="Awaiting Review"
+            value={analytics.pendingDrafts}
             icon={
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path
                   strokeLinecap="round"
                   strokeLinejoin="round"
                   strokeWidth={2}
-                  d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z"
+                  d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4"
                 />
               </svg>
             }
@@ -117,17 +182,24 @@ export default function FAQAnalyticsPage() {
       )}
 
       {/* Top Categories Chart */}
-      {stats && stats.topCategories.length > 0 && (
+      {analytics && analytics.topCategories.length > 0 && (
         <div className="bg-[#111111] rounded-xl border border-[#262626] p-6">
-          <h2 className="text-lg font-semibold text-white mb-4">Top Categories</h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-white">Top Categories</h2>
+            <p className="text-xs text-gray-500">
+              {(Object.keys(SOURCE_LABELS) as (keyof typeof SOURCE_LABELS)[])
+                .map((source) => `${SOURCE_LABELS[source]}: ${analytics.sourceCounts[source]}`)
+                .join(" · ")}
+            </p>
+          </div>
           <div className="space-y-3">
-            {stats.topCategories.map((cat, i) => {
-              const maxCount = stats.topCategories[0]?.count ?? 1;
+            {analytics.topCategories.map((cat, i) => {
+              const maxCount = analytics.topCategories[0]?.count ?? 1;
               const percentage = (cat.count / maxCount) * 100;
               return (
                 <div key={cat.category} className="flex items-center gap-4">
                   <span className="text-sm text-gray-400 w-32 truncate">
-                    {FAQ_CATEGORIES[cat.category as keyof typeof FAQ_CATEGORIES] || cat.category}
+                    {getCategoryLabel(cat.category)}
                   </span>
                   <div className="flex-1 h-4 bg-[#1a1a1a] rounded-full overflow-hidden">
                     <div
@@ -153,7 +225,7 @@ export default function FAQAnalyticsPage() {
       {/* Tabs */}
       <div className="border-b border-[#262626]">
         <div className="flex gap-4">
-          {(["queries", "faqs", "categories"] as const).map((tab) => (
+          {(["review", "queries", "faqs", "categories"] as const).map((tab) => (
             <button
               key={tab}
               onClick={() => setActiveTab(tab)}
@@ -164,7 +236,8 @@ export default function FAQAnalyticsPage() {
                   : "border-transparent text-gray-400 hover:text-white"
               )}
             >
-              {tab === "queries" && "Popular Queries"}
+              {tab === "review" && `Review Queue${drafts.length > 0 ? ` (${drafts.length})` : ""}`}
+              {tab === "queries" && "Popular Questions"}
               {tab === "faqs" && "FAQ Performance"}
               {tab === "categories" && "By Category"}
             </button>
@@ -174,118 +247,261 @@ export default function FAQAnalyticsPage() {
 
       {/* Tab Content */}
       <div className="bg-[#111111] rounded-xl border border-[#262626] overflow-hidden">
-        {activeTab === "queries" && (
-          <div className="divide-y divide-[#262626]">
-            {sortedQueries.length === 0 ? (
-              <div className="p-8 text-center text-gray-500">
-                No queries tracked yet. Queries are stored in browser localStorage.
-              </div>
-            ) : (
-              sortedQueries.slice(0, 20).map((query, i) => (
-                <div key={i} className="p-4 flex items-center gap-4">
-                  <span
-                    className={cn(
-                      "flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold",
-                      i === 0 && "bg-yellow-500/20 text-yellow-400",
-                      i === 1 && "bg-gray-500/20 text-gray-300",
-                      i === 2 && "bg-amber-700/20 text-amber-600",
-                      i > 2 && "bg-gray-800 text-gray-500"
-                    )}
-                  >
-                    {i + 1}
-                  </span>
-                  <div className="flex-1 min-w-0">
-                    <p className="text-white truncate">{query.query}</p>
-                    <p className="text-xs text-gray-500">
-                      Category: {FAQ_CATEGORIES[query.category as keyof typeof FAQ_CATEGORIES] || query.category || "general"}
-                    </p>
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : (
+          <>
+            {activeTab === "review" && (
+              <div className="divide-y divide-[#262626]">
+                {drafts.length === 0 ? (
+                  <div className="p-8 text-center text-gray-500">
+                    No drafts to review. Questions asked {analytics?.minClusterQueries ?? 5}+ times are
+                    drafted daily, or draft one from Popular Questions.
                   </div>
-                  <div className="text-right">
-                    <span className="text-lg font-bold text-white">{query.count}</span>
-                    <p className="text-xs text-gray-500">times</p>
-                  </div>
-                </div>
-              ))
+                ) : (
+                  drafts.map((draft) => (
+                    <DraftReviewItem
+                      key={draft.id}
+                      draft={draft}
+                      isBusy={busyId === draft.id}
+                      onPublish={(edits) => handleReview(draft.id, "publish", edits)}
+                      onReject={() => handleReview(draft.id, "reject")}
+                    />
+                  ))
+                )}
+              </div>
             )}
-          </div>
-        )}
 
-        {activeTab === "faqs" && (
-          <div className="divide-y divide-[#262626]">
-            {sortedFaqs.length === 0 ? (
-              <div className="p-8 text-center text-gray-500">
-                No FAQs generated yet. FAQs are created from popular queries.
-              </div>
-            ) : (
-              sortedFaqs.map((faq) => (
-                <div key={faq.id} className="p-4">
-                  <div className="flex items-start gap-4">
-                    <div className="flex-1 min-w-0">
-                      <p className="text-white font-medium">{faq.question}</p>
-                      <p className="text-sm text-gray-400 mt-1 line-clamp-2">{faq.answer}</p>
-                      <div className="flex items-center gap-4 mt-2">
-                        <span className="text-xs text-gray-500">
-                          Category: {FAQ_CATEGORIES[faq.category as keyof typeof FAQ_CATEGORIES] || faq.category}
+            {activeTab === "queries" && (
+              <div className="divide-y divide-[#262626]">
+                {clusters.length === 0 ? (
+                  <div className="p-8 text-center text-gray-500">
+                    No questions recorded yet. Questions from the assistant and search appear here.
+                  </div>
+                ) : (
+                  clusters.map((cluster, i) => (
+                    <div key={cluster.id} className="p-4 flex items-center gap-4">
+                      <span
+                        className={cn(
+                          "flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold",
+                          i === 0 && "bg-yellow-500/20 text-yellow-400",
+                          i === 1 && "bg-gray-500/20 text-gray-300",
+                          i === 2 && "bg-amber-700/20 text-amber-600",
+                          i > 2 && "bg-gray-800 text-gray-500"
+                        )}
+                      >
+                        {i + 1}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <p className="text-white truncate">{cluster.representative_query}</p>
+                        <p className="text-xs text-gray-500">
+                          Category: {getCategoryLabel(cluster.category)}
+                          {" · "}
+                          {(Object.keys(SOURCE_LABELS) as (keyof typeof SOURCE_LABELS)[])
+                            .filter((source) => cluster.source_counts[source])
+                            .map((source) => `${SOURCE_LABELS[source]} ${cluster.source_counts[source]}`)
+                            .join(", ")}
+                        </p>
+                      </div>
+                      {cluster.faq_status ? (
+                        <span className="text-xs px-2 py-1 rounded-full bg-[#1a1a1a] text-gray-400 capitalize">
+                          {cluster.faq_status}
                         </span>
-                        <span className="text-xs text-gray-500">Asked {faq.queryCount} times</span>
+                      ) : (
+                        <button
+                          onClick={() => handleDraft(cluster.id)}
+                          disabled={busyId !== null}
+                          className="text-xs px-3 py-1.5 rounded-lg bg-violet-500/10 text-violet-400 hover:bg-violet-500/20 disabled:opacity-50 transition-colors"
+                        >
+                          {busyId === cluster.id ? "Drafting..." : "Draft FAQ"}
+                        </button>
+                      )}
+                      <div className="text-right">
+                        <span className="text-lg font-bold text-white">{cluster.query_count}</span>
+                        <p className="text-xs text-gray-500">times</p>
                       </div>
                     </div>
-                    <div className="flex-shrink-0 flex items-center gap-3">
-                      <div className="text-center">
-                        <div className="flex items-center gap-1 text-emerald-400">
-                          <ThumbUpIcon className="w-4 h-4" />
-                          <span className="text-sm font-medium">{faq.helpful}</span>
+                  ))
+                )}
+              </div>
+            )}
+
+            {activeTab === "faqs" && (
+              <div className="divide-y divide-[#262626]">
+                {publishedFaqs.length === 0 ? (
+                  <div className="p-8 text-center text-gray-500">
+                    No FAQs published yet. Publish drafts from the review queue.
+                  </div>
+                ) : (
+                  publishedFaqs.map((faq) => (
+                    <div key={faq.id} className="p-4">
+                      <div className="flex items-start gap-4">
+                        <div className="flex-1 min-w-0">
+                          <p className="text-white font-medium">{faq.question}</p>
+                          <p className="text-sm text-gray-400 mt-1 line-clamp-2">{faq.answer}</p>
+                          <div className="flex items-center gap-4 mt-2">
+                            <span className="text-xs text-gray-500">
+                              Category: {getCategoryLabel(faq.category)}
+                            </span>
+                            <span className="text-xs text-gray-500">Asked {faq.query_count} times</span>
+                            <button
+                              onClick={() => handleReview(faq.id, "unpublish")}
+                              disabled={busyId !== null}
+                              className="text-xs text-gray-500 hover:text-white disabled:opacity-50"
+                            >
+                              Unpublish
+                            </button>
+                          </div>
                         </div>
-                        <p className="text-[10px] text-gray-500">helpful</p>
-                      </div>
-                      <div className="text-center">
-                        <div className="flex items-center gap-1 text-red-400">
-                          <ThumbDownIcon className="w-4 h-4" />
-                          <span className="text-sm font-medium">{faq.notHelpful}</span>
+                        <div className="flex-shrink-0 flex items-center gap-3">
+                          <div className="text-center">
+                            <div className="flex items-center gap-1 text-emerald-400">
+                              <ThumbUpIcon className="w-4 h-4" />
+                              <span className="text-sm font-medium">{faq.helpful_count}</span>
+                            </div>
+                            <p className="text-[10px] text-gray-500">helpful</p>
+                          </div>
+                          <div className="text-center">
+                            <div className="flex items-center gap-1 text-red-400">
+                              <ThumbDownIcon className="w-4 h-4" />
+                              <span className="text-sm font-medium">{faq.not_helpful_count}</span>
+                            </div>
+                            <p className="text-[10px] text-gray-500">not helpful</p>
+                          </div>
                         </div>
-                        <p className="text-[10px] text-gray-500">not helpful</p>
                       </div>
                     </div>
-                  </div>
-                </div>
-              ))
+                  ))
+                )}
+              </div>
             )}
-          </div>
-        )}
 
-        {activeTab === "categories" && (
-          <div className="divide-y divide-[#262626]">
-            {Object.entries(FAQ_CATEGORIES).map(([key, label]) => {
-              const categoryQueries = queries.filter((q) => q.category === key);
-              const categoryFaqs = faqs.filter((f) => f.category === key);
-              const totalCount = categoryQueries.reduce((sum, q) => sum + q.count, 0);
+            {activeTab === "categories" && (
+              <div className="divide-y divide-[#262626]">
+                {Object.entries(FAQ_CATEGORIES).map(([key, label]) => {
+                  const categoryClusters = clusters.filter((c) => c.category === key);
+                  const categoryFaqs = publishedFaqs.filter((f) => f.category === key);
+                  const totalCount = categoryClusters.reduce((sum, c) => sum + c.query_count, 0);
 
-              return (
-                <div key={key} className="p-4 flex items-center gap-4">
-                  <div className="flex-1">
-                    <p className="text-white font-medium">{label}</p>
-                    <p className="text-xs text-gray-500">
-                      {categoryQueries.length} queries, {categoryFaqs.length} FAQs
-                    </p>
-                  </div>
-                  <div className="text-right">
-                    <span className="text-lg font-bold text-white">{totalCount}</span>
-                    <p className="text-xs text-gray-500">total asks</p>
-                  </div>
-                </div>
-              );
-            })}
-          </div>
+                  return (
+                    <div key={key} className="p-4 flex items-center gap-4">
+                      <div className="flex-1">
+                        <p className="text-white font-medium">{label}</p>
+                        <p className="text-xs text-gray-500">
+                          {categoryClusters.length} questions, {categoryFaqs.length} FAQs
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <span className="text-lg font-bold text-white">{totalCount}</span>
+                        <p className="text-xs text-gray-500">total asks</p>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </>
         )}
       </div>
+    </div>
+  );
+}
 
-      {/* Note about localStorage */}
-      <div className="p-4 bg-violet-500/10 rounded-lg border border-violet-500/20">
-        <p className="text-sm text-violet-400">
-          <strong>Note:</strong> FAQ analytics data is stored in your browser&apos;s localStorage. This data is
-          specific to your browser and won&apos;t sync across devices. For production use, consider implementing
-          server-side analytics.
-        </p>
+// Draft Review Item Component
+interface DraftReviewItemProps {
+  draft: FAQDraft;
+  isBusy: boolean;
+  onPublish: (edits: { question: string; answer: string; category: string }) => void;
+  onReject: () => void;
+}
+
+function DraftReviewItem({ draft, isBusy, onPublish, onReject }: DraftReviewItemProps) {
+  const [question, setQuestion] = useState(draft.question);
+  const [answer, setAnswer] = useState(draft.answer);
+  const [category, setCategory] = useState(draft.category);
+
+  const fieldClass =
+    "w-full px-3 py-2 rounded-lg text-sm bg-[#0a0a0a] border border-[#262626] text-white focus:outline-none focus:ring-2 focus:ring-violet-500";
+
+  return (
+    <div className="p-4 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-xs text-gray-500">
+          Asked {draft.query_count} times · drafted {new Date(draft.created_at).toLocaleDateString()}
+        </span>
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          aria-label="Category"
+          className={cn(fieldClass, "w-auto py-1")}
+        >
+          {Object.entries(FAQ_CATEGORIES).map(([key, label]) => (
+            <option key={key} value={key}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <input
+        value={question}
+        onChange={(e) => setQuestion(e.target.value)}
+        aria-label="Question"
+        className={cn(fieldClass, "font-medium")}
+      />
+      <textarea
+        value={answer}
+        onChange={(e) => setAnswer(e.target.value)}
+        aria-label="Answer"
+        rows={4}
+        className={fieldClass}
+      />
+
+      {draft.sample_queries.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-gray-400 mb-1">Asked as</p>
+          <ul className="space-y-0.5">
+            {draft.sample_queries.map((query) => (
+              <li key={query} className="text-xs text-gray-500 truncate">
+                &ldquo;{query}&rdquo;
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {draft.source_docs.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="text-xs font-medium text-gray-400">Sources</p>
+          {draft.source_docs.map((doc) => (
+            <a
+              key={doc.url}
+              href={doc.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-xs px-2 py-0.5 rounded-full bg-[#1a1a1a] text-blue-400 hover:text-blue-300"
+            >
+              {doc.title}
+            </a>
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2">
+        <button
+          onClick={onReject}
+          disabled={isBusy}
+          className="px-3 py-1.5 text-sm rounded-lg text-gray-400 hover:text-red-400 hover:bg-red-500/10 disabled:opacity-50 transition-colors"
+        >
+          Reject
+        </button>
+        <button
+          onClick={() => onPublish({ question, answer, category })}
+          disabled={isBusy || !question.trim() || !answer.trim()}
+          className="px-3 py-1.5 text-sm font-medium rounded-lg text-white bg-gradient-to-r from-violet-600 via-blue-600 to-cyan-600 disabled:opacity-50"
+        >
+          {isBusy ? "Publishing..." : "Publish"}
+        </button>
       </div>
     </div>
   );
@@ -0,0 +1,455 @@
+"use client";
+
+/**
+ * Admin Job Queue Page
+ *
+ * Console for the background job queue:
+ * - Queue stats by status
+ * - Filter jobs by status and type
+ * - Inspect payload and error history
+ * - Bulk retry or cancel dead-lettered jobs
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { cn } from "@/lib/design-system";
+import {
+  getJobQueueOverview,
+  retryJobsAction,
+  cancelJobsAction,
+} from "@/app/actions/admin-jobs";
+import type { Job, JobStatus, JobType, QueueStats } from "@/lib/job-queue";
+import {
+  RefreshCwIcon,
+  RotateCcwIcon,
+  XIcon,
+  CheckIcon,
+  ClockIcon,
+  SkullIcon,
+  InboxIcon,
+  ChevronRightIcon,
+} from "lucide-react";
+
+const STATUSES: JobStatus[] = [
+  "pending",
+  "processing",
+  "completed",
+  "dead_letter",
+  "cancelled",
+];
+
+const JOB_TYPES: JobType[] = [
+  "email",
+  "email_bulk",
+  "sign_in_alert",
+  "donation_receipt",
+  "donation_thank_you",
+  "donation_annual_statement",
+  "webhook",
+  "webhook_delivery",
+  "notification",
+  "cleanup",
+  "api_key_reencrypt",
+  "achievement_backfill",
+];
+
+const statusColors: Record<JobStatus, string> = {
+  pending: "text-yellow-400 bg-yellow-500/10",
+  processing: "text-blue-400 bg-blue-500/10",
+  completed: "text-green-400 bg-green-500/10",
+  dead_letter: "text-red-400 bg-red-500/10",
+  cancelled: "text-gray-400 bg-gray-500/10",
+};
+
+const statusLabels: Record<JobStatus, string> = {
+  pending: "Pending",
+  processing: "Processing",
+  completed: "Completed",
+  dead_letter: "Dead letter",
+  cancelled: "Cancelled",
+};
+
+export default function JobsPage() {
+  const [stats, setStats] = useState<QueueStats[]>([]);
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [total, setTotal] = useState(0);
+  const [statusFilter, setStatusFilter] = useState<JobStatus | "">("dead_letter");
+  const [typeFilter, setTypeFilter] = useState<JobType | "">("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch stats and jobs
+  const fetchJobs = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const result = await getJobQueueOverview({
+        status: statusFilter || undefined,
+        type: typeFilter || undefined,
+      });
+      if (result.error) {
+        setError(result.error);
+      } else {
+        setStats(result.stats || []);
+        setJobs(result.jobs || []);
+        setTotal(result.total || 0);
+        setSelected(new Set());
+        setError(null);
+      }
+    } catch {
+      setError("Failed to load job queue");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter, typeFilter]);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  const toggleSelected = (id: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setSelected((prev) =>
+      prev.size === jobs.length ? new Set() : new Set(jobs.map((j) => j.id))
+    );
+  };
+
+  // Handle bulk retry / cancel
+  const handleBulk = async (action: "retry" | "cancel") => {
+    if (selected.size === 0) return;
+    if (
+      action === "cancel" &&
+      !confirm(`Cancel ${selected.size} job${selected.size === 1 ? "" : "s"}?`)
+    ) {
+      return;
+    }
+
+    try {
+      setIsUpdating(true);
+      const ids = Array.from(selected);
+      const result =
+        action === "retry" ? await retryJobsAction(ids) : await cancelJobsAction(ids);
+      if (result.error) {
+        alert(result.error);
+        return;
+      }
+      if ((result.updated ?? 0) < ids.length) {
+        alert(
+          `${result.updated ?? 0} of ${ids.length} jobs updated. Only ${
+            action === "retry"
+              ? "dead-lettered or cancelled"
+              : "pending or dead-lettered"
+          } jobs can be ${action === "retry" ? "retried" : "cancelled"}.`
+        );
+      }
+      fetchJobs();
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const countFor = (status: JobStatus) =>
+    stats.find((s) => s.status === status)?.count ?? 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Background Jobs</h1>
+          <p className="mt-1 text-gray-400">
+            Monitor the job queue and recover failed jobs
+          </p>
+        </div>
+        <button
+          onClick={fetchJobs}
+          disabled={isLoading}
+          className="flex items-center gap-2 px-3 py-2 text-sm text-gray-400 hover:text-white bg-gray-800 rounded-lg transition-colors"
+        >
+          <RefreshCwIcon className={cn("w-4 h-4", isLoading && "animate-spin")} />
+          Refresh
+        </button>
+      </div>
+
+      {/* Error */}
+      {error && (
+        <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/20 text-red-400">
+          {error}
+        </div>
+      )}
+
+      {/* Stats */}
+      <div className="grid grid-cols-2 sm:grid-cols-5 gap-4">
+        {STATUSES.map((status) => (
+          <button
+            key={status}
+            onClick={() => setStatusFilter(statusFilter === status ? "" : status)}
+            className={cn(
+              "p-4 rounded-xl bg-gray-800/50 border text-left transition-colors",
+              statusFilter === status
+                ? "border-blue-500"
+                : "border-gray-700 hover:border-gray-600"
+            )}
+          >
+            <p className="text-xs text-gray-400">{statusLabels[status]}</p>
+            <p
+              className={cn(
+                "mt-1 text-2xl font-bold",
+                statusColors[status].split(" ")[0]
+              )}
+            >
+              {countFor(status).toLocaleString()}
+            </p>
+          </button>
+        ))}
+      </div>
+
+      {/* Jobs Table */}
+      <div className="rounded-xl bg-gray-800/50 border border-gray-700 overflow-hidden">
+        <div className="px-4 py-3 border-b border-gray-700 flex flex-wrap items-center gap-3">
+          <h2 className="font-medium text-white">
+            Jobs <span className="text-sm text-gray-500">({total})</span>
+          </h2>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as JobStatus | "")}
+            className="px-2 py-1 text-sm bg-gray-900 border border-gray-700 rounded-lg text-gray-300"
+          >
+            <option value="">All statuses</option>
+            {STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {statusLabels[status]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={typeFilter}
+            onChange={(e) => setTypeFilter(e.target.value as JobType | "")}
+            className="px-2 py-1 text-sm bg-gray-900 border border-gray-700 rounded-lg text-gray-300"
+          >
+            <option value="">All types</option>
+            {JOB_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+          <div className="ml-auto flex gap-2">
+            <button
+              onClick={() => handleBulk("retry")}
+              disabled={selected.size === 0 || isUpdating}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-white bg-blue-500 rounded-lg hover:bg-blue-600 disabled:opacity-50 transition-colors"
+            >
+              <RotateCcwIcon className="w-4 h-4" />
+              Retry ({selected.size})
+            </button>
+            <button
+              onClick={() => handleBulk("cancel")}
+              disabled={selected.size === 0 || isUpdating}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-300 bg-gray-700 rounded-lg hover:bg-gray-600 disabled:opacity-50 transition-colors"
+            >
+              <XIcon className="w-4 h-4" />
+              Cancel ({selected.size})
+            </button>
+          </div>
+        </div>
+
+        {isLoading && jobs.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">
+            <RefreshCwIcon className="w-6 h-6 mx-auto animate-spin mb-2" />
+            Loading jobs...
+          </div>
+        ) : jobs.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">
+            <InboxIcon className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            No jobs match these filters.
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-700/50">
+            <label className="px-4 py-2 flex items-center gap-3 text-xs text-gray-500">
+              <input
+                type="checkbox"
+                checked={selected.size === jobs.length}
+                onChange={toggleAll}
+                className="rounded border-gray-600 bg-gray-900"
+              />
+              Select all on this page
+            </label>
+            {jobs.map((job) => (
+              <JobRow
+                key={job.id}
+                job={job}
+                isSelected={selected.has(job.id)}
+                isExpanded={expandedId === job.id}
+                onToggleSelected={() => toggleSelected(job.id)}
+                onToggleExpanded={() =>
+                  setExpandedId(expandedId === job.id ? null : job.id)
+                }
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Job Row
+function JobRow({
+  job,
+  isSelected,
+  isExpanded,
+  onToggleSelected,
+  onToggleExpanded,
+}: {
+  job: Job;
+  isSelected: boolean;
+  isExpanded: boolean;
+  onToggleSelected: () => void;
+  onToggleExpanded: () => void;
+}) {
+  return (
+    <div>
+      <div className="px-4 py-3 flex items-center gap-4">
+        <input
+          type="checkbox"
+          checked={isSelected}
+          onChange={onToggleSelected}
+          className="rounded border-gray-600 bg-gray-900"
+        />
+
+        {/* Type */}
+        <button
+          onClick={onToggleExpanded}
+          className="flex items-center gap-2 min-w-[180px] text-left"
+        >
+          <ChevronRightIcon
+            className={cn(
+              "w-4 h-4 text-gray-500 transition-transform",
+              isExpanded && "rotate-90"
+            )}
+          />
+          <div>
+            <p className="text-sm font-medium text-white">{job.type}</p>
+            <p className="text-xs text-gray-500 font-mono">{job.id.slice(0, 8)}</p>
+          </div>
+        </button>
+
+        {/* Status */}
+        <div className="flex-1 min-w-[120px]">
+          <span
+            className={cn(
+              "inline-flex items-center gap-1.5 px-2 py-1 text-xs font-medium rounded-full",
+              statusColors[job.status]
+            )}
+          >
+            {job.status === "pending" && <ClockIcon className="w-3 h-3" />}
+            {job.status === "processing" && (
+              <RefreshCwIcon className="w-3 h-3 animate-spin" />
+            )}
+            {job.status === "completed" && <CheckIcon className="w-3 h-3" />}
+            {job.status === "dead_letter" && <SkullIcon className="w-3 h-3" />}
+            {job.status === "cancelled" && <XIcon className="w-3 h-3" />}
+            {statusLabels[job.status]}
+          </span>
+          {job.last_error && job.status !== "completed" && (
+            <p className="text-xs text-red-400 mt-1 truncate max-w-md">
+              {job.last_error}
+            </p>
+          )}
+        </div>
+
+        {/* Attempts */}
+        <div className="text-right min-w-[80px]">
+          <p className="text-sm text-gray-400">
+            {job.attempts}/{job.max_attempts}
+          </p>
+          <p className="text-xs text-gray-500">attempts</p>
+        </div>
+
+        {/* Created */}
+        <div className="text-right min-w-[100px]">
+          <p className="text-xs text-gray-400">
+            {new Date(job.created_at).toLocaleDateString()}
+          </p>
+          <p className="text-xs text-gray-500">
+            {new Date(job.created_at).toLocaleTimeString()}
+          </p>
+        </div>
+      </div>
+
+      {/* Detail */}
+      {isExpanded && (
+        <div className="px-4 pb-4 pl-12 grid gap-4 lg:grid-cols-2">
+          <div>
+            <h3 className="text-xs font-medium text-gray-400 uppercase mb-2">
+              Payload
+            </h3>
+            <pre className="p-3 text-xs text-gray-300 bg-gray-900 rounded-lg overflow-x-auto max-h-80">
+              {JSON.stringify(job.payload[job.type] ?? job.payload, null, 2)}
+            </pre>
+            <dl className="mt-3 grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+              <dt className="text-gray-500">Priority</dt>
+              <dd className="text-gray-300">{job.priority}</dd>
+              <dt className="text-gray-500">Run at</dt>
+              <dd className="text-gray-300">{new Date(job.run_at).toLocaleString()}</dd>
+              {job.idempotency_key && (
+                <>
+                  <dt className="text-gray-500">Idempotency key</dt>
+                  <dd className="text-gray-300 font-mono truncate">
+                    {job.idempotency_key}
+                  </dd>
+                </>
+              )}
+              {job.dead_lettered_at && (
+                <>
+                  <dt className="text-gray-500">Dead-lettered</dt>
+                  <dd className="text-gray-300">
+                    {new Date(job.dead_lettered_at).toLocaleString()}
+                  </dd>
+                </>
+              )}
+            </dl>
+          </div>
+          <div>
+            <h3 className="text-xs font-medium text-gray-400 uppercase mb-2">
+              Error history ({job.error_history?.length ?? 0})
+            </h3>
+            {!job.error_history || job.error_history.length === 0 ? (
+              <p className="text-xs text-gray-500">No errors recorded.</p>
+            ) : (
+              <ol className="space-y-2">
+                {job.error_history.map((entry, index) => (
+                  <li
+                    key={index}
+                    className="p-3 rounded-lg bg-red-500/5 border border-red-500/10"
+                  >
+                    <div className="flex justify-between text-xs text-gray-500">
+                      <span>Attempt {entry.attempt}</span>
+                      <span>{new Date(entry.failedAt).toLocaleString()}</span>
+                    </div>
+                    <p className="mt-1 text-xs text-red-400 font-mono break-words">
+                      {entry.error}
+                    </p>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,486 @@
+"use client";
+
+/**
+ * Points Dashboard
+ *
+ * Moderator view of the points system:
+ * - Accounts flagged for point farming (review, audit ledger)
+ * - Leaderboard seasons (create a challenge)
+ * - Archived weekly, monthly and season standings
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { cn } from "@/lib/design-system";
+import { LEADERBOARD_WINDOWS, type LeaderboardEntry } from "@/lib/gamification";
+import type { ArchivedLeaderboard, LeaderboardSeason } from "@/lib/leaderboards";
+import {
+  getPointsFlags,
+  reviewPointsFlag,
+  getUserPointsLedger,
+  getSeasons,
+  createSeason,
+  getLeaderboardArchives,
+  getArchivedStandings,
+  type PointsFlag,
+  type PointsLedgerEntry,
+} from "@/app/actions/points";
+
+type Tab = "flags" | "seasons" | "archives";
+
+const FLAG_REASONS = {
+  velocity: "Point velocity",
+  low_trust: "Low trust score",
+} as const;
+
+const fieldClass =
+  "w-full px-3 py-2 rounded-lg text-sm bg-[#0a0a0a] border border-[#262626] text-white focus:outline-none focus:ring-2 focus:ring-violet-500";
+
+export default function PointsDashboardPage() {
+  const [activeTab, setActiveTab] = useState<Tab>("flags");
+  const [flags, setFlags] = useState<PointsFlag[]>([]);
+  const [seasons, setSeasons] = useState<LeaderboardSeason[]>([]);
+  const [archives, setArchives] = useState<ArchivedLeaderboard[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [flagsResult, seasonsResult, archivesResult] = await Promise.all([
+        getPointsFlags(),
+        getSeasons(),
+        getLeaderboardArchives(),
+      ]);
+      const firstError = flagsResult.error || seasonsResult.error || archivesResult.error;
+      if (firstError) {
+        setError(firstError);
+        return;
+      }
+      setFlags(flagsResult.flags || []);
+      setSeasons(seasonsResult.seasons || []);
+      setArchives(archivesResult.archives || []);
+      setError(null);
+    } catch {
+      setError("Failed to load points data");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  const handleReview = async (flagId: string, decision: "dismissed" | "confirmed") => {
+    if (
+      decision === "confirmed" &&
+      !confirm("Freeze this account's points? It will stop earning and be hidden from leaderboards.")
+    ) {
+      return;
+    }
+    setBusyId(flagId);
+    const result = await reviewPointsFlag(flagId, decision);
+    setBusyId(null);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    fetchData();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-white">Points &amp; Leaderboards</h1>
+        <p className="mt-1 text-gray-400">
+          Review farming flags, run leaderboard seasons and browse past standings
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/20 text-sm text-red-400">
+          {error}
+        </div>
+      )}
+
+      {/* Tabs */}
+      <div className="border-b border-[#262626]">
+        <div className="flex gap-4">
+          {(["flags", "seasons", "archives"] as const).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={cn(
+                "px-4 py-2 text-sm font-medium border-b-2 transition-colors",
+                activeTab === tab
+                  ? "border-violet-500 text-white"
+                  : "border-transparent text-gray-400 hover:text-white"
+              )}
+            >
+              {tab === "flags" && `Flagged Accounts${flags.length > 0 ? ` (${flags.length})` : ""}`}
+              {tab === "seasons" && "Seasons"}
+              {tab === "archives" && "Archived Leaderboards"}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Tab Content */}
+      <div className="bg-[#111111] rounded-xl border border-[#262626] overflow-hidden">
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : (
+          <>
+            {activeTab === "flags" && (
+              <div className="divide-y divide-[#262626]">
+                {flags.length === 0 ? (
+                  <div className="p-8 text-center text-gray-500">
+                    No flagged accounts. Accounts earning points unusually fast or with a
+                    suspicious trust score appear here.
+                  </div>
+                ) : (
+                  flags.map((flag) => (
+                    <FlagItem
+                      key={flag.id}
+                      flag={flag}
+                      isBusy={busyId === flag.id}
+                      onDismiss={() => handleReview(flag.id, "dismissed")}
+                      onConfirm={() => handleReview(flag.id, "confirmed")}
+                    />
+                  ))
+                )}
+              </div>
+            )}
+
+            {activeTab === "seasons" && <SeasonsPanel seasons={seasons} onCreated={fetchData} />}
+
+            {activeTab === "archives" && <ArchivesPanel archives={archives} />}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Flag Item Component
+interface FlagItemProps {
+  flag: PointsFlag;
+  isBusy: boolean;
+  onDismiss: () => void;
+  onConfirm: () => void;
+}
+
+function FlagItem({ flag, isBusy, onDismiss, onConfirm }: FlagItemProps) {
+  const [ledger, setLedger] = useState<PointsLedgerEntry[] | null>(null);
+  const [ledgerError, setLedgerError] = useState<string | null>(null);
+
+  const toggleLedger = async () => {
+    if (ledger) {
+      setLedger(null);
+      return;
+    }
+    const result = await getUserPointsLedger(flag.user_id);
+    if (result.error) {
+      setLedgerError(result.error);
+      return;
+    }
+    setLedger(result.entries || []);
+  };
+
+  return (
+    <div className="p-4 space-y-3">
+      <div className="flex items-start gap-4">
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2">
+            <p className="text-white font-medium truncate">{flag.username || flag.email}</p>
+            <span className="text-xs px-2 py-0.5 rounded-full bg-amber-500/10 text-amber-400">
+              {FLAG_REASONS[flag.reason]}
+            </span>
+          </div>
+          <p className="text-sm text-gray-400 mt-1">{flag.details}</p>
+          <p className="text-xs text-gray-500 mt-1">
+            {flag.points_last_hour} pts last hour · {flag.points_last_day} pts last day
+            {flag.trust_score !== null && ` · trust score ${flag.trust_score}`}
+            {" · "}
+            {flag.total_points.toLocaleString()} pts total · flagged{" "}
+            {new Date(flag.created_at).toLocaleString()}
+          </p>
+        </div>
+        <div className="flex-shrink-0 flex items-center gap-2">
+          <button
+            onClick={toggleLedger}
+            className="px-3 py-1.5 text-sm rounded-lg text-gray-400 hover:text-white hover:bg-[#1a1a1a] transition-colors"
+          >
+            {ledger ? "Hide ledger" : "View ledger"}
+          </button>
+          <button
+            onClick={onDismiss}
+            disabled={isBusy}
+            className="px-3 py-1.5 text-sm rounded-lg text-gray-400 hover:text-white hover:bg-[#1a1a1a] disabled:opacity-50 transition-colors"
+          >
+            Dismiss
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={isBusy}
+            className="px-3 py-1.5 text-sm rounded-lg text-red-400 bg-red-500/10 hover:bg-red-500/20 disabled:opacity-50 transition-colors"
+          >
+            Freeze points
+          </button>
+        </div>
+      </div>
+
+      {ledgerError && <p className="text-xs text-red-400">{ledgerError}</p>}
+
+      {ledger && (
+        <div className="rounded-lg border border-[#262626] divide-y divide-[#262626]">
+          {ledger.length === 0 ? (
+            <p className="p-3 text-xs text-gray-500">No ledger entries.</p>
+          ) : (
+            ledger.map((entry) => (
+              <div key={entry.id} className="px-3 py-2 flex items-center gap-3 text-xs">
+                <span className="w-40 text-gray-500">{new Date(entry.created_at).toLocaleString()}</span>
+                <span className="flex-1 text-gray-300 truncate">
+                  {entry.reason}
+                  {entry.subject_id && <span className="text-gray-500"> · {entry.subject_id}</span>}
+                </span>
+                <span
+                  className={cn(
+                    "font-medium",
+                    entry.points >= 0 ? "text-emerald-400" : "text-red-400"
+                  )}
+                >
+                  {entry.points >= 0 ? `+${entry.points}` : entry.points}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Seasons Panel Component
+function SeasonsPanel({
+  seasons,
+  onCreated,
+}: {
+  seasons: LeaderboardSeason[];
+  onCreated: () => void;
+}) {
+  const [name, setName] = useState("");
+  const [slug, setSlug] = useState("");
+  const [description, setDescription] = useState("");
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [now] = useState(() => Date.now());
+
+  const handleNameChange = (value: string) => {
+    setName(value);
+    setSlug(
+      value
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-|-$/g, "")
+    );
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    setFormError(null);
+    // Dates are picked as whole UTC days
+    const result = await createSeason({
+      name,
+      slug,
+      description,
+      startsAt: `${startsAt}T00:00:00Z`,
+      endsAt: `${endsAt}T00:00:00Z`,
+    });
+    setIsSaving(false);
+    if (result.error) {
+      setFormError(result.error);
+      return;
+    }
+    setName("");
+    setSlug("");
+    setDescription("");
+    setStartsAt("");
+    setEndsAt("");
+    onCreated();
+  };
+
+  return (
+    <div className="divide-y divide-[#262626]">
+      <div className="p-4 space-y-3">
+        <h2 className="text-sm font-semibold text-white">New season</h2>
+        <div className="grid md:grid-cols-2 gap-3">
+          <input
+            value={name}
+            onChange={(e) => handleNameChange(e.target.value)}
+            placeholder="November Challenge"
+            aria-label="Name"
+            className={fieldClass}
+          />
+          <input
+            value={slug}
+            onChange={(e) => setSlug(e.target.value)}
+            placeholder="november-challenge"
+            aria-label="Slug"
+            className={fieldClass}
+          />
+        </div>
+        <input
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Description (optional)"
+          aria-label="Description"
+          className={fieldClass}
+        />
+        <div className="grid md:grid-cols-2 gap-3">
+          <label className="text-xs text-gray-400 space-y-1">
+            <span>Starts (UTC)</span>
+            <input
+              type="date"
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+              className={fieldClass}
+            />
+          </label>
+          <label className="text-xs text-gray-400 space-y-1">
+            <span>Ends (UTC, exclusive)</span>
+            <input
+              type="date"
+              value={endsAt}
+              onChange={(e) => setEndsAt(e.target.value)}
+              className={fieldClass}
+            />
+          </label>
+        </div>
+        {formError && <p className="text-xs text-red-400">{formError}</p>}
+        <div className="flex justify-end">
+          <button
+            onClick={handleCreate}
+            disabled={isSaving || !name.trim() || !slug.trim() || !startsAt || !endsAt}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg text-white bg-gradient-to-r from-violet-600 via-blue-600 to-cyan-600 disabled:opacity-50"
+          >
+            {isSaving ? "Creating..." : "Create season"}
+          </button>
+        </div>
+      </div>
+
+      {seasons.length === 0 ? (
+        <div className="p-8 text-center text-gray-500">No seasons yet.</div>
+      ) : (
+        seasons.map((season) => {
+          const status = season.archivedAt
+            ? "Archived"
+            : new Date(season.endsAt).getTime() <= now
+              ? "Ended"
+              : new Date(season.startsAt).getTime() <= now
+                ? "Running"
+                : "Upcoming";
+
+          return (
+            <div key={season.id} className="p-4 flex items-center gap-4">
+              <div className="flex-1 min-w-0">
+                <p className="text-white font-medium truncate">{season.name}</p>
+                <p className="text-xs text-gray-500">
+                  {season.slug} · {new Date(season.startsAt).toLocaleDateString(undefined, { timeZone: "UTC" })}
+                  {" – "}
+                  {new Date(season.endsAt).toLocaleDateString(undefined, { timeZone: "UTC" })}
+                  {season.description && ` · ${season.description}`}
+                </p>
+              </div>
+              <span
+                className={cn(
+                  "text-xs px-2 py-1 rounded-full",
+                  status === "Running" ? "bg-emerald-500/10 text-emerald-400" : "bg-[#1a1a1a] text-gray-400"
+                )}
+              >
+                {status}
+              </span>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
+
+// Archives Panel Component
+function ArchivesPanel({ archives }: { archives: ArchivedLeaderboard[] }) {
+  const [selected, setSelected] = useState<string | null>(null);
+  const [standings, setStandings] = useState<LeaderboardEntry[]>([]);
+  const [standingsError, setStandingsError] = useState<string | null>(null);
+
+  const handleSelect = async (archive: ArchivedLeaderboard) => {
+    const id = `${archive.period}:${archive.key}`;
+    if (selected === id) {
+      setSelected(null);
+      return;
+    }
+    setSelected(id);
+    setStandings([]);
+    const result = await getArchivedStandings(archive.period, archive.key);
+    setStandingsError(result.error || null);
+    setStandings(result.entries || []);
+  };
+
+  if (archives.length === 0) {
+    return (
+      <div className="p-8 text-center text-gray-500">
+        No archived leaderboards yet. Weeks, months and seasons are archived daily once they end.
+      </div>
+    );
+  }
+
+  return (
+    <div className="divide-y divide-[#262626]">
+      {archives.map((archive) => {
+        const id = `${archive.period}:${archive.key}`;
+        return (
+          <div key={id}>
+            <button
+              onClick={() => handleSelect(archive)}
+              className="w-full p-4 flex items-center gap-4 text-left hover:bg-[#1a1a1a] transition-colors"
+            >
+              <span className="text-xs px-2 py-1 rounded-full bg-violet-500/10 text-violet-400">
+                {LEADERBOARD_WINDOWS[archive.period]}
+              </span>
+              <span className="flex-1 text-white">{archive.key}</span>
+              <span className="text-xs text-gray-500">
+                {new Date(archive.startsAt).toLocaleDateString(undefined, { timeZone: "UTC" })}
+                {" – "}
+                {new Date(archive.endsAt).toLocaleDateString(undefined, { timeZone: "UTC" })}
+                {" · "}
+                {archive.entries} ranked
+              </span>
+            </button>
+
+            {selected === id && (
+              <div className="px-4 pb-4">
+                {standingsError ? (
+                  <p className="text-xs text-red-400">{standingsError}</p>
+                ) : (
+                  <ol className="rounded-lg border border-[#262626] divide-y divide-[#262626]">
+                    {standings.map((entry) => (
+                      <li key={entry.user_id} className="px-3 py-2 flex items-center gap-3 text-sm">
+                        <span className="w-8 text-gray-500">#{entry.rank}</span>
+                        <span className="flex-1 text-gray-300 truncate">{entry.username}</span>
+                        <span className="font-medium text-white">{entry.points.toLocaleString()}</span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,488 @@
+"use client";
+
+/**
+ * Webhooks Dashboard
+ *
+ * Admin console for outbound webhooks:
+ * - Register endpoints (JSON, Slack or Discord) and pick their events
+ * - Reveal signing secrets once, on create and rotate
+ * - Send test events, enable/disable and delete endpoints
+ * - Delivery log with responses and redelivery
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { cn } from "@/lib/design-system";
+import {
+  WEBHOOK_EVENTS,
+  WEBHOOK_FORMATS,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookEndpoint,
+  type WebhookEvent,
+  type WebhookFormat,
+} from "@/lib/webhooks/types";
+import {
+  getWebhookEndpoints,
+  getWebhookDeliveries,
+  createWebhookEndpoint,
+  updateWebhookEndpoint,
+  setWebhookEndpointActive,
+  rotateWebhookSecret,
+  deleteWebhookEndpoint,
+  testWebhookEndpoint,
+  redeliverWebhook,
+  type WebhookEndpointInput,
+} from "@/app/actions/webhooks";
+
+const statusColors: Record<WebhookDeliveryStatus, string> = {
+  pending: "text-yellow-400 bg-yellow-500/10",
+  retrying: "text-orange-400 bg-orange-500/10",
+  delivered: "text-emerald-400 bg-emerald-500/10",
+  failed: "text-red-400 bg-red-500/10",
+};
+
+const fieldClass =
+  "w-full px-3 py-2 rounded-lg text-sm bg-[#0a0a0a] border border-[#262626] text-white focus:outline-none focus:ring-2 focus:ring-violet-500";
+
+export default function WebhooksDashboardPage() {
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [endpointFilter, setEndpointFilter] = useState<string>("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<{ name: string; secret: string } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(async () => {
+    try {
+      const [endpointsResult, deliveriesResult] = await Promise.all([
+        getWebhookEndpoints(),
+        getWebhookDeliveries({ endpointId: endpointFilter || undefined }),
+      ]);
+      const firstError = endpointsResult.error || deliveriesResult.error;
+      if (firstError) {
+        setError(firstError);
+        return;
+      }
+      setEndpoints(endpointsResult.endpoints || []);
+      setDeliveries(deliveriesResult.deliveries || []);
+      setError(null);
+    } catch {
+      setError("Failed to load webhooks");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [endpointFilter]);
+
+  useEffect(() => {
+    fetchData();
+  }, [fetchData]);
+
+  // Run an endpoint or delivery action, then refresh
+  const run = async (id: string, action: () => Promise<{ error?: string }>) => {
+    setBusyId(id);
+    const result = await action();
+    setBusyId(null);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    fetchData();
+  };
+
+  const handleCreate = async (input: WebhookEndpointInput) => {
+    const result = await createWebhookEndpoint(input);
+    if (result.error) return result.error;
+    setShowForm(false);
+    if (result.secret) {
+      setRevealedSecret({ name: input.name, secret: result.secret });
+    }
+    fetchData();
+    return null;
+  };
+
+  const handleUpdate = async (endpointId: string, input: WebhookEndpointInput) => {
+    const result = await updateWebhookEndpoint(endpointId, input);
+    if (result.error) return result.error;
+    setEditingId(null);
+    fetchData();
+    return null;
+  };
+
+  const handleRotate = async (endpoint: WebhookEndpoint) => {
+    if (!confirm(`Rotate the signing secret for "${endpoint.name}"? The old secret stops working immediately.`)) {
+      return;
+    }
+    setBusyId(endpoint.id);
+    const result = await rotateWebhookSecret(endpoint.id);
+    setBusyId(null);
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+    if (result.secret) {
+      setRevealedSecret({ name: endpoint.name, secret: result.secret });
+    }
+  };
+
+  const handleDelete = (endpoint: WebhookEndpoint) => {
+    if (!confirm(`Delete "${endpoint.name}" and its delivery log?`)) return;
+    run(endpoint.id, () => deleteWebhookEndpoint(endpoint.id));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-white">Webhooks</h1>
+          <p className="mt-1 text-gray-400">
+            Send resource, report and donation events to your own services, Slack or Discord
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm((shown) => !shown)}
+          className="px-4 py-2 text-sm font-medium rounded-lg text-white bg-gradient-to-r from-violet-600 via-blue-600 to-cyan-600"
+        >
+          {showForm ? "Cancel" : "Add webhook"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-lg bg-red-500/10 border border-red-500/20 text-sm text-red-400">
+          {error}
+        </div>
+      )}
+
+      {revealedSecret && (
+        <div className="p-4 rounded-lg bg-emerald-500/10 border border-emerald-500/20 space-y-2">
+          <p className="text-sm text-emerald-300">
+            Signing secret for <strong>{revealedSecret.name}</strong>. Copy it now; it won&apos;t
+            be shown again.
+          </p>
+          <code className="block px-3 py-2 rounded bg-black/40 text-sm text-white break-all">
+            {revealedSecret.secret}
+          </code>
+          <p className="text-xs text-gray-400">
+            Verify requests by computing HMAC-SHA256 of{" "}
+            <code>{"<X-Webhook-Timestamp>.<raw body>"}</code> with this secret and comparing it to
+            the <code>X-Webhook-Signature</code> header (<code>sha256=…</code>).
+          </p>
+          <button onClick={() => setRevealedSecret(null)} className="text-xs text-gray-400 hover:text-white">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {showForm && (
+        <div className="bg-[#111111] rounded-xl border border-[#262626] p-4">
+          <EndpointForm submitLabel="Create webhook" onSubmit={handleCreate} />
+        </div>
+      )}
+
+      {/* Endpoints */}
+      <div className="bg-[#111111] rounded-xl border border-[#262626] overflow-hidden">
+        <div className="px-4 py-3 border-b border-[#262626]">
+          <h2 className="text-lg font-semibold text-white">Endpoints</h2>
+        </div>
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : endpoints.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No webhooks registered yet.</div>
+        ) : (
+          <div className="divide-y divide-[#262626]">
+            {endpoints.map((endpoint) => (
+              <div key={endpoint.id} className="p-4 space-y-3">
+                <div className="flex items-start gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className={cn("font-medium truncate", endpoint.isActive ? "text-white" : "text-gray-500")}>
+                        {endpoint.name}
+                      </p>
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-violet-500/10 text-violet-400">
+                        {WEBHOOK_FORMATS[endpoint.format]}
+                      </span>
+                      {!endpoint.isActive && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-[#1a1a1a] text-gray-400">
+                          Disabled
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 truncate mt-1">{endpoint.url}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {endpoint.events.map((event) => WEBHOOK_EVENTS[event]).join(" · ")}
+                    </p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {endpoint.lastDeliveryAt ? (
+                        <>
+                          Last delivery {new Date(endpoint.lastDeliveryAt).toLocaleString()}
+                          {endpoint.lastDeliveryStatus && (
+                            <span
+                              className={cn(
+                                "ml-2 px-1.5 py-0.5 rounded capitalize",
+                                statusColors[endpoint.lastDeliveryStatus]
+                              )}
+                            >
+                              {endpoint.lastDeliveryStatus}
+                            </span>
+                          )}
+                        </>
+                      ) : (
+                        "No deliveries yet"
+                      )}
+                      {endpoint.failedLastDay > 0 && (
+                        <span className="ml-2 text-red-400">{endpoint.failedLastDay} failed in 24h</span>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex-shrink-0 flex flex-wrap justify-end items-center gap-2">
+                    <button
+                      onClick={() => run(endpoint.id, () => testWebhookEndpoint(endpoint.id))}
+                      disabled={busyId === endpoint.id}
+                      className="px-3 py-1.5 text-sm rounded-lg bg-violet-500/10 text-violet-400 hover:bg-violet-500/20 disabled:opacity-50 transition-colors"
+                    >
+                      Send test
+                    </button>
+                    <button
+                      onClick={() => setEditingId(editingId === endpoint.id ? null : endpoint.id)}
+                      className="px-3 py-1.5 text-sm rounded-lg text-gray-400 hover:text-white hover:bg-[#1a1a1a] transition-colors"
+                    >
+                      {editingId === endpoint.id ? "Close" : "Edit"}
+                    </button>
+                    <button
+                      onClick={() =>
+                        run(endpoint.id, () => setWebhookEndpointActive(endpoint.id, !endpoint.isActive))
+                      }
+                      disabled={busyId === endpoint.id}
+                      className="px-3 py-1.5 text-sm rounded-lg text-gray-400 hover:text-white hover:bg-[#1a1a1a] disabled:opacity-50 transition-colors"
+                    >
+                      {endpoint.isActive ? "Disable" : "Enable"}
+                    </button>
+                    <button
+                      onClick={() => handleRotate(endpoint)}
+                      disabled={busyId === endpoint.id}
+                      className="px-3 py-1.5 text-sm rounded-lg text-gray-400 hover:text-white hover:bg-[#1a1a1a] disabled:opacity-50 transition-colors"
+                    >
+                      Rotate secret
+                    </button>
+                    <button
+                      onClick={() => handleDelete(endpoint)}
+                      disabled={busyId === endpoint.id}
+                      className="px-3 py-1.5 text-sm rounded-lg text-gray-400 hover:text-red-400 hover:bg-red-500/10 disabled:opacity-50 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {editingId === endpoint.id && (
+                  <EndpointForm
+                    initial={endpoint}
+                    submitLabel="Save changes"
+                    onSubmit={(input) => handleUpdate(endpoint.id, input)}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Delivery log */}
+      <div className="bg-[#111111] rounded-xl border border-[#262626] overflow-hidden">
+        <div className="px-4 py-3 border-b border-[#262626] flex items-center justify-between gap-4">
+          <h2 className="text-lg font-semibold text-white">Recent deliveries</h2>
+          <select
+            value={endpointFilter}
+            onChange={(e) => setEndpointFilter(e.target.value)}
+            aria-label="Filter by endpoint"
+            className={cn(fieldClass, "w-auto py-1")}
+          >
+            <option value="">All endpoints</option>
+            {endpoints.map((endpoint) => (
+              <option key={endpoint.id} value={endpoint.id}>
+                {endpoint.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        {deliveries.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No deliveries yet.</div>
+        ) : (
+          <div className="divide-y divide-[#262626]">
+            {deliveries.map((delivery) => (
+              <DeliveryItem
+                key={delivery.id}
+                delivery={delivery}
+                isBusy={busyId === delivery.id}
+                onRedeliver={() => run(delivery.id, () => redeliverWebhook(delivery.id))}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Endpoint Form Component
+interface EndpointFormProps {
+  initial?: WebhookEndpoint;
+  submitLabel: string;
+  // Resolves to an error message, or null on success
+  onSubmit: (input: WebhookEndpointInput) => Promise<string | null>;
+}
+
+function EndpointForm({ initial, submitLabel, onSubmit }: EndpointFormProps) {
+  const [name, setName] = useState(initial?.name ?? "");
+  const [url, setUrl] = useState(initial?.url ?? "");
+  const [format, setFormat] = useState<WebhookFormat>(initial?.format ?? "json");
+  const [events, setEvents] = useState<WebhookEvent[]>(initial?.events ?? []);
+  const [isSaving, setIsSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents((current) =>
+      current.includes(event) ? current.filter((e) => e !== event) : [...current, event]
+    );
+  };
+
+  const handleSubmit = async () => {
+    setIsSaving(true);
+    const submitError = await onSubmit({ name, url, format, events });
+    setIsSaving(false);
+    setFormError(submitError);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid md:grid-cols-3 gap-3">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Moderation channel"
+          aria-label="Name"
+          className={fieldClass}
+        />
+        <input
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://hooks.slack.com/services/..."
+          aria-label="URL"
+          className={cn(fieldClass, "md:col-span-2")}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-xs font-medium text-gray-400">Format</span>
+        {(Object.keys(WEBHOOK_FORMATS) as WebhookFormat[]).map((key) => (
+          <label key={key} className="flex items-center gap-1.5 text-sm text-gray-300">
+            <input
+              type="radio"
+              name={`format-${initial?.id ?? "new"}`}
+              checked={format === key}
+              onChange={() => setFormat(key)}
+            />
+            {WEBHOOK_FORMATS[key]}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-xs font-medium text-gray-400">Events</span>
+        {(Object.keys(WEBHOOK_EVENTS) as WebhookEvent[]).map((event) => (
+          <label key={event} className="flex items-center gap-1.5 text-sm text-gray-300">
+            <input type="checkbox" checked={events.includes(event)} onChange={() => toggleEvent(event)} />
+            {WEBHOOK_EVENTS[event]}
+          </label>
+        ))}
+      </div>
+
+      {formError && <p className="text-xs text-red-400">{formError}</p>}
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSubmit}
+          disabled={isSaving || !name.trim() || !url.trim() || events.length === 0}
+          className="px-3 py-1.5 text-sm font-medium rounded-lg text-white bg-gradient-to-r from-violet-600 via-blue-600 to-cyan-600 disabled:opacity-50"
+        >
+          {isSaving ? "Saving..." : submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Delivery Item Component
+interface DeliveryItemProps {
+  delivery: WebhookDelivery;
+  isBusy: boolean;
+  onRedeliver: () => void;
+}
+
+function DeliveryItem({ delivery, isBusy, onRedeliver }: DeliveryItemProps) {
+  const [expanded, setExpanded] = useState(false);
+  const canRedeliver = delivery.status === "delivered" || delivery.status === "failed";
+
+  return (
+    <div className="p-4 space-y-3">
+      <div className="flex items-center gap-4">
+        <span className={cn("text-xs px-2 py-1 rounded-full capitalize", statusColors[delivery.status])}>
+          {delivery.status}
+        </span>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-white truncate">
+            {delivery.event in WEBHOOK_EVENTS
+              ? WEBHOOK_EVENTS[delivery.event as WebhookEvent]
+              : "Test event"}
+            <span className="text-gray-500"> → {delivery.endpointName}</span>
+          </p>
+          <p className="text-xs text-gray-500">
+            {new Date(delivery.createdAt).toLocaleString()}
+            {" · "}
+            {delivery.attempts} {delivery.attempts === 1 ? "attempt" : "attempts"}
+            {delivery.responseStatus !== null && ` · HTTP ${delivery.responseStatus}`}
+            {delivery.durationMs !== null && ` · ${delivery.durationMs}ms`}
+          </p>
+        </div>
+        <button
+          onClick={() => setExpanded((shown) => !shown)}
+          className="text-xs text-gray-400 hover:text-white"
+        >
+          {expanded ? "Hide" : "Details"}
+        </button>
+        {canRedeliver && (
+          <button
+            onClick={onRedeliver}
+            disabled={isBusy}
+            className="text-xs px-3 py-1.5 rounded-lg bg-violet-500/10 text-violet-400 hover:bg-violet-500/20 disabled:opacity-50 transition-colors"
+          >
+            Redeliver
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="space-y-2">
+          {delivery.error && <p className="text-xs text-red-400">{delivery.error}</p>}
+          <div>
+            <p className="text-xs font-medium text-gray-400 mb-1">Payload</p>
+            <pre className="p-3 rounded-lg bg-[#0a0a0a] border border-[#262626] text-xs text-gray-300 overflow-x-auto">
+              {JSON.stringify(delivery.payload, null, 2)}
+            </pre>
+          </div>
+          {delivery.responseBody && (
+            <div>
+              <p className="text-xs font-medium text-gray-400 mb-1">Response</p>
+              <pre className="p-3 rounded-lg bg-[#0a0a0a] border border-[#262626] text-xs text-gray-300 overflow-x-auto whitespace-pre-wrap">
+                {delivery.responseBody}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
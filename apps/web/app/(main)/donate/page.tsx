@@ -21,8 +21,12 @@ import {
   formatDonationAmount,
   type DonorBadgeTier,
   type DonationBankInfo,
+  type DonationCampaignProgress,
+  type PaymentProviderId,
+  type PaymentProviderOption,
 } from '@/lib/donations/types';
 import { PayPalDonateButtons } from '@/components/donations/paypal-buttons';
+import { CampaignProgress } from '@/components/donations/campaign-progress';
 
 interface DonationSettings {
   preset_amounts: number[];
@@ -30,8 +34,11 @@ interface DonationSettings {
   maximum_amount: number;
   payment_methods: {
     paypal: boolean;
+    stripe: boolean;
     bank_transfer: boolean;
   };
+  /** Available providers, default first */
+  providers: PaymentProviderOption[];
   recurring_enabled: boolean;
   badge_thresholds: Record<DonorBadgeTier, number>;
 }
@@ -48,6 +55,8 @@ export default function DonatePage() {
   const [bankInfo, setBankInfo] = useState<DonationBankInfo[] | null>(null);
   const [donorName, setDonorName] = useState('');
   const [donorEmail, setDonorEmail] = useState('');
+  const [campaigns, setCampaigns] = useState<DonationCampaignProgress[]>([]);
+  const [selectedCampaign, setSelectedCampaign] = useState<DonationCampaignProgress | null>(null);
   const { error: showError, success: showSuccess } = useToast();
 
   // Load settings
@@ -58,8 +67,25 @@ export default function DonatePage() {
       .catch(() => showError('Failed to load donation settings'));
   }, [showError]);
 
+  // Load open campaigns; /donate?campaign=<slug> preselects one
+  useEffect(() => {
+    fetch('/api/donations/campaigns')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!data) return;
+        setCampaigns(data.campaigns);
+        const slug = new URLSearchParams(window.location.search).get('campaign');
+        const campaign = (data.campaigns as DonationCampaignProgress[]).find((c) => c.slug === slug);
+        if (campaign) setSelectedCampaign(campaign);
+      })
+      .catch(() => {});
+  }, []);
+
   const selectedAmount = customAmount ? parseFloat(customAmount) : amount;
 
+  // Campaign donations are taken in the campaign's currency
+  const currency = selectedCampaign?.currency ?? 'USD';
+
   // Get badge tier preview
   const getBadgeTierForAmount = (amt: number): DonorBadgeTier | null => {
     if (!settings) return null;
@@ -84,6 +110,35 @@ export default function DonatePage() {
     showError(errorMsg);
   };
 
+  // Redirect checkout for providers without inline buttons
+  const handleProviderCheckout = async (provider: PaymentProviderId) => {
+    setIsProcessing(true);
+    try {
+      const response = await fetch('/api/donations/checkout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          provider,
+          amount: selectedAmount,
+          message: message || undefined,
+          is_anonymous: isAnonymous,
+          campaign_id: selectedCampaign?.id,
+        }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        throw new Error(error.error || 'Failed to start checkout');
+      }
+
+      const data = await response.json();
+      window.location.href = data.approval_url;
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Payment failed');
+      setIsProcessing(false);
+    }
+  };
+
   // Load bank info
   const handleShowBankInfo = async () => {
     try {
@@ -115,6 +170,7 @@ export default function DonatePage() {
           donor_email: donorEmail,
           message: message || undefined,
           is_anonymous: isAnonymous,
+          campaign_id: selectedCampaign?.id,
         }),
       });
 
@@ -160,6 +216,48 @@ export default function DonatePage() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Main donation form */}
           <div className="lg:col-span-2 space-y-8">
+            {/* Campaign selection */}
+            {campaigns.length > 0 && (
+              <div className={cn(
+                'p-6 rounded-2xl',
+                'bg-white dark:bg-[#111111]',
+                'border border-gray-200 dark:border-[#262626]'
+              )}>
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-2">
+                  Support a Campaign
+                </h2>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+                  Put your donation towards a specific goal, or give to the general fund.
+                </p>
+
+                <div className="space-y-3">
+                  {campaigns.map((campaign) => (
+                    <CampaignProgress
+                      key={campaign.id}
+                      campaign={campaign}
+                      selected={selectedCampaign?.id === campaign.id}
+                      onSelect={setSelectedCampaign}
+                    />
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setSelectedCampaign(null)}
+                    className={cn(
+                      'w-full p-4 rounded-2xl border-2 text-left transition-all duration-200',
+                      !selectedCampaign
+                        ? 'border-blue-500 bg-blue-50/50 dark:bg-blue-900/10'
+                        : 'border-gray-200 dark:border-[#262626] hover:border-blue-500/50'
+                    )}
+                  >
+                    <span className="font-semibold text-gray-900 dark:text-white">General fund</span>
+                    <span className="block text-sm text-gray-500">
+                      Hosting, development and content, wherever it&apos;s needed most
+                    </span>
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Amount selection */}
             <div className={cn(
               'p-6 rounded-2xl',
@@ -281,22 +379,42 @@ export default function DonatePage() {
               </h2>
 
               <div className="space-y-4">
-                {settings.payment_methods.paypal && (
-                  <div className="space-y-3">
+                {settings.providers.map((provider) => provider.id === 'paypal' ? (
+                  <div key={provider.id} className="space-y-3">
                     <p className="text-sm text-gray-600 dark:text-gray-400 text-center">
-                      Donate {formatDonationAmount(selectedAmount)} with PayPal
+                      Donate {formatDonationAmount(selectedAmount, currency)} with PayPal
                     </p>
                     <PayPalDonateButtons
                       amount={selectedAmount}
-                      currency="USD"
+                      currency={currency}
                       message={message || undefined}
                       isAnonymous={isAnonymous}
+                      campaignId={selectedCampaign?.id}
                       onSuccess={handlePayPalSuccess}
                       onError={handlePayPalError}
                       disabled={selectedAmount < settings.minimum_amount}
                     />
                   </div>
-                )}
+                ) : (
+                  <button
+                    key={provider.id}
+                    onClick={() => handleProviderCheckout(provider.id)}
+                    disabled={isProcessing || selectedAmount < settings.minimum_amount}
+                    className={cn(
+                      'w-full p-4 rounded-xl flex items-center justify-center gap-3',
+                      'bg-gradient-to-r from-violet-600 via-blue-600 to-cyan-600',
+                      'hover:shadow-lg hover:shadow-blue-500/25',
+                      'font-semibold text-white',
+                      'disabled:opacity-50 disabled:cursor-not-allowed',
+                      'transition-all duration-200'
+                    )}
+                  >
+                    <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
+                    </svg>
+                    Donate {formatDonationAmount(selectedAmount, currency)} by {provider.name}
+                  </button>
+                ))}
 
                 {settings.payment_methods.bank_transfer && !showBankInfo && (
                   <button
@@ -320,7 +438,7 @@ export default function DonatePage() {
                   <div className="space-y-4 p-4 rounded-xl bg-gray-50 dark:bg-gray-800/50">
                     <div className="p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
                       <p className="text-sm text-amber-800 dark:text-amber-200">
-                        Transfer <strong>{formatDonationAmount(selectedAmount)}</strong> to one of the accounts below.
+                        Transfer <strong>{formatDonationAmount(selectedAmount, currency)}</strong> to one of the accounts below.
                       </p>
                     </div>
 
@@ -3,8 +3,8 @@
 /**
  * Donation Success Page
  *
- * Displayed after successful PayPal payment, subscription, or bank transfer submission.
- * Handles PayPal callback and captures orders/activates subscriptions.
+ * Displayed after a successful provider payment, subscription, or bank transfer submission.
+ * Handles the provider callback and completes the checkout (capture or subscription activation).
  */
 
 import { useEffect, useState, Suspense } from 'react';
@@ -28,9 +28,12 @@ function DonationSuccessContent() {
   const [nextBillingDate, setNextBillingDate] = useState<string | null>(null);
 
   const source = searchParams.get('source');
-  const token = searchParams.get('token'); // PayPal order ID from redirect
   const type = searchParams.get('type'); // 'subscription' for recurring donations
   const subscriptionId = searchParams.get('subscription_id');
+  const token = searchParams.get('token'); // PayPal order ID from redirect
+  // Older PayPal return URLs carry source=paypal instead of provider
+  const provider = searchParams.get('provider') || (source === 'paypal' || subscriptionId ? 'paypal' : null);
+  const checkoutId = searchParams.get('checkout_id') || subscriptionId || token;
 
   useEffect(() => {
     // Handle bank transfer (already confirmed on previous page)
@@ -40,27 +43,21 @@ function DonationSuccessContent() {
       return;
     }
 
-    // Handle subscription callback
-    if (type === 'subscription' && subscriptionId) {
-      activateSubscription(subscriptionId);
-      return;
-    }
-
-    // Handle PayPal one-time callback
-    if (source === 'paypal' && token) {
-      capturePayPalOrder(token);
-    } else if (!source && !type) {
+    // Handle provider callback (one-time or subscription)
+    if (provider && checkoutId) {
+      completeCheckout(provider, checkoutId);
+    } else if (!source && !type && !provider) {
       // Direct navigation - just show success
       setStatus('success');
     }
-  }, [source, token, type, subscriptionId]);
+  }, [source, type, provider, checkoutId]);
 
-  const capturePayPalOrder = async (orderId: string) => {
+  const completeCheckout = async (providerId: string, id: string) => {
     try {
-      const response = await fetch('/api/donations/paypal/capture', {
+      const response = await fetch('/api/donations/checkout/capture', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ order_id: orderId }),
+        body: JSON.stringify({ provider: providerId, checkout_id: id }),
       });
 
       const data = await response.json();
@@ -69,33 +66,13 @@ function DonationSuccessContent() {
         throw new Error(data.error || 'Failed to process payment');
       }
 
-      setDonationType('one-time');
-      setStatus('success');
-      setDonationId(data.donation_id);
-      if (data.badge_tier) {
-        setBadgeTier(data.badge_tier);
+      if (data.status !== 'completed') {
+        throw new Error(data.status === 'pending'
+          ? 'Your payment is still being processed. You will receive an email once it completes.'
+          : 'Payment was not completed');
       }
-    } catch (error) {
-      setStatus('error');
-      setErrorMessage(error instanceof Error ? error.message : 'Payment processing failed');
-    }
-  };
 
-  const activateSubscription = async (subId: string) => {
-    try {
-      const response = await fetch('/api/donations/paypal/subscribe/activate', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ subscription_id: subId }),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to activate subscription');
-      }
-
-      setDonationType('subscription');
+      setDonationType(data.is_recurring ? 'subscription' : 'one-time');
       setStatus('success');
       setDonationId(data.donation_id);
       if (data.next_billing) {
@@ -105,12 +82,12 @@ function DonationSuccessContent() {
           day: 'numeric',
         }));
       }
-      if (data.badge?.tier) {
-        setBadgeTier(data.badge.tier);
+      if (data.badge_tier) {
+        setBadgeTier(data.badge_tier);
       }
     } catch (error) {
       setStatus('error');
-      setErrorMessage(error instanceof Error ? error.message : 'Subscription activation failed');
+      setErrorMessage(error instanceof Error ? error.message : 'Payment processing failed');
     }
   };
 
@@ -297,7 +274,11 @@ function DonationSuccessContent() {
                 </li>
                 <li className="flex items-start gap-3">
                   <span className="text-cyan-500 mt-0.5">✓</span>
-                  <span>You can cancel anytime from your PayPal account</span>
+                  <span>
+                    {provider === 'paypal'
+                      ? 'You can cancel anytime from your PayPal account'
+                      : 'You can cancel your recurring donation anytime'}
+                  </span>
                 </li>
               </>
             ) : (
@@ -13,6 +13,7 @@ import { cn } from '@/lib/design-system';
 import { Header } from '@/components/header';
 import { Footer } from '@/components/footer';
 import { DonorCard } from '@/components/donations/donor-badge';
+import { ActiveCampaigns } from '@/components/donations/campaign-progress';
 import {
   BADGE_CONFIG,
   type DonorBadgeTier,
@@ -115,6 +116,9 @@ export default function DonorWallPage() {
           </Link>
         </div>
 
+        {/* Campaign progress */}
+        <ActiveCampaigns title="Help Us Reach Our Goals" className="mb-12" />
+
         {/* Tier filter */}
         <div className="flex flex-wrap justify-center gap-2 mb-8">
           <button
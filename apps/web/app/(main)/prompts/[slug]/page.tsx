@@ -5,6 +5,8 @@
  *
  * Shows full prompt details with:
  * - Content with variable highlighting
+ * - Typed variable form and a runner that sends the filled prompt to Claude
+ * - Version history with diffs, and pinning a saved prompt to a version
  * - Copy to clipboard
  * - Save/unsave
  * - Rate prompt
@@ -12,12 +14,19 @@
  * - Related prompts (future)
  */
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useParams, useRouter } from "next/navigation";
 import Link from "next/link";
 import { Header } from "@/components/header";
 import { Footer } from "@/components/footer";
 import { cn } from "@/lib/design-system";
+import { VersionDiffViewer } from "@/components/dashboard/documentation/version-diff-viewer";
+import {
+  getDefaultVariableValues,
+  renderPromptTemplate,
+  validateVariableValues,
+  type PromptVariable,
+} from "@/lib/prompt-templates";
 import {
   ArrowLeftIcon,
   CopyIcon,
@@ -38,6 +47,10 @@ import {
   BookOpenIcon,
   MessageSquareIcon,
   BriefcaseIcon,
+  HistoryIcon,
+  PinIcon,
+  PinOffIcon,
+  XIcon,
 } from "lucide-react";
 
 // Category icon mapping
@@ -52,12 +65,6 @@ const CATEGORY_ICONS: Record<string, React.ReactNode> = {
   business: <BriefcaseIcon className="w-5 h-5" />,
 };
 
-interface PromptVariable {
-  name: string;
-  description?: string;
-  default?: string;
-}
-
 interface PromptDetail {
   id: string;
   slug: string;
@@ -72,6 +79,10 @@ interface PromptDetail {
   } | null;
   tags: string[];
   variables: PromptVariable[];
+  version: number;
+  versionCreatedAt: string;
+  currentVersion: number;
+  pinnedVersion: number | null;
   author: {
     id: string;
     name: string | null;
@@ -92,6 +103,45 @@ interface PromptDetail {
   updatedAt: string;
 }
 
+interface PromptVersionSummary {
+  id: string;
+  version: number;
+  title: string;
+  changeNote: string | null;
+  createdByName: string | null;
+  createdAt: string;
+}
+
+interface VersionInfo {
+  version: number;
+  title: string;
+  changeType: string;
+  createdAt: string;
+  lineCount: number;
+}
+
+interface VersionComparison {
+  from: VersionInfo;
+  to: VersionInfo;
+  diff: {
+    type: "added" | "removed" | "unchanged";
+    content: string;
+    fromLine: number | null;
+    toLine: number | null;
+  }[];
+  variableChanges: { name: string; change: "added" | "removed" | "changed" }[];
+  stats: { additions: number; deletions: number; unchanged: number };
+}
+
+// Escape prompt text and variable values before highlighting them as HTML
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
 export default function PromptDetailPage() {
   const params = useParams();
   const router = useRouter();
@@ -112,15 +162,30 @@ export default function PromptDetailPage() {
   const [ratingCount, setRatingCount] = useState(0);
   const [isRating, setIsRating] = useState(false);
   const [variableValues, setVariableValues] = useState<Record<string, string>>({});
-
-  // Fetch prompt
-  useEffect(() => {
-    async function fetchPrompt() {
-      setIsLoading(true);
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+  const [pinnedVersion, setPinnedVersion] = useState<number | null>(null);
+  const [isPinning, setIsPinning] = useState(false);
+
+  // Version history
+  const [showHistory, setShowHistory] = useState(false);
+  const [versions, setVersions] = useState<PromptVersionSummary[]>([]);
+  const [comparison, setComparison] = useState<VersionComparison | null>(null);
+
+  // Runner
+  const [runOutput, setRunOutput] = useState("");
+  const [runError, setRunError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // Fetch prompt (the pinned or latest version unless one is given)
+  const loadPrompt = useCallback(
+    async (version?: number) => {
+      if (!version) setIsLoading(true);
       setError(null);
 
       try {
-        const response = await fetch(`/api/prompts/${slug}`);
+        const response = await fetch(
+          `/api/prompts/${slug}${version ? `?version=${version}` : ""}`
+        );
         if (!response.ok) {
           if (response.status === 404) {
             setError("Prompt not found");
@@ -138,40 +203,42 @@ export default function PromptDetailPage() {
         setUserRating(data.prompt.userRating);
         setAvgRating(data.prompt.avgRating);
         setRatingCount(data.prompt.ratingCount);
+        setPinnedVersion(data.prompt.pinnedVersion);
 
         // Initialize variable values with defaults
-        const defaults: Record<string, string> = {};
-        for (const variable of data.prompt.variables || []) {
-          defaults[variable.name] = variable.default || "";
-        }
-        setVariableValues(defaults);
+        setVariableValues(getDefaultVariableValues(data.prompt.variables || []));
+        setFieldErrors({});
+        setComparison(null);
 
         // Track usage
-        fetch(`/api/prompts/${data.prompt.id}/use`, {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ context: "view" }),
-        }).catch(() => {});
+        if (!version) {
+          fetch(`/api/prompts/${data.prompt.id}/use`, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ context: "view" }),
+          }).catch(() => {});
+        }
       } catch (err) {
         setError(err instanceof Error ? err.message : "Unknown error");
       } finally {
         setIsLoading(false);
       }
-    }
+    },
+    [slug]
+  );
 
-    fetchPrompt();
-  }, [slug]);
+  useEffect(() => {
+    loadPrompt();
+  }, [loadPrompt]);
 
   // Handle copy
   const handleCopy = async () => {
     if (!prompt) return;
 
-    let content = prompt.content;
-
     // Replace variables with values
-    for (const [name, value] of Object.entries(variableValues)) {
-      content = content.replace(new RegExp(`\\{\\{${name}\\}\\}`, "g"), value || `{{${name}}}`);
-    }
+    const content = renderPromptTemplate(prompt.content, prompt.variables, variableValues, {
+      keepUnfilled: true,
+    });
 
     try {
       await navigator.clipboard.writeText(content);
@@ -209,11 +276,140 @@ export default function PromptDetailPage() {
       const data = await response.json();
       setIsSaved(data.isSaved);
       setSaveCount(data.saveCount);
+      if (!data.isSaved) setPinnedVersion(null);
     } finally {
       setIsSaving(false);
     }
   };
 
+  // Handle pin/unpin of the version being viewed
+  const handlePin = async () => {
+    if (!prompt || isPinning) return;
+
+    const version = pinnedVersion === prompt.version ? null : prompt.version;
+
+    setIsPinning(true);
+    try {
+      const response = await fetch(`/api/prompts/${prompt.id}/pin`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ version }),
+      });
+
+      if (response.status === 401) {
+        router.push(`/login?redirect=/prompts/${slug}`);
+        return;
+      }
+
+      if (!response.ok) throw new Error("Failed to pin version");
+
+      const data = await response.json();
+      setPinnedVersion(data.pinnedVersion);
+      setIsSaved(data.isSaved);
+      setSaveCount(data.saveCount);
+    } catch (err) {
+      console.error(err);
+    } finally {
+      setIsPinning(false);
+    }
+  };
+
+  // Toggle version history
+  const handleToggleHistory = async () => {
+    if (!prompt) return;
+
+    const open = !showHistory;
+    setShowHistory(open);
+    setComparison(null);
+    if (!open || versions.length > 0) return;
+
+    try {
+      const response = await fetch(`/api/prompts/${prompt.id}/versions`);
+      if (!response.ok) throw new Error("Failed to load versions");
+      const data = await response.json();
+      setVersions(data.versions);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  // Diff a version against the one before it
+  const handleCompare = async (version: number) => {
+    if (!prompt) return;
+
+    try {
+      const response = await fetch(`/api/prompts/${prompt.id}/versions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ fromVersion: version - 1, toVersion: version }),
+      });
+      if (!response.ok) throw new Error("Failed to compare versions");
+      setComparison(await response.json());
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
+  // Run the filled prompt and stream the response
+  const handleRun = async () => {
+    if (!prompt || isRunning) return;
+
+    const errors = validateVariableValues(prompt.variables, variableValues);
+    setFieldErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    setIsRunning(true);
+    setRunOutput("");
+    setRunError(null);
+
+    try {
+      const response = await fetch(`/api/prompts/${prompt.id}/run`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ values: variableValues, version: prompt.version }),
+      });
+
+      if (response.status === 401) {
+        router.push(`/login?redirect=/prompts/${slug}`);
+        return;
+      }
+
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}));
+        if (data.fields) setFieldErrors(data.fields);
+        // Rate limit responses explain when to retry in `message`
+        throw new Error(data.message || data.error || "Failed to run prompt");
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const events = buffer.split("\n\n");
+        buffer = events.pop() || "";
+
+        for (const event of events) {
+          if (!event.startsWith("data: ")) continue;
+          const data = JSON.parse(event.slice(6));
+          if (data.type === "text") {
+            setRunOutput((prev) => prev + data.content);
+          } else if (data.type === "error") {
+            throw new Error(data.content);
+          }
+        }
+      }
+    } catch (err) {
+      setRunError(err instanceof Error ? err.message : "Unknown error");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
   // Handle rating
   const handleRate = async (rating: number) => {
     if (!prompt || isRating) return;
@@ -266,10 +462,10 @@ export default function PromptDetailPage() {
 
   // Format content with variable highlighting
   const formatContent = (content: string) => {
-    return content.replace(/\{\{(\w+)\}\}/g, (_, name) => {
+    return escapeHtml(content).replace(/\{\{(\w+)\}\}/g, (_, name) => {
       const value = variableValues[name];
       if (value) {
-        return `<span class="text-cyan-500 font-medium">${value}</span>`;
+        return `<span class="text-cyan-500 font-medium">${escapeHtml(value)}</span>`;
       }
       return `<span class="px-1.5 py-0.5 rounded bg-violet-500/20 text-violet-400 text-sm font-mono">{{${name}}}</span>`;
     });
@@ -431,8 +627,160 @@ export default function PromptDetailPage() {
                 ))}
               </div>
             )}
+
+            {/* Version */}
+            <div className="flex items-center flex-wrap gap-3 mt-4 text-sm">
+              <span className="px-2 py-1 rounded-full bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 font-mono text-xs">
+                v{prompt.version}
+              </span>
+              {prompt.version !== prompt.currentVersion && (
+                <span className="text-amber-500">
+                  Viewing an older version.{" "}
+                  <button
+                    onClick={() => loadPrompt(prompt.currentVersion)}
+                    className="underline hover:no-underline"
+                  >
+                    View latest (v{prompt.currentVersion})
+                  </button>
+                </span>
+              )}
+              {pinnedVersion !== null && pinnedVersion !== prompt.version && (
+                <button
+                  onClick={() => loadPrompt(pinnedVersion)}
+                  className="inline-flex items-center gap-1 text-blue-500 hover:underline"
+                >
+                  <PinIcon className="w-3.5 h-3.5" />
+                  Pinned to v{pinnedVersion}
+                </button>
+              )}
+              <button
+                onClick={handlePin}
+                disabled={isPinning}
+                className={cn(
+                  "inline-flex items-center gap-1.5 px-2 py-1 rounded-lg transition-colors",
+                  pinnedVersion === prompt.version
+                    ? "text-blue-500 bg-blue-500/10"
+                    : "text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800",
+                  isPinning && "opacity-50 cursor-wait"
+                )}
+                title={
+                  pinnedVersion === prompt.version
+                    ? "Follow the latest version again"
+                    : "Keep your saved copy on this version"
+                }
+              >
+                {pinnedVersion === prompt.version ? (
+                  <>
+                    <PinOffIcon className="w-4 h-4" />
+                    Unpin v{prompt.version}
+                  </>
+                ) : (
+                  <>
+                    <PinIcon className="w-4 h-4" />
+                    Pin v{prompt.version}
+                  </>
+                )}
+              </button>
+              {prompt.currentVersion > 1 && (
+                <button
+                  onClick={handleToggleHistory}
+                  className={cn(
+                    "inline-flex items-center gap-1.5 px-2 py-1 rounded-lg transition-colors",
+                    showHistory
+                      ? "text-blue-500 bg-blue-500/10"
+                      : "text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800"
+                  )}
+                >
+                  <HistoryIcon className="w-4 h-4" />
+                  History
+                </button>
+              )}
+            </div>
           </div>
 
+          {/* Version History */}
+          {showHistory && (
+            <div className="rounded-xl border border-gray-200 dark:border-[#262626] bg-gray-50 dark:bg-[#111111] p-4 mb-6">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                  Version history
+                </h2>
+                <button
+                  onClick={() => setShowHistory(false)}
+                  className="p-1 rounded text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                  title="Close history"
+                >
+                  <XIcon className="w-4 h-4" />
+                </button>
+              </div>
+              <ul className="divide-y divide-gray-200 dark:divide-[#262626]">
+                {versions.map((v) => (
+                  <li key={v.id} className="flex items-center justify-between gap-4 py-2">
+                    <div>
+                      <span className="font-mono text-sm text-gray-900 dark:text-white">
+                        v{v.version}
+                      </span>
+                      <span className="text-sm text-gray-500 ml-2">
+                        {new Date(v.createdAt).toLocaleDateString()}
+                        {v.createdByName && ` by ${v.createdByName}`}
+                      </span>
+                      {v.changeNote && (
+                        <p className="text-xs text-gray-500 mt-0.5">{v.changeNote}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-3 text-xs">
+                      {v.version > 1 && (
+                        <button
+                          onClick={() => handleCompare(v.version)}
+                          className="text-blue-500 hover:underline"
+                        >
+                          Diff
+                        </button>
+                      )}
+                      <button
+                        onClick={() => loadPrompt(v.version)}
+                        disabled={v.version === prompt.version}
+                        className="text-blue-500 hover:underline disabled:text-gray-400 disabled:no-underline"
+                      >
+                        {v.version === prompt.version ? "Viewing" : "View"}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+              {comparison && (
+                <div className="mt-4 space-y-3">
+                  {comparison.variableChanges.length > 0 && (
+                    <div className="flex flex-wrap gap-2 text-xs">
+                      {comparison.variableChanges.map((change) => (
+                        <span
+                          key={change.name}
+                          className={cn(
+                            "px-2 py-1 rounded-full font-mono",
+                            change.change === "added" && "bg-green-500/10 text-green-500",
+                            change.change === "removed" && "bg-red-500/10 text-red-500",
+                            change.change === "changed" && "bg-amber-500/10 text-amber-500"
+                          )}
+                        >
+                          {change.change === "added" ? "+" : change.change === "removed" ? "-" : "~"}
+                          {`{{${change.name}}}`}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  <div className="h-96 rounded-lg border border-gray-200 dark:border-[#262626] overflow-hidden">
+                    <VersionDiffViewer
+                      from={comparison.from}
+                      to={comparison.to}
+                      diff={comparison.diff}
+                      stats={comparison.stats}
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Variables Form */}
           {variables.length > 0 && (
             <div className="rounded-xl border border-gray-200 dark:border-[#262626] bg-gray-50 dark:bg-[#111111] p-6 mb-6">
@@ -441,33 +789,18 @@ export default function PromptDetailPage() {
               </h2>
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 {variables.map((variable) => (
-                  <div key={variable.name}>
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                      {variable.name}
-                      {variable.description && (
-                        <span className="text-gray-500 font-normal"> - {variable.description}</span>
-                      )}
-                    </label>
-                    <input
-                      type="text"
-                      value={variableValues[variable.name] || ""}
-                      onChange={(e) =>
-                        setVariableValues((prev) => ({
-                          ...prev,
-                          [variable.name]: e.target.value,
-                        }))
-                      }
-                      placeholder={variable.default || `Enter ${variable.name}`}
-                      className={cn(
-                        "w-full px-3 py-2 rounded-lg",
-                        "bg-white dark:bg-[#0a0a0a]",
-                        "border border-gray-200 dark:border-[#262626]",
-                        "text-gray-900 dark:text-white",
-                        "placeholder-gray-400",
-                        "focus:outline-none focus:ring-2 focus:ring-blue-500/50"
-                      )}
-                    />
-                  </div>
+                  <VariableField
+                    key={variable.name}
+                    variable={variable}
+                    value={variableValues[variable.name] || ""}
+                    error={fieldErrors[variable.name]}
+                    onChange={(value) =>
+                      setVariableValues((prev) => ({
+                        ...prev,
+                        [variable.name]: value,
+                      }))
+                    }
+                  />
                 ))}
               </div>
             </div>
@@ -556,21 +889,39 @@ export default function PromptDetailPage() {
             </div>
           </div>
 
-          {/* Use with Claude button */}
+          {/* Run with Claude button */}
           <div className="mt-6">
             <button
-              onClick={handleCopy}
+              onClick={handleRun}
+              disabled={isRunning}
               className={cn(
                 "w-full flex items-center justify-center gap-2 px-6 py-4 rounded-xl",
                 "bg-gradient-to-r from-violet-600 via-blue-600 to-cyan-600",
                 "text-white font-semibold text-lg",
-                "hover:shadow-lg hover:-translate-y-0.5 transition-all"
+                "hover:shadow-lg hover:-translate-y-0.5 transition-all",
+                isRunning && "opacity-50 cursor-wait"
               )}
             >
               <PlayIcon className="w-5 h-5" />
-              Copy & Use with Claude
+              {isRunning ? "Running..." : "Run with Claude"}
             </button>
           </div>
+
+          {/* Runner Output */}
+          {(isRunning || runOutput || runError) && (
+            <div className="mt-6 rounded-xl border border-gray-200 dark:border-[#262626] bg-gray-50 dark:bg-[#111111] overflow-hidden">
+              <div className="px-4 py-3 border-b border-gray-200 dark:border-[#262626]">
+                <h2 className="font-medium text-gray-900 dark:text-white">Response</h2>
+              </div>
+              {runError ? (
+                <p className="p-4 text-sm text-red-500">{runError}</p>
+              ) : (
+                <div className="p-4 whitespace-pre-wrap text-sm text-gray-800 dark:text-gray-200 leading-relaxed">
+                  {runOutput || "Thinking..."}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </main>
 
@@ -579,6 +930,70 @@ export default function PromptDetailPage() {
   );
 }
 
+function VariableField({
+  variable,
+  value,
+  error,
+  onChange,
+}: {
+  variable: PromptVariable;
+  value: string;
+  error?: string;
+  onChange: (value: string) => void;
+}) {
+  const inputClass = cn(
+    "w-full px-3 py-2 rounded-lg",
+    "bg-white dark:bg-[#0a0a0a]",
+    "border text-gray-900 dark:text-white",
+    "placeholder-gray-400",
+    "focus:outline-none focus:ring-2 focus:ring-blue-500/50",
+    error ? "border-red-500/50" : "border-gray-200 dark:border-[#262626]"
+  );
+  const placeholder = variable.default || `Enter ${variable.label || variable.name}`;
+
+  return (
+    <div className={cn(variable.type === "multiline" && "sm:col-span-2")}>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+        {variable.label || variable.name}
+        {variable.required && <span className="text-red-500"> *</span>}
+        {variable.description && (
+          <span className="text-gray-500 font-normal"> - {variable.description}</span>
+        )}
+      </label>
+      {variable.type === "multiline" ? (
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          rows={6}
+          className={cn(inputClass, "resize-y font-mono text-sm")}
+        />
+      ) : variable.type === "enum" ? (
+        <select value={value} onChange={(e) => onChange(e.target.value)} className={inputClass}>
+          {!variable.required && <option value="">Choose...</option>}
+          {(variable.options || []).map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <input
+          type={variable.type === "number" ? "number" : "text"}
+          value={value}
+          min={variable.min}
+          max={variable.max}
+          maxLength={variable.maxLength}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          className={inputClass}
+        />
+      )}
+      {error && <p className="text-xs text-red-500 mt-1">{error}</p>}
+    </div>
+  );
+}
+
 function LoadingSkeleton() {
   return (
     <div className="min-h-screen bg-white dark:bg-[#0a0a0a] flex flex-col">
@@ -12,6 +12,12 @@ import Link from "next/link";
 import { Header } from "@/components/header";
 import { Footer } from "@/components/footer";
 import { cn } from "@/lib/design-system";
+import {
+  extractTemplateVariables,
+  PROMPT_VARIABLE_TYPES,
+  validatePromptVariables,
+  type PromptVariable,
+} from "@/lib/prompt-templates";
 import {
   ArrowLeftIcon,
   SparklesIcon,
@@ -26,12 +32,6 @@ interface Category {
   description: string | null;
 }
 
-interface Variable {
-  name: string;
-  description: string;
-  default: string;
-}
-
 export default function NewPromptPage() {
   const router = useRouter();
 
@@ -42,7 +42,7 @@ export default function NewPromptPage() {
   const [categoryId, setCategoryId] = useState("");
   const [tags, setTags] = useState<string[]>([]);
   const [tagInput, setTagInput] = useState("");
-  const [variables, setVariables] = useState<Variable[]>([]);
+  const [variables, setVariables] = useState<PromptVariable[]>([]);
   const [visibility, setVisibility] = useState<"private" | "public" | "unlisted">("private");
 
   // UI state
@@ -61,12 +61,11 @@ export default function NewPromptPage() {
 
   // Auto-detect variables from content
   useEffect(() => {
-    const matches = content.match(/\{\{(\w+)\}\}/g) || [];
-    const varNames = [...new Set(matches.map((m) => m.replace(/[{}]/g, "")))];
+    const varNames = extractTemplateVariables(content);
 
     setVariables((prev) => {
       const existing = new Map(prev.map((v) => [v.name, v]));
-      return varNames.map((name) => existing.get(name) || { name, description: "", default: "" });
+      return varNames.map((name) => existing.get(name) || { name, type: "string" });
     });
   }, [content]);
 
@@ -89,12 +88,15 @@ export default function NewPromptPage() {
   };
 
   // Update variable
-  const updateVariable = (index: number, field: keyof Variable, value: string) => {
+  const updateVariable = (index: number, changes: Partial<PromptVariable>) => {
     setVariables((prev) =>
-      prev.map((v, i) => (i === index ? { ...v, [field]: value } : v))
+      prev.map((v, i) => (i === index ? { ...v, ...changes } : v))
     );
   };
 
+  // Parse an optional number input
+  const parseBound = (value: string) => (value === "" ? undefined : Number(value));
+
   // Handle submit
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -104,6 +106,15 @@ export default function NewPromptPage() {
       return;
     }
 
+    const cleanedVariables = variables.map((v) =>
+      v.options ? { ...v, options: v.options.filter(Boolean) } : v
+    );
+    const variableErrors = validatePromptVariables(content, cleanedVariables);
+    if (variableErrors.length > 0) {
+      setError(variableErrors[0] ?? null);
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
 
@@ -117,7 +128,7 @@ export default function NewPromptPage() {
           content: content.trim(),
           categoryId: categoryId || null,
           tags,
-          variables: variables.filter((v) => v.name),
+          variables: cleanedVariables,
           visibility,
         }),
       });
@@ -306,46 +317,123 @@ export default function NewPromptPage() {
                     <div
                       key={variable.name}
                       className={cn(
-                        "grid grid-cols-1 sm:grid-cols-3 gap-3 p-3 rounded-lg",
+                        "p-3 rounded-lg space-y-3",
                         "bg-gray-100 dark:bg-[#111111]",
                         "border border-gray-200 dark:border-[#262626]"
                       )}
                     >
-                      <div>
-                        <span className="text-xs text-gray-500 mb-1 block">Name</span>
-                        <span className="font-mono text-violet-500">{`{{${variable.name}}}`}</span>
-                      </div>
-                      <div>
-                        <label className="text-xs text-gray-500 mb-1 block">Description</label>
-                        <input
-                          type="text"
-                          value={variable.description}
-                          onChange={(e) => updateVariable(index, "description", e.target.value)}
-                          placeholder="What this variable is for"
-                          className={cn(
-                            "w-full px-2 py-1 rounded text-sm",
-                            "bg-white dark:bg-[#0a0a0a]",
-                            "border border-gray-200 dark:border-[#262626]",
-                            "text-gray-900 dark:text-white",
-                            "focus:outline-none focus:ring-1 focus:ring-blue-500/50"
+                      <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+                        <div>
+                          <span className="text-xs text-gray-500 mb-1 block">Name</span>
+                          <span className="font-mono text-violet-500">{`{{${variable.name}}}`}</span>
+                        </div>
+                        <div>
+                          <label className="text-xs text-gray-500 mb-1 block">Type</label>
+                          <select
+                            value={variable.type}
+                            onChange={(e) =>
+                              updateVariable(index, {
+                                type: e.target.value as PromptVariable["type"],
+                                default: undefined,
+                              })
+                            }
+                            className={variableInputClass}
+                          >
+                            {PROMPT_VARIABLE_TYPES.map((type) => (
+                              <option key={type.value} value={type.value}>
+                                {type.label}
+                              </option>
+                            ))}
+                          </select>
+                        </div>
+                        <div>
+                          <label className="text-xs text-gray-500 mb-1 block">Description</label>
+                          <input
+                            type="text"
+                            value={variable.description || ""}
+                            onChange={(e) => updateVariable(index, { description: e.target.value })}
+                            placeholder="What this variable is for"
+                            className={variableInputClass}
+                          />
+                        </div>
+                        <div>
+                          <label className="text-xs text-gray-500 mb-1 block">Default value</label>
+                          {variable.type === "enum" ? (
+                            <select
+                              value={variable.default || ""}
+                              onChange={(e) => updateVariable(index, { default: e.target.value || undefined })}
+                              className={variableInputClass}
+                            >
+                              <option value="">None</option>
+                              {(variable.options || []).filter(Boolean).map((option) => (
+                                <option key={option} value={option}>
+                                  {option}
+                                </option>
+                              ))}
+                            </select>
+                          ) : (
+                            <input
+                              type={variable.type === "number" ? "number" : "text"}
+                              value={variable.default || ""}
+                              onChange={(e) => updateVariable(index, { default: e.target.value || undefined })}
+                              placeholder="Optional default"
+                              className={variableInputClass}
+                            />
                           )}
-                        />
+                        </div>
                       </div>
-                      <div>
-                        <label className="text-xs text-gray-500 mb-1 block">Default value</label>
-                        <input
-                          type="text"
-                          value={variable.default}
-                          onChange={(e) => updateVariable(index, "default", e.target.value)}
-                          placeholder="Optional default"
-                          className={cn(
-                            "w-full px-2 py-1 rounded text-sm",
-                            "bg-white dark:bg-[#0a0a0a]",
-                            "border border-gray-200 dark:border-[#262626]",
-                            "text-gray-900 dark:text-white",
-                            "focus:outline-none focus:ring-1 focus:ring-blue-500/50"
-                          )}
-                        />
+
+                      <div className="flex flex-wrap items-end gap-3">
+                        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={variable.required || false}
+                            onChange={(e) => updateVariable(index, { required: e.target.checked })}
+                            className="rounded border-gray-300 dark:border-gray-600"
+                          />
+                          Required
+                        </label>
+                        {variable.type === "enum" && (
+                          <div className="flex-1 min-w-[200px]">
+                            <label className="text-xs text-gray-500 mb-1 block">
+                              Options (comma-separated)
+                            </label>
+                            <input
+                              type="text"
+                              value={(variable.options || []).join(", ")}
+                              onChange={(e) =>
+                                updateVariable(index, {
+                                  // Empty entries are kept while typing and dropped on submit
+                                  options: e.target.value.split(",").map((o) => o.trim()),
+                                })
+                              }
+                              placeholder="E.g., short, medium, long"
+                              className={variableInputClass}
+                            />
+                          </div>
+                        )}
+                        {variable.type === "number" && (
+                          <>
+                            <div className="w-28">
+                              <label className="text-xs text-gray-500 mb-1 block">Min</label>
+                              <input
+                                type="number"
+                                value={variable.min ?? ""}
+                                onChange={(e) => updateVariable(index, { min: parseBound(e.target.value) })}
+                                className={variableInputClass}
+                              />
+                            </div>
+                            <div className="w-28">
+                              <label className="text-xs text-gray-500 mb-1 block">Max</label>
+                              <input
+                                type="number"
+                                value={variable.max ?? ""}
+                                onChange={(e) => updateVariable(index, { max: parseBound(e.target.value) })}
+                                className={variableInputClass}
+                              />
+                            </div>
+                          </>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -489,3 +577,11 @@ export default function NewPromptPage() {
     </div>
   );
 }
+
+const variableInputClass = cn(
+  "w-full px-2 py-1 rounded text-sm",
+  "bg-white dark:bg-[#0a0a0a]",
+  "border border-gray-200 dark:border-[#262626]",
+  "text-gray-900 dark:text-white",
+  "focus:outline-none focus:ring-1 focus:ring-blue-500/50"
+);
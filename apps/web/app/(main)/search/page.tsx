@@ -9,8 +9,18 @@
 import { useState, useEffect, useCallback, useMemo, Suspense } from "react";
 import Link from "next/link";
 import { useSearchParams, useRouter } from "next/navigation";
+import { useLocale } from "next-intl";
 import { cn } from "@/lib/design-system";
-import { buildSearchIndex, createSearchInstance, search } from "@/lib/search";
+import {
+  loadSearchIndex,
+  createSearchInstance,
+  searchWithFacets,
+  getCategoryFacets,
+  type SearchDocument,
+  type SearchFacet,
+  type SearchHit,
+  type HighlightSegment,
+} from "@/lib/search";
 import { SearchFiltersPanel, SearchFilterBar } from "@/components/search/search-filters";
 import { SavedSearches, SaveSearchModal } from "@/components/search/saved-searches";
 import { QueryBuilder, useQueryBuilder, tokensToFuseQuery } from "@/components/search/query-builder";
@@ -81,12 +91,10 @@ function SearchPageContent() {
   // Sync advanced mode from URL on mount
   const [useAdvancedQuery, setUseAdvancedQuery] = useState(initialMode);
   const [filters, setFilters] = useState<SearchFilters>({});
-  const [results, setResults] = useState<Array<{
-    title: string;
-    description: string;
-    url: string;
-    category: string;
-  }>>([]);
+  const [results, setResults] = useState<SearchHit[]>([]);
+  const [facets, setFacets] = useState<SearchFacet[]>([]);
+  const [documents, setDocuments] = useState<SearchDocument[] | null>(null);
+  const locale = useLocale();
   const [isSearching, setIsSearching] = useState(false);
   const [history, setHistory] = useState<SearchHistoryEntry[]>([]);
   const [popularSearches, setPopularSearches] = useState<PopularSearch[]>([]);
@@ -96,17 +104,30 @@ function SearchPageContent() {
   // Query builder for boolean operators
   const { tokens, setTokens, queryString: builderQueryString } = useQueryBuilder();
 
+  // Load the generated search index for the current locale
+  useEffect(() => {
+    let cancelled = false;
+    loadSearchIndex(locale)
+      .then((docs) => {
+        if (!cancelled) setDocuments(docs);
+      })
+      .catch((error) => console.error("Failed to load search index:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [locale]);
+
   // Create search index
-  const searchIndex = useMemo(() => {
-    const docs = buildSearchIndex();
-    return createSearchInstance(docs);
-  }, []);
+  const searchIndex = useMemo(
+    () => (documents ? createSearchInstance(documents) : null),
+    [documents]
+  );
 
   // Get categories from docs
-  const categories = useMemo(() => {
-    const docs = buildSearchIndex();
-    return [...new Set(docs.map((d) => d.category))];
-  }, []);
+  const categories = useMemo(
+    () => (documents ? getCategoryFacets(documents).map((facet) => facet.category) : []),
+    [documents]
+  );
 
   // Load history and popular searches
   useEffect(() => {
@@ -130,23 +151,22 @@ function SearchPageContent() {
     async (searchQuery: string, searchFilters: SearchFilters, isAdvanced: boolean = false) => {
       if (!searchQuery.trim()) {
         setResults([]);
+        setFacets([]);
         return;
       }
+      if (!searchIndex) return;
 
       setIsSearching(true);
 
       // Search using Fuse.js
       // For advanced queries, use extended search syntax
-      let searchResults = search(searchIndex, searchQuery, 50);
-
-      // Apply filters
-      if (searchFilters.category) {
-        searchResults = searchResults.filter(
-          (r) => r.category === searchFilters.category
-        );
-      }
+      const { hits: searchResults, facets: searchFacets } = searchWithFacets(searchIndex, searchQuery, {
+        limit: 50,
+        categories: searchFilters.category ? [searchFilters.category] : undefined,
+      });
 
       setResults(searchResults);
+      setFacets(searchFacets);
 
       // Record search (include advanced mode indicator)
       await recordSearch({
@@ -302,6 +322,7 @@ function SearchPageContent() {
                   onClick={() => {
                     setQuery("");
                     setResults([]);
+                    setFacets([]);
                   }}
                   className="absolute right-4 top-1/2 -translate-y-1/2 p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
                 >
@@ -416,10 +437,36 @@ function SearchPageContent() {
                 <p className="text-sm text-gray-500 dark:text-gray-400">
                   {results.length} result{results.length !== 1 ? "s" : ""} for &quot;{query}&quot;
                 </p>
-                {results.map((result, index) => (
+                {facets.length > 1 && (
+                  <div className="flex flex-wrap gap-2" role="group" aria-label="Filter by category">
+                    {facets.map((facet) => {
+                      const active = filters.category === facet.category;
+                      return (
+                        <button
+                          key={facet.category}
+                          type="button"
+                          onClick={() =>
+                            setFilters({ ...filters, category: active ? undefined : facet.category })
+                          }
+                          aria-pressed={active}
+                          className={cn(
+                            "px-2.5 py-1 rounded-full text-xs font-medium transition-colors",
+                            active
+                              ? "bg-blue-100 dark:bg-blue-900/30 text-blue-600 dark:text-blue-400"
+                              : "bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700"
+                          )}
+                        >
+                          {facet.category}
+                          <span className="ml-1 opacity-70">{facet.count}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+                {results.map((result) => (
                   <Link
-                    key={index}
-                    href={result.url}
+                    key={result.item.url}
+                    href={result.item.url}
                     className={cn(
                       "block p-4 rounded-xl",
                       "bg-white dark:bg-[#111111]",
@@ -430,15 +477,20 @@ function SearchPageContent() {
                   >
                     <div className="flex items-start justify-between gap-4">
                       <div>
+                        {result.item.parentTitle && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mb-0.5">
+                            {result.item.parentTitle}
+                          </p>
+                        )}
                         <h3 className="font-semibold text-gray-900 dark:text-white">
-                          {result.title}
+                          <HighlightedText segments={result.title} />
                         </h3>
                         <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
-                          {result.description}
+                          <HighlightedText segments={result.snippet} />
                         </p>
                       </div>
                       <span className="flex-shrink-0 px-2 py-0.5 rounded text-xs font-medium bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-400">
-                        {result.category}
+                        {result.item.category}
                       </span>
                     </div>
                   </Link>
@@ -590,3 +642,22 @@ function SearchPageContent() {
     </div>
   );
 }
+
+function HighlightedText({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.highlight ? (
+          <mark
+            key={index}
+            className="bg-yellow-100 dark:bg-yellow-500/20 text-inherit rounded-sm px-0.5"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -19,17 +19,21 @@ import { updateNotificationPreferences, sendTestNotifications } from "@/app/acti
 import { getLinkedAccountsAction } from "@/app/actions/auth";
 import { TwoFactorSettings } from "@/components/settings/two-factor-settings";
 import { PasskeySettings } from "@/components/settings/passkey-settings";
+import { SessionSettings } from "@/components/settings/session-settings";
 import { E2EESettings } from "@/components/settings/e2ee-settings";
 import { DataManagement } from "@/components/settings/data-management";
 import { BlockedUsers } from "@/components/settings/blocked-users";
+import { DonationReceipts } from "@/components/settings/donation-receipts";
 import { AvatarUpload } from "@/components/settings/avatar-upload";
 import { CoverPhotoSection } from "@/components/settings/cover-photo-section";
 import { PasswordSettings } from "@/components/settings/password-settings";
 import { ConnectedAccounts } from "@/components/settings/connected-accounts";
 import { ApiKeySettings } from "@/components/settings/api-key-settings";
+import { ApiTokenSettings } from "@/components/settings/api-token-settings";
 import { ActivitySettings } from "@/components/settings/activity-settings";
 import { LocationTimezoneSettings } from "@/components/settings/location-timezone-settings";
 import { GitHubSyncSettings } from "@/components/settings/github-sync-settings";
+import { NotificationRoutingSettings } from "@/components/settings/notification-routing-settings";
 import { AskAIButton } from "@/components/ask-ai/ask-ai-button";
 import { BrowserNotificationPrompt } from "@/components/notifications/browser-notification-prompt";
 import { useBrowserNotifications } from "@/hooks/use-browser-notifications";
@@ -1140,6 +1144,29 @@ export default function SettingsPage() {
         {/* Divider */}
         <hr className="border-gray-200 dark:border-[#262626] mb-12" />
 
+        {/* Devices & Sessions Section */}
+        <section id="sessions" className="scroll-mt-24 mb-12">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+            Devices &amp; Sessions
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+            Where you&apos;re signed in, and recent sign-ins to your account
+          </p>
+
+          <div
+            className={cn(
+              "p-6 rounded-xl",
+              "bg-gray-50 dark:bg-[#111111]",
+              "border border-gray-200 dark:border-[#262626]"
+            )}
+          >
+            <SessionSettings />
+          </div>
+        </section>
+
+        {/* Divider */}
+        <hr className="border-gray-200 dark:border-[#262626] mb-12" />
+
         {/* AI Integration Section */}
         <section id="ai" className="scroll-mt-24 mb-12">
           <div className="flex items-center gap-3 mb-2">
@@ -1193,6 +1220,44 @@ export default function SettingsPage() {
         {/* Divider */}
         <hr className="border-gray-200 dark:border-[#262626] mb-12" />
 
+        {/* API Tokens Section */}
+        <section id="api-tokens" className="scroll-mt-24 mb-12">
+          <div className="flex items-center gap-3 mb-2">
+            <div className="p-2 rounded-lg bg-gradient-to-br from-violet-500/10 to-blue-500/10">
+              <svg
+                className="w-5 h-5 text-violet-600 dark:text-violet-400"
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4"
+                />
+              </svg>
+            </div>
+            <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+              API Tokens
+            </h2>
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+            Personal access tokens for scripts and integrations that use the public API
+          </p>
+
+          <div className={cn(
+            "p-6 rounded-xl",
+            "bg-gray-50 dark:bg-[#111111]",
+            "border border-gray-200 dark:border-[#262626]"
+          )}>
+            <ApiTokenSettings />
+          </div>
+        </section>
+
+        {/* Divider */}
+        <hr className="border-gray-200 dark:border-[#262626] mb-12" />
+
         {/* Blocked Users Section */}
         <section className="mb-12">
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
@@ -1653,6 +1718,21 @@ export default function SettingsPage() {
         {/* Divider */}
         <hr className="border-gray-200 dark:border-[#262626] mb-12" />
 
+        {/* Donations Section */}
+        <section id="donations" className="scroll-mt-24 mb-12">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
+            Donations
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+            Download receipts and annual statements for your tax records
+          </p>
+
+          <DonationReceipts />
+        </section>
+
+        {/* Divider */}
+        <hr className="border-gray-200 dark:border-[#262626] mb-12" />
+
         {/* Activity & History Section */}
         <section className="mb-12">
           <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-2">
@@ -2204,6 +2284,12 @@ export default function SettingsPage() {
             </div>
           </div>
 
+          {/* Per-type routing, quiet hours & digests */}
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-4 mt-8">
+            Routing &amp; Quiet Hours
+          </h3>
+          <NotificationRoutingSettings timezone={profile?.timezone} />
+
           {/* Test Notifications */}
           <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-4 mt-8">
             Test Notifications
@@ -21,9 +21,13 @@ import {
 } from "@/components/stats";
 import {
   getCommunityStats,
+  getLeaderboard,
   type CommunityStats,
 } from "@/app/actions/community-stats";
 import { cn } from "@/lib/design-system";
+import type { LeaderboardEntry, LeaderboardWindow } from "@/lib/gamification";
+
+const LEADERBOARD_TABS: LeaderboardWindow[] = ["weekly", "monthly", "season", "all_time"];
 
 export default function StatsPage() {
   const [stats, setStats] = useState<CommunityStats | null>(null);
@@ -72,6 +76,22 @@ export default function StatsPage() {
 }
 
 function StatsContent({ stats }: { stats: CommunityStats }) {
+  const [leaderboardWindow, setLeaderboardWindow] = useState<LeaderboardWindow>("all_time");
+  const [leaderboard, setLeaderboard] = useState<{ entries: LeaderboardEntry[]; label?: string }>({
+    entries: stats.topContributors,
+  });
+
+  const handleWindowChange = async (window: LeaderboardWindow) => {
+    setLeaderboardWindow(window);
+    const result = await getLeaderboard(10, window);
+    if (result.entries) {
+      setLeaderboard({
+        entries: result.entries,
+        label: result.label ?? (window === "season" ? "No season is running" : undefined),
+      });
+    }
+  };
+
   return (
     <div className="space-y-8">
       {/* Hero section */}
@@ -96,7 +116,14 @@ function StatsContent({ stats }: { stats: CommunityStats }) {
           <h2 className="text-lg font-semibold text-white mb-4">
             Top Contributors
           </h2>
-          <Leaderboard entries={stats.topContributors} variant="compact" />
+          <Leaderboard
+            entries={leaderboard.entries}
+            variant="compact"
+            windows={LEADERBOARD_TABS}
+            activeWindow={leaderboardWindow}
+            onWindowChange={handleWindowChange}
+            subtitle={leaderboardWindow === "all_time" ? undefined : leaderboard.label}
+          />
         </div>
 
         {/* Activity chart */}
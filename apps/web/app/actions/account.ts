@@ -6,7 +6,7 @@
  * Handle data export, account deletion, and GDPR compliance.
  */
 
-import { getSession } from "@/lib/auth";
+import { getFreshSession } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/server";
 import { sendEmail } from "@/lib/email";
 
@@ -88,7 +88,7 @@ export async function exportUserData(): Promise<{
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -290,7 +290,7 @@ export async function requestAccountDeletion(): Promise<{
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id || !session.user.email) {
       return { error: "You must be signed in" };
     }
@@ -420,7 +420,7 @@ export async function cancelAccountDeletion(): Promise<{
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -449,7 +449,7 @@ export async function getPendingDeletionRequest(): Promise<{
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { pending: false };
     }
@@ -3,12 +3,12 @@
 /**
  * Achievements Server Actions
  *
- * Handle achievement tracking, awarding, and display.
+ * Achievement display and featuring. Progress and awarding are handled by
+ * the rule engine (lib/achievement-engine.ts) from the events actions emit.
  */
 
 import { getSession } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/server";
-import { createNotification } from "./notifications";
 
 export interface Achievement {
   id: string;
@@ -333,120 +333,6 @@ export async function getAchievementProgress(): Promise<{
   }
 }
 
-/**
- * Increment achievement progress (called internally)
- */
-export async function incrementProgress(
-  userId: string,
-  achievementSlug: string,
-  increment: number = 1
-): Promise<boolean> {
-  try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const supabase = (await createAdminClient()) as any;
-
-    // Increment progress
-    const { data } = await supabase.rpc("increment_achievement_progress", {
-      p_user_id: userId,
-      p_achievement_slug: achievementSlug,
-      p_increment: increment,
-    });
-
-    // Check if newly earned
-    const wasAwarded = await checkAndNotifyAchievement(userId, achievementSlug);
-
-    return data !== null || wasAwarded;
-  } catch (error) {
-    console.error("[Achievements] Increment error:", error);
-    return false;
-  }
-}
-
-/**
- * Award a special achievement (called internally)
- */
-export async function awardSpecialAchievement(
-  userId: string,
-  achievementSlug: string
-): Promise<boolean> {
-  try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const supabase = (await createAdminClient()) as any;
-
-    const { data } = await supabase.rpc("award_achievement", {
-      p_user_id: userId,
-      p_achievement_slug: achievementSlug,
-    });
-
-    if (data) {
-      // Send notification
-      const { data: achievement } = await supabase
-        .from("achievements")
-        .select("name, description")
-        .eq("slug", achievementSlug)
-        .single();
-
-      if (achievement) {
-        await createNotification({
-          userId,
-          type: "system",
-          title: `Achievement Unlocked: ${achievement.name}`,
-          message: achievement.description,
-          resourceType: "achievement",
-          resourceId: achievementSlug,
-        });
-      }
-    }
-
-    return !!data;
-  } catch (error) {
-    console.error("[Achievements] Award error:", error);
-    return false;
-  }
-}
-
-/**
- * Check and notify if achievement was earned
- */
-async function checkAndNotifyAchievement(
-  userId: string,
-  achievementSlug: string
-): Promise<boolean> {
-  try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const supabase = (await createAdminClient()) as any;
-
-    // Check if newly earned (very recent)
-    const { data } = await supabase
-      .from("user_achievements")
-      .select(
-        `
-        earned_at,
-        achievement:achievement_id (name, description)
-      `
-      )
-      .eq("user_id", userId)
-      .gte("earned_at", new Date(Date.now() - 5000).toISOString()) // Last 5 seconds
-      .single();
-
-    if (data?.achievement) {
-      await createNotification({
-        userId,
-        type: "system",
-        title: `Achievement Unlocked: ${data.achievement.name}`,
-        message: data.achievement.description,
-        resourceType: "achievement",
-        resourceId: achievementSlug,
-      });
-      return true;
-    }
-
-    return false;
-  } catch {
-    return false;
-  }
-}
-
 /**
  * Get achievement stats for a user
  */
@@ -16,11 +16,16 @@ import { createAdminClient } from "@/lib/supabase/server";
 import { hasMinRole, ROLES, type UserRole } from "@/lib/roles";
 import {
   exportData,
+  streamExport,
+  isStreamableFormat,
+  EXPORT_FORMAT_INFO,
+  type ColumnDefinition,
   type ExportFormat,
   type ExportOptions,
   USER_EXPORT_COLUMNS,
   AUDIT_LOG_COLUMNS,
   ACTIVITY_EXPORT_COLUMNS,
+  CONTENT_EXPORT_COLUMNS,
 } from "@/lib/export-formats";
 
 // Types
@@ -43,6 +48,8 @@ export interface ExportJob {
   file_path: string | null;
   file_size: number | null;
   row_count: number | null;
+  rows_processed: number;
+  total_rows: number | null;
   error_message: string | null;
   progress: number;
   current_step: string | null;
@@ -110,6 +117,22 @@ export async function createExportJob(input: {
 
 // ==================== Process Export Job ====================
 
+// Rows fetched per page while streaming
+const EXPORT_PAGE_SIZE = 1000;
+
+/**
+ * A table read in pages for an export. `applyFilters` is shared by the
+ * row query and the count query.
+ */
+interface ExportSource {
+  table: string;
+  select: string;
+  orderBy: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  applyFilters: (query: any, options: ExportJobOptions) => any;
+  mapRow?: (row: Record<string, unknown>) => Record<string, unknown>;
+}
+
 async function processExportJob(jobId: string): Promise<void> {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const supabase = (await createAdminClient()) as any;
@@ -123,6 +146,7 @@ async function processExportJob(jobId: string): Promise<void> {
         started_at: new Date().toISOString(),
         current_step: "Initializing...",
         progress: 5,
+        rows_processed: 0,
       })
       .eq("id", jobId);
 
@@ -136,116 +160,108 @@ async function processExportJob(jobId: string): Promise<void> {
     if (!job) throw new Error("Job not found");
 
     const options = job.options as ExportJobOptions;
-    let data: Record<string, unknown>[] = [];
-    let exportColumns;
-
-    // Fetch data based on export type
-    switch (job.export_type) {
-      case "users":
-        await updateProgress(supabase, jobId, 20, "Fetching user data...");
-        data = await fetchUserData(supabase, options);
-        exportColumns = USER_EXPORT_COLUMNS;
-        break;
-
-      case "activity":
-        await updateProgress(supabase, jobId, 20, "Fetching activity data...");
-        data = await fetchActivityData(supabase, options);
-        exportColumns = ACTIVITY_EXPORT_COLUMNS;
-        break;
-
-      case "audit_logs":
-        await updateProgress(supabase, jobId, 20, "Fetching audit logs...");
-        data = await fetchAuditLogs(supabase, options);
-        exportColumns = AUDIT_LOG_COLUMNS;
-        break;
-
-      case "content":
-        await updateProgress(supabase, jobId, 20, "Fetching content data...");
-        data = await fetchContentData(supabase, options);
-        break;
-
-      case "all": {
-        // Combine all data types
-        await updateProgress(supabase, jobId, 10, "Fetching user data...");
-        const users = await fetchUserData(supabase, options);
-        await updateProgress(supabase, jobId, 30, "Fetching activity data...");
-        const activity = await fetchActivityData(supabase, options);
-        await updateProgress(supabase, jobId, 50, "Fetching audit logs...");
-        const logs = await fetchAuditLogs(supabase, options);
-        data = [
-          ...users.map((u: Record<string, unknown>) => ({ ...u, _type: "user" })),
-          ...activity.map((a: Record<string, unknown>) => ({ ...a, _type: "activity" })),
-          ...logs.map((l: Record<string, unknown>) => ({ ...l, _type: "audit_log" })),
-        ];
-        break;
-      }
-    }
+    const format = job.format as ExportFormat;
+    const { sources, columns } = getExportPlan(job.export_type as ExportType);
 
-    await updateProgress(supabase, jobId, 70, "Generating export file...");
+    // Rows created after this point are left out, so pages stay stable
+    // while the live tables keep growing
+    const snapshotAt = new Date().toISOString();
+
+    // Count rows up front so progress can be reported while streaming
+    await updateProgress(supabase, jobId, 10, "Counting rows...");
+    const counts = await Promise.all(
+      sources.map(({ source }) => countSource(supabase, source, options, snapshotAt))
+    );
+    const totalRows = counts.reduce((sum, count) => sum + count, 0);
+    await supabase
+      .from("export_jobs")
+      .update({ total_rows: totalRows })
+      .eq("id", jobId);
 
-    // Export the data
     const exportOptions: ExportOptions = {
-      format: job.format as ExportFormat,
-      columns: exportColumns,
+      format,
+      columns,
       anonymize: options.anonymize,
       prettyPrint: true,
       sheetName: job.export_type,
+      tableName: job.export_type,
     };
-
-    const result = await exportData(data, exportOptions);
-
-    await updateProgress(supabase, jobId, 90, "Saving export file...");
-
-    // Store the file in Supabase Storage
-    const fileName = `export_${jobId}.${result.extension}`;
-    const filePath = `exports/${job.created_by}/${fileName}`;
-
-    // Convert string data to buffer for storage
-    const fileData =
-      typeof result.data === "string"
-        ? Buffer.from(result.data, "utf-8")
-        : result.data;
-
-    const { error: uploadError } = await supabase.storage
-      .from("exports")
-      .upload(filePath, fileData, {
-        contentType: result.mimeType,
-        upsert: true,
+    const { mimeType, extension } = EXPORT_FORMAT_INFO[format];
+    const filePath = `exports/${job.created_by}/export_${jobId}.${extension}`;
+
+    const rows = fetchSources(supabase, sources, options, snapshotAt);
+    let fileSize: number;
+    let rowCount: number;
+
+    if (isStreamableFormat(format)) {
+      // Stream straight to storage, one page at a time
+      rowCount = 0;
+      const chunks = streamExport(rows, {
+        ...exportOptions,
+        format,
+        onProgress: async (processed) => {
+          rowCount = processed;
+          await updateStreamProgress(supabase, jobId, processed, totalRows);
+        },
       });
 
-    if (uploadError) {
-      console.warn("[Export] Storage upload failed, using data URL fallback");
-      // Store as base64 in the database as fallback
-      const base64Data = Buffer.from(fileData).toString("base64");
-      await supabase
-        .from("export_jobs")
-        .update({
-          status: "completed",
-          file_path: `data:${result.mimeType};base64,${base64Data}`,
-          file_size: fileData.length,
-          row_count: result.rowCount,
-          progress: 100,
-          current_step: "Complete",
-          completed_at: new Date().toISOString(),
-        })
-        .eq("id", jobId);
+      const upload = toUploadStream(chunks);
+      const { error: uploadError } = await supabase.storage
+        .from("exports")
+        .upload(filePath, upload.stream, {
+          contentType: mimeType,
+          upsert: true,
+          duplex: "half",
+        });
+
+      if (uploadError) {
+        throw new Error(`Storage upload failed: ${uploadError.message}`);
+      }
+      fileSize = upload.bytesWritten();
     } else {
-      // Update job with file info
-      await supabase
-        .from("export_jobs")
-        .update({
-          status: "completed",
-          file_path: filePath,
-          file_size: fileData.length,
-          row_count: result.rowCount,
-          progress: 100,
-          current_step: "Complete",
-          completed_at: new Date().toISOString(),
-        })
-        .eq("id", jobId);
+      // XLSX needs the whole workbook in memory
+      await updateProgress(supabase, jobId, 20, "Fetching data...");
+      const data: Record<string, unknown>[] = [];
+      for await (const page of rows) {
+        data.push(...page);
+        await updateStreamProgress(supabase, jobId, data.length, totalRows);
+      }
+
+      await updateProgress(supabase, jobId, 90, "Generating export file...");
+      const result = await exportData(data, exportOptions);
+      const fileData =
+        typeof result.data === "string"
+          ? Buffer.from(result.data, "utf-8")
+          : result.data;
+      rowCount = result.rowCount;
+      fileSize = fileData.length;
+
+      const { error: uploadError } = await supabase.storage
+        .from("exports")
+        .upload(filePath, fileData, {
+          contentType: result.mimeType,
+          upsert: true,
+        });
+
+      if (uploadError) {
+        console.warn("[Export] Storage upload failed, using data URL fallback");
+        // Store as base64 in the database as fallback
+        const base64Data = Buffer.from(fileData).toString("base64");
+        await completeExportJob(
+          supabase,
+          jobId,
+          `data:${result.mimeType};base64,${base64Data}`,
+          fileSize,
+          rowCount
+        );
+        return;
+      }
     }
+
+    await completeExportJob(supabase, jobId, filePath, fileSize, rowCount);
   } catch (error) {
     console.error("[Export] Process error:", error);
+    // A cancelled job keeps its status
     await supabase
       .from("export_jobs")
       .update({
@@ -253,10 +269,35 @@ async function processExportJob(jobId: string): Promise<void> {
         error_message: error instanceof Error ? error.message : "Export failed",
         completed_at: new Date().toISOString(),
       })
-      .eq("id", jobId);
+      .eq("id", jobId)
+      .neq("status", "cancelled");
   }
 }
 
+// Helper to mark a job complete
+async function completeExportJob(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  jobId: string,
+  filePath: string,
+  fileSize: number,
+  rowCount: number
+) {
+  await supabase
+    .from("export_jobs")
+    .update({
+      status: "completed",
+      file_path: filePath,
+      file_size: fileSize,
+      row_count: rowCount,
+      rows_processed: rowCount,
+      progress: 100,
+      current_step: "Complete",
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", jobId);
+}
+
 // Helper to update progress
  
 async function updateProgress(
@@ -274,52 +315,101 @@ async function updateProgress(
     .eq("id", jobId);
 }
 
-// ==================== Data Fetchers ====================
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function fetchUserData(supabase: any, options: ExportJobOptions) {
-  let query = supabase
-    .from("user")
-    .select('id, email, name, username, role, "createdAt", "emailVerified", banned');
-
-  if (options.userIds?.length) {
-    query = query.in("id", options.userIds);
-  }
-
-  if (options.dateRange?.start) {
-    query = query.gte('"createdAt"', options.dateRange.start);
-  }
+/**
+ * Record streamed rows on the job and stop if it was cancelled meanwhile
+ */
+async function updateStreamProgress(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  jobId: string,
+  rowsProcessed: number,
+  totalRows: number
+) {
+  const fraction = totalRows > 0 ? Math.min(1, rowsProcessed / totalRows) : 1;
+  const { data } = await supabase
+    .from("export_jobs")
+    .update({
+      rows_processed: rowsProcessed,
+      progress: 15 + Math.floor(fraction * 80),
+      current_step: `Exported ${rowsProcessed.toLocaleString()} of ${totalRows.toLocaleString()} rows`,
+    })
+    .eq("id", jobId)
+    .neq("status", "cancelled")
+    .select("id");
 
-  if (options.dateRange?.end) {
-    query = query.lte('"createdAt"', options.dateRange.end);
+  if (!data?.length) {
+    throw new Error("Export cancelled");
   }
-
-  const { data } = await query;
-  return data || [];
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function fetchActivityData(supabase: any, options: ExportJobOptions) {
-  let query = supabase
-    .from("user_activity")
-    .select("id, user_id, activity_type, resource_type, resource_id, metadata, created_at");
-
-  if (options.userIds?.length) {
-    query = query.in("user_id", options.userIds);
-  }
-
-  if (options.dateRange?.start) {
-    query = query.gte("created_at", options.dateRange.start);
-  }
+/**
+ * Wrap the export generator as a web stream for Supabase Storage,
+ * counting bytes as they are uploaded
+ */
+function toUploadStream(chunks: AsyncGenerator<string | Buffer, void, unknown>) {
+  const encoder = new TextEncoder();
+  let bytes = 0;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) {
+          controller.close();
+          return;
+        }
+        const chunk = typeof value === "string" ? encoder.encode(value) : value;
+        bytes += chunk.byteLength;
+        controller.enqueue(chunk);
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await chunks.return();
+    },
+  });
 
-  if (options.dateRange?.end) {
-    query = query.lte("created_at", options.dateRange.end);
-  }
+  return { stream, bytesWritten: () => bytes };
+}
 
-  query = query.order("created_at", { ascending: false }).limit(10000);
+// ==================== Data Sources ====================
 
-  const { data } = await query;
-  return (data || []).map((row: Record<string, unknown>) => ({
+const USER_SOURCE: ExportSource = {
+  table: "user",
+  select: 'id, email, name, username, role, "createdAt", "emailVerified", banned',
+  orderBy: "createdAt",
+  applyFilters: (query, options) => {
+    if (options.userIds?.length) {
+      query = query.in("id", options.userIds);
+    }
+    if (options.dateRange?.start) {
+      query = query.gte("createdAt", options.dateRange.start);
+    }
+    if (options.dateRange?.end) {
+      query = query.lte("createdAt", options.dateRange.end);
+    }
+    return query;
+  },
+};
+
+const ACTIVITY_SOURCE: ExportSource = {
+  table: "user_activity",
+  select: "id, user_id, activity_type, resource_type, resource_id, metadata, created_at",
+  orderBy: "created_at",
+  applyFilters: (query, options) => {
+    if (options.userIds?.length) {
+      query = query.in("user_id", options.userIds);
+    }
+    if (options.dateRange?.start) {
+      query = query.gte("created_at", options.dateRange.start);
+    }
+    if (options.dateRange?.end) {
+      query = query.lte("created_at", options.dateRange.end);
+    }
+    return query;
+  },
+  mapRow: (row) => ({
     id: row.id,
     userId: row.user_id,
     activityType: row.activity_type,
@@ -327,29 +417,23 @@ async function fetchActivityData(supabase: any, options: ExportJobOptions) {
     resourceId: row.resource_id,
     metadata: row.metadata,
     createdAt: row.created_at,
-  }));
-}
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function fetchAuditLogs(supabase: any, options: ExportJobOptions) {
-  // Fetch from Payload CMS audit-logs collection via API
-  // For now, return empty - this would need Payload integration
-  let query = supabase
-    .from("admin_logs")
-    .select("id, user_id, action, target_type, target_id, details, ip_address, created_at");
-
-  if (options.dateRange?.start) {
-    query = query.gte("created_at", options.dateRange.start);
-  }
-
-  if (options.dateRange?.end) {
-    query = query.lte("created_at", options.dateRange.end);
-  }
-
-  query = query.order("created_at", { ascending: false }).limit(10000);
-
-  const { data } = await query;
-  return (data || []).map((row: Record<string, unknown>) => ({
+  }),
+};
+
+const AUDIT_LOG_SOURCE: ExportSource = {
+  table: "admin_logs",
+  select: "id, user_id, action, target_type, target_id, details, ip_address, created_at",
+  orderBy: "created_at",
+  applyFilters: (query, options) => {
+    if (options.dateRange?.start) {
+      query = query.gte("created_at", options.dateRange.start);
+    }
+    if (options.dateRange?.end) {
+      query = query.lte("created_at", options.dateRange.end);
+    }
+    return query;
+  },
+  mapRow: (row) => ({
     id: row.id,
     userId: row.user_id,
     action: row.action,
@@ -358,53 +442,144 @@ async function fetchAuditLogs(supabase: any, options: ExportJobOptions) {
     details: row.details,
     ipAddress: row.ip_address,
     createdAt: row.created_at,
-  }));
-}
+  }),
+};
+
+const REVIEW_SOURCE: ExportSource = {
+  table: "reviews",
+  select: "id, user_id, resource_id, rating, content, created_at",
+  orderBy: "created_at",
+  applyFilters: (query) => query,
+  mapRow: (row) => ({
+    type: "review",
+    id: row.id,
+    userId: row.user_id,
+    resourceId: row.resource_id,
+    rating: row.rating,
+    content: row.content,
+    createdAt: row.created_at,
+  }),
+};
+
+const COMMENT_SOURCE: ExportSource = {
+  table: "comments",
+  select: "id, user_id, doc_slug, content, created_at",
+  orderBy: "created_at",
+  applyFilters: (query) => query,
+  mapRow: (row) => ({
+    type: "comment",
+    id: row.id,
+    userId: row.user_id,
+    docSlug: row.doc_slug,
+    content: row.content,
+    createdAt: row.created_at,
+  }),
+};
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-async function fetchContentData(supabase: any, _options: ExportJobOptions) {
-  // Fetch reviews, comments, etc.
-  const [reviews, comments] = await Promise.all([
-    supabase
-      .from("reviews")
-      .select("id, user_id, resource_id, rating, content, created_at")
-      .limit(10000),
-    supabase
-      .from("comments")
-      .select("id, user_id, doc_slug, content, created_at")
-      .limit(10000),
-  ]);
-
-  const content: Record<string, unknown>[] = [];
-
-  if (reviews.data) {
-    content.push(
-      ...reviews.data.map((r: Record<string, unknown>) => ({
-        type: "review",
-        id: r.id,
-        userId: r.user_id,
-        resourceId: r.resource_id,
-        rating: r.rating,
-        content: r.content,
-        createdAt: r.created_at,
-      }))
-    );
-  }
+// Combined export: one column set covering every record type
+const ALL_EXPORT_COLUMNS: ColumnDefinition[] = [
+  { key: "_type", label: "Record Type", width: 12 },
+  ...[...USER_EXPORT_COLUMNS, ...ACTIVITY_EXPORT_COLUMNS, ...AUDIT_LOG_COLUMNS].filter(
+    (col, index, all) => all.findIndex((c) => c.key === col.key) === index
+  ),
+];
 
-  if (comments.data) {
-    content.push(
-      ...comments.data.map((c: Record<string, unknown>) => ({
-        type: "comment",
-        id: c.id,
-        userId: c.user_id,
-        docSlug: c.doc_slug,
-        content: c.content,
-        createdAt: c.created_at,
-      }))
-    );
+/**
+ * Sources (with an optional record type tag) and columns per export type
+ */
+function getExportPlan(exportType: ExportType): {
+  sources: { source: ExportSource; recordType?: string }[];
+  columns: ColumnDefinition[];
+} {
+  switch (exportType) {
+    case "users":
+      return { sources: [{ source: USER_SOURCE }], columns: USER_EXPORT_COLUMNS };
+    case "activity":
+      return { sources: [{ source: ACTIVITY_SOURCE }], columns: ACTIVITY_EXPORT_COLUMNS };
+    case "audit_logs":
+      return { sources: [{ source: AUDIT_LOG_SOURCE }], columns: AUDIT_LOG_COLUMNS };
+    case "content":
+      return {
+        sources: [{ source: REVIEW_SOURCE }, { source: COMMENT_SOURCE }],
+        columns: CONTENT_EXPORT_COLUMNS,
+      };
+    case "all":
+      return {
+        sources: [
+          { source: USER_SOURCE, recordType: "user" },
+          { source: ACTIVITY_SOURCE, recordType: "activity" },
+          { source: AUDIT_LOG_SOURCE, recordType: "audit_log" },
+        ],
+        columns: ALL_EXPORT_COLUMNS,
+      };
   }
+}
+
+async function countSource(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  source: ExportSource,
+  options: ExportJobOptions,
+  snapshotAt: string
+): Promise<number> {
+  const { count, error } = await source
+    .applyFilters(
+      supabase.from(source.table).select("id", { count: "exact", head: true }),
+      options
+    )
+    .lte(source.orderBy, snapshotAt);
+  if (error) throw error;
+  return count || 0;
+}
 
-  return content;
+/**
+ * Read every source page by page, newest first, up to `snapshotAt`.
+ * Keyset pagination on (orderBy, id): each page starts after the last row
+ * of the previous one, so inserts can't shift pages and deep pages cost
+ * the same as the first.
+ */
+async function* fetchSources(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  sources: { source: ExportSource; recordType?: string }[],
+  options: ExportJobOptions,
+  snapshotAt: string
+): AsyncGenerator<Record<string, unknown>[], void, unknown> {
+  for (const { source, recordType } of sources) {
+    let cursor: { orderValue: string; id: string } | null = null;
+
+    for (;;) {
+      let query = source
+        .applyFilters(supabase.from(source.table).select(source.select), options)
+        .lte(source.orderBy, snapshotAt);
+      if (cursor) {
+        // Values are quoted: timestamps contain PostgREST's reserved "." and ":"
+        const { orderValue, id } = cursor;
+        query = query.or(
+          `${source.orderBy}.lt."${orderValue}",and(${source.orderBy}.eq."${orderValue}",id.lt."${id}")`
+        );
+      }
+
+      const { data, error } = await query
+        .order(source.orderBy, { ascending: false })
+        .order("id", { ascending: false })
+        .limit(EXPORT_PAGE_SIZE);
+
+      if (error) throw error;
+
+      const page: Record<string, unknown>[] = data || [];
+      if (page.length > 0) {
+        const last = page[page.length - 1]!;
+        cursor = { orderValue: String(last[source.orderBy]), id: String(last.id) };
+        yield page.map((row) => {
+          const mapped = source.mapRow ? source.mapRow(row) : row;
+          return recordType ? { ...mapped, _type: recordType } : mapped;
+        });
+      }
+
+      if (page.length < EXPORT_PAGE_SIZE) break;
+    }
+  }
 }
 
 // ==================== Get Export Jobs ====================
@@ -0,0 +1,134 @@
+"use server";
+
+/**
+ * Admin Job Queue Server Actions
+ *
+ * Backs the /dashboard/jobs console: queue stats, job inspection
+ * (payload and error history), and bulk retry/cancel of dead letters.
+ */
+
+import { getSession } from "@/lib/auth";
+import { pool } from "@/lib/db";
+import { revalidatePath } from "next/cache";
+import { hasMinRole, ROLES, type UserRole } from "@/lib/roles";
+import {
+  cancelJobs,
+  getQueueStats,
+  listJobs,
+  retryJobs,
+  type Job,
+  type JobStatus,
+  type JobType,
+  type QueueStats,
+} from "@/lib/job-queue";
+
+/**
+ * Check if user has admin privileges
+ * Job payloads can contain email addresses and webhook headers, so this
+ * requires ADMIN rather than MODERATOR
+ */
+async function checkAdminAccess(): Promise<{ userId: string } | { error: string }> {
+  const session = await getSession();
+  if (!session?.user?.id) {
+    return { error: "You must be signed in" };
+  }
+
+  const result = await pool.query(
+    `SELECT role FROM "user" WHERE id = $1`,
+    [session.user.id]
+  );
+
+  const role = result.rows[0]?.role as UserRole | undefined;
+  if (!hasMinRole(role, ROLES.ADMIN)) {
+    return { error: "You don't have permission to manage background jobs" };
+  }
+
+  return { userId: session.user.id };
+}
+
+/**
+ * Get queue stats and a page of jobs
+ */
+export async function getJobQueueOverview(options?: {
+  status?: JobStatus;
+  type?: JobType;
+  limit?: number;
+  offset?: number;
+}): Promise<{
+  stats?: QueueStats[];
+  jobs?: Job[];
+  total?: number;
+  error?: string;
+}> {
+  try {
+    const access = await checkAdminAccess();
+    if ("error" in access) return { error: access.error };
+
+    const [stats, { jobs, total }] = await Promise.all([
+      getQueueStats(),
+      listJobs({
+        status: options?.status,
+        type: options?.type,
+        limit: options?.limit || 50,
+        offset: options?.offset || 0,
+      }),
+    ]);
+
+    return { stats, jobs, total };
+  } catch (error) {
+    console.error("[AdminJobs] Get overview error:", error);
+    return { error: "Failed to load job queue" };
+  }
+}
+
+/**
+ * Requeue dead-lettered or cancelled jobs with a fresh attempt budget
+ */
+export async function retryJobsAction(ids: string[]): Promise<{
+  updated?: number;
+  error?: string;
+}> {
+  try {
+    const access = await checkAdminAccess();
+    if ("error" in access) return { error: access.error };
+
+    if (ids.length === 0) {
+      return { updated: 0 };
+    }
+
+    const updated = await retryJobs(ids);
+    console.log(`[AdminJobs] ${access.userId} retried ${updated} jobs`);
+
+    revalidatePath("/dashboard/jobs");
+    return { updated };
+  } catch (error) {
+    console.error("[AdminJobs] Retry error:", error);
+    return { error: "Failed to retry jobs" };
+  }
+}
+
+/**
+ * Cancel pending or dead-lettered jobs
+ */
+export async function cancelJobsAction(ids: string[]): Promise<{
+  updated?: number;
+  error?: string;
+}> {
+  try {
+    const access = await checkAdminAccess();
+    if ("error" in access) return { error: access.error };
+
+    if (ids.length === 0) {
+      return { updated: 0 };
+    }
+
+    const updated = await cancelJobs(ids);
+    console.log(`[AdminJobs] ${access.userId} cancelled ${updated} jobs`);
+
+    revalidatePath("/dashboard/jobs");
+    return { updated };
+  } catch (error) {
+    console.error("[AdminJobs] Cancel error:", error);
+    return { error: "Failed to cancel jobs" };
+  }
+}
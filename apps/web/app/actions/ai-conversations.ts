@@ -1,8 +1,20 @@
 "use server";
 
+/**
+ * AI Conversation Server Actions
+ *
+ * Server store for assistant conversations, shared by Ask AI, the unified
+ * chat tab and the voice assistant. The browser keeps a localStorage cache
+ * (lib/assistant-storage.ts) that is pushed and pulled by
+ * syncAssistantConversations() when the user is signed in.
+ */
+
+import type { PoolClient } from "pg";
 import { createClient } from "@/lib/supabase/server";
 import { auth } from "@/lib/auth";
+import { pool } from "@/lib/db";
 import { headers } from "next/headers";
+import type { AssistantToolStep } from "@/lib/claude-utils";
 
 export interface AIMessage {
   id: string;
@@ -10,6 +22,7 @@ export interface AIMessage {
   role: "user" | "assistant";
   content: string;
   tokens_used?: number;
+  position: number;
   created_at: string;
 }
 
@@ -24,6 +37,9 @@ export interface AIConversation {
   };
   message_count: number;
   is_starred: boolean;
+  client_id?: string | null;
+  parent_id?: string | null;
+  branch_message_index?: number | null;
   created_at: string;
   updated_at: string;
   messages?: AIMessage[];
@@ -112,6 +128,7 @@ export async function getConversation(
       .from("ai_messages")
       .select("*")
       .eq("conversation_id", conversationId)
+      .order("position", { ascending: true })
       .order("created_at", { ascending: true });
 
     if (msgError) {
@@ -190,7 +207,7 @@ export async function addMessage(
      
     const { data: conv } = await supabase
       .from("ai_conversations")
-      .select("id")
+      .select("id, message_count")
       .eq("id", conversationId)
       .eq("user_id", session.user.id)
       .single();
@@ -199,7 +216,8 @@ export async function addMessage(
       return { data: null, error: "Conversation not found" };
     }
 
-     
+    const position = conv.message_count ?? 0;
+
     const { data, error } = await supabase
       .from("ai_messages")
       .insert({
@@ -207,6 +225,7 @@ export async function addMessage(
         role,
         content,
         tokens_used: tokensUsed,
+        position,
       })
       .select()
       .single();
@@ -216,6 +235,12 @@ export async function addMessage(
       return { data: null, error: "Failed to add message" };
     }
 
+    // Keep the count and recency in step so synced caches pick it up
+    await supabase
+      .from("ai_conversations")
+      .update({ message_count: position + 1, updated_at: new Date().toISOString() })
+      .eq("id", conversationId);
+
     return { data: data as AIMessage, error: null };
   } catch (error) {
     console.error("Error in addMessage:", error);
@@ -343,3 +368,372 @@ export async function deleteConversation(
     return { data: null, error: "Failed to delete conversation" };
   }
 }
+
+// =============================================================================
+// ASSISTANT SYNC
+// =============================================================================
+
+export interface SyncedMessage {
+  role: "user" | "assistant";
+  content: string;
+  toolSteps?: AssistantToolStep[];
+}
+
+/**
+ * A conversation as cached in the browser. `id` is the browser ID
+ * (client_id), or the server ID for conversations created server-side.
+ */
+export interface SyncedConversation {
+  id: string;
+  title: string;
+  messages: SyncedMessage[];
+  parentId?: string;
+  branchMessageIndex?: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ConversationSearchResult {
+  conversationId: string;
+  title: string;
+  /** Best matching message, or null when only the title matched */
+  messageIndex: number | null;
+  snippet: string;
+  updatedAt: number;
+}
+
+const MAX_SYNCED_CONVERSATIONS = 50;
+const MAX_SYNCED_MESSAGES = 200;
+const MAX_MESSAGE_LENGTH = 100000;
+
+async function getSessionUserId(): Promise<string | null> {
+  const session = await auth.api.getSession({ headers: await headers() });
+  return session?.user?.id ?? null;
+}
+
+function isValidSyncedConversation(value: unknown): value is SyncedConversation {
+  if (!value || typeof value !== "object") return false;
+  const conv = value as Record<string, unknown>;
+  return (
+    typeof conv.id === "string" &&
+    conv.id.length > 0 &&
+    conv.id.length <= 100 &&
+    typeof conv.title === "string" &&
+    typeof conv.updatedAt === "number" &&
+    typeof conv.createdAt === "number" &&
+    Array.isArray(conv.messages) &&
+    conv.messages.length <= MAX_SYNCED_MESSAGES &&
+    conv.messages.every(
+      (m) =>
+        m &&
+        typeof m === "object" &&
+        (m.role === "user" || m.role === "assistant") &&
+        typeof m.content === "string" &&
+        m.content.length <= MAX_MESSAGE_LENGTH
+    )
+  );
+}
+
+/**
+ * Find a conversation by browser ID, or by server ID for conversations
+ * that were created server-side (Ask AI)
+ */
+async function findConversationId(
+  client: PoolClient,
+  userId: string,
+  id: string
+): Promise<{ id: string; updatedAt: number } | null> {
+  const result = await client.query(
+    `SELECT id, updated_at FROM ai_conversations
+     WHERE user_id = $1 AND (client_id = $2 OR (client_id IS NULL AND id::text = $2))
+     LIMIT 1
+     FOR UPDATE`,
+    [userId, id]
+  );
+  const row = result.rows[0];
+  return row ? { id: row.id, updatedAt: new Date(row.updated_at).getTime() } : null;
+}
+
+/**
+ * Write a cached conversation to the server, last write wins
+ *
+ * @returns true if the server copy was replaced
+ */
+async function upsertConversation(
+  client: PoolClient,
+  userId: string,
+  conversation: SyncedConversation
+): Promise<boolean> {
+  const existing = await findConversationId(client, userId, conversation.id);
+  if (existing && existing.updatedAt >= conversation.updatedAt) return false;
+
+  const parent = conversation.parentId
+    ? await findConversationId(client, userId, conversation.parentId)
+    : null;
+  const title = conversation.title.trim().slice(0, 200) || "New conversation";
+
+  let conversationId: string;
+  if (existing) {
+    conversationId = existing.id;
+    await client.query(
+      `UPDATE ai_conversations
+       SET title = $2, message_count = $3, updated_at = to_timestamp($4 / 1000.0)
+       WHERE id = $1`,
+      [conversationId, title, conversation.messages.length, conversation.updatedAt]
+    );
+    await client.query(`DELETE FROM ai_messages WHERE conversation_id = $1`, [conversationId]);
+  } else {
+    const inserted = await client.query(
+      `INSERT INTO ai_conversations
+         (user_id, client_id, title, message_count, parent_id, branch_message_index, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $6, to_timestamp($7 / 1000.0), to_timestamp($8 / 1000.0))
+       RETURNING id`,
+      [
+        userId,
+        conversation.id,
+        title,
+        conversation.messages.length,
+        parent?.id ?? null,
+        parent ? (conversation.branchMessageIndex ?? null) : null,
+        conversation.createdAt,
+        conversation.updatedAt,
+      ]
+    );
+    conversationId = inserted.rows[0].id;
+  }
+
+  if (conversation.messages.length > 0) {
+    await client.query(
+      `INSERT INTO ai_messages (conversation_id, role, content, tool_steps, position, created_at)
+       SELECT $1, m.role, m.content, m.tool_steps, m.position - 1, to_timestamp($5 / 1000.0)
+       FROM unnest($2::text[], $3::text[], $4::jsonb[]) WITH ORDINALITY AS m(role, content, tool_steps, position)`,
+      [
+        conversationId,
+        conversation.messages.map((m) => m.role),
+        conversation.messages.map((m) => m.content),
+        conversation.messages.map((m) => (m.toolSteps?.length ? JSON.stringify(m.toolSteps) : null)),
+        conversation.updatedAt,
+      ]
+    );
+  }
+
+  return true;
+}
+
+async function deleteConversationsById(client: Pick<PoolClient, "query">, userId: string, ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  await client.query(
+    `DELETE FROM ai_conversations
+     WHERE user_id = $1 AND (client_id = ANY($2) OR (client_id IS NULL AND id::text = ANY($2)))`,
+    [userId, ids]
+  );
+}
+
+/**
+ * Most recent conversations in cache format
+ */
+async function loadSyncedConversations(userId: string): Promise<SyncedConversation[]> {
+  const conversations = await pool.query(
+    `SELECT c.id, COALESCE(c.client_id, c.id::text) AS cache_id, c.title,
+            c.branch_message_index, c.created_at, c.updated_at,
+            COALESCE(p.client_id, p.id::text) AS parent_cache_id
+     FROM ai_conversations c
+     LEFT JOIN ai_conversations p ON p.id = c.parent_id
+     WHERE c.user_id = $1
+     ORDER BY c.updated_at DESC
+     LIMIT $2`,
+    [userId, MAX_SYNCED_CONVERSATIONS]
+  );
+  if (conversations.rows.length === 0) return [];
+
+  const messages = await pool.query(
+    `SELECT conversation_id, role, content, tool_steps
+     FROM ai_messages
+     WHERE conversation_id = ANY($1) AND role IN ('user', 'assistant')
+     ORDER BY conversation_id, position, created_at`,
+    [conversations.rows.map((c) => c.id)]
+  );
+
+  const byConversation = new Map<string, SyncedMessage[]>();
+  for (const row of messages.rows) {
+    const list = byConversation.get(row.conversation_id) ?? [];
+    list.push({
+      role: row.role,
+      content: row.content,
+      ...(Array.isArray(row.tool_steps) ? { toolSteps: row.tool_steps } : {}),
+    });
+    byConversation.set(row.conversation_id, list);
+  }
+
+  return conversations.rows.map((c) => ({
+    id: c.cache_id,
+    title: c.title || "New conversation",
+    messages: byConversation.get(c.id) ?? [],
+    ...(c.parent_cache_id ? { parentId: c.parent_cache_id } : {}),
+    ...(c.branch_message_index !== null ? { branchMessageIndex: c.branch_message_index } : {}),
+    createdAt: new Date(c.created_at).getTime(),
+    updatedAt: new Date(c.updated_at).getTime(),
+  }));
+}
+
+/**
+ * Save one cached conversation to the server
+ */
+export async function saveAssistantConversation(
+  conversation: SyncedConversation
+): Promise<ActionResult<{ saved: boolean }>> {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { data: null, error: "Unauthorized" };
+    }
+    if (!isValidSyncedConversation(conversation)) {
+      return { data: null, error: "Invalid conversation" };
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      const saved = await upsertConversation(client, userId, conversation);
+      await client.query("COMMIT");
+      return { data: { saved }, error: null };
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    console.error("Error in saveAssistantConversation:", error);
+    return { data: null, error: "Failed to save conversation" };
+  }
+}
+
+/**
+ * Two-way sync of the browser cache
+ *
+ * Uploads cached conversations (newer copies win), applies deletions made
+ * while offline, and returns the server's most recent conversations for
+ * the cache.
+ */
+export async function syncAssistantConversations(
+  conversations: SyncedConversation[],
+  deletedIds: string[] = []
+): Promise<ActionResult<SyncedConversation[]>> {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { data: null, error: "Unauthorized" };
+    }
+    if (!Array.isArray(conversations) || !Array.isArray(deletedIds)) {
+      return { data: null, error: "Invalid sync request" };
+    }
+
+    // Parents before branches so branch links resolve
+    const valid = conversations
+      .filter(isValidSyncedConversation)
+      .slice(0, MAX_SYNCED_CONVERSATIONS)
+      .sort((a, b) => a.createdAt - b.createdAt);
+    const deleted = deletedIds.filter((id): id is string => typeof id === "string").slice(0, 500);
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+      await deleteConversationsById(client, userId, deleted);
+      for (const conversation of valid) {
+        if (deleted.includes(conversation.id)) continue;
+        await upsertConversation(client, userId, conversation);
+      }
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return { data: await loadSyncedConversations(userId), error: null };
+  } catch (error) {
+    console.error("Error in syncAssistantConversations:", error);
+    return { data: null, error: "Failed to sync conversations" };
+  }
+}
+
+/**
+ * Delete cached conversations from the server, or all of them
+ */
+export async function deleteAssistantConversations(
+  ids: string[] | "all"
+): Promise<ActionResult<{ deleted: boolean }>> {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { data: null, error: "Unauthorized" };
+    }
+
+    if (ids === "all") {
+      await pool.query(`DELETE FROM ai_conversations WHERE user_id = $1`, [userId]);
+    } else if (Array.isArray(ids)) {
+      await deleteConversationsById(pool, userId, ids.filter((id) => typeof id === "string"));
+    }
+
+    return { data: { deleted: true }, error: null };
+  } catch (error) {
+    console.error("Error in deleteAssistantConversations:", error);
+    return { data: null, error: "Failed to delete conversations" };
+  }
+}
+
+/**
+ * Full-text search across the user's conversations
+ */
+export async function searchAssistantConversations(
+  query: string
+): Promise<ActionResult<ConversationSearchResult[]>> {
+  try {
+    const userId = await getSessionUserId();
+    if (!userId) {
+      return { data: null, error: "Unauthorized" };
+    }
+
+    const trimmed = typeof query === "string" ? query.trim().slice(0, 200) : "";
+    if (trimmed.length < 2) {
+      return { data: [], error: null };
+    }
+
+    const result = await pool.query(
+      `SELECT COALESCE(c.client_id, c.id::text) AS cache_id, c.title, c.updated_at,
+              m.position,
+              ts_headline('english', COALESCE(m.content, c.title, ''), q,
+                'MaxWords=24, MinWords=8, StartSel=**, StopSel=**') AS snippet
+       FROM ai_conversations c
+       CROSS JOIN websearch_to_tsquery('english', $2) q
+       LEFT JOIN LATERAL (
+         SELECT position, content
+         FROM ai_messages
+         WHERE conversation_id = c.id AND to_tsvector('english', content) @@ q
+         ORDER BY ts_rank(to_tsvector('english', content), q) DESC
+         LIMIT 1
+       ) m ON TRUE
+       WHERE c.user_id = $1
+         AND (m.position IS NOT NULL OR to_tsvector('english', COALESCE(c.title, '')) @@ q)
+       ORDER BY c.updated_at DESC
+       LIMIT 20`,
+      [userId, trimmed]
+    );
+
+    return {
+      data: result.rows.map((row) => ({
+        conversationId: row.cache_id,
+        title: row.title || "New conversation",
+        messageIndex: row.position ?? null,
+        snippet: row.snippet,
+        updatedAt: new Date(row.updated_at).getTime(),
+      })),
+      error: null,
+    };
+  } catch (error) {
+    console.error("Error in searchAssistantConversations:", error);
+    return { data: null, error: "Failed to search conversations" };
+  }
+}
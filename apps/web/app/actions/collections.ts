@@ -10,6 +10,7 @@
 import { getSession } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
+import { emitAchievementEvent } from "@/lib/achievement-engine";
 
 export type Collection = {
   id: string;
@@ -92,6 +93,7 @@ export async function createCollection(
 
     // Log activity
     await logActivity(supabase, session.user.id, "collection_create", data.id);
+    await emitAchievementEvent(session.user.id, "collection.created", data.id);
 
     return { success: true, data };
   } catch (error) {
@@ -11,6 +11,7 @@ import { getSession } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
 import { createNotification } from "./notifications";
+import { emitAchievementEvent } from "@/lib/achievement-engine";
 
 export type CommentResult = {
   success?: boolean;
@@ -88,6 +89,7 @@ export async function createComment(
 
     // Log activity
     await logActivity(supabase, session.user.id, resourceType, resourceId);
+    await emitAchievementEvent(session.user.id, "comment.created", data.id);
 
     // Create notification for reply
     if (parentId && data) {
@@ -8,7 +8,8 @@
  */
 
 import { createAdminClient } from "@/lib/supabase/server";
-import { type LeaderboardEntry, getLevelFromPoints } from "@/lib/gamification";
+import type { LeaderboardEntry, LeaderboardWindow } from "@/lib/gamification";
+import { getLeaderboard as getWindowLeaderboard } from "@/lib/leaderboards";
 
 // Types
 export interface CommunityStats {
@@ -72,7 +73,7 @@ export async function getCommunityStats(): Promise<{
       newUsersMonthResult,
       viewsMonthResult,
       dailyActiveResult,
-      topContributorsResult,
+      topContributors,
       popularDocsResult,
       popularResourcesResult,
       recentAchievementsResult,
@@ -118,13 +119,8 @@ export async function getCommunityStats(): Promise<{
         .gte("created_at", getDateAgo(30))
         .not("user_id", "is", null),
 
-      // Top contributors by achievement points
-      supabase
-        .from("user")
-        .select("id, username, image, achievement_points")
-        .gt("achievement_points", 0)
-        .order("achievement_points", { ascending: false })
-        .limit(10),
+      // Top contributors by all-time points
+      getWindowLeaderboard("all_time", 10).then((leaderboard) => leaderboard.entries),
 
       // Popular docs (by view count this week)
       supabase
@@ -169,29 +165,6 @@ export async function getCommunityStats(): Promise<{
       dailyActiveResult.data || []
     );
 
-    // Process top contributors
-    const topContributors: LeaderboardEntry[] = (
-      topContributorsResult.data || []
-    ).map(
-      (
-        user: {
-          id: string;
-          username: string | null;
-          image: string | null;
-          achievement_points: number;
-        },
-        index: number
-      ) => ({
-        user_id: user.id,
-        username: user.username || "Anonymous",
-        avatar: user.image,
-        points: user.achievement_points || 0,
-        level: getLevelFromPoints(user.achievement_points || 0).level,
-        rank: index + 1,
-        streak: 0, // Would need separate query
-      })
-    );
-
     // Process popular docs
     const popularDocs = (popularDocsResult.data || []).map(
       (doc: { resource_id: string; views_week: number }) => ({
@@ -358,45 +331,17 @@ function formatResourceTitle(slug: string): string {
 }
 
 /**
- * Get leaderboard data only (lighter query for leaderboard component)
+ * Get leaderboard data only (lighter query for leaderboard component).
+ * `label` names the window, e.g. "October 2026"; it's missing for "season"
+ * when no season is running.
  */
 export async function getLeaderboard(
-  limit: number = 10
-): Promise<{ entries?: LeaderboardEntry[]; error?: string }> {
+  limit: number = 10,
+  window: LeaderboardWindow = "all_time"
+): Promise<{ entries?: LeaderboardEntry[]; label?: string; error?: string }> {
   try {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const supabase = (await createAdminClient()) as any;
-
-    const { data, error } = await supabase
-      .from("user")
-      .select("id, username, image, achievement_points")
-      .gt("achievement_points", 0)
-      .order("achievement_points", { ascending: false })
-      .limit(limit);
-
-    if (error) throw error;
-
-    const entries: LeaderboardEntry[] = (data || []).map(
-      (
-        user: {
-          id: string;
-          username: string | null;
-          image: string | null;
-          achievement_points: number;
-        },
-        index: number
-      ) => ({
-        user_id: user.id,
-        username: user.username || "Anonymous",
-        avatar: user.image,
-        points: user.achievement_points || 0,
-        level: getLevelFromPoints(user.achievement_points || 0).level,
-        rank: index + 1,
-        streak: 0,
-      })
-    );
-
-    return { entries };
+    const { range, entries } = await getWindowLeaderboard(window, limit);
+    return { entries, label: range?.label };
   } catch (error) {
     console.error("[CommunityStats] Error fetching leaderboard:", error);
     return { error: "Failed to fetch leaderboard" };
@@ -7,7 +7,7 @@
  * Acts as a fallback when authenticator apps are unavailable.
  */
 
-import { getSession } from "@/lib/auth";
+import { getFreshSession } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/server";
 import crypto from "crypto";
 import { sendEmail } from "@/lib/email";
@@ -47,7 +47,7 @@ export async function sendEmail2FACode(options?: { type?: "login" | "verify_devi
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -121,7 +121,7 @@ export async function verifyEmail2FACode(code: string, type: "login" | "verify_d
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -175,7 +175,7 @@ export async function verifyEmail2FACode(code: string, type: "login" | "verify_d
  */
 export async function incrementEmail2FAAttempts(code: string): Promise<void> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) return;
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -234,7 +234,7 @@ export async function sendMagicLoginLink(email?: string): Promise<{
       userEmail = user.email;
       userName = user.name;
     } else {
-      const session = await getSession();
+      const session = await getFreshSession();
       if (!session?.user?.id) {
         return { error: "You must be signed in" };
       }
@@ -358,7 +358,7 @@ export async function enableEmail2FA(): Promise<{
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -407,7 +407,7 @@ export async function disableEmail2FA(verificationCode: string): Promise<{
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -467,7 +467,7 @@ export async function getEmail2FAStatus(): Promise<{
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -0,0 +1,385 @@
+"use server";
+
+/**
+ * FAQ Server Actions
+ *
+ * Published FAQs and helpful/not-helpful votes for the /faq page, plus the
+ * /dashboard/faq-analytics view of mined questions and the review queue for
+ * drafted FAQs (see lib/faq-mining.ts).
+ */
+
+import { createHash } from "crypto";
+import { revalidatePath } from "next/cache";
+import { getSession } from "@/lib/auth";
+import { pool } from "@/lib/db";
+import { hasMinRole, ROLES, type UserRole } from "@/lib/roles";
+import { getRequestMetadata } from "@/lib/request-id";
+import { FAQ_CATEGORIES, type FAQQuerySource } from "@/lib/faq-generator";
+import {
+  draftFaqForCluster,
+  getClusterSampleQueries,
+  MIN_CLUSTER_QUERIES,
+  type FAQCluster,
+} from "@/lib/faq-mining";
+
+// Types
+export type FAQStatus = "draft" | "published" | "rejected";
+
+export interface FAQEntry {
+  id: string;
+  question: string;
+  answer: string;
+  category: string;
+  status: FAQStatus;
+  origin: "generated" | "manual";
+  source_docs: { title: string; url: string }[];
+  query_count: number;
+  helpful_count: number;
+  not_helpful_count: number;
+  published_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface FAQDraft extends FAQEntry {
+  sample_queries: string[];
+}
+
+export interface FAQClusterSummary extends FAQCluster {
+  faq_id: string | null;
+  faq_status: FAQStatus | null;
+}
+
+export interface FAQAnalytics {
+  totalQueries: number;
+  uniqueQuestions: number;
+  publishedFAQs: number;
+  pendingDrafts: number;
+  topCategories: { category: string; count: number }[];
+  sourceCounts: Record<FAQQuerySource, number>;
+  minClusterQueries: number;
+}
+
+const FAQ_ENTRY_COLUMNS = `
+  e.id, e.question, e.answer, e.category, e.status, e.origin, e.source_docs,
+  GREATEST(e.query_count, COALESCE(c.query_count, 0)) AS query_count,
+  e.helpful_count, e.not_helpful_count, e.published_at, e.created_at, e.updated_at`;
+
+/**
+ * Check if user can review FAQs
+ */
+async function checkModeratorAccess(): Promise<{ userId: string } | { error: string }> {
+  const session = await getSession();
+  if (!session?.user?.id) {
+    return { error: "You must be signed in" };
+  }
+
+  const result = await pool.query(
+    `SELECT role FROM "user" WHERE id = $1`,
+    [session.user.id]
+  );
+
+  const role = result.rows[0]?.role as UserRole | undefined;
+  if (!hasMinRole(role, ROLES.MODERATOR)) {
+    return { error: "You don't have permission to review FAQs" };
+  }
+
+  return { userId: session.user.id };
+}
+
+/**
+ * Identify a voter: signed-in user, fingerprinted visitor, or hashed IP
+ */
+async function getVoterKey(): Promise<string | null> {
+  const session = await getSession();
+  if (session?.user?.id) return `user:${session.user.id}`;
+
+  const { visitorId, ip, userAgent } = await getRequestMetadata();
+  if (visitorId) return `visitor:${visitorId}`;
+  if (ip) {
+    return `ip:${createHash("sha256").update(`${ip}|${userAgent ?? ""}`).digest("hex")}`;
+  }
+  return null;
+}
+
+// ==================== Public FAQ ====================
+
+/**
+ * Get published FAQs, most asked first
+ */
+export async function getPublishedFaqs(): Promise<{ faqs?: FAQEntry[]; error?: string }> {
+  try {
+    const result = await pool.query(
+      `SELECT ${FAQ_ENTRY_COLUMNS}
+       FROM faq_entries e
+       LEFT JOIN faq_query_clusters c ON c.id = e.cluster_id
+       WHERE e.status = 'published'
+       ORDER BY query_count DESC, e.published_at DESC`
+    );
+    return { faqs: result.rows as FAQEntry[] };
+  } catch (error) {
+    console.error("[FAQ] Get published FAQs error:", error);
+    return { error: "Failed to load FAQs" };
+  }
+}
+
+/**
+ * Vote on whether an FAQ was helpful. Voting again changes the vote.
+ */
+export async function voteOnFaq(
+  faqId: string,
+  helpful: boolean
+): Promise<{ helpful?: number; notHelpful?: number; error?: string }> {
+  try {
+    const voterKey = await getVoterKey();
+    if (!voterKey) {
+      return { error: "Unable to record vote" };
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const faq = await client.query(
+        `SELECT id FROM faq_entries WHERE id = $1 AND status = 'published' FOR UPDATE`,
+        [faqId]
+      );
+      if (faq.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return { error: "FAQ not found" };
+      }
+
+      await client.query(
+        `INSERT INTO faq_votes (faq_id, voter_key, helpful)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (faq_id, voter_key) DO UPDATE SET helpful = $3, updated_at = NOW()`,
+        [faqId, voterKey, helpful]
+      );
+
+      const counts = await client.query(
+        `UPDATE faq_entries SET
+           helpful_count = (SELECT COUNT(*) FROM faq_votes WHERE faq_id = $1 AND helpful),
+           not_helpful_count = (SELECT COUNT(*) FROM faq_votes WHERE faq_id = $1 AND NOT helpful)
+         WHERE id = $1
+         RETURNING helpful_count, not_helpful_count`,
+        [faqId]
+      );
+
+      await client.query("COMMIT");
+
+      return {
+        helpful: counts.rows[0]?.helpful_count ?? 0,
+        notHelpful: counts.rows[0]?.not_helpful_count ?? 0,
+      };
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+  } catch (error) {
+    console.error("[FAQ] Vote error:", error);
+    return { error: "Failed to record vote" };
+  }
+}
+
+// ==================== Analytics & Review ====================
+
+/**
+ * Query, FAQ and category stats for the analytics dashboard
+ */
+export async function getFaqAnalytics(): Promise<{ analytics?: FAQAnalytics; error?: string }> {
+  try {
+    const access = await checkModeratorAccess();
+    if ("error" in access) return { error: access.error };
+
+    const [totals, categories, sources] = await Promise.all([
+      pool.query(
+        `SELECT
+           (SELECT COALESCE(SUM(query_count), 0) FROM faq_query_clusters)::int AS total_queries,
+           (SELECT COUNT(*) FROM faq_query_clusters)::int AS unique_questions,
+           (SELECT COUNT(*) FROM faq_entries WHERE status = 'published')::int AS published,
+           (SELECT COUNT(*) FROM faq_entries WHERE status = 'draft')::int AS drafts`
+      ),
+      pool.query(
+        `SELECT category, SUM(query_count)::int AS count
+         FROM faq_query_clusters
+         GROUP BY category
+         ORDER BY count DESC
+         LIMIT 5`
+      ),
+      pool.query(
+        `SELECT source, COUNT(*)::int AS count FROM faq_queries GROUP BY source`
+      ),
+    ]);
+
+    const sourceCounts: Record<FAQQuerySource, number> = { assistant: 0, ai_search: 0, search: 0 };
+    for (const row of sources.rows as { source: FAQQuerySource; count: number }[]) {
+      sourceCounts[row.source] = row.count;
+    }
+
+    const row = totals.rows[0];
+    return {
+      analytics: {
+        totalQueries: row?.total_queries ?? 0,
+        uniqueQuestions: row?.unique_questions ?? 0,
+        publishedFAQs: row?.published ?? 0,
+        pendingDrafts: row?.drafts ?? 0,
+        topCategories: categories.rows as { category: string; count: number }[],
+        sourceCounts,
+        minClusterQueries: MIN_CLUSTER_QUERIES,
+      },
+    };
+  } catch (error) {
+    console.error("[FAQ] Get analytics error:", error);
+    return { error: "Failed to load FAQ analytics" };
+  }
+}
+
+/**
+ * Most-asked question clusters with their FAQ status
+ */
+export async function getPopularFaqClusters(
+  limit: number = 50
+): Promise<{ clusters?: FAQClusterSummary[]; error?: string }> {
+  try {
+    const access = await checkModeratorAccess();
+    if ("error" in access) return { error: access.error };
+
+    const result = await pool.query(
+      `SELECT c.id, c.representative_query, c.category, c.query_count, c.source_counts,
+              c.first_asked_at, c.last_asked_at,
+              e.id AS faq_id, e.status AS faq_status
+       FROM faq_query_clusters c
+       LEFT JOIN faq_entries e ON e.cluster_id = c.id
+       ORDER BY c.query_count DESC, c.last_asked_at DESC
+       LIMIT $1`,
+      [Math.min(limit, 200)]
+    );
+    return { clusters: result.rows as FAQClusterSummary[] };
+  } catch (error) {
+    console.error("[FAQ] Get clusters error:", error);
+    return { error: "Failed to load popular questions" };
+  }
+}
+
+/**
+ * All FAQ entries for the performance view, or only drafts for review
+ */
+export async function getFaqEntries(
+  status?: FAQStatus
+): Promise<{ faqs?: FAQDraft[]; error?: string }> {
+  try {
+    const access = await checkModeratorAccess();
+    if ("error" in access) return { error: access.error };
+
+    const result = await pool.query(
+      `SELECT ${FAQ_ENTRY_COLUMNS}, e.cluster_id
+       FROM faq_entries e
+       LEFT JOIN faq_query_clusters c ON c.id = e.cluster_id
+       WHERE ($1::text IS NULL OR e.status = $1)
+       ORDER BY query_count DESC, e.updated_at DESC`,
+      [status ?? null]
+    );
+
+    const faqs = await Promise.all(
+      (result.rows as (FAQEntry & { cluster_id: string | null })[]).map(async ({ cluster_id, ...faq }) => ({
+        ...faq,
+        sample_queries:
+          faq.status === "draft" && cluster_id ? await getClusterSampleQueries(cluster_id) : [],
+      }))
+    );
+
+    return { faqs };
+  } catch (error) {
+    console.error("[FAQ] Get entries error:", error);
+    return { error: "Failed to load FAQs" };
+  }
+}
+
+/**
+ * Publish, reject or unpublish an FAQ, optionally saving edits first
+ */
+export async function reviewFaq(
+  faqId: string,
+  action: "publish" | "reject" | "unpublish",
+  edits?: { question?: string; answer?: string; category?: string }
+): Promise<{ success?: boolean; error?: string }> {
+  try {
+    const access = await checkModeratorAccess();
+    if ("error" in access) return { error: access.error };
+
+    const question = edits?.question?.trim();
+    const answer = edits?.answer?.trim();
+    if (edits && (question === "" || answer === "")) {
+      return { error: "Question and answer are required" };
+    }
+    if (edits?.category && !(edits.category in FAQ_CATEGORIES)) {
+      return { error: "Invalid category" };
+    }
+
+    const status: FAQStatus =
+      action === "publish" ? "published" : action === "reject" ? "rejected" : "draft";
+
+    const result = await pool.query(
+      `UPDATE faq_entries SET
+         status = $2,
+         question = COALESCE($3, question),
+         answer = COALESCE($4, answer),
+         category = COALESCE($5, category),
+         reviewed_by = $6,
+         reviewed_at = NOW(),
+         published_at = CASE WHEN $2 = 'published' THEN COALESCE(published_at, NOW()) ELSE NULL END,
+         updated_at = NOW()
+       WHERE id = $1
+       RETURNING id`,
+      [faqId, status, question ?? null, answer ?? null, edits?.category ?? null, access.userId]
+    );
+
+    if (result.rows.length === 0) {
+      return { error: "FAQ not found" };
+    }
+
+    revalidatePath("/faq");
+    revalidatePath("/dashboard/faq-analytics");
+    return { success: true };
+  } catch (error) {
+    console.error("[FAQ] Review error:", error);
+    return { error: "Failed to update FAQ" };
+  }
+}
+
+/**
+ * Draft an FAQ for a question cluster now instead of waiting for the cron
+ */
+export async function draftFaqFromCluster(
+  clusterId: string
+): Promise<{ faqId?: string; error?: string }> {
+  try {
+    const access = await checkModeratorAccess();
+    if ("error" in access) return { error: access.error };
+
+    const result = await pool.query(
+      `SELECT id, representative_query, category, query_count, source_counts,
+              first_asked_at, last_asked_at
+       FROM faq_query_clusters
+       WHERE id = $1`,
+      [clusterId]
+    );
+    const cluster = result.rows[0] as FAQCluster | undefined;
+    if (!cluster) {
+      return { error: "Question not found" };
+    }
+
+    const faqId = await draftFaqForCluster(cluster);
+    if (!faqId) {
+      return { error: "No documentation matches this question, or it already has an FAQ" };
+    }
+
+    revalidatePath("/dashboard/faq-analytics");
+    return { faqId };
+  } catch (error) {
+    console.error("[FAQ] Draft from cluster error:", error);
+    return { error: "Failed to draft FAQ" };
+  }
+}
@@ -13,6 +13,7 @@
 import { getSession } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
+import { emitAchievementEvent } from "@/lib/achievement-engine";
 
 export type FavoriteResult = {
   success?: boolean;
@@ -82,6 +83,7 @@ export async function toggleFavorite(
 
       // Log activity
       await logActivity(supabase, userId, "favorite", resourceType, resourceId);
+      await emitAchievementEvent(userId, "resource.favorited", `${resourceType}:${resourceId}`);
 
       revalidatePath(`/${resourceType}s`);
 
@@ -10,6 +10,7 @@ import { getSession } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
 import { createNotification } from "./notifications";
+import { emitAchievementEvent } from "@/lib/achievement-engine";
 
 export interface FollowUser {
   id: string;
@@ -66,6 +67,9 @@ export async function followUser(userId: string): Promise<{
       return { error: "Failed to follow user" };
     }
 
+    await emitAchievementEvent(session.user.id, "user.followed", userId);
+    await emitAchievementEvent(userId, "follower.gained", session.user.id);
+
     // Get follower info for notification
     const { data: follower } = await supabase
       .from("user")
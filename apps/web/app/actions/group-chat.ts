@@ -8,12 +8,15 @@
  * - Inviting users
  * - Managing roles (owner/admin/member)
  * - Leaving groups
- * - Updating group settings
+ * - Updating group settings, including encrypted history visibility
  */
 
 import { getSession } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/server";
 import { AI_ASSISTANT_USER_ID } from "@/lib/roles";
+import type { HistoryVisibility } from "@/lib/e2ee/types";
+
+const HISTORY_VISIBILITIES: HistoryVisibility[] = ["joined", "invited", "full"];
 
 // ============================================
 // TYPES
@@ -728,6 +731,8 @@ export async function updateGroupSettings(
     name?: string;
     description?: string;
     avatarUrl?: string;
+    /** Which earlier encrypted messages members who join later can read */
+    historyVisibility?: HistoryVisibility;
   }
 ): Promise<{ success: boolean; error?: string }> {
   try {
@@ -767,6 +772,12 @@ export async function updateGroupSettings(
     if (settings.avatarUrl !== undefined) {
       updates.avatar_url = settings.avatarUrl || null;
     }
+    if (
+      settings.historyVisibility !== undefined &&
+      !HISTORY_VISIBILITIES.includes(settings.historyVisibility)
+    ) {
+      return { success: false, error: "Invalid history visibility" };
+    }
 
      
     const { error } = await supabase
@@ -780,6 +791,21 @@ export async function updateGroupSettings(
       return { success: false, error: "Failed to update settings" };
     }
 
+    if (settings.historyVisibility !== undefined) {
+      const { error: visibilityError } = await supabase
+        .from("e2ee_conversation_settings")
+        .upsert({
+          conversation_id: conversationId,
+          history_visibility: settings.historyVisibility,
+          updated_at: new Date().toISOString(),
+        } as never);
+
+      if (visibilityError) {
+        console.error("Update history visibility error:", visibilityError);
+        return { success: false, error: "Failed to update history visibility" };
+      }
+    }
+
     return { success: true };
   } catch (error) {
     console.error("Update settings error:", error);
@@ -787,6 +813,46 @@ export async function updateGroupSettings(
   }
 }
 
+// ============================================
+// GET HISTORY VISIBILITY
+// ============================================
+
+export async function getGroupHistoryVisibility(
+  conversationId: string
+): Promise<{ success: boolean; historyVisibility?: HistoryVisibility; error?: string }> {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return { success: false, error: "You must be logged in" };
+    }
+
+    const supabase = await createAdminClient();
+
+    const { data: participant } = await supabase
+      .from("dm_participants")
+      .select("role")
+      .eq("conversation_id", conversationId)
+      .eq("user_id", session.user.id)
+      .single();
+
+    if (!participant) {
+      return { success: false, error: "Not a member of this group" };
+    }
+
+    const { data } = await supabase
+      .from("e2ee_conversation_settings")
+      .select("*")
+      .eq("conversation_id", conversationId)
+      .maybeSingle();
+
+    const row = data as { history_visibility?: HistoryVisibility } | null;
+    return { success: true, historyVisibility: row?.history_visibility ?? "joined" };
+  } catch (error) {
+    console.error("Get history visibility error:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
 // ============================================
 // GET CHAT SOUND SETTINGS
 // ============================================
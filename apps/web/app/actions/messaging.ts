@@ -8,11 +8,18 @@
  * - Message sending/receiving
  * - @mention detection for AI assistant
  * - Unread counts and read receipts
+ * - Edits with history, emoji reactions and reply threads
  */
 
 import { getSession } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/server";
 import { AI_ASSISTANT_USER_ID } from "@/lib/roles";
+import type { MessageAttachment } from "@/lib/e2ee";
+import {
+  isValidReactionEmoji,
+  summarizeReactions,
+  type MessageReaction,
+} from "@/lib/message-reactions";
 
 // ============================================
 // TYPES
@@ -64,10 +71,37 @@ export interface Message {
   senderDeviceId?: string;
   senderKey?: string;
   sessionId?: string;
+  // Files shared in an encrypted message (populated client-side on decryption)
+  attachments?: MessageAttachment[];
+  // Previous versions of an edited E2EE message (populated client-side on decryption)
+  editHistory?: MessageEditVersion[];
+  // Threads
+  replyToId?: string;
+  replyTo?: MessageReplyPreview;
+  threadReplyCount?: number;
+  // Aggregated emoji reactions
+  reactions?: MessageReaction[];
   // Read receipts (populated separately)
   readReceipts?: ReadReceipt[];
 }
 
+/** Quoted parent shown above a reply */
+export interface MessageReplyPreview {
+  id: string;
+  senderId: string;
+  senderName?: string;
+  content: string;
+  isEncrypted?: boolean;
+  isDeleted?: boolean;
+}
+
+/** A replaced version of an edited message */
+export interface MessageEditVersion {
+  content: string;
+  /** When this version was posted */
+  writtenAt: string;
+}
+
 export interface ReadReceipt {
   userId: string;
   userName?: string;
@@ -128,6 +162,7 @@ interface MessageRow {
   created_at: string;
   edited_at?: string;
   deleted_at?: string;
+  reply_to_id?: string | null;
   sender?: { id: string; name?: string };
   // E2EE fields
   encrypted_content?: string;
@@ -138,6 +173,12 @@ interface MessageRow {
   session_id?: string;
 }
 
+interface ReactionRow {
+  message_id: string;
+  user_id: string;
+  emoji: string;
+}
+
 interface ReadReceiptRow {
   message_id: string;
   user_id: string;
@@ -412,6 +453,7 @@ export async function getMessages(
         sender_device_id,
         sender_key,
         session_id,
+        reply_to_id,
         sender:sender_id (
           id,
           name
@@ -448,33 +490,10 @@ export async function getMessages(
     const profileMap = new Map((profiles as ProfileRow[] | null)?.map((p) => [p.user_id, p]) || []);
 
     // Transform messages
-    const transformedMessages: Message[] = messageRows.map((m) => {
-      const sender = m.sender;
-      const profile = profileMap.get(m.sender_id);
-      return {
-        id: m.id,
-        conversationId: m.conversation_id,
-        senderId: m.sender_id,
-        senderName: profile?.display_name || sender?.name || "Unknown",
-        senderUsername: profile?.username ?? undefined,
-        senderAvatar: profile?.avatar_url ?? undefined,
-        content: m.content,
-        mentions: m.mentions || [],
-        isAiGenerated: m.is_ai_generated || false,
-        aiResponseTo: m.ai_response_to,
-        metadata: m.metadata as Record<string, unknown>,
-        createdAt: m.created_at,
-        editedAt: m.edited_at,
-        deletedAt: m.deleted_at,
-        // E2EE fields
-        encryptedContent: m.encrypted_content,
-        isEncrypted: m.is_encrypted || false,
-        encryptionAlgorithm: m.encryption_algorithm as "olm.v1" | "megolm.v1" | undefined,
-        senderDeviceId: m.sender_device_id,
-        senderKey: m.sender_key,
-        sessionId: m.session_id,
-      };
-    });
+    const transformedMessages = await withMessageExtras(
+      supabase,
+      messageRows.map((m) => transformMessageRow(m, profileMap.get(m.sender_id)))
+    );
 
     // Reverse to get chronological order
     transformedMessages.reverse();
@@ -486,13 +505,151 @@ export async function getMessages(
   }
 }
 
+/**
+ * Map a dm_messages row to a Message
+ */
+function transformMessageRow(m: MessageRow, profile?: ProfileRow): Message {
+  return {
+    id: m.id,
+    conversationId: m.conversation_id,
+    senderId: m.sender_id,
+    senderName: profile?.display_name || m.sender?.name || "Unknown",
+    senderUsername: profile?.username ?? undefined,
+    senderAvatar: profile?.avatar_url ?? undefined,
+    content: m.content,
+    mentions: m.mentions || [],
+    isAiGenerated: m.is_ai_generated || false,
+    aiResponseTo: m.ai_response_to,
+    metadata: m.metadata as Record<string, unknown>,
+    createdAt: m.created_at,
+    editedAt: m.edited_at,
+    deletedAt: m.deleted_at,
+    replyToId: m.reply_to_id ?? undefined,
+    // E2EE fields
+    encryptedContent: m.encrypted_content,
+    isEncrypted: m.is_encrypted || false,
+    encryptionAlgorithm: m.encryption_algorithm as "olm.v1" | "megolm.v1" | undefined,
+    senderDeviceId: m.sender_device_id,
+    senderKey: m.sender_key,
+    sessionId: m.session_id,
+  };
+}
+
+/**
+ * Attach reactions, thread reply counts and quoted parents to messages
+ */
+async function withMessageExtras(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  messages: Message[]
+): Promise<Message[]> {
+  if (messages.length === 0) return messages;
+
+  const messageIds = messages.map((m) => m.id);
+  const parentIds = [...new Set(messages.flatMap((m) => (m.replyToId ? [m.replyToId] : [])))];
+
+  const [{ data: reactionRows }, { data: replyRows }, parents] = await Promise.all([
+    supabase
+      .from("dm_message_reactions")
+      .select("message_id, user_id, emoji")
+      .in("message_id", messageIds)
+      .order("created_at", { ascending: true }),
+    supabase
+      .from("dm_messages")
+      .select("reply_to_id")
+      .in("reply_to_id", messageIds)
+      .is("deleted_at", null),
+    getReplyPreviews(supabase, parentIds),
+  ]);
+
+  const reactionsByMessage = new Map<string, ReactionRow[]>();
+  for (const row of (reactionRows || []) as ReactionRow[]) {
+    const list = reactionsByMessage.get(row.message_id) ?? [];
+    list.push(row);
+    reactionsByMessage.set(row.message_id, list);
+  }
+
+  const replyCounts = new Map<string, number>();
+  for (const row of (replyRows || []) as Array<{ reply_to_id: string }>) {
+    replyCounts.set(row.reply_to_id, (replyCounts.get(row.reply_to_id) ?? 0) + 1);
+  }
+
+  return messages.map((m) => {
+    const reactions = reactionsByMessage.get(m.id);
+    return {
+      ...m,
+      reactions: reactions ? summarizeReactions(reactions) : undefined,
+      threadReplyCount: replyCounts.get(m.id),
+      replyTo: m.replyToId ? parents.get(m.replyToId) : undefined,
+    };
+  });
+}
+
+/**
+ * Quoted-parent previews for replies
+ */
+async function getReplyPreviews(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  parentIds: string[]
+): Promise<Map<string, MessageReplyPreview>> {
+  const previews = new Map<string, MessageReplyPreview>();
+  if (parentIds.length === 0) return previews;
+
+  const { data: parentRows } = await supabase
+    .from("dm_messages")
+    .select("id, sender_id, content, is_encrypted, deleted_at, sender:sender_id (id, name)")
+    .in("id", parentIds);
+
+  const rows = (parentRows || []) as MessageRow[];
+  const { data: profiles } = await supabase
+    .from("profiles")
+    .select("user_id, display_name")
+    .in("user_id", [...new Set(rows.map((r) => r.sender_id))]);
+  const profileMap = new Map(((profiles || []) as ProfileRow[]).map((p) => [p.user_id, p]));
+
+  for (const row of rows) {
+    previews.set(row.id, {
+      id: row.id,
+      senderId: row.sender_id,
+      senderName: profileMap.get(row.sender_id)?.display_name || row.sender?.name,
+      content: row.deleted_at ? "" : row.content,
+      isEncrypted: row.is_encrypted || false,
+      isDeleted: !!row.deleted_at,
+    });
+  }
+
+  return previews;
+}
+
+/**
+ * Check that a reply's parent is a live message in the same conversation
+ */
+async function isValidReplyParent(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  conversationId: string,
+  replyToId: string
+): Promise<boolean> {
+  const { data: parent } = await supabase
+    .from("dm_messages")
+    .select("id")
+    .eq("id", replyToId)
+    .eq("conversation_id", conversationId)
+    .is("deleted_at", null)
+    .maybeSingle();
+
+  return !!parent;
+}
+
 // ============================================
 // SEND MESSAGE
 // ============================================
 
 export async function sendMessage(
   conversationId: string,
-  content: string
+  content: string,
+  replyToId?: string
 ): Promise<{
   success: boolean;
   message?: Message;
@@ -525,6 +682,10 @@ export async function sendMessage(
       return { success: false, error: "You are not a participant in this conversation" };
     }
 
+    if (replyToId && !(await isValidReplyParent(supabase, conversationId, replyToId))) {
+      return { success: false, error: "The message you replied to no longer exists" };
+    }
+
     // Get conversation type to determine AI response behavior
      
     const { data: conversation } = await supabase
@@ -617,6 +778,7 @@ export async function sendMessage(
         content: content.trim(),
         mentions: mentionedUserIds,
         is_ai_generated: false,
+        ...(replyToId && { reply_to_id: replyToId }),
       })
       .select()
       .single();
@@ -678,6 +840,10 @@ export async function sendMessage(
       mentions: msg.mentions || [],
       isAiGenerated: false,
       createdAt: msg.created_at,
+      replyToId,
+      replyTo: replyToId
+        ? (await getReplyPreviews(supabase, [replyToId])).get(replyToId)
+        : undefined,
     };
 
     return { success: true, message, aiMentioned, mentionedUserIds };
@@ -1242,6 +1408,364 @@ export async function deleteMessage(
   }
 }
 
+// ============================================
+// EDIT MESSAGE
+// ============================================
+
+/**
+ * Edit one of your own messages, keeping the previous version.
+ * E2EE messages are re-encrypted on the device and edited through
+ * PATCH /api/messages/encrypted instead.
+ */
+export async function editMessage(
+  messageId: string,
+  content: string
+): Promise<{
+  success: boolean;
+  message?: { id: string; content: string; editedAt: string };
+  error?: string;
+}> {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return { success: false, error: "You must be logged in" };
+    }
+
+    const newContent = content.trim();
+    if (!newContent) {
+      return { success: false, error: "Message cannot be empty" };
+    }
+
+    const supabase = await createAdminClient();
+
+    const { data: message } = await supabase
+      .from("dm_messages")
+      .select("id, sender_id, content, is_encrypted, created_at, edited_at, deleted_at")
+      .eq("id", messageId)
+      .single();
+
+    if (!message) {
+      return { success: false, error: "Message not found" };
+    }
+
+    const msg = message as MessageRow;
+    if (msg.sender_id !== session.user.id) {
+      return { success: false, error: "You can only edit your own messages" };
+    }
+    if (msg.deleted_at) {
+      return { success: false, error: "Message has been deleted" };
+    }
+    if (msg.is_encrypted) {
+      return { success: false, error: "Encrypted messages must be edited from an E2EE device" };
+    }
+    if (msg.content === newContent) {
+      return {
+        success: true,
+        message: { id: msg.id, content: msg.content, editedAt: msg.edited_at || msg.created_at },
+      };
+    }
+
+    // Keep the version being replaced
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error: historyError } = await (supabase as any).from("dm_message_edits").insert({
+      message_id: msg.id,
+      content: msg.content,
+      written_at: msg.edited_at || msg.created_at,
+    });
+
+    if (historyError) {
+      console.error("Edit message history error:", historyError);
+      return { success: false, error: "Failed to edit message" };
+    }
+
+    const editedAt = new Date().toISOString();
+    const { error } = await supabase
+      .from("dm_messages")
+      .update({ content: newContent, edited_at: editedAt })
+      .eq("id", messageId);
+
+    if (error) {
+      console.error("Edit message error:", error);
+      return { success: false, error: "Failed to edit message" };
+    }
+
+    return { success: true, message: { id: msg.id, content: newContent, editedAt } };
+  } catch (error) {
+    console.error("Edit message error:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+/**
+ * Previous versions of an edited message, newest first.
+ * Empty for E2EE messages, whose history is inside the ciphertext.
+ */
+export async function getMessageEditHistory(
+  messageId: string
+): Promise<{
+  success: boolean;
+  versions?: MessageEditVersion[];
+  error?: string;
+}> {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return { success: false, error: "You must be logged in" };
+    }
+
+    const supabase = await createAdminClient();
+
+    const { data: message } = await supabase
+      .from("dm_messages")
+      .select("id, conversation_id")
+      .eq("id", messageId)
+      .single();
+
+    if (!message) {
+      return { success: false, error: "Message not found" };
+    }
+
+    const { data: participant } = await supabase
+      .from("dm_participants")
+      .select("id")
+      .eq("conversation_id", (message as MessageRow).conversation_id)
+      .eq("user_id", session.user.id)
+      .single();
+
+    if (!participant) {
+      return { success: false, error: "You are not a participant in this conversation" };
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: edits, error } = await (supabase as any)
+      .from("dm_message_edits")
+      .select("content, written_at")
+      .eq("message_id", messageId)
+      .not("content", "is", null)
+      .order("edited_at", { ascending: false });
+
+    if (error) {
+      console.error("Get edit history error:", error);
+      return { success: false, error: "Failed to get edit history" };
+    }
+
+    const versions = ((edits || []) as Array<{ content: string; written_at: string }>).map(
+      (edit) => ({ content: edit.content, writtenAt: edit.written_at })
+    );
+
+    return { success: true, versions };
+  } catch (error) {
+    console.error("Get edit history error:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// ============================================
+// REACTIONS
+// ============================================
+
+/**
+ * Add or remove your emoji reaction on a message
+ */
+export async function toggleReaction(
+  messageId: string,
+  emoji: string
+): Promise<{
+  success: boolean;
+  added?: boolean;
+  reactions?: MessageReaction[];
+  error?: string;
+}> {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return { success: false, error: "You must be logged in" };
+    }
+
+    if (!isValidReactionEmoji(emoji)) {
+      return { success: false, error: "Invalid reaction" };
+    }
+
+    const supabase = await createAdminClient();
+
+    const { data: message } = await supabase
+      .from("dm_messages")
+      .select("id, conversation_id, deleted_at")
+      .eq("id", messageId)
+      .single();
+
+    const msg = message as MessageRow | null;
+    if (!msg || msg.deleted_at) {
+      return { success: false, error: "Message not found" };
+    }
+
+    const { data: participant } = await supabase
+      .from("dm_participants")
+      .select("id")
+      .eq("conversation_id", msg.conversation_id)
+      .eq("user_id", session.user.id)
+      .single();
+
+    if (!participant) {
+      return { success: false, error: "You are not a participant in this conversation" };
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const reactions = (supabase as any).from("dm_message_reactions");
+
+    const { data: removed, error: deleteError } = await reactions
+      .delete()
+      .eq("message_id", messageId)
+      .eq("user_id", session.user.id)
+      .eq("emoji", emoji)
+      .select("emoji");
+
+    if (deleteError) {
+      console.error("Toggle reaction error:", deleteError);
+      return { success: false, error: "Failed to update reaction" };
+    }
+
+    const added = !removed || removed.length === 0;
+    if (added) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error: insertError } = await (supabase as any).from("dm_message_reactions").upsert(
+        {
+          message_id: messageId,
+          conversation_id: msg.conversation_id,
+          user_id: session.user.id,
+          emoji,
+        },
+        { onConflict: "message_id,user_id,emoji", ignoreDuplicates: true }
+      );
+
+      if (insertError) {
+        console.error("Toggle reaction error:", insertError);
+        return { success: false, error: "Failed to update reaction" };
+      }
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: rows } = await (supabase as any)
+      .from("dm_message_reactions")
+      .select("message_id, user_id, emoji")
+      .eq("message_id", messageId)
+      .order("created_at", { ascending: true });
+
+    return {
+      success: true,
+      added,
+      reactions: summarizeReactions((rows || []) as ReactionRow[]),
+    };
+  } catch (error) {
+    console.error("Toggle reaction error:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
+// ============================================
+// THREADS
+// ============================================
+
+/**
+ * Replies to a message, oldest first
+ */
+export async function getThreadReplies(
+  parentId: string,
+  limit: number = 100
+): Promise<{
+  success: boolean;
+  replies?: Message[];
+  error?: string;
+}> {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return { success: false, error: "You must be logged in" };
+    }
+
+    const supabase = await createAdminClient();
+
+    const { data: parent } = await supabase
+      .from("dm_messages")
+      .select("id, conversation_id")
+      .eq("id", parentId)
+      .single();
+
+    if (!parent) {
+      return { success: false, error: "Message not found" };
+    }
+
+    const conversationId = (parent as MessageRow).conversation_id;
+    const { data: participant } = await supabase
+      .from("dm_participants")
+      .select("id")
+      .eq("conversation_id", conversationId)
+      .eq("user_id", session.user.id)
+      .single();
+
+    if (!participant) {
+      return { success: false, error: "You are not a participant in this conversation" };
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: replies, error } = await (supabase as any)
+      .from("dm_messages")
+      .select(`
+        id,
+        conversation_id,
+        sender_id,
+        content,
+        mentions,
+        is_ai_generated,
+        ai_response_to,
+        metadata,
+        created_at,
+        edited_at,
+        deleted_at,
+        encrypted_content,
+        is_encrypted,
+        encryption_algorithm,
+        sender_device_id,
+        sender_key,
+        session_id,
+        reply_to_id,
+        sender:sender_id (
+          id,
+          name
+        )
+      `)
+      .eq("conversation_id", conversationId)
+      .eq("reply_to_id", parentId)
+      .is("deleted_at", null)
+      .order("created_at", { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error("Get thread replies error:", error);
+      return { success: false, error: "Failed to fetch replies" };
+    }
+
+    const replyRows = (replies || []) as MessageRow[];
+    const { data: profiles } = await supabase
+      .from("profiles")
+      .select("user_id, display_name, avatar_url, username")
+      .in("user_id", [...new Set(replyRows.map((m) => m.sender_id))]);
+
+    const profileMap = new Map((profiles as ProfileRow[] | null)?.map((p) => [p.user_id, p]) || []);
+
+    return {
+      success: true,
+      replies: await withMessageExtras(
+        supabase,
+        replyRows.map((m) => transformMessageRow(m, profileMap.get(m.sender_id)))
+      ),
+    };
+  } catch (error) {
+    console.error("Get thread replies error:", error);
+    return { success: false, error: "An unexpected error occurred" };
+  }
+}
+
 // ============================================
 // READ RECEIPTS (Seen Feature)
 // ============================================
@@ -5,13 +5,32 @@
  *
  * Handle notification operations including fetching, creating,
  * and marking notifications as read.
+ *
+ * Delivery follows the user's per-type channel routing and quiet hours
+ * (lib/notification-routing.ts); batched or held-back push and email go
+ * through the digest queue (lib/notification-digests.ts).
  */
 
 import { getSession } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
-import { sendNotificationEmail, type NotificationEmailParams } from "@/lib/email";
+import {
+  sendNotificationEmail,
+  type DigestEmailParams,
+  type NotificationEmailParams,
+} from "@/lib/email";
 import { sendPushNotificationToUser, isWebPushConfigured } from "@/lib/web-push";
+import {
+  DEFAULT_QUIET_HOURS,
+  getDigestDeliveryTime,
+  isWithinQuietHours,
+  normalizeNotificationRouting,
+  resolveChannelRoute,
+  type NotificationRouting,
+  type QuietHours,
+} from "@/lib/notification-routing";
+import { buildDigestSummary, getQueuedDigestItems, queueDigestItem } from "@/lib/notification-digests";
+import { parseTimeOfDay } from "@/lib/timezone";
 
 export type NotificationType =
   | "comment"
@@ -62,6 +81,10 @@ export interface NotificationPreferences {
   email_digest: boolean;
   email_digest_frequency: "daily" | "weekly" | "monthly";
   browser_notifications: boolean;
+  channel_routing: NotificationRouting;
+  quiet_hours_enabled: boolean;
+  quiet_hours_start: string;
+  quiet_hours_end: string;
 }
 
 const defaultPreferences: NotificationPreferences = {
@@ -79,6 +102,10 @@ const defaultPreferences: NotificationPreferences = {
   email_digest: false,
   email_digest_frequency: "weekly",
   browser_notifications: false,
+  channel_routing: {},
+  quiet_hours_enabled: false,
+  quiet_hours_start: DEFAULT_QUIET_HOURS.start,
+  quiet_hours_end: DEFAULT_QUIET_HOURS.end,
 };
 
 /**
@@ -345,6 +372,10 @@ export async function getNotificationPreferences(): Promise<{
             email_digest: data.email_digest ?? defaultPreferences.email_digest,
             email_digest_frequency: data.email_digest_frequency ?? defaultPreferences.email_digest_frequency,
             browser_notifications: data.browser_notifications ?? defaultPreferences.browser_notifications,
+            channel_routing: normalizeNotificationRouting(data.channel_routing),
+            quiet_hours_enabled: data.quiet_hours_enabled ?? defaultPreferences.quiet_hours_enabled,
+            quiet_hours_start: data.quiet_hours_start?.slice(0, 5) ?? defaultPreferences.quiet_hours_start,
+            quiet_hours_end: data.quiet_hours_end?.slice(0, 5) ?? defaultPreferences.quiet_hours_end,
           }
         : defaultPreferences,
     };
@@ -371,6 +402,19 @@ export async function updateNotificationPreferences(
       return { error: "You must be signed in" };
     }
 
+    // Routing is stored normalized; quiet hours must be valid times
+    if (preferences.channel_routing !== undefined) {
+      preferences = {
+        ...preferences,
+        channel_routing: normalizeNotificationRouting(preferences.channel_routing),
+      };
+    }
+    for (const key of ["quiet_hours_start", "quiet_hours_end"] as const) {
+      if (preferences[key] !== undefined && parseTimeOfDay(preferences[key]) === null) {
+        return { error: "Quiet hours must be a valid time (HH:MM)" };
+      }
+    }
+
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const supabase = (await createAdminClient()) as any;
 
@@ -415,6 +459,94 @@ export async function updateNotificationPreferences(
   }
 }
 
+export interface DigestPreview {
+  items: {
+    id: string;
+    type: string;
+    title: string;
+    message: string | null;
+    push: boolean;
+    email: boolean;
+    createdAt: string;
+  }[];
+  stats: DigestEmailParams["stats"];
+  nextDeliveryAt: string | null;
+  quietHoursActive: boolean;
+}
+
+/**
+ * Preview the current user's next notification digest
+ *
+ * Lists queued push/email notifications that haven't been delivered yet
+ * and when the next batch goes out.
+ */
+export async function getNotificationDigestPreview(): Promise<{
+  data?: DigestPreview;
+  error?: string;
+}> {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return { error: "You must be signed in" };
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const supabase = (await createAdminClient()) as any;
+
+    const [items, userResult, prefsResult] = await Promise.all([
+      getQueuedDigestItems(session.user.id),
+      supabase.from("user").select("timezone").eq("id", session.user.id).single(),
+      supabase
+        .from("notification_preferences")
+        .select("quiet_hours_enabled, quiet_hours_start, quiet_hours_end")
+        .eq("user_id", session.user.id)
+        .maybeSingle(),
+    ]);
+
+    const prefs = prefsResult.data;
+    const quietHours: QuietHours = {
+      enabled: prefs?.quiet_hours_enabled === true,
+      start: prefs?.quiet_hours_start ?? DEFAULT_QUIET_HOURS.start,
+      end: prefs?.quiet_hours_end ?? DEFAULT_QUIET_HOURS.end,
+      timezone: userResult.data?.timezone || "UTC",
+    };
+
+    // The hourly cron delivers on the hour, so round the earliest due time up
+    let nextDeliveryAt: string | null = null;
+    const earliest = items.reduce<number | null>((min, item) => {
+      const time = new Date(item.deliver_after).getTime();
+      return min === null || time < min ? time : min;
+    }, null);
+    if (earliest !== null) {
+      const next = new Date(Math.max(earliest, Date.now()));
+      if (next.getUTCMinutes() !== 0 || next.getUTCSeconds() !== 0) {
+        next.setUTCMinutes(60, 0, 0);
+      }
+      nextDeliveryAt = next.toISOString();
+    }
+
+    return {
+      data: {
+        items: items.map((item) => ({
+          id: item.id,
+          type: item.type,
+          title: item.title,
+          message: item.message,
+          push: item.send_push,
+          email: item.send_email,
+          createdAt: new Date(item.created_at).toISOString(),
+        })),
+        stats: buildDigestSummary(items).stats,
+        nextDeliveryAt,
+        quietHoursActive: isWithinQuietHours(quietHours),
+      },
+    };
+  } catch (error) {
+    console.error("[Notifications] Digest preview error:", error);
+    return { error: "An unexpected error occurred" };
+  }
+}
+
 /**
  * Create a notification (internal use)
  * This is called by other actions when events occur
@@ -442,7 +574,7 @@ export async function createNotification(params: {
     // These queries are independent and don't depend on each other's results
     const [userResult, actorResult, prefsResult] = await Promise.all([
       // Get user data for email notifications
-      supabase.from("user").select("email, name").eq("id", params.userId).single(),
+      supabase.from("user").select("email, name, timezone").eq("id", params.userId).single(),
       // Get actor data for email subject line (skip if no actorId)
       params.actorId
         ? supabase.from("user").select("name, username").eq("id", params.actorId).single()
@@ -455,22 +587,21 @@ export async function createNotification(params: {
     const actorName = actorResult.data?.name || actorResult.data?.username;
     const prefs = prefsResult.data;
 
-    // Check if in-app notification type is enabled
-    const inAppPrefKey = getInAppPrefKey(params.type);
-    const inAppEnabled = prefs ? prefs[inAppPrefKey] !== false : true;
-
-    // Check if email notification type is enabled
-    const emailPrefKey = getEmailPrefKey(params.type);
-    const emailEnabled = prefs ? prefs[emailPrefKey] === true : false;
+    // Resolve channels for this type (explicit routing or legacy toggles)
+    const route = resolveChannelRoute(params.type, prefs);
+    const inAppEnabled = route.in_app;
+    const emailEnabled = route.email && !!user?.email;
+    // Push also needs browser notifications on, which tracks the device subscription
+    const pushEnabled = route.push && prefs?.browser_notifications === true && isWebPushConfigured();
 
-    // If neither is enabled, skip
-    if (!inAppEnabled && !emailEnabled) {
+    // If no channel is enabled, skip
+    if (!inAppEnabled && !emailEnabled && !pushEnabled) {
       return { id: undefined };
     }
 
     let notificationId: string | undefined;
 
-    // Create in-app notification if enabled
+    // Create in-app notification if enabled (never batched or held back)
     if (inAppEnabled) {
       const { data, error } = await supabase
         .from("notifications")
@@ -495,6 +626,36 @@ export async function createNotification(params: {
       notificationId = data.id;
     }
 
+    const actionUrl = getActionUrl(params.resourceType, params.resourceId, params.data);
+    const quietHours: QuietHours = {
+      enabled: prefs?.quiet_hours_enabled === true,
+      start: prefs?.quiet_hours_start ?? DEFAULT_QUIET_HOURS.start,
+      end: prefs?.quiet_hours_end ?? DEFAULT_QUIET_HOURS.end,
+      timezone: user?.timezone || "UTC",
+    };
+
+    // Batched types and anything arriving during quiet hours go to the digest queue
+    if ((emailEnabled || pushEnabled) && (route.delivery !== "immediate" || isWithinQuietHours(quietHours))) {
+      try {
+        await queueDigestItem({
+          userId: params.userId,
+          notificationId,
+          type: params.type,
+          title: params.title,
+          message: params.message,
+          actionUrl,
+          sendPush: pushEnabled,
+          sendEmail: emailEnabled,
+          reason: route.delivery === "immediate" ? "quiet_hours" : route.delivery,
+          deliverAfter: getDigestDeliveryTime(route.delivery, quietHours),
+        });
+      } catch (queueError) {
+        console.error("[Notifications] Digest queue error:", queueError);
+        // Don't fail the notification if queueing fails
+      }
+      return { id: notificationId };
+    }
+
     // Send email notification if enabled and user has email
     if (emailEnabled && user?.email) {
       const emailType = params.type as NotificationEmailParams["type"];
@@ -509,7 +670,7 @@ export async function createNotification(params: {
             title: params.title,
             message: params.message || params.title,
             actorName,
-            actionUrl: getActionUrl(params.resourceType, params.resourceId, params.data),
+            actionUrl,
           });
         } catch (emailError) {
           console.error("[Notifications] Email send error:", emailError);
@@ -518,12 +679,11 @@ export async function createNotification(params: {
       }
     }
 
-    // Send push notification if browser notifications are enabled
+    // Send push notification if routed to push
     // This allows users to receive notifications even when not on the website
-    const browserNotifsEnabled = prefs ? prefs.browser_notifications === true : false;
-    if (browserNotifsEnabled && isWebPushConfigured()) {
+    if (pushEnabled) {
       try {
-        const pushUrl = getActionUrl(params.resourceType, params.resourceId, params.data) || "/notifications";
+        const pushUrl = actionUrl || "/notifications";
 
         await sendPushNotificationToUser(params.userId, {
           title: "Claude Insider",
@@ -550,52 +710,6 @@ export async function createNotification(params: {
   }
 }
 
-/**
- * Get in-app preference key for notification type
- */
-function getInAppPrefKey(type: NotificationType): keyof NotificationPreferences {
-  switch (type) {
-    case "comment":
-      return "in_app_comments";
-    case "reply":
-      return "in_app_replies";
-    case "suggestion_approved":
-    case "suggestion_rejected":
-    case "suggestion_merged":
-      return "in_app_suggestions";
-    case "follow":
-      return "in_app_follows";
-    case "mention":
-      return "in_app_mentions";
-    case "version_update":
-      return "in_app_version_updates";
-    default:
-      return "in_app_comments"; // Default fallback
-  }
-}
-
-/**
- * Get email preference key for notification type
- */
-function getEmailPrefKey(type: NotificationType): keyof NotificationPreferences {
-  switch (type) {
-    case "comment":
-      return "email_comments";
-    case "reply":
-      return "email_replies";
-    case "suggestion_approved":
-    case "suggestion_rejected":
-    case "suggestion_merged":
-      return "email_suggestions";
-    case "follow":
-      return "email_follows";
-    case "version_update":
-      return "email_version_updates";
-    default:
-      return "email_comments"; // Default fallback
-  }
-}
-
 /**
  * Get action URL based on resource type
  *
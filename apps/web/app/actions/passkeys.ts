@@ -9,9 +9,12 @@
  * Database: passkeys, webauthn_challenges tables (migration 032)
  */
 
-import { getSession } from "@/lib/auth";
+import { headers } from "next/headers";
+import { getFreshSession } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/server";
 import { pool } from "@/lib/db";
+import { recordSignInEvent } from "@/lib/sign-in-history";
+import { emitAchievementEvent } from "@/lib/achievement-engine";
 import {
   generatePasskeyRegistrationOptions,
   verifyPasskeyRegistration,
@@ -49,7 +52,7 @@ export async function getPasskeys(): Promise<{
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -88,7 +91,7 @@ export async function initPasskeyRegistration(): Promise<{
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -155,7 +158,7 @@ export async function completePasskeyRegistration(
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -239,6 +242,8 @@ export async function completePasskeyRegistration(
 
     const passkey = insertResult.rows[0];
 
+    await emitAchievementEvent(session.user.id, "passkey.registered", credentialId);
+
     return {
       success: true,
       passkey: {
@@ -377,6 +382,13 @@ export async function completePasskeyAuth(
     );
 
     if (!verification.verified) {
+      await recordSignInEvent({
+        userId: passkey.user_id,
+        eventType: "passkey",
+        method: passkey.passkey_name,
+        success: false,
+        headers: await headers(),
+      });
       return { error: "Passkey verification failed. Please try again." };
     }
 
@@ -388,6 +400,13 @@ export async function completePasskeyAuth(
       [verification.authenticationInfo.newCounter, passkey.id]
     );
 
+    await recordSignInEvent({
+      userId: passkey.user_id,
+      eventType: "passkey",
+      method: passkey.passkey_name,
+      headers: await headers(),
+    });
+
     return {
       success: true,
       userId: passkey.user_id,
@@ -410,7 +429,7 @@ export async function renamePasskey(
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -450,7 +469,7 @@ export async function removePasskey(passkeyId: string): Promise<{
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -506,7 +525,7 @@ export async function checkUserHasPasskeys(email: string): Promise<boolean> {
  */
 export async function getPasskeyCount(): Promise<number> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) return 0;
 
     const result = await pool.query(
@@ -0,0 +1,281 @@
+"use server";
+
+/**
+ * Points Server Actions
+ *
+ * Moderator tools for the points system (lib/points-ledger.ts and
+ * lib/leaderboards.ts), shown on /dashboard/points:
+ * - Review accounts flagged for point farming; confirming a flag freezes
+ *   the account's points and hides it from leaderboards
+ * - Audit a user's ledger
+ * - Create leaderboard seasons and browse archived standings
+ */
+
+import { revalidatePath } from "next/cache";
+import { getSession } from "@/lib/auth";
+import { pool } from "@/lib/db";
+import { hasMinRole, ROLES, type UserRole } from "@/lib/roles";
+import type { LeaderboardEntry } from "@/lib/gamification";
+import {
+  getArchivedLeaderboard,
+  listArchivedLeaderboards,
+  listSeasons,
+  type ArchivedLeaderboard,
+  type ArchivedPeriod,
+  type LeaderboardSeason,
+} from "@/lib/leaderboards";
+import type { PointsFlagReason, PointsFlagStatus } from "@/lib/points-ledger";
+
+// Types
+export interface PointsFlag {
+  id: string;
+  user_id: string;
+  username: string | null;
+  email: string;
+  reason: PointsFlagReason;
+  details: string;
+  points_last_hour: number;
+  points_last_day: number;
+  trust_score: number | null;
+  total_points: number;
+  status: PointsFlagStatus;
+  reviewed_by_name: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+}
+
+export interface PointsLedgerEntry {
+  id: string;
+  action: string;
+  points: number;
+  reason: string;
+  subject_id: string | null;
+  created_at: string;
+}
+
+/**
+ * Check if user can moderate points
+ */
+async function checkModeratorAccess(): Promise<{ userId: string } | { error: string }> {
+  const session = await getSession();
+  if (!session?.user?.id) {
+    return { error: "You must be signed in" };
+  }
+
+  const result = await pool.query(
+    `SELECT role FROM "user" WHERE id = $1`,
+    [session.user.id]
+  );
+
+  const role = result.rows[0]?.role as UserRole | undefined;
+  if (!hasMinRole(role, ROLES.MODERATOR)) {
+    return { error: "You don't have permission to moderate points" };
+  }
+
+  return { userId: session.user.id };
+}
+
+// ==================== Farming Flags ====================
+
+/**
+ * Get farming flags, newest first
+ */
+export async function getPointsFlags(
+  status: PointsFlagStatus = "open"
+): Promise<{ flags?: PointsFlag[]; error?: string }> {
+  try {
+    const access = await checkModeratorAccess();
+    if ("error" in access) return { error: access.error };
+
+    const result = await pool.query(
+      `SELECT f.*, u.username, u.email, r.name AS reviewed_by_name,
+         (SELECT COALESCE(SUM(l.points), 0)::int FROM points_ledger l WHERE l.user_id = f.user_id) AS total_points
+       FROM points_flags f
+       JOIN "user" u ON u.id = f.user_id
+       LEFT JOIN "user" r ON r.id = f.reviewed_by
+       WHERE f.status = $1
+       ORDER BY f.created_at DESC
+       LIMIT 100`,
+      [status]
+    );
+    return { flags: result.rows as PointsFlag[] };
+  } catch (error) {
+    console.error("[Points] Get flags error:", error);
+    return { error: "Failed to load flagged accounts" };
+  }
+}
+
+/**
+ * Dismiss a flag, or confirm it to freeze the account's points
+ */
+export async function reviewPointsFlag(
+  flagId: string,
+  decision: Exclude<PointsFlagStatus, "open">
+): Promise<{ success?: boolean; error?: string }> {
+  try {
+    const access = await checkModeratorAccess();
+    if ("error" in access) return { error: access.error };
+
+    if (decision !== "dismissed" && decision !== "confirmed") {
+      return { error: "Invalid decision" };
+    }
+
+    const result = await pool.query(
+      `UPDATE points_flags
+       SET status = $2, reviewed_by = $3, reviewed_at = NOW()
+       WHERE id = $1 AND status = 'open'`,
+      [flagId, decision, access.userId]
+    );
+    if (result.rowCount === 0) {
+      return { error: "Flag not found or already reviewed" };
+    }
+
+    revalidatePath("/dashboard/points");
+    revalidatePath("/stats");
+    return { success: true };
+  } catch (error) {
+    console.error("[Points] Review flag error:", error);
+    return { error: "Failed to review flag" };
+  }
+}
+
+/**
+ * A user's most recent ledger rows
+ */
+export async function getUserPointsLedger(
+  userId: string,
+  limit: number = 50
+): Promise<{ entries?: PointsLedgerEntry[]; error?: string }> {
+  try {
+    const access = await checkModeratorAccess();
+    if ("error" in access) return { error: access.error };
+
+    const result = await pool.query(
+      `SELECT id, action, points, reason, subject_id, created_at
+       FROM points_ledger
+       WHERE user_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [userId, Math.min(limit, 200)]
+    );
+    return { entries: result.rows as PointsLedgerEntry[] };
+  } catch (error) {
+    console.error("[Points] Get ledger error:", error);
+    return { error: "Failed to load points history" };
+  }
+}
+
+// ==================== Seasons ====================
+
+/**
+ * Get all seasons, newest first
+ */
+export async function getSeasons(): Promise<{ seasons?: LeaderboardSeason[]; error?: string }> {
+  try {
+    const access = await checkModeratorAccess();
+    if ("error" in access) return { error: access.error };
+
+    return { seasons: await listSeasons() };
+  } catch (error) {
+    console.error("[Points] Get seasons error:", error);
+    return { error: "Failed to load seasons" };
+  }
+}
+
+/**
+ * Create a season. Dates are ISO strings; the season runs from startsAt
+ * (inclusive) to endsAt (exclusive).
+ */
+export async function createSeason(input: {
+  name: string;
+  slug: string;
+  description?: string;
+  startsAt: string;
+  endsAt: string;
+}): Promise<{ season?: LeaderboardSeason; error?: string }> {
+  try {
+    const access = await checkModeratorAccess();
+    if ("error" in access) return { error: access.error };
+
+    const name = input.name.trim();
+    const slug = input.slug.trim().toLowerCase();
+    const startsAt = new Date(input.startsAt);
+    const endsAt = new Date(input.endsAt);
+
+    if (!name || name.length > 200) {
+      return { error: "Name is required (max 200 characters)" };
+    }
+    if (!/^[a-z0-9]+(?:-[a-z0-9]+)*$/.test(slug) || slug.length > 100) {
+      return { error: "Slug may only contain lowercase letters, numbers and dashes" };
+    }
+    if (isNaN(startsAt.getTime()) || isNaN(endsAt.getTime())) {
+      return { error: "Invalid start or end date" };
+    }
+    if (endsAt <= startsAt) {
+      return { error: "The season must end after it starts" };
+    }
+    if (endsAt <= new Date()) {
+      return { error: "The season must end in the future" };
+    }
+
+    const existing = await pool.query(
+      `SELECT 1 FROM leaderboard_seasons WHERE slug = $1`,
+      [slug]
+    );
+    if (existing.rows.length > 0) {
+      return { error: "A season with this slug already exists" };
+    }
+
+    await pool.query(
+      `INSERT INTO leaderboard_seasons (slug, name, description, starts_at, ends_at, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [slug, name, input.description?.trim() || null, startsAt, endsAt, access.userId]
+    );
+
+    const seasons = await listSeasons();
+    revalidatePath("/dashboard/points");
+    revalidatePath("/stats");
+    return { season: seasons.find((s) => s.slug === slug) };
+  } catch (error) {
+    console.error("[Points] Create season error:", error);
+    return { error: "Failed to create season" };
+  }
+}
+
+// ==================== Archives ====================
+
+/**
+ * Get archived leaderboard periods, newest first
+ */
+export async function getLeaderboardArchives(): Promise<{
+  archives?: ArchivedLeaderboard[];
+  error?: string;
+}> {
+  try {
+    const access = await checkModeratorAccess();
+    if ("error" in access) return { error: access.error };
+
+    return { archives: await listArchivedLeaderboards(50) };
+  } catch (error) {
+    console.error("[Points] Get archives error:", error);
+    return { error: "Failed to load archived leaderboards" };
+  }
+}
+
+/**
+ * Final standings of an archived period
+ */
+export async function getArchivedStandings(
+  period: ArchivedPeriod,
+  key: string
+): Promise<{ entries?: LeaderboardEntry[]; error?: string }> {
+  try {
+    const access = await checkModeratorAccess();
+    if ("error" in access) return { error: access.error };
+
+    return { entries: await getArchivedLeaderboard(period, key, 25) };
+  } catch (error) {
+    console.error("[Points] Get archived standings error:", error);
+    return { error: "Failed to load standings" };
+  }
+}
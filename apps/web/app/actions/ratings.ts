@@ -13,6 +13,7 @@
 import { getSession } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
+import { emitAchievementEvent } from "@/lib/achievement-engine";
 
 export type RatingResult = {
   success?: boolean;
@@ -95,6 +96,7 @@ export async function submitRating(
 
       // Log activity
       await logActivity(supabase, userId, resourceType, resourceId, rating);
+      await emitAchievementEvent(userId, "resource.rated", `${resourceType}:${resourceId}`);
     }
 
     revalidatePath(`/${resourceType}s`);
@@ -432,6 +434,8 @@ export async function submitReview(
       });
 
       if (error) throw error;
+
+      await emitAchievementEvent(session.user.id, "review.created", `${resourceType}:${resourceId}`);
     }
 
     // Also update the simple rating
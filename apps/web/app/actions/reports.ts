@@ -11,6 +11,9 @@ import { getSession } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/server";
 import { canPerformAction, ACTIONS, type UserRole } from "@/lib/roles";
 import { sendEmail, emailTemplates } from "@/lib/email";
+import { emitWebhookEvent } from "@/lib/webhooks/server";
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || "https://www.claudeinsider.com";
 
 // Database row types
 interface ReportRow {
@@ -81,6 +84,36 @@ export interface Report {
   updatedAt: string;
 }
 
+/**
+ * Notify report.created webhook subscribers
+ */
+async function emitReportCreated(report: {
+  id: string;
+  reportType: ReportType;
+  reason: ReportReason;
+  description?: string;
+  reportedUserId?: string;
+  reportedCommentId?: string;
+  subject: string;
+}): Promise<void> {
+  await emitWebhookEvent("report.created", {
+    title: `New ${report.reportType} report: ${report.reason.replace(/_/g, " ")}`,
+    text: report.description?.trim() || undefined,
+    url: `${APP_URL}/dashboard/reports`,
+    fields: [
+      { name: report.reportType === "user" ? "Reported user" : "Reported comment", value: report.subject },
+      { name: "Reason", value: report.reason },
+    ],
+    data: {
+      reportId: report.id,
+      reportType: report.reportType,
+      reason: report.reason,
+      reportedUserId: report.reportedUserId ?? null,
+      reportedCommentId: report.reportedCommentId ?? null,
+    },
+  });
+}
+
 // ============================================
 // USER ACTIONS
 // ============================================
@@ -133,19 +166,32 @@ export async function reportUser(
 
     // Create the report
      
-    const { error: insertError } = await supabase.from("reports").insert({
-      reporter_id: session.user.id,
-      report_type: "user",
-      reported_user_id: userId,
-      reason,
-      description: description?.trim() || null,
-    });
+    const { data: report, error: insertError } = await supabase
+      .from("reports")
+      .insert({
+        reporter_id: session.user.id,
+        report_type: "user",
+        reported_user_id: userId,
+        reason,
+        description: description?.trim() || null,
+      })
+      .select("id")
+      .single();
 
-    if (insertError) {
+    if (insertError || !report) {
       console.error("Failed to create report:", insertError);
       return { success: false, error: "Failed to submit report" };
     }
 
+    await emitReportCreated({
+      id: report.id,
+      reportType: "user",
+      reason,
+      description,
+      reportedUserId: userId,
+      subject: targetUser.name || userId,
+    });
+
     return { success: true };
   } catch (error) {
     console.error("Report user error:", error);
@@ -201,19 +247,33 @@ export async function reportComment(
 
     // Create the report
      
-    const { error: insertError } = await supabase.from("reports").insert({
-      reporter_id: session.user.id,
-      report_type: "comment",
-      reported_comment_id: commentId,
-      reason,
-      description: description?.trim() || null,
-    });
+    const { data: report, error: insertError } = await supabase
+      .from("reports")
+      .insert({
+        reporter_id: session.user.id,
+        report_type: "comment",
+        reported_comment_id: commentId,
+        reason,
+        description: description?.trim() || null,
+      })
+      .select("id")
+      .single();
 
-    if (insertError) {
+    if (insertError || !report) {
       console.error("Failed to create report:", insertError);
       return { success: false, error: "Failed to submit report" };
     }
 
+    await emitReportCreated({
+      id: report.id,
+      reportType: "comment",
+      reason,
+      description,
+      reportedUserId: comment.user_id,
+      reportedCommentId: commentId,
+      subject: comment.content.length > 200 ? `${comment.content.slice(0, 200)}…` : comment.content,
+    });
+
     return { success: true };
   } catch (error) {
     console.error("Report comment error:", error);
@@ -9,6 +9,7 @@
 import { revalidatePath } from "next/cache";
 import { getSession } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/server";
+import { recordFaqQuery } from "@/lib/faq-mining";
 
 // Types
 export interface SearchFilters {
@@ -266,6 +267,13 @@ export async function recordSearch(input: {
       p_result_count: input.resultCount,
     });
 
+    // Feed FAQ mining (question-like searches only, see getQueryClusterKey)
+    await recordFaqQuery({
+      query: input.query,
+      source: "search",
+      userId: session?.user?.id,
+    });
+
     return { success: true };
   } catch (error) {
     console.error("[Search] Record search error:", error);
@@ -0,0 +1,118 @@
+"use server";
+
+/**
+ * Session Server Actions
+ *
+ * List and revoke the current user's sessions, and read their sign-in
+ * history, for Settings → Devices & sessions.
+ *
+ * Database: session (Better Auth), sign_in_events (migration 119)
+ */
+
+import { headers } from "next/headers";
+import { getFreshSession } from "@/lib/auth";
+import {
+  listActiveSessions,
+  getSignInHistory as getSignInEvents,
+  revokeSession as deleteSession,
+  revokeOtherSessions as deleteOtherSessions,
+  type ActiveSession,
+  type SignInEvent,
+} from "@/lib/sign-in-history";
+
+/**
+ * Get the current user's active sessions, current session first
+ */
+export async function getSessions(): Promise<{
+  sessions?: ActiveSession[];
+  error?: string;
+}> {
+  try {
+    const session = await getFreshSession();
+    if (!session?.user?.id) {
+      return { error: "Not authenticated" };
+    }
+
+    const sessions = await listActiveSessions(session.user.id, session.session.id);
+    return { sessions };
+  } catch (error) {
+    console.error("[Sessions] Get sessions error:", error);
+    return { error: "Failed to load sessions" };
+  }
+}
+
+/**
+ * Get the current user's recent sign-ins and verifications
+ */
+export async function getSignInHistory(): Promise<{
+  events?: SignInEvent[];
+  error?: string;
+}> {
+  try {
+    const session = await getFreshSession();
+    if (!session?.user?.id) {
+      return { error: "Not authenticated" };
+    }
+
+    const events = await getSignInEvents(session.user.id);
+    return { events };
+  } catch (error) {
+    console.error("[Sessions] Get history error:", error);
+    return { error: "Failed to load sign-in history" };
+  }
+}
+
+/**
+ * Sign out one of the user's other sessions
+ */
+export async function revokeSession(sessionId: string): Promise<{
+  success?: boolean;
+  error?: string;
+}> {
+  try {
+    const session = await getFreshSession();
+    if (!session?.user?.id) {
+      return { error: "Not authenticated" };
+    }
+
+    if (sessionId === session.session.id) {
+      return { error: "Use Sign Out to end this session" };
+    }
+
+    const revoked = await deleteSession(session.user.id, sessionId, await headers());
+    if (!revoked) {
+      return { error: "Session not found" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("[Sessions] Revoke error:", error);
+    return { error: "Failed to sign out session" };
+  }
+}
+
+/**
+ * Sign out every session except this one
+ */
+export async function revokeOtherSessions(): Promise<{
+  success?: boolean;
+  revoked?: number;
+  error?: string;
+}> {
+  try {
+    const session = await getFreshSession();
+    if (!session?.user?.id) {
+      return { error: "Not authenticated" };
+    }
+
+    const revoked = await deleteOtherSessions(
+      session.user.id,
+      session.session.id,
+      await headers()
+    );
+    return { success: true, revoked };
+  } catch (error) {
+    console.error("[Sessions] Revoke others error:", error);
+    return { error: "Failed to sign out other sessions" };
+  }
+}
@@ -11,6 +11,7 @@ import { getSession } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/server";
 import { revalidatePath } from "next/cache";
 import { notifyAdminsEditSuggestion } from "@/lib/admin-notifications";
+import { emitAchievementEvent } from "@/lib/achievement-engine";
 
 export type SuggestionStatus = "pending" | "approved" | "rejected" | "merged";
 
@@ -103,6 +104,8 @@ export async function createSuggestion(
       { suggestion_id: data.id }
     );
 
+    await emitAchievementEvent(session.user.id, "suggestion.submitted", data.id);
+
     // Notify admins about the new suggestion (async, don't block response)
     notifyAdminsEditSuggestion({
       id: data.id,
@@ -253,6 +256,10 @@ export async function updateSuggestionStatus(
       { suggestion_id: suggestionId }
     );
 
+    if (status === "approved" || status === "merged") {
+      await emitAchievementEvent(data.user_id, "suggestion.approved", suggestionId);
+    }
+
     return { success: true, data };
   } catch (error) {
     console.error("[Suggestions] Unexpected error:", error);
@@ -6,8 +6,11 @@
  * Handle TOTP-based 2FA setup, verification, and backup codes.
  */
 
-import { getSession } from "@/lib/auth";
+import { headers } from "next/headers";
+import { getFreshSession } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/server";
+import { recordSignInEvent } from "@/lib/sign-in-history";
+import { emitAchievementEvent } from "@/lib/achievement-engine";
 import { authenticator } from "otplib";
 import QRCode from "qrcode";
 import crypto from "crypto";
@@ -23,7 +26,7 @@ export async function generateTwoFactorSecret(): Promise<{
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -77,7 +80,7 @@ export async function enableTwoFactor(code: string): Promise<{
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -128,6 +131,8 @@ export async function enableTwoFactor(code: string): Promise<{
       return { error: "Failed to enable 2FA" };
     }
 
+    await emitAchievementEvent(session.user.id, "two_factor.enabled", "two_factor");
+
     return { success: true, backupCodes };
   } catch (error) {
     console.error("[2FA] Enable error:", error);
@@ -143,7 +148,7 @@ export async function disableTwoFactor(code: string): Promise<{
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -238,7 +243,15 @@ export async function verifyTwoFactorCode(
       secret: user.twoFactorSecret,
     });
 
+    const requestHeaders = await headers();
+
     if (isValidTotp) {
+      await recordSignInEvent({
+        userId,
+        eventType: "two_factor",
+        method: "totp",
+        headers: requestHeaders,
+      });
       return { success: true };
     }
 
@@ -253,9 +266,21 @@ export async function verifyTwoFactorCode(
         .update({ twoFactorBackupCodes: newCodes })
         .eq("id", userId);
 
+      await recordSignInEvent({
+        userId,
+        eventType: "two_factor",
+        method: "backup_code",
+        headers: requestHeaders,
+      });
       return { success: true };
     }
 
+    await recordSignInEvent({
+      userId,
+      eventType: "two_factor",
+      success: false,
+      headers: requestHeaders,
+    });
     return { error: "Invalid verification code" };
   } catch (error) {
     console.error("[2FA] Verify error:", error);
@@ -273,7 +298,7 @@ export async function getTwoFactorStatus(): Promise<{
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -310,7 +335,7 @@ export async function regenerateBackupCodes(code: string): Promise<{
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -417,7 +442,7 @@ export async function get2FADevices(): Promise<{
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -473,7 +498,7 @@ export async function initAdd2FADevice(deviceName: string): Promise<{
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -551,7 +576,7 @@ export async function verifyAndAdd2FADevice(
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -648,7 +673,7 @@ export async function rename2FADevice(
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -697,7 +722,7 @@ export async function remove2FADevice(
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -815,7 +840,7 @@ export async function setPrimary2FADevice(deviceId: string): Promise<{
   error?: string;
 }> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) {
       return { error: "You must be signed in" };
     }
@@ -876,7 +901,7 @@ export async function setPrimary2FADevice(deviceId: string): Promise<{
  */
 export async function get2FADeviceCount(): Promise<number> {
   try {
-    const session = await getSession();
+    const session = await getFreshSession();
     if (!session?.user?.id) return 0;
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -13,6 +13,8 @@
 import { getSession } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/server";
 import { canPerformAction, ACTIONS, type UserRole } from "@/lib/roles";
+import { emitAchievementEvent } from "@/lib/achievement-engine";
+import { awardPoints } from "@/lib/points-ledger";
 
 // ============================================
 // TYPES
@@ -60,6 +62,13 @@ export interface ActivityStats {
   lastActive?: string;
 }
 
+// Point action paid for each logged activity (lib/gamification.ts)
+const ACTIVITY_POINTS: Record<"view_doc" | "view_resource" | "search", string> = {
+  view_doc: "read_article",
+  view_resource: "explore_resource",
+  search: "use_search",
+};
+
 // ============================================
 // DATABASE ROW TYPES
 // ============================================
@@ -510,6 +519,16 @@ export async function logActivity(
       metadata: (metadata || {}) as Record<string, string>,
     });
 
+    // Counts once per day, for visit streaks
+    await emitAchievementEvent(session.user.id, "user.active");
+
+    // Views pay once per doc or resource; searches are only daily-limited
+    await awardPoints(
+      session.user.id,
+      ACTIVITY_POINTS[activityType],
+      activityType === "search" ? undefined : resourceId
+    );
+
     return { success: true };
   } catch (error) {
     console.error("Log activity error:", error);
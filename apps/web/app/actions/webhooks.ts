@@ -0,0 +1,372 @@
+"use server";
+
+/**
+ * Webhook Server Actions
+ *
+ * Backs the /dashboard/webhooks console: register outbound endpoints,
+ * choose their events and payload format, rotate signing secrets, send
+ * test events, and inspect or redeliver the delivery log. Delivery itself
+ * lives in lib/webhooks/server.ts.
+ */
+
+import { revalidatePath } from "next/cache";
+import { getSession } from "@/lib/auth";
+import { pool } from "@/lib/db";
+import { hasMinRole, ROLES, type UserRole } from "@/lib/roles";
+import {
+  generateWebhookSecret,
+  redeliverWebhook as redeliver,
+  sendWebhookTest,
+} from "@/lib/webhooks/server";
+import {
+  isWebhookEvent,
+  isWebhookFormat,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+  type WebhookEvent,
+  type WebhookFormat,
+} from "@/lib/webhooks/types";
+
+export interface WebhookEndpointInput {
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  events: WebhookEvent[];
+}
+
+/**
+ * Check if user has admin privileges
+ * Endpoints hold signing secrets and receive donation and report details,
+ * so this requires ADMIN rather than MODERATOR
+ */
+async function checkAdminAccess(): Promise<{ userId: string } | { error: string }> {
+  const session = await getSession();
+  if (!session?.user?.id) {
+    return { error: "You must be signed in" };
+  }
+
+  const result = await pool.query(
+    `SELECT role FROM "user" WHERE id = $1`,
+    [session.user.id]
+  );
+
+  const role = result.rows[0]?.role as UserRole | undefined;
+  if (!hasMinRole(role, ROLES.ADMIN)) {
+    return { error: "You don't have permission to manage webhooks" };
+  }
+
+  return { userId: session.user.id };
+}
+
+/**
+ * Validate and normalize endpoint settings
+ */
+function validateEndpointInput(
+  input: WebhookEndpointInput
+): { endpoint: WebhookEndpointInput } | { error: string } {
+  const name = input.name.trim();
+  if (!name || name.length > 100) {
+    return { error: "Name is required (max 100 characters)" };
+  }
+
+  let url: URL;
+  try {
+    url = new URL(input.url.trim());
+  } catch {
+    return { error: "Enter a valid URL" };
+  }
+  const isLocal = url.hostname === "localhost" || url.hostname === "127.0.0.1";
+  if (url.protocol !== "https:" && !(process.env.NODE_ENV === "development" && isLocal)) {
+    return { error: "Webhook URLs must use HTTPS" };
+  }
+
+  if (!isWebhookFormat(input.format)) {
+    return { error: "Invalid payload format" };
+  }
+
+  const events = [...new Set(input.events)];
+  if (events.length === 0 || !events.every(isWebhookEvent)) {
+    return { error: "Select at least one event" };
+  }
+
+  return { endpoint: { name, url: url.toString(), format: input.format, events } };
+}
+
+// ==================== Endpoints ====================
+
+/**
+ * Get all endpoints with their latest delivery
+ */
+export async function getWebhookEndpoints(): Promise<{
+  endpoints?: WebhookEndpoint[];
+  error?: string;
+}> {
+  try {
+    const access = await checkAdminAccess();
+    if ("error" in access) return { error: access.error };
+
+    const result = await pool.query(
+      `SELECT e.id, e.name, e.url, e.format, e.events, e.is_active, e.created_at, e.updated_at,
+         last.created_at AS last_delivery_at, last.status AS last_delivery_status,
+         (SELECT COUNT(*)::int FROM webhook_deliveries d
+          WHERE d.endpoint_id = e.id AND d.status = 'failed'
+            AND d.created_at > NOW() - INTERVAL '1 day') AS failed_last_day
+       FROM webhook_endpoints e
+       LEFT JOIN LATERAL (
+         SELECT created_at, status FROM webhook_deliveries
+         WHERE endpoint_id = e.id
+         ORDER BY created_at DESC
+         LIMIT 1
+       ) last ON TRUE
+       ORDER BY e.created_at DESC`
+    );
+
+    return {
+      endpoints: result.rows.map((row) => ({
+        id: row.id,
+        name: row.name,
+        url: row.url,
+        format: row.format,
+        events: row.events,
+        isActive: row.is_active,
+        createdAt: row.created_at.toISOString(),
+        updatedAt: row.updated_at.toISOString(),
+        lastDeliveryAt: row.last_delivery_at?.toISOString() ?? null,
+        lastDeliveryStatus: row.last_delivery_status ?? null,
+        failedLastDay: row.failed_last_day,
+      })),
+    };
+  } catch (error) {
+    console.error("[Webhooks] Get endpoints error:", error);
+    return { error: "Failed to load webhooks" };
+  }
+}
+
+/**
+ * Register an endpoint. The signing secret is only returned here and by
+ * rotateWebhookSecret().
+ */
+export async function createWebhookEndpoint(
+  input: WebhookEndpointInput
+): Promise<{ id?: string; secret?: string; error?: string }> {
+  try {
+    const access = await checkAdminAccess();
+    if ("error" in access) return { error: access.error };
+
+    const validated = validateEndpointInput(input);
+    if ("error" in validated) return { error: validated.error };
+    const { name, url, format, events } = validated.endpoint;
+
+    const secret = generateWebhookSecret();
+    const result = await pool.query(
+      `INSERT INTO webhook_endpoints (name, url, format, secret, events, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING id`,
+      [name, url, format, secret, events, access.userId]
+    );
+
+    revalidatePath("/dashboard/webhooks");
+    return { id: result.rows[0].id, secret };
+  } catch (error) {
+    console.error("[Webhooks] Create endpoint error:", error);
+    return { error: "Failed to create webhook" };
+  }
+}
+
+/**
+ * Update an endpoint's settings
+ */
+export async function updateWebhookEndpoint(
+  endpointId: string,
+  input: WebhookEndpointInput
+): Promise<{ success?: boolean; error?: string }> {
+  try {
+    const access = await checkAdminAccess();
+    if ("error" in access) return { error: access.error };
+
+    const validated = validateEndpointInput(input);
+    if ("error" in validated) return { error: validated.error };
+    const { name, url, format, events } = validated.endpoint;
+
+    const result = await pool.query(
+      `UPDATE webhook_endpoints
+       SET name = $2, url = $3, format = $4, events = $5, updated_at = NOW()
+       WHERE id = $1`,
+      [endpointId, name, url, format, events]
+    );
+    if (result.rowCount === 0) {
+      return { error: "Webhook not found" };
+    }
+
+    revalidatePath("/dashboard/webhooks");
+    return { success: true };
+  } catch (error) {
+    console.error("[Webhooks] Update endpoint error:", error);
+    return { error: "Failed to update webhook" };
+  }
+}
+
+/**
+ * Enable or disable an endpoint. Deliveries already queued for a disabled
+ * endpoint are marked failed instead of sent.
+ */
+export async function setWebhookEndpointActive(
+  endpointId: string,
+  isActive: boolean
+): Promise<{ success?: boolean; error?: string }> {
+  try {
+    const access = await checkAdminAccess();
+    if ("error" in access) return { error: access.error };
+
+    const result = await pool.query(
+      `UPDATE webhook_endpoints SET is_active = $2, updated_at = NOW() WHERE id = $1`,
+      [endpointId, isActive]
+    );
+    if (result.rowCount === 0) {
+      return { error: "Webhook not found" };
+    }
+
+    revalidatePath("/dashboard/webhooks");
+    return { success: true };
+  } catch (error) {
+    console.error("[Webhooks] Toggle endpoint error:", error);
+    return { error: "Failed to update webhook" };
+  }
+}
+
+/**
+ * Replace an endpoint's signing secret. Receivers must switch to the new
+ * secret, as requests are signed with it immediately.
+ */
+export async function rotateWebhookSecret(
+  endpointId: string
+): Promise<{ secret?: string; error?: string }> {
+  try {
+    const access = await checkAdminAccess();
+    if ("error" in access) return { error: access.error };
+
+    const secret = generateWebhookSecret();
+    const result = await pool.query(
+      `UPDATE webhook_endpoints SET secret = $2, updated_at = NOW() WHERE id = $1`,
+      [endpointId, secret]
+    );
+    if (result.rowCount === 0) {
+      return { error: "Webhook not found" };
+    }
+
+    return { secret };
+  } catch (error) {
+    console.error("[Webhooks] Rotate secret error:", error);
+    return { error: "Failed to rotate secret" };
+  }
+}
+
+/**
+ * Delete an endpoint and its delivery log
+ */
+export async function deleteWebhookEndpoint(
+  endpointId: string
+): Promise<{ success?: boolean; error?: string }> {
+  try {
+    const access = await checkAdminAccess();
+    if ("error" in access) return { error: access.error };
+
+    await pool.query(`DELETE FROM webhook_endpoints WHERE id = $1`, [endpointId]);
+
+    revalidatePath("/dashboard/webhooks");
+    return { success: true };
+  } catch (error) {
+    console.error("[Webhooks] Delete endpoint error:", error);
+    return { error: "Failed to delete webhook" };
+  }
+}
+
+/**
+ * Queue a test event to an endpoint
+ */
+export async function testWebhookEndpoint(
+  endpointId: string
+): Promise<{ deliveryId?: string; error?: string }> {
+  try {
+    const access = await checkAdminAccess();
+    if ("error" in access) return { error: access.error };
+
+    const exists = await pool.query(`SELECT 1 FROM webhook_endpoints WHERE id = $1`, [endpointId]);
+    if (exists.rows.length === 0) {
+      return { error: "Webhook not found" };
+    }
+
+    return { deliveryId: await sendWebhookTest(endpointId) };
+  } catch (error) {
+    console.error("[Webhooks] Test endpoint error:", error);
+    return { error: "Failed to send test webhook" };
+  }
+}
+
+// ==================== Deliveries ====================
+
+/**
+ * Recent deliveries, optionally for one endpoint
+ */
+export async function getWebhookDeliveries(options?: {
+  endpointId?: string;
+  limit?: number;
+}): Promise<{ deliveries?: WebhookDelivery[]; error?: string }> {
+  try {
+    const access = await checkAdminAccess();
+    if ("error" in access) return { error: access.error };
+
+    const result = await pool.query(
+      `SELECT d.*, e.name AS endpoint_name
+       FROM webhook_deliveries d
+       JOIN webhook_endpoints e ON e.id = d.endpoint_id
+       WHERE ($1::uuid IS NULL OR d.endpoint_id = $1)
+       ORDER BY d.created_at DESC
+       LIMIT $2`,
+      [options?.endpointId ?? null, Math.min(options?.limit ?? 50, 200)]
+    );
+
+    return {
+      deliveries: result.rows.map((row) => ({
+        id: row.id,
+        endpointId: row.endpoint_id,
+        endpointName: row.endpoint_name,
+        event: row.event,
+        status: row.status,
+        attempts: row.attempts,
+        responseStatus: row.response_status,
+        responseBody: row.response_body,
+        error: row.error,
+        durationMs: row.duration_ms,
+        payload: row.payload,
+        createdAt: row.created_at.toISOString(),
+        lastAttemptAt: row.last_attempt_at?.toISOString() ?? null,
+        deliveredAt: row.delivered_at?.toISOString() ?? null,
+      })),
+    };
+  } catch (error) {
+    console.error("[Webhooks] Get deliveries error:", error);
+    return { error: "Failed to load deliveries" };
+  }
+}
+
+/**
+ * Send a delivered or failed delivery again
+ */
+export async function redeliverWebhook(
+  deliveryId: string
+): Promise<{ success?: boolean; error?: string }> {
+  try {
+    const access = await checkAdminAccess();
+    if ("error" in access) return { error: access.error };
+
+    if (!(await redeliver(deliveryId))) {
+      return { error: "Delivery not found or still in progress" };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("[Webhooks] Redeliver error:", error);
+    return { error: "Failed to redeliver webhook" };
+  }
+}
@@ -3,8 +3,8 @@
  *
  * GET /api/admin/rate-limits
  *
- * Returns current rate limit status for the authenticated user.
- * Admin/moderator only.
+ * Returns current rate limit status for the authenticated user, using the
+ * policy limits for their role. Admin/moderator only.
  */
 
 import { getPayload } from "payload";
@@ -14,10 +14,15 @@ import { NextResponse } from "next/server";
 import { hasRole } from "@/collections/Users";
 import {
   getRateLimitStatus,
-  RATE_LIMITS,
   resetRateLimit,
   getAllRateLimits,
 } from "@/lib/rate-limiter";
+import {
+  getRateLimitPolicies,
+  resolveRateLimitConfig,
+  resolveSubjectTrustLevel,
+} from "@/lib/rate-limit-policies";
+import type { UserRole } from "@/lib/roles";
 
 export async function GET() {
   try {
@@ -45,10 +50,11 @@ export async function GET() {
     const userId = user.id;
 
     // Get rate limit status for all endpoints
-    const endpoints = Object.keys(RATE_LIMITS);
+    const policies = await getRateLimitPolicies();
     const status: Record<
       string,
       {
+        algorithm: string;
         remaining: number;
         limit: number;
         resetTime: number;
@@ -58,13 +64,20 @@ export async function GET() {
 
     const now = Math.floor(Date.now() / 1000);
 
-    for (const endpoint of endpoints) {
-      const result = getRateLimitStatus(userId, endpoint);
+    const trustLevel = await resolveSubjectTrustLevel({ id: userId });
+
+    for (const [endpoint, policy] of Object.entries(policies)) {
+      const limitConfig = resolveRateLimitConfig(policy, {
+        role: user.role as UserRole,
+        trustLevel,
+      });
+      const result = getRateLimitStatus(userId, endpoint, limitConfig);
       const secondsUntilReset = Math.max(0, result.resetTime - now);
       const minutes = Math.floor(secondsUntilReset / 60);
       const seconds = secondsUntilReset % 60;
 
       status[endpoint] = {
+        algorithm: policy.algorithm,
         remaining: result.remaining,
         limit: result.limit,
         resetTime: result.resetTime,
@@ -25,9 +25,10 @@ import {
 } from "@/lib/ai/resource-analyzer";
 import { hasRole } from "@/collections/Users";
 import {
-  checkRateLimit,
+  checkPolicyRateLimit,
   createRateLimitResponse,
 } from "@/lib/rate-limiter";
+import type { UserRole } from "@/lib/roles";
 
 export async function POST(request: Request) {
   try {
@@ -60,12 +61,6 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "Forbidden" }, { status: 403 });
     }
 
-    // Check rate limit
-    const rateLimitResult = await checkRateLimit(user.id, "analyze");
-    if (!rateLimitResult.allowed) {
-      return createRateLimitResponse(rateLimitResult);
-    }
-
     // Parse request body
     const body = await request.json();
     const { url, content, existingResourceTitles, quickCheck } = body;
@@ -87,6 +82,20 @@ export async function POST(request: Request) {
       );
     }
 
+    // Check rate limit, charged by estimated LLM tokens (~4 chars per token;
+    // the analyzer reads at most 15K chars of content and answers in 2K tokens)
+    const estimatedTokens = quickCheck
+      ? 0
+      : Math.ceil(Math.min(typeof content === "string" ? content.length : 0, 15000) / 4) + 2000;
+    const rateLimitResult = await checkPolicyRateLimit(
+      { id: user.id, role: user.role as UserRole },
+      "analyze",
+      { estimatedTokens }
+    );
+    if (!rateLimitResult.allowed) {
+      return createRateLimitResponse(rateLimitResult);
+    }
+
     // Quick relevance check mode (faster, cheaper)
     if (quickCheck) {
       const relevance = await quickRelevanceCheck(url);
@@ -25,9 +25,10 @@ import { hasRole } from "@/collections/Users";
 import { scrapeUrl } from "@/lib/firecrawl";
 import { analyzeResourceUrl, quickRelevanceCheck } from "@/lib/ai/resource-analyzer";
 import {
-  checkRateLimit,
+  checkPolicyRateLimit,
   createRateLimitResponse,
 } from "@/lib/rate-limiter";
+import type { UserRole } from "@/lib/roles";
 
 // Helper to extract GitHub info from URL
 function parseGitHubUrl(url: string): { owner: string; repo: string } | null {
@@ -107,7 +108,10 @@ export async function POST(request: Request) {
     }
 
     // Check rate limit
-    const rateLimitResult = await checkRateLimit(user.id, "discover");
+    const rateLimitResult = await checkPolicyRateLimit(
+      { id: user.id, role: user.role as UserRole },
+      "discover"
+    );
     if (!rateLimitResult.allowed) {
       return createRateLimitResponse(rateLimitResult);
     }
@@ -15,9 +15,10 @@ import { headers } from "next/headers";
 import { NextResponse } from "next/server";
 import { hasRole } from "@/collections/Users";
 import {
-  checkRateLimit,
+  checkPolicyRateLimit,
   createRateLimitResponse,
 } from "@/lib/rate-limiter";
+import type { UserRole } from "@/lib/roles";
 import { createAuditLog } from "@/lib/audit";
 
 interface ImportEntry {
@@ -181,7 +182,10 @@ export async function POST(request: Request) {
     }
 
     // Check rate limit
-    const rateLimitResult = await checkRateLimit(user.id, "import");
+    const rateLimitResult = await checkPolicyRateLimit(
+      { id: user.id, role: user.role as UserRole },
+      "import"
+    );
     if (!rateLimitResult.allowed) {
       return createRateLimitResponse(rateLimitResult);
     }
@@ -389,7 +393,7 @@ export async function GET() {
     },
     limits: {
       maxEntries: 500,
-      rateLimit: "5 imports per hour",
+      rateLimit: "5 imports per hour (20 for superadmins, configurable in Rate Limit Settings)",
     },
   });
 }
@@ -18,9 +18,10 @@ import { headers } from "next/headers";
 import { NextResponse } from "next/server";
 import { hasRole } from "@/collections/Users";
 import {
-  checkRateLimit,
+  checkPolicyRateLimit,
   createRateLimitResponse,
 } from "@/lib/rate-limiter";
+import type { UserRole } from "@/lib/roles";
 
 export async function POST(request: Request) {
   try {
@@ -52,7 +53,10 @@ export async function POST(request: Request) {
     }
 
     // Check rate limit
-    const rateLimitResult = await checkRateLimit(user.id, "bulk");
+    const rateLimitResult = await checkPolicyRateLimit(
+      { id: user.id, role: user.role as UserRole },
+      "bulk"
+    );
     if (!rateLimitResult.allowed) {
       return createRateLimitResponse(rateLimitResult);
     }
@@ -13,9 +13,10 @@ import { headers } from "next/headers";
 import { NextResponse } from "next/server";
 import { hasRole } from "@/collections/Users";
 import {
-  checkRateLimit,
+  checkPolicyRateLimit,
   createRateLimitResponse,
 } from "@/lib/rate-limiter";
+import type { UserRole } from "@/lib/roles";
 
 export async function GET(request: Request) {
   try {
@@ -49,7 +50,10 @@ export async function GET(request: Request) {
     }
 
     // Check rate limit
-    const rateLimitResult = await checkRateLimit(user.id, "queue");
+    const rateLimitResult = await checkPolicyRateLimit(
+      { id: user.id, role: user.role as UserRole },
+      "queue"
+    );
     if (!rateLimitResult.allowed) {
       return createRateLimitResponse(rateLimitResult);
     }
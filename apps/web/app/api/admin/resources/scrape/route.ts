@@ -19,9 +19,10 @@ import { NextResponse } from "next/server";
 import { scrapeUrl, mapSite, searchWeb } from "@/lib/firecrawl";
 import { hasRole } from "@/collections/Users";
 import {
-  checkRateLimit,
+  checkPolicyRateLimit,
   createRateLimitResponse,
 } from "@/lib/rate-limiter";
+import type { UserRole } from "@/lib/roles";
 
 export async function POST(request: Request) {
   try {
@@ -55,7 +56,10 @@ export async function POST(request: Request) {
     }
 
     // Check rate limit
-    const rateLimitResult = await checkRateLimit(user.id, "scrape");
+    const rateLimitResult = await checkPolicyRateLimit(
+      { id: user.id, role: user.role as UserRole },
+      "scrape"
+    );
     if (!rateLimitResult.allowed) {
       return createRateLimitResponse(rateLimitResult);
     }
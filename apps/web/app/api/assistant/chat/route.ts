@@ -3,6 +3,14 @@ import type { Message } from "@/lib/claude";
 import { getRAGContext } from "@/lib/rag";
 import { getSession } from "@/lib/auth";
 import { getUserApiKey, logApiUsage } from "@/lib/get-user-api-key";
+import {
+  buildToolInstructions,
+  executeAssistantTool,
+  getAssistantToolLabel,
+  getAssistantTools,
+  MAX_TOOL_ITERATIONS,
+} from "@/lib/assistant-tools";
+import { recordFaqQuery } from "@/lib/faq-mining";
 import Anthropic from "@anthropic-ai/sdk";
 
 export const runtime = "nodejs";
@@ -96,6 +104,11 @@ export async function POST(request: Request) {
       .filter((m) => m.role === "user")
       .pop()?.content || "";
 
+    // Conversation openers feed FAQ mining; Ask AI prompts are generated, not asked
+    if (messages.length === 1 && !aiContext) {
+      void recordFaqQuery({ query: latestUserMessage, source: "assistant", userId });
+    }
+
     // Search documentation for relevant context with AI context for better ranking
     const ragContext = getRAGContext(latestUserMessage, 3, aiContext);
 
@@ -109,21 +122,15 @@ export async function POST(request: Request) {
       userName,
       shouldAskForName,
       userContext,
-    });
+    }) + buildToolInstructions(userId);
 
     // Convert messages to Anthropic format
-    const anthropicMessages = messages.map((msg) => ({
+    const anthropicMessages: Anthropic.MessageParam[] = messages.map((msg) => ({
       role: msg.role as "user" | "assistant",
       content: msg.content,
     }));
 
-    // Create streaming response
-    const stream = await anthropic.messages.stream({
-      model,
-      max_tokens: 2048,
-      system: systemPrompt,
-      messages: anthropicMessages,
-    });
+    const tools = getAssistantTools(userId);
 
     // Create a readable stream for the response
     const encoder = new TextEncoder();
@@ -134,20 +141,33 @@ export async function POST(request: Request) {
         let lastActivityTime = Date.now();
         let timeoutId: NodeJS.Timeout | null = null;
         let isTimedOut = false;
+        let closed = false;
+        // Cancels the in-flight model request when the stream times out
+        const abortController = new AbortController();
+
+        // The controller throws once closed, so every write goes through these
+        const send = (data: Record<string, unknown>) => {
+          if (closed) return;
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+        };
+        const close = () => {
+          if (closed) return;
+          closed = true;
+          if (timeoutId) clearTimeout(timeoutId);
+          controller.close();
+        };
 
         // Setup timeout checker
         const checkTimeout = () => {
+          if (closed) return;
           if (Date.now() - lastActivityTime > STREAM_TIMEOUT_MS) {
             isTimedOut = true;
-            controller.enqueue(
-              encoder.encode(
-                `data: ${JSON.stringify({
-                  type: "error",
-                  content: "Stream timeout - no data received for 30 seconds",
-                })}\n\n`
-              )
-            );
-            controller.close();
+            send({
+              type: "error",
+              content: "Stream timeout - no data received for 30 seconds",
+            });
+            close();
+            abortController.abort();
           } else {
             timeoutId = setTimeout(checkTimeout, 5000); // Check every 5 seconds
           }
@@ -155,37 +175,86 @@ export async function POST(request: Request) {
         timeoutId = setTimeout(checkTimeout, STREAM_TIMEOUT_MS);
 
         try {
-          for await (const event of stream) {
-            // Check if we've timed out
-            if (isTimedOut) break;
-
-            // Update last activity time
-            lastActivityTime = Date.now();
-
-            if (
-              event.type === "content_block_delta" &&
-              event.delta.type === "text_delta"
-            ) {
-              const text = event.delta.text;
-              // Send as Server-Sent Event format
-              const data = JSON.stringify({ type: "text", content: text });
-              controller.enqueue(encoder.encode(`data: ${data}\n\n`));
-            }
+          // Tool-use loop: stream each turn, run any requested tools and
+          // continue until the model answers or runs out of iterations
+          for (let iteration = 0; iteration <= MAX_TOOL_ITERATIONS; iteration++) {
+            const stream = anthropic.messages.stream({
+              model,
+              max_tokens: 2048,
+              system: systemPrompt,
+              messages: anthropicMessages,
+              tools,
+              // Last iteration can't call tools so the model must answer
+              ...(iteration === MAX_TOOL_ITERATIONS ? { tool_choice: { type: "none" as const } } : {}),
+            }, { signal: abortController.signal });
+
+            for await (const event of stream) {
+              // Check if we've timed out
+              if (isTimedOut) break;
+
+              // Update last activity time
+              lastActivityTime = Date.now();
 
-            // Capture usage info from message_delta events
-            if (event.type === "message_delta" && event.usage) {
-              outputTokens = event.usage.output_tokens;
+              if (
+                event.type === "content_block_delta" &&
+                event.delta.type === "text_delta"
+              ) {
+                // Send as Server-Sent Event format
+                send({ type: "text", content: event.delta.text });
+              }
+
+              // Show tool calls as soon as the model starts them
+              if (
+                event.type === "content_block_start" &&
+                event.content_block.type === "tool_use"
+              ) {
+                send({
+                  type: "tool_use",
+                  id: event.content_block.id,
+                  name: event.content_block.name,
+                  label: getAssistantToolLabel(event.content_block.name),
+                });
+              }
             }
-          }
+            if (isTimedOut) return;
 
-          // Clear timeout on successful completion
-          if (timeoutId) clearTimeout(timeoutId);
+            // Accumulate usage across iterations
+            const finalMessage = await stream.finalMessage();
+            inputTokens += finalMessage.usage.input_tokens;
+            outputTokens += finalMessage.usage.output_tokens;
+
+            if (finalMessage.stop_reason !== "tool_use") break;
 
-          // Get final usage from stream
-          const finalMessage = await stream.finalMessage();
-          if (finalMessage.usage) {
-            inputTokens = finalMessage.usage.input_tokens;
-            outputTokens = finalMessage.usage.output_tokens;
+            const toolResults: Anthropic.ToolResultBlockParam[] = [];
+            for (const block of finalMessage.content) {
+              if (block.type !== "tool_use") continue;
+
+              const result = await executeAssistantTool(block.name, block.input, {
+                userId,
+                aiContext,
+              });
+              if (isTimedOut) return;
+              lastActivityTime = Date.now();
+
+              send({
+                type: "tool_result",
+                id: block.id,
+                name: block.name,
+                summary: result.summary,
+                isError: result.isError === true,
+              });
+              toolResults.push({
+                type: "tool_result",
+                tool_use_id: block.id,
+                content: result.content,
+                is_error: result.isError,
+              });
+            }
+
+            anthropicMessages.push(
+              { role: "assistant", content: finalMessage.content },
+              { role: "user", content: toolResults }
+            );
           }
 
           // Log usage if user is using their own API key
@@ -201,27 +270,21 @@ export async function POST(request: Request) {
           }
 
           // Send completion event with usage info
-          controller.enqueue(
-            encoder.encode(`data: ${JSON.stringify({
-              type: "done",
-              usage: { inputTokens, outputTokens },
-              model,
-              usingOwnKey: apiKeyResult.isUserKey,
-            })}\n\n`)
-          );
-          controller.close();
+          send({
+            type: "done",
+            usage: { inputTokens, outputTokens },
+            model,
+            usingOwnKey: apiKeyResult.isUserKey,
+          });
+          close();
         } catch (error) {
-          // Clear timeout on error
-          if (timeoutId) clearTimeout(timeoutId);
+          // The timeout already reported the aborted request
+          if (isTimedOut) return;
 
           const errorMessage =
             error instanceof Error ? error.message : "Unknown error";
-          controller.enqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({ type: "error", content: errorMessage })}\n\n`
-            )
-          );
-          controller.close();
+          send({ type: "error", content: errorMessage });
+          close();
         }
       },
     });
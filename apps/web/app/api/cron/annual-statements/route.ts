@@ -0,0 +1,82 @@
+/**
+ * Annual Donation Statements Cron Job
+ *
+ * GET /api/cron/annual-statements
+ *
+ * Queues a consolidated statement for every donor with completed donations
+ * in the previous year. The donation_annual_statement job generates it and
+ * emails the donor; jobs are keyed per donor and year, so re-running is
+ * safe. Configured in vercel.json.
+ *
+ * Schedule: January 2 at 6 AM UTC
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getDonationSettings, getDonorIdsForYear } from "@/lib/donations/server";
+import { queueAnnualStatement } from "@/lib/job-queue";
+
+export const maxDuration = 60;
+
+// Vercel cron secret for authentication
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret
+    const authHeader = request.headers.get("authorization");
+    const providedSecret = authHeader?.replace("Bearer ", "");
+
+    if (!CRON_SECRET || providedSecret !== CRON_SECRET) {
+      console.warn("Unauthorized cron request attempted");
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const settings = await getDonationSettings();
+    if (!settings.tax_receipts_enabled) {
+      return NextResponse.json({
+        success: true,
+        message: "Tax receipts are disabled",
+        queued: 0,
+      });
+    }
+
+    // Manual runs may pass ?year=; defaults to last year
+    const yearParam = new URL(request.url).searchParams.get("year");
+    const year = yearParam ? parseInt(yearParam) : new Date().getUTCFullYear() - 1;
+    if (!Number.isInteger(year) || year >= new Date().getUTCFullYear()) {
+      return NextResponse.json(
+        { error: "year must be a completed year" },
+        { status: 400 }
+      );
+    }
+
+    const donorIds = await getDonorIdsForYear(year);
+    for (const userId of donorIds) {
+      await queueAnnualStatement(userId, year);
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Queued ${donorIds.length} statements for ${year}`,
+      year,
+      queued: donorIds.length,
+    });
+  } catch (error) {
+    console.error("Annual statements cron failed:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering from admin
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -9,6 +9,7 @@
  * - Clean up expired verification sessions (> 10 minutes old, not completed)
  * - Mark inactive devices (> 90 days since last seen)
  * - Remove orphaned sessions from deleted users
+ * - Delete expired message attachments and uploads never sent (> 24 hours)
  *
  * @example
  * POST /api/cron/e2ee-cleanup
@@ -17,6 +18,7 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/server";
+import { deleteMessageAttachments } from "@/lib/storage";
 
 // Verify cron secret to prevent unauthorized calls
  
@@ -26,12 +28,14 @@ const CRON_SECRET = process.env.CRON_SECRET;
 const PREKEY_EXPIRY_DAYS = 30;
 const DEVICE_INACTIVE_DAYS = 90;
 const VERIFICATION_EXPIRY_MINUTES = 10;
+const UNSENT_ATTACHMENT_EXPIRY_HOURS = 24;
 
 interface CleanupResult {
   expiredPrekeys: number;
   expiredVerifications: number;
   inactiveDevices: number;
   orphanedSessions: number;
+  expiredAttachments: number;
 }
 
 export async function POST(request: NextRequest) {
@@ -50,6 +54,7 @@ export async function POST(request: NextRequest) {
       expiredVerifications: 0,
       inactiveDevices: 0,
       orphanedSessions: 0,
+      expiredAttachments: 0,
     };
 
     // 1. Remove expired unclaimed one-time prekeys (> 30 days old)
@@ -119,6 +124,50 @@ export async function POST(request: NextRequest) {
       results.orphanedSessions = orphanedDevices || 0;
     }
 
+    // 5. Delete expired attachments and uploads whose message was never sent
+    const unsentExpiryDate = new Date(
+      now.getTime() - UNSENT_ATTACHMENT_EXPIRY_HOURS * 60 * 60 * 1000
+    ).toISOString();
+
+    const { data: expiredAttachments, error: attachmentError } = await supabase
+      .from("dm_message_attachments")
+      .select("id, storage_path, thumbnail_path")
+      .or(
+        `expires_at.lt.${now.toISOString()},and(message_id.is.null,created_at.lt.${unsentExpiryDate})`
+      )
+      .limit(1000);
+
+    if (attachmentError) {
+      console.error("[E2EE Cleanup] Error finding expired attachments:", attachmentError);
+    } else if (expiredAttachments && expiredAttachments.length > 0) {
+      const rows = expiredAttachments as Array<{
+        id: string;
+        storage_path: string;
+        thumbnail_path: string | null;
+      }>;
+      const paths = rows.flatMap((row) =>
+        row.thumbnail_path ? [row.storage_path, row.thumbnail_path] : [row.storage_path]
+      );
+
+      // Only forget the rows once the blobs are gone
+      const removed = await deleteMessageAttachments(paths);
+      if (removed.success) {
+        const { error: deleteError } = await supabase
+          .from("dm_message_attachments")
+          .delete()
+          .in(
+            "id",
+            rows.map((row) => row.id)
+          );
+
+        if (deleteError) {
+          console.error("[E2EE Cleanup] Error deleting attachment rows:", deleteError);
+        } else {
+          results.expiredAttachments = rows.length;
+        }
+      }
+    }
+
     console.log("[E2EE Cleanup] Completed:", results);
 
     return NextResponse.json({
@@ -142,12 +191,14 @@ export async function POST(request: NextRequest) {
 export async function GET() {
   return NextResponse.json({
     name: "E2EE Session Cleanup",
-    description: "Cleans up stale E2EE sessions, expired prekeys, and inactive devices",
+    description:
+      "Cleans up stale E2EE sessions, expired prekeys, inactive devices, and expired message attachments",
     schedule: "Daily at 3:00 AM UTC (recommended)",
     thresholds: {
       prekeyExpiryDays: PREKEY_EXPIRY_DAYS,
       deviceInactiveDays: DEVICE_INACTIVE_DAYS,
       verificationExpiryMinutes: VERIFICATION_EXPIRY_MINUTES,
+      unsentAttachmentExpiryHours: UNSENT_ATTACHMENT_EXPIRY_HOURS,
     },
     usage: {
       method: "POST",
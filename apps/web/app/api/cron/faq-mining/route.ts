@@ -0,0 +1,62 @@
+/**
+ * FAQ Mining Cron Job
+ *
+ * GET /api/cron/faq-mining
+ *
+ * Drafts FAQ entries for the most-asked question clusters recorded from the
+ * assistant, AI search and site search (lib/faq-mining.ts). Drafts appear
+ * in the /dashboard/faq-analytics review queue. Configured in vercel.json.
+ *
+ * Schedule: Daily at 5 AM UTC
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { draftFaqsFromPopularQueries } from "@/lib/faq-mining";
+
+export const maxDuration = 120;
+
+// Maximum drafts per cron run (each is one Claude call)
+const MAX_DRAFTS_PER_RUN = 10;
+
+// Vercel cron secret for authentication
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret
+    const authHeader = request.headers.get("authorization");
+    const providedSecret = authHeader?.replace("Bearer ", "");
+
+    if (!CRON_SECRET || providedSecret !== CRON_SECRET) {
+      console.warn("Unauthorized cron request attempted");
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const startTime = Date.now();
+    const result = await draftFaqsFromPopularQueries(MAX_DRAFTS_PER_RUN);
+
+    return NextResponse.json({
+      success: true,
+      message: `Drafted ${result.drafted} FAQs (${result.skipped} skipped, ${result.failed} errors)`,
+      ...result,
+      duration: Date.now() - startTime,
+    });
+  } catch (error) {
+    console.error("FAQ mining cron failed:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering from admin
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
@@ -0,0 +1,57 @@
+/**
+ * Leaderboard Archive Cron Job
+ *
+ * GET /api/cron/leaderboards
+ *
+ * Archives the final standings of last week, last month and every season
+ * that has ended into leaderboard_results. Archiving a period twice is a
+ * no-op, so the daily run is safe to repeat. Configured in vercel.json.
+ *
+ * Schedule: Daily at 12:10 AM UTC
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { archiveCompletedLeaderboards } from "@/lib/leaderboards";
+
+export const maxDuration = 60;
+
+// Vercel cron secret for authentication
+const CRON_SECRET = process.env.CRON_SECRET;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Verify cron secret
+    const authHeader = request.headers.get("authorization");
+    const providedSecret = authHeader?.replace("Bearer ", "");
+
+    if (!CRON_SECRET || providedSecret !== CRON_SECRET) {
+      console.warn("Unauthorized cron request attempted");
+      return NextResponse.json(
+        { error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const archived = await archiveCompletedLeaderboards();
+
+    return NextResponse.json({
+      success: true,
+      message: `Archived ${archived.weekly}, ${archived.monthly} and ${archived.seasons.length} seasons`,
+      ...archived,
+    });
+  } catch (error) {
+    console.error("Leaderboard archive cron failed:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Also support POST for manual triggering from admin
+export async function POST(request: NextRequest) {
+  return GET(request);
+}
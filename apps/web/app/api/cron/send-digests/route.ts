@@ -3,6 +3,8 @@
  *
  * Sends activity digest emails to users based on their frequency preference.
  * Should be called by a cron job:
+ * - Hourly, to deliver queued notification digests (batched types and
+ *   notifications held back by quiet hours; see lib/notification-digests.ts)
  * - Daily at 9 AM UTC
  * - Weekly on Mondays at 9 AM UTC
  * - Monthly on the 1st at 9 AM UTC
@@ -10,19 +12,20 @@
  * @example
  * POST /api/cron/send-digests
  * Headers: { "Authorization": "Bearer <CRON_SECRET>" }
- * Body: { "frequency": "daily" | "weekly" | "monthly" }
+ * Body: { "frequency": "hourly" | "daily" | "weekly" | "monthly" }
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { createAdminClient } from "@/lib/supabase/server";
-import { sendDigestEmail, type DigestEmailParams } from "@/lib/email";
+import { sendDigestEmail } from "@/lib/email";
+import { buildDigestSummary, deliverDueDigests } from "@/lib/notification-digests";
 
 // Verify cron secret to prevent unauthorized calls
  
 const CRON_SECRET = process.env.CRON_SECRET;
 
 interface DigestRequest {
-  frequency: "daily" | "weekly" | "monthly";
+  frequency: "hourly" | "daily" | "weekly" | "monthly";
 }
 
 export async function POST(request: NextRequest) {
@@ -36,13 +39,22 @@ export async function POST(request: NextRequest) {
     const body = (await request.json()) as DigestRequest;
     const { frequency } = body;
 
-    if (!["daily", "weekly", "monthly"].includes(frequency)) {
+    if (!["hourly", "daily", "weekly", "monthly"].includes(frequency)) {
       return NextResponse.json(
-        { error: "Invalid frequency. Must be daily, weekly, or monthly." },
+        { error: "Invalid frequency. Must be hourly, daily, weekly, or monthly." },
         { status: 400 }
       );
     }
 
+    // Hourly runs deliver the notification digest queue
+    if (frequency === "hourly") {
+      const result = await deliverDueDigests();
+      console.log(
+        `[Digest] Queue: ${result.delivered} delivered, ${result.deferred} deferred, ${result.failed} failed (${result.users} users)`
+      );
+      return NextResponse.json({ success: true, frequency, ...result });
+    }
+
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const supabase = (await createAdminClient()) as any;
 
@@ -112,48 +124,7 @@ export async function POST(request: NextRequest) {
           .order("created_at", { ascending: false })
           .limit(50);
 
-        // Calculate stats
-        const stats = {
-          newComments: 0,
-          newReplies: 0,
-          newFollowers: 0,
-          newMentions: 0,
-          suggestionsUpdated: 0,
-        };
-
-        const highlights: DigestEmailParams["highlights"] = [];
-
-        for (const notif of notifications || []) {
-          switch (notif.type) {
-            case "comment":
-              stats.newComments++;
-              break;
-            case "reply":
-              stats.newReplies++;
-              break;
-            case "follow":
-              stats.newFollowers++;
-              break;
-            case "mention":
-              stats.newMentions++;
-              break;
-            case "suggestion_approved":
-            case "suggestion_rejected":
-            case "suggestion_merged":
-              stats.suggestionsUpdated++;
-              break;
-          }
-
-          // Add to highlights (first 5)
-          if (highlights.length < 5) {
-            highlights.push({
-              type: mapNotificationType(notif.type),
-              title: notif.title,
-              message: notif.message || "",
-              timestamp: notif.created_at,
-            });
-          }
-        }
+        const { stats, highlights } = buildDigestSummary(notifications || []);
 
         // Skip if no activity
         const totalActivity =
@@ -210,7 +181,7 @@ export async function POST(request: NextRequest) {
 function formatPeriod(
   start: Date,
   end: Date,
-  frequency: "daily" | "weekly" | "monthly"
+  frequency: DigestRequest["frequency"]
 ): string {
   const options: Intl.DateTimeFormatOptions = {
     month: "short",
@@ -230,37 +201,11 @@ function formatPeriod(
   return `${startStr} - ${endStr}`;
 }
 
-/**
- * Map notification type to digest highlight type
- */
-function mapNotificationType(
-  type: string
-): DigestEmailParams["highlights"][0]["type"] {
-  switch (type) {
-    case "comment":
-      return "comment";
-    case "reply":
-      return "reply";
-    case "follow":
-      return "follow";
-    case "mention":
-      return "mention";
-    case "suggestion_approved":
-    case "suggestion_rejected":
-    case "suggestion_merged":
-      return "suggestion";
-    default:
-      return "comment";
-  }
-}
-
 // Also support GET for Vercel Cron
 export async function GET(request: NextRequest) {
   // Get frequency from query params for Vercel cron
   const frequency = request.nextUrl.searchParams.get("frequency") as
-    | "daily"
-    | "weekly"
-    | "monthly"
+    | DigestRequest["frequency"]
     | null;
 
   if (!frequency) {
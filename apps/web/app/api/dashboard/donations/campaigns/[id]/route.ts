@@ -0,0 +1,94 @@
+/**
+ * Admin Donation Campaign API
+ *
+ * PATCH /api/dashboard/donations/campaigns/[id]
+ *   Updates a campaign's title, description, target_amount, ends_at,
+ *   is_active or is_featured. Pass ends_at: null to remove the deadline.
+ *   Currency and slug are fixed once donations may reference them.
+ *
+ * Requires admin or superadmin role.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { hasMinRole, type UserRole } from '@/lib/roles';
+import { getCampaignById, updateCampaign } from '@/lib/donations/server';
+
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Auth check
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Role check
+    const userRole = session.user.role as UserRole;
+    if (!hasMinRole(userRole, 'admin')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const { id } = await params;
+    const campaign = await getCampaignById(id);
+    if (!campaign) {
+      return NextResponse.json({ error: 'Campaign not found' }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const updates: Parameters<typeof updateCampaign>[1] = {};
+
+    if (body.title !== undefined) {
+      if (typeof body.title !== 'string' || !body.title.trim()) {
+        return NextResponse.json({ error: 'title cannot be empty' }, { status: 400 });
+      }
+      updates.title = body.title.trim();
+    }
+
+    if (body.description !== undefined) {
+      updates.description = typeof body.description === 'string' ? body.description.trim() : null;
+    }
+
+    if (body.target_amount !== undefined) {
+      if (typeof body.target_amount !== 'number' || body.target_amount <= 0) {
+        return NextResponse.json(
+          { error: 'target_amount must be a positive number' },
+          { status: 400 }
+        );
+      }
+      updates.target_amount = body.target_amount;
+    }
+
+    if (body.ends_at !== undefined) {
+      const endsAt = body.ends_at ? new Date(body.ends_at) : null;
+      if (endsAt && (isNaN(endsAt.getTime()) || endsAt <= new Date(campaign.starts_at))) {
+        return NextResponse.json(
+          { error: 'The deadline must be a date after the start date' },
+          { status: 400 }
+        );
+      }
+      updates.ends_at = endsAt?.toISOString() ?? null;
+    }
+
+    for (const flag of ['is_active', 'is_featured'] as const) {
+      if (body[flag] !== undefined) {
+        updates[flag] = body[flag] === true;
+      }
+    }
+
+    const updated = await updateCampaign(id, updates);
+
+    console.log(`[Admin] Updated donation campaign ${campaign.slug}`);
+
+    return NextResponse.json({ success: true, campaign: updated });
+  } catch (error) {
+    console.error('Update campaign error:', error);
+    return NextResponse.json(
+      { error: 'Failed to update campaign' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Admin Donation Campaigns API
+ *
+ * GET /api/dashboard/donations/campaigns
+ *   Returns every campaign with its totals.
+ *
+ * POST /api/dashboard/donations/campaigns
+ *   Creates a campaign: slug, title, target_amount, and optionally
+ *   description, currency, starts_at, ends_at (deadline) and is_featured.
+ *
+ * Requires admin or superadmin role.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { pool } from '@/lib/db';
+import { hasMinRole, type UserRole } from '@/lib/roles';
+import { createCampaign, getCampaignStats } from '@/lib/donations/server';
+
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+export async function GET() {
+  try {
+    // Auth check
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Role check
+    const userRole = session.user.role as UserRole;
+    if (!hasMinRole(userRole, 'admin')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const campaigns = await getCampaignStats();
+    return NextResponse.json({ campaigns });
+  } catch (error) {
+    console.error('Campaign stats error:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch campaigns' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Auth check
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Role check
+    const userRole = session.user.role as UserRole;
+    if (!hasMinRole(userRole, 'admin')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { slug, title, description, target_amount, starts_at, ends_at, is_featured } = body;
+    const currency = typeof body.currency === 'string' ? body.currency.toUpperCase() : 'USD';
+
+    if (typeof slug !== 'string' || !SLUG_PATTERN.test(slug) || slug.length > 100) {
+      return NextResponse.json(
+        { error: 'slug must contain only lowercase letters, numbers and dashes' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof title !== 'string' || !title.trim()) {
+      return NextResponse.json({ error: 'title is required' }, { status: 400 });
+    }
+
+    if (typeof target_amount !== 'number' || target_amount <= 0) {
+      return NextResponse.json(
+        { error: 'target_amount must be a positive number' },
+        { status: 400 }
+      );
+    }
+
+    if (!CURRENCY_PATTERN.test(currency)) {
+      return NextResponse.json(
+        { error: 'currency must be a 3-letter ISO code' },
+        { status: 400 }
+      );
+    }
+
+    const startsAt = starts_at ? new Date(starts_at) : new Date();
+    const endsAt = ends_at ? new Date(ends_at) : null;
+    if (isNaN(startsAt.getTime()) || (endsAt && isNaN(endsAt.getTime()))) {
+      return NextResponse.json({ error: 'Invalid date' }, { status: 400 });
+    }
+    if (endsAt && endsAt <= startsAt) {
+      return NextResponse.json(
+        { error: 'The deadline must be after the start date' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await pool.query('SELECT 1 FROM donation_campaigns WHERE slug = $1', [slug]);
+    if (existing.rowCount) {
+      return NextResponse.json(
+        { error: 'A campaign with this slug already exists' },
+        { status: 409 }
+      );
+    }
+
+    const campaign = await createCampaign(
+      {
+        slug,
+        title: title.trim(),
+        description: typeof description === 'string' ? description.trim() : null,
+        target_amount,
+        currency,
+        starts_at: startsAt.toISOString(),
+        ends_at: endsAt?.toISOString() ?? null,
+        is_featured: is_featured === true,
+      },
+      session.user.id
+    );
+
+    console.log(`[Admin] Created donation campaign ${campaign.slug}`);
+
+    return NextResponse.json({ success: true, campaign }, { status: 201 });
+  } catch (error) {
+    console.error('Create campaign error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create campaign' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Refund Donation API
+ *
+ * POST /api/dashboard/donations/refund
+ *
+ * Allows admins to refund a provider donation, in full or in part.
+ */
+
+import { randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { pool } from '@/lib/db';
+import { hasMinRole, type UserRole } from '@/lib/roles';
+import { getPaymentProvider, isPaymentProviderId } from '@/lib/donations/providers';
+import { getDonationById } from '@/lib/donations/server';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Auth check
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    // Role check
+    const userRole = session.user.role as UserRole;
+    if (!hasMinRole(userRole, 'admin')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { donation_id, amount, reason } = body;
+
+    if (!donation_id) {
+      return NextResponse.json(
+        { error: 'donation_id is required' },
+        { status: 400 }
+      );
+    }
+
+    const donation = await getDonationById(donation_id);
+    if (!donation || donation.status !== 'completed') {
+      return NextResponse.json(
+        { error: 'Donation not found or not completed' },
+        { status: 404 }
+      );
+    }
+
+    if (!isPaymentProviderId(donation.payment_method) || !donation.transaction_id) {
+      return NextResponse.json(
+        { error: 'Only provider payments can be refunded here' },
+        { status: 400 }
+      );
+    }
+
+    const donationAmount = Number(donation.amount);
+    if (amount !== undefined && (typeof amount !== 'number' || amount <= 0 || amount > donationAmount)) {
+      return NextResponse.json(
+        { error: `Refund amount must be between 0 and ${donationAmount}` },
+        { status: 400 }
+      );
+    }
+
+    const provider = getPaymentProvider(donation.payment_method);
+    const refund = await provider.refund({
+      transactionId: donation.transaction_id,
+      requestId: randomUUID(),
+      isRecurring: donation.is_recurring,
+      amount,
+      currency: donation.currency,
+      reason,
+    });
+
+    if (refund.status === 'failed') {
+      return NextResponse.json(
+        { error: `${provider.name} refund failed` },
+        { status: 502 }
+      );
+    }
+
+    // Partial refunds keep the donation; the provider webhook confirms pending ones
+    const isFullRefund = amount === undefined || amount === donationAmount;
+    const note = ` ${isFullRefund ? 'Refunded' : `Partially refunded (${amount} ${donation.currency})`} by admin (${refund.refundId}).`;
+
+    const result = await pool.query(
+      `UPDATE donations
+       SET status = CASE WHEN $2 THEN 'refunded' ELSE status END,
+           admin_notes = COALESCE(admin_notes, '') || $3,
+           updated_at = NOW()
+       WHERE id = $1
+       RETURNING id, status`,
+      [donation.id, isFullRefund && refund.status === 'completed', note]
+    );
+
+    return NextResponse.json({
+      success: true,
+      refund_id: refund.refundId,
+      refund_status: refund.status,
+      donation: result.rows[0],
+    });
+  } catch (error) {
+    console.error('Donation refund error:', error);
+    return NextResponse.json(
+      { error: 'Failed to refund donation' },
+      { status: 500 }
+    );
+  }
+}
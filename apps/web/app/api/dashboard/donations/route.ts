@@ -19,6 +19,7 @@ import { pool } from '@/lib/db';
 import { hasMinRole, type UserRole } from '@/lib/roles';
 import { queueDonationThankYou } from '@/lib/job-queue';
 import { notifyAdminsDonation } from '@/lib/admin-notifications';
+import { getReceiptUrl, getStatementUrl } from '@/lib/donations/server';
 
 interface DonationTrend {
   date: string;
@@ -39,6 +40,7 @@ interface RecentDonation {
   created_at: string;
   user_id: string | null;
   user_name: string | null;
+  campaign_title: string | null;
 }
 
 export async function GET(request: NextRequest) {
@@ -151,9 +153,11 @@ export async function GET(request: NextRequest) {
         d.id, d.amount, d.currency, d.payment_method, d.status,
         d.donor_name, d.donor_email, d.is_anonymous, d.message,
         d.created_at, d.user_id,
-        u.name as user_name
+        u.name as user_name,
+        c.title as campaign_title
       FROM donations d
       LEFT JOIN "user" u ON u.id = d.user_id
+      LEFT JOIN donation_campaigns c ON c.id = d.campaign_id
       ORDER BY d.created_at DESC
       LIMIT $1
     `, [limit]);
@@ -224,6 +228,14 @@ export async function GET(request: NextRequest) {
         donor_email: d.donor_email,
         is_anonymous: d.is_anonymous,
         message: d.message,
+        user_id: d.user_id,
+        campaign_title: d.campaign_title,
+        receipt_url: d.status === 'completed' ? getReceiptUrl(d.id) : null,
+        // Statements exist for completed years only
+        statement_url: d.status === 'completed' && d.user_id
+          && new Date(d.created_at).getFullYear() < new Date().getFullYear()
+          ? `${getStatementUrl(new Date(d.created_at).getFullYear())}?user_id=${encodeURIComponent(d.user_id)}`
+          : null,
         created_at: d.created_at,
       })),
       pending_transfers: pendingTransfersResult.rows,
@@ -9,6 +9,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { pool } from '@/lib/db';
 import { getSession } from '@/lib/auth';
 import { hasMinRole, ROLES, type UserRole } from '@/lib/roles';
+import { emitResourcePublished } from '@/lib/webhooks/server';
 
 export const dynamic = 'force-dynamic';
 
@@ -527,11 +528,21 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
         }
 
         if (updates.length > 0) {
-          await pool.query(`
-            UPDATE resources
+          // The CTE sees the row as it was before the update
+          const updated = await pool.query(`
+            WITH previous AS (SELECT id, is_published FROM resources WHERE id = $1)
+            UPDATE resources r
             SET ${updates.join(', ')}, updated_at = NOW()
-            WHERE id = $1
+            FROM previous p
+            WHERE r.id = p.id
+            RETURNING r.id, r.slug, r.title, r.description, r.category, r.is_published,
+              p.is_published AS was_published
           `, [id, ...values]);
+
+          const resource = updated.rows[0];
+          if (resource?.is_published && !resource.was_published) {
+            await emitResourcePublished(resource);
+          }
         }
 
         return NextResponse.json({ success: true, message: 'Metadata updated' });
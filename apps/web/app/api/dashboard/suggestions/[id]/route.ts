@@ -10,6 +10,7 @@ import { pool } from "@/lib/db";
 import { getSession } from "@/lib/auth";
 import { hasMinRole, ROLES, type UserRole } from "@/lib/roles";
 import { createNotification } from "@/app/actions/notifications";
+import { emitAchievementEvent } from "@/lib/achievement-engine";
 
 interface UpdateSuggestionRequest {
   status: "approved" | "rejected" | "merged";
@@ -82,6 +83,10 @@ export async function PATCH(
       ]
     );
 
+    if (body.status === "approved" || body.status === "merged") {
+      await emitAchievementEvent(existingSuggestion.user_id, "suggestion.approved", id);
+    }
+
     // Create notification for suggestion author
     if (existingSuggestion.user_id !== session.user.id) {
       try {
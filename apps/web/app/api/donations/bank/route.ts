@@ -14,6 +14,7 @@ import { headers } from 'next/headers';
 import {
   getActiveBankInfo,
   getDonationSettings,
+  getOpenCampaign,
   createDonation,
 } from '@/lib/donations/server';
 import type { BankTransferConfirmRequest } from '@/lib/donations/types';
@@ -83,13 +84,14 @@ export async function POST(request: NextRequest) {
     const body: BankTransferConfirmRequest = await request.json();
     const {
       amount,
-      currency = 'USD',
       donor_name,
       donor_email,
       message,
       is_anonymous,
       reference_number,
+      campaign_id,
     } = body;
+    let currency = body.currency || 'USD';
 
     // Validate required fields
     if (!amount || !donor_name || !donor_email) {
@@ -123,6 +125,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Attribute to a campaign, if it is still taking donations
+    if (campaign_id) {
+      const campaign = await getOpenCampaign(campaign_id);
+      if (!campaign) {
+        return NextResponse.json(
+          { error: 'This campaign is no longer accepting donations' },
+          { status: 400 }
+        );
+      }
+      currency = campaign.currency;
+    }
+
     // Get authenticated user if available
     const session = await auth.api.getSession({ headers: await headers() });
     const userId = session?.user?.id || null;
@@ -138,6 +152,7 @@ export async function POST(request: NextRequest) {
       amount,
       currency,
       payment_method: 'bank_transfer',
+      campaign_id: campaign_id || undefined,
       donor_name,
       donor_email,
       is_anonymous: is_anonymous || false,
@@ -0,0 +1,28 @@
+/**
+ * Donation Campaigns API
+ *
+ * GET /api/donations/campaigns
+ *
+ * Returns the campaigns currently taking donations, with their funding
+ * progress. Used by the donate page and the donor wall.
+ */
+
+import { NextResponse } from 'next/server';
+import { getActiveCampaigns } from '@/lib/donations/server';
+
+export async function GET() {
+  try {
+    const campaigns = await getActiveCampaigns();
+
+    return NextResponse.json(
+      { campaigns },
+      { headers: { 'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300' } }
+    );
+  } catch (error) {
+    console.error('Donation campaigns error:', error);
+    return NextResponse.json(
+      { error: 'Failed to retrieve campaigns' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Donation Checkout Completion API
+ *
+ * POST /api/donations/checkout/capture
+ *
+ * Completes a provider checkout after the donor returns: captures the
+ * payment (or confirms the subscription), updates the donation and
+ * triggers receipts, emails and badge updates.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPaymentProvider, isPaymentProviderId } from '@/lib/donations/providers';
+import {
+  getDonationByCheckoutId,
+  getDonationById,
+  recordProviderPayment,
+  getDonorBadge,
+} from '@/lib/donations/server';
+import { onDonationCompleted } from '@/lib/donations/payment-events';
+import type {
+  CompleteCheckoutRequest,
+  CompleteCheckoutResponse,
+  Donation,
+} from '@/lib/donations/types';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Parse request body
+    const body: CompleteCheckoutRequest = await request.json();
+    const { provider: providerId, checkout_id } = body;
+
+    if (!isPaymentProviderId(providerId) || !checkout_id) {
+      return NextResponse.json(
+        { error: 'provider and checkout_id are required' },
+        { status: 400 }
+      );
+    }
+
+    const provider = getPaymentProvider(providerId);
+    if (!provider.isConfigured()) {
+      return NextResponse.json(
+        { error: `${provider.name} is not configured` },
+        { status: 503 }
+      );
+    }
+
+    // Find the pending donation record
+    const donation = await getDonationByCheckoutId(provider.id, checkout_id);
+    if (!donation) {
+      return NextResponse.json(
+        { error: 'Donation not found' },
+        { status: 404 }
+      );
+    }
+
+    // Already completed (e.g. by the webhook) - just report it
+    if (donation.status !== 'pending') {
+      return NextResponse.json(await buildResponse(donation));
+    }
+
+    const result = await provider.completeCheckout(
+      donation.provider_checkout_id || checkout_id,
+      donation.is_recurring
+    );
+
+    // Update donation status with payer info from the provider. Null means
+    // the webhook settled it meanwhile and has already run the side effects.
+    const updatedDonation = await recordProviderPayment(donation.id, provider.id, result);
+    if (!updatedDonation) {
+      const settled = await getDonationById(donation.id);
+      if (!settled) {
+        throw new Error('Failed to update donation status');
+      }
+      return NextResponse.json(await buildResponse(settled, result.nextBillingTime));
+    }
+
+    if (result.status === 'completed') {
+      await onDonationCompleted(updatedDonation, {
+        email: result.payerEmail,
+        name: result.payerName,
+      });
+    }
+
+    return NextResponse.json(await buildResponse(updatedDonation, result.nextBillingTime));
+  } catch (error) {
+    console.error('Donation checkout completion error:', error);
+    return NextResponse.json(
+      { error: 'Failed to complete donation' },
+      { status: 500 }
+    );
+  }
+}
+
+async function buildResponse(
+  donation: Donation,
+  nextBilling?: string
+): Promise<CompleteCheckoutResponse> {
+  // The badge is automatically updated by the database trigger
+  const badge = donation.user_id && donation.status === 'completed'
+    ? await getDonorBadge(donation.user_id)
+    : null;
+
+  return {
+    donation_id: donation.id,
+    status: donation.status,
+    is_recurring: donation.is_recurring,
+    next_billing: nextBilling,
+    badge_tier: badge?.tier,
+  };
+}
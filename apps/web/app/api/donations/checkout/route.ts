@@ -0,0 +1,167 @@
+/**
+ * Donation Checkout API
+ *
+ * POST /api/donations/checkout
+ *
+ * Starts a one-time or recurring donation with a payment provider and
+ * returns the provider's approval URL. The provider is the one requested,
+ * or the default from donation settings. Donations made to a campaign
+ * are taken in the campaign's currency.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { pool } from '@/lib/db';
+import { resolvePaymentProvider } from '@/lib/donations/providers';
+import { createDonation, getDonationSettings, getOpenCampaign } from '@/lib/donations/server';
+import type {
+  CreateCheckoutRequest,
+  CreateCheckoutResponse,
+  RecurringFrequency,
+} from '@/lib/donations/types';
+
+const RECURRING_FREQUENCIES: RecurringFrequency[] = ['monthly', 'quarterly', 'yearly'];
+
+export async function POST(request: NextRequest) {
+  try {
+    const settings = await getDonationSettings();
+
+    // Parse request body
+    const body: CreateCheckoutRequest = await request.json();
+    const { amount, is_recurring, recurring_frequency, message, is_anonymous, campaign_id } = body;
+    let currency = body.currency || 'USD';
+
+    const provider = resolvePaymentProvider(settings, body.provider);
+    if (!provider) {
+      return NextResponse.json(
+        { error: 'This payment method is currently unavailable' },
+        { status: 503 }
+      );
+    }
+
+    // Validate amount
+    if (!amount || amount < settings.minimum_amount) {
+      return NextResponse.json(
+        { error: `Minimum donation amount is $${settings.minimum_amount}` },
+        { status: 400 }
+      );
+    }
+
+    if (amount > settings.maximum_amount) {
+      return NextResponse.json(
+        { error: `Maximum donation amount is $${settings.maximum_amount}` },
+        { status: 400 }
+      );
+    }
+
+    if (is_recurring) {
+      if (!settings.recurring_enabled || !provider.supportsRecurring) {
+        return NextResponse.json(
+          { error: 'Recurring donations are not available' },
+          { status: 400 }
+        );
+      }
+
+      if (!recurring_frequency || !RECURRING_FREQUENCIES.includes(recurring_frequency)) {
+        return NextResponse.json(
+          { error: 'Invalid frequency. Must be monthly, quarterly, or yearly' },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Attribute to a campaign, if it is still taking donations
+    let campaignTitle: string | null = null;
+    if (campaign_id) {
+      const campaign = await getOpenCampaign(campaign_id);
+      if (!campaign) {
+        return NextResponse.json(
+          { error: 'This campaign is no longer accepting donations' },
+          { status: 400 }
+        );
+      }
+      currency = campaign.currency;
+      campaignTitle = campaign.title;
+    }
+
+    // Get authenticated user if available
+    const session = await auth.api.getSession({ headers: await headers() });
+    const userId = session?.user?.id || null;
+
+    // If user is logged in, fetch their email and name from the database
+    let userEmail: string | null = null;
+    let userName: string | null = null;
+    if (userId) {
+      const userResult = await pool.query(
+        `SELECT email, name FROM "user" WHERE id = $1`,
+        [userId]
+      );
+      if (userResult.rows[0]) {
+        userEmail = userResult.rows[0].email;
+        userName = userResult.rows[0].name;
+      }
+    }
+
+    // Get client info for audit trail
+    const forwardedFor = request.headers.get('x-forwarded-for');
+    const ipAddress = forwardedFor?.split(',')[0]?.trim() || request.headers.get('x-real-ip') || null;
+    const userAgent = request.headers.get('user-agent') || null;
+
+    // Build return URLs
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://www.claudeinsider.com';
+    const returnUrl = `${baseUrl}/donate/success?provider=${provider.id}${is_recurring ? '&type=subscription' : ''}`;
+    const cancelUrl = `${baseUrl}/donate?cancelled=true`;
+
+    const checkoutParams = {
+      amount,
+      currency,
+      description: (is_recurring
+        ? `Claude Insider ${recurring_frequency} Donation`
+        : 'Claude Insider Donation') + (campaignTitle ? ` - ${campaignTitle}` : ''),
+      returnUrl,
+      cancelUrl,
+      donorEmail: userEmail || undefined,
+      donorName: userName || undefined,
+    };
+
+    const checkout = is_recurring && recurring_frequency
+      ? await provider.createSubscription({ ...checkoutParams, frequency: recurring_frequency })
+      : await provider.createCheckout(checkoutParams);
+
+    // Create pending donation record in database
+    // Store user's account email/name (will be supplemented with provider info on completion)
+    await createDonation({
+      user_id: userId,
+      amount,
+      currency,
+      payment_method: provider.id,
+      paypal_order_id: provider.id === 'paypal' && !is_recurring ? checkout.checkoutId : undefined,
+      provider_checkout_id: checkout.checkoutId,
+      subscription_id: checkout.subscriptionId,
+      campaign_id: campaign_id || undefined,
+      is_recurring: is_recurring || false,
+      recurring_frequency: is_recurring ? recurring_frequency : undefined,
+      donor_name: is_anonymous ? undefined : (userName || undefined),
+      donor_email: userEmail || undefined,
+      is_anonymous: is_anonymous || false,
+      message: message || undefined,
+      ip_address: ipAddress || undefined,
+      user_agent: userAgent || undefined,
+    });
+
+    const response: CreateCheckoutResponse = {
+      provider: provider.id,
+      checkout_id: checkout.checkoutId,
+      approval_url: checkout.approvalUrl,
+    };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Donation checkout error:', error);
+    return NextResponse.json(
+      { error: 'Failed to start checkout' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,8 +3,8 @@
  *
  * GET /api/donations/me
  *
- * Returns the authenticated user's donation history, badge info,
- * and visibility preferences.
+ * Returns the authenticated user's donation history with receipt links,
+ * annual statements, badge info, and visibility preferences.
  */
 
 import { NextResponse } from 'next/server';
@@ -14,6 +14,10 @@ import {
   getUserDonations,
   getDonorBadge,
   updateDonorBadgeVisibility,
+  getUserAnnualStatements,
+  getUserStatementYears,
+  getReceiptUrl,
+  getStatementUrl,
 } from '@/lib/donations/server';
 import { getAmountToNextTier } from '@/lib/donations/types';
 import { NextRequest } from 'next/server';
@@ -32,9 +36,11 @@ export async function GET() {
     const userId = session.user.id;
 
     // Get user's donations and badge
-    const [donations, badge] = await Promise.all([
+    const [donations, badge, statements, statementYears] = await Promise.all([
       getUserDonations(userId),
       getDonorBadge(userId),
+      getUserAnnualStatements(userId),
+      getUserStatementYears(userId),
     ]);
 
     // Calculate stats
@@ -57,8 +63,14 @@ export async function GET() {
         is_anonymous: d.is_anonymous,
         message: d.message,
         receipt_number: d.receipt_number,
+        receipt_url: d.status === 'completed' ? getReceiptUrl(d.id) : null,
         created_at: d.created_at,
       })),
+      statements: statementYears.map((year) => ({
+        year,
+        statement_number: statements.find((s) => s.year === year)?.statement_number ?? null,
+        url: getStatementUrl(year),
+      })),
       badge: badge
         ? {
             tier: badge.tier,
@@ -0,0 +1,78 @@
+/**
+ * Donation Receipt PDF API
+ *
+ * GET /api/donations/receipts/[donationId]
+ *
+ * Renders the PDF receipt for a completed donation. Available to the
+ * donor and to admins.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { hasMinRole, type UserRole } from '@/lib/roles';
+import {
+  getDonationById,
+  getReceiptByDonationId,
+  createDonationReceipt,
+  getReceiptOrganization,
+  recordReceiptDownload,
+} from '@/lib/donations/server';
+import { renderDonationReceipt } from '@/lib/donations/receipts';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ donationId: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { donationId } = await params;
+    const donation = await getDonationById(donationId);
+
+    const isAdmin = hasMinRole(session.user.role as UserRole, 'admin');
+    if (!donation || (donation.user_id !== session.user.id && !isAdmin)) {
+      return NextResponse.json({ error: 'Donation not found' }, { status: 404 });
+    }
+
+    if (donation.status !== 'completed') {
+      return NextResponse.json(
+        { error: 'Receipts are only available for completed donations' },
+        { status: 400 }
+      );
+    }
+
+    // Issue the receipt now if the background job hasn't yet
+    let receipt = await getReceiptByDonationId(donation.id);
+    if (!receipt) {
+      await createDonationReceipt(donation.id);
+      receipt = await getReceiptByDonationId(donation.id);
+    }
+    if (!receipt) {
+      throw new Error('Failed to issue receipt');
+    }
+
+    const pdf = renderDonationReceipt(donation, receipt, await getReceiptOrganization());
+
+    if (donation.user_id === session.user.id) {
+      await recordReceiptDownload(donation.id);
+    }
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="receipt-${receipt.receipt_number}.pdf"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Receipt download error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate receipt' },
+      { status: 500 }
+    );
+  }
+}
@@ -9,23 +9,30 @@
 
 import { NextResponse } from 'next/server';
 import { getDonationSettings } from '@/lib/donations/server';
-import { isPayPalConfigured } from '@/lib/donations/paypal';
+import {
+  getAvailablePaymentProviders,
+  toPaymentProviderOption,
+} from '@/lib/donations/providers';
 
 export async function GET() {
   try {
     const settings = await getDonationSettings();
 
-    // Check actual PayPal availability
-    const paypalAvailable = isPayPalConfigured() && settings.paypal_enabled;
+    // Providers that are configured and enabled, default first
+    const providers = getAvailablePaymentProviders(settings);
+    const isAvailable = (id: string) => providers.some((provider) => provider.id === id);
 
     return NextResponse.json({
       preset_amounts: settings.preset_amounts,
       minimum_amount: settings.minimum_amount,
       maximum_amount: settings.maximum_amount,
       payment_methods: {
-        paypal: paypalAvailable,
+        paypal: isAvailable('paypal'),
+        stripe: isAvailable('stripe'),
         bank_transfer: settings.bank_transfer_enabled,
       },
+      providers: providers.map(toPaymentProviderOption),
+      default_provider: providers[0]?.id ?? null,
       recurring_enabled: settings.recurring_enabled,
       donor_wall_enabled: settings.donor_wall_enabled,
       badge_thresholds: settings.badge_thresholds,
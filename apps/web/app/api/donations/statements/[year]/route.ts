@@ -0,0 +1,84 @@
+/**
+ * Annual Donation Statement PDF API
+ *
+ * GET /api/donations/statements/[year]
+ *
+ * Renders the signed-in donor's consolidated statement for a past year.
+ * Admins may pass ?user_id= to download a donor's statement.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { pool } from '@/lib/db';
+import { hasMinRole, type UserRole } from '@/lib/roles';
+import {
+  getAnnualStatement,
+  createAnnualStatement,
+  getReceiptOrganization,
+  recordStatementDownload,
+} from '@/lib/donations/server';
+import { renderAnnualStatement } from '@/lib/donations/receipts';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ year: string }> }
+) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+
+    const { year: yearParam } = await params;
+    const year = parseInt(yearParam);
+    if (!Number.isInteger(year) || year < 2000 || year >= new Date().getFullYear()) {
+      return NextResponse.json(
+        { error: 'Statements are available for completed years only' },
+        { status: 400 }
+      );
+    }
+
+    const requestedUserId = new URL(request.url).searchParams.get('user_id');
+    const isAdmin = hasMinRole(session.user.role as UserRole, 'admin');
+    if (requestedUserId && requestedUserId !== session.user.id && !isAdmin) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    const userId = requestedUserId || session.user.id;
+
+    // Normally generated in January; create it now if it's missing
+    const statement = (await getAnnualStatement(userId, year)) ?? (await createAnnualStatement(userId, year));
+    if (!statement) {
+      return NextResponse.json(
+        { error: `No completed donations in ${year}` },
+        { status: 404 }
+      );
+    }
+
+    const donorResult = await pool.query(
+      `SELECT name, email FROM "user" WHERE id = $1`,
+      [userId]
+    );
+    const donor = donorResult.rows[0] || { name: null, email: null };
+
+    const pdf = await renderAnnualStatement(statement, donor, await getReceiptOrganization());
+
+    if (userId === session.user.id) {
+      await recordStatementDownload(statement.id);
+    }
+
+    return new NextResponse(new Uint8Array(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="donation-statement-${year}.pdf"`,
+        'Cache-Control': 'private, no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Statement download error:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate statement' },
+      { status: 500 }
+    );
+  }
+}
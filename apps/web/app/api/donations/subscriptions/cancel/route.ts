@@ -0,0 +1,64 @@
+/**
+ * Cancel Recurring Donation API
+ *
+ * POST /api/donations/subscriptions/cancel
+ *
+ * Lets a donor cancel their recurring donation with its payment provider.
+ * Donation records and badges are updated by the provider's
+ * cancellation webhook.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { headers } from 'next/headers';
+import { pool } from '@/lib/db';
+import { getPaymentProvider, isPaymentProviderId } from '@/lib/donations/providers';
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth.api.getSession({ headers: await headers() });
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { subscription_id, reason } = body;
+
+    if (!subscription_id) {
+      return NextResponse.json(
+        { error: 'subscription_id is required' },
+        { status: 400 }
+      );
+    }
+
+    // Only the donor who started the subscription may cancel it
+    const result = await pool.query(
+      `SELECT payment_method FROM donations
+       WHERE subscription_id = $1 AND user_id = $2 AND is_recurring = TRUE
+       ORDER BY created_at ASC
+       LIMIT 1`,
+      [subscription_id, session.user.id]
+    );
+
+    const paymentMethod = result.rows[0]?.payment_method;
+    if (!isPaymentProviderId(paymentMethod)) {
+      return NextResponse.json(
+        { error: 'Subscription not found' },
+        { status: 404 }
+      );
+    }
+
+    await getPaymentProvider(paymentMethod).cancelSubscription(
+      subscription_id,
+      reason || 'Cancelled by donor'
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Subscription cancellation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel subscription' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Payment Provider Webhook Handler
+ *
+ * POST /api/donations/webhooks/[provider]
+ *
+ * Receives webhook events from any registered payment provider. Events
+ * are verified and normalized by the provider adapter, then applied to
+ * donation records.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isPaymentProviderId } from '@/lib/donations/providers';
+import { handleProviderWebhook } from '@/lib/donations/payment-events';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const { provider } = await params;
+
+  if (!isPaymentProviderId(provider)) {
+    return NextResponse.json({ error: 'Unknown payment provider' }, { status: 404 });
+  }
+
+  return handleProviderWebhook(provider, request);
+}
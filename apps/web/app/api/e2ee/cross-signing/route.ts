@@ -0,0 +1,239 @@
+/**
+ * E2EE Cross-Signing Keys API
+ *
+ * - GET: A user's active cross-signing keys, their devices with self-signing
+ *   signatures, and the caller's own signature on their master key
+ * - POST: Publish (or replace) the caller's cross-signing keys
+ *
+ * Clients check every signature themselves (lib/e2ee/cross-signing.ts); the
+ * server also checks them on upload so obviously broken keys never publish.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { pool } from "@/lib/db";
+import { appendKeyLogEntries } from "@/lib/e2ee/key-log-writer";
+import { crossSigningKeyObject, verifyObjectSignature } from "@/lib/e2ee/signing";
+
+type CrossSigningKeyType = "master" | "self_signing" | "user_signing";
+
+interface UploadedKey {
+  publicKey: string;
+  /** Master key signature (not sent for the master key itself) */
+  signature?: string;
+}
+
+// ============================================================================
+// GET - Fetch a user's cross-signing keys and device signatures
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = request.nextUrl.searchParams.get("userId") || session.user.id;
+
+    const [keysResult, devicesResult, signatureResult, trustResult] = await Promise.all([
+      pool.query<{ key_type: CrossSigningKeyType; public_key: string; signatures: Record<string, string> }>(
+        `SELECT key_type, public_key, signatures
+         FROM e2ee_cross_signing_keys
+         WHERE user_id = $1 AND is_active = TRUE`,
+        [userId]
+      ),
+      pool.query<{
+        device_id: string;
+        identity_key: string;
+        signing_key: string;
+        device_name: string | null;
+        signer_key_id: string | null;
+        signature: string | null;
+      }>(
+        `SELECT d.device_id, d.identity_key, d.signing_key, d.device_name,
+                s.signer_key_id, s.signature
+         FROM device_keys d
+         LEFT JOIN e2ee_device_signatures s
+           ON s.device_key_id = d.id AND s.signer_key_type = 'self_signing'
+         WHERE d.user_id = $1
+         ORDER BY d.last_seen_at DESC`,
+        [userId]
+      ),
+      pool.query<{ signer_key_id: string; target_master_key: string; signature: string }>(
+        `SELECT signer_key_id, target_master_key, signature
+         FROM e2ee_user_signatures
+         WHERE signer_user_id = $1 AND target_user_id = $2
+         ORDER BY created_at DESC
+         LIMIT 1`,
+        [session.user.id, userId]
+      ),
+      pool.query<{ trusted_master_key: string; trust_level: string; verification_method: string | null }>(
+        `SELECT trusted_master_key, trust_level, verification_method
+         FROM e2ee_user_trust
+         WHERE truster_user_id = $1 AND trusted_user_id = $2`,
+        [session.user.id, userId]
+      ),
+    ]);
+
+    const keys: Partial<Record<CrossSigningKeyType, { publicKey: string; signatures: Record<string, string> }>> = {};
+    for (const row of keysResult.rows) {
+      keys[row.key_type] = { publicKey: row.public_key, signatures: row.signatures || {} };
+    }
+
+    // One row per device per self-signing signature
+    const devices = new Map<
+      string,
+      {
+        deviceId: string;
+        identityKey: string;
+        signingKey: string;
+        deviceName: string | null;
+        signatures: Record<string, string>;
+      }
+    >();
+    for (const row of devicesResult.rows) {
+      const device = devices.get(row.device_id) ?? {
+        deviceId: row.device_id,
+        identityKey: row.identity_key,
+        signingKey: row.signing_key,
+        deviceName: row.device_name,
+        signatures: {},
+      };
+      if (row.signer_key_id && row.signature) device.signatures[row.signer_key_id] = row.signature;
+      devices.set(row.device_id, device);
+    }
+
+    const userSignature = signatureResult.rows[0];
+    const trust = trustResult.rows[0];
+
+    return NextResponse.json({
+      userId,
+      master: keys.master ?? null,
+      selfSigning: keys.self_signing ?? null,
+      userSigning: keys.user_signing ?? null,
+      devices: Array.from(devices.values()),
+      userSignature: userSignature
+        ? {
+            signerKeyId: userSignature.signer_key_id,
+            masterKey: userSignature.target_master_key,
+            signature: userSignature.signature,
+          }
+        : null,
+      trust: trust
+        ? {
+            masterKey: trust.trusted_master_key,
+            level: trust.trust_level,
+            method: trust.verification_method,
+          }
+        : null,
+    });
+  } catch (error) {
+    console.error("[E2EE API] Failed to fetch cross-signing keys:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch cross-signing keys" },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================================================
+// POST - Publish cross-signing keys
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const body = await request.json();
+    const { masterKey, selfSigningKey, userSigningKey } = body as {
+      masterKey?: UploadedKey;
+      selfSigningKey?: UploadedKey;
+      userSigningKey?: UploadedKey;
+    };
+
+    if (!masterKey?.publicKey || !selfSigningKey?.publicKey || !userSigningKey?.publicKey) {
+      return NextResponse.json(
+        { error: "Missing required fields: masterKey, selfSigningKey, userSigningKey" },
+        { status: 400 }
+      );
+    }
+
+    // The master key must sign both subkeys
+    const subkeys: Array<[Exclude<CrossSigningKeyType, "master">, UploadedKey]> = [
+      ["self_signing", selfSigningKey],
+      ["user_signing", userSigningKey],
+    ];
+    for (const [usage, key] of subkeys) {
+      const valid =
+        !!key.signature &&
+        (await verifyObjectSignature(
+          masterKey.publicKey,
+          crossSigningKeyObject(userId, usage, key.publicKey),
+          key.signature
+        ));
+      if (!valid) {
+        return NextResponse.json(
+          { error: `Invalid master key signature on ${usage} key` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      await client.query(
+        `UPDATE e2ee_cross_signing_keys
+         SET is_active = FALSE, revoked_at = NOW()
+         WHERE user_id = $1 AND is_active = TRUE`,
+        [userId]
+      );
+
+      const uploads: Array<[CrossSigningKeyType, UploadedKey]> = [["master", masterKey], ...subkeys];
+      for (const [keyType, key] of uploads) {
+        await client.query(
+          `INSERT INTO e2ee_cross_signing_keys (user_id, key_type, public_key, signatures)
+           VALUES ($1, $2, $3, $4)`,
+          [
+            userId,
+            keyType,
+            key.publicKey,
+            JSON.stringify(key.signature ? { [masterKey.publicKey]: key.signature } : {}),
+          ]
+        );
+      }
+
+      await appendKeyLogEntries(
+        client,
+        userId,
+        uploads.map(([keyType, key]) => ({
+          eventType: "cross_signing_key_changed" as const,
+          keyType,
+          keyId: key.publicKey,
+          publicKey: key.publicKey,
+        }))
+      );
+
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[E2EE API] Failed to publish cross-signing keys:", error);
+    return NextResponse.json(
+      { error: "Failed to publish cross-signing keys" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,157 @@
+/**
+ * E2EE Cross-Signing Signatures API
+ *
+ * POST: Upload signatures made with the caller's cross-signing keys:
+ * - deviceSignatures: self-signing key signatures on the caller's own devices
+ * - userSignature: a user-signing key signature on another user's master
+ *   key, made after verifying them
+ *
+ * Each signature is checked against the caller's active key before storing.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { pool } from "@/lib/db";
+import {
+  crossSigningKeyObject,
+  deviceKeysObject,
+  verifyObjectSignature,
+} from "@/lib/e2ee/signing";
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = session.user.id;
+    const body = await request.json();
+    const { deviceSignatures = [], userSignature } = body as {
+      deviceSignatures?: Array<{ deviceId: string; signature: string }>;
+      userSignature?: { userId: string; masterKey: string; signature: string };
+    };
+
+    if (deviceSignatures.length === 0 && !userSignature) {
+      return NextResponse.json({ error: "No signatures provided" }, { status: 400 });
+    }
+
+    const keysResult = await pool.query<{ key_type: string; public_key: string }>(
+      `SELECT key_type, public_key FROM e2ee_cross_signing_keys
+       WHERE user_id = $1 AND is_active = TRUE AND key_type IN ('self_signing', 'user_signing')`,
+      [userId]
+    );
+    const selfSigningKey = keysResult.rows.find((r) => r.key_type === "self_signing")?.public_key;
+    const userSigningKey = keysResult.rows.find((r) => r.key_type === "user_signing")?.public_key;
+
+    if (!selfSigningKey || !userSigningKey) {
+      return NextResponse.json(
+        { error: "Set up cross-signing before uploading signatures" },
+        { status: 409 }
+      );
+    }
+
+    // Own devices, signed with the self-signing key
+    let devicesSigned = 0;
+    for (const { deviceId, signature } of deviceSignatures) {
+      const deviceResult = await pool.query<{ id: string; identity_key: string; signing_key: string }>(
+        `SELECT id, identity_key, signing_key FROM device_keys
+         WHERE user_id = $1 AND device_id = $2`,
+        [userId, deviceId]
+      );
+      const device = deviceResult.rows[0];
+      if (!device) {
+        return NextResponse.json({ error: `Device ${deviceId} not found` }, { status: 404 });
+      }
+
+      const valid = await verifyObjectSignature(
+        selfSigningKey,
+        deviceKeysObject(userId, {
+          deviceId,
+          identityKey: device.identity_key,
+          signingKey: device.signing_key,
+        }),
+        signature
+      );
+      if (!valid) {
+        return NextResponse.json(
+          { error: `Invalid signature for device ${deviceId}` },
+          { status: 400 }
+        );
+      }
+
+      await pool.query(
+        `INSERT INTO e2ee_device_signatures
+           (device_key_id, signer_user_id, signer_key_type, signer_key_id, signature)
+         VALUES ($1, $2, 'self_signing', $3, $4)
+         ON CONFLICT (device_key_id, signer_key_id) DO UPDATE SET
+           signature = EXCLUDED.signature,
+           created_at = NOW()`,
+        [device.id, userId, selfSigningKey, signature]
+      );
+      devicesSigned++;
+    }
+
+    // Another user's master key, signed with the user-signing key
+    if (userSignature) {
+      if (userSignature.userId === userId) {
+        return NextResponse.json({ error: "Cannot sign your own master key" }, { status: 400 });
+      }
+
+      const masterResult = await pool.query<{ public_key: string }>(
+        `SELECT public_key FROM e2ee_cross_signing_keys
+         WHERE user_id = $1 AND key_type = 'master' AND is_active = TRUE`,
+        [userSignature.userId]
+      );
+      if (masterResult.rows[0]?.public_key !== userSignature.masterKey) {
+        return NextResponse.json(
+          { error: "Master key is not the user's current key" },
+          { status: 409 }
+        );
+      }
+
+      const valid = await verifyObjectSignature(
+        userSigningKey,
+        crossSigningKeyObject(userSignature.userId, "master", userSignature.masterKey),
+        userSignature.signature
+      );
+      if (!valid) {
+        return NextResponse.json({ error: "Invalid user signature" }, { status: 400 });
+      }
+
+      await pool.query(
+        `INSERT INTO e2ee_user_signatures
+           (signer_user_id, signer_key_id, target_user_id, target_master_key, signature)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (signer_user_id, target_user_id, target_master_key) DO UPDATE SET
+           signer_key_id = EXCLUDED.signer_key_id,
+           signature = EXCLUDED.signature,
+           created_at = NOW()`,
+        [userId, userSigningKey, userSignature.userId, userSignature.masterKey, userSignature.signature]
+      );
+
+      await pool.query(
+        `INSERT INTO e2ee_user_trust
+           (truster_user_id, trusted_user_id, trusted_master_key, trust_level, verification_method)
+         VALUES ($1, $2, $3, 'verified', 'cross_sign')
+         ON CONFLICT (truster_user_id, trusted_user_id) DO UPDATE SET
+           trusted_master_key = EXCLUDED.trusted_master_key,
+           trust_level = 'verified',
+           updated_at = NOW()`,
+        [userId, userSignature.userId, userSignature.masterKey]
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      devicesSigned,
+      userSigned: !!userSignature,
+    });
+  } catch (error) {
+    console.error("[E2EE API] Failed to upload signatures:", error);
+    return NextResponse.json(
+      { error: "Failed to upload signatures" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * E2EE Key Transparency Log API
+ *
+ * GET /api/e2ee/key-log?userId=...
+ *
+ * Returns a user's full key change chain, oldest first. Clients verify the
+ * hashes themselves (lib/e2ee/key-transparency.ts).
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { pool } from "@/lib/db";
+import { keyLogEntryFromRow, type KeyLogRow } from "@/lib/e2ee/key-transparency";
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const userId = request.nextUrl.searchParams.get("userId");
+    if (!userId) {
+      return NextResponse.json({ error: "userId parameter required" }, { status: 400 });
+    }
+
+    const result = await pool.query<KeyLogRow>(
+      `SELECT user_id, seq, event_type, key_type, key_id, public_key,
+              prev_hash, entry_hash, created_at
+       FROM e2ee_key_log
+       WHERE user_id = $1
+       ORDER BY seq ASC`,
+      [userId]
+    );
+
+    return NextResponse.json({ entries: result.rows.map(keyLogEntryFromRow) });
+  } catch (error) {
+    console.error("[E2EE API] Failed to fetch key log:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch key log" },
+      { status: 500 }
+    );
+  }
+}
@@ -5,11 +5,15 @@
  * - POST: Register new device keys
  * - GET: List user's devices
  * - DELETE: Remove a device
+ *
+ * Key changes are appended to the key transparency log in the same
+ * transaction (lib/e2ee/key-log-writer.ts).
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/auth";
 import { pool } from "@/lib/db";
+import { appendKeyLogEntries, deviceLogPublicKey } from "@/lib/e2ee/key-log-writer";
 
 // ============================================================================
 // POST - Register Device Keys
@@ -50,35 +54,72 @@ export async function POST(request: NextRequest) {
         ? "desktop"
         : "web";
 
-    // Upsert device keys
-    const deviceResult = await pool.query(
-      `INSERT INTO device_keys (
-        user_id, device_id, identity_key, signing_key,
-        signed_prekey, signed_prekey_id, signed_prekey_signature,
-        device_name, device_type
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-      ON CONFLICT (user_id, device_id) DO UPDATE SET
-        identity_key = EXCLUDED.identity_key,
-        signing_key = EXCLUDED.signing_key,
-        signed_prekey = EXCLUDED.signed_prekey,
-        signed_prekey_id = EXCLUDED.signed_prekey_id,
-        signed_prekey_signature = EXCLUDED.signed_prekey_signature,
-        last_seen_at = NOW()
-      RETURNING id`,
-      [
-        session.user.id,
-        deviceId,
-        identityKey,
-        signingKey,
-        signedPrekey || "",
-        signedPrekeyId || 0,
-        signedPrekeySignature || "",
-        deviceName || userAgent.substring(0, 100),
-        deviceType,
-      ]
-    );
+    const client = await pool.connect();
+    let deviceKeyId: string;
+
+    try {
+      await client.query("BEGIN");
+
+      const existing = await client.query<{ identity_key: string; signing_key: string }>(
+        `SELECT identity_key, signing_key FROM device_keys
+         WHERE user_id = $1 AND device_id = $2
+         FOR UPDATE`,
+        [session.user.id, deviceId]
+      );
+      const previous = existing.rows[0];
+
+      // Upsert device keys
+      const deviceResult = await client.query(
+        `INSERT INTO device_keys (
+          user_id, device_id, identity_key, signing_key,
+          signed_prekey, signed_prekey_id, signed_prekey_signature,
+          device_name, device_type
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        ON CONFLICT (user_id, device_id) DO UPDATE SET
+          identity_key = EXCLUDED.identity_key,
+          signing_key = EXCLUDED.signing_key,
+          signed_prekey = EXCLUDED.signed_prekey,
+          signed_prekey_id = EXCLUDED.signed_prekey_id,
+          signed_prekey_signature = EXCLUDED.signed_prekey_signature,
+          last_seen_at = NOW()
+        RETURNING id`,
+        [
+          session.user.id,
+          deviceId,
+          identityKey,
+          signingKey,
+          signedPrekey || "",
+          signedPrekeyId || 0,
+          signedPrekeySignature || "",
+          deviceName || userAgent.substring(0, 100),
+          deviceType,
+        ]
+      );
+
+      deviceKeyId = deviceResult.rows[0].id;
+
+      if (
+        !previous ||
+        previous.identity_key !== identityKey ||
+        previous.signing_key !== signingKey
+      ) {
+        await appendKeyLogEntries(client, session.user.id, [
+          {
+            eventType: previous ? "device_changed" : "device_added",
+            keyType: "device",
+            keyId: deviceId,
+            publicKey: deviceLogPublicKey(identityKey, signingKey),
+          },
+        ]);
+      }
 
-    const deviceKeyId = deviceResult.rows[0].id;
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
 
     // Insert one-time prekeys if provided
     if (oneTimeKeys && Array.isArray(oneTimeKeys) && oneTimeKeys.length > 0) {
@@ -188,19 +229,36 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    // Delete device (cascade deletes prekeys)
-    const result = await pool.query(
-      `DELETE FROM device_keys
-      WHERE user_id = $1 AND device_id = $2
-      RETURNING id`,
-      [session.user.id, deviceId]
-    );
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
 
-    if (result.rowCount === 0) {
-      return NextResponse.json(
-        { error: "Device not found" },
-        { status: 404 }
+      // Delete device (cascade deletes prekeys)
+      const result = await client.query(
+        `DELETE FROM device_keys
+        WHERE user_id = $1 AND device_id = $2
+        RETURNING id`,
+        [session.user.id, deviceId]
       );
+
+      if (result.rowCount === 0) {
+        await client.query("ROLLBACK");
+        return NextResponse.json(
+          { error: "Device not found" },
+          { status: 404 }
+        );
+      }
+
+      await appendKeyLogEntries(client, session.user.id, [
+        { eventType: "device_removed", keyType: "device", keyId: deviceId, publicKey: "" },
+      ]);
+
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
     }
 
     return NextResponse.json({ success: true });
@@ -0,0 +1,153 @@
+/**
+ * E2EE Room Key Backup API
+ *
+ * Megolm sessions encrypted in the browser with the user's room key backup
+ * key (lib/e2ee/key-backup.ts). The server only sees opaque blobs plus the
+ * indexes needed to keep the best copy of each session.
+ *
+ * - GET: Backed up sessions (optionally only those for one key ID)
+ * - POST: Upload sessions
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { pool } from "@/lib/db";
+
+const MAX_SESSIONS_PER_UPLOAD = 200;
+
+interface UploadedRoomKey {
+  conversationId: string;
+  sessionId: string;
+  keyId: string;
+  encryptedSession: string;
+  sessionIv: string;
+  firstKnownIndex: number;
+  forwardedCount: number;
+}
+
+// ============================================================================
+// GET - Fetch backed up sessions
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const keyId = request.nextUrl.searchParams.get("keyId");
+
+    const result = await pool.query(
+      `SELECT conversation_id, session_id, key_id, encrypted_session, session_iv,
+              first_known_index, forwarded_count
+       FROM e2ee_room_key_backup
+       WHERE user_id = $1 AND ($2::TEXT IS NULL OR key_id = $2)
+       ORDER BY updated_at ASC`,
+      [session.user.id, keyId]
+    );
+
+    const keys = result.rows.map((row) => ({
+      conversationId: row.conversation_id,
+      sessionId: row.session_id,
+      keyId: row.key_id,
+      encryptedSession: row.encrypted_session,
+      sessionIv: row.session_iv,
+      firstKnownIndex: row.first_known_index,
+      forwardedCount: row.forwarded_count,
+    }));
+
+    return NextResponse.json({ keys });
+  } catch (error) {
+    console.error("[E2EE API] Failed to fetch room key backup:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch room key backup" },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================================================
+// POST - Upload sessions
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { keys } = body as { keys?: UploadedRoomKey[] };
+
+    if (!Array.isArray(keys) || keys.length === 0) {
+      return NextResponse.json({ error: "No keys provided" }, { status: 400 });
+    }
+
+    if (keys.length > MAX_SESSIONS_PER_UPLOAD) {
+      return NextResponse.json(
+        { error: `At most ${MAX_SESSIONS_PER_UPLOAD} sessions per upload` },
+        { status: 400 }
+      );
+    }
+
+    const invalid = keys.some(
+      (k) => !k.conversationId || !k.sessionId || !k.keyId || !k.encryptedSession || !k.sessionIv
+    );
+    if (invalid) {
+      return NextResponse.json({ error: "Invalid key entry" }, { status: 400 });
+    }
+
+    // Replace a stored copy when it was made with another backup key, or
+    // when the new one decrypts from an earlier message
+    const result = await pool.query(
+      `INSERT INTO e2ee_room_key_backup (
+         user_id, conversation_id, session_id, key_id,
+         encrypted_session, session_iv, first_known_index, forwarded_count
+       )
+       SELECT $1, k.conversation_id, k.session_id, k.key_id,
+              k.encrypted_session, k.session_iv, k.first_known_index, k.forwarded_count
+       FROM jsonb_to_recordset($2::jsonb) AS k(
+         conversation_id UUID, session_id TEXT, key_id TEXT,
+         encrypted_session TEXT, session_iv TEXT,
+         first_known_index INTEGER, forwarded_count INTEGER
+       )
+       WHERE EXISTS (
+         SELECT 1 FROM dm_participants p
+         WHERE p.conversation_id = k.conversation_id AND p.user_id = $1
+       )
+       ON CONFLICT (user_id, session_id) DO UPDATE SET
+         key_id = EXCLUDED.key_id,
+         encrypted_session = EXCLUDED.encrypted_session,
+         session_iv = EXCLUDED.session_iv,
+         first_known_index = EXCLUDED.first_known_index,
+         forwarded_count = EXCLUDED.forwarded_count,
+         updated_at = NOW()
+       WHERE e2ee_room_key_backup.key_id <> EXCLUDED.key_id
+          OR e2ee_room_key_backup.first_known_index > EXCLUDED.first_known_index`,
+      [
+        session.user.id,
+        JSON.stringify(
+          keys.map((k) => ({
+            conversation_id: k.conversationId,
+            session_id: k.sessionId,
+            key_id: k.keyId,
+            encrypted_session: k.encryptedSession,
+            session_iv: k.sessionIv,
+            first_known_index: k.firstKnownIndex ?? 0,
+            forwarded_count: k.forwardedCount ?? 0,
+          }))
+        ),
+      ]
+    );
+
+    return NextResponse.json({ success: true, stored: result.rowCount ?? 0 });
+  } catch (error) {
+    console.error("[E2EE API] Failed to back up room keys:", error);
+    return NextResponse.json(
+      { error: "Failed to back up room keys" },
+      { status: 500 }
+    );
+  }
+}
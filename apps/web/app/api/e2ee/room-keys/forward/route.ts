@@ -0,0 +1,148 @@
+/**
+ * E2EE Room Key Forwarding API
+ *
+ * POST: Answer a room key request with the session key, Olm-encrypted for
+ * the requesting device. It's delivered as a regular session share (claimed
+ * through GET /api/e2ee/sessions) and the request is marked fulfilled.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { pool } from "@/lib/db";
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const {
+      requestId,
+      senderDeviceId,
+      encryptedSessionKey,
+      firstKnownIndex = 0,
+      forwardedCount = 1,
+      sessionCreatedAt,
+    } = body as {
+      requestId?: string;
+      senderDeviceId?: string;
+      encryptedSessionKey?: string;
+      firstKnownIndex?: number;
+      forwardedCount?: number;
+      sessionCreatedAt?: string;
+    };
+
+    if (!requestId || !senderDeviceId || !encryptedSessionKey) {
+      return NextResponse.json(
+        { error: "Missing required fields: requestId, senderDeviceId, encryptedSessionKey" },
+        { status: 400 }
+      );
+    }
+
+    // The share is attributed to this device, so it must be the caller's
+    const deviceResult = await pool.query(
+      `SELECT 1 FROM device_keys WHERE user_id = $1 AND device_id = $2`,
+      [session.user.id, senderDeviceId]
+    );
+    if (deviceResult.rowCount === 0) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      // Still pending, and both sides still in the conversation
+      const requestResult = await client.query<{
+        requester_user_id: string;
+        requester_device_id: string;
+        conversation_id: string;
+        session_id: string;
+      }>(
+        `SELECT r.requester_user_id, r.requester_device_id, r.conversation_id, r.session_id
+         FROM e2ee_room_key_requests r
+         WHERE r.id = $1
+           AND r.status = 'pending'
+           AND EXISTS (
+             SELECT 1 FROM dm_participants p
+             WHERE p.conversation_id = r.conversation_id AND p.user_id = $2
+           )
+           AND EXISTS (
+             SELECT 1 FROM dm_participants p
+             WHERE p.conversation_id = r.conversation_id AND p.user_id = r.requester_user_id
+           )
+         FOR UPDATE`,
+        [requestId, session.user.id]
+      );
+      const keyRequest = requestResult.rows[0];
+      if (!keyRequest) {
+        await client.query("ROLLBACK");
+        return NextResponse.json(
+          { error: "Request not found or already answered" },
+          { status: 404 }
+        );
+      }
+
+      // A better copy replaces an earlier share, and an already claimed one
+      // is delivered again
+      await client.query(
+        `INSERT INTO megolm_session_shares (
+           conversation_id, session_id,
+           sender_user_id, sender_device_id,
+           recipient_user_id, recipient_device_id,
+           encrypted_session_key, first_known_index, forwarded_count, session_created_at
+         ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, COALESCE($10::TIMESTAMPTZ, NOW()))
+         ON CONFLICT (session_id, recipient_device_id) DO UPDATE SET
+           sender_user_id = EXCLUDED.sender_user_id,
+           sender_device_id = EXCLUDED.sender_device_id,
+           encrypted_session_key = EXCLUDED.encrypted_session_key,
+           first_known_index = EXCLUDED.first_known_index,
+           forwarded_count = EXCLUDED.forwarded_count,
+           session_created_at = EXCLUDED.session_created_at,
+           created_at = NOW(),
+           claimed_at = NULL
+         WHERE megolm_session_shares.claimed_at IS NOT NULL
+            OR megolm_session_shares.first_known_index > EXCLUDED.first_known_index`,
+        [
+          keyRequest.conversation_id,
+          keyRequest.session_id,
+          session.user.id,
+          senderDeviceId,
+          keyRequest.requester_user_id,
+          keyRequest.requester_device_id,
+          encryptedSessionKey,
+          firstKnownIndex,
+          forwardedCount,
+          sessionCreatedAt ?? null,
+        ]
+      );
+
+      await client.query(
+        `UPDATE e2ee_room_key_requests
+         SET status = 'fulfilled',
+             fulfilled_by_user_id = $2,
+             fulfilled_by_device_id = $3,
+             fulfilled_at = NOW()
+         WHERE id = $1`,
+        [requestId, session.user.id, senderDeviceId]
+      );
+
+      await client.query("COMMIT");
+    } catch (error) {
+      await client.query("ROLLBACK");
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[E2EE API] Failed to forward room key:", error);
+    return NextResponse.json(
+      { error: "Failed to forward room key" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * E2EE Room Key Requests API
+ *
+ * A device that can't decrypt a Megolm message asks for the session key:
+ * - POST: File requests for sessions this device is missing
+ * - GET: Pending requests this device could answer
+ *
+ * Requests from the caller's own devices are always returned (the answering
+ * client only forwards to devices it has cross-signed). Requests from other
+ * members come with `sharedSince`, the earliest session time the group's
+ * history visibility allows them to read; null means the full history.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { pool } from "@/lib/db";
+
+/** Requests older than this are ignored */
+const REQUEST_TTL_DAYS = 7;
+const MAX_REQUESTS_PER_CALL = 100;
+
+interface RoomKeyRequestRow {
+  id: string;
+  requester_user_id: string;
+  requester_device_id: string;
+  requester_identity_key: string;
+  conversation_id: string;
+  session_id: string;
+  shared_since: Date | null;
+  created_at: Date;
+}
+
+// ============================================================================
+// POST - Request missing session keys
+// ============================================================================
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { deviceId, requests } = body as {
+      deviceId?: string;
+      requests?: Array<{ conversationId: string; sessionId: string }>;
+    };
+
+    if (!deviceId || !Array.isArray(requests) || requests.length === 0) {
+      return NextResponse.json(
+        { error: "Missing required fields: deviceId, requests" },
+        { status: 400 }
+      );
+    }
+
+    if (requests.length > MAX_REQUESTS_PER_CALL) {
+      return NextResponse.json(
+        { error: `At most ${MAX_REQUESTS_PER_CALL} requests per call` },
+        { status: 400 }
+      );
+    }
+
+    const deviceResult = await pool.query(
+      `SELECT 1 FROM device_keys WHERE user_id = $1 AND device_id = $2`,
+      [session.user.id, deviceId]
+    );
+    if (deviceResult.rowCount === 0) {
+      return NextResponse.json({ error: "Device not found" }, { status: 404 });
+    }
+
+    // Only conversations the caller is in; re-open answered requests, since
+    // the device is asking again
+    const result = await pool.query(
+      `INSERT INTO e2ee_room_key_requests
+         (requester_user_id, requester_device_id, conversation_id, session_id)
+       SELECT $1, $2, r.conversation_id, r.session_id
+       FROM jsonb_to_recordset($3::jsonb) AS r(conversation_id UUID, session_id TEXT)
+       WHERE EXISTS (
+         SELECT 1 FROM dm_participants p
+         WHERE p.conversation_id = r.conversation_id AND p.user_id = $1
+       )
+       ON CONFLICT (requester_device_id, session_id) DO UPDATE SET
+         status = 'pending',
+         fulfilled_by_user_id = NULL,
+         fulfilled_by_device_id = NULL,
+         fulfilled_at = NULL,
+         created_at = NOW()
+       WHERE e2ee_room_key_requests.status <> 'pending'`,
+      [
+        session.user.id,
+        deviceId,
+        JSON.stringify(
+          requests.map((r) => ({ conversation_id: r.conversationId, session_id: r.sessionId }))
+        ),
+      ]
+    );
+
+    return NextResponse.json({ success: true, requested: result.rowCount ?? 0 });
+  } catch (error) {
+    console.error("[E2EE API] Failed to request room keys:", error);
+    return NextResponse.json(
+      { error: "Failed to request room keys" },
+      { status: 500 }
+    );
+  }
+}
+
+// ============================================================================
+// GET - Requests this device can answer
+// ============================================================================
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const deviceId = request.nextUrl.searchParams.get("deviceId");
+    if (!deviceId) {
+      return NextResponse.json(
+        { error: "deviceId parameter required" },
+        { status: 400 }
+      );
+    }
+
+    const result = await pool.query<RoomKeyRequestRow>(
+      `SELECT
+         r.id,
+         r.requester_user_id,
+         r.requester_device_id,
+         d.identity_key AS requester_identity_key,
+         r.conversation_id,
+         r.session_id,
+         CASE
+           WHEN r.requester_user_id = $1 THEN NULL
+           WHEN COALESCE(cs.history_visibility, 'joined') = 'full' THEN NULL
+           WHEN cs.history_visibility = 'invited' THEN COALESCE(inv.created_at, rp.joined_at)
+           ELSE rp.joined_at
+         END AS shared_since,
+         r.created_at
+       FROM e2ee_room_key_requests r
+       JOIN device_keys d
+         ON d.user_id = r.requester_user_id AND d.device_id = r.requester_device_id
+       JOIN dm_participants me
+         ON me.conversation_id = r.conversation_id AND me.user_id = $1
+       JOIN dm_participants rp
+         ON rp.conversation_id = r.conversation_id AND rp.user_id = r.requester_user_id
+       LEFT JOIN e2ee_conversation_settings cs ON cs.conversation_id = r.conversation_id
+       LEFT JOIN LATERAL (
+         SELECT i.created_at FROM dm_group_invitations i
+         WHERE i.conversation_id = r.conversation_id
+           AND i.invitee_id = r.requester_user_id
+           AND i.status = 'accepted'
+         ORDER BY i.created_at DESC
+         LIMIT 1
+       ) inv ON TRUE
+       WHERE r.status = 'pending'
+         AND r.requester_device_id <> $2
+         AND r.created_at > NOW() - ($3 || ' days')::INTERVAL
+       ORDER BY r.created_at ASC
+       LIMIT $4`,
+      [session.user.id, deviceId, String(REQUEST_TTL_DAYS), MAX_REQUESTS_PER_CALL]
+    );
+
+    const requests = result.rows.map((row) => ({
+      id: row.id,
+      requesterUserId: row.requester_user_id,
+      requesterDeviceId: row.requester_device_id,
+      requesterIdentityKey: row.requester_identity_key,
+      conversationId: row.conversation_id,
+      sessionId: row.session_id,
+      isOwnDevice: row.requester_user_id === session.user.id,
+      sharedSince: row.shared_since ? row.shared_since.toISOString() : null,
+      createdAt: row.created_at.toISOString(),
+    }));
+
+    return NextResponse.json({ requests });
+  } catch (error) {
+    console.error("[E2EE API] Failed to fetch room key requests:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch room key requests" },
+      { status: 500 }
+    );
+  }
+}
@@ -14,17 +14,21 @@ interface SessionShare {
   recipientUserId: string;
   recipientDeviceId: string;
   encryptedSessionKey: string;
+  /** Set when forwarding a session that was already in use */
+  firstKnownIndex?: number;
+  forwardedCount?: number;
+  sessionCreatedAt?: string;
 }
 
 interface MegolmShareRow {
-  id: string;
   conversation_id: string;
   session_id: string;
+  sender_user_id: string;
   sender_device_id: string;
   encrypted_session_key: string;
   first_known_index: number;
-  created_at: string;
-  claimed_at: string | null;
+  forwarded_count: number;
+  session_created_at: string;
 }
 
 /**
@@ -141,9 +145,12 @@ export async function GET(request: NextRequest) {
     const sessions = rows.map((s) => ({
       conversationId: s.conversation_id,
       sessionId: s.session_id,
+      senderUserId: s.sender_user_id,
       senderDeviceId: s.sender_device_id,
       encryptedSessionKey: s.encrypted_session_key,
       firstKnownIndex: s.first_known_index,
+      forwardedCount: s.forwarded_count,
+      sessionCreatedAt: s.session_created_at,
     }));
 
     return NextResponse.json({ sessions });
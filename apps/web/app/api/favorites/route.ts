@@ -7,6 +7,7 @@
 import { NextRequest, NextResponse } from "next/server";
 import { pool } from "@/lib/db";
 import { getSession } from "@/lib/auth";
+import { emitAchievementEvent } from "@/lib/achievement-engine";
 import type { CreateFavoriteRequest, FavoriteWithDetails, PaginatedFavorites } from "@/types/favorites";
 
 /**
@@ -134,6 +135,12 @@ export async function POST(request: NextRequest) {
       [session.user.id, body.resourceType, body.resourceId.trim(), body.notes || null]
     );
 
+    await emitAchievementEvent(
+      session.user.id,
+      "resource.favorited",
+      `${body.resourceType}:${body.resourceId.trim()}`
+    );
+
     return NextResponse.json({
       success: true,
       favoriteId: result.rows[0].id,
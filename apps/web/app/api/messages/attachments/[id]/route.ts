@@ -0,0 +1,69 @@
+/**
+ * Message Attachment Download API
+ *
+ * Hands conversation participants short-lived signed URLs for an encrypted
+ * attachment. The blob is decrypted in the browser with the key from the
+ * message payload.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { pool } from "@/lib/db";
+import { createMessageAttachmentUrl } from "@/lib/storage";
+
+/**
+ * Get download URLs for an attachment and its thumbnail
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Unsent uploads are only visible to their uploader
+    const result = await pool.query(
+      `SELECT a.storage_path, a.thumbnail_path, a.expires_at, a.expires_at < NOW() AS expired
+       FROM dm_message_attachments a
+       JOIN dm_participants p
+         ON p.conversation_id = a.conversation_id AND p.user_id = $2
+       WHERE a.id = $1
+         AND (a.message_id IS NOT NULL OR a.uploader_id = $2)`,
+      [id, session.user.id]
+    );
+
+    const attachment = result.rows[0];
+    if (!attachment) {
+      return NextResponse.json({ error: "Attachment not found" }, { status: 404 });
+    }
+    if (attachment.expired) {
+      return NextResponse.json({ error: "Attachment has expired" }, { status: 410 });
+    }
+
+    const url = await createMessageAttachmentUrl(attachment.storage_path);
+    if (!url) {
+      return NextResponse.json({ error: "Failed to generate URL" }, { status: 500 });
+    }
+
+    const thumbnailUrl = attachment.thumbnail_path
+      ? await createMessageAttachmentUrl(attachment.thumbnail_path)
+      : null;
+
+    return NextResponse.json({
+      url,
+      thumbnailUrl,
+      expiresAt: attachment.expires_at,
+    });
+  } catch (error) {
+    console.error("[Message Attachment Error]:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to load attachment" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Message Attachments API
+ *
+ * Stores files shared in direct and group messages. Files arrive already
+ * encrypted (lib/e2ee/attachment-crypto.ts); the server only sees opaque
+ * blobs and their sizes. The returned ID is sent with the encrypted message
+ * (POST /api/messages/encrypted), which links the upload to it.
+ *
+ * POST: Upload an encrypted file and optional thumbnail (multipart/form-data)
+ */
+
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { pool } from "@/lib/db";
+import { uploadMessageAttachment, deleteMessageAttachments } from "@/lib/storage";
+import { ATTACHMENT_LIMITS } from "@/lib/e2ee/attachment-crypto";
+
+/**
+ * Upload an encrypted attachment
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const formData = await request.formData();
+    const conversationId = formData.get("conversationId");
+    const file = formData.get("file");
+    const thumbnail = formData.get("thumbnail");
+
+    if (typeof conversationId !== "string" || !(file instanceof Blob)) {
+      return NextResponse.json({ error: "Missing required fields" }, { status: 400 });
+    }
+
+    const participant = await pool.query(
+      `SELECT 1 FROM dm_participants WHERE conversation_id = $1 AND user_id = $2`,
+      [conversationId, session.user.id]
+    );
+    if (participant.rows.length === 0) {
+      return NextResponse.json({ error: "Not a participant" }, { status: 403 });
+    }
+
+    const attachmentId = randomUUID();
+
+    const fileResult = await uploadMessageAttachment(conversationId, attachmentId, file, "file");
+    if (!fileResult.success || !fileResult.path) {
+      return NextResponse.json({ error: fileResult.error }, { status: 400 });
+    }
+
+    let thumbnailPath: string | null = null;
+    if (thumbnail instanceof Blob) {
+      const thumbnailResult = await uploadMessageAttachment(
+        conversationId,
+        attachmentId,
+        thumbnail,
+        "thumbnail"
+      );
+      if (!thumbnailResult.success || !thumbnailResult.path) {
+        await deleteMessageAttachments([fileResult.path]);
+        return NextResponse.json({ error: thumbnailResult.error }, { status: 400 });
+      }
+      thumbnailPath = thumbnailResult.path;
+    }
+
+    const result = await pool.query(
+      `INSERT INTO dm_message_attachments
+         (id, conversation_id, uploader_id, storage_path, thumbnail_path, size_bytes, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, NOW() + make_interval(days => $7))
+       RETURNING expires_at`,
+      [
+        attachmentId,
+        conversationId,
+        session.user.id,
+        fileResult.path,
+        thumbnailPath,
+        file.size,
+        ATTACHMENT_LIMITS.expiryDays,
+      ]
+    );
+
+    return NextResponse.json({
+      success: true,
+      attachment: {
+        id: attachmentId,
+        sizeBytes: file.size,
+        expiresAt: result.rows[0]?.expires_at,
+      },
+    });
+  } catch (error) {
+    console.error("[Message Attachment Upload Error]:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Failed to upload attachment" },
+      { status: 500 }
+    );
+  }
+}
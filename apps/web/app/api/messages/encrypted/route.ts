@@ -3,6 +3,11 @@
  *
  * Handles sending and storing E2EE encrypted messages.
  * The server stores only the encrypted content - never the plaintext.
+ * Attachments uploaded via /api/messages/attachments are linked to the
+ * message here; their keys are inside the ciphertext.
+ *
+ * POST: Send an encrypted message (optionally a reply)
+ * PATCH: Replace a message with a re-encrypted edit
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -10,6 +15,7 @@ import { getSession } from "@/lib/auth";
 import { createAdminClient } from "@/lib/supabase/server";
 import { AI_ASSISTANT_USER_ID } from "@/lib/roles";
 import type { EncryptedMessagePayload } from "@/lib/e2ee";
+import { ATTACHMENT_LIMITS } from "@/lib/e2ee/attachment-crypto";
 
 interface ProfileRow {
   display_name: string | null;
@@ -31,6 +37,7 @@ interface MessageRow {
   is_ai_generated: boolean;
   ai_response_to: string | null;
   metadata: Record<string, unknown> | null;
+  reply_to_id: string | null;
   created_at: string;
   edited_at: string | null;
   deleted_at: string | null;
@@ -49,9 +56,11 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { conversationId, encryptedPayload } = body as {
+    const { conversationId, encryptedPayload, attachmentIds = [], replyToId } = body as {
       conversationId: string;
       encryptedPayload: EncryptedMessagePayload;
+      attachmentIds?: string[];
+      replyToId?: string;
     };
 
     if (!conversationId || !encryptedPayload) {
@@ -78,6 +87,50 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (replyToId) {
+      const { data: parent } = await supabase
+        .from("dm_messages")
+        .select("id")
+        .eq("id", replyToId)
+        .eq("conversation_id", conversationId)
+        .is("deleted_at", null)
+        .maybeSingle();
+
+      if (!parent) {
+        return NextResponse.json(
+          { error: "The message you replied to no longer exists" },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Attachments must be this user's unsent, unexpired uploads to this conversation
+    if (!Array.isArray(attachmentIds) || attachmentIds.length > ATTACHMENT_LIMITS.maxPerMessage) {
+      return NextResponse.json(
+        { error: `At most ${ATTACHMENT_LIMITS.maxPerMessage} attachments per message` },
+        { status: 400 }
+      );
+    }
+
+    if (attachmentIds.length > 0) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data: attachments } = await (supabase as any)
+        .from("dm_message_attachments")
+        .select("id")
+        .in("id", attachmentIds)
+        .eq("conversation_id", conversationId)
+        .eq("uploader_id", session.user.id)
+        .is("message_id", null)
+        .gt("expires_at", new Date().toISOString());
+
+      if ((attachments?.length ?? 0) !== new Set(attachmentIds).size) {
+        return NextResponse.json(
+          { error: "Invalid or expired attachments" },
+          { status: 400 }
+        );
+      }
+    }
+
     // For encrypted messages, we still detect @mentions in the ciphertext marker
     // (The actual content is encrypted, but we can mark AI mentions in metadata)
     // In a real system, the client would indicate if AI was mentioned
@@ -106,6 +159,14 @@ export async function POST(request: NextRequest) {
         session_id: encryptedPayload.sessionId || null,
         mentions,
         is_ai_generated: false,
+        reply_to_id: replyToId || null,
+        metadata: {
+          // Olm prekey (0) vs normal (1) message, needed to decrypt
+          ...(encryptedPayload.olmMessageType !== undefined && {
+            olmMessageType: encryptedPayload.olmMessageType,
+          }),
+          ...(attachmentIds.length > 0 && { attachmentCount: attachmentIds.length }),
+        },
       })
       .select()
       .single();
@@ -118,6 +179,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (attachmentIds.length > 0) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error: linkError } = await (supabase as any)
+        .from("dm_message_attachments")
+        .update({ message_id: (newMessage as MessageRow).id })
+        .in("id", attachmentIds);
+
+      if (linkError) {
+        console.error("Failed to link message attachments:", linkError);
+      }
+    }
+
     // Get sender profile
     const { data: profile } = await supabase
       .from("profiles")
@@ -143,6 +216,8 @@ export async function POST(request: NextRequest) {
       sessionId: msg.session_id,
       mentions: msg.mentions || [],
       isAiGenerated: false,
+      metadata: msg.metadata ?? undefined,
+      replyToId: msg.reply_to_id ?? undefined,
       createdAt: msg.created_at,
     };
 
@@ -155,3 +230,110 @@ export async function POST(request: NextRequest) {
     );
   }
 }
+
+/**
+ * PATCH /api/messages/encrypted
+ *
+ * Edit an E2EE message. The client re-encrypts the new version (with the
+ * readable history inside the payload); the previous ciphertext is kept in
+ * dm_message_edits.
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { messageId, encryptedPayload } = body as {
+      messageId: string;
+      encryptedPayload: EncryptedMessagePayload;
+    };
+
+    if (!messageId || !encryptedPayload) {
+      return NextResponse.json(
+        { error: "Missing required fields" },
+        { status: 400 }
+      );
+    }
+
+    const supabase = await createAdminClient();
+
+    const { data: existing } = await supabase
+      .from("dm_messages")
+      .select("id, sender_id, encrypted_content, is_encrypted, metadata, created_at, edited_at, deleted_at")
+      .eq("id", messageId)
+      .single();
+
+    const msg = existing as MessageRow | null;
+    if (!msg || msg.deleted_at) {
+      return NextResponse.json({ error: "Message not found" }, { status: 404 });
+    }
+    if (msg.sender_id !== session.user.id) {
+      return NextResponse.json(
+        { error: "You can only edit your own messages" },
+        { status: 403 }
+      );
+    }
+    if (!msg.is_encrypted) {
+      return NextResponse.json(
+        { error: "Message is not encrypted" },
+        { status: 400 }
+      );
+    }
+
+    // Keep the ciphertext being replaced
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error: historyError } = await (supabase as any).from("dm_message_edits").insert({
+      message_id: msg.id,
+      encrypted_content: msg.encrypted_content,
+      written_at: msg.edited_at || msg.created_at,
+    });
+
+    if (historyError) {
+      console.error("Failed to save encrypted edit history:", historyError);
+      return NextResponse.json(
+        { error: "Failed to edit message" },
+        { status: 500 }
+      );
+    }
+
+    const { olmMessageType: _previousType, ...metadata } = msg.metadata ?? {};
+    const editedAt = new Date().toISOString();
+
+    const { error } = await supabase
+      .from("dm_messages")
+      .update({
+        encrypted_content: encryptedPayload.ciphertext,
+        encryption_algorithm: encryptedPayload.algorithm,
+        sender_device_id: encryptedPayload.senderDeviceId,
+        sender_key: encryptedPayload.senderKey,
+        session_id: encryptedPayload.sessionId || null,
+        metadata: {
+          ...metadata,
+          ...(encryptedPayload.olmMessageType !== undefined && {
+            olmMessageType: encryptedPayload.olmMessageType,
+          }),
+        },
+        edited_at: editedAt,
+      })
+      .eq("id", messageId);
+
+    if (error) {
+      console.error("Failed to edit encrypted message:", error);
+      return NextResponse.json(
+        { error: "Failed to edit message" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ success: true, message: { id: msg.id, editedAt } });
+  } catch (error) {
+    console.error("Encrypted message edit API error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Prompt Version Pin API
+ *
+ * POST: Pin a saved prompt to a version, or unpin it to follow the latest
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { pool } from '@/lib/db';
+import { getSession } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/prompts/[id]/pin
+ * Body: { version: number | null }
+ * Pinning saves the prompt if it isn't saved yet
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const session = await getSession();
+  if (!session?.user?.id) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const { id } = await context.params;
+    const body = await request.json().catch(() => ({}));
+    const version = body.version === null || body.version === undefined ? null : Number(body.version);
+
+    if (version !== null && (!Number.isInteger(version) || version < 1)) {
+      return NextResponse.json({ error: 'Invalid version' }, { status: 400 });
+    }
+
+    // Check if prompt exists and is accessible
+    const promptCheck = await pool.query(`
+      SELECT id, visibility, author_id, is_system
+      FROM prompts
+      WHERE id = $1
+    `, [id]);
+
+    if (promptCheck.rows.length === 0) {
+      return NextResponse.json({ error: 'Prompt not found' }, { status: 404 });
+    }
+
+    const prompt = promptCheck.rows[0];
+
+    const canAccess =
+      prompt.visibility === 'public' ||
+      prompt.visibility === 'unlisted' ||
+      prompt.is_system ||
+      prompt.author_id === session.user.id;
+
+    if (!canAccess) {
+      return NextResponse.json({ error: 'Prompt not found' }, { status: 404 });
+    }
+
+    if (version !== null) {
+      const versionCheck = await pool.query(
+        'SELECT 1 FROM prompt_versions WHERE prompt_id = $1 AND version = $2',
+        [id, version]
+      );
+      if (versionCheck.rows.length === 0) {
+        return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+      }
+    }
+
+    await pool.query(`
+      INSERT INTO user_prompt_saves (user_id, prompt_id, pinned_version)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (user_id, prompt_id) DO UPDATE SET pinned_version = EXCLUDED.pinned_version
+    `, [session.user.id, id, version]);
+
+    const countResult = await pool.query(
+      'SELECT save_count FROM prompts WHERE id = $1',
+      [id]
+    );
+
+    return NextResponse.json({
+      success: true,
+      isSaved: true,
+      pinnedVersion: version,
+      saveCount: countResult.rows[0]?.save_count || 0,
+    });
+  } catch (error) {
+    console.error('Error pinning prompt version:', error);
+    return NextResponse.json(
+      { error: 'Failed to pin version' },
+      { status: 500 }
+    );
+  }
+}
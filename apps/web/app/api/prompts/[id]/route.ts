@@ -1,8 +1,8 @@
 /**
  * Single Prompt API
  *
- * GET: Get prompt details
- * PATCH: Update prompt
+ * GET: Get prompt details (latest, pinned, or ?version=N)
+ * PATCH: Update prompt; template edits create a new version
  * DELETE: Delete prompt
  */
 
@@ -10,6 +10,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { pool } from '@/lib/db';
 import { getSession } from '@/lib/auth';
 import { hasMinRole, ROLES, type UserRole } from '@/lib/roles';
+import {
+  normalizePromptVariables,
+  validatePromptVariables,
+  type PromptVariable,
+} from '@/lib/prompt-templates';
 
 export const dynamic = 'force-dynamic';
 
@@ -17,6 +22,9 @@ interface RouteContext {
   params: Promise<{ id: string }>;
 }
 
+// Fields snapshotted in prompt_versions
+const VERSIONED_FIELDS = ['title', 'description', 'content', 'variables'];
+
 /**
  * GET /api/prompts/[id]
  * Get a single prompt by ID or slug
@@ -38,6 +46,9 @@ export async function GET(request: NextRequest, context: RouteContext) {
     const ratingSubquery = userId
       ? `(SELECT rating FROM prompt_ratings pr WHERE pr.prompt_id = p.id AND pr.user_id = '${userId}')`
       : 'NULL';
+    const pinnedSubquery = userId
+      ? `(SELECT pinned_version FROM user_prompt_saves ups WHERE ups.prompt_id = p.id AND ups.user_id = '${userId}')`
+      : 'NULL';
 
     const result = await pool.query(`
       SELECT
@@ -52,6 +63,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
         c.icon as category_icon,
         p.tags,
         p.variables,
+        p.current_version,
         p.author_id,
         u.name as author_name,
         u.image as author_image,
@@ -65,6 +77,7 @@ export async function GET(request: NextRequest, context: RouteContext) {
         p.rating_count,
         ${savedSubquery} as is_saved,
         ${ratingSubquery} as user_rating,
+        ${pinnedSubquery} as pinned_version,
         p.status,
         p.created_at,
         p.updated_at
@@ -91,6 +104,33 @@ export async function GET(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: 'Prompt not found' }, { status: 404 });
     }
 
+    // Show the requested version, else the user's pinned version, else latest
+    const requestedVersion = parseInt(request.nextUrl.searchParams.get('version') || '', 10);
+    const version = Number.isInteger(requestedVersion) && requestedVersion > 0
+      ? requestedVersion
+      : p.pinned_version ?? p.current_version;
+
+    let snapshot = {
+      title: p.title,
+      description: p.description,
+      content: p.content,
+      variables: p.variables,
+      created_at: p.updated_at,
+    };
+
+    if (version !== p.current_version) {
+      const versionResult = await pool.query(`
+        SELECT title, description, content, variables, created_at
+        FROM prompt_versions
+        WHERE prompt_id = $1 AND version = $2
+      `, [p.id, version]);
+
+      if (versionResult.rows.length === 0) {
+        return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+      }
+      snapshot = versionResult.rows[0];
+    }
+
     // Check if user is author or admin
     const isOwner = p.author_id === userId;
     let canEdit = isOwner;
@@ -108,9 +148,9 @@ export async function GET(request: NextRequest, context: RouteContext) {
       prompt: {
         id: p.id,
         slug: p.slug,
-        title: p.title,
-        description: p.description,
-        content: p.content,
+        title: snapshot.title,
+        description: snapshot.description,
+        content: snapshot.content,
         category: p.category_id ? {
           id: p.category_id,
           slug: p.category_slug,
@@ -118,7 +158,11 @@ export async function GET(request: NextRequest, context: RouteContext) {
           icon: p.category_icon,
         } : null,
         tags: p.tags || [],
-        variables: p.variables || [],
+        variables: normalizePromptVariables(snapshot.variables),
+        version,
+        versionCreatedAt: snapshot.created_at,
+        currentVersion: p.current_version,
+        pinnedVersion: p.pinned_version,
         author: p.author_id ? {
           id: p.author_id,
           name: p.author_name,
@@ -166,7 +210,7 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
 
     // Check ownership or admin status
     const promptCheck = await pool.query(
-      'SELECT author_id, is_system FROM prompts WHERE id = $1',
+      'SELECT author_id, is_system, title, description, content, variables FROM prompts WHERE id = $1',
       [id]
     );
 
@@ -224,12 +268,26 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
     // Admin-only fields
     const adminFields = ['is_featured', 'status'];
 
+    // Template fields after the update, to validate and snapshot
+    const next: Record<string, unknown> = {
+      title: prompt.title,
+      description: prompt.description,
+      content: prompt.content,
+      variables: normalizePromptVariables(prompt.variables),
+    };
+    let templateChanged = false;
+
     for (const [key, value] of Object.entries(body)) {
       const snakeKey = key.replace(/[A-Z]/g, m => `_${m.toLowerCase()}`);
 
       if (allowedFields.includes(snakeKey)) {
+        const fieldValue = snakeKey === 'variables' ? normalizePromptVariables(value) : value;
+        if (VERSIONED_FIELDS.includes(snakeKey)) {
+          templateChanged ||= JSON.stringify(fieldValue) !== JSON.stringify(next[snakeKey]);
+          next[snakeKey] = fieldValue;
+        }
         updates.push(`${snakeKey} = $${paramIndex}`);
-        values.push(snakeKey === 'variables' ? JSON.stringify(value) : value);
+        values.push(snakeKey === 'variables' ? JSON.stringify(fieldValue) : value);
         paramIndex++;
       } else if (adminFields.includes(snakeKey)) {
         // Check admin for these fields
@@ -251,15 +309,69 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 });
     }
 
+    if (templateChanged) {
+      if (!next.title || !next.content) {
+        return NextResponse.json(
+          { error: 'Title and content are required' },
+          { status: 400 }
+        );
+      }
+
+      const variableErrors = validatePromptVariables(
+        String(next.content),
+        next.variables as PromptVariable[]
+      );
+      if (variableErrors.length > 0) {
+        return NextResponse.json(
+          { error: variableErrors[0], details: variableErrors },
+          { status: 400 }
+        );
+      }
+
+      // Existing versions are immutable; edits become the next version
+      updates.push('current_version = current_version + 1');
+    }
+
     values.push(id);
-    const result = await pool.query(`
-      UPDATE prompts
-      SET ${updates.join(', ')}, updated_at = NOW()
-      WHERE id = $${paramIndex}
-      RETURNING *
-    `, values);
 
-    const updated = result.rows[0];
+    const client = await pool.connect();
+    let updated;
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        UPDATE prompts
+        SET ${updates.join(', ')}, updated_at = NOW()
+        WHERE id = $${paramIndex}
+        RETURNING *
+      `, values);
+
+      updated = result.rows[0];
+
+      if (templateChanged) {
+        await client.query(`
+          INSERT INTO prompt_versions (
+            prompt_id, version, title, description, content, variables, change_note, created_by
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        `, [
+          updated.id,
+          updated.current_version,
+          updated.title,
+          updated.description,
+          updated.content,
+          JSON.stringify(updated.variables),
+          typeof body.changeNote === 'string' ? body.changeNote.slice(0, 500) : null,
+          session.user.id,
+        ]);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
 
     return NextResponse.json({
       success: true,
@@ -271,7 +383,8 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
         content: updated.content,
         categoryId: updated.category_id,
         tags: updated.tags,
-        variables: updated.variables,
+        variables: normalizePromptVariables(updated.variables),
+        currentVersion: updated.current_version,
         visibility: updated.visibility,
         isFeatured: updated.is_featured,
         status: updated.status,
@@ -0,0 +1,202 @@
+/**
+ * Prompt Runner API
+ *
+ * POST: Fill a prompt template and stream the assistant's response
+ *
+ * Uses the caller's own Anthropic key when they have one configured
+ * (see lib/get-user-api-key.ts), otherwise the site key. Runs on the site
+ * key are rate limited by estimated tokens (the prompt_runner policy).
+ */
+
+import { NextRequest } from 'next/server';
+import Anthropic from '@anthropic-ai/sdk';
+import { pool } from '@/lib/db';
+import { getSession } from '@/lib/auth';
+import { buildSystemPrompt, DEFAULT_MODEL } from '@/lib/claude';
+import { getUserApiKey, logApiUsage } from '@/lib/get-user-api-key';
+import { checkPolicyRateLimit, createRateLimitResponse } from '@/lib/rate-limiter';
+import type { UserRole } from '@/lib/roles';
+import {
+  normalizePromptVariables,
+  renderPromptTemplate,
+  validateVariableValues,
+} from '@/lib/prompt-templates';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+const MAX_OUTPUT_TOKENS = 4096;
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+interface RunRequest {
+  values?: Record<string, string>;
+  version?: number;
+}
+
+function jsonResponse(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+/**
+ * POST /api/prompts/[id]/run
+ * Body: { values, version? } - version defaults to the user's pinned
+ * version, then the latest
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  const session = await getSession();
+  if (!session?.user?.id) {
+    return jsonResponse({ error: 'Authentication required' }, 401);
+  }
+
+  try {
+    const { id } = await context.params;
+    const body: RunRequest = await request.json().catch(() => ({}));
+    const values = body.values && typeof body.values === 'object' ? body.values : {};
+
+    const promptResult = await pool.query(`
+      SELECT
+        p.id, p.slug, p.visibility, p.author_id, p.is_system, p.current_version,
+        ups.pinned_version
+      FROM prompts p
+      LEFT JOIN user_prompt_saves ups ON ups.prompt_id = p.id AND ups.user_id = $2
+      WHERE p.id = $1
+    `, [id, session.user.id]);
+
+    const prompt = promptResult.rows[0];
+    const canView = prompt && (
+      prompt.visibility === 'public' ||
+      prompt.visibility === 'unlisted' ||
+      prompt.is_system ||
+      prompt.author_id === session.user.id
+    );
+
+    if (!canView) {
+      return jsonResponse({ error: 'Prompt not found' }, 404);
+    }
+
+    const version = Number(body.version) || prompt.pinned_version || prompt.current_version;
+    const versionResult = await pool.query(`
+      SELECT content, variables
+      FROM prompt_versions
+      WHERE prompt_id = $1 AND version = $2
+    `, [id, version]);
+
+    if (versionResult.rows.length === 0) {
+      return jsonResponse({ error: 'Version not found' }, 404);
+    }
+
+    const variables = normalizePromptVariables(versionResult.rows[0].variables);
+    const errors = validateVariableValues(variables, values);
+    if (Object.keys(errors).length > 0) {
+      return jsonResponse({ error: 'Invalid variable values', fields: errors }, 400);
+    }
+
+    const filledPrompt = renderPromptTemplate(versionResult.rows[0].content, variables, values);
+
+    const apiKeyResult = await getUserApiKey(session.user.id);
+    const anthropic = new Anthropic({ apiKey: apiKeyResult.apiKey });
+    const model = apiKeyResult.preferredModel || DEFAULT_MODEL;
+
+    const systemPrompt = await buildSystemPrompt({
+      currentPage: `/prompts/${prompt.slug}`,
+    });
+
+    // The site key is billed to us: charge by estimated tokens (~4 chars
+    // per token in, plus the full output budget)
+    if (!apiKeyResult.isUserKey) {
+      const estimatedTokens =
+        Math.ceil((systemPrompt.length + filledPrompt.length) / 4) + MAX_OUTPUT_TOKENS;
+      const rateLimitResult = await checkPolicyRateLimit(
+        { id: session.user.id, role: session.user.role as UserRole },
+        'prompt_runner',
+        { estimatedTokens }
+      );
+      if (!rateLimitResult.allowed) {
+        return createRateLimitResponse(rateLimitResult);
+      }
+    }
+
+    // Record usage (also bumps use_count)
+    await pool.query(`
+      INSERT INTO prompt_usage (user_id, prompt_id, context, variables_used)
+      VALUES ($1, $2, 'runner', $3)
+    `, [session.user.id, id, JSON.stringify({ version, values })]);
+
+    const stream = await anthropic.messages.stream({
+      model,
+      max_tokens: MAX_OUTPUT_TOKENS,
+      system: systemPrompt,
+      messages: [{ role: 'user', content: filledPrompt }],
+    });
+
+    const encoder = new TextEncoder();
+    const readableStream = new ReadableStream({
+      async start(controller) {
+        try {
+          for await (const event of stream) {
+            if (
+              event.type === 'content_block_delta' &&
+              event.delta.type === 'text_delta'
+            ) {
+              const data = JSON.stringify({ type: 'text', content: event.delta.text });
+              controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+            }
+          }
+
+          const finalMessage = await stream.finalMessage();
+          const inputTokens = finalMessage.usage?.input_tokens ?? 0;
+          const outputTokens = finalMessage.usage?.output_tokens ?? 0;
+
+          // Log usage if using own API key
+          if (apiKeyResult.isUserKey && apiKeyResult.userId && apiKeyResult.apiKeyId) {
+            logApiUsage(
+              apiKeyResult.userId,
+              apiKeyResult.apiKeyId,
+              'prompt_runner',
+              model,
+              inputTokens,
+              outputTokens
+            ).catch((err) => console.error('[PromptRunner] Usage logging error:', err));
+          }
+
+          controller.enqueue(
+            encoder.encode(`data: ${JSON.stringify({
+              type: 'done',
+              usage: { inputTokens, outputTokens },
+              model,
+              version,
+              usingOwnKey: apiKeyResult.isUserKey,
+            })}\n\n`)
+          );
+          controller.close();
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          controller.enqueue(
+            encoder.encode(`data: ${JSON.stringify({ type: 'error', content: errorMessage })}\n\n`)
+          );
+          controller.close();
+        }
+      },
+    });
+
+    return new Response(readableStream, {
+      headers: {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        Connection: 'keep-alive',
+      },
+    });
+  } catch (error) {
+    console.error('Prompt runner error:', error);
+    return jsonResponse(
+      { error: error instanceof Error ? error.message : 'Failed to run prompt' },
+      500
+    );
+  }
+}
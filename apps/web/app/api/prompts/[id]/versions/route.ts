@@ -0,0 +1,263 @@
+/**
+ * Prompt Version History API
+ *
+ * GET: List versions of a prompt
+ * POST: Compare two versions (diff)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { pool } from '@/lib/db';
+import { getSession } from '@/lib/auth';
+import { normalizePromptVariables, type PromptVariable } from '@/lib/prompt-templates';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+interface VersionRow {
+  id: string;
+  version: number;
+  title: string;
+  description: string | null;
+  content: string;
+  variables: unknown;
+  change_note: string | null;
+  created_by: string | null;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+/**
+ * Load a prompt if the user may view it
+ */
+async function getViewablePrompt(id: string, userId: string | null) {
+  const result = await pool.query(`
+    SELECT id, visibility, author_id, is_system, current_version
+    FROM prompts
+    WHERE id = $1
+  `, [id]);
+
+  const prompt = result.rows[0];
+  if (!prompt) return null;
+
+  const canView =
+    prompt.visibility === 'public' ||
+    prompt.visibility === 'unlisted' ||
+    prompt.is_system ||
+    prompt.author_id === userId;
+
+  return canView ? prompt : null;
+}
+
+/**
+ * GET /api/prompts/[id]/versions
+ * List versions, newest first
+ */
+export async function GET(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await getSession();
+    const userId = session?.user?.id || null;
+    const { id } = await context.params;
+
+    const prompt = await getViewablePrompt(id, userId);
+    if (!prompt) {
+      return NextResponse.json({ error: 'Prompt not found' }, { status: 404 });
+    }
+
+    const result = await pool.query(`
+      SELECT
+        v.id,
+        v.version,
+        v.title,
+        v.change_note,
+        v.created_by,
+        u.name as created_by_name,
+        v.created_at
+      FROM prompt_versions v
+      LEFT JOIN "user" u ON u.id = v.created_by
+      WHERE v.prompt_id = $1
+      ORDER BY v.version DESC
+      LIMIT 100
+    `, [id]);
+
+    return NextResponse.json({
+      currentVersion: prompt.current_version,
+      versions: (result.rows as VersionRow[]).map(v => ({
+        id: v.id,
+        version: v.version,
+        title: v.title,
+        changeNote: v.change_note,
+        createdBy: v.created_by,
+        createdByName: v.created_by_name,
+        createdAt: v.created_at,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching prompt versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch prompt versions' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/prompts/[id]/versions
+ * Compare two versions (diff of content plus variable changes)
+ */
+export async function POST(request: NextRequest, context: RouteContext) {
+  try {
+    const session = await getSession();
+    const userId = session?.user?.id || null;
+    const { id } = await context.params;
+    const body = await request.json();
+    const fromVersion = Number(body.fromVersion);
+    const toVersion = Number(body.toVersion);
+
+    if (!fromVersion || !toVersion) {
+      return NextResponse.json(
+        { error: 'fromVersion and toVersion are required' },
+        { status: 400 }
+      );
+    }
+
+    const prompt = await getViewablePrompt(id, userId);
+    if (!prompt) {
+      return NextResponse.json({ error: 'Prompt not found' }, { status: 404 });
+    }
+
+    const versionsResult = await pool.query(`
+      SELECT version, title, description, content, variables, change_note, created_at
+      FROM prompt_versions
+      WHERE prompt_id = $1 AND version IN ($2, $3)
+    `, [id, fromVersion, toVersion]);
+
+    const from = (versionsResult.rows as VersionRow[]).find(v => v.version === fromVersion);
+    const to = (versionsResult.rows as VersionRow[]).find(v => v.version === toVersion);
+
+    if (!from || !to) {
+      return NextResponse.json({ error: 'Version not found' }, { status: 404 });
+    }
+
+    const fromLines = from.content.split('\n');
+    const toLines = to.content.split('\n');
+    const diff = generateLineDiff(fromLines, toLines);
+
+    return NextResponse.json({
+      from: {
+        version: from.version,
+        title: from.title,
+        changeType: from.version === 1 ? 'create' : 'update',
+        createdAt: from.created_at,
+        lineCount: fromLines.length,
+      },
+      to: {
+        version: to.version,
+        title: to.title,
+        changeType: to.version === 1 ? 'create' : 'update',
+        createdAt: to.created_at,
+        lineCount: toLines.length,
+      },
+      diff,
+      variableChanges: diffVariables(
+        normalizePromptVariables(from.variables),
+        normalizePromptVariables(to.variables)
+      ),
+      stats: {
+        additions: diff.filter(d => d.type === 'added').length,
+        deletions: diff.filter(d => d.type === 'removed').length,
+        unchanged: diff.filter(d => d.type === 'unchanged').length,
+      },
+    });
+  } catch (error) {
+    console.error('Error comparing prompt versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to compare versions' },
+      { status: 500 }
+    );
+  }
+}
+
+interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  content: string;
+  fromLine: number | null;
+  toLine: number | null;
+}
+
+interface VariableChange {
+  name: string;
+  change: 'added' | 'removed' | 'changed';
+}
+
+/**
+ * Variables added, removed, or redefined between two versions
+ */
+function diffVariables(from: PromptVariable[], to: PromptVariable[]): VariableChange[] {
+  const fromByName = new Map(from.map(v => [v.name, v]));
+  const toByName = new Map(to.map(v => [v.name, v]));
+  const changes: VariableChange[] = [];
+
+  for (const variable of to) {
+    const previous = fromByName.get(variable.name);
+    if (!previous) {
+      changes.push({ name: variable.name, change: 'added' });
+    } else if (JSON.stringify(previous) !== JSON.stringify(variable)) {
+      changes.push({ name: variable.name, change: 'changed' });
+    }
+  }
+  for (const variable of from) {
+    if (!toByName.has(variable.name)) {
+      changes.push({ name: variable.name, change: 'removed' });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Simple LCS-based line diff algorithm
+ */
+function generateLineDiff(fromLines: string[], toLines: string[]): DiffLine[] {
+  const m = fromLines.length;
+  const n = toLines.length;
+
+  // LCS length table
+  const dp: number[][] = Array.from({ length: m + 1 }, () => new Array<number>(n + 1).fill(0));
+
+  for (let i = 1; i <= m; i++) {
+    const dpPrev = dp[i - 1] ?? [];
+    const dpCurr = dp[i] ?? [];
+    for (let j = 1; j <= n; j++) {
+      dpCurr[j] = fromLines[i - 1] === toLines[j - 1]
+        ? (dpPrev[j - 1] ?? 0) + 1
+        : Math.max(dpPrev[j] ?? 0, dpCurr[j - 1] ?? 0);
+    }
+  }
+
+  // Backtrack to find diff
+  const result: DiffLine[] = [];
+  let i = m;
+  let j = n;
+
+  while (i > 0 || j > 0) {
+    const fromLine = fromLines[i - 1];
+    const toLine = toLines[j - 1];
+
+    if (i > 0 && j > 0 && fromLine === toLine) {
+      result.unshift({ type: 'unchanged', content: fromLine ?? '', fromLine: i, toLine: j });
+      i--;
+      j--;
+    } else if (j > 0 && (i === 0 || (dp[i]?.[j - 1] ?? 0) >= (dp[i - 1]?.[j] ?? 0))) {
+      result.unshift({ type: 'added', content: toLine ?? '', fromLine: null, toLine: j });
+      j--;
+    } else {
+      result.unshift({ type: 'removed', content: fromLine ?? '', fromLine: i, toLine: null });
+      i--;
+    }
+  }
+
+  return result;
+}
@@ -9,6 +9,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { pool } from '@/lib/db';
 import { getSession } from '@/lib/auth';
 import { nanoid } from 'nanoid';
+import { emitAchievementEvent } from '@/lib/achievement-engine';
+import {
+  normalizePromptVariables,
+  validatePromptVariables,
+} from '@/lib/prompt-templates';
 
 export const dynamic = 'force-dynamic';
 
@@ -24,6 +29,8 @@ interface PromptRow {
   category_icon: string | null;
   tags: string[];
   variables: unknown;
+  current_version: number;
+  pinned_version: number | null;
   author_id: string | null;
   author_name: string | null;
   author_image: string | null;
@@ -164,20 +171,30 @@ export async function GET(request: NextRequest) {
       ? `(SELECT rating FROM prompt_ratings pr WHERE pr.prompt_id = p.id AND pr.user_id = '${userId}')`
       : 'NULL';
 
+    // Saved prompts pinned to a version show that version's template
+    const pinnedJoin = userId
+      ? `LEFT JOIN user_prompt_saves pin ON pin.prompt_id = p.id AND pin.user_id = '${userId}'
+         LEFT JOIN prompt_versions pv ON pv.prompt_id = p.id AND pv.version = pin.pinned_version`
+      : '';
+    const versioned = (column: string) =>
+      userId ? `CASE WHEN pv.id IS NOT NULL THEN pv.${column} ELSE p.${column} END` : `p.${column}`;
+
     // Main query
     const result = await pool.query(`
       SELECT
         p.id,
         p.slug,
-        p.title,
-        p.description,
-        p.content,
+        ${versioned('title')} as title,
+        ${versioned('description')} as description,
+        ${versioned('content')} as content,
         p.category_id,
         c.slug as category_slug,
         c.name as category_name,
         c.icon as category_icon,
         p.tags,
-        p.variables,
+        ${versioned('variables')} as variables,
+        p.current_version,
+        ${userId ? 'pin.pinned_version' : 'NULL'} as pinned_version,
         p.author_id,
         u.name as author_name,
         u.image as author_image,
@@ -195,6 +212,7 @@ export async function GET(request: NextRequest) {
       FROM prompts p
       LEFT JOIN prompt_categories c ON c.id = p.category_id
       LEFT JOIN "user" u ON u.id = p.author_id
+      ${pinnedJoin}
       ${whereClause}
       ${orderClause}
       LIMIT $${paramIndex} OFFSET $${paramIndex + 1}
@@ -229,7 +247,9 @@ export async function GET(request: NextRequest) {
         icon: p.category_icon,
       } : null,
       tags: p.tags || [],
-      variables: p.variables || [],
+      variables: normalizePromptVariables(p.variables),
+      currentVersion: p.current_version,
+      pinnedVersion: p.pinned_version,
       author: p.author_id ? {
         id: p.author_id,
         name: p.author_name,
@@ -310,6 +330,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const typedVariables = normalizePromptVariables(variables);
+    const variableErrors = validatePromptVariables(content, typedVariables);
+    if (variableErrors.length > 0) {
+      return NextResponse.json(
+        { error: variableErrors[0], details: variableErrors },
+        { status: 400 }
+      );
+    }
+
     // Generate unique slug
     const baseSlug = title
       .toLowerCase()
@@ -332,26 +361,54 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Insert prompt
-    const result = await pool.query(`
-      INSERT INTO prompts (
-        slug, title, description, content, category_id,
-        tags, variables, author_id, visibility
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
-      RETURNING *
-    `, [
-      slug,
-      title,
-      description || null,
-      content,
-      categoryId || null,
-      tags || [],
-      JSON.stringify(variables || []),
-      session.user.id,
-      visibility,
-    ]);
+    // Insert prompt and its first version
+    const client = await pool.connect();
+    let prompt;
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(`
+        INSERT INTO prompts (
+          slug, title, description, content, category_id,
+          tags, variables, author_id, visibility
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        RETURNING *
+      `, [
+        slug,
+        title,
+        description || null,
+        content,
+        categoryId || null,
+        tags || [],
+        JSON.stringify(typedVariables),
+        session.user.id,
+        visibility,
+      ]);
+
+      prompt = result.rows[0];
+
+      await client.query(`
+        INSERT INTO prompt_versions (
+          prompt_id, version, title, description, content, variables, created_by
+        ) VALUES ($1, 1, $2, $3, $4, $5, $6)
+      `, [
+        prompt.id,
+        prompt.title,
+        prompt.description,
+        prompt.content,
+        JSON.stringify(typedVariables),
+        session.user.id,
+      ]);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
 
-    const prompt = result.rows[0];
+    await emitAchievementEvent(session.user.id, 'prompt.created', prompt.id);
 
     return NextResponse.json({
       success: true,
@@ -363,7 +420,8 @@ export async function POST(request: NextRequest) {
         content: prompt.content,
         categoryId: prompt.category_id,
         tags: prompt.tags,
-        variables: prompt.variables,
+        variables: typedVariables,
+        currentVersion: prompt.current_version,
         visibility: prompt.visibility,
         createdAt: prompt.created_at,
       },
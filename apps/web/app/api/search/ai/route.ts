@@ -1,5 +1,6 @@
 import { anthropic, DEFAULT_MODEL } from "@/lib/claude";
 import { searchDocuments, type SearchResult } from "@/lib/rag";
+import { recordFaqQuery } from "@/lib/faq-mining";
 
 export const runtime = "nodejs";
 export const maxDuration = 30;
@@ -48,6 +49,8 @@ export async function POST(request: Request) {
       );
     }
 
+    void recordFaqQuery({ query, source: "ai_search" });
+
     // Step 1: Use AI to understand and expand the query
     const queryAnalysis = await analyzeQuery(query);
 
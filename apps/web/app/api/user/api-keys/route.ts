@@ -1,9 +1,12 @@
 /**
  * User API Keys Management Endpoint
  *
- * POST - Save or update an API key
+ * POST - Save or update an API key or cloud provider credentials
  * GET - Get user's API key info (masked)
  * DELETE - Remove an API key
+ *
+ * Providers are listed in lib/ai-providers.ts. Anthropic keys are sent as
+ * `apiKey`; Bedrock and Vertex credentials as a `credentials` object.
  */
 
 import { NextRequest, NextResponse } from "next/server";
@@ -11,11 +14,12 @@ import { getSession } from "@/lib/auth";
 import { pool } from "@/lib/db";
 import {
   encryptApiKey,
-  getApiKeyHint,
-  validateAnthropicApiKey,
+  getEncryptionKeyId,
   CLAUDE_MODELS,
   type ClaudeModel,
 } from "@/lib/api-keys";
+import { AI_PROVIDERS, isAiProvider, parseProviderCredentials } from "@/lib/ai-providers";
+import { validateProviderCredential } from "@/lib/ai-provider-validation";
 
 export interface ApiKeyInfo {
   id: string;
@@ -97,6 +101,7 @@ export async function GET() {
       apiKeys,
       aiPreferences,
       allModels: CLAUDE_MODELS,
+      providers: AI_PROVIDERS,
     });
   } catch (error) {
     console.error("[API Keys GET] Error:", error);
@@ -119,10 +124,17 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { apiKey, provider = "anthropic", preferredModel } = body;
+    const { apiKey, credentials, provider = "anthropic", preferredModel } = body;
+
+    if (!isAiProvider(provider)) {
+      return NextResponse.json(
+        { error: "Unsupported provider" },
+        { status: 400 }
+      );
+    }
 
     // If only updating model preference (no new API key)
-    if (!apiKey && preferredModel) {
+    if (!apiKey && !credentials && preferredModel) {
       // Check if user has an existing API key
       const existing = await pool.query(
         `SELECT id, available_models FROM user_api_keys WHERE user_id = $1 AND provider = $2`,
@@ -171,16 +183,27 @@ export async function POST(request: NextRequest) {
       });
     }
 
-    // Otherwise, require API key
-    if (!apiKey || typeof apiKey !== "string") {
+    // Otherwise, require an API key or credentials
+    const parsed = parseProviderCredentials(
+      provider,
+      provider === "anthropic"
+        ? { apiKey }
+        : credentials && typeof credentials === "object" ? credentials : {}
+    );
+
+    if (!parsed.ok) {
       return NextResponse.json(
-        { error: "API key is required" },
+        {
+          error: parsed.error,
+          errorCode: "INVALID_FORMAT",
+          errorDetails: parsed.errorDetails,
+        },
         { status: 400 }
       );
     }
 
-    // Validate the API key (includes format validation)
-    const validation = await validateAnthropicApiKey(apiKey);
+    // Validate against the provider (includes format validation)
+    const validation = await validateProviderCredential(provider, parsed.secret);
 
     if (!validation.valid) {
       return NextResponse.json(
@@ -196,8 +219,8 @@ export async function POST(request: NextRequest) {
     }
 
     // Encrypt the API key
-    const encryptedKey = encryptApiKey(apiKey);
-    const keyHint = getApiKeyHint(apiKey);
+    const encryptedKey = encryptApiKey(parsed.secret);
+    const keyHint = parsed.hint;
 
     // Determine preferred model
     let selectedModel = preferredModel;
@@ -212,13 +235,15 @@ export async function POST(request: NextRequest) {
     const result = await pool.query(
       `INSERT INTO user_api_keys (
         user_id, provider, api_key_encrypted, api_key_hint,
-        is_valid, last_validated_at, available_models, preferred_model
+        is_valid, last_validated_at, available_models, preferred_model,
+        encryption_key_id
       )
-      VALUES ($1, $2, $3, $4, $5, NOW(), $6, $7)
+      VALUES ($1, $2, $3, $4, $5, NOW(), $6, $7, $8)
       ON CONFLICT (user_id, provider)
       DO UPDATE SET
         api_key_encrypted = $3,
         api_key_hint = $4,
+        encryption_key_id = $8,
         is_valid = $5,
         last_validated_at = NOW(),
         validation_error = NULL,
@@ -234,23 +259,27 @@ export async function POST(request: NextRequest) {
         validation.valid,
         JSON.stringify(validation.availableModels || []),
         selectedModel,
+        getEncryptionKeyId(encryptedKey),
       ]
     );
 
-    // Update user's AI preferences to use their own key
-    await pool.query(
-      `UPDATE "user"
-       SET ai_preferences = COALESCE(ai_preferences, '{}')::jsonb || $2::jsonb
-       WHERE id = $1`,
-      [
-        session.user.id,
-        JSON.stringify({
-          useOwnApiKey: true,
-          preferredProvider: provider,
-          preferredModel: selectedModel,
-        }),
-      ]
-    );
+    // Update user's AI preferences to use their own key. AI features call
+    // Anthropic directly, so cloud credentials don't switch the active key.
+    if (provider === "anthropic") {
+      await pool.query(
+        `UPDATE "user"
+         SET ai_preferences = COALESCE(ai_preferences, '{}')::jsonb || $2::jsonb
+         WHERE id = $1`,
+        [
+          session.user.id,
+          JSON.stringify({
+            useOwnApiKey: true,
+            preferredProvider: provider,
+            preferredModel: selectedModel,
+          }),
+        ]
+      );
+    }
 
     return NextResponse.json({
       success: true,
@@ -297,12 +326,14 @@ export async function DELETE(request: NextRequest) {
     );
 
     // Update user's AI preferences to not use their own key
-    await pool.query(
-      `UPDATE "user"
-       SET ai_preferences = COALESCE(ai_preferences, '{}')::jsonb || '{"useOwnApiKey": false}'::jsonb
-       WHERE id = $1`,
-      [session.user.id]
-    );
+    if (provider === "anthropic") {
+      await pool.query(
+        `UPDATE "user"
+         SET ai_preferences = COALESCE(ai_preferences, '{}')::jsonb || '{"useOwnApiKey": false}'::jsonb
+         WHERE id = $1`,
+        [session.user.id]
+      );
+    }
 
     return NextResponse.json({ success: true });
   } catch (error) {
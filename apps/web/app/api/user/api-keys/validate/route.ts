@@ -2,12 +2,23 @@
  * API Key Validation Endpoint
  *
  * POST - Revalidate an existing API key and refresh available models
+ *
+ * Each provider is checked with its own validator
+ * (see lib/ai-provider-validation.ts). Keys still encrypted with an old
+ * master key are re-encrypted while they are decrypted here.
  */
 
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/auth";
 import { pool } from "@/lib/db";
-import { decryptApiKey, validateAnthropicApiKey } from "@/lib/api-keys";
+import {
+  decryptApiKey,
+  encryptApiKey,
+  getEncryptionKeyId,
+  needsReencryption,
+} from "@/lib/api-keys";
+import { isAiProvider } from "@/lib/ai-providers";
+import { validateProviderCredential } from "@/lib/ai-provider-validation";
 
 /**
  * POST /api/user/api-keys/validate
@@ -23,6 +34,13 @@ export async function POST(request: NextRequest) {
     const body = await request.json();
     const { provider = "anthropic" } = body;
 
+    if (!isAiProvider(provider)) {
+      return NextResponse.json(
+        { error: "Unsupported provider" },
+        { status: 400 }
+      );
+    }
+
     // Get the encrypted API key
     const result = await pool.query(
       `SELECT id, api_key_encrypted FROM user_api_keys
@@ -52,7 +70,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate the API key
-    const validation = await validateAnthropicApiKey(apiKey);
+    const validation = await validateProviderCredential(provider, apiKey);
 
     // Update the API key record
     await pool.query(
@@ -70,10 +88,23 @@ export async function POST(request: NextRequest) {
       ]
     );
 
+    // Move the key onto the current master key
+    if (needsReencryption(api_key_encrypted)) {
+      const reencrypted = encryptApiKey(apiKey);
+      await pool.query(
+        `UPDATE user_api_keys
+         SET api_key_encrypted = $1, encryption_key_id = $2
+         WHERE id = $3 AND api_key_encrypted = $4`,
+        [reencrypted, getEncryptionKeyId(reencrypted), id, api_key_encrypted]
+      );
+    }
+
     return NextResponse.json({
       success: true,
       isValid: validation.valid,
       error: validation.error,
+      errorCode: validation.errorCode,
+      errorDetails: validation.errorDetails,
       availableModels: validation.availableModels,
       accountInfo: validation.accountInfo,
     });
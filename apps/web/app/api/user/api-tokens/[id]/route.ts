@@ -0,0 +1,45 @@
+/**
+ * Personal Access Token Endpoint
+ *
+ * DELETE - Revoke a token
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import { revokeApiToken } from "@/lib/api-tokens";
+
+/**
+ * DELETE /api/user/api-tokens/[id]
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    // Not a token ID (ids are UUIDs)
+    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+      return NextResponse.json({ error: "Token not found" }, { status: 404 });
+    }
+
+    const revoked = await revokeApiToken(session.user.id, id);
+
+    if (!revoked) {
+      return NextResponse.json({ error: "Token not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[API Tokens DELETE] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to revoke token" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Personal Access Tokens Endpoint
+ *
+ * GET - List the user's tokens (metadata only) and the available scopes
+ * POST - Create a token. The response is the only time it is shown.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/auth";
+import {
+  API_TOKEN_SCOPES,
+  MAX_TOKENS_PER_USER,
+  createApiToken,
+  countActiveApiTokens,
+  isApiTokenScope,
+  listApiTokens,
+} from "@/lib/api-tokens";
+
+const EXPIRY_OPTIONS_DAYS = [7, 30, 90, 365];
+
+/**
+ * GET /api/user/api-tokens
+ */
+export async function GET() {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const tokens = await listApiTokens(session.user.id);
+
+    return NextResponse.json({
+      tokens,
+      scopes: API_TOKEN_SCOPES,
+      expiryOptions: EXPIRY_OPTIONS_DAYS,
+      maxTokens: MAX_TOKENS_PER_USER,
+    });
+  } catch (error) {
+    console.error("[API Tokens GET] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch tokens" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/user/api-tokens
+ * Body: { name, scopes, expiresInDays (null for no expiry) }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getSession();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    const scopes: unknown[] = Array.isArray(body.scopes) ? body.scopes : [];
+    const expiresInDays = body.expiresInDays ?? null;
+
+    if (!name || name.length > 100) {
+      return NextResponse.json(
+        { error: "Name is required (max 100 characters)" },
+        { status: 400 }
+      );
+    }
+
+    if (scopes.length === 0 || !scopes.every(isApiTokenScope)) {
+      return NextResponse.json(
+        { error: "Select at least one valid scope" },
+        { status: 400 }
+      );
+    }
+
+    if (expiresInDays !== null && !EXPIRY_OPTIONS_DAYS.includes(expiresInDays)) {
+      return NextResponse.json(
+        { error: "Invalid expiry" },
+        { status: 400 }
+      );
+    }
+
+    if ((await countActiveApiTokens(session.user.id)) >= MAX_TOKENS_PER_USER) {
+      return NextResponse.json(
+        { error: `You can have at most ${MAX_TOKENS_PER_USER} active tokens. Revoke one first.` },
+        { status: 400 }
+      );
+    }
+
+    const { token, record } = await createApiToken(session.user.id, {
+      name,
+      scopes: scopes.filter(isApiTokenScope),
+      expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+    });
+
+    return NextResponse.json({ success: true, token, record });
+  } catch (error) {
+    console.error("[API Tokens POST] Error:", error);
+    return NextResponse.json(
+      { error: "Failed to create token" },
+      { status: 500 }
+    );
+  }
+}
@@ -12,7 +12,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/auth";
 import { pool } from "@/lib/db";
 import { cookies } from "next/headers";
-import { awardSpecialAchievement } from "@/app/actions/achievements";
+import { emitAchievementEvent } from "@/lib/achievement-engine";
 
 interface UpdateProfileRequest {
   name?: string;
@@ -151,14 +151,9 @@ export async function POST(request: NextRequest) {
     const query = `UPDATE "user" SET ${updates.join(", ")} WHERE id = $${paramIndex}`;
     await pool.query(query, values);
 
-    // Award "Welcome Aboard" achievement when onboarding is completed
+    // Completing onboarding earns "Welcome Aboard"
     if (body.hasCompletedOnboarding === true) {
-      try {
-        await awardSpecialAchievement(session.user.id, "welcome_aboard");
-      } catch (err) {
-        // Log but don't fail the request - achievement is non-critical
-        console.error("[Update Profile] Failed to award welcome achievement:", err);
-      }
+      await emitAchievementEvent(session.user.id, "onboarding.completed", "onboarding");
     }
 
     // Clear Better Auth's session cookie cache to force fresh data fetch
@@ -0,0 +1,34 @@
+/**
+ * Public API - Doc
+ *
+ * GET /api/v1/docs/:slug* (MDX source without frontmatter)
+ */
+
+import fs from "fs";
+import { NextResponse } from "next/server";
+import { getDocFilePath, extractFrontmatter, formatSlugToTitle } from "@/lib/mdx";
+import { withApiToken } from "@/lib/api-v1/auth";
+
+interface RouteContext {
+  params: Promise<{ slug: string[] }>;
+}
+
+export const GET = withApiToken<RouteContext>("read:docs", async (_request, _auth, context) => {
+  const { slug } = await context.params;
+  const filePath = getDocFilePath(slug);
+
+  if (!filePath) {
+    return NextResponse.json({ error: "Page not found" }, { status: 404 });
+  }
+
+  const { data, content } = extractFrontmatter(fs.readFileSync(filePath, "utf-8"));
+
+  return NextResponse.json({
+    slug: slug.join("/"),
+    path: `/docs/${slug.join("/")}`,
+    title: data.title || formatSlugToTitle(slug[slug.length - 1] || ""),
+    description: data.description || "",
+    category: slug[0] || "docs",
+    content: content.trim(),
+  });
+});
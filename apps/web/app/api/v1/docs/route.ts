@@ -0,0 +1,25 @@
+/**
+ * Public API - Docs
+ *
+ * GET /api/v1/docs?category=
+ */
+
+import { NextResponse } from "next/server";
+import { getAllDocsMeta } from "@/lib/mdx";
+import { withApiToken } from "@/lib/api-v1/auth";
+
+export const GET = withApiToken("read:docs", async (request) => {
+  const category = request.nextUrl.searchParams.get("category");
+
+  const items = getAllDocsMeta()
+    .filter((doc) => !category || doc.category === category)
+    .map((doc) => ({
+      slug: doc.slug.join("/"),
+      path: `/docs/${doc.slug.join("/")}`,
+      title: doc.title,
+      description: doc.description,
+      category: doc.category,
+    }));
+
+  return NextResponse.json({ items, total: items.length });
+});
@@ -0,0 +1,33 @@
+/**
+ * Public API - Favorite
+ *
+ * DELETE /api/v1/favorites/:id
+ */
+
+import { NextResponse } from "next/server";
+import { pool } from "@/lib/db";
+import { withApiToken } from "@/lib/api-v1/auth";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export const DELETE = withApiToken<RouteContext>("write:favorites", async (_request, auth, context) => {
+  const { id } = await context.params;
+
+  // Postgres rejects a malformed UUID instead of matching nothing
+  if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id)) {
+    return NextResponse.json({ error: "Favorite not found" }, { status: 404 });
+  }
+
+  const result = await pool.query(
+    `DELETE FROM favorites WHERE id = $1 AND user_id = $2`,
+    [id, auth.userId]
+  );
+
+  if ((result.rowCount ?? 0) === 0) {
+    return NextResponse.json({ error: "Favorite not found" }, { status: 404 });
+  }
+
+  return new NextResponse(null, { status: 204 });
+});
@@ -0,0 +1,87 @@
+/**
+ * Public API - Favorites
+ *
+ * GET  /api/v1/favorites?type=&limit=&offset=
+ * POST /api/v1/favorites { resourceType, resourceId, notes? }
+ */
+
+import { NextResponse } from "next/server";
+import { pool } from "@/lib/db";
+import { withApiToken, getPagination } from "@/lib/api-v1/auth";
+import { emitAchievementEvent } from "@/lib/achievement-engine";
+
+function toApiFavorite(row: Record<string, unknown>) {
+  return {
+    id: row.id as string,
+    resourceType: row.resource_type as string,
+    resourceId: row.resource_id as string,
+    notes: (row.notes as string | null) ?? null,
+    createdAt: (row.created_at as Date).toISOString(),
+  };
+}
+
+export const GET = withApiToken("read:favorites", async (request, auth) => {
+  const { searchParams } = request.nextUrl;
+  const { limit, offset } = getPagination(searchParams);
+  const type = searchParams.get("type");
+
+  let whereClause = "WHERE user_id = $1";
+  const values: (string | number)[] = [auth.userId];
+  if (type && ["resource", "doc"].includes(type)) {
+    values.push(type);
+    whereClause += ` AND resource_type = $${values.length}`;
+  }
+
+  const countResult = await pool.query(`SELECT COUNT(*) FROM favorites ${whereClause}`, values);
+
+  const result = await pool.query(
+    `SELECT id, resource_type, resource_id, notes, created_at
+     FROM favorites
+     ${whereClause}
+     ORDER BY created_at DESC
+     LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+    [...values, limit, offset]
+  );
+
+  return NextResponse.json({
+    items: result.rows.map(toApiFavorite),
+    total: parseInt(countResult.rows[0].count),
+    limit,
+    offset,
+  });
+});
+
+export const POST = withApiToken("write:favorites", async (request, auth) => {
+  const body = await request.json().catch(() => null);
+  const resourceType = body?.resourceType;
+  const resourceId = typeof body?.resourceId === "string" ? body.resourceId.trim() : "";
+  const notes = typeof body?.notes === "string" && body.notes.trim() ? body.notes.trim() : null;
+
+  if (!["resource", "doc"].includes(resourceType)) {
+    return NextResponse.json({ error: "resourceType must be resource or doc" }, { status: 400 });
+  }
+  if (!resourceId) {
+    return NextResponse.json({ error: "resourceId is required" }, { status: 400 });
+  }
+
+  const existing = await pool.query(
+    `SELECT id, resource_type, resource_id, notes, created_at
+     FROM favorites
+     WHERE user_id = $1 AND resource_type = $2 AND resource_id = $3`,
+    [auth.userId, resourceType, resourceId]
+  );
+  if (existing.rows.length > 0) {
+    return NextResponse.json(toApiFavorite(existing.rows[0]));
+  }
+
+  const result = await pool.query(
+    `INSERT INTO favorites (user_id, resource_type, resource_id, notes)
+     VALUES ($1, $2, $3, $4)
+     RETURNING id, resource_type, resource_id, notes, created_at`,
+    [auth.userId, resourceType, resourceId, notes]
+  );
+
+  await emitAchievementEvent(auth.userId, "resource.favorited", `${resourceType}:${resourceId}`);
+
+  return NextResponse.json(toApiFavorite(result.rows[0]), { status: 201 });
+});
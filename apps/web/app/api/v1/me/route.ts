@@ -0,0 +1,30 @@
+/**
+ * Public API - Token Info
+ *
+ * GET /api/v1/me (works with any valid token)
+ */
+
+import { NextResponse } from "next/server";
+import { pool } from "@/lib/db";
+import { withApiToken } from "@/lib/api-v1/auth";
+
+export const GET = withApiToken(null, async (_request, auth) => {
+  const result = await pool.query(
+    `SELECT id, name, username, image FROM "user" WHERE id = $1`,
+    [auth.userId]
+  );
+  const user = result.rows[0];
+
+  return NextResponse.json({
+    user: {
+      id: user.id,
+      name: user.name ?? null,
+      username: user.username ?? null,
+      image: user.image ?? null,
+    },
+    token: {
+      id: auth.tokenId,
+      scopes: auth.scopes,
+    },
+  });
+});
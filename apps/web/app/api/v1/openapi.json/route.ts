@@ -0,0 +1,17 @@
+/**
+ * Public API - OpenAPI Document
+ *
+ * GET /api/v1/openapi.json (public, no token required)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { buildOpenApiDocument } from "@/lib/api-v1/openapi";
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json(buildOpenApiDocument(request.nextUrl.origin), {
+    headers: {
+      "Cache-Control": "public, s-maxage=3600, stale-while-revalidate=86400",
+      "Access-Control-Allow-Origin": "*",
+    },
+  });
+}
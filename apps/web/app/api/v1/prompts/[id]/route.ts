@@ -0,0 +1,31 @@
+/**
+ * Public API - Prompt
+ *
+ * GET /api/v1/prompts/:id (ID or slug)
+ */
+
+import { NextResponse } from "next/server";
+import { pool } from "@/lib/db";
+import { withApiToken } from "@/lib/api-v1/auth";
+import { PROMPT_SELECT, promptVisibleTo, toApiPrompt } from "@/lib/api-v1/prompts";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export const GET = withApiToken<RouteContext>("read:prompts", async (_request, auth, context) => {
+  const { id } = await context.params;
+
+  const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(id);
+  const result = await pool.query(
+    `${PROMPT_SELECT}
+     WHERE ${isUuid ? "p.id = $2" : "p.slug = $2"} AND ${promptVisibleTo("$1")}`,
+    [auth.userId, id]
+  );
+
+  if (result.rows.length === 0) {
+    return NextResponse.json({ error: "Prompt not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(toApiPrompt(result.rows[0]));
+});
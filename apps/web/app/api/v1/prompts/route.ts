@@ -0,0 +1,56 @@
+/**
+ * Public API - Prompts
+ *
+ * GET /api/v1/prompts?category=&q=&mine=&limit=&offset=
+ */
+
+import { NextResponse } from "next/server";
+import { pool } from "@/lib/db";
+import { withApiToken, getPagination } from "@/lib/api-v1/auth";
+import { PROMPT_SELECT, promptVisibleTo, toApiPrompt } from "@/lib/api-v1/prompts";
+
+export const GET = withApiToken("read:prompts", async (request, auth) => {
+  const { searchParams } = request.nextUrl;
+  const { limit, offset } = getPagination(searchParams);
+  const category = searchParams.get("category");
+  const query = searchParams.get("q")?.trim();
+
+  const conditions = [promptVisibleTo("$1")];
+  const values: (string | number)[] = [auth.userId];
+
+  if (category) {
+    values.push(category);
+    conditions.push(`c.slug = $${values.length}`);
+  }
+  if (query) {
+    values.push(`%${query}%`);
+    conditions.push(`(p.title ILIKE $${values.length} OR p.description ILIKE $${values.length})`);
+  }
+  if (searchParams.get("mine") === "true") {
+    conditions.push("p.author_id = $1");
+  }
+
+  const whereClause = `WHERE ${conditions.join(" AND ")}`;
+
+  const countResult = await pool.query(
+    `SELECT COUNT(*) FROM prompts p
+     LEFT JOIN prompt_categories c ON c.id = p.category_id
+     ${whereClause}`,
+    values
+  );
+
+  const result = await pool.query(
+    `${PROMPT_SELECT}
+     ${whereClause}
+     ORDER BY p.is_featured DESC, p.use_count DESC, p.created_at DESC
+     LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+    [...values, limit, offset]
+  );
+
+  return NextResponse.json({
+    items: result.rows.map(toApiPrompt),
+    total: parseInt(countResult.rows[0].count),
+    limit,
+    offset,
+  });
+});
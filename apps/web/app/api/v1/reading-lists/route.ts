@@ -0,0 +1,46 @@
+/**
+ * Public API - Reading Lists
+ *
+ * GET /api/v1/reading-lists (the token owner's lists with their items)
+ */
+
+import { NextResponse } from "next/server";
+import { pool } from "@/lib/db";
+import { withApiToken } from "@/lib/api-v1/auth";
+
+export const GET = withApiToken("read:reading-lists", async (_request, auth) => {
+  const result = await pool.query(
+    `SELECT l.id, l.name, l.description, l.slug, l.is_public, l.item_count, l.created_at,
+       COALESCE(
+         (SELECT json_agg(json_build_object(
+            'resourceType', i.resource_type,
+            'resourceId', i.resource_id,
+            'title', i.title,
+            'url', i.url,
+            'notes', i.notes,
+            'status', i.status,
+            'progress', i.progress,
+            'addedAt', i.added_at
+          ) ORDER BY i.added_at DESC)
+          FROM reading_list_items i WHERE i.list_id = l.id),
+         '[]'
+       ) as items
+     FROM reading_lists l
+     WHERE l.user_id = $1
+     ORDER BY l.created_at DESC`,
+    [auth.userId]
+  );
+
+  const items = result.rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    slug: row.slug,
+    isPublic: row.is_public,
+    itemCount: row.item_count,
+    createdAt: row.created_at.toISOString(),
+    items: row.items,
+  }));
+
+  return NextResponse.json({ items, total: items.length });
+});
@@ -0,0 +1,24 @@
+/**
+ * Public API - Resource
+ *
+ * GET /api/v1/resources/:id
+ */
+
+import { NextResponse } from "next/server";
+import { getResourceById } from "@/data/resources";
+import { withApiToken } from "@/lib/api-v1/auth";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export const GET = withApiToken<RouteContext>("read:resources", async (_request, _auth, context) => {
+  const { id } = await context.params;
+  const resource = getResourceById(id);
+
+  if (!resource) {
+    return NextResponse.json({ error: "Resource not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(resource);
+});
@@ -0,0 +1,47 @@
+/**
+ * Public API - Resources
+ *
+ * GET /api/v1/resources?category=&tag=&q=&featured=&limit=&offset=
+ */
+
+import { NextResponse } from "next/server";
+import {
+  filterResources,
+  RESOURCE_CATEGORY_SLUGS,
+  type ResourceCategorySlug,
+} from "@/data/resources";
+import { withApiToken, getPagination } from "@/lib/api-v1/auth";
+
+export const GET = withApiToken("read:resources", async (request) => {
+  const { searchParams } = request.nextUrl;
+  const category = searchParams.get("category");
+  const query = searchParams.get("q")?.trim().toLowerCase();
+
+  if (category && !RESOURCE_CATEGORY_SLUGS.includes(category as ResourceCategorySlug)) {
+    return NextResponse.json({ error: `Unknown category: ${category}` }, { status: 400 });
+  }
+
+  let resources = filterResources({
+    category: (category as ResourceCategorySlug) || undefined,
+    tags: searchParams.get("tag")?.split(",").filter(Boolean),
+    featured: searchParams.get("featured") === "true" ? true : undefined,
+  });
+
+  if (query) {
+    resources = resources.filter(
+      (r) =>
+        r.title.toLowerCase().includes(query) ||
+        r.description.toLowerCase().includes(query) ||
+        r.tags.some((tag) => tag.toLowerCase().includes(query))
+    );
+  }
+
+  const { limit, offset } = getPagination(searchParams);
+
+  return NextResponse.json({
+    items: resources.slice(offset, offset + limit),
+    total: resources.length,
+    limit,
+    offset,
+  });
+});
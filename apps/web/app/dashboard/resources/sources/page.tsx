@@ -72,7 +72,7 @@ export default function SourcesPage() {
       </div>
 
       {/* Source Types Info */}
-      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-5">
         {[
           {
             type: "github_repo",
@@ -98,6 +98,12 @@ export default function SourcesPage() {
             description: "Package search",
             icon: <NpmIcon />,
           },
+          {
+            type: "rss",
+            name: "RSS Feed",
+            description: "RSS, Atom & JSON feeds",
+            icon: <RssIcon />,
+          },
         ].map((sourceType) => (
           <div
             key={sourceType.type}
@@ -210,6 +216,12 @@ export default function SourcesPage() {
             url="topic:claude-ai"
             description="Community Claude tools"
           />
+          <RecommendedSource
+            name="Anthropic News"
+            type="rss"
+            url="https://www.anthropic.com/news/rss.xml"
+            description="Announcements and release posts"
+          />
         </div>
       </div>
     </div>
@@ -228,6 +240,9 @@ function SourceRow({ source }: { source: Source }) {
       case "npm_package":
       case "npm_search":
         return <NpmIcon className="h-4 w-4" />;
+      case "rss":
+      case "rss_feed":
+        return <RssIcon className="h-4 w-4" />;
       default:
         return <GlobeIcon className="h-4 w-4" />;
     }
@@ -309,6 +324,8 @@ function RecommendedSource({
           <GitHubIcon className="h-4 w-4" />
         ) : type.includes("npm") ? (
           <NpmIcon className="h-4 w-4" />
+        ) : type.includes("rss") ? (
+          <RssIcon className="h-4 w-4" />
         ) : (
           <ListIcon className="h-4 w-4" />
         )}
@@ -365,6 +382,14 @@ function ListIcon({ className }: { className?: string }) {
   );
 }
 
+function RssIcon({ className }: { className?: string }) {
+  return (
+    <svg className={cn("h-4 w-4", className)} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M12.75 19.5v-.75a7.5 7.5 0 00-7.5-7.5H4.5m0-6.75h.75c7.87 0 14.25 6.38 14.25 14.25v.75M6 18.75a.75.75 0 11-1.5 0 .75.75 0 011.5 0z" />
+    </svg>
+  );
+}
+
 function DatabaseIcon({ className }: { className?: string }) {
   return (
     <svg className={cn("h-5 w-5", className)} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
@@ -4,15 +4,18 @@ import {
   createAchievementSyncHook,
   createAchievementDeleteHook,
 } from '../lib/payload/sync-achievements';
+import { ACHIEVEMENT_CONDITIONS, ACHIEVEMENT_EVENTS } from '../lib/achievement-events';
 
 /**
  * Achievements Collection
  *
  * Defines all achievements that users can earn through various activities.
- * Supports automatic and manually-awarded achievements with customizable
- * notification settings.
+ * Automatic achievements are rules: a trigger event plus a condition (count,
+ * streak or threshold within a time window), evaluated by
+ * lib/achievement-engine.ts. Special achievements are awarded manually.
  *
- * Syncs to Supabase `achievements` table on create/update/delete.
+ * Syncs to Supabase `achievements` table on create/update/delete. Publishing
+ * a rule, or changing one, queues a backfill that awards it retroactively.
  */
 export const Achievements: CollectionConfig = {
   slug: 'achievements',
@@ -122,94 +125,51 @@ export const Achievements: CollectionConfig = {
               type: 'select',
               required: true,
               defaultValue: 'special',
-              options: [
-                { label: 'Special (Manual)', value: 'special' },
-                { label: 'Count-based', value: 'count' },
-                { label: 'Streak', value: 'streak' },
-                { label: 'Time-based', value: 'time' },
-                { label: 'First Action', value: 'first' },
-                { label: 'Compound (Multiple conditions)', value: 'compound' },
-              ],
+              options: Object.entries(ACHIEVEMENT_CONDITIONS).map(([value, label]) => ({
+                label,
+                value,
+              })),
               admin: {
-                description: 'How is this achievement triggered?',
+                description: 'How is this achievement earned? Special achievements are only awarded manually.',
               },
             },
             {
-              name: 'metric',
+              name: 'trigger',
               type: 'select',
-              options: [
-                // Messaging
-                { label: 'Messages Sent', value: 'messages_sent' },
-                { label: 'Messages Received', value: 'messages_received' },
-                { label: 'Conversations Started', value: 'conversations_started' },
-                { label: 'Group Chats Created', value: 'groups_created' },
-                // Social
-                { label: 'Followers Gained', value: 'followers_count' },
-                { label: 'Users Followed', value: 'following_count' },
-                { label: 'Profile Views', value: 'profile_views' },
-                // Content
-                { label: 'Reviews Written', value: 'reviews_written' },
-                { label: 'Comments Posted', value: 'comments_posted' },
-                { label: 'Resources Favorited', value: 'favorites_count' },
-                { label: 'Resources Rated', value: 'ratings_count' },
-                // Account
-                { label: 'Login Days', value: 'login_days' },
-                { label: 'Days Since Registration', value: 'account_age_days' },
-                { label: 'Streak Days', value: 'streak_days' },
-                // Security
-                { label: '2FA Enabled', value: '2fa_enabled' },
-                { label: 'Passkeys Registered', value: 'passkeys_count' },
-                // AI
-                { label: 'AI Conversations', value: 'ai_conversations' },
-                { label: 'AI Messages', value: 'ai_messages' },
-              ],
-              admin: {
-                description: 'Which metric triggers this achievement?',
-                condition: (data) =>
-                  data.conditionType === 'count' ||
-                  data.conditionType === 'streak' ||
-                  data.conditionType === 'first',
-              },
-            },
-            {
-              name: 'threshold',
-              type: 'number',
-              defaultValue: 1,
-              min: 1,
+              options: Object.entries(ACHIEVEMENT_EVENTS).map(([value, label]) => ({
+                label,
+                value,
+              })),
               admin: {
-                description: 'Target value to reach (e.g., 10 messages, 7 day streak)',
-                condition: (data) =>
-                  data.conditionType === 'count' || data.conditionType === 'streak',
+                description: 'Which event advances this achievement?',
+                condition: (data) => data.conditionType !== 'special',
               },
             },
             {
-              name: 'timeWindow',
-              type: 'text',
-              admin: {
-                description: 'Time window for time-based achievements (e.g., "7d", "30d", "1h")',
-                condition: (data) => data.conditionType === 'time',
-              },
-            },
-            {
-              name: 'compoundLogic',
-              type: 'select',
-              defaultValue: 'and',
-              options: [
-                { label: 'All conditions (AND)', value: 'and' },
-                { label: 'Any condition (OR)', value: 'or' },
+              type: 'row',
+              fields: [
+                {
+                  name: 'threshold',
+                  type: 'number',
+                  defaultValue: 1,
+                  min: 1,
+                  admin: {
+                    description: 'Target to reach (e.g., 10 comments, 7 day streak)',
+                    width: '50%',
+                    condition: (data) => data.conditionType !== 'special',
+                  },
+                },
+                {
+                  name: 'windowDays',
+                  type: 'number',
+                  min: 1,
+                  admin: {
+                    description: 'Only count events from the last N days',
+                    width: '50%',
+                    condition: (data) => data.conditionType === 'threshold',
+                  },
+                },
               ],
-              admin: {
-                description: 'How to combine multiple conditions',
-                condition: (data) => data.conditionType === 'compound',
-              },
-            },
-            {
-              name: 'compoundConditions',
-              type: 'json',
-              admin: {
-                description: 'JSON array of conditions: [{"metric": "...", "threshold": N}, ...]',
-                condition: (data) => data.conditionType === 'compound',
-              },
             },
           ],
         },
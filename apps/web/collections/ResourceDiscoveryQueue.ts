@@ -214,6 +214,8 @@ export const ResourceDiscoveryQueue: CollectionConfig = {
           options: [
             { label: 'npm', value: 'npm' },
             { label: 'PyPI', value: 'pypi' },
+            { label: 'crates.io', value: 'crates' },
+            { label: 'VS Code Marketplace', value: 'vscode' },
           ],
           admin: {
             description: 'Package registry',
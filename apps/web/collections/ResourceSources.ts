@@ -63,7 +63,7 @@ const deleteFromSupabase: CollectionAfterDeleteHook = async ({ doc }) => {
  *
  * - GitHub repositories (search by topic, parse READMEs)
  * - Awesome lists (markdown files with curated links)
- * - Package registries (npm, PyPI)
+ * - Package registries (npm, PyPI, crates.io, VS Code Marketplace)
  * - Websites (generic URL scraping)
  * - RSS feeds (for blogs and announcements)
  * - APIs (programmatic discovery)
@@ -121,6 +121,8 @@ export const ResourceSources: CollectionConfig = {
         { label: 'Awesome List', value: 'awesome_list' },
         { label: 'npm Registry', value: 'npm' },
         { label: 'PyPI Registry', value: 'pypi' },
+        { label: 'crates.io Registry', value: 'crates' },
+        { label: 'VS Code Marketplace', value: 'vscode' },
         { label: 'Website', value: 'website' },
         { label: 'RSS Feed', value: 'rss' },
         { label: 'API Endpoint', value: 'api' },
@@ -201,7 +203,7 @@ export const ResourceSources: CollectionConfig = {
       type: 'group',
       admin: {
         description: 'Package registry configuration',
-        condition: (data) => ['npm', 'pypi'].includes(data?.type),
+        condition: (data) => ['npm', 'pypi', 'crates', 'vscode'].includes(data?.type),
       },
       fields: [
         {
@@ -215,7 +217,8 @@ export const ResourceSources: CollectionConfig = {
           name: 'scope',
           type: 'text',
           admin: {
-            description: 'Package scope to monitor (e.g., "@anthropic-ai")',
+            description:
+              'npm scope (e.g., "@anthropic-ai"), crates.io category (e.g., "command-line-utilities") or VS Code publisher',
           },
         },
         {
@@ -287,7 +290,7 @@ export const ResourceSources: CollectionConfig = {
           defaultValue: 0,
           admin: {
             description: 'Minimum weekly downloads required (0 = no minimum)',
-            condition: (data) => ['npm', 'pypi'].includes(data?.type),
+            condition: (data) => ['npm', 'pypi', 'crates', 'vscode'].includes(data?.type),
           },
         },
         {
@@ -7,6 +7,7 @@
  * - AI messages: Left-aligned with emerald accent + Claude icon
  * - Entrance animations (respects reduced motion)
  * - Action buttons slot (TTS, Copy)
+ * - Assistant tool-call steps (searches, lookups) above the answer
  */
 
 "use client";
@@ -18,6 +19,7 @@ import {
   getContainerClasses,
 } from "./chat-message-styles";
 import { MarkdownContent } from "./markdown-content";
+import type { AssistantToolStep } from "@/lib/claude-utils";
 
 // ============================================================================
 // TYPES
@@ -36,6 +38,8 @@ export interface ChatMessageProps {
   animate?: boolean;
   /** Action buttons to render below message (TTS, Copy, etc.) */
   actions?: React.ReactNode;
+  /** Tool calls the assistant made while answering */
+  toolSteps?: AssistantToolStep[];
   /** Additional className for the container */
   className?: string;
 }
@@ -66,6 +70,50 @@ export function ClaudeIcon({ className }: { className?: string }) {
   );
 }
 
+// ============================================================================
+// TOOL STEPS
+// ============================================================================
+
+/**
+ * Compact list of tool calls made by the assistant (e.g. "Searching
+ * documentation - Found 3 doc sections")
+ */
+export function ChatToolSteps({ steps }: { steps: AssistantToolStep[] }) {
+  if (steps.length === 0) return null;
+
+  return (
+    <ul className="mb-2 space-y-1" aria-label="Assistant steps">
+      {steps.map((step) => (
+        <li
+          key={step.id}
+          className={cn(
+            "flex items-center gap-2 text-xs",
+            step.status === "error"
+              ? "text-red-600 dark:text-red-400"
+              : "text-gray-500 dark:text-gray-400"
+          )}
+        >
+          {step.status === "running" ? (
+            <span className="w-3 h-3 rounded-full border-2 border-current border-t-transparent animate-spin" />
+          ) : (
+            <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={3} aria-hidden="true">
+              {step.status === "error" ? (
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              ) : (
+                <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+              )}
+            </svg>
+          )}
+          <span>
+            {step.label}
+            {step.summary && ` · ${step.summary}`}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
 // ============================================================================
 // CHAT MESSAGE
 // ============================================================================
@@ -92,6 +140,7 @@ export function ChatMessage({
   showAvatar = true,
   animate = true,
   actions,
+  toolSteps,
   className,
 }: ChatMessageProps) {
   const isUser = role === "user";
@@ -108,6 +157,8 @@ export function ChatMessage({
 
       {/* Message content wrapper */}
       <div className={cn("flex flex-col", isAssistant && showAvatar && "ml-3")}>
+        {isAssistant && toolSteps && <ChatToolSteps steps={toolSteps} />}
+
         {/* Message bubble */}
         <div className={getBubbleClasses(role, { animate, isStreaming })}>
           {isUser ? (
@@ -138,9 +189,11 @@ export function ChatMessage({
  */
 export function ChatMessageLoading({
   showAvatar = true,
+  toolSteps,
   className,
 }: {
   showAvatar?: boolean;
+  toolSteps?: AssistantToolStep[];
   className?: string;
 }) {
   return (
@@ -152,13 +205,17 @@ export function ChatMessageLoading({
         </div>
       )}
 
-      {/* Loading bubble */}
-      <div className={cn(styles.loading.bubble, showAvatar && "ml-3")}>
-        <div className="flex space-x-1" role="status" aria-label="Loading">
-          {styles.loading.dotDelays.map((delay, i) => (
-            <div key={i} className={cn(styles.loading.dot, delay)} />
-          ))}
-          <span className="sr-only">Claude is thinking...</span>
+      <div className={cn("flex flex-col", showAvatar && "ml-3")}>
+        {toolSteps && <ChatToolSteps steps={toolSteps} />}
+
+        {/* Loading bubble */}
+        <div className={cn(styles.loading.bubble, "self-start")}>
+          <div className="flex space-x-1" role="status" aria-label="Loading">
+            {styles.loading.dotDelays.map((delay, i) => (
+              <div key={i} className={cn(styles.loading.dot, delay)} />
+            ))}
+            <span className="sr-only">Claude is thinking...</span>
+          </div>
         </div>
       </div>
     </div>
@@ -176,10 +233,12 @@ export function ChatMessageLoading({
 export function ChatMessageStreaming({
   content,
   showAvatar = true,
+  toolSteps,
   className,
 }: {
   content: string;
   showAvatar?: boolean;
+  toolSteps?: AssistantToolStep[];
   className?: string;
 }) {
   return (
@@ -189,6 +248,7 @@ export function ChatMessageStreaming({
       isStreaming={true}
       showAvatar={showAvatar}
       animate={false}
+      toolSteps={toolSteps}
       className={className}
     />
   );
@@ -0,0 +1,169 @@
+'use client';
+
+/**
+ * Campaign Progress Components
+ *
+ * Funding progress for donation campaigns, shown on the donate page
+ * and the donor wall.
+ */
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { cn } from '@/lib/design-system';
+import {
+  formatDonationAmount,
+  type DonationCampaignProgress,
+} from '@/lib/donations/types';
+
+function getDaysLeft(endsAt: string | null): number | null {
+  if (!endsAt) return null;
+  return Math.max(0, Math.ceil((new Date(endsAt).getTime() - Date.now()) / 86_400_000));
+}
+
+/**
+ * Progress card for a single campaign. Selectable when onSelect is given,
+ * otherwise links to the donate page when href is given.
+ */
+interface CampaignProgressProps {
+  campaign: DonationCampaignProgress;
+  selected?: boolean;
+  onSelect?: (campaign: DonationCampaignProgress) => void;
+  href?: string;
+  className?: string;
+}
+
+export function CampaignProgress({
+  campaign,
+  selected = false,
+  onSelect,
+  href,
+  className,
+}: CampaignProgressProps) {
+  const daysLeft = getDaysLeft(campaign.ends_at);
+  const isFunded = campaign.raised_amount >= campaign.target_amount;
+
+  const content = (
+    <>
+      <div className="flex items-start justify-between gap-3 mb-2">
+        <h3 className="font-semibold text-gray-900 dark:text-white">
+          {campaign.title}
+        </h3>
+        {campaign.is_featured && (
+          <span className="shrink-0 px-2 py-0.5 rounded-full text-xs font-medium bg-violet-100 dark:bg-violet-900/30 text-violet-700 dark:text-violet-300">
+            Featured
+          </span>
+        )}
+      </div>
+
+      {campaign.description && (
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-4 line-clamp-2">
+          {campaign.description}
+        </p>
+      )}
+
+      <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2 mb-2">
+        <div
+          className={cn(
+            'h-2 rounded-full transition-all duration-500',
+            'bg-gradient-to-r',
+            isFunded ? 'from-emerald-500 to-green-500' : 'from-violet-600 via-blue-600 to-cyan-600'
+          )}
+          style={{ width: `${campaign.percent_funded}%` }}
+        />
+      </div>
+
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-900 dark:text-white">
+          <strong>{formatDonationAmount(campaign.raised_amount, campaign.currency)}</strong>
+          <span className="text-gray-500"> of {formatDonationAmount(campaign.target_amount, campaign.currency)}</span>
+        </span>
+        <span className="text-gray-500">{campaign.percent_funded}%</span>
+      </div>
+
+      <div className="flex items-center gap-3 mt-1 text-xs text-gray-500 dark:text-gray-400">
+        <span>
+          {campaign.donor_count} {campaign.donor_count === 1 ? 'supporter' : 'supporters'}
+        </span>
+        {daysLeft !== null && (
+          <span>
+            {daysLeft === 0 ? 'Ends today' : `${daysLeft} ${daysLeft === 1 ? 'day' : 'days'} left`}
+          </span>
+        )}
+      </div>
+
+      {href && !onSelect && (
+        <span className="inline-block mt-3 text-sm font-medium text-blue-600 dark:text-cyan-400">
+          Support this campaign →
+        </span>
+      )}
+    </>
+  );
+
+  const cardClassName = cn(
+    'block w-full p-5 rounded-2xl text-left',
+    'bg-white dark:bg-[#111111]',
+    'border-2 transition-all duration-200',
+    selected
+      ? 'border-blue-500 bg-blue-50/50 dark:bg-blue-900/10'
+      : 'border-gray-200 dark:border-[#262626]',
+    (onSelect || href) && !selected && 'hover:border-blue-500/50',
+    className
+  );
+
+  if (onSelect) {
+    return (
+      <button type="button" onClick={() => onSelect(campaign)} className={cardClassName}>
+        {content}
+      </button>
+    );
+  }
+
+  if (href) {
+    return (
+      <Link href={href} className={cardClassName}>
+        {content}
+      </Link>
+    );
+  }
+
+  return <div className={cardClassName}>{content}</div>;
+}
+
+/**
+ * Open campaigns, each linking to the donate page. Renders nothing when
+ * no campaign is running.
+ */
+interface ActiveCampaignsProps {
+  title?: string;
+  className?: string;
+}
+
+export function ActiveCampaigns({ title = 'Current Campaigns', className }: ActiveCampaignsProps) {
+  const [campaigns, setCampaigns] = useState<DonationCampaignProgress[]>([]);
+
+  useEffect(() => {
+    fetch('/api/donations/campaigns')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data) setCampaigns(data.campaigns);
+      })
+      .catch(() => {});
+  }, []);
+
+  if (campaigns.length === 0) return null;
+
+  return (
+    <section className={className}>
+      <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">{title}</h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {campaigns.map((campaign) => (
+          <CampaignProgress
+            key={campaign.id}
+            campaign={campaign}
+            href={`/donate?campaign=${campaign.slug}`}
+          />
+        ))}
+      </div>
+    </section>
+  );
+}
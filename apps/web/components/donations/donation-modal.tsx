@@ -3,7 +3,8 @@
 /**
  * DonationModal Component
  *
- * A multi-step donation modal supporting PayPal and bank transfer.
+ * A multi-step donation modal supporting the configured payment providers
+ * (PayPal, Stripe) and bank transfer.
  * Supports both one-time and recurring donations.
  *
  * Steps:
@@ -23,6 +24,8 @@ import {
   formatDonationAmount,
   type DonorBadgeTier,
   type PaymentMethod,
+  type PaymentProviderId,
+  type PaymentProviderOption,
   type DonationBankInfo,
   type RecurringFrequency,
 } from '@/lib/donations/types';
@@ -35,8 +38,12 @@ interface DonationSettings {
   maximum_amount: number;
   payment_methods: {
     paypal: boolean;
+    stripe: boolean;
     bank_transfer: boolean;
   };
+  /** Available providers, default first */
+  providers: PaymentProviderOption[];
+  default_provider: PaymentProviderId | null;
   recurring_enabled: boolean;
   badge_thresholds: Record<DonorBadgeTier, number>;
 }
@@ -79,7 +86,10 @@ export function DonationModal({ isOpen, onClose, onSuccess }: DonationModalProps
     if (isOpen) {
       fetch('/api/donations/settings')
         .then((res) => res.json())
-        .then((data) => setSettings(data))
+        .then((data: DonationSettings) => {
+          setSettings(data);
+          setPaymentMethod(data.default_provider ?? 'bank_transfer');
+        })
         .catch(() => showError('Failed to load donation settings'));
     }
   }, [isOpen, showError]);
@@ -104,45 +114,43 @@ export function DonationModal({ isOpen, onClose, onSuccess }: DonationModalProps
   // Get selected amount
   const selectedAmount = customAmount ? parseFloat(customAmount) : amount;
 
-  // Handle PayPal checkout (one-time or subscription)
-  // NOTE: Legacy function - PayPal checkout is now handled inline via PayPalDonateButtons
-  const _handlePayPalCheckout = async () => {
+  // Selected provider, if the payment method goes through one
+  const selectedProvider = settings?.providers.find((provider) => provider.id === paymentMethod);
+
+  // Providers offered for the chosen donation type
+  const providerOptions = settings?.providers.filter(
+    (provider) => donationType === 'one-time' || provider.supports_recurring
+  ) ?? [];
+
+  // Handle redirect checkout with the selected provider (one-time or subscription)
+  const handleProviderCheckout = async () => {
+    if (!selectedProvider) return;
+
     setIsProcessing(true);
     setStep('processing');
 
     try {
-      // Choose endpoint based on donation type
-      const endpoint = donationType === 'recurring'
-        ? '/api/donations/paypal/subscribe'
-        : '/api/donations/paypal/create';
-
-      const body = donationType === 'recurring'
-        ? {
-            amount: selectedAmount,
-            frequency,
-            message: message || undefined,
-            is_anonymous: isAnonymous,
-          }
-        : {
-            amount: selectedAmount,
-            message: message || undefined,
-            is_anonymous: isAnonymous,
-          };
-
-      const response = await fetch(endpoint, {
+      const response = await fetch('/api/donations/checkout', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(body),
+        body: JSON.stringify({
+          provider: selectedProvider.id,
+          amount: selectedAmount,
+          is_recurring: donationType === 'recurring',
+          recurring_frequency: donationType === 'recurring' ? frequency : undefined,
+          message: message || undefined,
+          is_anonymous: isAnonymous,
+        }),
       });
 
       if (!response.ok) {
         const error = await response.json();
-        throw new Error(error.error || 'Failed to create PayPal order');
+        throw new Error(error.error || 'Failed to start checkout');
       }
 
       const data = await response.json();
 
-      // Redirect to PayPal
+      // Redirect to the provider
       window.location.href = data.approval_url;
     } catch (error) {
       setIsProcessing(false);
@@ -487,27 +495,36 @@ export function DonationModal({ isOpen, onClose, onSuccess }: DonationModalProps
                 )}
 
                 <div className="space-y-3">
-                  {settings.payment_methods.paypal && (
+                  {providerOptions.map((provider) => (
                     <button
-                      onClick={() => setPaymentMethod('paypal')}
+                      key={provider.id}
+                      onClick={() => setPaymentMethod(provider.id)}
                       className={cn(
                         'w-full p-4 rounded-xl border-2 flex items-center gap-4 transition-all',
-                        paymentMethod === 'paypal'
+                        paymentMethod === provider.id
                           ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
                           : 'border-gray-200 dark:border-[#262626] hover:border-blue-500/50'
                       )}
                     >
-                      <div className="w-12 h-12 bg-[#003087] rounded-lg flex items-center justify-center">
-                        <span className="text-white font-bold text-sm">Pay</span>
-                      </div>
+                      {provider.id === 'paypal' ? (
+                        <div className="w-12 h-12 bg-[#003087] rounded-lg flex items-center justify-center">
+                          <span className="text-white font-bold text-sm">Pay</span>
+                        </div>
+                      ) : (
+                        <div className="w-12 h-12 bg-[#635bff] rounded-lg flex items-center justify-center">
+                          <svg className="w-6 h-6 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M7 15h1m4 0h1m-7 4h12a3 3 0 003-3V8a3 3 0 00-3-3H6a3 3 0 00-3 3v8a3 3 0 003 3z" />
+                          </svg>
+                        </div>
+                      )}
                       <div className="text-left">
-                        <div className="font-semibold text-gray-900 dark:text-white">PayPal</div>
+                        <div className="font-semibold text-gray-900 dark:text-white">{provider.name}</div>
                         <div className="text-sm text-gray-500 dark:text-gray-400">
-                          {donationType === 'recurring' ? 'Automatic recurring payments' : 'Fast and secure payment'}
+                          {donationType === 'recurring' ? 'Automatic recurring payments' : provider.description}
                         </div>
                       </div>
                     </button>
-                  )}
+                  ))}
 
                   {/* Bank transfer only available for one-time donations */}
                   {settings.payment_methods.bank_transfer && donationType === 'one-time' && (
@@ -551,10 +568,12 @@ export function DonationModal({ isOpen, onClose, onSuccess }: DonationModalProps
                   </button>
                   <button
                     onClick={() => setStep('message')}
+                    disabled={!selectedProvider && !(paymentMethod === 'bank_transfer' && donationType === 'one-time')}
                     className={cn(
                       'flex-1 py-3 rounded-xl font-semibold text-white',
                       'bg-gradient-to-r from-violet-600 via-blue-600 to-cyan-600',
                       'hover:shadow-lg hover:shadow-blue-500/25',
+                      'disabled:opacity-50 disabled:cursor-not-allowed',
                       'transition-all duration-200'
                     )}
                   >
@@ -619,19 +638,17 @@ export function DonationModal({ isOpen, onClose, onSuccess }: DonationModalProps
                   <div className="flex items-center justify-between text-sm mt-1">
                     <span className="text-gray-600 dark:text-gray-400">Method:</span>
                     <span className="font-semibold text-gray-900 dark:text-white capitalize">
-                      {paymentMethod === 'bank_transfer' ? 'Bank Transfer' : 'PayPal'}
+                      {selectedProvider?.name ?? 'Bank Transfer'}
                     </span>
                   </div>
                 </div>
 
-                {/* PayPal SDK Buttons (inline checkout) */}
-                {paymentMethod === 'paypal' && (
+                {/* PayPal SDK Buttons (inline checkout for one-time donations) */}
+                {paymentMethod === 'paypal' && donationType === 'one-time' && (
                   <div className="space-y-4">
                     <PayPalDonateButtons
                       amount={selectedAmount}
                       currency="USD"
-                      isRecurring={donationType === 'recurring'}
-                      frequency={frequency}
                       message={message || undefined}
                       isAnonymous={isAnonymous}
                       onSuccess={(data) => {
@@ -656,6 +673,31 @@ export function DonationModal({ isOpen, onClose, onSuccess }: DonationModalProps
                   </div>
                 )}
 
+                {/* Redirect checkout (other providers and subscriptions) */}
+                {selectedProvider && !(paymentMethod === 'paypal' && donationType === 'one-time') && (
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => setStep('method')}
+                      className="flex-1 py-3 rounded-xl font-medium border border-gray-200 dark:border-[#262626] hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors"
+                    >
+                      Back
+                    </button>
+                    <button
+                      onClick={handleProviderCheckout}
+                      disabled={isProcessing}
+                      className={cn(
+                        'flex-1 py-3 rounded-xl font-semibold text-white',
+                        'bg-gradient-to-r from-violet-600 via-blue-600 to-cyan-600',
+                        'hover:shadow-lg hover:shadow-blue-500/25',
+                        'disabled:opacity-50',
+                        'transition-all duration-200'
+                      )}
+                    >
+                      {isProcessing ? 'Redirecting...' : `Continue to ${selectedProvider.name}`}
+                    </button>
+                  </div>
+                )}
+
                 {/* Bank Transfer Button */}
                 {paymentMethod === 'bank_transfer' && (
                   <div className="flex gap-3">
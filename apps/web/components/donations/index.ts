@@ -4,3 +4,4 @@
 
 export { DonorBadge, DonorBadgeCompact, DonorBadgeProgress, DonorCard } from './donor-badge';
 export { DonationModal } from './donation-modal';
+export { CampaignProgress, ActiveCampaigns } from './campaign-progress';
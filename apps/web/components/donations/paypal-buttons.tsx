@@ -33,6 +33,8 @@ interface PayPalDonateButtonsProps {
   frequency?: RecurringFrequency;
   message?: string;
   isAnonymous?: boolean;
+  /** Campaign to attribute the donation to */
+  campaignId?: string;
   onSuccess: (data: {
     donationId: string;
     transactionId?: string;
@@ -53,6 +55,7 @@ interface PayPalButtonWrapperProps {
   currency: string;
   message?: string;
   isAnonymous: boolean;
+  campaignId?: string;
   onSuccess: PayPalDonateButtonsProps['onSuccess'];
   onError: (error: string) => void;
   onCancel?: () => void;
@@ -64,6 +67,7 @@ function PayPalButtonWrapper({
   currency,
   message,
   isAnonymous,
+  campaignId,
   onSuccess,
   onError,
   onCancel,
@@ -74,14 +78,16 @@ function PayPalButtonWrapper({
 
   // Create order on server
   const createOrder = useCallback(async (): Promise<string> => {
-    const response = await fetch('/api/donations/paypal/create', {
+    const response = await fetch('/api/donations/checkout', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
+        provider: 'paypal',
         amount,
         currency,
         message: message || undefined,
         is_anonymous: isAnonymous,
+        campaign_id: campaignId,
       }),
     });
 
@@ -91,18 +97,18 @@ function PayPalButtonWrapper({
     }
 
     const data = await response.json();
-    return data.order_id;
-  }, [amount, currency, message, isAnonymous]);
+    return data.checkout_id;
+  }, [amount, currency, message, isAnonymous, campaignId]);
 
   // Capture order after approval
   const onApprove = useCallback(
     async (data: { orderID: string }): Promise<void> => {
       setIsProcessing(true);
       try {
-        const response = await fetch('/api/donations/paypal/capture', {
+        const response = await fetch('/api/donations/checkout/capture', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ order_id: data.orderID }),
+          body: JSON.stringify({ provider: 'paypal', checkout_id: data.orderID }),
         });
 
         if (!response.ok) {
@@ -194,6 +200,7 @@ export function PayPalDonateButtons({
   frequency: _frequency = 'monthly',
   message,
   isAnonymous = false,
+  campaignId,
   onSuccess,
   onError,
   onCancel,
@@ -239,6 +246,7 @@ export function PayPalDonateButtons({
           currency={currency}
           message={message}
           isAnonymous={isAnonymous}
+          campaignId={campaignId}
           onSuccess={onSuccess}
           onError={onError}
           onCancel={onCancel}
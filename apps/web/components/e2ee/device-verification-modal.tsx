@@ -14,6 +14,7 @@
 import { useState, useEffect, useCallback, useRef } from "react";
 import { cn } from "@/lib/design-system";
 import { useToast } from "@/components/toast";
+import { useSession } from "@/lib/auth-client";
 import {
   startVerification,
   acceptVerification,
@@ -24,6 +25,7 @@ import {
   SAS_EMOJIS,
   type VerificationState,
 } from "@/lib/e2ee/device-verification";
+import { crossSignUser, signVerifiedOwnDevice } from "@/lib/e2ee/cross-signing";
 import {
   ShieldCheck,
   ShieldAlert,
@@ -179,6 +181,8 @@ export function DeviceVerificationModal({
   onSuccess,
 }: DeviceVerificationModalProps) {
   const toast = useToast();
+  const { data: session } = useSession();
+  const currentUserId = session?.user?.id;
   const [step, setStep] = useState<VerificationStep>("method-select");
   const [method, setMethod] = useState<VerificationMethod>("sas");
   const [verification, setVerification] = useState<VerificationState | null>(
@@ -404,13 +408,24 @@ export function DeviceVerificationModal({
         SAS_EMOJIS.findIndex((s) => s.emoji === e.emoji)
       );
       await confirmVerification(verification.verificationId, emojiIndices, true);
+
+      // Cross-sign what we just verified so their other devices are trusted too.
+      // Best effort: the SAS result is already recorded.
+      if (currentUserId) {
+        const signed =
+          verification.targetUserId === currentUserId
+            ? signVerifiedOwnDevice(currentUserId, verification.targetDeviceId)
+            : crossSignUser(verification.targetUserId);
+        signed.catch((err) => console.warn("[Verification] Cross-signing failed:", err));
+      }
+
       setStep("success");
       onSuccess?.();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Confirmation failed");
       setStep("failed");
     }
-  }, [verification, emojis, onSuccess]);
+  }, [verification, emojis, onSuccess, currentUserId]);
 
   // Confirm no match
   const handleConfirmNoMatch = useCallback(async () => {
@@ -10,40 +10,31 @@
  * - AI-powered follow-up
  */
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { cn } from "@/lib/design-system";
 import { openAIAssistant } from "@/components/unified-chat";
-import {
-  getCachedFAQs,
-  getFAQsByCategory,
-  recordFAQFeedback,
-  initializeDefaultFAQs,
-  FAQ_CATEGORIES,
-  type GeneratedFAQ,
-} from "@/lib/faq-generator";
+import { getCategoryLabel } from "@/lib/faq-generator";
+import { getPublishedFaqs, voteOnFaq, type FAQEntry } from "@/app/actions/faq";
 
 export function FAQContent() {
-  const [faqs, setFaqs] = useState<GeneratedFAQ[]>([]);
+  const [allFaqs, setAllFaqs] = useState<FAQEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
   const [activeCategory, setActiveCategory] = useState<string | null>(null);
   const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
   const [feedbackGiven, setFeedbackGiven] = useState<Set<string>>(new Set());
 
-  // Load FAQs on mount
+  // Load published FAQs on mount
   useEffect(() => {
-    initializeDefaultFAQs();
-     
-    setFaqs(getCachedFAQs());
+    getPublishedFaqs()
+      .then((result) => setAllFaqs(result.faqs || []))
+      .finally(() => setIsLoading(false));
   }, []);
 
   // Filter FAQs by category
-  useEffect(() => {
-    if (activeCategory) {
-       
-      setFaqs(getFAQsByCategory(activeCategory));
-    } else {
-      setFaqs(getCachedFAQs());
-    }
-  }, [activeCategory]);
+  const faqs = useMemo(
+    () => (activeCategory ? allFaqs.filter((f) => f.category === activeCategory) : allFaqs),
+    [allFaqs, activeCategory]
+  );
 
   // Toggle FAQ expansion
   const toggleExpand = useCallback((id: string) => {
@@ -60,8 +51,8 @@ export function FAQContent() {
 
   // Handle feedback
   const handleFeedback = useCallback((faqId: string, helpful: boolean) => {
-    recordFAQFeedback(faqId, helpful);
     setFeedbackGiven((prev) => new Set(prev).add(faqId));
+    voteOnFaq(faqId, helpful);
   }, []);
 
   // Ask AI for more details
@@ -72,18 +63,8 @@ export function FAQContent() {
     []
   );
 
-  // Group FAQs by category
-  const faqsByCategory = faqs.reduce(
-    (acc, faq) => {
-      const cat = faq.category || "general";
-      if (!acc[cat]) acc[cat] = [];
-      acc[cat].push(faq);
-      return acc;
-    },
-    {} as Record<string, GeneratedFAQ[]>
-  );
-
-  const categories = Object.keys(faqsByCategory);
+  // Categories that have at least one FAQ
+  const categories = Array.from(new Set(allFaqs.map((faq) => faq.category || "general")));
 
   return (
     <div className="space-y-8">
@@ -111,14 +92,21 @@ export function FAQContent() {
                 : "bg-gray-100 dark:bg-[#1a1a1a] text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
             )}
           >
-            {FAQ_CATEGORIES[cat as keyof typeof FAQ_CATEGORIES] || cat}
+            {getCategoryLabel(cat)}
           </button>
         ))}
       </div>
 
       {/* FAQ List */}
       <div className="space-y-4">
-        {faqs.length === 0 ? (
+        {isLoading ? (
+          Array.from({ length: 4 }).map((_, i) => (
+            <div
+              key={i}
+              className="h-14 rounded-xl bg-gray-100 dark:bg-[#111111] border border-gray-200 dark:border-[#262626] animate-pulse"
+            />
+          ))
+        ) : faqs.length === 0 ? (
           <div className="text-center py-12">
             <p className="text-gray-500">No FAQs in this category yet.</p>
           </div>
@@ -168,7 +156,7 @@ export function FAQContent() {
 }
 
 interface FAQItemProps {
-  faq: GeneratedFAQ;
+  faq: FAQEntry;
   isExpanded: boolean;
   hasFeedback: boolean;
   onToggle: () => void;
@@ -3,11 +3,19 @@
 /**
  * Leaderboard Component
  *
- * Displays top users by points with ranks and levels.
+ * Displays top users by points with ranks and levels. Pass `windows` to
+ * show tabs for switching between weekly, monthly, season and all-time
+ * standings; the parent fetches the entries for the active window.
  */
 
 import { cn } from "@/lib/design-system";
-import { getLevelFromPoints, type LeaderboardEntry } from "@/lib/gamification";
+import {
+  getLevelFromPoints,
+  levels,
+  LEADERBOARD_WINDOWS,
+  type LeaderboardEntry,
+  type LeaderboardWindow,
+} from "@/lib/gamification";
 import { ProfileHoverCard } from "@/components/users/profile-hover-card";
 
 interface LeaderboardProps {
@@ -16,6 +24,48 @@ interface LeaderboardProps {
   className?: string;
   variant?: "default" | "compact";
   title?: string;
+  /** Shown under the title, e.g. the active window's dates */
+  subtitle?: string;
+  windows?: LeaderboardWindow[];
+  activeWindow?: LeaderboardWindow;
+  onWindowChange?: (window: LeaderboardWindow) => void;
+}
+
+// Entries carry the all-time level, which windowed points don't reflect
+function getEntryLevel(entry: LeaderboardEntry) {
+  return levels.find((l) => l.level === entry.level) ?? getLevelFromPoints(entry.points);
+}
+
+function WindowTabs({
+  windows,
+  activeWindow,
+  onWindowChange,
+}: {
+  windows: LeaderboardWindow[];
+  activeWindow?: LeaderboardWindow;
+  onWindowChange?: (window: LeaderboardWindow) => void;
+}) {
+  return (
+    <div className="flex flex-wrap gap-1" role="tablist">
+      {windows.map((window) => (
+        <button
+          key={window}
+          type="button"
+          role="tab"
+          aria-selected={window === activeWindow}
+          onClick={() => onWindowChange?.(window)}
+          className={cn(
+            "px-2.5 py-1 rounded-md text-xs font-medium transition-colors",
+            window === activeWindow
+              ? "bg-violet-600 text-white"
+              : "text-gray-500 hover:text-gray-900 dark:hover:text-white hover:bg-gray-100 dark:hover:bg-gray-800"
+          )}
+        >
+          {LEADERBOARD_WINDOWS[window]}
+        </button>
+      ))}
+    </div>
+  );
 }
 
 export function Leaderboard({
@@ -24,6 +74,10 @@ export function Leaderboard({
   className,
   variant = "default",
   title = "Leaderboard",
+  subtitle,
+  windows,
+  activeWindow,
+  onWindowChange,
 }: LeaderboardProps) {
   const getRankDisplay = (rank: number) => {
     switch (rank) {
@@ -42,10 +96,14 @@ export function Leaderboard({
     return (
       <div className={cn("space-y-2", className)}>
         <h3 className="text-sm font-semibold text-gray-900 dark:text-white">{title}</h3>
+        {windows && (
+          <WindowTabs windows={windows} activeWindow={activeWindow} onWindowChange={onWindowChange} />
+        )}
+        {subtitle && <p className="text-xs text-gray-500">{subtitle}</p>}
         <div className="space-y-1">
           {entries.slice(0, 5).map((entry) => {
             const rank = getRankDisplay(entry.rank);
-            const level = getLevelFromPoints(entry.points);
+            const level = getEntryLevel(entry);
             const isCurrentUser = entry.user_id === currentUserId;
 
             // Build user data for hover card
@@ -85,6 +143,9 @@ export function Leaderboard({
               </div>
             );
           })}
+          {entries.length === 0 && (
+            <p className="px-2 py-4 text-center text-sm text-gray-500">No points earned yet.</p>
+          )}
         </div>
       </div>
     );
@@ -100,14 +161,18 @@ export function Leaderboard({
         className
       )}
     >
-      <div className="px-4 py-3 border-b border-gray-200 dark:border-[#262626]">
+      <div className="px-4 py-3 border-b border-gray-200 dark:border-[#262626] space-y-2">
         <h3 className="font-semibold text-gray-900 dark:text-white">{title}</h3>
+        {windows && (
+          <WindowTabs windows={windows} activeWindow={activeWindow} onWindowChange={onWindowChange} />
+        )}
+        {subtitle && <p className="text-xs text-gray-500">{subtitle}</p>}
       </div>
 
       <div className="divide-y divide-gray-100 dark:divide-gray-800">
         {entries.map((entry) => {
           const rank = getRankDisplay(entry.rank);
-          const level = getLevelFromPoints(entry.points);
+          const level = getEntryLevel(entry);
           const isCurrentUser = entry.user_id === currentUserId;
 
           // Build user data for hover card
@@ -4,7 +4,7 @@ import { useState, useRef, useEffect, ReactNode, Fragment } from "react";
 import { createPortal } from "react-dom";
 import Link from "next/link";
 import { cn } from "@/lib/design-system";
-import { buildSearchIndex, type SearchDocument } from "@/lib/search";
+import { loadSearchIndex, type SearchDocument } from "@/lib/search";
 
 // URL detection regex - matches http(s) URLs
 // Using function to create fresh regex each time (avoids global state issues with lastIndex)
@@ -17,14 +17,22 @@ function createPathRegex() {
   return /(?:^|\s)(\/(?:docs|resources|assistant|changelog|privacy|terms|disclaimer|accessibility)(?:\/[^\s.,!?;:)"'<>]*)?)/g;
 }
 
-// Cache for search index
+// Cache for search index (loaded lazily; lookups fall through until it arrives)
 let searchIndexCache: SearchDocument[] | null = null;
+let searchIndexRequested = false;
 
 function getSearchIndex(): SearchDocument[] {
-  if (!searchIndexCache) {
-    searchIndexCache = buildSearchIndex();
+  if (!searchIndexCache && !searchIndexRequested) {
+    searchIndexRequested = true;
+    loadSearchIndex()
+      .then((documents) => {
+        searchIndexCache = documents;
+      })
+      .catch(() => {
+        searchIndexRequested = false;
+      });
   }
-  return searchIndexCache;
+  return searchIndexCache ?? [];
 }
 
 // Get page info for internal paths or claudeinsider.com links
@@ -8,6 +8,8 @@
  * - Virtual scrolling for performance (VirtualizedMessageList)
  * - Optimized real-time via Broadcast (7.6x faster typing indicators)
  * - E2EE badge with device verification
+ * - Encrypted file and image attachments (decrypted inline)
+ * - Editing with history, emoji reactions and threaded replies
  * - @mention autocomplete with global user search
  * - Message highlighting for deep linking
  * - Consistent gradient styling
@@ -20,6 +22,10 @@ import { AvatarWithStatus } from "@/components/presence";
 import { ConversationE2EEBadge } from "@/components/messaging/e2ee-indicator";
 import { DeviceVerificationModal } from "@/components/e2ee/device-verification-modal";
 import { useE2EEContext } from "@/components/providers/e2ee-provider";
+import { useEncryptedMessaging, getDecryptionKey } from "@/hooks/use-encrypted-messaging";
+import { useContactKeyTrust } from "@/hooks/use-contact-key-trust";
+import { ATTACHMENT_LIMITS, formatAttachmentSize } from "@/lib/e2ee";
+import { applyReactionChange, type ReactionChange } from "@/lib/message-reactions";
 import { VirtualizedMessageList } from "@/components/messaging/virtualized-message-list";
 import { ProfileHoverCard } from "@/components/users/profile-hover-card";
 import {
@@ -30,6 +36,9 @@ import {
 import {
   getMessages,
   sendMessage,
+  editMessage,
+  toggleReaction,
+  getThreadReplies,
   markConversationAsRead,
   markMessagesAsRead,
   getReadReceipts,
@@ -46,6 +55,25 @@ import {
 } from "@/lib/realtime/realtime-context";
 import { AI_ASSISTANT_USER_ID } from "@/lib/roles";
 
+/**
+ * Append a message, counting it on its parent's thread if it's a reply
+ */
+function appendMessage(messages: Message[], message: Message): Message[] {
+  const next = [...messages, message];
+  if (!message.replyToId) return next;
+  return next.map((m) =>
+    m.id === message.replyToId ? { ...m, threadReplyCount: (m.threadReplyCount ?? 0) + 1 } : m
+  );
+}
+
+/**
+ * Compare timestamps that may differ in format (realtime vs. API responses)
+ */
+function isSameTime(a?: string | null, b?: string | null): boolean {
+  if (!a || !b) return !a && !b;
+  return new Date(a).getTime() === new Date(b).getTime();
+}
+
 interface ConversationViewProps {
   conversationId: string;
   currentUserId: string;
@@ -79,23 +107,46 @@ export function ConversationView({
   const [isVerified, setIsVerified] = useState(false);
   // Read receipts state: messageId -> ReadReceipt[]
   const [readReceipts, setReadReceipts] = useState<Record<string, ReadReceipt[]>>({});
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [composerError, setComposerError] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
 
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const inputWrapperRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const prevTypingUsersCount = useRef(0);
   // Queue for messages that need read receipt broadcast (to avoid circular dependency)
   const pendingReadReceiptIdsRef = useRef<string[]>([]);
+  // Encrypted messages already handed to the decryptor
+  const decryptAttemptedRef = useRef(new Set<string>());
 
   // Sound effects for chat
   const { playMessageReceived, playMessageSent, playTyping, playMention } = useSound();
 
   // E2EE context for encryption status
   const e2ee = useE2EEContext();
+  const {
+    isE2EEReady,
+    sendEncryptedMessage,
+    editEncryptedMessage,
+    decryptReceivedMessage,
+    claimPendingSessions,
+  } = useEncryptedMessaging();
 
   // Get other participant for DM header
   const otherParticipant = participants.find((p) => p.userId !== currentUserId);
   const isAIConversation = otherParticipant?.userId === AI_ASSISTANT_USER_ID;
+  const conversationType = participants.length > 2 ? "group" : "direct";
+
+  // Cross-signing trust and key change warnings for the other participant
+  const keyTrust = useContactKeyTrust(
+    otherParticipant?.userId,
+    !isAIConversation && conversationType === "direct" && e2ee.isInitialized
+  );
+  const hasKeyWarning =
+    keyTrust.keyChanges.length > 0 || keyTrust.unloggedDevices.length > 0 || !!keyTrust.logError;
 
   // Build mentionable users list from participants (memoized for performance)
   const mentionableUsers: MentionUser[] = useMemo(() => {
@@ -196,9 +247,10 @@ export function ConversationView({
           senderDeviceId: payload.sender_device_id,
           senderKey: payload.sender_key,
           sessionId: payload.session_id,
+          replyToId: payload.reply_to_id ?? undefined,
         };
 
-        return [...prev, message];
+        return appendMessage(prev, message);
       });
 
       // Play sound for new messages from others
@@ -224,6 +276,45 @@ export function ConversationView({
     [conversationId, participants, currentUserId, playMessageReceived, playMention]
   );
 
+  // Apply edits and deletions from realtime subscription
+  const handleRealtimeMessageUpdate = useCallback((payload: MessagePayload) => {
+    setMessages((prev) => {
+      if (payload.deleted_at) {
+        return prev.filter((m) => m.id !== payload.id);
+      }
+
+      return prev.map((m) => {
+        // Skip unchanged messages (including own edits, already applied)
+        if (m.id !== payload.id || isSameTime(m.editedAt, payload.edited_at)) return m;
+
+        // Edited E2EE messages are re-decrypted (see decrypt effect below)
+        return {
+          ...m,
+          content: payload.content,
+          editedAt: payload.edited_at ?? undefined,
+          metadata: payload.metadata,
+          encryptedContent: payload.encrypted_content,
+          encryptionAlgorithm: payload.encryption_algorithm,
+          senderDeviceId: payload.sender_device_id,
+          senderKey: payload.sender_key,
+          sessionId: payload.session_id,
+          editHistory: undefined,
+        };
+      });
+    });
+  }, []);
+
+  // Apply reactions from others via realtime subscription
+  const handleReactionChange = useCallback((change: ReactionChange) => {
+    setMessages((prev) =>
+      prev.map((m) =>
+        m.id === change.messageId
+          ? { ...m, reactions: applyReactionChange(m.reactions, change) }
+          : m
+      )
+    );
+  }, []);
+
   // Handle typing indicator changes - play sound once when typing starts
   const handleTypingChange = useCallback((userIds: string[]) => {
     // Play sound when typing users goes from 0 to 1+ (once, not continuous)
@@ -264,6 +355,8 @@ export function ConversationView({
     conversationId,
     currentUserId,
     onMessage: handleRealtimeMessage,
+    onMessageUpdate: handleRealtimeMessageUpdate,
+    onReactionChange: handleReactionChange,
     onTypingChange: handleTypingChange,
     onReadReceipt: handleReadReceipt,
     enabled: !isLoading, // Only subscribe after initial load
@@ -329,6 +422,44 @@ export function ConversationView({
     loadMessages();
   }, [conversationId, currentUserId, currentUserProfile, sendReadReceipt]);
 
+  // Decrypt E2EE messages (text and attachment keys) as they arrive
+  useEffect(() => {
+    if (!isE2EEReady) return;
+
+    // Keyed by version, so edited messages are decrypted again
+    const pending = messages.filter(
+      (m) =>
+        m.isEncrypted && m.encryptedContent && !decryptAttemptedRef.current.has(getDecryptionKey(m))
+    );
+    if (pending.length === 0) return;
+    for (const m of pending) decryptAttemptedRef.current.add(getDecryptionKey(m));
+
+    const decryptPending = async () => {
+      // Megolm keys for new group sessions arrive as pending shares
+      if (pending.some((m) => m.encryptionAlgorithm === "megolm.v1")) {
+        await claimPendingSessions();
+      }
+
+      // Sequentially - Olm sessions ratchet forward with each message
+      const decrypted = new Map<string, Message>();
+      for (const m of pending) {
+        decrypted.set(
+          m.id,
+          await decryptReceivedMessage(conversationId, { ...m, isEncrypted: true })
+        );
+      }
+      // Skip results for versions that were replaced while decrypting
+      setMessages((prev) =>
+        prev.map((m) => {
+          const result = decrypted.get(m.id);
+          return result && isSameTime(result.editedAt, m.editedAt) ? result : m;
+        })
+      );
+    };
+
+    decryptPending();
+  }, [messages, isE2EEReady, conversationId, claimPendingSessions, decryptReceivedMessage]);
+
   // Scroll to target message when deep linking from notifications
   useEffect(() => {
     if (!targetMessageId || isLoading || messages.length === 0) return;
@@ -403,9 +534,141 @@ export function ConversationView({
     setCursorPosition(target.selectionStart || 0);
   };
 
+  // Queue files to send with the next message
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (selected.length === 0) return;
+
+    const tooLarge = selected.find((file) => file.size > ATTACHMENT_LIMITS.maxFileSize);
+    if (tooLarge) {
+      setComposerError(
+        `${tooLarge.name} is larger than ${formatAttachmentSize(ATTACHMENT_LIMITS.maxFileSize)}`
+      );
+      return;
+    }
+
+    const next = [...pendingFiles, ...selected];
+    if (next.length > ATTACHMENT_LIMITS.maxPerMessage) {
+      setComposerError(`You can attach up to ${ATTACHMENT_LIMITS.maxPerMessage} files`);
+      return;
+    }
+
+    setComposerError(null);
+    setPendingFiles(next);
+  };
+
+  // Files are always encrypted, so they go through the E2EE path
+  const sendWithAttachments = async (content: string, files: File[], replyToId?: string) => {
+    setComposerError(null);
+    const result = await sendEncryptedMessage(conversationId, content, conversationType, {
+      files,
+      replyToId,
+    });
+
+    if (result.success && result.message) {
+      const sent = result.message;
+      setPendingFiles([]);
+      setReplyingTo(null);
+      // The realtime copy may have arrived first
+      setMessages((prev) =>
+        prev.some((m) => m.id === sent.id)
+          ? prev.map((m) => (m.id === sent.id ? sent : m))
+          : appendMessage(prev, sent)
+      );
+      playMessageSent();
+    } else {
+      setInputValue(content);
+      setComposerError(result.error || "Failed to send attachments");
+    }
+  };
+
+  // Save an edit; E2EE messages are re-encrypted with their history
+  const saveEdit = async (message: Message, content: string) => {
+    setComposerError(null);
+    const result = message.isEncrypted
+      ? await editEncryptedMessage(message, content, conversationType)
+      : await editMessage(message.id, content);
+
+    if (result.success && result.message) {
+      const edited = result.message;
+      if (message.isEncrypted) {
+        decryptAttemptedRef.current.add(getDecryptionKey(edited));
+      }
+      setMessages((prev) => prev.map((m) => (m.id === edited.id ? { ...m, ...edited } : m)));
+      setEditingMessage(null);
+    } else {
+      setInputValue(content);
+      setComposerError(result.error || "Failed to edit message");
+    }
+  };
+
+  const startReply = useCallback((message: Message) => {
+    setEditingMessage(null);
+    setReplyingTo(message);
+    inputRef.current?.focus();
+  }, []);
+
+  const startEdit = useCallback((message: Message) => {
+    setReplyingTo(null);
+    setPendingFiles([]);
+    setEditingMessage(message);
+    setInputValue(message.content);
+    inputRef.current?.focus();
+  }, []);
+
+  const cancelComposerMode = () => {
+    if (editingMessage) setInputValue("");
+    setEditingMessage(null);
+    setReplyingTo(null);
+  };
+
+  // Toggle a reaction, applied optimistically
+  const handleToggleReaction = useCallback(
+    async (message: Message, emoji: string) => {
+      const change: ReactionChange = {
+        messageId: message.id,
+        userId: currentUserId,
+        emoji,
+        added: !message.reactions?.some(
+          (r) => r.emoji === emoji && r.userIds.includes(currentUserId)
+        ),
+      };
+      handleReactionChange(change);
+
+      const result = await toggleReaction(message.id, emoji);
+      if (result.success && result.reactions) {
+        const reactions = result.reactions;
+        setMessages((prev) => prev.map((m) => (m.id === message.id ? { ...m, reactions } : m)));
+      } else {
+        handleReactionChange({ ...change, added: !change.added });
+      }
+    },
+    [currentUserId, handleReactionChange]
+  );
+
+  // Fetch a thread's replies, decrypting E2EE ones
+  const loadThread = useCallback(
+    async (parentId: string): Promise<Message[]> => {
+      const result = await getThreadReplies(parentId);
+      if (!result.success || !result.replies) return [];
+
+      const replies: Message[] = [];
+      for (const reply of result.replies) {
+        replies.push(
+          reply.isEncrypted && reply.encryptedContent && isE2EEReady
+            ? await decryptReceivedMessage(conversationId, { ...reply, isEncrypted: true })
+            : reply
+        );
+      }
+      return replies;
+    },
+    [conversationId, isE2EEReady, decryptReceivedMessage]
+  );
+
   // Send message
   const handleSend = async () => {
-    if (!inputValue.trim() || isSending) return;
+    if ((!inputValue.trim() && pendingFiles.length === 0) || isSending) return;
 
     const content = inputValue.trim();
     setInputValue("");
@@ -417,10 +680,25 @@ export function ConversationView({
     // Clear typing indicator immediately via Broadcast
     sendTyping(false);
 
-    const result = await sendMessage(conversationId, content);
+    if (editingMessage) {
+      await saveEdit(editingMessage, content);
+      setIsSending(false);
+      inputRef.current?.focus();
+      return;
+    }
+
+    if (pendingFiles.length > 0) {
+      await sendWithAttachments(content, pendingFiles, replyingTo?.id);
+      setIsSending(false);
+      inputRef.current?.focus();
+      return;
+    }
+
+    const result = await sendMessage(conversationId, content, replyingTo?.id);
 
     if (result.success && result.message) {
-      setMessages((prev) => [...prev, result.message!]);
+      setReplyingTo(null);
+      setMessages((prev) => appendMessage(prev, result.message!));
       // Play sent sound on success
       playMessageSent();
 
@@ -454,6 +732,9 @@ export function ConversationView({
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSend();
+    } else if (e.key === "Escape" && (editingMessage || replyingTo)) {
+      e.preventDefault();
+      cancelComposerMode();
     }
   };
 
@@ -548,7 +829,7 @@ export function ConversationView({
           <ConversationE2EEBadge
             e2eeEnabled={e2ee.isInitialized}
             allParticipantsHaveE2EE={e2ee.isInitialized}
-            isVerified={isVerified}
+            isVerified={isVerified || keyTrust.isVerified}
             size="sm"
             onVerifyClick={() => setShowVerificationModal(true)}
             targetUserId={otherParticipant?.userId}
@@ -574,10 +855,39 @@ export function ConversationView({
           onSuccess={() => {
             setIsVerified(true);
             setShowVerificationModal(false);
+            void keyTrust.acknowledge().then(keyTrust.refresh);
           }}
         />
       )}
 
+      {/* Key change warning - contact's keys changed without cross-signing */}
+      {!isAIConversation && hasKeyWarning && (
+        <div className="flex-shrink-0 flex items-center gap-3 px-4 py-2 text-sm bg-amber-50 dark:bg-amber-900/20 border-b border-amber-200 dark:border-amber-800 text-amber-800 dark:text-amber-300">
+          <p className="flex-1 min-w-0">
+            {keyTrust.logError
+              ? `Couldn't verify ${otherParticipant?.displayName || otherParticipant?.name || "this user"}'s key history: ${keyTrust.logError}`
+              : keyTrust.unloggedDevices.length > 0
+                ? `${otherParticipant?.displayName || otherParticipant?.name || "This user"} has a device that isn't in their public key history. Verify them to make sure no one else is reading this conversation.`
+                : `${otherParticipant?.displayName || otherParticipant?.name || "This user"}'s security keys changed. Verify them to make sure no one else is reading this conversation.`}
+          </p>
+          <button
+            onClick={() => setShowVerificationModal(true)}
+            className="flex-shrink-0 px-2 py-1 rounded-md font-medium hover:bg-amber-100 dark:hover:bg-amber-900/40 transition-colors"
+          >
+            Verify
+          </button>
+          {/* Unlogged devices stay flagged until the log accounts for them */}
+          {!keyTrust.logError && keyTrust.unloggedDevices.length === 0 && (
+            <button
+              onClick={() => void keyTrust.acknowledge()}
+              className="flex-shrink-0 px-2 py-1 rounded-md hover:bg-amber-100 dark:hover:bg-amber-900/40 transition-colors"
+            >
+              Dismiss
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Messages - Virtualized for performance */}
       <VirtualizedMessageList
         messages={messages}
@@ -591,11 +901,67 @@ export function ConversationView({
         highlightedMessageId={highlightedMessageId}
         readReceipts={readReceipts}
         participantCount={participants.length - 1}
+        onReply={startReply}
+        onEdit={startEdit}
+        onToggleReaction={handleToggleReaction}
+        loadThread={loadThread}
         className="p-4"
       />
 
       {/* Input - flex-shrink-0 ensures this stays fixed at bottom */}
       <div className="flex-shrink-0 p-4 border-t border-gray-200 dark:border-[#262626]">
+        {/* Reply or edit in progress */}
+        {(replyingTo || editingMessage) && (
+          <div className="flex items-center gap-2 mb-2 pl-3 border-l-2 border-blue-500 dark:border-cyan-400">
+            <div className="flex-1 min-w-0 text-xs">
+              <p className="font-medium text-gray-700 dark:text-gray-300">
+                {editingMessage
+                  ? "Editing message"
+                  : `Replying to ${replyingTo?.senderId === currentUserId ? "yourself" : replyingTo?.senderName || "message"}`}
+              </p>
+              {replyingTo && (
+                <p className="truncate text-gray-500 dark:text-gray-400">{replyingTo.content}</p>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={cancelComposerMode}
+              disabled={isSending}
+              className="flex-shrink-0 p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+              aria-label={editingMessage ? "Cancel edit" : "Cancel reply"}
+            >
+              <CloseIcon className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+
+        {/* Files queued for the next message */}
+        {pendingFiles.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-2">
+            {pendingFiles.map((file, index) => (
+              <span
+                key={`${file.name}-${index}`}
+                className="flex items-center gap-1.5 max-w-[14rem] px-2.5 py-1 rounded-lg text-xs bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300"
+              >
+                <span className="truncate">{file.name}</span>
+                <span className="flex-shrink-0 text-gray-400">{formatAttachmentSize(file.size)}</span>
+                <button
+                  type="button"
+                  onClick={() => setPendingFiles((prev) => prev.filter((_, i) => i !== index))}
+                  disabled={isSending}
+                  className="flex-shrink-0 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                  aria-label={`Remove ${file.name}`}
+                >
+                  <CloseIcon className="w-3.5 h-3.5" />
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        {composerError && (
+          <p className="text-xs text-red-500 mb-2 ml-1">{composerError}</p>
+        )}
+
         <div ref={inputWrapperRef} className="relative flex items-end gap-2">
           {/* Mention Autocomplete - positioned above input */}
           <MentionAutocomplete
@@ -609,6 +975,33 @@ export function ConversationView({
             position={{ top: 8, left: 0 }}
           />
 
+          {!isAIConversation && (
+            <>
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                onChange={handleFilesSelected}
+                className="hidden"
+              />
+              <button
+                type="button"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={!isE2EEReady || isSending || !!editingMessage}
+                title={isE2EEReady ? "Attach files" : "Set up encryption to share files"}
+                aria-label="Attach files"
+                className={cn(
+                  "p-3 rounded-xl transition-colors",
+                  "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300",
+                  "hover:bg-gray-100 dark:hover:bg-gray-800",
+                  "disabled:opacity-50 disabled:cursor-not-allowed"
+                )}
+              >
+                <AttachIcon className="h-5 w-5" />
+              </button>
+            </>
+          )}
+
           <textarea
             ref={inputRef}
             value={inputValue}
@@ -632,7 +1025,7 @@ export function ConversationView({
           />
           <button
             onClick={handleSend}
-            disabled={!inputValue.trim() || isSending}
+            disabled={(!inputValue.trim() && pendingFiles.length === 0) || isSending}
             className={cn(
               "p-3 rounded-xl transition-all",
               "bg-gradient-to-r from-violet-600 via-blue-600 to-cyan-600",
@@ -676,6 +1069,38 @@ function BackIcon({ className }: { className?: string }) {
   );
 }
 
+function AttachIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M15.172 7l-6.586 6.586a2 2 0 102.828 2.828l6.414-6.586a4 4 0 00-5.656-5.656l-6.415 6.585a6 6 0 108.486 8.486L20.5 13"
+      />
+    </svg>
+  );
+}
+
+function CloseIcon({ className }: { className?: string }) {
+  return (
+    <svg
+      className={className}
+      viewBox="0 0 24 24"
+      fill="none"
+      stroke="currentColor"
+      strokeWidth={2}
+    >
+      <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+    </svg>
+  );
+}
+
 function SendIcon({ className }: { className?: string }) {
   return (
     <svg
@@ -0,0 +1,294 @@
+"use client";
+
+/**
+ * Message Attachments Component
+ *
+ * Renders files shared in an encrypted message:
+ * - Images show their thumbnail inline; clicking loads the full image
+ * - Other files show name and size with a download button
+ * - Expired attachments (see ATTACHMENT_LIMITS.expiryDays) show a notice
+ *
+ * Blobs are fetched through short-lived signed URLs and decrypted in the
+ * browser with the keys from the message payload.
+ */
+
+import { useEffect, useState } from "react";
+import { cn } from "@/lib/design-system";
+import {
+  decryptAttachment,
+  formatAttachmentSize,
+  INLINE_IMAGE_TYPES,
+  type EncryptedAttachmentInfo,
+  type MessageAttachment,
+} from "@/lib/e2ee";
+
+type LoadState =
+  | { status: "idle" | "loading" | "expired" | "error" }
+  | { status: "ready"; url: string };
+
+class AttachmentExpiredError extends Error {}
+
+/**
+ * Download and decrypt an attachment (or its thumbnail) into an object URL
+ */
+async function loadAttachmentUrl(
+  attachmentId: string,
+  info: EncryptedAttachmentInfo,
+  mimeType: string,
+  variant: "file" | "thumbnail"
+): Promise<string> {
+  const response = await fetch(`/api/messages/attachments/${attachmentId}`);
+  if (response.status === 410 || response.status === 404) {
+    throw new AttachmentExpiredError();
+  }
+  if (!response.ok) {
+    throw new Error("Failed to load attachment");
+  }
+
+  const { url, thumbnailUrl } = (await response.json()) as {
+    url: string;
+    thumbnailUrl: string | null;
+  };
+  const blobUrl = variant === "thumbnail" ? thumbnailUrl : url;
+  if (!blobUrl) throw new Error("Attachment has no thumbnail");
+
+  const blobResponse = await fetch(blobUrl);
+  if (!blobResponse.ok) {
+    throw new Error("Failed to download attachment");
+  }
+
+  const blob = await decryptAttachment(await blobResponse.arrayBuffer(), info, mimeType);
+  return URL.createObjectURL(blob);
+}
+
+/**
+ * Decrypted object URL for an attachment, revoked on unmount
+ */
+function useAttachmentUrl(
+  attachment: MessageAttachment,
+  variant: "file" | "thumbnail",
+  enabled: boolean
+): LoadState {
+  const [state, setState] = useState<LoadState>({ status: "idle" });
+  const info = variant === "thumbnail" ? attachment.thumbnail?.file : attachment.file;
+  const mimeType = variant === "thumbnail" ? "image/jpeg" : attachment.mimeType;
+
+  useEffect(() => {
+    if (!enabled || !info) return;
+
+    let cancelled = false;
+    let objectUrl: string | null = null;
+    setState({ status: "loading" });
+
+    loadAttachmentUrl(attachment.id, info, mimeType, variant)
+      .then((url) => {
+        objectUrl = url;
+        if (cancelled) URL.revokeObjectURL(url);
+        else setState({ status: "ready", url });
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        if (!(error instanceof AttachmentExpiredError)) {
+          console.error("Failed to load attachment:", error);
+        }
+        setState({ status: error instanceof AttachmentExpiredError ? "expired" : "error" });
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [attachment.id, info, mimeType, variant, enabled]);
+
+  return state;
+}
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+  isOwnMessage: boolean;
+  className?: string;
+}
+
+export function MessageAttachments({ attachments, isOwnMessage, className }: MessageAttachmentsProps) {
+  return (
+    <div className={cn("flex flex-col gap-2", className)}>
+      {attachments.map((attachment) =>
+        INLINE_IMAGE_TYPES.includes(attachment.mimeType) ? (
+          <ImageAttachment key={attachment.id} attachment={attachment} isOwnMessage={isOwnMessage} />
+        ) : (
+          <FileAttachment key={attachment.id} attachment={attachment} isOwnMessage={isOwnMessage} />
+        )
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Image
+// ============================================================================
+
+function ImageAttachment({
+  attachment,
+  isOwnMessage,
+}: {
+  attachment: MessageAttachment;
+  isOwnMessage: boolean;
+}) {
+  const [isExpanded, setIsExpanded] = useState(!attachment.thumbnail);
+  const thumbnail = useAttachmentUrl(attachment, "thumbnail", !!attachment.thumbnail);
+  const full = useAttachmentUrl(attachment, "file", isExpanded);
+
+  const shown = full.status === "ready" ? full : thumbnail;
+  const failure =
+    full.status === "expired" || thumbnail.status === "expired"
+      ? "expired"
+      : full.status === "error" || thumbnail.status === "error"
+        ? "error"
+        : null;
+
+  // Reserve space so the virtualized list doesn't jump when the image loads
+  const aspectRatio =
+    attachment.width && attachment.height ? `${attachment.width} / ${attachment.height}` : "4 / 3";
+
+  if (failure && shown.status !== "ready") {
+    return <AttachmentNotice name={attachment.name} status={failure} isOwnMessage={isOwnMessage} />;
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={() => setIsExpanded(true)}
+      disabled={isExpanded}
+      className="block w-64 max-w-full overflow-hidden rounded-lg bg-black/10 disabled:cursor-default"
+      style={{ aspectRatio }}
+      aria-label={isExpanded ? attachment.name : `Load full image: ${attachment.name}`}
+    >
+      {shown.status === "ready" ? (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img src={shown.url} alt={attachment.name} className="w-full h-full object-cover" />
+      ) : (
+        <div className="w-full h-full flex items-center justify-center">
+          <div className="w-5 h-5 border-2 border-current border-t-transparent rounded-full animate-spin opacity-60" />
+        </div>
+      )}
+    </button>
+  );
+}
+
+// ============================================================================
+// File
+// ============================================================================
+
+function FileAttachment({
+  attachment,
+  isOwnMessage,
+}: {
+  attachment: MessageAttachment;
+  isOwnMessage: boolean;
+}) {
+  const [isRequested, setIsRequested] = useState(false);
+  const file = useAttachmentUrl(attachment, "file", isRequested);
+
+  const save = (url: string) => {
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = attachment.name;
+    link.click();
+  };
+
+  // Save the file as soon as it's decrypted
+  const readyUrl = file.status === "ready" ? file.url : null;
+  useEffect(() => {
+    if (readyUrl) save(readyUrl);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [readyUrl]);
+
+  if (file.status === "expired" || file.status === "error") {
+    return (
+      <AttachmentNotice name={attachment.name} status={file.status} isOwnMessage={isOwnMessage} />
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-3 rounded-lg px-3 py-2 min-w-[12rem]",
+        isOwnMessage ? "bg-white/15" : "bg-white dark:bg-[#262626]"
+      )}
+    >
+      <FileIcon className="w-5 h-5 flex-shrink-0 opacity-80" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate">{attachment.name}</p>
+        <p className={cn("text-xs", isOwnMessage ? "text-white/70" : "text-gray-500 dark:text-gray-400")}>
+          {formatAttachmentSize(attachment.size)}
+        </p>
+      </div>
+      <button
+        type="button"
+        onClick={() => (readyUrl ? save(readyUrl) : setIsRequested(true))}
+        disabled={file.status === "loading"}
+        className={cn(
+          "p-1.5 rounded-md transition-colors disabled:opacity-50",
+          isOwnMessage ? "hover:bg-white/20" : "hover:bg-gray-100 dark:hover:bg-gray-700"
+        )}
+        aria-label={`Download ${attachment.name}`}
+      >
+        {file.status === "loading" ? (
+          <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin" />
+        ) : (
+          <DownloadIcon className="w-4 h-4" />
+        )}
+      </button>
+    </div>
+  );
+}
+
+function AttachmentNotice({
+  name,
+  status,
+  isOwnMessage,
+}: {
+  name: string;
+  status: "expired" | "error";
+  isOwnMessage: boolean;
+}) {
+  return (
+    <div
+      className={cn(
+        "flex items-center gap-2 rounded-lg px-3 py-2 text-xs",
+        isOwnMessage ? "bg-white/15 text-white/80" : "bg-white dark:bg-[#262626] text-gray-500 dark:text-gray-400"
+      )}
+    >
+      <FileIcon className="w-4 h-4 flex-shrink-0" />
+      <span className="truncate">
+        {name} · {status === "expired" ? "Expired" : "Couldn't decrypt"}
+      </span>
+    </div>
+  );
+}
+
+// ============================================================================
+// Icons
+// ============================================================================
+
+function FileIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2}>
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+      />
+    </svg>
+  );
+}
+
+function DownloadIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+    </svg>
+  );
+}
+
+export default MessageAttachments;
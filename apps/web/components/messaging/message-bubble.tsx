@@ -6,15 +6,27 @@
  * Displays a single message in a conversation with:
  * - Sender avatar and name with hovercards
  * - Message content with linkified URLs
+ * - Decrypted file and image attachments
+ * - Quote of the message being replied to
+ * - Emoji reactions and hover actions (react, reply, edit)
  * - Special styling for AI-generated messages
- * - Timestamp
+ * - Timestamp, with the edit history behind "(edited)"
  */
 
+import { useState } from "react";
 import { cn } from "@/lib/design-system";
 import { AI_ASSISTANT_USER_ID } from "@/lib/roles";
-import type { Message, ReadReceipt } from "@/app/actions/messaging";
+import { QUICK_REACTIONS } from "@/lib/message-reactions";
+import {
+  getMessageEditHistory,
+  type Message,
+  type MessageEditVersion,
+  type MessageReplyPreview,
+  type ReadReceipt,
+} from "@/app/actions/messaging";
 import Link from "next/link";
 import { ProfileHoverCard, type ProfileHoverCardUser } from "@/components/users/profile-hover-card";
+import { MessageAttachments } from "./message-attachments";
 
 /** User data for @mention hover cards */
 export interface MentionedUser {
@@ -44,6 +56,16 @@ interface MessageBubbleProps {
   participantCount?: number;
   /** Map of lowercase username -> user data for @mention hover cards */
   mentionedUsers?: Record<string, MentionedUser>;
+  /** Current user ID (highlights own reactions) */
+  currentUserId?: string;
+  /** Quoted parent, when this is a reply (defaults to message.replyTo) */
+  replyPreview?: MessageReplyPreview;
+  /** Called when the quoted parent is clicked */
+  onQuoteClick?: (messageId: string) => void;
+  onReply?: (message: Message) => void;
+  /** Only offered for own messages */
+  onEdit?: (message: Message) => void;
+  onToggleReaction?: (message: Message, emoji: string) => void;
   className?: string;
 }
 
@@ -345,9 +367,17 @@ export function MessageBubble({
   conversationType = "direct",
   participantCount = 1,
   mentionedUsers,
+  currentUserId,
+  replyPreview = message.replyTo,
+  onQuoteClick,
+  onReply,
+  onEdit,
+  onToggleReaction,
   className,
 }: MessageBubbleProps) {
+  const [isPickerOpen, setIsPickerOpen] = useState(false);
   const isAI = message.senderId === AI_ASSISTANT_USER_ID || message.isAiGenerated;
+  const canEdit = isOwnMessage && !isAI && !!onEdit && !message.deletedAt;
 
   // Calculate read status for own messages
   const readStatus = isOwnMessage
@@ -423,11 +453,12 @@ export function MessageBubble({
   return (
     <div
       className={cn(
-        "flex gap-2",
+        "group flex gap-2",
         isOwnMessage ? "flex-row-reverse" : "flex-row",
         groupSpacingClass,
         className
       )}
+      onMouseLeave={() => setIsPickerOpen(false)}
     >
       {/* Avatar column - only shown in group chats */}
       {!isOwnMessage && showAvatar && (
@@ -524,26 +555,74 @@ export function MessageBubble({
                 )
           )}
         >
-          <p className="text-sm whitespace-pre-wrap break-words">
-            {linkifyContent(message.content, mentionedUsers)}
-          </p>
+          {message.replyToId && (
+            <ReplyQuote
+              preview={replyPreview}
+              isOwnMessage={isOwnMessage}
+              onClick={onQuoteClick}
+            />
+          )}
+          {message.attachments && message.attachments.length > 0 && (
+            <MessageAttachments
+              attachments={message.attachments}
+              isOwnMessage={isOwnMessage}
+              className={cn("my-1", message.content && "mb-2")}
+            />
+          )}
+          {message.content && (
+            <p className="text-sm whitespace-pre-wrap break-words">
+              {linkifyContent(message.content, mentionedUsers)}
+            </p>
+          )}
         </div>
 
+        {/* Reactions */}
+        {message.reactions && message.reactions.length > 0 && (
+          <div className={cn("flex flex-wrap gap-1 mt-1", isOwnMessage ? "justify-end" : "justify-start")}>
+            {message.reactions.map((reaction) => {
+              const isMine = !!currentUserId && reaction.userIds.includes(currentUserId);
+              return (
+                <button
+                  key={reaction.emoji}
+                  type="button"
+                  onClick={() => onToggleReaction?.(message, reaction.emoji)}
+                  disabled={!onToggleReaction}
+                  className={cn(
+                    "flex items-center gap-1 px-1.5 py-0.5 rounded-full text-xs border transition-colors",
+                    isMine
+                      ? "border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-cyan-300"
+                      : "border-gray-200 dark:border-gray-700 bg-white dark:bg-[#1a1a1a] text-gray-600 dark:text-gray-300 hover:border-gray-300 dark:hover:border-gray-600"
+                  )}
+                  aria-pressed={isMine}
+                  aria-label={`${reaction.emoji} ${reaction.count}`}
+                >
+                  <span>{reaction.emoji}</span>
+                  <span>{reaction.count}</span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
         {/* Timestamp and read status - only show for last message in group */}
-        {isLastInGroup && (
+        {(isLastInGroup || message.editedAt) && (
           <div
             className={cn(
               "flex items-center gap-1.5 mt-0.5",
               isOwnMessage ? "mr-1 flex-row-reverse" : "ml-1"
             )}
           >
-            <span className="text-xs text-gray-500 dark:text-gray-400">
-              {formatTime(message.createdAt)}
-              {message.editedAt && " (edited)"}
-            </span>
+            {isLastInGroup && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {formatTime(message.createdAt)}
+              </span>
+            )}
+            {message.editedAt && (
+              <EditedLabel key={message.editedAt} message={message} isOwnMessage={isOwnMessage} />
+            )}
 
             {/* Read status for own messages */}
-            {isOwnMessage && readStatus && (
+            {isLastInGroup && isOwnMessage && readStatus && (
               <span className="flex items-center gap-1.5 text-xs">
                 {readStatus.status === "delivered" && (
                   <>
@@ -590,10 +669,195 @@ export function MessageBubble({
           </div>
         )}
       </div>
+
+      {/* Hover actions */}
+      {(onToggleReaction || onReply || canEdit) && !message.deletedAt && (
+        <div
+          className={cn(
+            "relative self-center flex items-center gap-0.5 transition-opacity",
+            isPickerOpen ? "opacity-100" : "opacity-0 group-hover:opacity-100 focus-within:opacity-100"
+          )}
+        >
+          {onToggleReaction && (
+            <MessageActionButton label="Add reaction" onClick={() => setIsPickerOpen((open) => !open)}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M14.828 14.828a4 4 0 01-5.656 0M9 10h.01M15 10h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </MessageActionButton>
+          )}
+          {onReply && (
+            <MessageActionButton label="Reply" onClick={() => onReply(message)}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+            </MessageActionButton>
+          )}
+          {canEdit && (
+            <MessageActionButton label="Edit" onClick={() => onEdit?.(message)}>
+              <path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" />
+            </MessageActionButton>
+          )}
+
+          {/* Quick reaction picker */}
+          {isPickerOpen && onToggleReaction && (
+            <div
+              className={cn(
+                "absolute bottom-full mb-1 z-20 flex gap-0.5 p-1 rounded-full shadow-lg",
+                "bg-white dark:bg-[#1a1a1a] border border-gray-200 dark:border-gray-700",
+                isOwnMessage ? "right-0" : "left-0"
+              )}
+              role="menu"
+            >
+              {QUICK_REACTIONS.map((emoji) => (
+                <button
+                  key={emoji}
+                  type="button"
+                  role="menuitem"
+                  onClick={() => {
+                    onToggleReaction(message, emoji);
+                    setIsPickerOpen(false);
+                  }}
+                  className="w-8 h-8 rounded-full text-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+                  aria-label={`React with ${emoji}`}
+                >
+                  {emoji}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
 
+function MessageActionButton({
+  label,
+  onClick,
+  children,
+}: {
+  label: string;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="p-1.5 rounded-full text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:hover:text-gray-200 dark:hover:bg-gray-800 transition-colors"
+      aria-label={label}
+      title={label}
+    >
+      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
+        {children}
+      </svg>
+    </button>
+  );
+}
+
+// ============================================
+// REPLY QUOTE
+// ============================================
+
+function ReplyQuote({
+  preview,
+  isOwnMessage,
+  onClick,
+}: {
+  preview?: MessageReplyPreview;
+  isOwnMessage: boolean;
+  onClick?: (messageId: string) => void;
+}) {
+  const text = !preview
+    ? "Original message unavailable"
+    : preview.isDeleted
+      ? "Original message was deleted"
+      : preview.content;
+
+  return (
+    <button
+      type="button"
+      onClick={() => preview && onClick?.(preview.id)}
+      disabled={!preview || !onClick}
+      className={cn(
+        "block w-full text-left mb-1.5 pl-2 py-0.5 border-l-2 rounded-sm text-xs disabled:cursor-default",
+        isOwnMessage
+          ? "border-white/60 text-white/80 hover:bg-white/10"
+          : "border-blue-500 dark:border-cyan-400 text-gray-600 dark:text-gray-400 hover:bg-black/5 dark:hover:bg-white/5"
+      )}
+    >
+      {preview?.senderName && <span className="block font-medium">{preview.senderName}</span>}
+      <span className="block truncate">{text}</span>
+    </button>
+  );
+}
+
+// ============================================
+// EDIT HISTORY
+// ============================================
+
+/**
+ * "(edited)" label that opens the message's previous versions. E2EE
+ * messages carry their history in the decrypted payload; plaintext
+ * history is fetched when first opened.
+ */
+function EditedLabel({ message, isOwnMessage }: { message: Message; isOwnMessage: boolean }) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [fetched, setFetched] = useState<MessageEditVersion[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const versions = message.isEncrypted ? message.editHistory ?? [] : fetched;
+
+  const toggle = async () => {
+    const opening = !isOpen;
+    setIsOpen(opening);
+    if (!opening || message.isEncrypted || fetched) return;
+
+    setIsLoading(true);
+    const result = await getMessageEditHistory(message.id);
+    setFetched(result.success && result.versions ? result.versions : []);
+    setIsLoading(false);
+  };
+
+  return (
+    <span className="relative">
+      <button
+        type="button"
+        onClick={toggle}
+        className="text-xs text-gray-500 dark:text-gray-400 hover:underline"
+        aria-expanded={isOpen}
+      >
+        (edited)
+      </button>
+      {isOpen && (
+        <div
+          className={cn(
+            "absolute bottom-full mb-1 z-20 w-64 max-h-60 overflow-y-auto p-2 rounded-lg shadow-lg",
+            "bg-white dark:bg-[#1a1a1a] border border-gray-200 dark:border-gray-700",
+            isOwnMessage ? "right-0" : "left-0"
+          )}
+        >
+          <p className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">Edit history</p>
+          {isLoading ? (
+            <div className="w-4 h-4 my-1 border-2 border-blue-600 border-t-transparent rounded-full animate-spin" />
+          ) : versions && versions.length > 0 ? (
+            <ul className="space-y-2">
+              {versions.map((version) => (
+                <li key={version.writtenAt} className="text-xs">
+                  <span className="block text-gray-400 dark:text-gray-500">
+                    {formatTime(version.writtenAt)}
+                  </span>
+                  <span className="block text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">
+                    {version.content || "(empty)"}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-xs text-gray-500 dark:text-gray-400">No earlier versions available</p>
+          )}
+        </div>
+      )}
+    </span>
+  );
+}
+
 // ============================================
 // TYPING INDICATOR
 // ============================================
@@ -11,6 +11,7 @@
  * - Auto-scroll to bottom for new messages and streaming content
  * - Supports streaming content, loading indicators, and error states
  * - Actions (Listen, Copy) for assistant messages
+ * - Assistant tool-call steps, live while streaming and saved on messages
  */
 
 import { useRef, useEffect, useCallback, useState, type ReactNode } from "react";
@@ -21,6 +22,7 @@ import {
   ChatMessageLoading,
   ChatMessageStreaming,
 } from "@/components/chat/chat-message";
+import type { AssistantToolStep } from "@/lib/claude-utils";
 
 // ============================================================================
 // Types
@@ -29,6 +31,7 @@ import {
 export interface AIMessage {
   role: "user" | "assistant";
   content: string;
+  toolSteps?: AssistantToolStep[];
 }
 
 interface Recommendation {
@@ -39,6 +42,8 @@ interface Recommendation {
 interface VirtualizedAIMessageListProps {
   messages: AIMessage[];
   streamingContent?: string;
+  /** Tool calls for the response currently being generated */
+  toolSteps?: AssistantToolStep[];
   isLoading?: boolean;
   error?: string | null;
   renderActions?: (message: AIMessage, index: number) => ReactNode;
@@ -62,6 +67,7 @@ interface VirtualizedAIMessageListProps {
 export function VirtualizedAIMessageList({
   messages,
   streamingContent = "",
+  toolSteps = [],
   isLoading = false,
   error = null,
   renderActions,
@@ -210,6 +216,7 @@ export function VirtualizedAIMessageList({
                 <ChatMessage
                   role={msg.role}
                   content={msg.content}
+                  toolSteps={msg.toolSteps}
                   actions={renderActions?.(msg, index)}
                 />
               </div>
@@ -231,7 +238,7 @@ export function VirtualizedAIMessageList({
                   transform: `translateY(${virtualRow.start}px)`,
                 }}
               >
-                <ChatMessageStreaming content={streamingContent} />
+                <ChatMessageStreaming content={streamingContent} toolSteps={toolSteps} />
                 {/* Stop button when auto-speaking during fake-stream */}
                 {isSpeaking && onStopSpeaking && (
                   <div className="flex justify-end px-4 -mt-2 mb-2">
@@ -271,7 +278,7 @@ export function VirtualizedAIMessageList({
                   transform: `translateY(${virtualRow.start}px)`,
                 }}
               >
-                <ChatMessageLoading />
+                <ChatMessageLoading toolSteps={toolSteps} />
               </div>
             );
           }
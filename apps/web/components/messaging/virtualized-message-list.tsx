@@ -14,13 +14,15 @@
  * - Scroll anchoring with tracked message IDs (Matrix SDK pattern)
  * - Shrink prevention for typing indicator transitions
  * - Unfilling: removes messages far off-screen (>6000px) for memory efficiency
+ * - Reply threads: replies quote their parent, and parents expand a
+ *   collapsible thread panel with every reply
  */
 
 import { useRef, useEffect, useCallback, useState, forwardRef, useImperativeHandle } from "react";
 import { useVirtualizer } from "@tanstack/react-virtual";
 import { cn } from "@/lib/design-system";
 import { MessageBubble, TypingIndicator, DateSeparator, type MentionedUser } from "./message-bubble";
-import type { Message, ReadReceipt } from "@/app/actions/messaging";
+import type { Message, MessageReplyPreview, ReadReceipt } from "@/app/actions/messaging";
 
 // ============================================================================
 // Scroll State Types (Matrix SDK pattern)
@@ -108,6 +110,11 @@ interface VirtualizedMessageListProps {
    * Matrix SDK pattern for memory efficiency in long conversations.
    */
   onUnfill?: (backwards: boolean, messageCount: number) => void;
+  onReply?: (message: Message) => void;
+  onEdit?: (message: Message) => void;
+  onToggleReaction?: (message: Message, emoji: string) => void;
+  /** Fetch (and decrypt) every reply to a message for its thread panel */
+  loadThread?: (parentId: string) => Promise<Message[]>;
   className?: string;
 }
 
@@ -178,6 +185,111 @@ function groupMessagesWithDates(messages: Message[]): MessageGroup[] {
   return groups;
 }
 
+/**
+ * Quote for a reply, preferring the loaded (and decrypted) parent over the
+ * server preview
+ */
+function getReplyPreview(
+  message: Message,
+  messagesById: Map<string, Message>
+): MessageReplyPreview | undefined {
+  if (!message.replyToId) return undefined;
+  const parent = messagesById.get(message.replyToId);
+  if (!parent) return message.replyTo;
+  return {
+    id: parent.id,
+    senderId: parent.senderId,
+    senderName: parent.senderName,
+    content: parent.content,
+    isEncrypted: parent.isEncrypted,
+    isDeleted: !!parent.deletedAt,
+  };
+}
+
+// ============================================================================
+// Thread Panel
+// ============================================================================
+
+interface ThreadPanelProps {
+  parent: Message;
+  /** Loaded conversation messages; newer copies of replies win */
+  messages: Message[];
+  currentUserId: string;
+  isGroupChat: boolean;
+  mentionedUsers: Record<string, MentionedUser>;
+  loadThread?: (parentId: string) => Promise<Message[]>;
+  onEdit?: (message: Message) => void;
+  onToggleReaction?: (message: Message, emoji: string) => void;
+}
+
+function ThreadPanel({
+  parent,
+  messages,
+  currentUserId,
+  isGroupChat,
+  mentionedUsers,
+  loadThread,
+  onEdit,
+  onToggleReaction,
+}: ThreadPanelProps) {
+  const [fetched, setFetched] = useState<Message[]>([]);
+  const [isLoading, setIsLoading] = useState(!!loadThread);
+
+  useEffect(() => {
+    if (!loadThread) return;
+    let cancelled = false;
+
+    loadThread(parent.id)
+      .then((replies) => {
+        if (!cancelled) setFetched(replies);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [parent.id, loadThread]);
+
+  const byId = new Map(fetched.map((m) => [m.id, m]));
+  for (const m of messages) {
+    if (m.replyToId === parent.id) byId.set(m.id, m);
+  }
+  const replies = Array.from(byId.values())
+    .filter((m) => !m.deletedAt)
+    .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  return (
+    <div className="ml-10 mr-4 mb-2 pl-3 border-l-2 border-gray-200 dark:border-gray-700">
+      {isLoading && replies.length === 0 ? (
+        <div className="py-2">
+          <div className="animate-spin w-4 h-4 border-2 border-blue-600 border-t-transparent rounded-full" />
+        </div>
+      ) : (
+        replies.map((reply) => {
+          const isOwn = reply.senderId === currentUserId;
+          return (
+            <MessageBubble
+              key={reply.id}
+              // The thread already shows what these reply to
+              message={{ ...reply, replyToId: undefined }}
+              isOwnMessage={isOwn}
+              showSender={!isOwn && isGroupChat}
+              showAvatar={false}
+              conversationType={isGroupChat ? "group" : "direct"}
+              mentionedUsers={mentionedUsers}
+              currentUserId={currentUserId}
+              onEdit={onEdit}
+              onToggleReaction={onToggleReaction}
+            />
+          );
+        })
+      )}
+    </div>
+  );
+}
+
 // ============================================================================
 // Component
 // ============================================================================
@@ -197,6 +309,10 @@ export const VirtualizedMessageList = forwardRef<VirtualizedMessageListHandle, V
     participantCount = 1,
     mentionedUsers = {},
     onUnfill,
+    onReply,
+    onEdit,
+    onToggleReaction,
+    loadThread,
     className,
   }, ref) {
   const parentRef = useRef<HTMLDivElement>(null);
@@ -217,8 +333,14 @@ export const VirtualizedMessageList = forwardRef<VirtualizedMessageListHandle, V
   // Unfill debounce timer (Matrix SDK pattern)
   const unfillDebounceRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Parents whose thread panel is expanded
+  const [openThreads, setOpenThreads] = useState<Set<string>>(new Set());
+  // Message briefly highlighted after jumping to it from a reply quote
+  const [jumpedToMessageId, setJumpedToMessageId] = useState<string | null>(null);
+
   // Group messages with date separators
   const items = groupMessagesWithDates(messages);
+  const messagesById = new Map(messages.map((m) => [m.id, m]));
 
   // Add typing indicator as a virtual item if someone is typing
   const showTyping = typingUsers.length > 0;
@@ -258,6 +380,35 @@ export const VirtualizedMessageList = forwardRef<VirtualizedMessageListHandle, V
     },
   }), [virtualizer, totalCount]);
 
+  const toggleThread = useCallback((messageId: string) => {
+    setOpenThreads((prev) => {
+      const next = new Set(prev);
+      if (next.has(messageId)) next.delete(messageId);
+      else next.add(messageId);
+      return next;
+    });
+  }, []);
+
+  // Jump to a quoted parent (only if it's loaded)
+  const scrollToMessage = useCallback(
+    (messageId: string) => {
+      const index = items.findIndex(
+        (item) => item.type === "message" && item.message?.id === messageId
+      );
+      if (index === -1) return;
+
+      virtualizer.scrollToIndex(index, { align: "center", behavior: "smooth" });
+      setJumpedToMessageId(messageId);
+    },
+    [items, virtualizer]
+  );
+
+  useEffect(() => {
+    if (!jumpedToMessageId) return;
+    const timer = setTimeout(() => setJumpedToMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [jumpedToMessageId]);
+
   // Check if scrolled to bottom
   const checkIfAtBottom = useCallback(() => {
     const el = parentRef.current;
@@ -679,7 +830,9 @@ export const VirtualizedMessageList = forwardRef<VirtualizedMessageListHandle, V
           if (item.type === "message" && item.message) {
             const msg = item.message;
             const isOwn = msg.senderId === currentUserId;
-            const isHighlighted = msg.id === highlightedMessageId;
+            const isHighlighted = msg.id === highlightedMessageId || msg.id === jumpedToMessageId;
+            const replyCount = msg.threadReplyCount ?? 0;
+            const isThreadOpen = openThreads.has(msg.id);
             return (
               <div
                 key={msg.id}
@@ -714,7 +867,52 @@ export const VirtualizedMessageList = forwardRef<VirtualizedMessageListHandle, V
                   participantCount={participantCount}
                   // Mentioned users for @mention hover cards
                   mentionedUsers={mentionedUsers}
+                  currentUserId={currentUserId}
+                  replyPreview={getReplyPreview(msg, messagesById)}
+                  onQuoteClick={scrollToMessage}
+                  onReply={onReply}
+                  onEdit={onEdit}
+                  onToggleReaction={onToggleReaction}
                 />
+
+                {/* Thread toggle and panel */}
+                {replyCount > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => toggleThread(msg.id)}
+                    className={cn(
+                      "flex w-fit items-center gap-1 mb-1 text-xs font-medium",
+                      "text-blue-500 hover:text-blue-600 dark:text-cyan-400 dark:hover:text-cyan-300",
+                      isOwn ? "ml-auto mr-1" : isGroupChat ? "ml-11" : "ml-1"
+                    )}
+                    aria-expanded={isThreadOpen}
+                  >
+                    <svg
+                      className={cn("w-3 h-3 transition-transform", isThreadOpen && "rotate-90")}
+                      fill="none"
+                      viewBox="0 0 24 24"
+                      stroke="currentColor"
+                      strokeWidth={2.5}
+                    >
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M9 5l7 7-7 7" />
+                    </svg>
+                    {isThreadOpen
+                      ? "Hide replies"
+                      : `${replyCount} ${replyCount === 1 ? "reply" : "replies"}`}
+                  </button>
+                )}
+                {isThreadOpen && (
+                  <ThreadPanel
+                    parent={msg}
+                    messages={messages}
+                    currentUserId={currentUserId}
+                    isGroupChat={isGroupChat}
+                    mentionedUsers={mentionedUsers}
+                    loadThread={loadThread}
+                    onEdit={onEdit}
+                    onToggleReaction={onToggleReaction}
+                  />
+                )}
               </div>
             );
           }
@@ -101,6 +101,7 @@ function createSafeDefaults(): UseE2EEReturn {
     replenishPrekeys: noOp,
     createBackup: noOp,
     restoreFromBackup: noOp,
+    restoreMessageHistory: async () => 0,
     checkBackupExists: async () => false,
     destroy: noOp,
     regenerateDevice: noOp,
@@ -162,13 +163,19 @@ export function useE2EEPublicKeys() {
  * Get backup status
  */
 export function useE2EEBackup() {
-  const { hasBackup, createBackup, restoreFromBackup, checkBackupExists } =
-    useE2EEContext();
+  const {
+    hasBackup,
+    createBackup,
+    restoreFromBackup,
+    restoreMessageHistory,
+    checkBackupExists,
+  } = useE2EEContext();
 
   return {
     hasBackup,
     createBackup,
     restoreFromBackup,
+    restoreMessageHistory,
     checkBackupExists,
   };
 }
@@ -3,9 +3,10 @@
 import { useState, useEffect, useCallback, useRef, useTransition } from "react";
 import { createPortal } from "react-dom";
 import { useRouter } from "next/navigation";
+import { useLocale } from "next-intl";
 import Fuse from "fuse.js";
 import {
-  buildSearchIndex,
+  loadSearchIndex,
   createSearchInstance,
   SearchDocument,
 } from "@/lib/search";
@@ -32,6 +33,8 @@ export function Search() {
   const inputRef = useRef<HTMLInputElement>(null);
   const triggerButtonRef = useRef<HTMLButtonElement>(null);
   const fuseRef = useRef<Fuse<SearchDocument> | null>(null);
+  const [indexReady, setIndexReady] = useState(false);
+  const locale = useLocale();
   const router = useRouter();
   const { announce } = useAnnouncer();
 
@@ -68,11 +71,20 @@ export function Search() {
     }
   }, [isOpen]);
 
-  // Initialize search index
+  // Initialize search index (loaded lazily as a separate chunk)
   useEffect(() => {
-    const documents = buildSearchIndex();
-    fuseRef.current = createSearchInstance(documents);
-  }, []);
+    let cancelled = false;
+    loadSearchIndex(locale)
+      .then((documents) => {
+        if (cancelled) return;
+        fuseRef.current = createSearchInstance(documents);
+        setIndexReady(true);
+      })
+      .catch((error) => console.error("Failed to load search index:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [locale]);
 
   // Handle keyboard shortcut to open search
   useEffect(() => {
@@ -125,7 +137,7 @@ export function Search() {
         announce("No results found");
       }
     });
-  }, [query, announce]);
+  }, [query, indexReady, announce]);
 
   // Handle keyboard navigation
   const handleKeyDown = useCallback(
@@ -12,6 +12,7 @@ import { useState, useEffect } from "react";
 import { cn } from "@/lib/design-system";
 import { ANTHROPIC_URLS, type ClaudeModel, type AnthropicAccountInfo, getBestAvailableModel } from "@/lib/api-keys";
 import { triggerCreditsRefresh } from "@/hooks/use-api-credits";
+import { CloudProviderCredentials } from "./cloud-provider-credentials";
 
 interface ApiKeyInfo {
   id: string;
@@ -873,6 +874,9 @@ export function ApiKeySettings() {
         </>
       )}
 
+      {/* Cloud Providers */}
+      <CloudProviderCredentials apiKeys={apiKeys} onChange={fetchApiKeys} />
+
       {/* Help Links */}
       <div className="flex flex-wrap gap-4 pt-4 border-t border-gray-200 dark:border-[#262626]">
         <a
@@ -0,0 +1,366 @@
+"use client";
+
+/**
+ * API Token Settings Component
+ *
+ * Issues and revokes personal access tokens for the public API (/api/v1).
+ * A new token is shown once, right after it is created.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { cn } from "@/lib/design-system";
+import { useToast } from "@/components/toast";
+import type { PersonalAccessToken } from "@/lib/api-tokens";
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString(undefined, {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+function getTokenStatus(token: PersonalAccessToken): "active" | "expired" | "revoked" {
+  if (token.revokedAt) return "revoked";
+  if (token.expiresAt && new Date(token.expiresAt) <= new Date()) return "expired";
+  return "active";
+}
+
+const inputClassName = cn(
+  "w-full px-4 py-2.5 rounded-lg text-sm",
+  "bg-white dark:bg-[#0a0a0a]",
+  "border border-gray-200 dark:border-[#262626]",
+  "text-gray-900 dark:text-white",
+  "placeholder:text-gray-400",
+  "focus:outline-none focus:ring-2 focus:ring-blue-500"
+);
+
+const primaryButtonClassName = cn(
+  "px-4 py-2 rounded-lg text-sm font-medium",
+  "bg-gradient-to-r from-violet-600 via-blue-600 to-cyan-600",
+  "text-white shadow-lg shadow-blue-500/25",
+  "hover:opacity-90 transition-opacity",
+  "disabled:opacity-50"
+);
+
+const secondaryButtonClassName = cn(
+  "px-3 py-1.5 rounded-lg text-sm",
+  "border border-gray-200 dark:border-[#262626]",
+  "text-gray-600 dark:text-gray-400",
+  "hover:bg-gray-100 dark:hover:bg-[#1a1a1a]"
+);
+
+export function ApiTokenSettings() {
+  const toast = useToast();
+
+  const [tokens, setTokens] = useState<PersonalAccessToken[]>([]);
+  const [scopes, setScopes] = useState<Record<string, string>>({});
+  const [expiryOptions, setExpiryOptions] = useState<number[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Create form
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState("");
+  const [selectedScopes, setSelectedScopes] = useState<string[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(90);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Shown once after creation
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const loadTokens = useCallback(async () => {
+    try {
+      const res = await fetch("/api/user/api-tokens");
+      if (res.ok) {
+        const data = await res.json();
+        setTokens(data.tokens);
+        setScopes(data.scopes);
+        setExpiryOptions(data.expiryOptions);
+      }
+    } catch {
+      // Leave the list empty
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  const toggleScope = (scope: string) => {
+    setSelectedScopes((current) =>
+      current.includes(scope) ? current.filter((s) => s !== scope) : [...current, scope]
+    );
+  };
+
+  const resetForm = () => {
+    setIsCreating(false);
+    setName("");
+    setSelectedScopes([]);
+    setExpiresInDays(90);
+  };
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      toast.error("Give the token a name");
+      return;
+    }
+    if (selectedScopes.length === 0) {
+      toast.error("Select at least one scope");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const res = await fetch("/api/user/api-tokens", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: name.trim(), scopes: selectedScopes, expiresInDays }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        toast.error(data.error || "Failed to create token");
+        return;
+      }
+
+      setNewToken(data.token);
+      setTokens((current) => [data.record, ...current]);
+      resetForm();
+    } catch {
+      toast.error("Failed to create token");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    try {
+      const res = await fetch(`/api/user/api-tokens/${id}`, { method: "DELETE" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        toast.error(data.error || "Failed to revoke token");
+        return;
+      }
+      setRevokingId(null);
+      toast.success("Token revoked");
+      loadTokens();
+    } catch {
+      toast.error("Failed to revoke token");
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newToken) return;
+    try {
+      await navigator.clipboard.writeText(newToken);
+      toast.success("Token copied");
+    } catch {
+      toast.error("Copy failed, select the token and copy it manually");
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse space-y-3">
+        <div className="h-10 bg-gray-200 dark:bg-[#1a1a1a] rounded-lg" />
+        <div className="h-16 bg-gray-200 dark:bg-[#1a1a1a] rounded-lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Tokens authenticate requests to the public API with{" "}
+          <code className="px-1 py-0.5 rounded bg-gray-100 dark:bg-[#1a1a1a] text-xs">
+            Authorization: Bearer &lt;token&gt;
+          </code>
+          . See the{" "}
+          <a
+            href="/api/v1/openapi.json"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 dark:text-cyan-400 hover:underline"
+          >
+            OpenAPI spec
+          </a>{" "}
+          for the available endpoints.
+        </p>
+        {!isCreating && (
+          <button onClick={() => setIsCreating(true)} className={cn(primaryButtonClassName, "shrink-0")}>
+            New Token
+          </button>
+        )}
+      </div>
+
+      {/* New token, shown once */}
+      {newToken && (
+        <div className="p-4 rounded-lg border border-emerald-500/30 bg-emerald-50 dark:bg-emerald-900/10">
+          <p className="text-sm font-medium text-emerald-800 dark:text-emerald-300 mb-2">
+            Copy your new token now. You won&apos;t be able to see it again.
+          </p>
+          <div className="flex gap-2">
+            <code className="flex-1 px-3 py-2 rounded-lg bg-white dark:bg-[#0a0a0a] border border-gray-200 dark:border-[#262626] text-xs text-gray-900 dark:text-white break-all select-all">
+              {newToken}
+            </code>
+            <button onClick={handleCopy} className={secondaryButtonClassName}>
+              Copy
+            </button>
+          </div>
+          <button
+            onClick={() => setNewToken(null)}
+            className="mt-2 text-xs text-gray-500 dark:text-gray-400 hover:underline"
+          >
+            Done
+          </button>
+        </div>
+      )}
+
+      {/* Create form */}
+      {isCreating && (
+        <div className="space-y-4 p-4 rounded-lg border border-gray-200 dark:border-[#262626]">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Name
+            </label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value.slice(0, 100))}
+              placeholder="e.g., CLI script, Raycast extension"
+              className={inputClassName}
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Scopes
+            </label>
+            <div className="space-y-2">
+              {Object.entries(scopes).map(([scope, description]) => (
+                <label key={scope} className="flex items-start gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selectedScopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                    className="mt-0.5 rounded border-gray-300 dark:border-[#262626]"
+                  />
+                  <span className="text-sm">
+                    <code className="text-gray-900 dark:text-white">{scope}</code>
+                    <span className="block text-gray-500 dark:text-gray-400">{description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Expiration
+            </label>
+            <select
+              value={expiresInDays ?? ""}
+              onChange={(e) => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+              className={inputClassName}
+            >
+              {expiryOptions.map((days) => (
+                <option key={days} value={days}>
+                  {days} days
+                </option>
+              ))}
+              <option value="">No expiration</option>
+            </select>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button onClick={resetForm} className={secondaryButtonClassName}>
+              Cancel
+            </button>
+            <button onClick={handleCreate} disabled={isSubmitting} className={primaryButtonClassName}>
+              {isSubmitting ? "Creating..." : "Create Token"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Token list */}
+      {tokens.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          You haven&apos;t created any tokens yet.
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-200 dark:divide-[#262626]">
+          {tokens.map((token) => {
+            const status = getTokenStatus(token);
+            return (
+              <div key={token.id} className="py-3 first:pt-0 last:pb-0">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={cn(
+                          "font-medium text-sm",
+                          status === "active"
+                            ? "text-gray-900 dark:text-white"
+                            : "text-gray-400 dark:text-gray-500 line-through"
+                        )}
+                      >
+                        {token.name}
+                      </span>
+                      <code className="text-xs text-gray-500">{token.tokenPrefix}…</code>
+                      {status !== "active" && (
+                        <span className="px-1.5 py-0.5 rounded text-xs bg-gray-100 dark:bg-[#1a1a1a] text-gray-500">
+                          {status === "revoked" ? "Revoked" : "Expired"}
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      {token.scopes.join(", ")}
+                    </p>
+                    <p className="text-xs text-gray-400 dark:text-gray-500 mt-0.5">
+                      Created {formatDate(token.createdAt)}
+                      {" · "}
+                      {token.expiresAt ? `Expires ${formatDate(token.expiresAt)}` : "Never expires"}
+                      {" · "}
+                      {token.lastUsedAt ? `Last used ${formatDate(token.lastUsedAt)}` : "Never used"}
+                    </p>
+                  </div>
+
+                  {status === "active" && (
+                    revokingId === token.id ? (
+                      <div className="flex gap-2 shrink-0">
+                        <button onClick={() => setRevokingId(null)} className={secondaryButtonClassName}>
+                          Cancel
+                        </button>
+                        <button
+                          onClick={() => handleRevoke(token.id)}
+                          className={cn(
+                            "px-3 py-1.5 rounded-lg text-sm",
+                            "bg-red-600 text-white hover:bg-red-700"
+                          )}
+                        >
+                          Revoke
+                        </button>
+                      </div>
+                    ) : (
+                      <button
+                        onClick={() => setRevokingId(token.id)}
+                        className="shrink-0 text-sm text-red-600 dark:text-red-400 hover:underline"
+                      >
+                        Revoke
+                      </button>
+                    )
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+"use client";
+
+/**
+ * Cloud Provider Credentials
+ *
+ * Connect, revalidate and remove AWS Bedrock and Google Vertex AI
+ * credentials. Rendered inside ApiKeySettings; provider fields come from
+ * lib/ai-providers.ts.
+ */
+
+import { useState } from "react";
+import { cn } from "@/lib/design-system";
+import { AI_PROVIDERS, type AiProviderInfo } from "@/lib/ai-providers";
+
+interface StoredCredential {
+  provider: string;
+  keyHint: string;
+  isValid: boolean | null;
+  validationError: string | null;
+  availableModels: { id: string; name: string }[];
+  lastValidatedAt: string | null;
+}
+
+interface CloudProviderCredentialsProps {
+  apiKeys: StoredCredential[];
+  onChange: () => void;
+}
+
+const CLOUD_PROVIDERS = AI_PROVIDERS.filter((p) => p.id !== "anthropic");
+
+const inputClass = cn(
+  "w-full px-3 py-2 rounded-lg text-sm",
+  "bg-white dark:bg-[#0a0a0a]",
+  "border border-gray-200 dark:border-gray-700",
+  "text-gray-900 dark:text-white placeholder-gray-400",
+  "focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-cyan-500"
+);
+
+const secondaryButtonClass = cn(
+  "px-3 py-1.5 rounded-lg text-sm font-medium",
+  "border border-gray-200 dark:border-gray-700",
+  "text-gray-700 dark:text-gray-300",
+  "hover:bg-gray-50 dark:hover:bg-gray-800",
+  "disabled:opacity-50 transition-colors"
+);
+
+export function CloudProviderCredentials({ apiKeys, onChange }: CloudProviderCredentialsProps) {
+  return (
+    <div className="space-y-3">
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-white">Cloud Providers</h4>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+          Store Claude credentials for AWS Bedrock or Google Vertex AI. Credentials are encrypted
+          and checked against the provider when saved.
+        </p>
+      </div>
+      {CLOUD_PROVIDERS.map((provider) => (
+        <ProviderCard
+          key={provider.id}
+          provider={provider}
+          credential={apiKeys.find((k) => k.provider === provider.id)}
+          onChange={onChange}
+        />
+      ))}
+    </div>
+  );
+}
+
+function ProviderCard({
+  provider,
+  credential,
+  onChange,
+}: {
+  provider: AiProviderInfo;
+  credential: StoredCredential | undefined;
+  onChange: () => void;
+}) {
+  const [showForm, setShowForm] = useState(false);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<{ error: string; errorDetails?: string } | null>(null);
+
+  const request = async (init: RequestInit, url = "/api/user/api-keys") => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(url, init);
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok || data.isValid === false) {
+        setError({
+          error: data.error || `Failed to update ${provider.name} credentials`,
+          errorDetails: data.errorDetails,
+        });
+        return false;
+      }
+      return true;
+    } catch {
+      setError({ error: "Connection failed", errorDetails: "Could not connect to the server. Please try again." });
+      return false;
+    } finally {
+      setIsBusy(false);
+      onChange();
+    }
+  };
+
+  const handleSave = async () => {
+    const saved = await request({
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ provider: provider.id, credentials: values }),
+    });
+    if (saved) {
+      setValues({});
+      setShowForm(false);
+    }
+  };
+
+  const handleValidate = () =>
+    request(
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ provider: provider.id }),
+      },
+      "/api/user/api-keys/validate"
+    );
+
+  const handleRemove = () =>
+    request({ method: "DELETE" }, `/api/user/api-keys?provider=${provider.id}`);
+
+  return (
+    <div className="rounded-xl border border-gray-200 dark:border-[#262626] p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <span className="font-medium text-gray-900 dark:text-white">{provider.name}</span>
+            {credential && (
+              <span className={cn(
+                "px-2 py-0.5 text-xs font-medium rounded-full",
+                credential.isValid
+                  ? "bg-emerald-100 dark:bg-emerald-900/50 text-emerald-700 dark:text-emerald-300"
+                  : "bg-yellow-100 dark:bg-yellow-900/50 text-yellow-700 dark:text-yellow-300"
+              )}>
+                {credential.isValid ? "Connected" : "Needs Validation"}
+              </span>
+            )}
+          </div>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-0.5">
+            {credential ? (
+              <>
+                <span className="font-mono">{credential.keyHint}</span>
+                {credential.isValid && ` · ${credential.availableModels.length} models available`}
+                {credential.validationError && ` · ${credential.validationError}`}
+              </>
+            ) : (
+              provider.description
+            )}
+          </p>
+        </div>
+        <div className="flex shrink-0 gap-2">
+          {credential && (
+            <>
+              <button onClick={handleValidate} disabled={isBusy} className={secondaryButtonClass}>
+                Revalidate
+              </button>
+              <button onClick={handleRemove} disabled={isBusy} className={secondaryButtonClass}>
+                Remove
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => setShowForm(!showForm)}
+            disabled={isBusy}
+            className={secondaryButtonClass}
+          >
+            {showForm ? "Cancel" : credential ? "Replace" : "Connect"}
+          </button>
+        </div>
+      </div>
+
+      {showForm && (
+        <div className="mt-4 space-y-3">
+          {provider.fields.map((field) => (
+            <label key={field.name} className="block">
+              <span className="block text-xs font-medium text-gray-600 dark:text-gray-400 mb-1">
+                {field.label}
+              </span>
+              {field.type === "textarea" ? (
+                <textarea
+                  value={values[field.name] ?? ""}
+                  onChange={(e) => setValues({ ...values, [field.name]: e.target.value })}
+                  rows={5}
+                  spellCheck={false}
+                  className={cn(inputClass, "font-mono text-xs")}
+                />
+              ) : (
+                <input
+                  type={field.type}
+                  value={values[field.name] ?? ""}
+                  onChange={(e) => setValues({ ...values, [field.name]: e.target.value })}
+                  placeholder={field.placeholder}
+                  autoComplete="off"
+                  className={inputClass}
+                />
+              )}
+            </label>
+          ))}
+          <div className="flex items-center justify-between">
+            <a
+              href={provider.consoleUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-sm text-gray-500 dark:text-gray-400 hover:text-blue-600 dark:hover:text-cyan-400"
+            >
+              Open {provider.name} console
+            </a>
+            <button
+              onClick={handleSave}
+              disabled={isBusy || provider.fields.some((f) => f.required && !values[f.name]?.trim())}
+              className={cn(
+                "px-4 py-2 rounded-lg text-sm font-semibold text-white",
+                "bg-blue-600 hover:bg-blue-500 dark:bg-cyan-600 dark:hover:bg-cyan-500",
+                "disabled:opacity-50 transition-colors"
+              )}
+            >
+              {isBusy ? "Validating..." : "Save & Validate"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-3 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+          <p className="text-sm font-medium text-red-600 dark:text-red-400">{error.error}</p>
+          {error.errorDetails && (
+            <p className="text-sm text-red-600/80 dark:text-red-400/80 mt-1">{error.errorDetails}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
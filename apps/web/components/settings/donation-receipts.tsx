@@ -0,0 +1,172 @@
+"use client";
+
+/**
+ * Donation Receipts Component
+ *
+ * Lists the donor's receipts and annual statements as PDF downloads.
+ */
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { cn } from "@/lib/design-system";
+import { formatDonationAmount } from "@/lib/donations/types";
+
+interface DonationReceiptItem {
+  id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  is_recurring: boolean;
+  receipt_number: string | null;
+  receipt_url: string | null;
+  created_at: string;
+}
+
+interface AnnualStatementItem {
+  year: number;
+  statement_number: string | null;
+  url: string;
+}
+
+const DownloadIcon = () => (
+  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+  </svg>
+);
+
+export function DonationReceipts() {
+  const [donations, setDonations] = useState<DonationReceiptItem[]>([]);
+  const [statements, setStatements] = useState<AnnualStatementItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    fetch("/api/donations/me")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (data) {
+          setDonations(
+            (data.donations as DonationReceiptItem[]).filter((d) => d.receipt_url)
+          );
+          setStatements(data.statements || []);
+        }
+      })
+      .catch(() => {})
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  if (isLoading) {
+    return (
+      <div className="space-y-3">
+        {[1, 2].map((i) => (
+          <div
+            key={i}
+            className={cn(
+              "h-14 rounded-lg",
+              "bg-gray-50 dark:bg-[#111111]",
+              "animate-pulse"
+            )}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  if (donations.length === 0) {
+    return (
+      <div
+        className={cn(
+          "p-8 rounded-xl text-center",
+          "bg-gray-50 dark:bg-[#111111]",
+          "border border-gray-200 dark:border-[#262626]"
+        )}
+      >
+        <p className="text-gray-600 dark:text-gray-400">
+          You haven&apos;t made any donations yet
+        </p>
+        <Link
+          href="/donate"
+          className="inline-block text-sm text-blue-600 dark:text-cyan-400 hover:underline mt-1"
+        >
+          Support Claude Insider
+        </Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {statements.length > 0 && (
+        <div>
+          <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-3">
+            Annual Statements
+          </h3>
+          <div className="flex flex-wrap gap-2">
+            {statements.map((statement) => (
+              <a
+                key={statement.year}
+                href={statement.url}
+                download
+                className={cn(
+                  "inline-flex items-center gap-2 px-3 py-2 rounded-lg text-sm",
+                  "border border-gray-200 dark:border-[#262626]",
+                  "text-gray-700 dark:text-gray-300",
+                  "hover:border-blue-500/50 hover:bg-gray-50 dark:hover:bg-[#1a1a1a]",
+                  "transition-colors"
+                )}
+              >
+                <DownloadIcon />
+                {statement.year} statement
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-3">
+          Receipts
+        </h3>
+        <div className="space-y-2">
+          {donations.map((donation) => (
+            <div
+              key={donation.id}
+              className={cn(
+                "flex items-center justify-between gap-3 p-3 rounded-xl",
+                "bg-gray-50 dark:bg-[#111111]",
+                "border border-gray-200 dark:border-[#262626]"
+              )}
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-white">
+                  {formatDonationAmount(Number(donation.amount), donation.currency)}
+                  {donation.is_recurring && (
+                    <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">
+                      Recurring
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {new Date(donation.created_at).toLocaleDateString()}
+                  {donation.receipt_number && ` · ${donation.receipt_number}`}
+                </p>
+              </div>
+              <a
+                href={donation.receipt_url!}
+                download
+                className={cn(
+                  "inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-sm",
+                  "text-blue-600 dark:text-cyan-400",
+                  "hover:bg-blue-50 dark:hover:bg-cyan-900/20",
+                  "transition-colors"
+                )}
+              >
+                <DownloadIcon />
+                PDF
+              </a>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -5,7 +5,7 @@
  *
  * Manages end-to-end encryption settings including:
  * - Device registration and management
- * - Key backup creation and restoration
+ * - Key backup creation and restoration, including message history
  * - Encryption status overview
  * - Key verification status
  */
@@ -164,8 +164,14 @@ export function E2EESettings() {
 
     startTransition(async () => {
       try {
-        await e2ee.restoreFromBackup(restorePassword);
-        toast.success("Keys restored from backup!");
+        if (e2ee.isInitialized) {
+          // Already set up: only pull in the message history
+          const restored = await e2ee.restoreMessageHistory(restorePassword);
+          toast.success(`Restored keys for ${restored} message sessions`);
+        } else {
+          await e2ee.restoreFromBackup(restorePassword);
+          toast.success("Keys restored from backup!");
+        }
         setRestorePassword("");
         setViewState("overview");
         await loadDevices();
@@ -395,6 +401,15 @@ export function E2EESettings() {
                   {e2ee.hasBackup ? "Update Backup" : "Create Backup"}
                 </button>
 
+                {e2ee.hasBackup && (
+                  <button
+                    onClick={() => setViewState("backup-restore")}
+                    className="px-4 py-2 rounded-lg text-sm font-medium border border-gray-200 dark:border-[#262626] text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-[#1a1a1a]"
+                  >
+                    Restore Message History
+                  </button>
+                )}
+
                 {e2ee.availablePrekeys < 10 && (
                   <button
                     onClick={() => e2ee.replenishPrekeys(50)}
@@ -572,10 +587,12 @@ export function E2EESettings() {
 
           <div className="p-4 rounded-xl border border-gray-200 dark:border-[#262626] bg-gray-50 dark:bg-[#111111]">
             <h3 className="font-medium text-gray-900 dark:text-white mb-2">
-              Restore from Backup
+              {e2ee.isInitialized ? "Restore Message History" : "Restore from Backup"}
             </h3>
             <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
-              Enter your backup password to restore your encryption keys.
+              {e2ee.isInitialized
+                ? "Enter your backup password to decrypt older group messages on this device."
+                : "Enter your backup password to restore your encryption keys."}
             </p>
 
             <div className="space-y-4">
@@ -602,7 +619,11 @@ export function E2EESettings() {
                   "disabled:opacity-50 disabled:cursor-not-allowed"
                 )}
               >
-                {isPending ? "Restoring..." : "Restore Keys"}
+                {isPending
+                  ? "Restoring..."
+                  : e2ee.isInitialized
+                    ? "Restore History"
+                    : "Restore Keys"}
               </button>
             </div>
           </div>
@@ -0,0 +1,288 @@
+"use client";
+
+/**
+ * Notification Routing Settings
+ *
+ * Per-type channel routing (in-app, push, email), digest batching and quiet
+ * hours, plus a preview of what's waiting in the next digest. Routing rules
+ * live in lib/notification-routing.ts.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import { cn } from "@/lib/design-system";
+import { useToast } from "@/components/toast";
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+  getNotificationDigestPreview,
+  type NotificationPreferences,
+  type NotificationType,
+  type DigestPreview,
+} from "@/app/actions/notifications";
+import {
+  NOTIFICATION_TYPE_INFO,
+  NOTIFICATION_DELIVERY_OPTIONS,
+  resolveChannelRoute,
+  type ChannelRoute,
+  type LegacyChannelPreferences,
+  type NotificationChannel,
+} from "@/lib/notification-routing";
+import { getTimezoneDisplayLabel } from "@/lib/timezone";
+
+interface NotificationRoutingSettingsProps {
+  timezone?: string;
+}
+
+const CHANNELS: { key: NotificationChannel; label: string }[] = [
+  { key: "in_app", label: "In-app" },
+  { key: "push", label: "Push" },
+  { key: "email", label: "Email" },
+];
+
+const timeInputClass = cn(
+  "px-3 py-1.5 rounded-lg text-sm",
+  "bg-white dark:bg-[#0a0a0a]",
+  "border border-gray-200 dark:border-gray-700",
+  "text-gray-900 dark:text-white",
+  "focus:outline-none focus:ring-2 focus:ring-blue-500 dark:focus:ring-cyan-500"
+);
+
+export function NotificationRoutingSettings({ timezone = "UTC" }: NotificationRoutingSettingsProps) {
+  const toast = useToast();
+  const [prefs, setPrefs] = useState<NotificationPreferences | null>(null);
+  const [preview, setPreview] = useState<DigestPreview | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadPreview = useCallback(async () => {
+    const result = await getNotificationDigestPreview();
+    if (result.data) setPreview(result.data);
+  }, []);
+
+  useEffect(() => {
+    getNotificationPreferences().then((result) => {
+      if (result.data) setPrefs(result.data);
+    });
+    loadPreview();
+  }, [loadPreview]);
+
+  const save = async (update: Partial<NotificationPreferences>) => {
+    if (!prefs) return;
+    const previous = prefs;
+    setPrefs({ ...prefs, ...update });
+    setIsSaving(true);
+    const result = await updateNotificationPreferences(update);
+    setIsSaving(false);
+    if (result.error) {
+      setPrefs(previous);
+      toast.error(result.error);
+      return;
+    }
+    loadPreview();
+  };
+
+  const getRoute = (type: NotificationType): ChannelRoute =>
+    resolveChannelRoute(type, prefs as unknown as LegacyChannelPreferences);
+
+  const updateRoute = (type: NotificationType, change: Partial<ChannelRoute>) => {
+    if (!prefs) return;
+    save({
+      channel_routing: {
+        ...prefs.channel_routing,
+        [type]: { ...getRoute(type), ...change },
+      },
+    });
+  };
+
+  if (!prefs) {
+    return (
+      <div className="h-32 rounded-xl bg-gray-50 dark:bg-[#111111] border border-gray-200 dark:border-[#262626] animate-pulse" />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Per-type routing */}
+      <div
+        className={cn(
+          "rounded-xl overflow-hidden",
+          "bg-gray-50 dark:bg-[#111111]",
+          "border border-gray-200 dark:border-[#262626]"
+        )}
+      >
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-[#262626]">
+                <th className="px-4 py-3 font-medium">Notification</th>
+                {CHANNELS.map((channel) => (
+                  <th key={channel.key} className="px-2 py-3 font-medium text-center">
+                    {channel.label}
+                  </th>
+                ))}
+                <th className="px-4 py-3 font-medium">Push &amp; email</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-[#262626]">
+              {NOTIFICATION_TYPE_INFO.map((info) => {
+                const route = getRoute(info.type);
+                return (
+                  <tr key={info.type}>
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900 dark:text-white">{info.label}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{info.description}</p>
+                    </td>
+                    {CHANNELS.map((channel) => (
+                      <td key={channel.key} className="px-2 py-3 text-center">
+                        <input
+                          type="checkbox"
+                          checked={route[channel.key]}
+                          onChange={(e) => updateRoute(info.type, { [channel.key]: e.target.checked })}
+                          disabled={isSaving}
+                          aria-label={`${info.label}: ${channel.label}`}
+                          className="w-4 h-4 rounded accent-blue-600"
+                        />
+                      </td>
+                    ))}
+                    <td className="px-4 py-3">
+                      <select
+                        value={route.delivery}
+                        onChange={(e) =>
+                          updateRoute(info.type, { delivery: e.target.value as ChannelRoute["delivery"] })
+                        }
+                        disabled={isSaving || (!route.push && !route.email)}
+                        aria-label={`${info.label}: delivery`}
+                        className={cn(timeInputClass, "disabled:opacity-50")}
+                      >
+                        {NOTIFICATION_DELIVERY_OPTIONS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Quiet hours */}
+      <div
+        className={cn(
+          "p-4 rounded-xl",
+          "bg-gray-50 dark:bg-[#111111]",
+          "border border-gray-200 dark:border-[#262626]"
+        )}
+      >
+        <div className="flex items-center justify-between">
+          <div className="flex-1 mr-4">
+            <p className="font-medium text-gray-900 dark:text-white">Quiet Hours</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Hold push and email notifications until quiet hours end, then send them as a digest.
+              Times are in {getTimezoneDisplayLabel(timezone)}.
+            </p>
+          </div>
+          <button
+            onClick={() => save({ quiet_hours_enabled: !prefs.quiet_hours_enabled })}
+            disabled={isSaving}
+            className={cn(
+              "relative w-12 h-7 rounded-full transition-colors",
+              prefs.quiet_hours_enabled
+                ? "bg-gradient-to-r from-violet-600 to-blue-600"
+                : "bg-gray-300 dark:bg-[#262626]"
+            )}
+          >
+            <span
+              className={cn(
+                "absolute top-1 w-5 h-5 bg-white rounded-full shadow transition-transform",
+                prefs.quiet_hours_enabled ? "left-6" : "left-1"
+              )}
+            />
+          </button>
+        </div>
+        {prefs.quiet_hours_enabled && (
+          <div className="flex items-center gap-3 mt-4">
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              From
+              <input
+                type="time"
+                value={prefs.quiet_hours_start}
+                onChange={(e) => e.target.value && save({ quiet_hours_start: e.target.value })}
+                disabled={isSaving}
+                className={timeInputClass}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+              to
+              <input
+                type="time"
+                value={prefs.quiet_hours_end}
+                onChange={(e) => e.target.value && save({ quiet_hours_end: e.target.value })}
+                disabled={isSaving}
+                className={timeInputClass}
+              />
+            </label>
+          </div>
+        )}
+      </div>
+
+      {/* Next digest preview */}
+      <div
+        className={cn(
+          "p-4 rounded-xl",
+          "bg-gray-50 dark:bg-[#111111]",
+          "border border-gray-200 dark:border-[#262626]"
+        )}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <p className="font-medium text-gray-900 dark:text-white">Next Digest</p>
+          {preview?.quietHoursActive && (
+            <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-violet-100 dark:bg-violet-900/30 text-violet-600 dark:text-violet-400">
+              Quiet hours
+            </span>
+          )}
+        </div>
+        {!preview || preview.items.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Nothing queued. Batched notifications will show up here.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+              {preview.items.length} notification{preview.items.length === 1 ? "" : "s"} queued
+              {preview.nextDeliveryAt &&
+                `, sending ${new Date(preview.nextDeliveryAt).toLocaleString(undefined, {
+                  timeZone: timezone,
+                  weekday: "short",
+                  hour: "numeric",
+                  minute: "2-digit",
+                })}`}
+            </p>
+            <ul className="space-y-2">
+              {preview.items.slice(0, 5).map((item) => (
+                <li key={item.id} className="flex items-start justify-between gap-3 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 dark:text-white truncate">{item.title}</p>
+                    {item.message && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{item.message}</p>
+                    )}
+                  </div>
+                  <span className="shrink-0 text-xs text-gray-400">
+                    {[item.push && "Push", item.email && "Email"].filter(Boolean).join(" · ")}
+                  </span>
+                </li>
+              ))}
+            </ul>
+            {preview.items.length > 5 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                and {preview.items.length - 5} more
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+"use client";
+
+/**
+ * Session Settings Component
+ *
+ * Lists the devices the user is signed in on, with sign-out for one or
+ * all other sessions, and a feed of recent sign-ins and 2FA/passkey
+ * verifications.
+ */
+
+import { useState, useEffect, useTransition } from "react";
+import { cn } from "@/lib/design-system";
+import { useToast } from "@/components/toast";
+import { formatLastUsed } from "@/lib/webauthn-client";
+import {
+  getSessions,
+  getSignInHistory,
+  revokeSession,
+  revokeOtherSessions,
+} from "@/app/actions/sessions";
+import type { ActiveSession, DeviceInfo, SignInEvent } from "@/lib/sign-in-history";
+
+const HISTORY_PREVIEW_COUNT = 5;
+
+const METHOD_LABELS: Record<string, string> = {
+  password: "Password",
+  github: "GitHub",
+  google: "Google",
+  sign_up: "Sign up",
+  email_verification: "Email verification",
+  totp: "Authenticator app",
+  backup_code: "Backup code",
+};
+
+function describeDevice(device: DeviceInfo): string {
+  if (device.browser && device.os) return `${device.browser} on ${device.os}`;
+  return device.browser || device.os || "Unknown device";
+}
+
+function describeEvent(event: SignInEvent): string {
+  const method = event.method ? METHOD_LABELS[event.method] || event.method : null;
+  switch (event.eventType) {
+    case "two_factor":
+      return event.success
+        ? `Two-factor verification${method ? ` (${method})` : ""}`
+        : "Failed two-factor verification";
+    case "passkey":
+      return event.success
+        ? `Passkey verification${method ? ` (${method})` : ""}`
+        : `Failed passkey verification${method ? ` (${method})` : ""}`;
+    default:
+      return method ? `Signed in with ${method}` : "Signed in";
+  }
+}
+
+function DeviceIcon({ deviceType }: { deviceType: DeviceInfo["deviceType"] }) {
+  const path =
+    deviceType === "mobile" || deviceType === "tablet"
+      ? "M12 18h.01M8 21h8a2 2 0 002-2V5a2 2 0 00-2-2H8a2 2 0 00-2 2v14a2 2 0 002 2z"
+      : "M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z";
+
+  return (
+    <div className="flex-shrink-0 w-10 h-10 rounded-lg bg-gray-100 dark:bg-[#1a1a1a] flex items-center justify-center">
+      <svg className="w-5 h-5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d={path} />
+      </svg>
+    </div>
+  );
+}
+
+export function SessionSettings() {
+  const [isPending, startTransition] = useTransition();
+  const toast = useToast();
+
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [events, setEvents] = useState<SignInEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [showAllHistory, setShowAllHistory] = useState(false);
+  const [confirmingOthers, setConfirmingOthers] = useState(false);
+
+  const loadSessions = async () => {
+    const [sessionsResult, historyResult] = await Promise.all([
+      getSessions(),
+      getSignInHistory(),
+    ]);
+    if (sessionsResult.sessions) setSessions(sessionsResult.sessions);
+    if (historyResult.events) setEvents(historyResult.events);
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const handleRevoke = (id: string) => {
+    startTransition(async () => {
+      const result = await revokeSession(id);
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      setSessions(sessions.filter((s) => s.id !== id));
+      toast.success("Session signed out");
+    });
+  };
+
+  const handleRevokeOthers = () => {
+    startTransition(async () => {
+      const result = await revokeOtherSessions();
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+
+      setSessions(sessions.filter((s) => s.isCurrent));
+      setConfirmingOthers(false);
+      toast.success(
+        result.revoked === 1 ? "Signed out 1 other session" : `Signed out ${result.revoked} other sessions`
+      );
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse space-y-4">
+        <div className="h-16 bg-gray-200 dark:bg-[#1a1a1a] rounded-xl" />
+        <div className="h-16 bg-gray-200 dark:bg-[#1a1a1a] rounded-xl" />
+      </div>
+    );
+  }
+
+  const otherSessionCount = sessions.filter((s) => !s.isCurrent).length;
+  const visibleEvents = showAllHistory ? events : events.slice(0, HISTORY_PREVIEW_COUNT);
+
+  return (
+    <div className="space-y-8">
+      {/* Active sessions */}
+      <div>
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h3 className="font-medium text-gray-900 dark:text-white">Active sessions</h3>
+          {otherSessionCount > 0 && (
+            confirmingOthers ? (
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-gray-600 dark:text-gray-400">
+                  Sign out {otherSessionCount} other {otherSessionCount === 1 ? "session" : "sessions"}?
+                </span>
+                <button
+                  onClick={() => setConfirmingOthers(false)}
+                  className={cn(
+                    "px-3 py-1.5 rounded-lg text-sm",
+                    "border border-gray-200 dark:border-[#262626]",
+                    "text-gray-600 dark:text-gray-400",
+                    "hover:bg-gray-100 dark:hover:bg-[#1a1a1a]"
+                  )}
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleRevokeOthers}
+                  disabled={isPending}
+                  className={cn(
+                    "px-3 py-1.5 rounded-lg text-sm",
+                    "bg-red-600 text-white hover:bg-red-700",
+                    "disabled:opacity-50"
+                  )}
+                >
+                  Sign Out All
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setConfirmingOthers(true)}
+                className="text-sm text-red-600 dark:text-red-400 hover:underline"
+              >
+                Sign out all other sessions
+              </button>
+            )
+          )}
+        </div>
+
+        <div className="space-y-3">
+          {sessions.map((session) => (
+            <div
+              key={session.id}
+              className={cn(
+                "flex items-center gap-4 p-4 rounded-lg",
+                "bg-white dark:bg-[#0a0a0a]",
+                "border border-gray-200 dark:border-[#262626]"
+              )}
+            >
+              <DeviceIcon deviceType={session.deviceType} />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-sm text-gray-900 dark:text-white">
+                    {describeDevice(session)}
+                  </span>
+                  {session.isCurrent && (
+                    <span className="px-1.5 py-0.5 rounded text-xs bg-emerald-100 dark:bg-emerald-900/30 text-emerald-700 dark:text-emerald-300">
+                      This device
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5 truncate">
+                  {[session.location, session.ipAddress].filter(Boolean).join(" · ") || "Unknown location"}
+                </p>
+                <p className="text-xs text-gray-400 dark:text-gray-500 mt-0.5">
+                  Signed in {formatLastUsed(session.createdAt).toLowerCase()}
+                  {" · "}
+                  Last active {formatLastUsed(session.lastActiveAt).toLowerCase()}
+                </p>
+              </div>
+              {!session.isCurrent && (
+                <button
+                  onClick={() => handleRevoke(session.id)}
+                  disabled={isPending}
+                  className="shrink-0 text-sm text-red-600 dark:text-red-400 hover:underline disabled:opacity-50"
+                >
+                  Sign out
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Sign-in history */}
+      <div>
+        <h3 className="font-medium text-gray-900 dark:text-white mb-1">Sign-in history</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+          We email you when your account is signed in to from a new device.
+        </p>
+
+        {events.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No sign-ins recorded yet.</p>
+        ) : (
+          <>
+            <ul className="divide-y divide-gray-200 dark:divide-[#262626]">
+              {visibleEvents.map((event) => (
+                <li key={event.id} className="flex items-start gap-3 py-3 first:pt-0">
+                  <span
+                    className={cn(
+                      "mt-1.5 w-2 h-2 rounded-full flex-shrink-0",
+                      event.success ? "bg-emerald-500" : "bg-red-500"
+                    )}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={cn(
+                          "text-sm",
+                          event.success
+                            ? "text-gray-900 dark:text-white"
+                            : "text-red-600 dark:text-red-400"
+                        )}
+                      >
+                        {describeEvent(event)}
+                      </span>
+                      {event.isNewDevice && (
+                        <span className="px-1.5 py-0.5 rounded text-xs bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300">
+                          New device
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5 truncate">
+                      {[describeDevice(event), event.location, event.ipAddress]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </p>
+                  </div>
+                  <time
+                    dateTime={event.createdAt}
+                    className="shrink-0 text-xs text-gray-400 dark:text-gray-500"
+                  >
+                    {formatLastUsed(event.createdAt)}
+                  </time>
+                </li>
+              ))}
+            </ul>
+            {events.length > HISTORY_PREVIEW_COUNT && (
+              <button
+                onClick={() => setShowAllHistory(!showAllHistory)}
+                className="mt-2 text-sm text-blue-600 dark:text-cyan-400 hover:underline"
+              >
+                {showAllHistory ? "Show less" : `Show all ${events.length}`}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,9 @@
  * AI Assistant Tab
  *
  * AI chat interface with Claude streaming, TTS, and speech recognition.
+ * Tool calls the assistant makes (doc search, favorites, ...) are shown as
+ * steps above the answer. Conversations sync to the server for signed-in
+ * users, can be searched, and can be branched from any assistant message.
  * Ported from voice-assistant.tsx with streamlined implementation.
  */
 
@@ -13,7 +16,8 @@ import { track } from "@vercel/analytics";
 import { cn } from "@/lib/design-system";
 import { useSound } from "@/hooks/use-sound-effects";
 import { useUnifiedChat } from "../unified-chat-provider";
-import { markdownToSpeakableText } from "@/lib/claude-utils";
+import { useAuth } from "@/components/providers/auth-provider";
+import { markdownToSpeakableText, type AssistantToolStep } from "@/lib/claude-utils";
 import {
   getPageContent,
   getVisibleSection,
@@ -26,6 +30,9 @@ import {
   deleteConversation,
   clearAllConversations,
   renameConversation,
+  branchConversation,
+  searchConversations,
+  onConversationsChanged,
   getActiveConversationId,
   setActiveConversationId,
   getAssistantName,
@@ -33,7 +40,9 @@ import {
   formatConversationTime,
   DEFAULT_ASSISTANT_NAME,
   type Conversation,
+  type ConversationSearchMatch,
 } from "@/lib/assistant-storage";
+import { searchAssistantConversations } from "@/app/actions/ai-conversations";
 import {
   VoiceRecognizer,
   isSpeechRecognitionSupported,
@@ -52,6 +61,7 @@ import { VirtualizedAIMessageList } from "@/components/messaging/virtualized-ai-
 interface Message {
   role: "user" | "assistant";
   content: string;
+  toolSteps?: AssistantToolStep[];
 }
 
 // ============================================================================
@@ -138,6 +148,7 @@ const VOICES: Voice[] = [
 
 export function AIAssistantTab() {
   const { aiContext, aiQuestion, clearAIContext } = useUnifiedChat();
+  const { isAuthenticated } = useAuth();
   const { announce } = useAnnouncer();
   const pathname = usePathname();
 
@@ -149,6 +160,7 @@ export function AIAssistantTab() {
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [streamingContent, setStreamingContent] = useState("");
+  const [toolSteps, setToolSteps] = useState<AssistantToolStep[]>([]);
   const [error, setError] = useState<string | null>(null);
 
   // Voice state
@@ -168,6 +180,8 @@ export function AIAssistantTab() {
   const [activeConversationId, setActiveConvId] = useState<string | null>(null);
   const [renamingConvId, setRenamingConvId] = useState<string | null>(null);
   const [renameValue, setRenameValue] = useState("");
+  const [historySearch, setHistorySearch] = useState("");
+  const [searchResults, setSearchResults] = useState<ConversationSearchMatch[] | null>(null);
   const [suggestions, setSuggestions] = useState<string[]>([]);
 
   // Smart recommendations after AI response
@@ -261,6 +275,41 @@ export function AIAssistantTab() {
     }
   }, [messages, activeConversationId]);
 
+  // Refresh the list when conversations change elsewhere (server sync, voice assistant)
+  useEffect(() => {
+    return onConversationsChanged((change) => {
+      setConversations(getAllConversations());
+      if (change.type !== "synced" || isLoading || !activeConversationId) return;
+      const synced = getAllConversations().find((c) => c.id === activeConversationId);
+      if (synced) {
+        setMessages(synced.messages);
+      } else {
+        setMessages([]);
+        setActiveConvId(null);
+      }
+    });
+  }, [isLoading, activeConversationId]);
+
+  // Search conversations (server full-text when signed in, local cache otherwise)
+  useEffect(() => {
+    const query = historySearch.trim();
+    if (!query) {
+      setSearchResults(null);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      if (isAuthenticated && navigator.onLine) {
+        const result = await searchAssistantConversations(query);
+        if (result.data) {
+          setSearchResults(result.data);
+          return;
+        }
+      }
+      setSearchResults(searchConversations(query));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [historySearch, isAuthenticated]);
+
   // Generate suggestions based on context
   useEffect(() => {
     const pageSuggestions = getSuggestedQuestions(pathname);
@@ -885,6 +934,7 @@ export function AIAssistantTab() {
     setIsLoading(true);
     setError(null);
     setStreamingContent("");
+    setToolSteps([]);
 
     // Play sent sound
     playMessageSent();
@@ -909,7 +959,7 @@ export function AIAssistantTab() {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            messages: [...messages, userMessage],
+            messages: [...messages, userMessage].map(({ role, content }) => ({ role, content })),
             currentPage: pathname,
             pageContent,
             visibleSection,
@@ -930,6 +980,7 @@ export function AIAssistantTab() {
 
       const decoder = new TextDecoder();
       let fullContent = "";
+      let steps: AssistantToolStep[] = [];
 
       // OPTIMIZATION: Start audio prefetch early during streaming (parallel, not sequential)
       let earlyAudioPromise: Promise<HTMLAudioElement | null> | null = null;
@@ -949,6 +1000,23 @@ export function AIAssistantTab() {
             if (data === "[DONE]") continue;
             try {
               const parsed = JSON.parse(data);
+
+              // Tool calls: show a running step, then its result summary
+              if (parsed.type === "tool_use") {
+                steps = [...steps, { id: parsed.id, name: parsed.name, label: parsed.label, status: "running" }];
+                setToolSteps(steps);
+                continue;
+              }
+              if (parsed.type === "tool_result") {
+                steps = steps.map((step) =>
+                  step.id === parsed.id
+                    ? { ...step, status: parsed.isError ? "error" : "done", summary: parsed.summary }
+                    : step
+                );
+                setToolSteps(steps);
+                continue;
+              }
+
               if (parsed.content) {
                 fullContent += parsed.content;
 
@@ -977,9 +1045,14 @@ export function AIAssistantTab() {
       }
 
       // Text streaming is already complete - add final message and clear loading state
-      const assistantMessage: Message = { role: "assistant", content: fullContent };
+      const assistantMessage: Message = {
+        role: "assistant",
+        content: fullContent,
+        ...(steps.length > 0 ? { toolSteps: steps } : {}),
+      };
       setMessages((prev) => [...prev, assistantMessage]);
       setStreamingContent("");
+      setToolSteps([]);
       setIsLoading(false); // Clear loading BEFORE audio prefetch to avoid showing loading indicator again
 
       // Handle TTS - audio plays alongside already-visible text (no fake streaming)
@@ -1098,7 +1171,22 @@ export function AIAssistantTab() {
   }, [sendMessage]);
 
   /**
-   * Render actions (Listen/Copy buttons) for assistant messages in virtualized list
+   * Fork the active conversation after the given message into a new branch
+   */
+  const branchFromMessage = useCallback((index: number) => {
+    if (!activeConversationId) return;
+    const branch = branchConversation(activeConversationId, index);
+    if (!branch) return;
+    setMessages(branch.messages);
+    setActiveConvId(branch.id);
+    setConversations(getAllConversations());
+    announce("Started a new branch from this message");
+    track("assistant_conversation_branched", { messageIndex: index });
+    inputRef.current?.focus();
+  }, [activeConversationId, announce]);
+
+  /**
+   * Render actions (Listen/Copy/Branch buttons) for assistant messages in virtualized list
    */
   const renderMessageActions = useCallback((msg: Message, index: number) => {
     if (msg.role !== "assistant") return null;
@@ -1151,9 +1239,18 @@ export function AIAssistantTab() {
             </>
           )}
         </ChatMessageAction>
+        {activeConversationId && !isLoading && (
+          <ChatMessageAction
+            onClick={() => branchFromMessage(index)}
+            ariaLabel="Branch conversation from this message"
+          >
+            <BranchIcon className="h-4 w-4" />
+            <span>Branch</span>
+          </ChatMessageAction>
+        )}
       </>
     );
-  }, [speakingMessageIdx, isSpeaking, copiedMessageIdx, speakText, stopSpeaking, announce]);
+  }, [speakingMessageIdx, isSpeaking, copiedMessageIdx, speakText, stopSpeaking, announce, activeConversationId, isLoading, branchFromMessage]);
 
   // ============================================================================
   // Conversation Management
@@ -1174,6 +1271,13 @@ export function AIAssistantTab() {
     setShowHistory(false);
   }, []);
 
+  const openSearchResult = useCallback((match: ConversationSearchMatch) => {
+    const conv = getAllConversations().find((c) => c.id === match.conversationId);
+    if (!conv) return;
+    setHistorySearch("");
+    loadConversation(conv);
+  }, [loadConversation]);
+
   const deleteConv = useCallback((convId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     deleteConversation(convId);
@@ -1294,9 +1398,59 @@ export function AIAssistantTab() {
               </div>
             </div>
 
+            {/* History Search */}
+            {conversations.length > 0 && (
+              <div className="border-b border-gray-200 dark:border-gray-700 px-4 py-2">
+                <input
+                  type="search"
+                  value={historySearch}
+                  onChange={(e) => setHistorySearch(e.target.value)}
+                  placeholder="Search conversations..."
+                  aria-label="Search conversations"
+                  className={cn(
+                    "w-full rounded-lg px-3 py-2 text-sm",
+                    "bg-gray-50 dark:bg-gray-800",
+                    "border border-gray-200 dark:border-gray-700",
+                    "text-gray-900 dark:text-white placeholder-gray-400",
+                    "focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  )}
+                />
+              </div>
+            )}
+
             {/* History Content */}
             <div className="flex-1 overflow-y-auto p-4">
-              {conversations.length === 0 ? (
+              {searchResults ? (
+                searchResults.length === 0 ? (
+                  <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+                    No conversations match &ldquo;{historySearch.trim()}&rdquo;
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {searchResults.map((match) => (
+                      <button
+                        key={match.conversationId}
+                        onClick={() => openSearchResult(match)}
+                        className={cn(
+                          "w-full rounded-lg border p-3 text-left transition-all",
+                          "border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800",
+                          "hover:border-blue-500/50 hover:shadow-md"
+                        )}
+                      >
+                        <p className="truncate text-sm font-medium text-gray-900 dark:text-white">
+                          {match.title}
+                        </p>
+                        <p className="mt-1 line-clamp-2 text-xs text-gray-500 dark:text-gray-400">
+                          {renderSnippet(match.snippet)}
+                        </p>
+                        <p className="mt-1 text-xs text-gray-400 dark:text-gray-500">
+                          {formatConversationTime(match.updatedAt)}
+                        </p>
+                      </button>
+                    ))}
+                  </div>
+                )
+              ) : conversations.length === 0 ? (
                 <div className="flex h-full flex-col items-center justify-center text-center">
                   <div className="mb-4 rounded-full bg-gray-100 dark:bg-gray-800 p-4">
                     <ChatIcon className="h-8 w-8 text-gray-400" />
@@ -1354,7 +1508,10 @@ export function AIAssistantTab() {
                               {conv.title}
                             </p>
                           )}
-                          <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400">
+                          <p className="mt-0.5 flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                            {conv.parentId && (
+                              <BranchIcon className="h-3 w-3 shrink-0" />
+                            )}
                             {conv.messages.length} message{conv.messages.length !== 1 ? "s" : ""} · {formatConversationTime(conv.updatedAt)}
                           </p>
                         </button>
@@ -1557,6 +1714,7 @@ export function AIAssistantTab() {
             <VirtualizedAIMessageList
               messages={messages}
               streamingContent={streamingContent}
+              toolSteps={toolSteps}
               isLoading={isLoading}
               error={error}
               renderActions={renderMessageActions}
@@ -1742,6 +1900,32 @@ function CheckIcon({ className }: { className?: string }) {
   );
 }
 
+/**
+ * Render a search snippet, highlighting **matched** terms
+ */
+function renderSnippet(snippet: string) {
+  return snippet.split("**").map((part, i) =>
+    i % 2 === 1 ? (
+      <mark key={i} className="bg-yellow-200/60 dark:bg-yellow-500/30 text-inherit rounded-sm">
+        {part}
+      </mark>
+    ) : (
+      part
+    )
+  );
+}
+
+function BranchIcon({ className }: { className?: string }) {
+  return (
+    <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2}>
+      <circle cx="6" cy="5" r="2" />
+      <circle cx="6" cy="19" r="2" />
+      <circle cx="18" cy="7" r="2" />
+      <path strokeLinecap="round" strokeLinejoin="round" d="M6 7v10M18 9c0 5-12 3-12 8" />
+    </svg>
+  );
+}
+
 function CloseIcon({ className }: { className?: string }) {
   return (
     <svg className={className} viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth={2}>
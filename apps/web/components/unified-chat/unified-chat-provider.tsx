@@ -5,6 +5,7 @@
  *
  * Global context for the unified chat window.
  * Manages state for both AI Assistant and Messages tabs.
+ * Also runs the assistant conversation sync for signed-in users.
  */
 
 import {
@@ -15,6 +16,7 @@ import {
   useEffect,
   type ReactNode,
 } from "react";
+import { useAssistantConversationSync } from "@/hooks/use-assistant-conversation-sync";
 
 // ============================================================================
 // Types
@@ -128,6 +130,8 @@ export function openAssistant() {
 // ============================================================================
 
 export function UnifiedChatProvider({ children }: { children: ReactNode }) {
+  useAssistantConversationSync();
+
   // Core state
   const [isOpen, setIsOpen] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
@@ -18,14 +18,17 @@
 import { useState, useEffect, useCallback, useMemo, useRef, useTransition } from "react";
 import { createPortal } from "react-dom";
 import { useRouter } from "next/navigation";
+import { useLocale } from "next-intl";
 import Fuse from "fuse.js";
 import { cn } from "@/lib/design-system";
 import { useFocusTrap } from "@/hooks/use-focus-trap";
 import { useAnnouncer } from "@/hooks/use-aria-live";
 import {
-  buildSearchIndex,
+  loadSearchIndex,
   createSearchInstance,
+  search,
   SearchDocument,
+  SearchDocumentType,
 } from "@/lib/search";
 import {
   getSearchHistory,
@@ -43,6 +46,12 @@ import Link from "next/link";
 // Quick filter types
 type QuickFilter = "all" | "docs" | "resources" | "users";
 
+// Search document types covered by each quick filter
+const QUICK_FILTER_TYPES: Partial<Record<QuickFilter, SearchDocumentType[]>> = {
+  docs: ["doc", "heading", "page"],
+  resources: ["resource", "prompt"],
+};
+
 // Extended result type that can be document or user
 interface UserSearchResult {
   resultType: "user";
@@ -84,6 +93,8 @@ export function UniversalSearch({ expanded = false }: UniversalSearchProps) {
   const [isQuickSearching, startQuickSearchTransition] = useTransition();
   const [searchHistory, setSearchHistory] = useState<SearchHistoryItem[]>([]);
   const fuseRef = useRef<Fuse<SearchDocument> | null>(null);
+  const [indexReady, setIndexReady] = useState(false);
+  const locale = useLocale();
   const userSearchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   // AI search state
@@ -129,14 +140,25 @@ export function UniversalSearch({ expanded = false }: UniversalSearchProps) {
   useEffect(() => {
     setMounted(true);
 
-    // Initialize Fuse.js search index
-    const documents = buildSearchIndex();
-    fuseRef.current = createSearchInstance(documents);
-
     // Check speech recognition support
     setSpeechSupported(isSpeechRecognitionSupported());
   }, []);
 
+  // Initialize Fuse.js search index (loaded lazily as a separate chunk)
+  useEffect(() => {
+    let cancelled = false;
+    loadSearchIndex(locale)
+      .then((documents) => {
+        if (cancelled) return;
+        fuseRef.current = createSearchInstance(documents);
+        setIndexReady(true);
+      })
+      .catch((error) => console.error("Failed to load search index:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [locale]);
+
   // Initialize voice recognizer
   useEffect(() => {
     if (!speechSupported) return;
@@ -288,26 +310,14 @@ export function UniversalSearch({ expanded = false }: UniversalSearchProps) {
 
       // Search documents (skip if user-only filter or @ prefix)
       if (shouldSearchDocs && fuseRef.current) {
-        const searchResults = fuseRef.current.search(query, { limit: 12 });
-        let docResults: DocumentSearchResult[] = searchResults.map((r) => ({
-          ...r.item,
+        const docResults: DocumentSearchResult[] = search(fuseRef.current, query, 8, {
+          types: QUICK_FILTER_TYPES[quickFilter],
+        }).map((item) => ({
+          ...item,
           resultType: "document" as const,
         }));
 
-        // Apply category filter
-        if (quickFilter === "docs") {
-          docResults = docResults.filter((r) =>
-            !r.category.toLowerCase().includes("resource") &&
-            r.category !== "Resources"
-          );
-        } else if (quickFilter === "resources") {
-          docResults = docResults.filter((r) =>
-            r.category.toLowerCase().includes("resource") ||
-            r.category === "Resources"
-          );
-        }
-
-        results.push(...docResults.slice(0, 8));
+        results.push(...docResults);
       }
 
       setQuickResults(results);
@@ -325,7 +335,7 @@ export function UniversalSearch({ expanded = false }: UniversalSearchProps) {
         clearTimeout(userSearchTimeoutRef.current);
       }
     };
-  }, [query, mode, quickFilter, announce]);
+  }, [query, mode, quickFilter, indexReady, announce]);
 
   // AI search with debounce
   useEffect(() => {
@@ -16,6 +16,7 @@ import {
   updateConversationMessages,
   deleteConversation,
   clearAllConversations,
+  onConversationsChanged,
   getActiveConversationId,
   setActiveConversationId,
   getAssistantName,
@@ -269,6 +270,21 @@ export function VoiceAssistant() {
     }
   }, [messages, activeConversationId]);
 
+  // Pick up conversations changed by server sync or the chat tab
+  useEffect(() => {
+    return onConversationsChanged((change) => {
+      setConversations(getAllConversations());
+      if (change.type !== "synced" || isLoading || !activeConversationId) return;
+      const synced = getAllConversations().find(c => c.id === activeConversationId);
+      if (synced) {
+        setMessages(synced.messages);
+      } else {
+        setActiveConvId(null);
+        setMessages([]);
+      }
+    });
+  }, [isLoading, activeConversationId]);
+
   // Scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
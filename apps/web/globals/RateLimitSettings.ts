@@ -0,0 +1,191 @@
+import type { GlobalConfig } from 'payload';
+import { createGlobalRevalidateHook } from '../lib/revalidate';
+import { adminAccess, superadminAccess } from '../lib/payload-access';
+
+/**
+ * Rate Limit Settings Global
+ *
+ * Per-endpoint rate limit policies used by lib/rate-limiter.ts:
+ * - Algorithm (token bucket or sliding window log) and window length
+ * - Base quota plus per-role overrides
+ * - Trust-level multipliers (from lib/trust-score.ts)
+ * - LLM token cost weighting for AI endpoints
+ *
+ * Endpoints without a policy here fall back to the built-in defaults
+ * in lib/rate-limit-policies.ts.
+ *
+ * Access Control:
+ * - Read: Admin and Superadmin
+ * - Update: SUPERADMIN ONLY (quotas protect API costs)
+ */
+export const RateLimitSettings: GlobalConfig = {
+  slug: 'rate-limit-settings',
+  label: 'Rate Limit Settings',
+  admin: {
+    group: 'Settings',
+    description: 'Configure API rate limit policies by endpoint, role, and trust level - Superadmin only',
+  },
+  access: {
+    read: adminAccess,
+    update: superadminAccess,
+  },
+  hooks: {
+    afterChange: [createGlobalRevalidateHook('rate-limit-settings')],
+  },
+  fields: [
+    {
+      name: 'enabled',
+      type: 'checkbox',
+      label: 'Use Custom Policies',
+      defaultValue: true,
+      admin: {
+        description: 'When off, the built-in default policies apply to every endpoint',
+      },
+    },
+    {
+      name: 'policies',
+      type: 'array',
+      label: 'Endpoint Policies',
+      admin: {
+        description: 'One policy per endpoint key (e.g. discover, analyze, queue, default)',
+        condition: (data) => data?.enabled,
+      },
+      fields: [
+        {
+          type: 'row',
+          fields: [
+            {
+              name: 'endpoint',
+              type: 'text',
+              required: true,
+              admin: {
+                description: 'Endpoint key passed to the rate limiter',
+                width: '25%',
+              },
+            },
+            {
+              name: 'algorithm',
+              type: 'select',
+              required: true,
+              defaultValue: 'token_bucket',
+              options: [
+                { label: 'Token Bucket', value: 'token_bucket' },
+                { label: 'Sliding Window Log', value: 'sliding_window' },
+              ],
+              admin: {
+                description: 'Token bucket allows bursts; sliding window is strict',
+                width: '25%',
+              },
+            },
+            {
+              name: 'limit',
+              type: 'number',
+              required: true,
+              defaultValue: 60,
+              min: 1,
+              admin: {
+                description: 'Cost units per window for regular users',
+                width: '25%',
+              },
+            },
+            {
+              name: 'windowMinutes',
+              type: 'number',
+              required: true,
+              defaultValue: 60,
+              min: 1,
+              max: 1440,
+              admin: {
+                description: 'Window length in minutes',
+                width: '25%',
+              },
+            },
+          ],
+        },
+        {
+          name: 'tokensPerCostUnit',
+          type: 'number',
+          min: 1,
+          admin: {
+            description:
+              'For AI endpoints: estimated LLM tokens per cost unit (e.g. 1000 = one unit per 1K tokens). Leave empty to charge one unit per request.',
+          },
+        },
+        {
+          name: 'roleLimits',
+          type: 'array',
+          label: 'Role Overrides',
+          admin: {
+            description: 'Replace the base limit for a role. Higher roles inherit the nearest lower override.',
+          },
+          fields: [
+            {
+              type: 'row',
+              fields: [
+                {
+                  name: 'role',
+                  type: 'select',
+                  required: true,
+                  options: [
+                    { label: 'User', value: 'user' },
+                    { label: 'Editor', value: 'editor' },
+                    { label: 'Moderator', value: 'moderator' },
+                    { label: 'Admin', value: 'admin' },
+                    { label: 'Superadmin', value: 'superadmin' },
+                  ],
+                  admin: { width: '50%' },
+                },
+                {
+                  name: 'limit',
+                  type: 'number',
+                  required: true,
+                  min: 1,
+                  admin: { width: '50%' },
+                },
+              ],
+            },
+          ],
+        },
+        {
+          name: 'trustMultipliers',
+          type: 'group',
+          label: 'Trust Level Multipliers',
+          admin: {
+            description: 'Scale the limit by visitor trust level (1 = unchanged). Leave empty for defaults.',
+          },
+          fields: [
+            {
+              type: 'row',
+              fields: [
+                {
+                  name: 'trusted',
+                  type: 'number',
+                  min: 0,
+                  admin: { placeholder: '1.5', width: '25%' },
+                },
+                {
+                  name: 'neutral',
+                  type: 'number',
+                  min: 0,
+                  admin: { placeholder: '1', width: '25%' },
+                },
+                {
+                  name: 'suspicious',
+                  type: 'number',
+                  min: 0,
+                  admin: { placeholder: '0.5', width: '25%' },
+                },
+                {
+                  name: 'untrusted',
+                  type: 'number',
+                  min: 0,
+                  admin: { placeholder: '0.1', width: '25%' },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
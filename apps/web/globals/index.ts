@@ -8,3 +8,4 @@ export { SEOSettings } from './SEOSettings';
 export { CrossLinkSettings } from './CrossLinkSettings';
 export { GamificationSettings } from './GamificationSettings';
 export { AIPipelineSettings } from './AIPipelineSettings';
+export { RateLimitSettings } from './RateLimitSettings';
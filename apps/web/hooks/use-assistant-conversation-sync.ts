@@ -0,0 +1,116 @@
+"use client";
+
+/**
+ * Assistant Conversation Sync Hook
+ *
+ * Keeps the localStorage conversation cache (lib/assistant-storage.ts) in
+ * sync with the server store for signed-in users:
+ * - Full two-way sync on sign-in and whenever the browser comes back online
+ * - Local saves and deletions are pushed as they happen (saves debounced)
+ * - Signed-out conversations are adopted on sign-in; a cache left by another
+ *   account is replaced, never uploaded
+ * - Signing out clears the cache (the server copy stays)
+ *
+ * Mounted once in UnifiedChatProvider so the chat tab and voice assistant
+ * share one sync loop.
+ */
+
+import { useEffect, useRef } from "react";
+import { useAuth } from "@/components/providers/auth-provider";
+import {
+  getAllConversations,
+  getConversation,
+  getPendingDeletes,
+  clearPendingDeletes,
+  clearConversationCache,
+  getConversationsOwner,
+  setConversationsOwner,
+  replaceConversations,
+  onConversationsChanged,
+} from "@/lib/assistant-storage";
+import {
+  syncAssistantConversations,
+  saveAssistantConversation,
+  deleteAssistantConversations,
+} from "@/app/actions/ai-conversations";
+
+const SAVE_DEBOUNCE_MS = 1500;
+
+export function useAssistantConversationSync(): void {
+  const { isAuthenticated, isLoading, user } = useAuth();
+  const saveTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const isSyncingRef = useRef(false);
+
+  useEffect(() => {
+    const userId = user?.id;
+    if (!isAuthenticated || !userId) {
+      if (!isLoading && getConversationsOwner()) clearConversationCache();
+      return;
+    }
+    const saveTimers = saveTimersRef.current;
+
+    const fullSync = async () => {
+      if (isSyncingRef.current || !navigator.onLine) return;
+      isSyncingRef.current = true;
+      try {
+        const owner = getConversationsOwner();
+        const isOwnCache = !owner || owner === userId;
+        const pendingDeletes = isOwnCache ? getPendingDeletes() : [];
+        const result = await syncAssistantConversations(
+          isOwnCache ? getAllConversations() : [],
+          pendingDeletes
+        );
+        if (result.data) {
+          clearPendingDeletes(isOwnCache ? pendingDeletes : getPendingDeletes());
+          setConversationsOwner(userId);
+          replaceConversations(result.data);
+        }
+      } catch (error) {
+        console.error("[Assistant Sync] Sync failed:", error);
+      } finally {
+        isSyncingRef.current = false;
+      }
+    };
+
+    const pushDeletes = async () => {
+      const pending = getPendingDeletes();
+      if (pending.length === 0 || !navigator.onLine) return;
+      const result = await deleteAssistantConversations(pending).catch(() => null);
+      if (result?.data) clearPendingDeletes(pending);
+    };
+
+    const unsubscribe = onConversationsChanged((change) => {
+      // Don't push another account's cache before the first sync replaces it
+      if (getConversationsOwner() !== userId) return;
+
+      if (change.type === "save") {
+        const existing = saveTimers.get(change.id);
+        if (existing) clearTimeout(existing);
+        saveTimers.set(
+          change.id,
+          setTimeout(() => {
+            saveTimers.delete(change.id);
+            const conversation = getConversation(change.id);
+            if (conversation && navigator.onLine) {
+              saveAssistantConversation(conversation).catch((error) =>
+                console.error("[Assistant Sync] Save failed:", error)
+              );
+            }
+          }, SAVE_DEBOUNCE_MS)
+        );
+      } else if (change.type === "delete" || change.type === "clear") {
+        pushDeletes();
+      }
+    });
+
+    fullSync();
+    window.addEventListener("online", fullSync);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener("online", fullSync);
+      for (const timer of saveTimers.values()) clearTimeout(timer);
+      saveTimers.clear();
+    };
+  }, [isAuthenticated, isLoading, user?.id]);
+}
@@ -0,0 +1,70 @@
+"use client";
+
+/**
+ * useContactKeyTrust Hook
+ *
+ * Cross-signing trust and key transparency status for one contact.
+ * Reports whether we've verified them, any key changes in their log since
+ * we last looked that cross-signing doesn't vouch for, and any served
+ * devices missing from the log.
+ */
+
+import { useState, useEffect, useCallback } from "react";
+import {
+  acknowledgeKeyChanges,
+  checkKeyTransparency,
+  getUserTrustStatus,
+} from "@/lib/e2ee/cross-signing";
+import type { KeyLogEntry } from "@/lib/e2ee/key-transparency";
+
+export interface ContactKeyTrust {
+  isVerified: boolean;
+  /** Unacknowledged key changes cross-signing doesn't account for */
+  keyChanges: KeyLogEntry[];
+  /** Device IDs the server serves without a matching log entry */
+  unloggedDevices: string[];
+  /** Set when the contact's key log failed verification */
+  logError: string | null;
+  refresh: () => Promise<void>;
+  acknowledge: () => Promise<void>;
+}
+
+export function useContactKeyTrust(userId: string | undefined, enabled = true): ContactKeyTrust {
+  const [isVerified, setIsVerified] = useState(false);
+  const [keyChanges, setKeyChanges] = useState<KeyLogEntry[]>([]);
+  const [unloggedDevices, setUnloggedDevices] = useState<string[]>([]);
+  const [logError, setLogError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!userId || !enabled) return;
+
+    try {
+      const trust = await getUserTrustStatus(userId);
+      setIsVerified(trust.isVerified);
+
+      const result = await checkKeyTransparency(userId, trust);
+      setKeyChanges(result.unexpectedChanges);
+      setUnloggedDevices(result.unloggedDevices);
+      setLogError(result.valid ? null : result.reason ?? "Key log failed verification");
+    } catch (err) {
+      console.warn("[KeyTrust] Failed to check contact keys:", err);
+    }
+  }, [userId, enabled]);
+
+  const acknowledge = useCallback(async () => {
+    if (!userId) return;
+
+    try {
+      await acknowledgeKeyChanges(userId);
+      setKeyChanges([]);
+    } catch (err) {
+      console.warn("[KeyTrust] Failed to acknowledge key changes:", err);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  return { isVerified, keyChanges, unloggedDevices, logError, refresh, acknowledge };
+}
@@ -45,6 +45,9 @@ import {
   exportAllE2EEData,
   importE2EEData,
   getE2EEStorageStats,
+  getCrossSigningKeys,
+  storeCrossSigningKeys,
+  storeRoomKeyBackupKey,
 } from "@/lib/e2ee/key-storage";
 import {
   encryptBackup,
@@ -52,6 +55,12 @@ import {
   createBackupData,
   validateBackupData,
 } from "@/lib/e2ee/key-backup";
+import { ensureCrossSigning, signOwnDevice } from "@/lib/e2ee/cross-signing";
+import {
+  backupRoomKeys,
+  getOrCreateRoomKeyBackupKey,
+  restoreRoomKeys,
+} from "@/lib/e2ee/room-keys";
 import type {
   VodozemacModule,
   VodozemacAccount,
@@ -253,6 +262,13 @@ export function useE2EE(): UseE2EEReturn {
       // 7. Mark keys as published
       account.mark_keys_as_published();
 
+      // 8. Cross-sign the new device (bootstraps cross-signing on first use)
+      await ensureCrossSigning(session.user.id, {
+        deviceId: newDeviceId,
+        identityKey: keys.curve25519,
+        signingKey: keys.ed25519,
+      }).catch((err) => console.warn("[E2EE] Cross-signing setup failed:", err));
+
       // Update state
       setDeviceId(newDeviceId);
       setIdentityKey(keys.curve25519);
@@ -356,7 +372,9 @@ export function useE2EE(): UseE2EEReturn {
           exported.megolmSessions.reduce(
             (acc, s) => ({ ...acc, [s.conversationId]: s }),
             {} as Record<string, StoredMegolmSession>
-          )
+          ),
+          await getCrossSigningKeys(),
+          await getOrCreateRoomKeyBackupKey()
         );
 
         // Encrypt with password
@@ -375,6 +393,12 @@ export function useE2EE(): UseE2EEReturn {
 
         setHasBackup(true);
         console.log("[E2EE] Backup created and uploaded");
+
+        // The backup now carries the room key backup key, so sessions
+        // uploaded with it can be restored later
+        await backupRoomKeys().catch((err) =>
+          console.warn("[E2EE] Room key backup failed:", err)
+        );
       } catch (err) {
         console.error("[E2EE] Backup creation failed:", err);
         throw err;
@@ -450,6 +474,24 @@ export function useE2EE(): UseE2EEReturn {
           megolmSessions,
         });
 
+        // Restore cross-signing keys and re-sign this device with them
+        if (backupData.crossSigningKeys) {
+          await storeCrossSigningKeys(backupData.crossSigningKeys);
+          await signOwnDevice(backupData.crossSigningKeys.userId, {
+            deviceId: backupData.deviceId,
+            identityKey: keys.curve25519,
+            signingKey: keys.ed25519,
+          }).catch((err) => console.warn("[E2EE] Device cross-signing failed:", err));
+        }
+
+        // Restore sessions received after the password backup was made
+        if (backupData.roomKeyBackupKey) {
+          await storeRoomKeyBackupKey(backupData.roomKeyBackupKey);
+          await restoreRoomKeys(backupData.roomKeyBackupKey).catch((err) =>
+            console.warn("[E2EE] Room key restore failed:", err)
+          );
+        }
+
         // Update state
         setDeviceId(backupData.deviceId);
         setIdentityKey(keys.curve25519);
@@ -470,6 +512,64 @@ export function useE2EE(): UseE2EEReturn {
     [incrementVersion]
   );
 
+  /**
+   * Restore message history on a device that's already set up: fetch the
+   * room key backup key from the password backup and import every session
+   * backed up with it. Returns the number of sessions restored.
+   */
+  const restoreMessageHistory = useCallback(
+    async (password: string): Promise<number> => {
+      if (!accountRef.current || !deviceId) {
+        throw new Error("Cannot restore history: no account");
+      }
+
+      const response = await fetch("/api/e2ee/backup");
+      if (!response.ok) {
+        throw new Error("No backup found");
+      }
+
+      const { backup } = await response.json();
+      if (!backup) {
+        throw new Error("No backup data");
+      }
+
+      const backupData = await decryptBackup(
+        backup.encrypted_backup,
+        backup.backup_iv,
+        backup.backup_auth_tag,
+        backup.salt,
+        password
+      );
+
+      if (!validateBackupData(backupData)) {
+        throw new Error("Invalid backup data");
+      }
+
+      if (!backupData.roomKeyBackupKey) {
+        throw new Error("This backup has no message history key. Create a new backup on a device that has the history.");
+      }
+
+      // Sign this device with the backed up cross-signing keys if it has none
+      if (backupData.crossSigningKeys && !(await getCrossSigningKeys())) {
+        const keys = accountRef.current.identity_keys();
+        await storeCrossSigningKeys(backupData.crossSigningKeys);
+        await signOwnDevice(backupData.crossSigningKeys.userId, {
+          deviceId,
+          identityKey: keys.curve25519,
+          signingKey: keys.ed25519,
+        }).catch((err) => console.warn("[E2EE] Device cross-signing failed:", err));
+      }
+
+      await storeRoomKeyBackupKey(backupData.roomKeyBackupKey);
+      const restored = await restoreRoomKeys(backupData.roomKeyBackupKey);
+
+      incrementVersion();
+      console.log(`[E2EE] Restored ${restored} sessions from room key backup`);
+      return restored;
+    },
+    [deviceId, incrementVersion]
+  );
+
   const checkBackupExists = useCallback(async (): Promise<boolean> => {
     try {
       const response = await fetch("/api/e2ee/backup");
@@ -897,6 +997,7 @@ export function useE2EE(): UseE2EEReturn {
     replenishPrekeys,
     createBackup,
     restoreFromBackup,
+    restoreMessageHistory,
     checkBackupExists,
     destroy,
     regenerateDevice,
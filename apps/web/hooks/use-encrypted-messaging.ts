@@ -8,7 +8,10 @@
  * - Fetches recipient device keys for encryption
  * - Encrypts messages with Olm (1:1) or Megolm (groups)
  * - Decrypts received messages
- * - Manages Megolm session key sharing
+ * - Manages Megolm session key sharing, requests missing session keys and
+ *   answers other devices' requests
+ * - Encrypts and uploads file attachments, whose keys travel in the message
+ * - Re-encrypts edits, carrying the previous versions inside the payload
  * - Provides E2EE status for UI indicators
  */
 
@@ -20,14 +23,24 @@ import {
   encryptMessage,
   decryptMessage,
   processMegolmSessionShare,
+  hasInboundMegolmSession,
+  requestRoomKey,
+  answerRoomKeyRequests,
+  backupRoomKeys,
   isE2EEReady,
   getCurrentDeviceId,
+  encodeMessageContent,
+  decodeMessageContent,
+  encryptAttachment,
+  createImageThumbnail,
+  ATTACHMENT_LIMITS,
   type EncryptedMessagePayload,
   type DeviceInfo,
   type SessionSharePayload,
+  type MessageAttachment,
 } from "@/lib/e2ee";
 import { sendMessage as sendMessageAction } from "@/app/actions/messaging";
-import type { Message } from "@/app/actions/messaging";
+import type { Message, MessageEditVersion } from "@/app/actions/messaging";
 
 // ============================================================================
 // TYPES
@@ -49,17 +62,28 @@ export interface UseEncryptedMessagingReturn {
   isE2EEReady: boolean;
   /** Whether E2EE is currently loading */
   isE2EELoading: boolean;
-  /** Send an encrypted message */
+  /** Send an encrypted message, optionally with files (requires E2EE) or as a reply */
   sendEncryptedMessage: (
     conversationId: string,
     content: string,
-    conversationType: "direct" | "group"
+    conversationType: "direct" | "group",
+    options?: SendEncryptedMessageOptions
   ) => Promise<{
     success: boolean;
     message?: EncryptedMessage;
     aiMentioned?: boolean;
     error?: string;
   }>;
+  /** Re-encrypt an edited message, keeping its attachments and history */
+  editEncryptedMessage: (
+    message: Message,
+    content: string,
+    conversationType: "direct" | "group"
+  ) => Promise<{
+    success: boolean;
+    message?: Pick<Message, "id" | "content" | "editedAt" | "editHistory">;
+    error?: string;
+  }>;
   /** Decrypt a received message */
   decryptReceivedMessage: (
     conversationId: string,
@@ -71,6 +95,13 @@ export interface UseEncryptedMessagingReturn {
   error: string | null;
 }
 
+export interface SendEncryptedMessageOptions {
+  /** Files to encrypt and attach */
+  files?: File[];
+  /** Message this is a reply to */
+  replyToId?: string;
+}
+
 export interface RawEncryptedMessage {
   id: string;
   conversationId: string;
@@ -93,6 +124,31 @@ export interface RawEncryptedMessage {
   deletedAt?: string;
 }
 
+/** How often to claim forwarded keys, back up sessions and answer requests */
+const ROOM_KEY_SYNC_INTERVAL_MS = 60_000;
+
+// ============================================================================
+// DECRYPTED MESSAGE CACHE
+// ============================================================================
+
+/**
+ * Decrypted content by message version (see getDecryptionKey). Olm messages
+ * can only be decrypted once, and senders can't decrypt their own Olm
+ * messages, so results (and sent messages) are kept for the rest of the
+ * session.
+ */
+const decryptedMessages = new Map<
+  string,
+  { content: string; attachments?: MessageAttachment[]; editHistory?: MessageEditVersion[] }
+>();
+
+/**
+ * Cache key for a message version - edits replace the ciphertext
+ */
+export function getDecryptionKey(message: { id: string; editedAt?: string }): string {
+  return message.editedAt ? `${message.id}@${message.editedAt}` : message.id;
+}
+
 // ============================================================================
 // FETCH HELPERS
 // ============================================================================
@@ -173,6 +229,8 @@ async function fetchPendingSessions(
     senderDeviceId: string;
     encryptedSessionKey: string;
     firstKnownIndex: number;
+    forwardedCount: number;
+    sessionCreatedAt: string;
   }>
 > {
   const response = await fetch(
@@ -187,6 +245,59 @@ async function fetchPendingSessions(
   return data.sessions || [];
 }
 
+/**
+ * Encrypt a file (and a thumbnail for images) and upload the ciphertext
+ */
+async function uploadAttachment(
+  conversationId: string,
+  file: File
+): Promise<MessageAttachment> {
+  if (file.size > ATTACHMENT_LIMITS.maxFileSize) {
+    throw new Error(
+      `${file.name} is larger than ${ATTACHMENT_LIMITS.maxFileSize / 1024 / 1024}MB`
+    );
+  }
+
+  const encrypted = await encryptAttachment(file);
+  const thumbnail = await createImageThumbnail(file);
+  const encryptedThumbnail = thumbnail ? await encryptAttachment(thumbnail.blob) : null;
+
+  const formData = new FormData();
+  formData.append("conversationId", conversationId);
+  formData.append("file", encrypted.ciphertext);
+  if (encryptedThumbnail) {
+    formData.append("thumbnail", encryptedThumbnail.ciphertext);
+  }
+
+  const response = await fetch("/api/messages/attachments", {
+    method: "POST",
+    body: formData,
+  });
+
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to upload ${file.name}`);
+  }
+
+  return {
+    id: data.attachment.id,
+    name: file.name,
+    mimeType: file.type || "application/octet-stream",
+    size: file.size,
+    width: thumbnail?.originalWidth,
+    height: thumbnail?.originalHeight,
+    file: encrypted.info,
+    thumbnail:
+      thumbnail && encryptedThumbnail
+        ? {
+            file: encryptedThumbnail.info,
+            width: thumbnail.width,
+            height: thumbnail.height,
+          }
+        : undefined,
+  };
+}
+
 /**
  * Fetch identity key for a specific device from device_keys table.
  * Required for verifying Megolm session shares.
@@ -262,11 +373,22 @@ export function useEncryptedMessaging(): UseEncryptedMessagingReturn {
     async (
       conversationId: string,
       content: string,
-      conversationType: "direct" | "group"
+      conversationType: "direct" | "group",
+      { files = [], replyToId }: SendEncryptedMessageOptions = {}
     ) => {
+      if (files.length > 0 && !isReady) {
+        return { success: false, error: "Set up encryption to share files" };
+      }
+      if (files.length > ATTACHMENT_LIMITS.maxPerMessage) {
+        return {
+          success: false,
+          error: `At most ${ATTACHMENT_LIMITS.maxPerMessage} files per message`,
+        };
+      }
+
       if (!isReady) {
         // Fallback to unencrypted if E2EE not ready
-        const result = await sendMessageAction(conversationId, content);
+        const result = await sendMessageAction(conversationId, content, replyToId);
         if (result.success && result.message) {
           return {
             ...result,
@@ -281,8 +403,16 @@ export function useEncryptedMessaging(): UseEncryptedMessagingReturn {
         const recipientDevices = await fetchConversationDevices(conversationId);
 
         if (recipientDevices.length === 0) {
+          // Files are never sent unencrypted
+          if (files.length > 0) {
+            return {
+              success: false,
+              error: "Recipients need to set up encryption before you can share files",
+            };
+          }
+
           // No devices with E2EE, send unencrypted
-          const result = await sendMessageAction(conversationId, content);
+          const result = await sendMessageAction(conversationId, content, replyToId);
           if (result.success && result.message) {
             return {
               ...result,
@@ -292,10 +422,16 @@ export function useEncryptedMessaging(): UseEncryptedMessagingReturn {
           return result as { success: boolean; error?: string };
         }
 
+        // Encrypt and upload files; their keys go inside the message
+        const attachments: MessageAttachment[] = [];
+        for (const file of files) {
+          attachments.push(await uploadAttachment(conversationId, file));
+        }
+
         // Encrypt the message
         const { payload, sessionShares } = await encryptMessage(
           conversationId,
-          content,
+          encodeMessageContent({ body: content, attachments }),
           conversationType,
           recipientDevices,
           claimPrekey
@@ -324,6 +460,8 @@ export function useEncryptedMessaging(): UseEncryptedMessagingReturn {
           body: JSON.stringify({
             conversationId,
             encryptedPayload: payload,
+            attachmentIds: attachments.map((attachment) => attachment.id),
+            replyToId,
           }),
         });
 
@@ -333,11 +471,17 @@ export function useEncryptedMessaging(): UseEncryptedMessagingReturn {
         }
 
         const data = await response.json();
+        decryptedMessages.set(getDecryptionKey(data.message), {
+          content,
+          attachments: attachments.length > 0 ? attachments : undefined,
+        });
 
         return {
           success: true,
           message: {
             ...data.message,
+            content,
+            attachments: attachments.length > 0 ? attachments : undefined,
             isEncrypted: true,
             encryptionAlgorithm: payload.algorithm,
             senderDeviceId: payload.senderDeviceId,
@@ -355,6 +499,89 @@ export function useEncryptedMessaging(): UseEncryptedMessagingReturn {
     [isReady]
   );
 
+  // Edit an encrypted message
+  const editEncryptedMessage = useCallback(
+    async (message: Message, content: string, conversationType: "direct" | "group") => {
+      if (!isReady) {
+        return { success: false, error: "Set up encryption to edit encrypted messages" };
+      }
+
+      try {
+        const recipientDevices = await fetchConversationDevices(message.conversationId);
+        if (recipientDevices.length === 0) {
+          return { success: false, error: "No recipient devices to encrypt for" };
+        }
+
+        // The replaced version joins the history inside the new ciphertext
+        const editHistory: MessageEditVersion[] = [
+          { content: message.content, writtenAt: message.editedAt || message.createdAt },
+          ...(message.editHistory ?? []),
+        ];
+
+        const { payload, sessionShares } = await encryptMessage(
+          message.conversationId,
+          encodeMessageContent({
+            body: content,
+            attachments: message.attachments,
+            edits: editHistory.map((version) => ({
+              body: version.content,
+              writtenAt: version.writtenAt,
+            })),
+          }),
+          conversationType,
+          recipientDevices,
+          claimPrekey
+        );
+
+        if (
+          sessionShares &&
+          sessionShares.length > 0 &&
+          payload.sessionId &&
+          deviceIdRef.current
+        ) {
+          await shareSessionKeys(
+            message.conversationId,
+            payload.sessionId,
+            deviceIdRef.current,
+            sessionShares
+          );
+        }
+
+        const response = await fetch("/api/messages/encrypted", {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ messageId: message.id, encryptedPayload: payload }),
+        });
+
+        const data = await response.json();
+        if (!response.ok) {
+          return { success: false, error: data.error || "Edit failed" };
+        }
+
+        const edited = {
+          id: message.id,
+          content,
+          editedAt: data.message.editedAt as string,
+          editHistory,
+        };
+        decryptedMessages.set(getDecryptionKey(edited), {
+          content,
+          attachments: message.attachments,
+          editHistory,
+        });
+
+        return { success: true, message: edited };
+      } catch (err) {
+        console.error("Failed to edit encrypted message:", err);
+        return {
+          success: false,
+          error: err instanceof Error ? err.message : "Encryption failed",
+        };
+      }
+    },
+    [isReady]
+  );
+
   // Decrypt received message
   const decryptReceivedMessage = useCallback(
     async (
@@ -369,6 +596,11 @@ export function useEncryptedMessaging(): UseEncryptedMessagingReturn {
         };
       }
 
+      const cached = decryptedMessages.get(getDecryptionKey(message));
+      if (cached) {
+        return { ...message, ...cached, isEncrypted: true };
+      }
+
       if (!isReady) {
         // E2EE not ready, return with error
         return {
@@ -385,18 +617,38 @@ export function useEncryptedMessaging(): UseEncryptedMessagingReturn {
           senderDeviceId: message.senderDeviceId || "",
           senderKey: message.senderKey || "",
           sessionId: message.sessionId,
-          olmMessageType: undefined, // Determined from message type
+          olmMessageType: message.metadata?.olmMessageType as 0 | 1 | undefined,
         };
 
         const result = await decryptMessage(conversationId, payload);
 
         if (result.success) {
+          const { body, attachments, edits } = decodeMessageContent(result.plaintext);
+          const editHistory = edits?.map((edit) => ({
+            content: edit.body,
+            writtenAt: edit.writtenAt,
+          }));
+          decryptedMessages.set(getDecryptionKey(message), {
+            content: body,
+            attachments,
+            editHistory,
+          });
           return {
             ...message,
-            content: result.plaintext,
+            content: body,
+            attachments,
+            editHistory,
             isEncrypted: true,
           };
         } else {
+          // Missing the session: another device or member may still hold it
+          if (
+            payload.algorithm === "megolm.v1" &&
+            payload.sessionId &&
+            !(await hasInboundMegolmSession(conversationId, payload.sessionId))
+          ) {
+            requestRoomKey(conversationId, payload.sessionId);
+          }
           return {
             ...message,
             content: "🔒 Unable to decrypt",
@@ -441,7 +693,12 @@ export function useEncryptedMessaging(): UseEncryptedMessagingReturn {
             session.conversationId,
             session.senderDeviceId,
             senderIdentityKey,
-            session.encryptedSessionKey
+            session.encryptedSessionKey,
+            {
+              firstKnownIndex: session.firstKnownIndex,
+              forwardedCount: session.forwardedCount,
+              sessionCreatedAt: session.sessionCreatedAt,
+            }
           );
         } catch (err) {
           console.error(
@@ -453,12 +710,31 @@ export function useEncryptedMessaging(): UseEncryptedMessagingReturn {
     } catch (err) {
       console.error("Failed to claim sessions:", err);
     }
+
+    try {
+      await backupRoomKeys();
+      await answerRoomKeyRequests(claimPrekey);
+    } catch (err) {
+      console.error("Failed to sync room keys:", err);
+    }
   }, [isReady]);
 
+  // Pick up forwarded keys and answer other devices' requests while open
+  useEffect(() => {
+    if (!isReady) return;
+
+    const interval = setInterval(() => {
+      void claimPendingSessions();
+    }, ROOM_KEY_SYNC_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [isReady, claimPendingSessions]);
+
   return {
     isE2EEReady: isReady,
     isE2EELoading: isLoading,
     sendEncryptedMessage,
+    editEncryptedMessage,
     decryptReceivedMessage,
     claimPendingSessions,
     error,
@@ -3,6 +3,7 @@
  *
  * Subscribes to Supabase Realtime for instant message updates.
  * Automatically pushes browser notifications for new messages.
+ * When watching a conversation, also reports edits, deletions and reactions.
  */
 
 "use client";
@@ -11,6 +12,7 @@ import { useEffect, useCallback, useState, useRef } from "react";
 import { createClient } from "@/lib/supabase/client";
 import { useSession } from "@/lib/auth-client";
 import type { RealtimeChannel } from "@supabase/supabase-js";
+import type { ReactionChange } from "@/lib/message-reactions";
 
 interface Message {
   id: string;
@@ -26,6 +28,16 @@ interface Message {
   };
 }
 
+interface UpdatedMessage {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  content: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+  reply_to_id: string | null;
+}
+
 interface GroupMessage {
   id: string;
   group_id: string;
@@ -55,6 +67,10 @@ interface UseRealtimeMessagesOptions {
   groupId?: string;
   /** Called when a new message is received */
   onNewMessage?: (message: Message | GroupMessage) => void;
+  /** Called when a message in the watched conversation is edited or deleted */
+  onMessageUpdated?: (message: UpdatedMessage) => void;
+  /** Called when a reaction in the watched conversation is added or removed */
+  onReactionChange?: (change: ReactionChange) => void;
   /** Called when unread count changes */
   onUnreadCountChange?: (count: number) => void;
   /** Whether to show browser push notifications (default: true) */
@@ -83,6 +99,8 @@ export function useRealtimeMessages(
     conversationId,
     groupId,
     onNewMessage,
+    onMessageUpdated,
+    onReactionChange,
     onUnreadCountChange,
     showBrowserNotifications = true, // Always push by default
     enabled = true,
@@ -243,6 +261,48 @@ export function useRealtimeMessages(
           );
         }
 
+        // Edits, deletions and reactions in the watched conversation
+        if (conversationId) {
+          channel.on(
+            "postgres_changes",
+            {
+              event: "UPDATE",
+              schema: "public",
+              table: "dm_messages",
+              filter: `conversation_id=eq.${conversationId}`,
+            },
+            (payload) => {
+              onMessageUpdated?.(payload.new as UpdatedMessage);
+            }
+          );
+
+          channel.on(
+            "postgres_changes",
+            {
+              event: "*",
+              schema: "public",
+              table: "dm_message_reactions",
+              filter: `conversation_id=eq.${conversationId}`,
+            },
+            (payload) => {
+              const added = payload.eventType === "INSERT";
+              const row = (added ? payload.new : payload.old) as {
+                message_id?: string;
+                user_id?: string;
+                emoji?: string;
+              };
+              if (!row.message_id || !row.user_id || !row.emoji) return;
+
+              onReactionChange?.({
+                messageId: row.message_id,
+                userId: row.user_id,
+                emoji: row.emoji,
+                added,
+              });
+            }
+          );
+        }
+
         // Subscribe to group messages
         if (!conversationId) {
           channel.on(
@@ -331,6 +391,8 @@ export function useRealtimeMessages(
     groupId,
     refreshCount,
     onNewMessage,
+    onMessageUpdated,
+    onReactionChange,
     onUnreadCountChange,
     showPushNotification,
   ]);
@@ -0,0 +1,286 @@
+/**
+ * Achievement Engine
+ *
+ * Evaluates the achievement rules authored in Payload (synced to the
+ * achievements table, migration 120). Actions emit events here instead of
+ * checking achievements themselves:
+ *
+ *   await emitAchievementEvent(userId, "comment.created", comment.id);
+ *
+ * Each event is stored once per (user, event, subject) in
+ * achievement_events, so repeating an action on the same subject (e.g.
+ * unfavoriting and favoriting again) doesn't count twice. The rules
+ * triggered by the event are then re-evaluated from that table, progress
+ * is written to achievement_progress and reached rules are awarded.
+ *
+ * When a rule is published or changed, backfillAchievement() imports the
+ * trigger's history from the source tables and awards it retroactively
+ * (queued as an achievement_backfill job by the Payload sync hook).
+ *
+ * New events also pay the point action tied to them (PointAction.event),
+ * and earned achievements pay their points, through lib/points-ledger.ts.
+ */
+
+import "server-only";
+import { randomUUID } from "crypto";
+import { pool } from "@/lib/db";
+import { createNotification } from "@/app/actions/notifications";
+import { awardPointsForEvent, recordAchievementPoints } from "@/lib/points-ledger";
+import type { AchievementCondition, AchievementEvent } from "@/lib/achievement-events";
+
+interface AchievementRule {
+  slug: string;
+  event: AchievementEvent;
+  condition: Exclude<AchievementCondition, "special">;
+  target: number;
+  windowDays: number | null;
+  availableFrom: Date | null;
+  availableUntil: Date | null;
+}
+
+const RULE_SELECT = `SELECT slug, trigger_event, requirement_type, requirement_value,
+  window_days, available_from, available_until
+  FROM achievements a`;
+
+const EVALUATED_RULE = `a.is_active = TRUE
+  AND a.trigger_event IS NOT NULL
+  AND a.requirement_type IN ('count', 'streak', 'threshold')`;
+
+/**
+ * Where each event's history lives, as (user_id, subject_id, occurred_at).
+ * Subject ids must match the ones passed to emitAchievementEvent() so that
+ * backfilled and live events deduplicate.
+ */
+const EVENT_HISTORY: Record<AchievementEvent, string> = {
+  "comment.created": `SELECT user_id, id::text, created_at FROM comments`,
+  "resource.favorited": `SELECT user_id, resource_type || ':' || resource_id, created_at FROM favorites`,
+  "resource.rated": `SELECT user_id, resource_type || ':' || resource_id, created_at FROM ratings`,
+  "review.created": `SELECT user_id, resource_type || ':' || resource_id, created_at FROM reviews`,
+  "collection.created": `SELECT user_id, id::text, created_at FROM collections`,
+  "suggestion.submitted": `SELECT user_id, id::text, created_at FROM edit_suggestions`,
+  "suggestion.approved": `SELECT user_id, id::text, updated_at FROM edit_suggestions
+    WHERE status IN ('approved', 'merged')`,
+  "prompt.created": `SELECT author_id, id::text, created_at FROM prompts WHERE author_id IS NOT NULL`,
+  "user.followed": `SELECT follower_id, following_id, created_at FROM user_follows`,
+  "follower.gained": `SELECT following_id, follower_id, created_at FROM user_follows`,
+  "user.active": `SELECT user_id, to_char((created_at AT TIME ZONE 'UTC')::date, 'YYYY-MM-DD'), MIN(created_at)
+    FROM user_activity GROUP BY 1, 2`,
+  "onboarding.completed": `SELECT id, 'onboarding', "updatedAt" FROM "user" WHERE "hasCompletedOnboarding" = TRUE`,
+  "passkey.registered": `SELECT user_id, credential_id, created_at FROM passkeys`,
+  "two_factor.enabled": `SELECT id, 'two_factor', "updatedAt" FROM "user" WHERE "twoFactorEnabled" = TRUE`,
+};
+
+function toRule(row: Record<string, unknown>): AchievementRule {
+  return {
+    slug: row.slug as string,
+    event: row.trigger_event as AchievementEvent,
+    condition: row.requirement_type as AchievementRule["condition"],
+    target: row.requirement_value as number,
+    windowDays: (row.window_days as number | null) ?? null,
+    availableFrom: (row.available_from as Date | null) ?? null,
+    availableUntil: (row.available_until as Date | null) ?? null,
+  };
+}
+
+/**
+ * Query computing (user_id, value) for a rule: the number of events for
+ * count and threshold, the longest run of consecutive UTC days for streak.
+ * Only events inside the rule's availability window count. Appends its
+ * parameters to `params`.
+ */
+function buildValueQuery(rule: AchievementRule, params: unknown[], userId?: string): string {
+  params.push(rule.event);
+  const filters = [`event = $${params.length}`];
+
+  if (userId) {
+    params.push(userId);
+    filters.push(`user_id = $${params.length}`);
+  }
+  if (rule.availableFrom) {
+    params.push(rule.availableFrom);
+    filters.push(`occurred_at >= $${params.length}`);
+  }
+  if (rule.availableUntil) {
+    params.push(rule.availableUntil);
+    filters.push(`occurred_at <= $${params.length}`);
+  }
+  if (rule.condition === "threshold" && rule.windowDays) {
+    params.push(rule.windowDays);
+    filters.push(`occurred_at > NOW() - make_interval(days => $${params.length})`);
+  }
+
+  const where = filters.join(" AND ");
+
+  if (rule.condition === "streak") {
+    // Consecutive days share the same (day - row number)
+    return `SELECT user_id, MAX(run)::int AS value FROM (
+        SELECT user_id, COUNT(*) AS run FROM (
+          SELECT user_id, day - (ROW_NUMBER() OVER (PARTITION BY user_id ORDER BY day))::int AS streak_start
+          FROM (
+            SELECT DISTINCT user_id, (occurred_at AT TIME ZONE 'UTC')::date AS day
+            FROM achievement_events WHERE ${where}
+          ) days
+        ) runs
+        GROUP BY user_id, streak_start
+      ) streaks
+      GROUP BY user_id`;
+  }
+
+  return `SELECT user_id, COUNT(*)::int AS value
+    FROM achievement_events WHERE ${where}
+    GROUP BY user_id`;
+}
+
+/**
+ * Write progress for a rule (for one user, or everyone) and return the
+ * users who have reached it but haven't earned it yet
+ */
+async function updateProgress(rule: AchievementRule, userId?: string): Promise<string[]> {
+  const params: unknown[] = [];
+  const valueQuery = buildValueQuery(rule, params, userId);
+  params.push(rule.slug, rule.target);
+  const slugParam = params.length - 1;
+  const targetParam = params.length;
+
+  const result = await pool.query(
+    `WITH progress AS (
+       INSERT INTO achievement_progress (user_id, achievement_slug, current_value, updated_at)
+       SELECT user_id, $${slugParam}, value, NOW() FROM (${valueQuery}) v
+       ON CONFLICT (user_id, achievement_slug) DO UPDATE SET
+         current_value = EXCLUDED.current_value,
+         updated_at = NOW()
+       RETURNING user_id, current_value
+     )
+     SELECT p.user_id FROM progress p
+     WHERE p.current_value >= $${targetParam}
+       AND NOT EXISTS (
+         SELECT 1 FROM user_achievements ua
+         JOIN achievements a ON a.id = ua.achievement_id
+         WHERE ua.user_id = p.user_id AND a.slug = $${slugParam}
+       )`,
+    params
+  );
+
+  return result.rows.map((row) => row.user_id);
+}
+
+/**
+ * Award an achievement and notify the user. Returns false if it doesn't
+ * exist or was already earned. Also used for special (manual) achievements.
+ */
+export async function awardAchievement(userId: string, slug: string): Promise<boolean> {
+  const result = await pool.query(
+    `SELECT award_achievement($1, $2) AS awarded`,
+    [userId, slug]
+  );
+  if (!result.rows[0]?.awarded) return false;
+
+  const achievement = await pool.query(
+    `SELECT name, description, points FROM achievements WHERE slug = $1`,
+    [slug]
+  );
+  if (achievement.rows[0]) {
+    await recordAchievementPoints(userId, {
+      slug,
+      name: achievement.rows[0].name,
+      points: achievement.rows[0].points,
+    });
+    await createNotification({
+      userId,
+      type: "system",
+      title: `Achievement Unlocked: ${achievement.rows[0].name}`,
+      message: achievement.rows[0].description,
+      resourceType: "achievement",
+      resourceId: slug,
+    });
+  }
+
+  return true;
+}
+
+/**
+ * Record an event and evaluate the achievements it triggers. `subjectId`
+ * identifies what the event is about (the comment, the followed user...);
+ * omit it for events that count every occurrence. user.active defaults to
+ * the current UTC day, so it counts once per day. Never throws: achievements
+ * must not break the action that emitted the event.
+ */
+export async function emitAchievementEvent(
+  userId: string,
+  event: AchievementEvent,
+  subjectId?: string,
+  occurredAt: Date = new Date()
+): Promise<void> {
+  const subject =
+    subjectId ?? (event === "user.active" ? occurredAt.toISOString().slice(0, 10) : randomUUID());
+
+  try {
+    const inserted = await pool.query(
+      `INSERT INTO achievement_events (user_id, event, subject_id, occurred_at)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (user_id, event, subject_id) DO NOTHING`,
+      [userId, event, subject, occurredAt]
+    );
+    if (inserted.rowCount === 0) return;
+
+    await awardPointsForEvent(userId, event, subject);
+
+    const rules = await pool.query(
+      `${RULE_SELECT}
+       WHERE a.trigger_event = $1 AND ${EVALUATED_RULE}
+         AND (a.available_from IS NULL OR a.available_from <= NOW())
+         AND (a.available_until IS NULL OR a.available_until > NOW())
+         AND NOT EXISTS (
+           SELECT 1 FROM user_achievements ua
+           WHERE ua.achievement_id = a.id AND ua.user_id = $2
+         )`,
+      [event, userId]
+    );
+
+    for (const row of rules.rows) {
+      const rule = toRule(row);
+      const reached = await updateProgress(rule, userId);
+      if (reached.length > 0) {
+        await awardAchievement(userId, rule.slug);
+      }
+    }
+  } catch (error) {
+    console.error(`[Achievements] Failed to process ${event} for ${userId}:`, error);
+  }
+}
+
+/**
+ * Evaluate a rule against everyone's history, importing past events for
+ * its trigger first. Returns how many users were awarded.
+ */
+export async function backfillAchievement(slug: string): Promise<{ awarded: number }> {
+  const result = await pool.query(
+    `${RULE_SELECT} WHERE a.slug = $1 AND ${EVALUATED_RULE}`,
+    [slug]
+  );
+  if (result.rows.length === 0) {
+    return { awarded: 0 };
+  }
+
+  const rule = toRule(result.rows[0]);
+  const history = EVENT_HISTORY[rule.event];
+  if (!history) {
+    throw new Error(`Unknown achievement event: ${rule.event}`);
+  }
+
+  await pool.query(
+    `INSERT INTO achievement_events (user_id, event, subject_id, occurred_at)
+     SELECT h.user_id, $1, h.subject_id, COALESCE(h.occurred_at, NOW())
+     FROM (${history}) AS h(user_id, subject_id, occurred_at)
+     ON CONFLICT (user_id, event, subject_id) DO NOTHING`,
+    [rule.event]
+  );
+
+  const reached = await updateProgress(rule);
+  let awarded = 0;
+  for (const userId of reached) {
+    if (await awardAchievement(userId, rule.slug)) awarded++;
+  }
+
+  return { awarded };
+}
@@ -0,0 +1,50 @@
+/**
+ * Achievement Events & Conditions
+ *
+ * The events actions emit to the achievement engine (lib/achievement-engine.ts)
+ * and the condition types an achievement rule can use. Shared with the
+ * Payload Achievements collection, so this module must stay free of
+ * server-only imports.
+ */
+
+export const ACHIEVEMENT_EVENTS = {
+  "comment.created": "Comment posted",
+  "resource.favorited": "Resource or doc favorited",
+  "resource.rated": "Resource or doc rated",
+  "review.created": "Review written",
+  "collection.created": "Collection created",
+  "suggestion.submitted": "Edit suggestion submitted",
+  "suggestion.approved": "Edit suggestion approved",
+  "prompt.created": "Prompt created",
+  "user.followed": "Followed another user",
+  "follower.gained": "Gained a follower",
+  "user.active": "Active on the site (once per day)",
+  "onboarding.completed": "Completed onboarding",
+  "passkey.registered": "Passkey registered",
+  "two_factor.enabled": "Two-factor authentication enabled",
+} as const;
+
+export type AchievementEvent = keyof typeof ACHIEVEMENT_EVENTS;
+
+export function isAchievementEvent(value: unknown): value is AchievementEvent {
+  return typeof value === "string" && value in ACHIEVEMENT_EVENTS;
+}
+
+/**
+ * - special: never evaluated, awarded by hand
+ * - count: the event has happened at least `threshold` times
+ * - streak: the event happened on `threshold` consecutive days (UTC)
+ * - threshold: at least `threshold` times within the last `windowDays` days
+ */
+export const ACHIEVEMENT_CONDITIONS = {
+  special: "Special (Manual)",
+  count: "Count",
+  streak: "Streak (consecutive days)",
+  threshold: "Threshold within time window",
+} as const;
+
+export type AchievementCondition = keyof typeof ACHIEVEMENT_CONDITIONS;
+
+export function isAchievementCondition(value: unknown): value is AchievementCondition {
+  return typeof value === "string" && value in ACHIEVEMENT_CONDITIONS;
+}
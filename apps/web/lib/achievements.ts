@@ -4,6 +4,10 @@
  * Comprehensive achievement system with beautiful Lucide icons.
  * All achievements use consistent visual styling and categories.
  *
+ * This is the client-side display catalogue (icons, rarity, copy). How an
+ * achievement is earned is a rule authored in Payload and evaluated by
+ * lib/achievement-engine.ts.
+ *
  * Categories:
  * - onboarding: First-time user milestones
  * - engagement: Community interaction
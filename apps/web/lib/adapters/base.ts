@@ -59,6 +59,57 @@ export interface DiscoveredResource {
       keywords?: string[];
       license?: string;
       author?: string;
+      maintainers?: string[];
+    };
+    /** PyPI-specific data */
+    pypi?: {
+      name: string;
+      version: string;
+      monthlyDownloads?: number;
+      keywords?: string[];
+      license?: string;
+      author?: string;
+      maintainers?: string[];
+      requiresPython?: string;
+    };
+    /** crates.io-specific data */
+    crates?: {
+      name: string;
+      version: string;
+      totalDownloads?: number;
+      recentDownloads?: number;
+      keywords?: string[];
+      categories?: string[];
+      license?: string;
+      maintainers?: string[];
+    };
+    /** VS Code Marketplace-specific data */
+    vscode?: {
+      extensionId: string;
+      publisher: string;
+      version: string;
+      installs?: number;
+      rating?: number;
+      ratingCount?: number;
+      categories?: string[];
+      tags?: string[];
+      license?: string;
+      maintainers?: string[];
+    };
+    /** RSS/Atom/JSON feed data */
+    feed?: {
+      feedUrl: string;
+      feedTitle?: string;
+      format: "rss" | "atom" | "json";
+      guid?: string;
+      entryUrl?: string;
+      entryTitle?: string;
+      entryCount?: number;
+      publishedAt?: string;
+      author?: string;
+      categories?: string[];
+      /** Whether the resource is a feed entry or a link found inside one */
+      origin?: "entry" | "link";
     };
     /** Generic metadata */
     [key: string]: unknown;
@@ -78,6 +129,9 @@ export type SourceType =
   | "github_org"
   | "npm_package"
   | "npm_search"
+  | "pypi_package"
+  | "crates_package"
+  | "vscode_extension"
   | "awesome_list"
   | "website"
   | "rss_feed"
@@ -101,6 +155,24 @@ export interface SourceConfig {
     searchQuery?: string;
     scope?: string;
   };
+  /** PyPI discovery */
+  pypi?: {
+    packageName?: string;
+    searchQuery?: string;
+  };
+  /** crates.io discovery */
+  crates?: {
+    crateName?: string;
+    searchQuery?: string;
+    category?: string;
+  };
+  /** VS Code Marketplace discovery */
+  vscode?: {
+    /** Full extension identifier, e.g. "anthropic.claude-code" */
+    extensionId?: string;
+    searchQuery?: string;
+    publisher?: string;
+  };
   /** Awesome list parsing */
   awesomeList?: {
     url: string;
@@ -115,6 +187,16 @@ export interface SourceConfig {
       description?: string;
     };
   };
+  /** RSS, Atom or JSON Feed */
+  rssFeed?: {
+    url: string;
+    /** Queue the feed entries themselves (default: true) */
+    includeEntries?: boolean;
+    /** Queue outbound links found in entry bodies (default: true) */
+    extractLinks?: boolean;
+    /** Only keep extracted links on these domains */
+    linkDomains?: string[];
+  };
 }
 
 /**
@@ -202,6 +284,27 @@ export abstract class BaseAdapter implements SourceAdapter {
     };
   }
 
+  /**
+   * Helper to extract owner/repo from a repository URL (git+https, git://, etc.)
+   */
+  protected parseGitHubFromUrl(
+    url: string
+  ): DiscoveredResource["metadata"]["github"] {
+    const cleanUrl = url
+      .replace(/^git\+/, "")
+      .replace(/^git:\/\//, "https://")
+      .replace(/\.git$/, "");
+
+    const match = cleanUrl.match(/github\.com[/:]([^/]+)\/([^/#?]+)/);
+    if (match && match[1] && match[2]) {
+      return {
+        owner: match[1],
+        repo: match[2],
+      };
+    }
+    return undefined;
+  }
+
   /**
    * Helper to filter out existing URLs
    */
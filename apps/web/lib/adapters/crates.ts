@@ -0,0 +1,280 @@
+/**
+ * crates.io Adapter
+ *
+ * Discovers resources from the Rust package registry.
+ */
+
+import "server-only";
+import {
+  BaseAdapter,
+  DiscoveredResource,
+  DiscoverOptions,
+  SourceConfig,
+  SourceType,
+  ValidationResult,
+} from "./base";
+
+interface CratesCrate {
+  name: string;
+  description?: string | null;
+  max_stable_version?: string | null;
+  max_version?: string;
+  newest_version?: string;
+  downloads?: number;
+  recent_downloads?: number | null;
+  keywords?: string[] | null;
+  categories?: string[] | null;
+  homepage?: string | null;
+  repository?: string | null;
+  documentation?: string | null;
+  updated_at?: string;
+}
+
+interface CratesCrateResponse {
+  crate: CratesCrate;
+  versions?: { num: string; license?: string | null; yanked?: boolean }[];
+  keywords?: { keyword: string }[];
+  categories?: { category: string }[];
+}
+
+interface CratesOwnersResponse {
+  users?: { login: string; name?: string | null; kind?: string }[];
+}
+
+export class CratesAdapter extends BaseAdapter {
+  readonly type: SourceType = "crates_package";
+  readonly name = "crates.io";
+  readonly description =
+    "Discover resources from crates.io Rust packages and search";
+
+  private readonly apiUrl = "https://crates.io/api/v1";
+
+  // crates.io rejects requests without an identifying User-Agent
+  private readonly headers = {
+    "User-Agent": "Claude-Insider-Resource-Discovery (https://claudeinsider.com)",
+    Accept: "application/json",
+  };
+
+  validate(config: SourceConfig): ValidationResult {
+    const errors: string[] = [];
+
+    if (!config.crates) {
+      errors.push("crates.io configuration is required");
+      return { valid: false, errors };
+    }
+
+    const { crateName, searchQuery, category } = config.crates;
+
+    if (!crateName && !searchQuery && !category) {
+      errors.push(
+        "At least one of crateName, searchQuery, or category must be provided"
+      );
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  canHandle(url: string): boolean {
+    return (
+      url.includes("crates.io/crates/") ||
+      url.includes("lib.rs/crates/") ||
+      url.startsWith("crates:")
+    );
+  }
+
+  async fetch(url: string): Promise<DiscoveredResource | null> {
+    // Extract crate name from URL
+    let crateName: string | null = null;
+
+    if (url.startsWith("crates:")) {
+      crateName = url.replace("crates:", "");
+    } else {
+      const match = url.match(/(?:crates\.io|lib\.rs)\/crates\/([^/?#]+)/);
+      if (match && match[1]) {
+        crateName = decodeURIComponent(match[1]);
+      }
+    }
+
+    if (!crateName) {
+      return null;
+    }
+
+    try {
+      const data = await this.fetchCrate(crateName);
+      if (!data) {
+        return null;
+      }
+
+      const owners = await this.fetchOwners(crateName);
+      return this.crateToResource(data.crate, {
+        license: data.versions?.find((v) => !v.yanked)?.license || undefined,
+        keywords: data.keywords?.map((k) => k.keyword),
+        categories: data.categories?.map((c) => c.category),
+        maintainers: owners,
+      });
+    } catch (error) {
+      console.error("crates.io fetch error:", error);
+      return null;
+    }
+  }
+
+  async discover(
+    config: SourceConfig,
+    options?: DiscoverOptions
+  ): Promise<DiscoveredResource[]> {
+    const validation = this.validate(config);
+    if (!validation.valid) {
+      throw new Error(`Invalid config: ${validation.errors?.join(", ")}`);
+    }
+
+    const crates = config.crates!;
+    const limit = options?.limit ?? 20;
+    let resources: DiscoveredResource[] = [];
+
+    // Mode 1: Specific crate
+    if (crates.crateName) {
+      const resource = await this.fetch(`crates:${crates.crateName}`);
+      if (resource) {
+        resources.push(resource);
+      }
+    }
+    // Mode 2: Search query and/or category
+    else {
+      resources = await this.searchCrates(crates.searchQuery, crates.category, limit);
+    }
+
+    // Filter out existing URLs
+    resources = this.filterExisting(resources, options?.skipExisting);
+
+    // Apply download filter (recent = last 90 days)
+    if (options?.minDownloads) {
+      resources = resources.filter(
+        (r) =>
+          (r.metadata.crates?.recentDownloads ?? 0) >= (options.minDownloads ?? 0)
+      );
+    }
+
+    return resources.slice(0, limit);
+  }
+
+  private async fetchCrate(name: string): Promise<CratesCrateResponse | null> {
+    try {
+      const response = await fetch(
+        `${this.apiUrl}/crates/${encodeURIComponent(name)}`,
+        { headers: this.headers }
+      );
+
+      if (!response.ok) {
+        return null;
+      }
+
+      return (await response.json()) as CratesCrateResponse;
+    } catch {
+      return null;
+    }
+  }
+
+  private async fetchOwners(name: string): Promise<string[]> {
+    try {
+      const response = await fetch(
+        `${this.apiUrl}/crates/${encodeURIComponent(name)}/owners`,
+        { headers: this.headers }
+      );
+
+      if (!response.ok) {
+        return [];
+      }
+
+      const data: CratesOwnersResponse = await response.json();
+      return (data.users ?? []).map((user) => user.name || user.login);
+    } catch {
+      return [];
+    }
+  }
+
+  private async searchCrates(
+    query: string | undefined,
+    category: string | undefined,
+    limit: number
+  ): Promise<DiscoveredResource[]> {
+    try {
+      const params = new URLSearchParams({
+        per_page: String(Math.min(limit, 100)),
+        sort: "relevance",
+      });
+      if (query) params.set("q", query);
+      if (category) params.set("category", category);
+
+      const response = await fetch(`${this.apiUrl}/crates?${params}`, {
+        headers: this.headers,
+      });
+
+      if (!response.ok) {
+        throw new Error(`crates.io search error: ${response.status}`);
+      }
+
+      const data = await response.json();
+      const results: CratesCrate[] = data.crates || [];
+
+      // Search results omit owners and license, so fetch them per crate
+      return await Promise.all(
+        results.map(async (crate) => {
+          const [details, owners] = await Promise.all([
+            this.fetchCrate(crate.name),
+            this.fetchOwners(crate.name),
+          ]);
+          return this.crateToResource(crate, {
+            license: details?.versions?.find((v) => !v.yanked)?.license || undefined,
+            keywords: crate.keywords ?? details?.keywords?.map((k) => k.keyword),
+            categories: crate.categories ?? details?.categories?.map((c) => c.category),
+            maintainers: owners,
+          });
+        })
+      );
+    } catch (error) {
+      console.error("crates.io search error:", error);
+      return [];
+    }
+  }
+
+  private crateToResource(
+    crate: CratesCrate,
+    extra: {
+      license?: string;
+      keywords?: string[];
+      categories?: string[];
+      maintainers?: string[];
+    }
+  ): DiscoveredResource {
+    return this.createResource({
+      url: `https://crates.io/crates/${crate.name}`,
+      title: crate.name,
+      description: crate.description?.trim() || "",
+      metadata: {
+        crates: {
+          name: crate.name,
+          version:
+            crate.max_stable_version ||
+            crate.newest_version ||
+            crate.max_version ||
+            "unknown",
+          totalDownloads: crate.downloads,
+          recentDownloads: crate.recent_downloads ?? undefined,
+          keywords: extra.keywords,
+          categories: extra.categories,
+          license: extra.license,
+          maintainers: extra.maintainers,
+        },
+        github: crate.repository
+          ? this.parseGitHubFromUrl(crate.repository)
+          : undefined,
+      },
+      context: crate.homepage || crate.documentation || undefined,
+    });
+  }
+}
+
+export const cratesAdapter = new CratesAdapter();
@@ -16,8 +16,12 @@ import {
 } from "./base";
 import { githubAdapter } from "./github";
 import { npmAdapter } from "./npm";
+import { pypiAdapter } from "./pypi";
+import { cratesAdapter } from "./crates";
+import { vscodeMarketplaceAdapter } from "./vscode-marketplace";
 import { awesomeListAdapter } from "./awesome-list";
 import { websiteAdapter } from "./website";
+import { rssFeedAdapter } from "./rss-feed";
 
 // Export types
 export type {
@@ -32,8 +36,12 @@ export type {
 // Export individual adapters
 export { githubAdapter } from "./github";
 export { npmAdapter } from "./npm";
+export { pypiAdapter } from "./pypi";
+export { cratesAdapter } from "./crates";
+export { vscodeMarketplaceAdapter } from "./vscode-marketplace";
 export { awesomeListAdapter } from "./awesome-list";
 export { websiteAdapter } from "./website";
+export { rssFeedAdapter } from "./rss-feed";
 
 /**
  * All registered adapters
@@ -41,7 +49,11 @@ export { websiteAdapter } from "./website";
 const adapters: SourceAdapter[] = [
   githubAdapter,
   npmAdapter,
+  pypiAdapter,
+  cratesAdapter,
+  vscodeMarketplaceAdapter,
   awesomeListAdapter,
+  rssFeedAdapter,
   websiteAdapter,
 ];
 
@@ -67,7 +79,7 @@ export const adapterRegistry = {
    * Get adapter that can handle a URL
    */
   getForUrl(url: string): SourceAdapter | undefined {
-    // Priority order: GitHub > npm > awesome list > website
+    // Priority order: GitHub > package registries > awesome list > feed > website
     // GitHub adapter handles github.com URLs
     if (githubAdapter.canHandle(url)) {
       return githubAdapter;
@@ -76,11 +88,25 @@ export const adapterRegistry = {
     if (npmAdapter.canHandle(url)) {
       return npmAdapter;
     }
+    // PyPI, crates.io and VS Code Marketplace handle their package pages
+    if (pypiAdapter.canHandle(url)) {
+      return pypiAdapter;
+    }
+    if (cratesAdapter.canHandle(url)) {
+      return cratesAdapter;
+    }
+    if (vscodeMarketplaceAdapter.canHandle(url)) {
+      return vscodeMarketplaceAdapter;
+    }
     // Awesome list adapter (also handles GitHub, but for list parsing)
     // Only use for explicitly marked awesome lists
     if (url.toLowerCase().includes("awesome")) {
       return awesomeListAdapter;
     }
+    // Feed adapter handles URLs that look like RSS/Atom/JSON feeds
+    if (rssFeedAdapter.canHandle(url)) {
+      return rssFeedAdapter;
+    }
     // Website adapter is the fallback for any HTTP URL
     if (websiteAdapter.canHandle(url)) {
       return websiteAdapter;
@@ -124,8 +150,16 @@ export async function discoverResources(
       adapter = githubAdapter;
     } else if (config.npm) {
       adapter = npmAdapter;
+    } else if (config.pypi) {
+      adapter = pypiAdapter;
+    } else if (config.crates) {
+      adapter = cratesAdapter;
+    } else if (config.vscode) {
+      adapter = vscodeMarketplaceAdapter;
     } else if (config.awesomeList) {
       adapter = awesomeListAdapter;
+    } else if (config.rssFeed) {
+      adapter = rssFeedAdapter;
     } else if (config.website) {
       adapter = websiteAdapter;
     }
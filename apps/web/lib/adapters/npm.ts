@@ -287,6 +287,7 @@ export class NpmAdapter extends BaseAdapter {
           keywords: pkg.keywords,
           license: pkg.license,
           author: authorName,
+          maintainers: pkg.maintainers?.map((m) => m.name),
         },
         github: this.parseGitHubFromRepo(pkg.repository),
       },
@@ -323,24 +324,6 @@ export class NpmAdapter extends BaseAdapter {
     if (!repo?.url) return undefined;
     return this.parseGitHubFromUrl(repo.url);
   }
-
-  private parseGitHubFromUrl(
-    url: string
-  ): DiscoveredResource["metadata"]["github"] {
-    const cleanUrl = url
-      .replace(/^git\+/, "")
-      .replace(/^git:\/\//, "https://")
-      .replace(/\.git$/, "");
-
-    const match = cleanUrl.match(/github\.com[/:]([^/]+)\/([^/]+)/);
-    if (match && match[1] && match[2]) {
-      return {
-        owner: match[1],
-        repo: match[2],
-      };
-    }
-    return undefined;
-  }
 }
 
 export const npmAdapter = new NpmAdapter();
@@ -0,0 +1,287 @@
+/**
+ * PyPI Adapter
+ *
+ * Discovers resources from the Python Package Index.
+ * Download counts come from pypistats.org (last 30 days).
+ */
+
+import "server-only";
+import {
+  BaseAdapter,
+  DiscoveredResource,
+  DiscoverOptions,
+  SourceConfig,
+  SourceType,
+  ValidationResult,
+} from "./base";
+
+interface PypiPackage {
+  info: {
+    name: string;
+    version: string;
+    summary?: string | null;
+    keywords?: string | null;
+    license?: string | null;
+    license_expression?: string | null;
+    author?: string | null;
+    author_email?: string | null;
+    maintainer?: string | null;
+    maintainer_email?: string | null;
+    home_page?: string | null;
+    project_url?: string | null;
+    project_urls?: Record<string, string> | null;
+    requires_python?: string | null;
+    classifiers?: string[];
+  };
+}
+
+interface PypiStatsRecent {
+  data?: {
+    last_day?: number;
+    last_week?: number;
+    last_month?: number;
+  };
+}
+
+export class PypiAdapter extends BaseAdapter {
+  readonly type: SourceType = "pypi_package";
+  readonly name = "PyPI";
+  readonly description =
+    "Discover resources from Python Package Index packages and search";
+
+  private readonly registryUrl = "https://pypi.org";
+  private readonly statsUrl = "https://pypistats.org/api/packages";
+
+  validate(config: SourceConfig): ValidationResult {
+    const errors: string[] = [];
+
+    if (!config.pypi) {
+      errors.push("PyPI configuration is required");
+      return { valid: false, errors };
+    }
+
+    const { packageName, searchQuery } = config.pypi;
+
+    if (!packageName && !searchQuery) {
+      errors.push("At least one of packageName or searchQuery must be provided");
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  canHandle(url: string): boolean {
+    return url.includes("pypi.org/project/") || url.startsWith("pypi:");
+  }
+
+  async fetch(url: string): Promise<DiscoveredResource | null> {
+    // Extract package name from URL
+    let packageName: string | null = null;
+
+    if (url.startsWith("pypi:")) {
+      packageName = url.replace("pypi:", "");
+    } else {
+      const match = url.match(/pypi\.org\/project\/([^/?#]+)/);
+      if (match && match[1]) {
+        packageName = decodeURIComponent(match[1]);
+      }
+    }
+
+    if (!packageName) {
+      return null;
+    }
+
+    try {
+      const pkg = await this.fetchPackage(packageName);
+      if (!pkg) {
+        return null;
+      }
+
+      const downloads = await this.fetchDownloads(pkg.info.name);
+      return this.packageToResource(pkg, downloads);
+    } catch (error) {
+      console.error("PyPI fetch error:", error);
+      return null;
+    }
+  }
+
+  async discover(
+    config: SourceConfig,
+    options?: DiscoverOptions
+  ): Promise<DiscoveredResource[]> {
+    const validation = this.validate(config);
+    if (!validation.valid) {
+      throw new Error(`Invalid config: ${validation.errors?.join(", ")}`);
+    }
+
+    const pypi = config.pypi!;
+    const limit = options?.limit ?? 20;
+    let resources: DiscoveredResource[] = [];
+
+    // Mode 1: Specific package
+    if (pypi.packageName) {
+      const resource = await this.fetch(`pypi:${pypi.packageName}`);
+      if (resource) {
+        resources.push(resource);
+      }
+    }
+    // Mode 2: Search query
+    else if (pypi.searchQuery) {
+      resources = await this.searchPackages(pypi.searchQuery, limit);
+    }
+
+    // Filter out existing URLs
+    resources = this.filterExisting(resources, options?.skipExisting);
+
+    // Apply download filter
+    if (options?.minDownloads) {
+      resources = resources.filter(
+        (r) =>
+          (r.metadata.pypi?.monthlyDownloads ?? 0) >= (options.minDownloads ?? 0)
+      );
+    }
+
+    return resources.slice(0, limit);
+  }
+
+  private async fetchPackage(name: string): Promise<PypiPackage | null> {
+    try {
+      const response = await fetch(
+        `${this.registryUrl}/pypi/${encodeURIComponent(name)}/json`
+      );
+
+      if (!response.ok) {
+        return null;
+      }
+
+      return (await response.json()) as PypiPackage;
+    } catch {
+      return null;
+    }
+  }
+
+  private async fetchDownloads(name: string): Promise<number> {
+    try {
+      const response = await fetch(
+        `${this.statsUrl}/${encodeURIComponent(name.toLowerCase())}/recent`
+      );
+
+      if (!response.ok) {
+        return 0;
+      }
+
+      const data: PypiStatsRecent = await response.json();
+      return data.data?.last_month || 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * PyPI has no JSON search API, so package names are read from the
+   * search results page and then resolved through the JSON API.
+   */
+  private async searchPackages(
+    query: string,
+    limit: number
+  ): Promise<DiscoveredResource[]> {
+    try {
+      const response = await fetch(
+        `${this.registryUrl}/search/?q=${encodeURIComponent(query)}`,
+        { headers: { Accept: "text/html" } }
+      );
+
+      if (!response.ok) {
+        throw new Error(`PyPI search error: ${response.status}`);
+      }
+
+      const html = await response.text();
+      const names = new Set<string>();
+      for (const match of html.matchAll(
+        /<a[^>]+class="package-snippet"[^>]+href="\/project\/([^/"]+)\/?"/g
+      )) {
+        if (match[1]) {
+          names.add(decodeURIComponent(match[1]));
+        }
+        if (names.size >= limit) break;
+      }
+
+      const resources = await Promise.all(
+        Array.from(names).map(async (name) => {
+          const pkg = await this.fetchPackage(name);
+          if (!pkg) return null;
+          const downloads = await this.fetchDownloads(pkg.info.name);
+          return this.packageToResource(pkg, downloads);
+        })
+      );
+
+      return resources.filter((r): r is DiscoveredResource => r !== null);
+    } catch (error) {
+      console.error("PyPI search error:", error);
+      return [];
+    }
+  }
+
+  private packageToResource(
+    pkg: PypiPackage,
+    downloads: number
+  ): DiscoveredResource {
+    const { info } = pkg;
+    const projectUrls = info.project_urls ?? {};
+    const repositoryUrl = Object.entries(projectUrls).find(([label, url]) =>
+      /source|repo|code|github/i.test(label) || url.includes("github.com")
+    )?.[1];
+    const homepage =
+      info.home_page || projectUrls.Homepage || projectUrls.homepage || undefined;
+
+    const maintainers = [info.author, info.maintainer]
+      .map((name) => name?.trim())
+      .filter((name): name is string => !!name);
+
+    return this.createResource({
+      url: `https://pypi.org/project/${info.name}/`,
+      title: info.name,
+      description: info.summary || "",
+      metadata: {
+        pypi: {
+          name: info.name,
+          version: info.version,
+          monthlyDownloads: downloads,
+          keywords: this.parseKeywords(info.keywords),
+          license: this.parseLicense(info),
+          author: info.author || undefined,
+          maintainers: Array.from(new Set(maintainers)),
+          requiresPython: info.requires_python || undefined,
+        },
+        github: repositoryUrl
+          ? this.parseGitHubFromUrl(repositoryUrl)
+          : homepage
+            ? this.parseGitHubFromUrl(homepage)
+            : undefined,
+      },
+      context: homepage,
+    });
+  }
+
+  private parseKeywords(keywords?: string | null): string[] | undefined {
+    if (!keywords) return undefined;
+    const parsed = keywords
+      .split(keywords.includes(",") ? "," : /\s+/)
+      .map((k) => k.trim())
+      .filter(Boolean);
+    return parsed.length > 0 ? parsed : undefined;
+  }
+
+  private parseLicense(info: PypiPackage["info"]): string | undefined {
+    if (info.license_expression) return info.license_expression;
+    // Some packages paste the full license text into the license field
+    if (info.license && info.license.length <= 64) return info.license;
+
+    const classifier = info.classifiers?.find((c) => c.startsWith("License ::"));
+    return classifier?.split("::").pop()?.trim() || undefined;
+  }
+}
+
+export const pypiAdapter = new PypiAdapter();
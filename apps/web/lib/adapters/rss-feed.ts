@@ -0,0 +1,592 @@
+/**
+ * RSS Feed Adapter
+ *
+ * Discovers resources from RSS 2.0, Atom and JSON Feed sources.
+ * Each entry becomes a candidate resource, and outbound links found in
+ * entry bodies are extracted as additional candidates.
+ */
+
+import "server-only";
+import {
+  BaseAdapter,
+  DiscoveredResource,
+  DiscoverOptions,
+  SourceConfig,
+  SourceType,
+  ValidationResult,
+} from "./base";
+
+type FeedFormat = "rss" | "atom" | "json";
+
+interface FeedEntry {
+  /** GUID / Atom id / JSON Feed id (falls back to the entry URL) */
+  id: string;
+  url: string;
+  title: string;
+  summary: string;
+  /** Raw HTML body, used for link extraction */
+  content: string;
+  publishedAt?: string;
+  author?: string;
+  categories: string[];
+}
+
+interface ParsedFeed {
+  format: FeedFormat;
+  title: string;
+  description: string;
+  link: string;
+  entries: FeedEntry[];
+}
+
+interface JsonFeedItem {
+  id?: string | number;
+  url?: string;
+  external_url?: string;
+  title?: string;
+  summary?: string;
+  content_html?: string;
+  content_text?: string;
+  date_published?: string;
+  author?: { name?: string };
+  authors?: { name?: string }[];
+  tags?: string[];
+}
+
+interface JsonFeed {
+  version?: string;
+  title?: string;
+  description?: string;
+  home_page_url?: string;
+  items?: JsonFeedItem[];
+}
+
+// URL patterns that usually point at a feed document
+const FEED_URL_PATTERNS = [
+  /\.(rss|atom)(\?|$)/i,
+  /\/(feed|rss|atom)(\.xml|\.json)?\/?(\?|$)/i,
+  /\/feed\.json(\?|$)/i,
+  /\/(index|rss|atom|feed)\.xml(\?|$)/i,
+];
+
+// Links in entry bodies that are never resources
+const IGNORED_LINK_PATTERNS = [
+  /\.(png|jpe?g|gif|svg|webp|mp3|mp4|mov)(\?|$)/i,
+  /^https?:\/\/(www\.)?(twitter\.com|x\.com|facebook\.com|linkedin\.com)\/(share|intent|sharer)/i,
+  /\/(tag|tags|category|author)\//i,
+];
+
+const MAX_SUMMARY_LENGTH = 300;
+
+export class RssFeedAdapter extends BaseAdapter {
+  readonly type: SourceType = "rss_feed";
+  readonly name = "RSS Feed";
+  readonly description =
+    "Discover resources from RSS, Atom and JSON feeds, including links mentioned in entries";
+
+  validate(config: SourceConfig): ValidationResult {
+    const errors: string[] = [];
+
+    if (!config.rssFeed) {
+      errors.push("RSS feed configuration is required");
+      return { valid: false, errors };
+    }
+
+    const { url, includeEntries, extractLinks } = config.rssFeed;
+
+    if (!url) {
+      errors.push("Feed URL is required");
+    } else {
+      try {
+        const parsed = new URL(url);
+        if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+          errors.push("Feed URL must use HTTP or HTTPS");
+        }
+      } catch {
+        errors.push("Invalid URL format");
+      }
+    }
+
+    if (includeEntries === false && extractLinks === false) {
+      errors.push("At least one of includeEntries or extractLinks must be enabled");
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  canHandle(url: string): boolean {
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+        return false;
+      }
+      return FEED_URL_PATTERNS.some((pattern) =>
+        pattern.test(parsed.pathname + parsed.search)
+      );
+    } catch {
+      return false;
+    }
+  }
+
+  async fetch(url: string): Promise<DiscoveredResource | null> {
+    try {
+      const feed = await this.fetchFeed(url);
+      if (!feed) {
+        return null;
+      }
+
+      return this.createResource({
+        url: feed.link || url,
+        title: feed.title || new URL(url).hostname,
+        description: feed.description,
+        metadata: {
+          feed: {
+            feedUrl: url,
+            feedTitle: feed.title,
+            format: feed.format,
+            entryCount: feed.entries.length,
+          },
+        },
+      });
+    } catch (error) {
+      console.error("RSS feed fetch error:", error);
+      return null;
+    }
+  }
+
+  async discover(
+    config: SourceConfig,
+    options?: DiscoverOptions
+  ): Promise<DiscoveredResource[]> {
+    const validation = this.validate(config);
+    if (!validation.valid) {
+      throw new Error(`Invalid config: ${validation.errors?.join(", ")}`);
+    }
+
+    const feedConfig = config.rssFeed!;
+    const limit = options?.limit ?? 50;
+    const includeEntries = feedConfig.includeEntries ?? true;
+    const extractLinks = feedConfig.extractLinks ?? true;
+
+    try {
+      const feed = await this.fetchFeed(feedConfig.url);
+      if (!feed) {
+        return [];
+      }
+
+      // GUIDs and URLs already processed, plus everything seen during this run
+      const seen = new Set(
+        (options?.skipExisting ?? []).map((value) => this.normalizeKey(value))
+      );
+      const isNew = (...keys: string[]): boolean => {
+        const normalized = keys.filter(Boolean).map((key) => this.normalizeKey(key));
+        if (normalized.some((key) => seen.has(key))) {
+          return false;
+        }
+        normalized.forEach((key) => seen.add(key));
+        return true;
+      };
+
+      const feedHost = this.hostnameOf(feed.link || feedConfig.url);
+      const linkDomains = (feedConfig.linkDomains ?? []).map((d) => d.toLowerCase());
+      let resources: DiscoveredResource[] = [];
+
+      for (const entry of feed.entries) {
+        if (includeEntries && entry.url && isNew(entry.id, entry.url)) {
+          resources.push(
+            this.createResource({
+              url: entry.url,
+              title: entry.title || entry.url,
+              description: entry.summary,
+              metadata: {
+                feed: {
+                  feedUrl: feedConfig.url,
+                  feedTitle: feed.title,
+                  format: feed.format,
+                  guid: entry.id,
+                  publishedAt: entry.publishedAt,
+                  author: entry.author,
+                  categories: entry.categories,
+                  origin: "entry",
+                },
+              },
+              context: `Entry in feed "${feed.title}"`,
+            })
+          );
+        } else if (!includeEntries) {
+          // Still record the entry so it is not re-extracted as an outbound link
+          isNew(entry.id, entry.url);
+        }
+
+        if (!extractLinks) {
+          continue;
+        }
+
+        const entryHost = this.hostnameOf(entry.url);
+        for (const link of this.extractOutboundLinks(entry.content || entry.summary, entry.url || feedConfig.url)) {
+          const host = this.hostnameOf(link.url);
+          if (!host || host === feedHost || host === entryHost) {
+            continue;
+          }
+          if (
+            linkDomains.length > 0 &&
+            !linkDomains.some((domain) => host === domain || host.endsWith(`.${domain}`))
+          ) {
+            continue;
+          }
+          if (!isNew(link.url)) {
+            continue;
+          }
+
+          resources.push(
+            this.createResource({
+              url: link.url,
+              title: link.text || this.titleFromUrl(link.url),
+              description: "",
+              metadata: {
+                feed: {
+                  feedUrl: feedConfig.url,
+                  feedTitle: feed.title,
+                  format: feed.format,
+                  entryUrl: entry.url,
+                  entryTitle: entry.title,
+                  publishedAt: entry.publishedAt,
+                  origin: "link",
+                },
+              },
+              context: `Linked from "${entry.title}" in feed "${feed.title}"`,
+            })
+          );
+        }
+      }
+
+      // Filter by keywords
+      if (options?.keywords && options.keywords.length > 0) {
+        const keywordRegex = new RegExp(options.keywords.join("|"), "i");
+        resources = resources.filter(
+          (r) =>
+            keywordRegex.test(r.title) ||
+            keywordRegex.test(r.description) ||
+            keywordRegex.test(r.url)
+        );
+      }
+
+      return this.filterExisting(resources, options?.skipExisting).slice(0, limit);
+    } catch (error) {
+      console.error("RSS feed discovery error:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Download and parse a feed, detecting the format from the payload
+   */
+  private async fetchFeed(url: string): Promise<ParsedFeed | null> {
+    const response = await fetch(url, {
+      headers: {
+        Accept:
+          "application/rss+xml, application/atom+xml, application/feed+json, application/json;q=0.9, application/xml;q=0.8, text/xml;q=0.8",
+        "User-Agent": "Claude-Insider-Resource-Discovery",
+      },
+    });
+
+    if (!response.ok) {
+      console.error(`RSS feed request failed: ${response.status} ${url}`);
+      return null;
+    }
+
+    const body = (await response.text()).trim();
+    if (!body) {
+      return null;
+    }
+
+    if (body.startsWith("{")) {
+      return this.parseJsonFeed(body, url);
+    }
+    if (/<feed[\s>]/i.test(body)) {
+      return this.parseAtom(body, url);
+    }
+    if (/<(rss|rdf:RDF)[\s>]/i.test(body)) {
+      return this.parseRss(body, url);
+    }
+
+    console.error(`Unrecognized feed format: ${url}`);
+    return null;
+  }
+
+  private parseRss(xml: string, feedUrl: string): ParsedFeed {
+    const channel = this.getTagContent(xml, "channel") ?? xml;
+    const channelHead = channel.split(/<item[\s>]/i)[0] ?? channel;
+    const link = this.resolveUrl(this.getText(channelHead, "link"), feedUrl);
+
+    const entries = this.getBlocks(xml, "item").map((item) => {
+      const entryUrl = this.resolveUrl(
+        this.getText(item, "link") || this.getPermalinkGuid(item),
+        link || feedUrl
+      );
+      const content =
+        this.getTagContent(item, "content:encoded") ??
+        this.getTagContent(item, "description") ??
+        "";
+
+      return {
+        id: this.getText(item, "guid") || entryUrl,
+        url: entryUrl,
+        title: this.getText(item, "title"),
+        summary: this.summarize(this.getText(item, "description") || content),
+        content: this.decodeEntities(this.stripCdata(content)),
+        publishedAt: this.toIsoDate(
+          this.getText(item, "pubDate") || this.getText(item, "dc:date")
+        ),
+        author: this.getText(item, "dc:creator") || this.getText(item, "author") || undefined,
+        categories: this.getBlocks(item, "category")
+          .map((category) => this.cleanText(category))
+          .filter(Boolean),
+      };
+    });
+
+    return {
+      format: "rss",
+      title: this.getText(channelHead, "title"),
+      description: this.summarize(this.getText(channelHead, "description")),
+      link,
+      entries,
+    };
+  }
+
+  private parseAtom(xml: string, feedUrl: string): ParsedFeed {
+    const head = xml.split(/<entry[\s>]/i)[0] ?? xml;
+    const link = this.resolveUrl(this.getAtomLink(head), feedUrl);
+
+    const entries = this.getBlocks(xml, "entry").map((entry) => {
+      const entryUrl = this.resolveUrl(this.getAtomLink(entry), link || feedUrl);
+      const content =
+        this.getTagContent(entry, "content") ?? this.getTagContent(entry, "summary") ?? "";
+      const authorBlock = this.getTagContent(entry, "author");
+
+      return {
+        id: this.getText(entry, "id") || entryUrl,
+        url: entryUrl,
+        title: this.getText(entry, "title"),
+        summary: this.summarize(this.getText(entry, "summary") || content),
+        content: this.decodeEntities(this.stripCdata(content)),
+        publishedAt: this.toIsoDate(
+          this.getText(entry, "published") || this.getText(entry, "updated")
+        ),
+        author: authorBlock ? this.getText(authorBlock, "name") || undefined : undefined,
+        categories: Array.from(entry.matchAll(/<category\b[^>]*\bterm="([^"]*)"/gi))
+          .map((match) => this.decodeEntities(match[1] ?? ""))
+          .filter(Boolean),
+      };
+    });
+
+    return {
+      format: "atom",
+      title: this.getText(head, "title"),
+      description: this.summarize(this.getText(head, "subtitle")),
+      link,
+      entries,
+    };
+  }
+
+  private parseJsonFeed(body: string, feedUrl: string): ParsedFeed | null {
+    let data: JsonFeed;
+    try {
+      data = JSON.parse(body) as JsonFeed;
+    } catch {
+      console.error(`Invalid JSON feed: ${feedUrl}`);
+      return null;
+    }
+
+    if (!Array.isArray(data.items)) {
+      return null;
+    }
+
+    const link = this.resolveUrl(data.home_page_url ?? "", feedUrl);
+
+    const entries = data.items.map((item) => {
+      const entryUrl = this.resolveUrl(item.url || item.external_url || "", link || feedUrl);
+      const content = item.content_html || item.content_text || "";
+
+      return {
+        id: item.id !== undefined ? String(item.id) : entryUrl,
+        url: entryUrl,
+        title: this.cleanText(item.title ?? ""),
+        summary: this.summarize(item.summary || content),
+        content,
+        publishedAt: this.toIsoDate(item.date_published ?? ""),
+        author: item.authors?.[0]?.name || item.author?.name || undefined,
+        categories: item.tags ?? [],
+      };
+    });
+
+    return {
+      format: "json",
+      title: this.cleanText(data.title ?? ""),
+      description: this.summarize(data.description ?? ""),
+      link,
+      entries,
+    };
+  }
+
+  /**
+   * Pull <a href> links out of an HTML body, resolved against the entry URL
+   */
+  private extractOutboundLinks(
+    html: string,
+    baseUrl: string
+  ): { url: string; text: string }[] {
+    const links: { url: string; text: string }[] = [];
+    const anchorRegex = /<a\b[^>]*\bhref\s*=\s*["']([^"']+)["'][^>]*>([\s\S]*?)<\/a>/gi;
+
+    for (const match of html.matchAll(anchorRegex)) {
+      const url = this.resolveUrl(this.decodeEntities(match[1] ?? ""), baseUrl);
+      if (!url || IGNORED_LINK_PATTERNS.some((pattern) => pattern.test(url))) {
+        continue;
+      }
+
+      const text = this.cleanText(match[2] ?? "");
+      links.push({
+        url,
+        // Bare URLs as anchor text make poor titles
+        text: /^https?:\/\//i.test(text) ? "" : text,
+      });
+    }
+
+    return links;
+  }
+
+  // ---------------------------------------------------------------------------
+  // XML helpers (feeds are simple enough that a full parser is not needed)
+  // ---------------------------------------------------------------------------
+
+  private escapeTag(tag: string): string {
+    return tag.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+
+  private getTagContent(xml: string, tag: string): string | undefined {
+    const name = this.escapeTag(tag);
+    const match = xml.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)<\\/${name}>`, "i"));
+    return match?.[1];
+  }
+
+  private getBlocks(xml: string, tag: string): string[] {
+    const name = this.escapeTag(tag);
+    const regex = new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)<\\/${name}>`, "gi");
+    return Array.from(xml.matchAll(regex), (match) => match[1] ?? "");
+  }
+
+  private getText(xml: string, tag: string): string {
+    return this.cleanText(this.getTagContent(xml, tag) ?? "");
+  }
+
+  private getPermalinkGuid(item: string): string {
+    const match = item.match(/<guid(\s[^>]*)?>([\s\S]*?)<\/guid>/i);
+    if (!match || /isPermaLink\s*=\s*["']false["']/i.test(match[1] ?? "")) {
+      return "";
+    }
+    return this.cleanText(match[2] ?? "");
+  }
+
+  private getAtomLink(xml: string): string {
+    const links = Array.from(xml.matchAll(/<link\b([^>]*)\/?>/gi), (match) => match[1] ?? "");
+    const preferred =
+      links.find((attrs) => /\brel\s*=\s*["']alternate["']/i.test(attrs)) ??
+      links.find((attrs) => !/\brel\s*=/i.test(attrs));
+    const href = preferred?.match(/\bhref\s*=\s*["']([^"']+)["']/i);
+    return href?.[1] ? this.decodeEntities(href[1]) : "";
+  }
+
+  private stripCdata(text: string): string {
+    return text.replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1");
+  }
+
+  private decodeEntities(text: string): string {
+    return text
+      .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+      .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&#39;/g, "'")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&nbsp;/g, " ")
+      .replace(/&amp;/g, "&");
+  }
+
+  /**
+   * CDATA, entities and markup removed, whitespace collapsed
+   */
+  private cleanText(text: string): string {
+    const decoded = this.decodeEntities(this.stripCdata(text));
+    return decoded
+      .replace(/<[^>]+>/g, " ")
+      .replace(/\s+/g, " ")
+      .trim();
+  }
+
+  private summarize(text: string): string {
+    const clean = this.cleanText(text);
+    if (clean.length <= MAX_SUMMARY_LENGTH) {
+      return clean;
+    }
+    return `${clean.slice(0, MAX_SUMMARY_LENGTH).replace(/\s+\S*$/, "")}…`;
+  }
+
+  private toIsoDate(value: string): string | undefined {
+    if (!value) {
+      return undefined;
+    }
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+
+  private resolveUrl(value: string, base: string): string {
+    if (!value) {
+      return "";
+    }
+    try {
+      const resolved = new URL(value.trim(), base);
+      if (resolved.protocol !== "http:" && resolved.protocol !== "https:") {
+        return "";
+      }
+      resolved.hash = "";
+      return resolved.toString();
+    } catch {
+      return "";
+    }
+  }
+
+  private hostnameOf(url: string): string {
+    try {
+      return new URL(url).hostname.toLowerCase().replace(/^www\./, "");
+    } catch {
+      return "";
+    }
+  }
+
+  private normalizeKey(value: string): string {
+    return value.trim().toLowerCase().replace(/\/+$/, "");
+  }
+
+  private titleFromUrl(url: string): string {
+    try {
+      const parsed = new URL(url);
+      const lastPart = parsed.pathname.split("/").filter(Boolean).pop();
+      if (lastPart) {
+        return lastPart
+          .replace(/[-_]/g, " ")
+          .replace(/\.\w+$/, "")
+          .replace(/\b\w/g, (c) => c.toUpperCase());
+      }
+      return parsed.hostname;
+    } catch {
+      return url;
+    }
+  }
+}
+
+export const rssFeedAdapter = new RssFeedAdapter();
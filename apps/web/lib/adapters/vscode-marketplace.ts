@@ -0,0 +1,255 @@
+/**
+ * VS Code Marketplace Adapter
+ *
+ * Discovers editor extensions from the Visual Studio Marketplace
+ * using the public gallery extension query API.
+ */
+
+import "server-only";
+import {
+  BaseAdapter,
+  DiscoveredResource,
+  DiscoverOptions,
+  SourceConfig,
+  SourceType,
+  ValidationResult,
+} from "./base";
+
+interface MarketplaceExtension {
+  extensionName: string;
+  displayName?: string;
+  shortDescription?: string;
+  lastUpdated?: string;
+  publisher: {
+    publisherName: string;
+    displayName?: string;
+  };
+  versions?: {
+    version: string;
+    properties?: { key: string; value: string }[];
+    files?: { assetType: string; source: string }[];
+  }[];
+  statistics?: { statisticName: string; value: number }[];
+  categories?: string[];
+  tags?: string[];
+}
+
+interface MarketplaceQueryResponse {
+  results?: { extensions?: MarketplaceExtension[] }[];
+}
+
+// Gallery API filter types
+const FILTER_EXTENSION_NAME = 7;
+const FILTER_TARGET = 8;
+const FILTER_SEARCH_TEXT = 10;
+
+// IncludeFiles | IncludeCategoryAndTags | IncludeVersionProperties |
+// IncludeAssetUri | IncludeStatistics | IncludeLatestVersionOnly
+const QUERY_FLAGS = 0x2 | 0x4 | 0x10 | 0x80 | 0x100 | 0x200;
+
+const REPOSITORY_PROPERTY = "Microsoft.VisualStudio.Services.Links.Source";
+const LICENSE_ASSET = "Microsoft.VisualStudio.Services.Content.License";
+
+export class VscodeMarketplaceAdapter extends BaseAdapter {
+  readonly type: SourceType = "vscode_extension";
+  readonly name = "VS Code Marketplace";
+  readonly description =
+    "Discover editor extensions from the Visual Studio Code Marketplace";
+
+  private readonly galleryUrl =
+    "https://marketplace.visualstudio.com/_apis/public/gallery/extensionquery";
+
+  validate(config: SourceConfig): ValidationResult {
+    const errors: string[] = [];
+
+    if (!config.vscode) {
+      errors.push("VS Code Marketplace configuration is required");
+      return { valid: false, errors };
+    }
+
+    const { extensionId, searchQuery, publisher } = config.vscode;
+
+    if (!extensionId && !searchQuery && !publisher) {
+      errors.push(
+        "At least one of extensionId, searchQuery, or publisher must be provided"
+      );
+    }
+
+    if (extensionId && !/^[\w-]+\.[\w-]+$/.test(extensionId)) {
+      errors.push('extensionId must look like "publisher.extension"');
+    }
+
+    return {
+      valid: errors.length === 0,
+      errors: errors.length > 0 ? errors : undefined,
+    };
+  }
+
+  canHandle(url: string): boolean {
+    return (
+      url.includes("marketplace.visualstudio.com/items") ||
+      url.startsWith("vscode:extension/")
+    );
+  }
+
+  async fetch(url: string): Promise<DiscoveredResource | null> {
+    // Extract extension identifier from URL
+    let extensionId: string | null = null;
+
+    if (url.startsWith("vscode:extension/")) {
+      extensionId = url.replace("vscode:extension/", "");
+    } else {
+      try {
+        extensionId = new URL(url).searchParams.get("itemName");
+      } catch {
+        extensionId = null;
+      }
+    }
+
+    if (!extensionId) {
+      return null;
+    }
+
+    try {
+      const extensions = await this.queryExtensions(
+        { filterType: FILTER_EXTENSION_NAME, value: extensionId },
+        1
+      );
+      const extension = extensions[0];
+      return extension ? this.extensionToResource(extension) : null;
+    } catch (error) {
+      console.error("VS Code Marketplace fetch error:", error);
+      return null;
+    }
+  }
+
+  async discover(
+    config: SourceConfig,
+    options?: DiscoverOptions
+  ): Promise<DiscoveredResource[]> {
+    const validation = this.validate(config);
+    if (!validation.valid) {
+      throw new Error(`Invalid config: ${validation.errors?.join(", ")}`);
+    }
+
+    const vscode = config.vscode!;
+    const limit = options?.limit ?? 20;
+    let resources: DiscoveredResource[] = [];
+
+    try {
+      // Mode 1: Specific extension
+      if (vscode.extensionId) {
+        const resource = await this.fetch(`vscode:extension/${vscode.extensionId}`);
+        if (resource) {
+          resources.push(resource);
+        }
+      }
+      // Mode 2: Search text, optionally scoped to a publisher
+      else {
+        const searchText = [
+          vscode.searchQuery,
+          vscode.publisher ? `publisher:"${vscode.publisher}"` : undefined,
+        ]
+          .filter(Boolean)
+          .join(" ");
+
+        const extensions = await this.queryExtensions(
+          { filterType: FILTER_SEARCH_TEXT, value: searchText },
+          limit
+        );
+        resources = extensions.map((extension) =>
+          this.extensionToResource(extension)
+        );
+      }
+    } catch (error) {
+      console.error("VS Code Marketplace search error:", error);
+      return [];
+    }
+
+    // Filter out existing URLs
+    resources = this.filterExisting(resources, options?.skipExisting);
+
+    // Apply install filter
+    if (options?.minDownloads) {
+      resources = resources.filter(
+        (r) => (r.metadata.vscode?.installs ?? 0) >= (options.minDownloads ?? 0)
+      );
+    }
+
+    return resources.slice(0, limit);
+  }
+
+  private async queryExtensions(
+    criterion: { filterType: number; value: string },
+    limit: number
+  ): Promise<MarketplaceExtension[]> {
+    const response = await fetch(this.galleryUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json;api-version=3.0-preview.1",
+      },
+      body: JSON.stringify({
+        filters: [
+          {
+            criteria: [
+              { filterType: FILTER_TARGET, value: "Microsoft.VisualStudio.Code" },
+              criterion,
+            ],
+            pageNumber: 1,
+            pageSize: limit,
+            sortBy: 0,
+            sortOrder: 0,
+          },
+        ],
+        flags: QUERY_FLAGS,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`VS Code Marketplace query error: ${response.status}`);
+    }
+
+    const data: MarketplaceQueryResponse = await response.json();
+    return data.results?.[0]?.extensions ?? [];
+  }
+
+  private extensionToResource(extension: MarketplaceExtension): DiscoveredResource {
+    const publisher = extension.publisher.publisherName;
+    const extensionId = `${publisher}.${extension.extensionName}`;
+    const latest = extension.versions?.[0];
+    const stat = (name: string) =>
+      extension.statistics?.find((s) => s.statisticName === name)?.value;
+
+    const repositoryUrl = latest?.properties?.find(
+      (p) => p.key === REPOSITORY_PROPERTY
+    )?.value;
+    const licenseUrl = latest?.files?.find(
+      (f) => f.assetType === LICENSE_ASSET
+    )?.source;
+
+    return this.createResource({
+      url: `https://marketplace.visualstudio.com/items?itemName=${extensionId}`,
+      title: extension.displayName || extension.extensionName,
+      description: extension.shortDescription || "",
+      metadata: {
+        vscode: {
+          extensionId,
+          publisher,
+          version: latest?.version || "unknown",
+          installs: stat("install"),
+          rating: stat("averagerating"),
+          ratingCount: stat("ratingcount"),
+          categories: extension.categories,
+          tags: extension.tags?.filter((tag) => !tag.startsWith("__")),
+          license: licenseUrl,
+          maintainers: [extension.publisher.displayName || publisher],
+        },
+        github: repositoryUrl ? this.parseGitHubFromUrl(repositoryUrl) : undefined,
+      },
+      context: extension.lastUpdated,
+    });
+  }
+}
+
+export const vscodeMarketplaceAdapter = new VscodeMarketplaceAdapter();
@@ -0,0 +1,343 @@
+/**
+ * AI Provider Credential Validation
+ *
+ * Checks stored credentials against each provider and reports which Claude
+ * models they can use. Results use the same ValidationResult shape as
+ * validateAnthropicApiKey(), with availableModels keyed by Anthropic model ID.
+ */
+
+import { createHash, createHmac, createSign } from "crypto";
+import {
+  CLAUDE_MODELS,
+  validateAnthropicApiKey,
+  type ClaudeModel,
+  type ValidationResult,
+} from "@/lib/api-keys";
+import {
+  getProviderModelId,
+  readBedrockCredentials,
+  readVertexCredentials,
+  type AiProvider,
+  type BedrockCredentials,
+  type VertexCredentials,
+} from "@/lib/ai-providers";
+
+/**
+ * Validate a stored secret for any provider
+ */
+export async function validateProviderCredential(
+  provider: AiProvider,
+  secret: string
+): Promise<ValidationResult> {
+  switch (provider) {
+    case "anthropic":
+      return validateAnthropicApiKey(secret);
+    case "bedrock":
+      return validateBedrockCredentials(readBedrockCredentials(secret));
+    case "vertex":
+      return validateVertexCredentials(readVertexCredentials(secret));
+  }
+}
+
+function failure(
+  error: string,
+  errorCode: string,
+  errorDetails: string,
+  keyHint: string
+): ValidationResult {
+  return {
+    valid: false,
+    error,
+    errorCode,
+    errorDetails,
+    keyHint,
+    validatedAt: new Date().toISOString(),
+  };
+}
+
+function networkFailure(error: unknown, providerName: string, keyHint: string): ValidationResult {
+  console.error(`[API Key Validation] ${providerName} error:`, error);
+  const errorMessage = error instanceof Error ? error.message : "Unknown error";
+  return failure(
+    "Validation failed",
+    "VALIDATION_ERROR",
+    `Could not reach ${providerName}: ${errorMessage}. Please try again.`,
+    keyHint
+  );
+}
+
+// =============================================================================
+// AWS BEDROCK
+// =============================================================================
+
+function sha256Hex(data: string): string {
+  return createHash("sha256").update(data, "utf8").digest("hex");
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac("sha256", key).update(data, "utf8").digest();
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * Sign a bodyless AWS request with Signature Version 4
+ */
+function signAwsRequest(
+  url: URL,
+  service: string,
+  credentials: BedrockCredentials
+): Record<string, string> {
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, "");
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256Hex("");
+
+  const headers: Record<string, string> = {
+    host: url.host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate,
+  };
+  if (credentials.sessionToken) {
+    headers["x-amz-security-token"] = credentials.sessionToken;
+  }
+
+  const headerNames = Object.keys(headers).sort();
+  const canonicalHeaders = headerNames.map((name) => `${name}:${headers[name]}\n`).join("");
+  const signedHeaders = headerNames.join(";");
+  const canonicalQuery = [...url.searchParams.entries()]
+    .map(([key, value]) => `${encodeRfc3986(key)}=${encodeRfc3986(value)}`)
+    .sort()
+    .join("&");
+
+  const canonicalRequest = [
+    "GET",
+    url.pathname,
+    canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+
+  const scope = `${dateStamp}/${credentials.region}/${service}/aws4_request`;
+  const stringToSign = ["AWS4-HMAC-SHA256", amzDate, scope, sha256Hex(canonicalRequest)].join("\n");
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), credentials.region), service),
+    "aws4_request"
+  );
+  const signature = createHmac("sha256", signingKey).update(stringToSign, "utf8").digest("hex");
+
+  // fetch sets Host itself
+  const { host: _host, ...requestHeaders } = headers;
+  return {
+    ...requestHeaders,
+    Authorization: `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+/**
+ * Validate AWS credentials by listing Anthropic models in the region.
+ * Listed models are the ones Bedrock offers there; model access still has
+ * to be granted in the Bedrock console before they can be invoked.
+ */
+export async function validateBedrockCredentials(
+  credentials: BedrockCredentials
+): Promise<ValidationResult> {
+  const keyHint = `${credentials.accessKeyId.slice(0, 4)}...${credentials.accessKeyId.slice(-4)}`;
+  const validatedAt = new Date().toISOString();
+  const url = new URL(`https://bedrock.${credentials.region}.amazonaws.com/foundation-models`);
+  url.searchParams.set("byProvider", "Anthropic");
+
+  try {
+    const response = await fetch(url, { headers: signAwsRequest(url, "bedrock", credentials) });
+
+    if (!response.ok) {
+      const errorType = response.headers.get("x-amzn-errortype")?.split(":")[0] ?? "";
+      const errorBody = await response.json().catch(() => ({}));
+      const message: string | undefined = errorBody.message || errorBody.Message;
+
+      if (errorType === "UnrecognizedClientException" || errorType === "InvalidSignatureException") {
+        return failure(
+          "Invalid AWS credentials",
+          "AUTHENTICATION_ERROR",
+          message || "AWS did not recognise this access key and secret. Check that both were copied correctly and the key is active.",
+          keyHint
+        );
+      }
+      if (errorType === "ExpiredTokenException") {
+        return failure(
+          "Credentials expired",
+          "AUTHENTICATION_ERROR",
+          "These temporary credentials have expired. Generate new ones or use a long-lived access key.",
+          keyHint
+        );
+      }
+      if (response.status === 403) {
+        return failure(
+          "Permission denied",
+          "PERMISSION_DENIED",
+          message || "This IAM user or role needs the bedrock:ListFoundationModels and bedrock:InvokeModel permissions.",
+          keyHint
+        );
+      }
+      return failure(
+        `Unexpected error (${response.status})`,
+        "UNKNOWN_ERROR",
+        message || `AWS returned status ${response.status}. Check that Bedrock is available in ${credentials.region}.`,
+        keyHint
+      );
+    }
+
+    const data: { modelSummaries?: { modelId: string }[] } = await response.json();
+    const offered = new Set((data.modelSummaries ?? []).map((m) => m.modelId));
+    const availableModels = CLAUDE_MODELS.filter((model) => {
+      const bedrockId = getProviderModelId("bedrock", model.id);
+      // Summaries list base IDs without the ":0" throughput suffix
+      return bedrockId !== null && (offered.has(bedrockId) || offered.has(bedrockId.replace(/:\d+$/, "")));
+    });
+
+    if (availableModels.length === 0) {
+      return failure(
+        "No Claude models available",
+        "NO_MODELS",
+        `Bedrock in ${credentials.region} does not offer any supported Claude models. Try a region such as us-east-1 or us-west-2.`,
+        keyHint
+      );
+    }
+
+    return { valid: true, availableModels, keyHint, validatedAt };
+  } catch (error) {
+    return networkFailure(error, "AWS Bedrock", keyHint);
+  }
+}
+
+// =============================================================================
+// GOOGLE VERTEX AI
+// =============================================================================
+
+const GOOGLE_TOKEN_URL = "https://oauth2.googleapis.com/token";
+
+function base64Url(data: string | Buffer): string {
+  return Buffer.from(data).toString("base64url");
+}
+
+/**
+ * Exchange a service account key for an OAuth access token (JWT bearer grant)
+ */
+async function getVertexAccessToken(credentials: VertexCredentials): Promise<Response> {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const header = base64Url(JSON.stringify({ alg: "RS256", typ: "JWT" }));
+  const claims = base64Url(
+    JSON.stringify({
+      iss: credentials.clientEmail,
+      scope: "https://www.googleapis.com/auth/cloud-platform",
+      aud: GOOGLE_TOKEN_URL,
+      iat: issuedAt,
+      exp: issuedAt + 3600,
+    })
+  );
+  const signature = createSign("RSA-SHA256").update(`${header}.${claims}`).sign(credentials.privateKey);
+
+  return fetch(GOOGLE_TOKEN_URL, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+      assertion: `${header}.${claims}.${base64Url(signature)}`,
+    }),
+  });
+}
+
+/**
+ * Validate a service account by getting a token, then sending a one-token
+ * request to each Claude model to see which are enabled for the project
+ */
+export async function validateVertexCredentials(
+  credentials: VertexCredentials
+): Promise<ValidationResult> {
+  const keyHint = credentials.projectId.slice(0, 20);
+  const validatedAt = new Date().toISOString();
+
+  let tokenResponse: Response;
+  try {
+    tokenResponse = await getVertexAccessToken(credentials);
+  } catch (error) {
+    if (error instanceof Error && /key/i.test(error.message)) {
+      return failure(
+        "Invalid private key",
+        "INVALID_FORMAT",
+        "The private_key in this service account key could not be read. Download a new JSON key and try again.",
+        keyHint
+      );
+    }
+    return networkFailure(error, "Google Cloud", keyHint);
+  }
+
+  const tokenBody = await tokenResponse.json().catch(() => ({}));
+  if (!tokenResponse.ok || !tokenBody.access_token) {
+    return failure(
+      "Invalid service account",
+      "AUTHENTICATION_ERROR",
+      tokenBody.error_description ||
+        "Google rejected this service account key. It may have been deleted or disabled.",
+      keyHint
+    );
+  }
+
+  const host =
+    credentials.region === "global"
+      ? "aiplatform.googleapis.com"
+      : `${credentials.region}-aiplatform.googleapis.com`;
+  const basePath = `https://${host}/v1/projects/${credentials.projectId}/locations/${credentials.region}/publishers/anthropic/models`;
+
+  try {
+    const probes = await Promise.all(
+      CLAUDE_MODELS.map(async (model): Promise<[ClaudeModel, Response | null]> => {
+        const vertexId = getProviderModelId("vertex", model.id);
+        if (!vertexId) return [model, null];
+        const response = await fetch(`${basePath}/${vertexId}:rawPredict`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${tokenBody.access_token}`,
+          },
+          body: JSON.stringify({
+            anthropic_version: "vertex-2023-10-16",
+            max_tokens: 1,
+            messages: [{ role: "user", content: "test" }],
+          }),
+        });
+        return [model, response];
+      })
+    );
+
+    // Rate limited still means the model is enabled
+    const availableModels = probes
+      .filter(([, response]) => response && (response.ok || response.status === 429))
+      .map(([model]) => model);
+
+    if (availableModels.length > 0) {
+      return { valid: true, availableModels, keyHint, validatedAt };
+    }
+
+    if (probes.some(([, response]) => response?.status === 403)) {
+      return failure(
+        "Permission denied",
+        "PERMISSION_DENIED",
+        `The service account needs the Vertex AI User role on ${credentials.projectId}, and the Vertex AI API must be enabled.`,
+        keyHint
+      );
+    }
+
+    return failure(
+      "No Claude models enabled",
+      "NO_MODELS",
+      `No Claude models are enabled for ${credentials.projectId} in ${credentials.region}. Enable them in the Vertex AI Model Garden.`,
+      keyHint
+    );
+  } catch (error) {
+    return networkFailure(error, "Vertex AI", keyHint);
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * AI Providers
+ *
+ * Registry of providers users can bring their own credentials for, shared
+ * by the API key routes and settings UI. Validation lives server-side in
+ * lib/ai-provider-validation.ts.
+ *
+ * - anthropic: Anthropic API key
+ * - bedrock: AWS access key pair with Bedrock access
+ * - vertex: Google Cloud service account with Vertex AI access
+ *
+ * Each credential is reduced to a single secret string for encryption:
+ * the raw key for Anthropic, JSON for the cloud providers.
+ */
+
+import { getApiKeyHint } from "@/lib/api-keys";
+
+export type AiProvider = "anthropic" | "bedrock" | "vertex";
+
+export interface ProviderCredentialField {
+  name: string;
+  label: string;
+  type: "text" | "password" | "textarea";
+  placeholder?: string;
+  required?: boolean;
+}
+
+export interface AiProviderInfo {
+  id: AiProvider;
+  name: string;
+  description: string;
+  consoleUrl: string;
+  fields: ProviderCredentialField[];
+}
+
+export const AI_PROVIDERS: AiProviderInfo[] = [
+  {
+    id: "anthropic",
+    name: "Anthropic",
+    description: "API key from the Anthropic Console",
+    consoleUrl: "https://console.anthropic.com/settings/keys",
+    fields: [
+      { name: "apiKey", label: "API key", type: "password", placeholder: "sk-ant-...", required: true },
+    ],
+  },
+  {
+    id: "bedrock",
+    name: "AWS Bedrock",
+    description: "IAM access key with bedrock:ListFoundationModels and bedrock:InvokeModel",
+    consoleUrl: "https://console.aws.amazon.com/bedrock/home#/modelaccess",
+    fields: [
+      { name: "accessKeyId", label: "Access key ID", type: "text", placeholder: "AKIA...", required: true },
+      { name: "secretAccessKey", label: "Secret access key", type: "password", required: true },
+      { name: "sessionToken", label: "Session token (temporary credentials only)", type: "password" },
+      { name: "region", label: "Region", type: "text", placeholder: "us-east-1", required: true },
+    ],
+  },
+  {
+    id: "vertex",
+    name: "Google Vertex AI",
+    description: "Service account key with the Vertex AI User role",
+    consoleUrl: "https://console.cloud.google.com/vertex-ai/publishers/anthropic",
+    fields: [
+      { name: "serviceAccountJson", label: "Service account key (JSON)", type: "textarea", required: true },
+      { name: "region", label: "Region", type: "text", placeholder: "us-east5", required: true },
+      { name: "projectId", label: "Project ID (defaults to the key's project)", type: "text" },
+    ],
+  },
+];
+
+export interface BedrockCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  region: string;
+}
+
+export interface VertexCredentials {
+  projectId: string;
+  region: string;
+  clientEmail: string;
+  privateKey: string;
+}
+
+export type ParsedCredential =
+  | { ok: true; secret: string; hint: string }
+  | { ok: false; error: string; errorDetails: string };
+
+const AWS_REGION_PATTERN = /^[a-z]{2}(-gov)?-[a-z]+-\d$/;
+const GCP_REGION_PATTERN = /^(global|[a-z]+-[a-z]+\d)$/;
+const AWS_ACCESS_KEY_PATTERN = /^(AKIA|ASIA)[A-Z0-9]{12,}$/;
+
+export function isAiProvider(value: unknown): value is AiProvider {
+  return AI_PROVIDERS.some((p) => p.id === value);
+}
+
+export function getProviderInfo(provider: string): AiProviderInfo | undefined {
+  return AI_PROVIDERS.find((p) => p.id === provider);
+}
+
+function readString(input: Record<string, unknown>, name: string): string {
+  const value = input[name];
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function invalid(error: string, errorDetails: string): ParsedCredential {
+  return { ok: false, error, errorDetails };
+}
+
+/**
+ * Check submitted credential fields and reduce them to the secret to store.
+ * Only checks shape; validateProviderCredential() checks them against the provider.
+ */
+export function parseProviderCredentials(
+  provider: AiProvider,
+  input: Record<string, unknown>
+): ParsedCredential {
+  switch (provider) {
+    case "anthropic": {
+      const apiKey = readString(input, "apiKey");
+      if (!apiKey) {
+        return invalid("API key is required", "Paste your Anthropic API key from the Anthropic Console.");
+      }
+      return { ok: true, secret: apiKey, hint: getApiKeyHint(apiKey) };
+    }
+
+    case "bedrock": {
+      const credentials: BedrockCredentials = {
+        accessKeyId: readString(input, "accessKeyId"),
+        secretAccessKey: readString(input, "secretAccessKey"),
+        sessionToken: readString(input, "sessionToken") || undefined,
+        region: readString(input, "region"),
+      };
+      if (!AWS_ACCESS_KEY_PATTERN.test(credentials.accessKeyId)) {
+        return invalid(
+          "Invalid access key ID",
+          "AWS access key IDs start with AKIA (or ASIA for temporary credentials)."
+        );
+      }
+      if (credentials.accessKeyId.startsWith("ASIA") && !credentials.sessionToken) {
+        return invalid(
+          "Session token required",
+          "Temporary (ASIA) access keys only work together with their session token."
+        );
+      }
+      if (!credentials.secretAccessKey) {
+        return invalid("Secret access key is required", "Enter the secret that belongs to this access key.");
+      }
+      if (!AWS_REGION_PATTERN.test(credentials.region)) {
+        return invalid("Invalid region", "Enter an AWS region where Bedrock is available, such as us-east-1.");
+      }
+      return {
+        ok: true,
+        secret: JSON.stringify(credentials),
+        hint: `${credentials.accessKeyId.slice(0, 4)}...${credentials.accessKeyId.slice(-4)}`,
+      };
+    }
+
+    case "vertex": {
+      let serviceAccount: Record<string, unknown>;
+      try {
+        serviceAccount = JSON.parse(readString(input, "serviceAccountJson"));
+        if (!serviceAccount || typeof serviceAccount !== "object") throw new Error("Not an object");
+      } catch {
+        return invalid(
+          "Invalid service account key",
+          "Paste the full JSON key file downloaded from IAM > Service accounts > Keys."
+        );
+      }
+
+      const clientEmail = readString(serviceAccount, "client_email");
+      const privateKey = readString(serviceAccount, "private_key");
+      if (serviceAccount.type !== "service_account" || !clientEmail || !privateKey) {
+        return invalid(
+          "Invalid service account key",
+          "The JSON must be a service account key with client_email and private_key."
+        );
+      }
+
+      const credentials: VertexCredentials = {
+        projectId: readString(input, "projectId") || readString(serviceAccount, "project_id"),
+        region: readString(input, "region"),
+        clientEmail,
+        privateKey,
+      };
+      if (!credentials.projectId) {
+        return invalid("Project ID is required", "Enter the Google Cloud project that has Claude enabled.");
+      }
+      if (!GCP_REGION_PATTERN.test(credentials.region)) {
+        return invalid("Invalid region", "Enter a Vertex AI region that offers Claude, such as us-east5.");
+      }
+      return { ok: true, secret: JSON.stringify(credentials), hint: credentials.projectId.slice(0, 20) };
+    }
+  }
+}
+
+/**
+ * Read a stored secret back into provider credentials
+ */
+export function readBedrockCredentials(secret: string): BedrockCredentials {
+  return JSON.parse(secret) as BedrockCredentials;
+}
+
+export function readVertexCredentials(secret: string): VertexCredentials {
+  return JSON.parse(secret) as VertexCredentials;
+}
+
+/**
+ * Claude model IDs on each cloud provider, keyed by Anthropic model ID
+ */
+export const PROVIDER_MODEL_IDS: Record<Exclude<AiProvider, "anthropic">, Record<string, string>> = {
+  bedrock: {
+    "claude-opus-4-5-20251101": "anthropic.claude-opus-4-5-20251101-v1:0",
+    "claude-sonnet-4-20250514": "anthropic.claude-sonnet-4-20250514-v1:0",
+    "claude-3-5-sonnet-20241022": "anthropic.claude-3-5-sonnet-20241022-v2:0",
+    "claude-3-5-haiku-20241022": "anthropic.claude-3-5-haiku-20241022-v1:0",
+    "claude-3-opus-20240229": "anthropic.claude-3-opus-20240229-v1:0",
+  },
+  vertex: {
+    "claude-opus-4-5-20251101": "claude-opus-4-5@20251101",
+    "claude-sonnet-4-20250514": "claude-sonnet-4@20250514",
+    "claude-3-5-sonnet-20241022": "claude-3-5-sonnet-v2@20241022",
+    "claude-3-5-haiku-20241022": "claude-3-5-haiku@20241022",
+    "claude-3-opus-20240229": "claude-3-opus@20240229",
+  },
+};
+
+/**
+ * Provider-specific ID for an Anthropic model ID, or null if the provider doesn't offer it
+ */
+export function getProviderModelId(provider: AiProvider, modelId: string): string | null {
+  if (provider === "anthropic") return modelId;
+  return PROVIDER_MODEL_IDS[provider][modelId] ?? null;
+}
@@ -0,0 +1,130 @@
+/**
+ * API Key Rotation
+ *
+ * Re-encrypts stored user API keys after the master key changes
+ * (API_KEY_ENCRYPTION_KEY_ID). Runs as the api_key_reencrypt job, which
+ * /api/cron/process-jobs schedules whenever rows still use another key.
+ *
+ * Old master keys must stay in API_KEY_ENCRYPTION_KEYS until the job has
+ * finished, or the rows written with them can no longer be decrypted.
+ * Scheduling fails fast when stored rows reference a key that isn't
+ * configured, rather than queueing a job that can only skip them.
+ */
+
+import "server-only";
+import { pool } from "@/lib/db";
+import { addJob } from "@/lib/job-queue";
+import {
+  canDecryptWithKeyId,
+  getCurrentEncryptionKeyId,
+  reencryptApiKey,
+} from "@/lib/api-keys";
+
+const REENCRYPT_BATCH_SIZE = 100;
+
+export interface ReencryptResult {
+  keyId: string;
+  reencrypted: number;
+  failed: number;
+}
+
+/**
+ * Throw if any stored key was written with a master key that isn't configured
+ */
+async function assertKeyringCoversStoredKeys(): Promise<void> {
+  const result = await pool.query(
+    `SELECT DISTINCT encryption_key_id FROM user_api_keys`
+  );
+
+  const missing = result.rows
+    .map((row) => row.encryption_key_id as string | null)
+    .filter((keyId) => !canDecryptWithKeyId(keyId))
+    .map((keyId) => keyId ?? "legacy (API_KEY_ENCRYPTION_SECRET)");
+  if (missing.length > 0) {
+    throw new Error(
+      `Stored API keys use encryption keys that aren't configured: ${missing.join(", ")}`
+    );
+  }
+}
+
+/**
+ * Re-encrypt every stored key that isn't on the current master key.
+ * Rows that fail to decrypt are skipped and counted.
+ */
+export async function reencryptStoredApiKeys(
+  batchSize: number = REENCRYPT_BATCH_SIZE
+): Promise<ReencryptResult> {
+  const keyId = getCurrentEncryptionKeyId();
+  await assertKeyringCoversStoredKeys();
+  const result: ReencryptResult = { keyId, reencrypted: 0, failed: 0 };
+
+  // Keyset pagination so rows that fail aren't picked up again
+  let lastId = "00000000-0000-0000-0000-000000000000";
+  for (;;) {
+    const batch = await pool.query(
+      `SELECT id, api_key_encrypted FROM user_api_keys
+       WHERE encryption_key_id IS DISTINCT FROM $1 AND id > $2
+       ORDER BY id
+       LIMIT $3`,
+      [keyId, lastId, batchSize]
+    );
+
+    for (const row of batch.rows) {
+      lastId = row.id;
+      try {
+        // Compare-and-set so a key saved meanwhile isn't overwritten
+        const updated = await pool.query(
+          `UPDATE user_api_keys
+           SET api_key_encrypted = $1, encryption_key_id = $2
+           WHERE id = $3 AND api_key_encrypted = $4`,
+          [reencryptApiKey(row.api_key_encrypted), keyId, row.id, row.api_key_encrypted]
+        );
+        result.reencrypted += updated.rowCount || 0;
+      } catch (error) {
+        result.failed++;
+        console.error(`[ApiKeyRotation] Failed to re-encrypt key ${row.id}:`, error);
+      }
+    }
+
+    if (batch.rows.length < batchSize) break;
+  }
+
+  return result;
+}
+
+/**
+ * Enqueue a re-encryption job if any stored key uses an old master key.
+ * Reuses a job for the same target key ID that hasn't run yet; once that
+ * finishes (or fails for good), a later call can schedule another.
+ */
+export async function scheduleApiKeyReencryption(): Promise<string | null> {
+  const keyId = getCurrentEncryptionKeyId();
+
+  const pending = await pool.query(
+    `SELECT 1 FROM user_api_keys WHERE encryption_key_id IS DISTINCT FROM $1 LIMIT 1`,
+    [keyId]
+  );
+  if (pending.rows.length === 0) {
+    return null;
+  }
+
+  await assertKeyringCoversStoredKeys();
+
+  const active = await pool.query<{ id: string }>(
+    `SELECT id FROM job_queue
+     WHERE type = 'api_key_reencrypt' AND payload->'api_key_reencrypt'->>'keyId' = $1
+       AND status IN ('pending', 'processing')
+     LIMIT 1`,
+    [keyId]
+  );
+  if (active.rows[0]) {
+    return active.rows[0].id;
+  }
+
+  // The key only dedupes concurrent calls; finished jobs don't block new ones
+  return addJob(
+    "api_key_reencrypt",
+    { keyId },
+    { idempotencyKey: `${keyId}:${Math.floor(Date.now() / 60_000)}` }
+  );
+}
@@ -2,7 +2,22 @@
  * API Key Management Library
  *
  * Handles secure storage, encryption, and validation of user API keys.
- * Supports Anthropic/Claude AI API keys.
+ * Supports Anthropic/Claude AI API keys; AWS Bedrock and Google Vertex
+ * credentials are described in lib/ai-providers.ts.
+ *
+ * Keys are stored with envelope encryption: each value gets its own random
+ * data key, which is wrapped with a master key from the keyring. The master
+ * key ID is part of the ciphertext, so the master key can be rotated and old
+ * rows re-encrypted in the background (see lib/api-key-rotation.ts).
+ *
+ * Keyring configuration:
+ * - API_KEY_ENCRYPTION_KEYS: comma-separated "keyId:secret" pairs
+ * - API_KEY_ENCRYPTION_KEY_ID: key used for new values (defaults to the last
+ *   entry in API_KEY_ENCRYPTION_KEYS)
+ * API_KEY_ENCRYPTION_SECRET (or BETTER_AUTH_SECRET) is always in the keyring
+ * as the "default" key, and is the only key without API_KEY_ENCRYPTION_KEYS.
+ * It also decrypts values stored before envelope encryption, so keep it set
+ * until they have been rotated.
  */
 
 import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
@@ -10,55 +25,199 @@ import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypt
 // Encryption settings for AES-256-GCM
 const ALGORITHM = "aes-256-gcm";
 const IV_LENGTH = 16; // 128-bit IV
+const DATA_KEY_LENGTH = 32;
 // Note: Auth tag (16 bytes) and salt (32 bytes) sizes are standard for this algorithm
 
-// Get encryption key from environment
-function getEncryptionKey(): Buffer {
-  const secret = process.env.API_KEY_ENCRYPTION_SECRET || process.env.BETTER_AUTH_SECRET;
+const ENVELOPE_VERSION = "v1";
+const DEFAULT_KEY_ID = "default";
+const KEY_ID_PATTERN = /^[\w-]{1,32}$/;
+
+function getLegacySecret(): string | undefined {
+  return process.env.API_KEY_ENCRYPTION_SECRET || process.env.BETTER_AUTH_SECRET;
+}
+
+// Key used before envelope encryption: one scrypt-derived key with a fixed salt
+function getLegacyEncryptionKey(): Buffer {
+  const secret = getLegacySecret();
   if (!secret) {
     throw new Error("API_KEY_ENCRYPTION_SECRET or BETTER_AUTH_SECRET must be set");
   }
-  // Derive a 32-byte key from the secret
   return scryptSync(secret, "api-key-salt", 32);
 }
 
 /**
- * Encrypt an API key for secure storage
+ * Master key secrets by key ID. The "default" key (API_KEY_ENCRYPTION_SECRET
+ * or BETTER_AUTH_SECRET) is always included when that secret is set, so
+ * values written before a keyring was configured stay readable.
  */
-export function encryptApiKey(apiKey: string): string {
-  const key = getEncryptionKey();
+function getKeyring(): Map<string, string> {
+  const keyring = new Map<string, string>();
+
+  const legacySecret = getLegacySecret();
+  if (legacySecret) {
+    keyring.set(DEFAULT_KEY_ID, legacySecret);
+  }
+
+  const configured = process.env.API_KEY_ENCRYPTION_KEYS;
+  if (configured) {
+    for (const entry of configured.split(",")) {
+      const separator = entry.indexOf(":");
+      const keyId = entry.slice(0, separator).trim();
+      const secret = entry.slice(separator + 1).trim();
+      if (separator < 1 || !KEY_ID_PATTERN.test(keyId) || !secret) {
+        throw new Error("API_KEY_ENCRYPTION_KEYS entries must look like keyId:secret");
+      }
+      // Re-inserted so an explicit entry keeps its place in the list
+      keyring.delete(keyId);
+      keyring.set(keyId, secret);
+    }
+  }
+
+  if (keyring.size === 0) {
+    throw new Error("API_KEY_ENCRYPTION_KEYS, API_KEY_ENCRYPTION_SECRET or BETTER_AUTH_SECRET must be set");
+  }
+  return keyring;
+}
+
+/**
+ * Whether values written with a master key ID (null for the legacy format)
+ * can be decrypted with the configured keys
+ */
+export function canDecryptWithKeyId(keyId: string | null): boolean {
+  return keyId === null ? Boolean(getLegacySecret()) : getKeyring().has(keyId);
+}
+
+/**
+ * ID of the master key used to encrypt new values
+ */
+export function getCurrentEncryptionKeyId(): string {
+  const keyring = getKeyring();
+  const keyId = process.env.API_KEY_ENCRYPTION_KEY_ID || [...keyring.keys()].pop();
+  if (!keyId || !keyring.has(keyId)) {
+    throw new Error(`API key encryption key "${keyId}" is not in the keyring`);
+  }
+  return keyId;
+}
+
+// scrypt is deliberately slow, so derived master keys are cached per process
+const masterKeyCache = new Map<string, Buffer>();
+
+function getMasterKey(keyId: string): Buffer {
+  const secret = getKeyring().get(keyId);
+  if (!secret) {
+    throw new Error(`API key encryption key "${keyId}" is not in the keyring`);
+  }
+
+  const cacheKey = `${keyId}:${secret}`;
+  let key = masterKeyCache.get(cacheKey);
+  if (!key) {
+    key = scryptSync(secret, `api-key-kek:${keyId}`, 32);
+    masterKeyCache.set(cacheKey, key);
+  }
+  return key;
+}
+
+/**
+ * AES-256-GCM encrypt, returning iv, auth tag and ciphertext
+ */
+function seal(key: Buffer, plaintext: Buffer) {
   const iv = randomBytes(IV_LENGTH);
   const cipher = createCipheriv(ALGORITHM, key, iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, authTag: cipher.getAuthTag(), encrypted };
+}
 
-  let encrypted = cipher.update(apiKey, "utf8", "hex");
-  encrypted += cipher.final("hex");
-
-  const authTag = cipher.getAuthTag();
+function open(key: Buffer, iv: Buffer, authTag: Buffer, encrypted: Buffer): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]);
+}
 
-  // Return iv:authTag:encrypted as a single string
-  return `${iv.toString("hex")}:${authTag.toString("hex")}:${encrypted}`;
+/**
+ * Encrypt an API key for secure storage
+ *
+ * Format: v1:keyId:wrappedDataKey:iv:authTag:encrypted (hex fields; the
+ * wrapped data key is its own iv + authTag + ciphertext)
+ */
+export function encryptApiKey(apiKey: string): string {
+  const keyId = getCurrentEncryptionKeyId();
+  const dataKey = randomBytes(DATA_KEY_LENGTH);
+
+  const wrapped = seal(getMasterKey(keyId), dataKey);
+  const sealed = seal(dataKey, Buffer.from(apiKey, "utf8"));
+
+  return [
+    ENVELOPE_VERSION,
+    keyId,
+    Buffer.concat([wrapped.iv, wrapped.authTag, wrapped.encrypted]).toString("hex"),
+    sealed.iv.toString("hex"),
+    sealed.authTag.toString("hex"),
+    sealed.encrypted.toString("hex"),
+  ].join(":");
 }
 
 /**
  * Decrypt an API key from storage
+ * Accepts both envelope-encrypted values and the legacy iv:authTag:encrypted format
  */
 export function decryptApiKey(encryptedData: string): string {
-  const [ivHex, authTagHex, encrypted] = encryptedData.split(":");
-  if (!ivHex || !authTagHex || !encrypted) {
+  const parts = encryptedData.split(":");
+
+  if (parts[0] !== ENVELOPE_VERSION) {
+    const [ivHex, authTagHex, encrypted] = parts;
+    if (parts.length !== 3 || !ivHex || !authTagHex || !encrypted) {
+      throw new Error("Invalid encrypted data format");
+    }
+    return open(
+      getLegacyEncryptionKey(),
+      Buffer.from(ivHex, "hex"),
+      Buffer.from(authTagHex, "hex"),
+      Buffer.from(encrypted, "hex")
+    ).toString("utf8");
+  }
+
+  const [, keyId, wrappedHex, ivHex, authTagHex, encrypted] = parts;
+  if (parts.length !== 6 || !keyId || !wrappedHex || !ivHex || !authTagHex || !encrypted) {
     throw new Error("Invalid encrypted data format");
   }
 
-  const key = getEncryptionKey();
-  const iv = Buffer.from(ivHex, "hex");
-  const authTag = Buffer.from(authTagHex, "hex");
+  const wrapped = Buffer.from(wrappedHex, "hex");
+  const dataKey = open(
+    getMasterKey(keyId),
+    wrapped.subarray(0, IV_LENGTH),
+    wrapped.subarray(IV_LENGTH, IV_LENGTH + 16),
+    wrapped.subarray(IV_LENGTH + 16)
+  );
+
+  return open(
+    dataKey,
+    Buffer.from(ivHex, "hex"),
+    Buffer.from(authTagHex, "hex"),
+    Buffer.from(encrypted, "hex")
+  ).toString("utf8");
+}
 
-  const decipher = createDecipheriv(ALGORITHM, key, iv);
-  decipher.setAuthTag(authTag);
+/**
+ * Master key ID an encrypted value was written with, or null for the
+ * legacy (pre-envelope) format
+ */
+export function getEncryptionKeyId(encryptedData: string): string | null {
+  const parts = encryptedData.split(":");
+  return parts[0] === ENVELOPE_VERSION ? parts[1] ?? null : null;
+}
 
-  let decrypted = decipher.update(encrypted, "hex", "utf8");
-  decrypted += decipher.final("utf8");
+/**
+ * Whether a stored value should be re-encrypted with the current master key
+ */
+export function needsReencryption(encryptedData: string): boolean {
+  return getEncryptionKeyId(encryptedData) !== getCurrentEncryptionKeyId();
+}
 
-  return decrypted;
+/**
+ * Re-encrypt a stored value with the current master key
+ */
+export function reencryptApiKey(encryptedData: string): string {
+  return encryptApiKey(decryptApiKey(encryptedData));
 }
 
 /**
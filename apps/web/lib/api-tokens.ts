@@ -0,0 +1,183 @@
+/**
+ * Personal Access Tokens
+ *
+ * User-scoped bearer tokens for the public API (/api/v1). Tokens are shown
+ * once when created; only a SHA-256 hash is stored, so a leaked database
+ * row can't be replayed. Each token carries a set of scopes and an
+ * optional expiry, and records when and from where it was last used.
+ *
+ * Format: ci_pat_<43 base64url characters>
+ */
+
+import "server-only";
+import { createHash, randomBytes } from "crypto";
+import { pool } from "@/lib/db";
+import type { UserRole } from "@/lib/roles";
+
+export const API_TOKEN_PREFIX = "ci_pat_";
+
+// Shown in settings so users can tell tokens apart
+const DISPLAY_PREFIX_LENGTH = API_TOKEN_PREFIX.length + 6;
+
+export const MAX_TOKENS_PER_USER = 20;
+
+// last_used_at is written at most this often per token
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+export const API_TOKEN_SCOPES = {
+  "read:resources": "Read the resource directory",
+  "read:prompts": "Read the prompt library and your own prompts",
+  "read:docs": "Read documentation pages",
+  "read:favorites": "Read your favorites",
+  "write:favorites": "Add and remove favorites",
+  "read:reading-lists": "Read your reading lists",
+} as const;
+
+export type ApiTokenScope = keyof typeof API_TOKEN_SCOPES;
+
+export function isApiTokenScope(value: unknown): value is ApiTokenScope {
+  return typeof value === "string" && value in API_TOKEN_SCOPES;
+}
+
+/** Token metadata as listed in settings (never the token itself) */
+export interface PersonalAccessToken {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: ApiTokenScope[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+/** The caller behind an authenticated API request */
+export interface ApiTokenAuth {
+  tokenId: string;
+  userId: string;
+  role: UserRole;
+  scopes: ApiTokenScope[];
+}
+
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function toPersonalAccessToken(row: Record<string, unknown>): PersonalAccessToken {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    tokenPrefix: row.token_prefix as string,
+    scopes: ((row.scopes as string[]) || []).filter(isApiTokenScope),
+    expiresAt: row.expires_at ? (row.expires_at as Date).toISOString() : null,
+    lastUsedAt: row.last_used_at ? (row.last_used_at as Date).toISOString() : null,
+    lastUsedIp: (row.last_used_ip as string | null) ?? null,
+    revokedAt: row.revoked_at ? (row.revoked_at as Date).toISOString() : null,
+    createdAt: (row.created_at as Date).toISOString(),
+  };
+}
+
+/**
+ * Issue a token. The plaintext token is only ever returned here.
+ */
+export async function createApiToken(
+  userId: string,
+  options: { name: string; scopes: ApiTokenScope[]; expiresAt: Date | null }
+): Promise<{ token: string; record: PersonalAccessToken }> {
+  const token = API_TOKEN_PREFIX + randomBytes(32).toString("base64url");
+
+  const result = await pool.query(
+    `INSERT INTO personal_access_tokens (user_id, name, token_prefix, token_hash, scopes, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING *`,
+    [
+      userId,
+      options.name,
+      token.slice(0, DISPLAY_PREFIX_LENGTH),
+      hashApiToken(token),
+      Array.from(new Set(options.scopes)),
+      options.expiresAt,
+    ]
+  );
+
+  return { token, record: toPersonalAccessToken(result.rows[0]) };
+}
+
+/**
+ * A user's tokens, newest first, including revoked and expired ones
+ */
+export async function listApiTokens(userId: string): Promise<PersonalAccessToken[]> {
+  const result = await pool.query(
+    `SELECT * FROM personal_access_tokens
+     WHERE user_id = $1
+     ORDER BY revoked_at IS NOT NULL, created_at DESC`,
+    [userId]
+  );
+  return result.rows.map(toPersonalAccessToken);
+}
+
+export async function countActiveApiTokens(userId: string): Promise<number> {
+  const result = await pool.query(
+    `SELECT COUNT(*) FROM personal_access_tokens
+     WHERE user_id = $1 AND revoked_at IS NULL
+       AND (expires_at IS NULL OR expires_at > NOW())`,
+    [userId]
+  );
+  return parseInt(result.rows[0].count);
+}
+
+/**
+ * Revoke one of the user's tokens. Returns false if it isn't theirs or
+ * was already revoked.
+ */
+export async function revokeApiToken(userId: string, tokenId: string): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE personal_access_tokens
+     SET revoked_at = NOW()
+     WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL`,
+    [tokenId, userId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Resolve a bearer token to its user and scopes. Returns null for unknown,
+ * revoked or expired tokens, and for banned users.
+ */
+export async function authenticateApiToken(
+  token: string,
+  ipAddress?: string | null
+): Promise<ApiTokenAuth | null> {
+  if (!token.startsWith(API_TOKEN_PREFIX)) return null;
+
+  const result = await pool.query(
+    `SELECT t.id, t.user_id, t.scopes, t.last_used_at, u.role
+     FROM personal_access_tokens t
+     JOIN "user" u ON u.id = t.user_id
+     WHERE t.token_hash = $1
+       AND t.revoked_at IS NULL
+       AND (t.expires_at IS NULL OR t.expires_at > NOW())
+       AND COALESCE(u.banned, FALSE) = FALSE`,
+    [hashApiToken(token)]
+  );
+  const row = result.rows[0];
+  if (!row) return null;
+
+  const lastUsedAt: Date | null = row.last_used_at;
+  if (!lastUsedAt || Date.now() - lastUsedAt.getTime() > LAST_USED_UPDATE_INTERVAL_MS) {
+    await pool.query(
+      `UPDATE personal_access_tokens
+       SET last_used_at = NOW(), last_used_ip = $2
+       WHERE id = $1`,
+      [row.id, ipAddress || null]
+    );
+  }
+
+  return {
+    tokenId: row.id,
+    userId: row.user_id,
+    role: (row.role as UserRole) || "user",
+    scopes: (row.scopes as string[]).filter(isApiTokenScope),
+  };
+}
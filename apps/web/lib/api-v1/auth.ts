@@ -0,0 +1,110 @@
+/**
+ * Public API Authentication
+ *
+ * Wraps /api/v1 route handlers with personal access token authentication
+ * (lib/api-tokens.ts), a scope check and the "api" rate limit policy.
+ * Errors follow RFC 6750: 401 for a missing or invalid token, 403 when
+ * the token lacks the required scope.
+ */
+
+import "server-only";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  authenticateApiToken,
+  type ApiTokenAuth,
+  type ApiTokenScope,
+} from "@/lib/api-tokens";
+import {
+  checkPolicyRateLimit,
+  createRateLimitResponse,
+  getRateLimitHeaders,
+} from "@/lib/rate-limiter";
+import { getClientIP } from "@/lib/client-ip";
+
+function unauthorized(message: string, error?: "invalid_token"): NextResponse {
+  return NextResponse.json(
+    { error: message },
+    {
+      status: 401,
+      headers: {
+        "WWW-Authenticate": error
+          ? `Bearer realm="api", error="${error}"`
+          : 'Bearer realm="api"',
+      },
+    }
+  );
+}
+
+/**
+ * Authenticate the request with a personal access token and run the
+ * handler. `scope` is the scope the endpoint requires, or null for any
+ * valid token.
+ */
+export function withApiToken<Context>(
+  scope: ApiTokenScope | null,
+  handler: (request: NextRequest, auth: ApiTokenAuth, context: Context) => Promise<Response>
+): (request: NextRequest, context: Context) => Promise<Response> {
+  return async (request, context) => {
+    const header = request.headers.get("authorization");
+    const token = header?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    if (!token) {
+      return unauthorized("A personal access token is required");
+    }
+
+    let auth: ApiTokenAuth | null;
+    try {
+      auth = await authenticateApiToken(token, getClientIP(request));
+    } catch (error) {
+      console.error("[API v1] Token lookup error:", error);
+      return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+    if (!auth) {
+      return unauthorized("Invalid, expired or revoked token", "invalid_token");
+    }
+
+    if (scope && !auth.scopes.includes(scope)) {
+      return NextResponse.json(
+        { error: `This token is missing the ${scope} scope` },
+        {
+          status: 403,
+          headers: {
+            "WWW-Authenticate": `Bearer realm="api", error="insufficient_scope", scope="${scope}"`,
+          },
+        }
+      );
+    }
+
+    const rateLimit = await checkPolicyRateLimit({ id: auth.userId, role: auth.role }, "api");
+    if (!rateLimit.allowed) {
+      return createRateLimitResponse(rateLimit);
+    }
+
+    let response: Response;
+    try {
+      response = await handler(request, auth, context);
+    } catch (error) {
+      console.error(`[API v1] ${request.method} ${request.nextUrl.pathname} error:`, error);
+      response = NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+
+    for (const [key, value] of Object.entries(getRateLimitHeaders(rateLimit))) {
+      response.headers.set(key, value);
+    }
+    return response;
+  };
+}
+
+/**
+ * Read limit/offset pagination from the query string
+ */
+export function getPagination(
+  searchParams: URLSearchParams,
+  defaults: { limit: number; maxLimit: number } = { limit: 20, maxLimit: 100 }
+): { limit: number; offset: number } {
+  const limit = parseInt(searchParams.get("limit") || "", 10);
+  const offset = parseInt(searchParams.get("offset") || "", 10);
+  return {
+    limit: Number.isFinite(limit) && limit > 0 ? Math.min(limit, defaults.maxLimit) : defaults.limit,
+    offset: Number.isFinite(offset) && offset > 0 ? offset : 0,
+  };
+}
@@ -0,0 +1,478 @@
+/**
+ * Public API OpenAPI Document
+ *
+ * The /api/v1 operations are declared once here and turned into an
+ * OpenAPI 3.1 document served at /api/v1/openapi.json. Every operation
+ * that requires a token gets the bearer security requirement (with its
+ * scope) and the shared 401/403/429 responses added automatically.
+ */
+
+import { API_TOKEN_SCOPES, type ApiTokenScope } from "@/lib/api-tokens";
+
+export const API_VERSION = "1.0.0";
+
+type Schema = Record<string, unknown>;
+
+interface ApiParameter {
+  name: string;
+  in: "path" | "query";
+  description: string;
+  required?: boolean;
+  schema: Schema;
+}
+
+interface ApiOperation {
+  method: "get" | "post" | "delete";
+  path: string;
+  operationId: string;
+  summary: string;
+  tag: string;
+  /** Required scope, null for any valid token, undefined for public */
+  scope?: ApiTokenScope | null;
+  parameters?: ApiParameter[];
+  requestBody?: Schema;
+  responses: Record<string, { description: string; schema?: Schema }>;
+}
+
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+
+const paginated = (item: string): Schema => ({
+  type: "object",
+  required: ["items", "total", "limit", "offset"],
+  properties: {
+    items: { type: "array", items: ref(item) },
+    total: { type: "integer" },
+    limit: { type: "integer" },
+    offset: { type: "integer" },
+  },
+});
+
+const PAGINATION_PARAMETERS: ApiParameter[] = [
+  {
+    name: "limit",
+    in: "query",
+    description: "Maximum number of items to return",
+    schema: { type: "integer", minimum: 1, maximum: 100, default: 20 },
+  },
+  {
+    name: "offset",
+    in: "query",
+    description: "Number of items to skip",
+    schema: { type: "integer", minimum: 0, default: 0 },
+  },
+];
+
+const SCHEMAS: Record<string, Schema> = {
+  Error: {
+    type: "object",
+    required: ["error"],
+    properties: { error: { type: "string" } },
+  },
+  Resource: {
+    type: "object",
+    required: ["id", "title", "description", "url", "category", "tags", "status"],
+    properties: {
+      id: { type: "string" },
+      title: { type: "string" },
+      description: { type: "string" },
+      url: { type: "string", format: "uri" },
+      category: { type: "string" },
+      subcategory: { type: "string" },
+      tags: { type: "array", items: { type: "string" } },
+      difficulty: { type: "string", enum: ["beginner", "intermediate", "advanced", "expert"] },
+      status: { type: "string", enum: ["official", "community", "beta", "deprecated", "archived"] },
+      featured: { type: "boolean" },
+      github: {
+        type: "object",
+        properties: {
+          owner: { type: "string" },
+          repo: { type: "string" },
+          stars: { type: "integer" },
+          forks: { type: "integer" },
+          lastUpdated: { type: "string" },
+          language: { type: "string" },
+        },
+      },
+      addedDate: { type: "string" },
+      lastVerified: { type: "string" },
+    },
+    additionalProperties: true,
+  },
+  Prompt: {
+    type: "object",
+    required: ["id", "slug", "title", "content"],
+    properties: {
+      id: { type: "string" },
+      slug: { type: "string" },
+      title: { type: "string" },
+      description: { type: ["string", "null"] },
+      content: { type: "string" },
+      category: {
+        type: ["object", "null"],
+        properties: {
+          slug: { type: "string" },
+          name: { type: "string" },
+        },
+      },
+      tags: { type: "array", items: { type: "string" } },
+      variables: { type: "array", items: { type: "object" } },
+      visibility: { type: "string", enum: ["private", "unlisted", "public"] },
+      isFeatured: { type: "boolean" },
+      isSystem: { type: "boolean" },
+      author: {
+        type: ["object", "null"],
+        properties: {
+          id: { type: "string" },
+          name: { type: ["string", "null"] },
+        },
+      },
+      useCount: { type: "integer" },
+      avgRating: { type: "number" },
+      createdAt: { type: "string", format: "date-time" },
+      updatedAt: { type: "string", format: "date-time" },
+    },
+  },
+  DocSummary: {
+    type: "object",
+    required: ["slug", "path", "title"],
+    properties: {
+      slug: { type: "string", examples: ["getting-started/installation"] },
+      path: { type: "string", examples: ["/docs/getting-started/installation"] },
+      title: { type: "string" },
+      description: { type: "string" },
+      category: { type: "string" },
+    },
+  },
+  Doc: {
+    allOf: [
+      ref("DocSummary"),
+      {
+        type: "object",
+        required: ["content"],
+        properties: {
+          content: { type: "string", description: "MDX source without frontmatter" },
+        },
+      },
+    ],
+  },
+  Favorite: {
+    type: "object",
+    required: ["id", "resourceType", "resourceId", "createdAt"],
+    properties: {
+      id: { type: "string" },
+      resourceType: { type: "string", enum: ["resource", "doc"] },
+      resourceId: { type: "string" },
+      notes: { type: ["string", "null"] },
+      createdAt: { type: "string", format: "date-time" },
+    },
+  },
+  ReadingList: {
+    type: "object",
+    required: ["id", "name", "slug", "isPublic", "itemCount"],
+    properties: {
+      id: { type: "string" },
+      name: { type: "string" },
+      description: { type: ["string", "null"] },
+      slug: { type: "string" },
+      isPublic: { type: "boolean" },
+      itemCount: { type: "integer" },
+      createdAt: { type: "string", format: "date-time" },
+      items: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            resourceType: { type: "string" },
+            resourceId: { type: "string" },
+            title: { type: ["string", "null"] },
+            url: { type: ["string", "null"] },
+            notes: { type: ["string", "null"] },
+            status: { type: "string" },
+            progress: { type: "integer" },
+            addedAt: { type: "string", format: "date-time" },
+          },
+        },
+      },
+    },
+  },
+  TokenInfo: {
+    type: "object",
+    required: ["user", "token"],
+    properties: {
+      user: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          name: { type: ["string", "null"] },
+          username: { type: ["string", "null"] },
+          image: { type: ["string", "null"] },
+        },
+      },
+      token: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          scopes: { type: "array", items: { type: "string", enum: Object.keys(API_TOKEN_SCOPES) } },
+        },
+      },
+    },
+  },
+};
+
+const OPERATIONS: ApiOperation[] = [
+  {
+    method: "get",
+    path: "/me",
+    operationId: "getTokenInfo",
+    summary: "The user and scopes behind the current token",
+    tag: "Account",
+    scope: null,
+    responses: { "200": { description: "Token owner", schema: ref("TokenInfo") } },
+  },
+  {
+    method: "get",
+    path: "/resources",
+    operationId: "listResources",
+    summary: "List resources in the directory",
+    tag: "Resources",
+    scope: "read:resources",
+    parameters: [
+      { name: "category", in: "query", description: "Category slug", schema: { type: "string" } },
+      { name: "tag", in: "query", description: "Comma-separated tags", schema: { type: "string" } },
+      { name: "q", in: "query", description: "Search text", schema: { type: "string" } },
+      { name: "featured", in: "query", description: "Only featured resources", schema: { type: "boolean" } },
+      ...PAGINATION_PARAMETERS,
+    ],
+    responses: { "200": { description: "Resources", schema: paginated("Resource") } },
+  },
+  {
+    method: "get",
+    path: "/resources/{id}",
+    operationId: "getResource",
+    summary: "Get a resource",
+    tag: "Resources",
+    scope: "read:resources",
+    parameters: [{ name: "id", in: "path", required: true, description: "Resource ID", schema: { type: "string" } }],
+    responses: {
+      "200": { description: "Resource", schema: ref("Resource") },
+      "404": { description: "Resource not found", schema: ref("Error") },
+    },
+  },
+  {
+    method: "get",
+    path: "/prompts",
+    operationId: "listPrompts",
+    summary: "List public, system and your own prompts",
+    tag: "Prompts",
+    scope: "read:prompts",
+    parameters: [
+      { name: "category", in: "query", description: "Category slug", schema: { type: "string" } },
+      { name: "q", in: "query", description: "Search text", schema: { type: "string" } },
+      { name: "mine", in: "query", description: "Only your own prompts", schema: { type: "boolean" } },
+      ...PAGINATION_PARAMETERS,
+    ],
+    responses: { "200": { description: "Prompts", schema: paginated("Prompt") } },
+  },
+  {
+    method: "get",
+    path: "/prompts/{id}",
+    operationId: "getPrompt",
+    summary: "Get a prompt by ID or slug",
+    tag: "Prompts",
+    scope: "read:prompts",
+    parameters: [{ name: "id", in: "path", required: true, description: "Prompt ID or slug", schema: { type: "string" } }],
+    responses: {
+      "200": { description: "Prompt", schema: ref("Prompt") },
+      "404": { description: "Prompt not found", schema: ref("Error") },
+    },
+  },
+  {
+    method: "get",
+    path: "/docs",
+    operationId: "listDocs",
+    summary: "List documentation pages",
+    tag: "Docs",
+    scope: "read:docs",
+    parameters: [{ name: "category", in: "query", description: "Category name", schema: { type: "string" } }],
+    responses: {
+      "200": {
+        description: "Documentation pages",
+        schema: {
+          type: "object",
+          properties: { items: { type: "array", items: ref("DocSummary") }, total: { type: "integer" } },
+        },
+      },
+    },
+  },
+  {
+    method: "get",
+    path: "/docs/{slug}",
+    operationId: "getDoc",
+    summary: "Get a documentation page",
+    tag: "Docs",
+    scope: "read:docs",
+    parameters: [
+      {
+        name: "slug",
+        in: "path",
+        required: true,
+        description: "Page path, e.g. getting-started/installation",
+        schema: { type: "string" },
+      },
+    ],
+    responses: {
+      "200": { description: "Documentation page", schema: ref("Doc") },
+      "404": { description: "Page not found", schema: ref("Error") },
+    },
+  },
+  {
+    method: "get",
+    path: "/favorites",
+    operationId: "listFavorites",
+    summary: "List your favorites",
+    tag: "Favorites",
+    scope: "read:favorites",
+    parameters: [
+      {
+        name: "type",
+        in: "query",
+        description: "Filter by resource type",
+        schema: { type: "string", enum: ["resource", "doc"] },
+      },
+      ...PAGINATION_PARAMETERS,
+    ],
+    responses: { "200": { description: "Favorites", schema: paginated("Favorite") } },
+  },
+  {
+    method: "post",
+    path: "/favorites",
+    operationId: "addFavorite",
+    summary: "Add a favorite",
+    tag: "Favorites",
+    scope: "write:favorites",
+    requestBody: {
+      type: "object",
+      required: ["resourceType", "resourceId"],
+      properties: {
+        resourceType: { type: "string", enum: ["resource", "doc"] },
+        resourceId: { type: "string" },
+        notes: { type: "string" },
+      },
+    },
+    responses: {
+      "200": { description: "Already a favorite", schema: ref("Favorite") },
+      "201": { description: "Favorite added", schema: ref("Favorite") },
+      "400": { description: "Invalid request", schema: ref("Error") },
+    },
+  },
+  {
+    method: "delete",
+    path: "/favorites/{id}",
+    operationId: "removeFavorite",
+    summary: "Remove a favorite",
+    tag: "Favorites",
+    scope: "write:favorites",
+    parameters: [{ name: "id", in: "path", required: true, description: "Favorite ID", schema: { type: "string" } }],
+    responses: {
+      "204": { description: "Favorite removed" },
+      "404": { description: "Favorite not found", schema: ref("Error") },
+    },
+  },
+  {
+    method: "get",
+    path: "/reading-lists",
+    operationId: "listReadingLists",
+    summary: "List your reading lists with their items",
+    tag: "Reading Lists",
+    scope: "read:reading-lists",
+    responses: {
+      "200": {
+        description: "Reading lists",
+        schema: {
+          type: "object",
+          properties: { items: { type: "array", items: ref("ReadingList") }, total: { type: "integer" } },
+        },
+      },
+    },
+  },
+];
+
+const AUTH_RESPONSES: Record<string, { description: string; schema: Schema }> = {
+  "401": { description: "Missing, invalid, expired or revoked token", schema: ref("Error") },
+  "403": { description: "Token is missing the required scope", schema: ref("Error") },
+  "429": { description: "Rate limit exceeded", schema: ref("Error") },
+};
+
+function jsonContent(schema: Schema) {
+  return { "application/json": { schema } };
+}
+
+/**
+ * Build the OpenAPI document for the given origin
+ */
+export function buildOpenApiDocument(baseUrl: string): Record<string, unknown> {
+  const paths: Record<string, Record<string, unknown>> = {};
+
+  for (const operation of OPERATIONS) {
+    const requiresToken = operation.scope !== undefined;
+    const responses = requiresToken
+      ? { ...operation.responses, ...AUTH_RESPONSES }
+      : operation.responses;
+
+    paths[operation.path] ??= {};
+    paths[operation.path]![operation.method] = {
+      operationId: operation.operationId,
+      summary: operation.summary,
+      tags: [operation.tag],
+      ...(operation.scope && {
+        description: `Requires the \`${operation.scope}\` scope.`,
+      }),
+      ...(requiresToken && {
+        security: [{ bearerAuth: operation.scope ? [operation.scope] : [] }],
+      }),
+      ...(operation.parameters && { parameters: operation.parameters }),
+      ...(operation.requestBody && {
+        requestBody: { required: true, content: jsonContent(operation.requestBody) },
+      }),
+      responses: Object.fromEntries(
+        Object.entries(responses).map(([status, response]) => [
+          status,
+          {
+            description: response.description,
+            ...(response.schema && { content: jsonContent(response.schema) }),
+          },
+        ])
+      ),
+    };
+  }
+
+  const scopeList = Object.entries(API_TOKEN_SCOPES)
+    .map(([scope, description]) => `- \`${scope}\`: ${description}`)
+    .join("\n");
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Claude Insider API",
+      version: API_VERSION,
+      description:
+        "Read access to resources, prompts and documentation, and to your own favorites and reading lists.\n\n" +
+        "Authenticate with a personal access token from Settings → API Tokens, sent as " +
+        "`Authorization: Bearer <token>`. Tokens carry one or more scopes:\n\n" +
+        scopeList,
+    },
+    servers: [{ url: `${baseUrl}/api/v1` }],
+    tags: Array.from(new Set(OPERATIONS.map((operation) => operation.tag))).map((name) => ({ name })),
+    paths,
+    components: {
+      securitySchemes: {
+        bearerAuth: {
+          type: "http",
+          scheme: "bearer",
+          description: "Personal access token (ci_pat_...)",
+        },
+      },
+      schemas: SCHEMAS,
+    },
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Public API Prompt Serialization
+ *
+ * Shared SELECT and mapping for /api/v1/prompts. Unlike /api/prompts this
+ * never applies a saved prompt's pinned version: API clients always get
+ * the current template.
+ */
+
+import "server-only";
+import { normalizePromptVariables } from "@/lib/prompt-templates";
+
+export const PROMPT_SELECT = `
+  SELECT
+    p.id, p.slug, p.title, p.description, p.content, p.tags, p.variables,
+    p.visibility, p.is_featured, p.is_system, p.use_count, p.avg_rating,
+    p.author_id, p.created_at, p.updated_at,
+    c.slug as category_slug, c.name as category_name,
+    u.name as author_name
+  FROM prompts p
+  LEFT JOIN prompt_categories c ON c.id = p.category_id
+  LEFT JOIN "user" u ON u.id = p.author_id
+`;
+
+/**
+ * Prompts the token's user can read: public, system or their own
+ */
+export function promptVisibleTo(userParam: string): string {
+  return `p.status = 'active' AND (p.visibility = 'public' OR p.is_system = TRUE OR p.author_id = ${userParam})`;
+}
+
+export function toApiPrompt(row: Record<string, unknown>) {
+  return {
+    id: row.id as string,
+    slug: row.slug as string,
+    title: row.title as string,
+    description: (row.description as string | null) ?? null,
+    content: row.content as string,
+    category: row.category_slug
+      ? { slug: row.category_slug as string, name: row.category_name as string }
+      : null,
+    tags: (row.tags as string[]) || [],
+    variables: normalizePromptVariables(row.variables),
+    visibility: row.visibility as string,
+    isFeatured: row.is_featured as boolean,
+    isSystem: row.is_system as boolean,
+    author: row.author_id
+      ? { id: row.author_id as string, name: (row.author_name as string | null) ?? null }
+      : null,
+    useCount: row.use_count as number,
+    avgRating: parseFloat(row.avg_rating as string) || 0,
+    createdAt: (row.created_at as Date).toISOString(),
+    updatedAt: (row.updated_at as Date).toISOString(),
+  };
+}
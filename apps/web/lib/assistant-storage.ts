@@ -5,6 +5,11 @@
  * - Custom assistant name
  * - Multiple conversations with IDs and titles
  * - Active conversation tracking
+ *
+ * For signed-in users the conversations here are an offline cache of the
+ * server store (app/actions/ai-conversations.ts). Every change fires an
+ * ASSISTANT_CONVERSATIONS_EVENT that hooks/use-assistant-conversation-sync.ts
+ * pushes to the server; deletions made while offline are queued.
  */
 
 import type { Message } from "./claude-utils";
@@ -16,6 +21,8 @@ const STORAGE_KEYS = {
   NAME_ASKED_SESSION: "claude-insider-name-asked",
   CONVERSATIONS: "claude-insider-conversations",
   ACTIVE_CONVERSATION: "claude-insider-active-conversation",
+  PENDING_DELETES: "claude-insider-conversations-pending-deletes",
+  OWNER: "claude-insider-conversations-owner",
   // Legacy key for migration
   LEGACY_HISTORY: "claude-insider-assistant-history",
 } as const;
@@ -32,10 +39,47 @@ export interface Conversation {
   id: string;
   title: string;
   messages: Message[];
+  /** Conversation this was branched from */
+  parentId?: string;
+  /** Index of the parent message the branch was forked after */
+  branchMessageIndex?: number;
   createdAt: number;
   updatedAt: number;
 }
 
+export interface ConversationSearchMatch {
+  conversationId: string;
+  title: string;
+  messageIndex: number | null;
+  snippet: string;
+  updatedAt: number;
+}
+
+/** Window event fired whenever cached conversations change */
+export const ASSISTANT_CONVERSATIONS_EVENT = "assistant-conversations-changed";
+
+export type ConversationChange =
+  | { type: "save"; id: string }
+  | { type: "delete"; id: string }
+  | { type: "clear" }
+  | { type: "synced" };
+
+function emitConversationChange(change: ConversationChange): void {
+  if (typeof window === "undefined") return;
+  window.dispatchEvent(new CustomEvent<ConversationChange>(ASSISTANT_CONVERSATIONS_EVENT, { detail: change }));
+}
+
+/**
+ * Subscribe to conversation cache changes (local edits and server syncs)
+ */
+export function onConversationsChanged(listener: (change: ConversationChange) => void): () => void {
+  if (typeof window === "undefined") return () => {};
+
+  const handler = (event: Event) => listener((event as CustomEvent<ConversationChange>).detail);
+  window.addEventListener(ASSISTANT_CONVERSATIONS_EVENT, handler);
+  return () => window.removeEventListener(ASSISTANT_CONVERSATIONS_EVENT, handler);
+}
+
 // =============================================================================
 // ASSISTANT NAME MANAGEMENT
 // =============================================================================
@@ -291,6 +335,7 @@ export function renameConversation(id: string, newTitle: string): boolean {
       conv.title = newTitle.trim() || "Untitled";
       conv.updatedAt = Date.now();
       localStorage.setItem(STORAGE_KEYS.CONVERSATIONS, JSON.stringify(conversations));
+      emitConversationChange({ type: "save", id });
       return true;
     }
     return false;
@@ -328,6 +373,7 @@ export function saveConversation(conversation: Conversation): void {
     // Trim to max conversations
     const trimmed = conversations.slice(0, MAX_CONVERSATIONS);
     localStorage.setItem(STORAGE_KEYS.CONVERSATIONS, JSON.stringify(trimmed));
+    emitConversationChange({ type: "save", id: conversation.id });
   } catch {
     // Silently fail if localStorage is full
   }
@@ -355,6 +401,8 @@ export function createConversation(): Conversation {
 export function updateConversationMessages(id: string, messages: Message[]): void {
   const conversation = getConversation(id);
   if (conversation) {
+    // Unchanged (e.g. reloaded after a sync) - keep updatedAt so it isn't re-uploaded
+    if (JSON.stringify(conversation.messages) === JSON.stringify(messages)) return;
     conversation.messages = messages;
     conversation.updatedAt = Date.now();
     // Update title if it was default
@@ -375,11 +423,13 @@ export function deleteConversation(id: string): void {
     const conversations = getAllConversations();
     const filtered = conversations.filter((c) => c.id !== id);
     localStorage.setItem(STORAGE_KEYS.CONVERSATIONS, JSON.stringify(filtered));
+    queuePendingDeletes([id]);
 
     // Clear active if it was the deleted one
     if (getActiveConversationId() === id) {
       setActiveConversationId(null);
     }
+    emitConversationChange({ type: "delete", id });
   } catch {
     // Silently fail
   }
@@ -392,15 +442,176 @@ export function clearAllConversations(): void {
   if (typeof window === "undefined") return;
 
   try {
+    queuePendingDeletes(getAllConversations().map((c) => c.id));
     localStorage.removeItem(STORAGE_KEYS.CONVERSATIONS);
     localStorage.removeItem(STORAGE_KEYS.ACTIVE_CONVERSATION);
     // Also clear legacy storage
     localStorage.removeItem(STORAGE_KEYS.LEGACY_HISTORY);
+    emitConversationChange({ type: "clear" });
+  } catch {
+    // Silently fail
+  }
+}
+
+/**
+ * Fork a conversation after the given message into a new conversation
+ */
+export function branchConversation(id: string, messageIndex: number): Conversation | null {
+  const source = getConversation(id);
+  if (!source || messageIndex < 0 || messageIndex >= source.messages.length) return null;
+
+  const now = Date.now();
+  const branch: Conversation = {
+    id: generateConversationId(),
+    title: `${source.title} (branch)`,
+    messages: source.messages.slice(0, messageIndex + 1),
+    parentId: source.id,
+    branchMessageIndex: messageIndex,
+    createdAt: now,
+    updatedAt: now,
+  };
+  saveConversation(branch);
+  setActiveConversationId(branch.id);
+  return branch;
+}
+
+/**
+ * Search cached conversations (used offline and for signed-out users)
+ */
+export function searchConversations(query: string): ConversationSearchMatch[] {
+  const terms = query.toLowerCase().split(/\s+/).filter((t) => t.length > 1);
+  if (terms.length === 0) return [];
+
+  const matches: ConversationSearchMatch[] = [];
+  for (const conversation of getAllConversations()) {
+    const messageIndex = conversation.messages.findIndex((m) => {
+      const content = m.content.toLowerCase();
+      return terms.every((term) => content.includes(term));
+    });
+    const titleMatches = terms.every((term) => conversation.title.toLowerCase().includes(term));
+    if (messageIndex < 0 && !titleMatches) continue;
+
+    const message = conversation.messages[messageIndex];
+    let snippet = conversation.title;
+    if (message) {
+      const start = Math.max(0, message.content.toLowerCase().indexOf(terms[0] ?? "") - 40);
+      snippet = `${start > 0 ? "..." : ""}${message.content.slice(start, start + 140).trim()}...`;
+    }
+
+    matches.push({
+      conversationId: conversation.id,
+      title: conversation.title,
+      messageIndex: messageIndex >= 0 ? messageIndex : null,
+      snippet,
+      updatedAt: conversation.updatedAt,
+    });
+  }
+  return matches;
+}
+
+// =============================================================================
+// SERVER SYNC SUPPORT
+// =============================================================================
+
+function queuePendingDeletes(ids: string[]): void {
+  if (ids.length === 0) return;
+  const pending = new Set([...getPendingDeletes(), ...ids]);
+  localStorage.setItem(STORAGE_KEYS.PENDING_DELETES, JSON.stringify([...pending]));
+}
+
+/**
+ * Conversation IDs deleted locally but not yet on the server
+ */
+export function getPendingDeletes(): string[] {
+  if (typeof window === "undefined") return [];
+
+  try {
+    const stored = localStorage.getItem(STORAGE_KEYS.PENDING_DELETES);
+    return stored ? (JSON.parse(stored) as string[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Drop deletions the server has applied
+ */
+export function clearPendingDeletes(ids: string[]): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    const remaining = getPendingDeletes().filter((id) => !ids.includes(id));
+    if (remaining.length > 0) {
+      localStorage.setItem(STORAGE_KEYS.PENDING_DELETES, JSON.stringify(remaining));
+    } else {
+      localStorage.removeItem(STORAGE_KEYS.PENDING_DELETES);
+    }
+  } catch {
+    // Silently fail
+  }
+}
+
+/**
+ * User whose conversations are cached (null for signed-out conversations)
+ */
+export function getConversationsOwner(): string | null {
+  if (typeof window === "undefined") return null;
+
+  try {
+    return localStorage.getItem(STORAGE_KEYS.OWNER);
+  } catch {
+    return null;
+  }
+}
+
+export function setConversationsOwner(userId: string): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.setItem(STORAGE_KEYS.OWNER, userId);
   } catch {
     // Silently fail
   }
 }
 
+/**
+ * Drop a signed-in user's cached conversations (on sign-out). The server
+ * copy is kept.
+ */
+export function clearConversationCache(): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    localStorage.removeItem(STORAGE_KEYS.CONVERSATIONS);
+    localStorage.removeItem(STORAGE_KEYS.ACTIVE_CONVERSATION);
+    localStorage.removeItem(STORAGE_KEYS.PENDING_DELETES);
+    localStorage.removeItem(STORAGE_KEYS.OWNER);
+    emitConversationChange({ type: "synced" });
+  } catch {
+    // Silently fail
+  }
+}
+
+/**
+ * Replace the cache with the server's conversations after a sync
+ */
+export function replaceConversations(conversations: Conversation[]): void {
+  if (typeof window === "undefined") return;
+
+  try {
+    const sorted = [...conversations].sort((a, b) => b.updatedAt - a.updatedAt).slice(0, MAX_CONVERSATIONS);
+    localStorage.setItem(STORAGE_KEYS.CONVERSATIONS, JSON.stringify(sorted));
+
+    const activeId = getActiveConversationId();
+    if (activeId && !sorted.some((c) => c.id === activeId)) {
+      setActiveConversationId(null);
+    }
+    emitConversationChange({ type: "synced" });
+  } catch {
+    // Silently fail if localStorage is full
+  }
+}
+
 /**
  * Get conversation count
  */
@@ -0,0 +1,445 @@
+/**
+ * Assistant Tools
+ *
+ * Server-side tools the site assistant can call mid-answer through the
+ * Anthropic tool-use loop in /api/assistant/chat. Public tools search the
+ * docs (lib/rag.ts), the resource directory (lib/resources/search.ts) and
+ * the prompt library; signed-in users also get tools over their own data.
+ *
+ * Tool results are plain text for the model plus a short summary that is
+ * streamed to the client as a visible step.
+ */
+
+import "server-only";
+import type Anthropic from "@anthropic-ai/sdk";
+import { pool } from "@/lib/db";
+import { emitAchievementEvent } from "@/lib/achievement-engine";
+import { searchDocuments } from "@/lib/rag";
+import { searchResources } from "@/lib/resources/search";
+import { getResourceById } from "@/data/resources";
+import type { ResourceCategorySlug } from "@/data/resources/schema";
+
+export type AssistantToolName =
+  | "search_docs"
+  | "search_resources"
+  | "get_prompt"
+  | "get_reading_list"
+  | "add_to_favorites";
+
+export interface AssistantToolContext {
+  userId: string | null;
+  /** Ask AI context, used to rank doc search results */
+  aiContext?: { type?: string; category?: string };
+}
+
+export interface AssistantToolResult {
+  /** Text returned to the model */
+  content: string;
+  /** One-line summary shown to the user */
+  summary: string;
+  isError?: boolean;
+}
+
+interface AssistantToolDefinition {
+  tool: Anthropic.Tool;
+  /** Shown while the tool runs, e.g. "Searching documentation" */
+  label: string;
+  requiresAuth: boolean;
+  run: (input: Record<string, unknown>, context: AssistantToolContext) => Promise<AssistantToolResult>;
+}
+
+/** Tool calls allowed per answer before the model must reply */
+export const MAX_TOOL_ITERATIONS = 5;
+
+const MAX_RESULT_CHARS = 6000;
+
+const RESOURCE_CATEGORIES: ResourceCategorySlug[] = [
+  "official",
+  "tools",
+  "mcp-servers",
+  "rules",
+  "prompts",
+  "agents",
+  "tutorials",
+  "sdks",
+  "showcases",
+  "community",
+];
+
+function readString(input: Record<string, unknown>, key: string): string {
+  const value = input[key];
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function readLimit(input: Record<string, unknown>, fallback: number, max: number): number {
+  const value = Number(input.limit);
+  return Number.isInteger(value) && value > 0 ? Math.min(value, max) : fallback;
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_RESULT_CHARS ? `${text.slice(0, MAX_RESULT_CHARS)}\n[truncated]` : text;
+}
+
+function toolError(message: string): AssistantToolResult {
+  return { content: message, summary: message, isError: true };
+}
+
+// =============================================================================
+// TOOLS
+// =============================================================================
+
+const TOOLS: Record<AssistantToolName, AssistantToolDefinition> = {
+  search_docs: {
+    label: "Searching documentation",
+    requiresAuth: false,
+    tool: {
+      name: "search_docs",
+      description:
+        "Search the Claude Insider documentation, settings, CLI commands and environment variables. " +
+        "Use this whenever the answer depends on specific documentation details.",
+      input_schema: {
+        type: "object",
+        properties: {
+          query: { type: "string", description: "What to search for" },
+          limit: { type: "integer", description: "Maximum results (1-8, default 4)" },
+        },
+        required: ["query"],
+      },
+    },
+    run: async (input, context) => {
+      const query = readString(input, "query");
+      if (!query) return toolError("A search query is required");
+
+      const results = searchDocuments(query, readLimit(input, 4, 8), context.aiContext);
+      if (results.length === 0) {
+        return { content: `No documentation found for "${query}".`, summary: "No matching docs" };
+      }
+
+      const content = results
+        .map(({ chunk }) => {
+          const heading = chunk.section !== chunk.title ? `${chunk.title} > ${chunk.section}` : chunk.title;
+          return `[${chunk.category}] ${heading}\nURL: ${chunk.url}\n\n${chunk.content}`;
+        })
+        .join("\n\n---\n\n");
+
+      return {
+        content: truncate(content),
+        summary: `Found ${results.length} doc section${results.length === 1 ? "" : "s"}`,
+      };
+    },
+  },
+
+  search_resources: {
+    label: "Searching resources",
+    requiresAuth: false,
+    tool: {
+      name: "search_resources",
+      description:
+        "Search the curated directory of Claude tools, MCP servers, SDKs, tutorials, prompts and community projects.",
+      input_schema: {
+        type: "object",
+        properties: {
+          query: { type: "string", description: "What to search for" },
+          category: {
+            type: "string",
+            enum: RESOURCE_CATEGORIES,
+            description: "Optional category filter",
+          },
+          limit: { type: "integer", description: "Maximum results (1-10, default 5)" },
+        },
+        required: ["query"],
+      },
+    },
+    run: async (input) => {
+      const query = readString(input, "query");
+      const category = readString(input, "category") as ResourceCategorySlug;
+      if (!query && !category) return toolError("A search query or category is required");
+
+      const results = searchResources({
+        query,
+        category: RESOURCE_CATEGORIES.includes(category) ? category : undefined,
+        limit: readLimit(input, 5, 10),
+      });
+      if (results.length === 0) {
+        return { content: `No resources found for "${query}".`, summary: "No matching resources" };
+      }
+
+      const content = results
+        .map(({ item }) =>
+          [
+            `${item.title} (id: ${item.id}, category: ${item.category})`,
+            item.description,
+            `URL: ${item.url}`,
+            item.tags.length > 0 ? `Tags: ${item.tags.join(", ")}` : null,
+            item.github ? `GitHub: ${item.github.owner}/${item.github.repo} (${item.github.stars} stars)` : null,
+          ]
+            .filter(Boolean)
+            .join("\n")
+        )
+        .join("\n\n");
+
+      return {
+        content: truncate(content),
+        summary: `Found ${results.length} resource${results.length === 1 ? "" : "s"}`,
+      };
+    },
+  },
+
+  get_prompt: {
+    label: "Looking up prompt",
+    requiresAuth: false,
+    tool: {
+      name: "get_prompt",
+      description:
+        "Get a prompt from the prompt library by slug or ID, or search the library by keyword when no exact match exists.",
+      input_schema: {
+        type: "object",
+        properties: {
+          slug_or_id: { type: "string", description: "Prompt slug or UUID" },
+          query: { type: "string", description: "Keyword search when the slug is unknown" },
+        },
+      },
+    },
+    run: async (input, context) => {
+      const slugOrId = readString(input, "slug_or_id");
+      const query = readString(input, "query");
+      if (!slugOrId && !query) return toolError("A prompt slug, ID or search query is required");
+
+      // Same visibility rules as GET /api/prompts/[id]
+      const visible = `(p.visibility IN ('public', 'unlisted') OR p.is_system OR p.author_id = $1)`;
+
+      if (slugOrId) {
+        const isUuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(slugOrId);
+        const result = await pool.query(
+          `SELECT p.slug, p.title, p.description, p.content, p.variables, p.tags, c.name AS category_name
+           FROM prompts p
+           LEFT JOIN prompt_categories c ON c.id = p.category_id
+           WHERE ${isUuid ? "p.id" : "p.slug"} = $2 AND ${visible}`,
+          [context.userId, slugOrId]
+        );
+        const prompt = result.rows[0];
+        if (prompt) {
+          const variables = Array.isArray(prompt.variables)
+            ? (prompt.variables as { name: string }[]).map((v) => v.name)
+            : [];
+          return {
+            content: truncate(
+              [
+                `${prompt.title} (${prompt.category_name || "Uncategorized"})`,
+                prompt.description,
+                `URL: /prompts/${prompt.slug}`,
+                variables.length > 0 ? `Variables: ${variables.join(", ")}` : null,
+                `\n${prompt.content}`,
+              ]
+                .filter(Boolean)
+                .join("\n")
+            ),
+            summary: `Opened "${prompt.title}"`,
+          };
+        }
+        if (!query) {
+          return { content: `No prompt found for "${slugOrId}".`, summary: "Prompt not found" };
+        }
+      }
+
+      const result = await pool.query(
+        `SELECT p.slug, p.title, p.description
+         FROM prompts p
+         WHERE p.status = 'active' AND (p.visibility = 'public' OR p.is_system = TRUE OR p.author_id = $1)
+           AND (p.title ILIKE $2 OR p.description ILIKE $2 OR $3 = ANY(p.tags))
+         ORDER BY p.is_featured DESC, p.use_count DESC
+         LIMIT 5`,
+        [context.userId, `%${query}%`, query.toLowerCase()]
+      );
+      if (result.rows.length === 0) {
+        return { content: `No prompts found for "${query}".`, summary: "No matching prompts" };
+      }
+
+      return {
+        content: result.rows
+          .map((p) => `${p.title} (slug: ${p.slug})\n${p.description || ""}\nURL: /prompts/${p.slug}`)
+          .join("\n\n"),
+        summary: `Found ${result.rows.length} prompt${result.rows.length === 1 ? "" : "s"}`,
+      };
+    },
+  },
+
+  get_reading_list: {
+    label: "Checking your reading lists",
+    requiresAuth: true,
+    tool: {
+      name: "get_reading_list",
+      description:
+        "Get the signed-in user's reading lists and the items in them, including reading status and progress.",
+      input_schema: {
+        type: "object",
+        properties: {
+          list_name: { type: "string", description: "Only return the list with this name" },
+          status: {
+            type: "string",
+            enum: ["unread", "reading", "completed"],
+            description: "Only return items with this status",
+          },
+        },
+      },
+    },
+    run: async (input, context) => {
+      const listName = readString(input, "list_name");
+      const status = readString(input, "status");
+
+      const params: (string | null)[] = [context.userId];
+      let filters = "";
+      if (listName) {
+        params.push(listName);
+        filters += ` AND rl.name ILIKE $${params.length}`;
+      }
+      if (["unread", "reading", "completed"].includes(status)) {
+        params.push(status);
+        filters += ` AND rli.status = $${params.length}`;
+      }
+
+      const result = await pool.query(
+        `SELECT rl.name AS list_name, rli.title, rli.url, rli.resource_type, rli.resource_id,
+                rli.status, rli.progress
+         FROM reading_lists rl
+         JOIN reading_list_items rli ON rli.list_id = rl.id
+         WHERE rl.user_id = $1${filters}
+         ORDER BY rl.created_at ASC, rli.added_at DESC
+         LIMIT 50`,
+        params
+      );
+      if (result.rows.length === 0) {
+        return { content: "The user's reading lists have no matching items.", summary: "Reading list is empty" };
+      }
+
+      const byList = new Map<string, string[]>();
+      for (const row of result.rows) {
+        const lines = byList.get(row.list_name) ?? [];
+        lines.push(
+          `- ${row.title || row.resource_id} [${row.status}, ${row.progress}%]${row.url ? ` ${row.url}` : ""}`
+        );
+        byList.set(row.list_name, lines);
+      }
+
+      return {
+        content: truncate(
+          Array.from(byList, ([name, lines]) => `${name}:\n${lines.join("\n")}`).join("\n\n")
+        ),
+        summary: `Read ${result.rows.length} item${result.rows.length === 1 ? "" : "s"} from ${byList.size} list${byList.size === 1 ? "" : "s"}`,
+      };
+    },
+  },
+
+  add_to_favorites: {
+    label: "Saving to favorites",
+    requiresAuth: true,
+    tool: {
+      name: "add_to_favorites",
+      description:
+        "Save a documentation page or resource to the signed-in user's favorites. Only use this when the user asks to save something.",
+      input_schema: {
+        type: "object",
+        properties: {
+          resource_type: { type: "string", enum: ["doc", "resource"] },
+          resource_id: {
+            type: "string",
+            description: "Resource ID from search_resources, or the doc URL path (e.g. /docs/getting-started/installation)",
+          },
+          notes: { type: "string", description: "Optional note to save with the favorite" },
+        },
+        required: ["resource_type", "resource_id"],
+      },
+    },
+    run: async (input, context) => {
+      const resourceType = readString(input, "resource_type");
+      let resourceId = readString(input, "resource_id");
+      if (!context.userId) return toolError("The user must be signed in to save favorites");
+      if (resourceType !== "doc" && resourceType !== "resource") {
+        return toolError("resource_type must be doc or resource");
+      }
+
+      let title = resourceId;
+      if (resourceType === "doc") {
+        // Doc favorites are keyed by slug path, as in docs-layout.tsx
+        resourceId = resourceId.replace(/^\/?docs\//, "").replace(/[#?].*$/, "").replace(/^\/+|\/+$/g, "");
+        title = `/docs/${resourceId}`;
+      } else {
+        const resource = getResourceById(resourceId);
+        if (!resource) return toolError(`Unknown resource "${resourceId}"`);
+        title = resource.title;
+      }
+      if (!resourceId) return toolError("A resource ID is required");
+
+      const existing = await pool.query(
+        `SELECT id FROM favorites WHERE user_id = $1 AND resource_type = $2 AND resource_id = $3`,
+        [context.userId, resourceType, resourceId]
+      );
+      if (existing.rows.length > 0) {
+        return { content: `${title} is already in the user's favorites.`, summary: `${title} already saved` };
+      }
+
+      await pool.query(
+        `INSERT INTO favorites (user_id, resource_type, resource_id, notes) VALUES ($1, $2, $3, $4)`,
+        [context.userId, resourceType, resourceId, readString(input, "notes") || null]
+      );
+      await emitAchievementEvent(context.userId, "resource.favorited", `${resourceType}:${resourceId}`);
+
+      return { content: `Saved ${title} to the user's favorites.`, summary: `Saved ${title} to favorites` };
+    },
+  },
+};
+
+// =============================================================================
+// PUBLIC API
+// =============================================================================
+
+/**
+ * Tool definitions available to this user
+ */
+export function getAssistantTools(userId: string | null): Anthropic.Tool[] {
+  return Object.values(TOOLS)
+    .filter((definition) => !definition.requiresAuth || userId)
+    .map((definition) => definition.tool);
+}
+
+export function getAssistantToolLabel(name: string): string {
+  return TOOLS[name as AssistantToolName]?.label ?? name;
+}
+
+/**
+ * Run a tool call from the model. Never throws; failures are returned as
+ * error results so the model can recover.
+ */
+export async function executeAssistantTool(
+  name: string,
+  input: unknown,
+  context: AssistantToolContext
+): Promise<AssistantToolResult> {
+  const definition = TOOLS[name as AssistantToolName];
+  if (!definition) return toolError(`Unknown tool "${name}"`);
+  if (definition.requiresAuth && !context.userId) {
+    return toolError("This tool is only available to signed-in users");
+  }
+
+  try {
+    const args = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+    return await definition.run(args, context);
+  } catch (error) {
+    console.error(`[Assistant] Tool ${name} failed:`, error);
+    return toolError(`${definition.label} failed`);
+  }
+}
+
+/**
+ * Appended to the system prompt when tools are enabled
+ */
+export function buildToolInstructions(userId: string | null): string {
+  return `
+
+TOOLS:
+You can look things up before answering. Use search_docs for documentation details, search_resources for tools and projects, and get_prompt for the prompt library. Prefer tools over guessing, cite the URLs they return, and don't call a tool when the documentation above already answers the question.${
+    userId
+      ? " The user is signed in: get_reading_list reads their reading lists and add_to_favorites saves a page or resource for them (only when they ask)."
+      : " The user is not signed in, so their reading lists and favorites are unavailable; suggest signing in if they ask for them."
+  }`;
+}
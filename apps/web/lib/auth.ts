@@ -18,6 +18,20 @@ import { nextCookies } from 'better-auth/next-js';
 import { sendVerificationEmailWithCode, sendPasswordResetEmail } from './email';
 import { notifyAdminsNewUser } from './admin-notifications';
 import { getDbPool, pool } from './db';
+import { recordSignInEvent } from './sign-in-history';
+
+/**
+ * Sign-in method for the history feed, from the endpoint that created the
+ * session (e.g. /sign-in/email, /callback/github)
+ */
+function getSignInMethod(path: string | undefined, providerId: unknown): string {
+  if (!path) return 'other';
+  if (path.startsWith('/callback/')) return typeof providerId === 'string' ? providerId : 'oauth';
+  if (path === '/sign-in/email') return 'password';
+  if (path === '/sign-up/email') return 'sign_up';
+  if (path === '/verify-email') return 'email_verification';
+  return 'other';
+}
 
 /**
  * Generate a 6-digit verification code
@@ -120,7 +134,9 @@ export const auth = betterAuth({
     updateAge: 60 * 60 * 24, // Update session every 24 hours
     cookieCache: {
       enabled: true,
-      maxAge: 60 * 30, // 30 minutes cache - reduces DB lookups significantly
+      // Short, so revoked sessions (Settings → Devices & sessions) stop
+      // working quickly; security-sensitive actions use getFreshSession()
+      maxAge: 60 * 5, // 5 minutes cache - reduces DB lookups significantly
     },
   },
 
@@ -196,6 +212,20 @@ export const auth = betterAuth({
         },
       },
     },
+    session: {
+      create: {
+        after: async (session, ctx) => {
+          // Sign-in history and new device alerts (lib/sign-in-history.ts)
+          await recordSignInEvent({
+            userId: session.userId,
+            sessionId: session.id,
+            eventType: 'sign_in',
+            method: getSignInMethod(ctx?.path, ctx?.params?.id),
+            headers: ctx?.headers,
+          });
+        },
+      },
+    },
   },
 
   // Plugins - nextCookies must be last for server action cookie support
@@ -223,3 +253,17 @@ export async function getSession() {
     headers: await headers(),
   });
 }
+
+/**
+ * Get session, bypassing the cookie cache
+ *
+ * Use for security-sensitive actions (sessions, 2FA, passkeys, account
+ * deletion), so a session revoked in the last few minutes is rejected.
+ */
+export async function getFreshSession() {
+  const { headers } = await import('next/headers');
+  return auth.api.getSession({
+    headers: await headers(),
+    query: { disableCookieCache: true },
+  });
+}
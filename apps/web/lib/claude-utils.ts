@@ -6,6 +6,20 @@
 export interface Message {
   role: "user" | "assistant";
   content: string;
+  /** Tool calls made while generating an assistant message */
+  toolSteps?: AssistantToolStep[];
+}
+
+/**
+ * A tool call made by the assistant while answering, streamed to the client
+ * as "tool_use" and "tool_result" SSE events
+ */
+export interface AssistantToolStep {
+  id: string;
+  name: string;
+  label: string;
+  status: "running" | "done" | "error";
+  summary?: string;
 }
 
 export interface AssistantContext {
@@ -5,8 +5,6 @@
  * Handles Vercel, Cloudflare, and standard proxy configurations.
  */
 
-import { NextRequest } from "next/server";
-
 /**
  * Get the real client IP address from request headers
  *
@@ -15,7 +13,7 @@ import { NextRequest } from "next/server";
  * 2. x-forwarded-for (Standard proxy header)
  * 3. cf-connecting-ip (Cloudflare)
  */
-export function getClientIP(request: NextRequest): string {
+export function getClientIP(request: { headers: Headers }): string {
   // Vercel injects this header
   const realIP = request.headers.get("x-real-ip");
   if (realIP) {
@@ -41,6 +39,42 @@ export function getClientIP(request: NextRequest): string {
   return "unknown";
 }
 
+/**
+ * Approximate location of the client ("Berlin, BE, DE"), from the geo
+ * headers Vercel and Cloudflare add. Null when neither is present, e.g.
+ * in local development.
+ */
+export function getApproximateLocation(request: { headers: Headers }): string | null {
+  const decode = (value: string | null) => {
+    if (!value) return null;
+    try {
+      return decodeURIComponent(value);
+    } catch {
+      return value;
+    }
+  };
+
+  // Vercel (city is URL-encoded)
+  const country = request.headers.get("x-vercel-ip-country");
+  if (country) {
+    return [
+      decode(request.headers.get("x-vercel-ip-city")),
+      request.headers.get("x-vercel-ip-country-region"),
+      country,
+    ]
+      .filter(Boolean)
+      .join(", ");
+  }
+
+  // Cloudflare ("XX" and "T1" are unknown and Tor)
+  const cfCountry = request.headers.get("cf-ipcountry");
+  if (cfCountry && cfCountry !== "XX" && cfCountry !== "T1") {
+    return cfCountry;
+  }
+
+  return null;
+}
+
 /**
  * Anonymize an IP address for privacy
  * Removes the last octet for IPv4 or last 80 bits for IPv6
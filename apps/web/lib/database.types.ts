@@ -1239,6 +1239,7 @@ export type Database = {
           is_encrypted: boolean | null
           mentions: string[] | null
           metadata: Json | null
+          reply_to_id: string | null
           sender_device_id: string | null
           sender_id: string
           sender_key: string | null
@@ -1258,6 +1259,7 @@ export type Database = {
           is_encrypted?: boolean | null
           mentions?: string[] | null
           metadata?: Json | null
+          reply_to_id?: string | null
           sender_device_id?: string | null
           sender_id: string
           sender_key?: string | null
@@ -1277,6 +1279,7 @@ export type Database = {
           is_encrypted?: boolean | null
           mentions?: string[] | null
           metadata?: Json | null
+          reply_to_id?: string | null
           sender_device_id?: string | null
           sender_id?: string
           sender_key?: string | null
@@ -1304,6 +1307,13 @@ export type Database = {
             referencedRelation: "user_dm_conversations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "dm_messages_reply_to_id_fkey"
+            columns: ["reply_to_id"]
+            isOneToOne: false
+            referencedRelation: "dm_messages"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "dm_messages_sender_id_fkey"
             columns: ["sender_id"]
@@ -2,10 +2,11 @@
  * Donation System - Public Exports
  *
  * This module provides the complete donation system including:
- * - PayPal integration
+ * - Payment providers (PayPal, Stripe)
  * - Bank transfer support
+ * - Campaigns and funding goals
  * - Donor badges and wall
- * - Receipt generation
+ * - PDF receipts and annual statements
  */
 
 // Types
@@ -19,11 +20,28 @@ export {
   isPayPalConfigured,
 } from './paypal';
 
+// Stripe utilities (server-only)
+export { isStripeConfigured } from './stripe';
+
+// Payment providers (server-only)
+export {
+  getPaymentProvider,
+  getAvailablePaymentProviders,
+  resolvePaymentProvider,
+  isPaymentProviderId,
+  toPaymentProviderOption,
+  type PaymentProvider,
+  type PaymentEvent,
+} from './providers';
+export { applyPaymentEvent, handleProviderWebhook, onDonationCompleted } from './payment-events';
+
 // Server utilities (server-only)
 export {
   createDonation,
   updateDonationStatus,
   getDonationByPayPalOrderId,
+  getDonationByCheckoutId,
+  recordProviderPayment,
   getDonationById,
   getUserDonations,
   getDonorBadge,
@@ -37,4 +55,18 @@ export {
   getDonationStats,
   createDonationReceipt,
   getReceiptByDonationId,
+  getReceiptUrl,
+  getReceiptOrganization,
+  createAnnualStatement,
+  getAnnualStatement,
+  getUserAnnualStatements,
+  getStatementUrl,
+  getActiveCampaigns,
+  getCampaignById,
+  getCampaignStats,
+  createCampaign,
+  updateCampaign,
 } from './server';
+
+// Receipt documents (server-only)
+export { renderDonationReceipt, renderAnnualStatement } from './receipts';
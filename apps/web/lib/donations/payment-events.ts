@@ -0,0 +1,350 @@
+/**
+ * Payment Events
+ *
+ * Applies provider outcomes to donation records, the same way for every
+ * provider: checkout completion (from the return page) and normalized
+ * webhook events (see providers/types.ts).
+ */
+
+import { NextResponse } from 'next/server';
+import { pool } from '@/lib/db';
+import { queueDonationReceipt, queueDonationThankYou } from '@/lib/job-queue';
+import { notifyAdminsDonation } from '@/lib/admin-notifications';
+import { emitWebhookEvent } from '@/lib/webhooks/server';
+import { getPaymentProvider, type PaymentEvent } from './providers';
+import { formatDonationAmount, type Donation, type PaymentProviderId } from './types';
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || 'https://www.claudeinsider.com';
+
+// ============================================================================
+// COMPLETION
+// ============================================================================
+
+/**
+ * Follow-up for a donation that just completed: receipt, thank-you email,
+ * admin notification and donation.completed webhooks. The donor badge is
+ * updated by a database trigger.
+ */
+export async function onDonationCompleted(
+  donation: Donation,
+  payer: { email?: string; name?: string } = {}
+): Promise<void> {
+  // Queue receipt generation (processed in background)
+  await queueDonationReceipt(donation.id);
+
+  // Prefer the account email stored at creation over the provider's
+  const email = donation.donor_email || payer.email;
+  const name = donation.donor_name || payer.name;
+
+  if (email) {
+    await queueDonationThankYou(
+      email,
+      name,
+      Number(donation.amount),
+      donation.currency || 'USD',
+      donation.is_recurring || false
+    );
+  }
+
+  const paymentMethod =
+    getPaymentProvider(donation.payment_method as PaymentProviderId)?.name ?? donation.payment_method;
+
+  await notifyAdminsDonation({
+    id: donation.id,
+    amount: Number(donation.amount),
+    currency: donation.currency || 'USD',
+    donorName: name,
+    donorEmail: email,
+    userId: donation.user_id,
+    paymentMethod,
+    isRecurring: donation.is_recurring || false,
+    message: donation.message,
+  });
+
+  // Webhooks may post to public channels: no email, and no name for anonymous donors
+  await emitWebhookEvent('donation.completed', {
+    title: `New donation: ${formatDonationAmount(Number(donation.amount), donation.currency || 'USD')}`,
+    text: donation.is_anonymous ? undefined : donation.message ?? undefined,
+    url: `${APP_URL}/dashboard/donations`,
+    fields: [
+      { name: 'Donor', value: donation.is_anonymous ? 'Anonymous' : name || 'Guest' },
+      {
+        name: 'Type',
+        value: donation.is_recurring ? `Recurring (${donation.recurring_frequency ?? 'monthly'})` : 'One-time',
+      },
+      { name: 'Method', value: paymentMethod },
+    ],
+    data: {
+      donationId: donation.id,
+      amount: Number(donation.amount),
+      currency: donation.currency || 'USD',
+      isRecurring: donation.is_recurring || false,
+      campaignId: donation.campaign_id,
+      paymentMethod: donation.payment_method,
+    },
+  });
+}
+
+async function setActiveSubscription(subscriptionId: string, active: boolean): Promise<void> {
+  await pool.query(
+    `UPDATE donor_badges
+     SET has_active_subscription = $2,
+         updated_at = NOW()
+     WHERE user_id = (
+       SELECT user_id FROM donations WHERE subscription_id = $1 LIMIT 1
+     )`,
+    [subscriptionId, active]
+  );
+}
+
+// ============================================================================
+// WEBHOOK EVENTS
+// ============================================================================
+
+/**
+ * Shared webhook endpoint logic: verify, normalize, apply
+ */
+export async function handleProviderWebhook(
+  providerId: PaymentProviderId,
+  request: Request
+): Promise<NextResponse> {
+  const provider = getPaymentProvider(providerId);
+  const tag = `[${provider.name} Webhook]`;
+
+  try {
+    const rawBody = await request.text();
+
+    const isValid = await provider.verifyWebhook({ rawBody, headers: request.headers });
+    if (!isValid) {
+      console.error(`${tag} Signature verification failed`);
+      return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+    }
+
+    const event = await provider.parseWebhookEvent(rawBody);
+    if (event) {
+      await applyPaymentEvent(providerId, event);
+    }
+
+    return NextResponse.json({ received: true });
+  } catch (error) {
+    console.error(`${tag} Error:`, error);
+    // Return 200 to prevent the provider from retrying (we'll log the error)
+    return NextResponse.json({ received: true, error: 'Processing error' });
+  }
+}
+
+/**
+ * Apply a verified, normalized webhook event from a provider
+ */
+export async function applyPaymentEvent(
+  provider: PaymentProviderId,
+  event: PaymentEvent
+): Promise<void> {
+  const tag = `[${getPaymentProvider(provider).name} Webhook]`;
+  console.log(`${tag} Applying ${event.type} (${event.eventId})`);
+
+  switch (event.type) {
+    case 'payment.completed':
+      if (event.subscriptionId) {
+        await recordSubscriptionPayment(provider, event, tag);
+      } else {
+        await completeOneTimePayment(provider, event);
+      }
+      break;
+
+    case 'payment.refunded':
+      if (event.partial) {
+        // Keep the donation; note the running total once per amount
+        const note = ` Partially refunded (${event.amount} ${event.currency}) via ${getPaymentProvider(provider).name}.`;
+        await pool.query(
+          `UPDATE donations
+           SET admin_notes = COALESCE(admin_notes, '') || $2,
+               updated_at = NOW()
+           WHERE payment_method = $1 AND transaction_id = ANY($3::TEXT[])
+             AND status = 'completed' AND strpos(COALESCE(admin_notes, ''), $2) = 0`,
+          [provider, note, event.transactionIds]
+        );
+        break;
+      }
+      await pool.query(
+        `UPDATE donations
+         SET status = 'refunded',
+             admin_notes = COALESCE(admin_notes, '') || $2,
+             updated_at = NOW()
+         WHERE payment_method = $1 AND transaction_id = ANY($3::TEXT[]) AND status <> 'refunded'`,
+        [provider, ` Refunded via ${getPaymentProvider(provider).name}.`, event.transactionIds]
+      );
+      break;
+
+    case 'subscription.activated':
+      await activateSubscription(provider, event);
+      break;
+
+    case 'subscription.cancelled':
+    case 'subscription.expired':
+      await pool.query(
+        `UPDATE donations
+         SET status = 'cancelled',
+             admin_notes = COALESCE(admin_notes, '') || $2,
+             updated_at = NOW()
+         WHERE payment_method = $1 AND subscription_id = $3 AND status IN ('pending', 'completed') AND is_recurring = TRUE`,
+        [
+          provider,
+          event.type === 'subscription.expired' ? ' Subscription expired.' : ' Subscription cancelled.',
+          event.subscriptionId,
+        ]
+      );
+      await setActiveSubscription(event.subscriptionId, false);
+      break;
+
+    case 'subscription.suspended':
+      await pool.query(
+        `UPDATE donations
+         SET admin_notes = COALESCE(admin_notes, '') || ' Subscription suspended.',
+             updated_at = NOW()
+         WHERE payment_method = $1 AND subscription_id = $2 AND is_recurring = TRUE`,
+        [provider, event.subscriptionId]
+      );
+      await setActiveSubscription(event.subscriptionId, false);
+      break;
+
+    case 'subscription.payment_failed':
+      await pool.query(
+        `UPDATE donations
+         SET admin_notes = COALESCE(admin_notes, '') || $3,
+             updated_at = NOW()
+         WHERE id = (
+           SELECT id FROM donations
+           WHERE payment_method = $1 AND subscription_id = $2 AND is_recurring = TRUE
+           ORDER BY created_at DESC
+           LIMIT 1
+         )`,
+        [provider, event.subscriptionId, ` Payment failed on ${new Date().toISOString()}.`]
+      );
+      break;
+  }
+}
+
+/**
+ * Backup for the return-page completion, in case the donor never came back
+ */
+async function completeOneTimePayment(
+  provider: PaymentProviderId,
+  event: Extract<PaymentEvent, { type: 'payment.completed' }>
+): Promise<void> {
+  const result = await pool.query<Donation>(
+    `UPDATE donations
+     SET status = 'completed',
+         transaction_id = COALESCE(transaction_id, $2),
+         donor_email = COALESCE(donor_email, $4),
+         donor_name = COALESCE(donor_name, $5),
+         updated_at = NOW()
+     WHERE payment_method = $1
+       AND status = 'pending'
+       AND (transaction_id = $2 OR ($3::TEXT IS NOT NULL AND provider_checkout_id = $3))
+     RETURNING *`,
+    [provider, event.transactionId, event.checkoutId ?? null, event.payerEmail ?? null, event.payerName ?? null]
+  );
+
+  const donation = result.rows[0];
+  if (donation) {
+    await onDonationCompleted(donation, { email: event.payerEmail, name: event.payerName });
+  }
+}
+
+async function activateSubscription(
+  provider: PaymentProviderId,
+  event: Extract<PaymentEvent, { type: 'subscription.activated' }>
+): Promise<void> {
+  // Stripe donations are stored under the checkout session until now
+  const result = await pool.query<Donation>(
+    `UPDATE donations
+     SET status = 'completed',
+         subscription_id = $2,
+         paypal_payer_id = CASE WHEN payment_method = 'paypal' THEN COALESCE($4, paypal_payer_id) ELSE paypal_payer_id END,
+         donor_name = COALESCE(donor_name, $5),
+         donor_email = COALESCE(donor_email, $6),
+         updated_at = NOW()
+     WHERE payment_method = $1
+       AND status = 'pending'
+       AND (subscription_id = $2 OR ($3::TEXT IS NOT NULL AND provider_checkout_id = $3))
+     RETURNING *`,
+    [
+      provider,
+      event.subscriptionId,
+      event.checkoutId ?? null,
+      event.payerId ?? null,
+      event.payerName ?? null,
+      event.payerEmail ?? null,
+    ]
+  );
+
+  const donation = result.rows[0];
+  if (donation) {
+    await onDonationCompleted(donation, { email: event.payerEmail, name: event.payerName });
+  }
+
+  await setActiveSubscription(event.subscriptionId, true);
+}
+
+/**
+ * Each renewal becomes its own donation row, copied from the first one
+ */
+async function recordSubscriptionPayment(
+  provider: PaymentProviderId,
+  event: Extract<PaymentEvent, { type: 'payment.completed' }>,
+  tag: string
+): Promise<void> {
+  const existing = await pool.query(
+    `SELECT 1 FROM donations WHERE payment_method = $1 AND transaction_id = $2`,
+    [provider, event.transactionId]
+  );
+  if (existing.rows.length > 0) {
+    console.log(`${tag} Payment already recorded: ${event.transactionId}`);
+    return;
+  }
+
+  const originalResult = await pool.query(
+    `SELECT user_id, amount, currency, recurring_frequency, donor_name, donor_email, is_anonymous,
+       campaign_id
+     FROM donations
+     WHERE payment_method = $1 AND subscription_id = $2
+     ORDER BY created_at ASC
+     LIMIT 1`,
+    [provider, event.subscriptionId]
+  );
+
+  const original = originalResult.rows[0];
+  if (!original) {
+    console.log(`${tag} No original donation found for subscription: ${event.subscriptionId}`);
+    return;
+  }
+
+  const insertResult = await pool.query(
+    `INSERT INTO donations (
+       user_id, amount, currency, payment_method, transaction_id,
+       subscription_id, status, is_recurring, recurring_frequency,
+       donor_name, donor_email, is_anonymous, campaign_id, metadata
+     ) VALUES ($1, $2, $3, $4, $5, $6, 'completed', TRUE, $7, $8, $9, $10, $11, $12)
+     RETURNING id`,
+    [
+      original.user_id,
+      event.amount ?? original.amount,
+      event.currency || original.currency || 'USD',
+      provider,
+      event.transactionId,
+      event.subscriptionId,
+      original.recurring_frequency,
+      original.donor_name,
+      original.donor_email,
+      original.is_anonymous,
+      original.campaign_id,
+      JSON.stringify({ webhook_event_id: event.eventId }),
+    ]
+  );
+
+  // The trigger will automatically update the donor badge
+  if (insertResult.rows[0]) {
+    await queueDonationReceipt(insertResult.rows[0].id);
+  }
+}
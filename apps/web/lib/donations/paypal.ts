@@ -247,6 +247,88 @@ export async function getPayPalOrder(orderId: string): Promise<{
   };
 }
 
+/**
+ * Refund a captured one-time payment, in full or in part
+ */
+export async function refundPayPalCapture(params: {
+  captureId: string;
+  amount?: number;
+  currency?: string;
+  note?: string;
+}): Promise<{ refundId: string; status: 'completed' | 'pending' | 'failed' }> {
+  const accessToken = await getAccessToken();
+
+  const response = await fetch(`${PAYPAL_API_BASE}/v2/payments/captures/${params.captureId}/refund`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+      'PayPal-Request-Id': `refund-${params.captureId}-${Date.now()}`,
+    },
+    body: JSON.stringify({
+      ...(params.amount !== undefined && {
+        amount: {
+          value: params.amount.toFixed(2),
+          currency_code: params.currency || 'USD',
+        },
+      }),
+      ...(params.note && { note_to_payer: params.note }),
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Failed to refund PayPal capture: ${error}`);
+  }
+
+  const refund: { id: string; status: string } = await response.json();
+
+  return {
+    refundId: refund.id,
+    status: refund.status === 'COMPLETED'
+      ? 'completed'
+      : refund.status === 'CANCELLED' || refund.status === 'FAILED'
+        ? 'failed'
+        : 'pending',
+  };
+}
+
+/**
+ * Refund a subscription payment (a v1 sale), in full or in part
+ */
+export async function refundPayPalSale(params: {
+  saleId: string;
+  amount?: number;
+  currency?: string;
+}): Promise<{ refundId: string; status: 'completed' | 'pending' | 'failed' }> {
+  const accessToken = await getAccessToken();
+
+  const response = await fetch(`${PAYPAL_API_BASE}/v1/payments/sale/${params.saleId}/refund`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(
+      params.amount !== undefined
+        ? { amount: { total: params.amount.toFixed(2), currency: params.currency || 'USD' } }
+        : {}
+    ),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Failed to refund PayPal sale: ${error}`);
+  }
+
+  const refund: { id: string; state: string } = await response.json();
+
+  return {
+    refundId: refund.id,
+    status: refund.state === 'completed' ? 'completed' : refund.state === 'failed' ? 'failed' : 'pending',
+  };
+}
+
 /**
  * Check if PayPal is properly configured
  */
@@ -0,0 +1,167 @@
+/**
+ * Minimal PDF Writer
+ *
+ * Just enough of PDF 1.4 to render text documents like receipts and
+ * statements server-side: pages of positioned text in the standard
+ * Helvetica fonts, rules and filled boxes. No embedded fonts or images,
+ * so text is limited to the WinAnsi (Latin-1) character set.
+ */
+
+// A4 in points
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  /** RGB 0-1 */
+  color?: [number, number, number];
+  align?: 'left' | 'right' | 'center';
+}
+
+/** Helvetica advance widths for ASCII 32-126 (per 1000 units) */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+/** Characters outside Latin-1 that WinAnsiEncoding still has */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '•': 0x95, '–': 0x96, '—': 0x97,
+  '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '™': 0x99,
+};
+
+function toWinAnsi(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of text.normalize('NFC')) {
+    const code = char.codePointAt(0)!;
+    if (WIN_ANSI_EXTRAS[char] !== undefined) {
+      bytes.push(WIN_ANSI_EXTRAS[char]);
+    } else if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) {
+      bytes.push(code);
+    } else {
+      // Strip accents where possible, otherwise a placeholder
+      const base = char.normalize('NFD').codePointAt(0)!;
+      bytes.push(base >= 0x20 && base < 0x7f ? base : 0x3f);
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Approximate rendered width; bold is close enough to regular for alignment
+ */
+export function measureText(text: string, size: number, bold = false): number {
+  const units = toWinAnsi(text).reduce((sum, byte) => {
+    const width = byte >= 32 && byte <= 126 ? HELVETICA_WIDTHS[byte - 32]! : 556;
+    return sum + width;
+  }, 0);
+  return (units * size * (bold ? 1.05 : 1)) / 1000;
+}
+
+function encodeString(text: string): string {
+  return toWinAnsi(text)
+    .map((byte) => {
+      if (byte === 0x28 || byte === 0x29 || byte === 0x5c) return `\\${String.fromCharCode(byte)}`;
+      if (byte > 0x7e) return `\\${byte.toString(8).padStart(3, '0')}`;
+      return String.fromCharCode(byte);
+    })
+    .join('');
+}
+
+const formatNumber = (value: number) => Number(value.toFixed(2)).toString();
+
+// ============================================================================
+// DOCUMENT
+// ============================================================================
+
+export interface PdfPage {
+  /** y is measured from the top of the page */
+  text(x: number, y: number, text: string, options?: TextOptions): void;
+  line(x1: number, y1: number, x2: number, y2: number, width?: number): void;
+  rect(x: number, y: number, width: number, height: number, fill: [number, number, number]): void;
+}
+
+export interface PdfDocument {
+  addPage(): PdfPage;
+  toBuffer(): Buffer;
+}
+
+export function createPdfDocument(info: { title: string; author?: string }): PdfDocument {
+  const pages: string[][] = [];
+
+  const addPage = (): PdfPage => {
+    const ops: string[] = [];
+    pages.push(ops);
+
+    return {
+      text(x, y, text, options = {}) {
+        const size = options.size ?? 10;
+        const [r, g, b] = options.color ?? [0.1, 0.1, 0.1];
+        let left = x;
+        if (options.align === 'right') left = x - measureText(text, size, options.bold);
+        if (options.align === 'center') left = x - measureText(text, size, options.bold) / 2;
+
+        ops.push(
+          `BT /${options.bold ? 'F2' : 'F1'} ${size} Tf ${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)} rg ` +
+          `${formatNumber(left)} ${formatNumber(PAGE_HEIGHT - y)} Td (${encodeString(text)}) Tj ET`
+        );
+      },
+      line(x1, y1, x2, y2, width = 0.5) {
+        ops.push(
+          `0.8 0.8 0.8 RG ${formatNumber(width)} w ${formatNumber(x1)} ${formatNumber(PAGE_HEIGHT - y1)} m ` +
+          `${formatNumber(x2)} ${formatNumber(PAGE_HEIGHT - y2)} l S`
+        );
+      },
+      rect(x, y, width, height, [r, g, b]) {
+        ops.push(
+          `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)} rg ` +
+          `${formatNumber(x)} ${formatNumber(PAGE_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re f`
+        );
+      },
+    };
+  };
+
+  const toBuffer = (): Buffer => {
+    // Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then page + content pairs
+    const objects: string[] = [];
+    const pageIds = pages.map((_, index) => 6 + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    objects[5] = `<< /Title (${encodeString(info.title)})${info.author ? ` /Author (${encodeString(info.author)})` : ''} /Producer (Claude Insider) >>`;
+
+    pages.forEach((ops, index) => {
+      const pageId = pageIds[index]!;
+      const stream = ops.join('\n');
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+    });
+
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1');
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  };
+
+  return { addPage, toBuffer };
+}
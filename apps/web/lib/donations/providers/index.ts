@@ -0,0 +1,73 @@
+/**
+ * Payment Providers
+ *
+ * Registry of the payment providers donations can go through. To add one,
+ * implement PaymentProvider and register it here - the /api/donations
+ * routes and the donation modal pick it up from the registry.
+ */
+
+import type { DonationSettings, PaymentProviderId, PaymentProviderOption } from '../types';
+import { paypalProvider } from './paypal';
+import { stripeProvider } from './stripe';
+import type { PaymentProvider } from './types';
+
+export type {
+  PaymentProvider,
+  PaymentEvent,
+  CheckoutParams,
+  SubscriptionParams,
+  CheckoutSession,
+  CheckoutResult,
+  RefundResult,
+  WebhookRequest,
+} from './types';
+
+const PAYMENT_PROVIDERS: Record<PaymentProviderId, PaymentProvider> = {
+  paypal: paypalProvider,
+  stripe: stripeProvider,
+};
+
+export function isPaymentProviderId(value: unknown): value is PaymentProviderId {
+  return typeof value === 'string' && value in PAYMENT_PROVIDERS;
+}
+
+export function getPaymentProvider(id: PaymentProviderId): PaymentProvider {
+  return PAYMENT_PROVIDERS[id];
+}
+
+/**
+ * Providers that are both configured and switched on, default first
+ */
+export function getAvailablePaymentProviders(settings: DonationSettings): PaymentProvider[] {
+  return Object.values(PAYMENT_PROVIDERS)
+    .filter((provider) => provider.isConfigured() && provider.isEnabled(settings))
+    .sort((a, b) =>
+      Number(b.id === settings.default_payment_provider) - Number(a.id === settings.default_payment_provider)
+    );
+}
+
+/**
+ * Resolve the provider for a checkout: the one requested, or the default.
+ * Returns null if it isn't available.
+ */
+export function resolvePaymentProvider(
+  settings: DonationSettings,
+  requested?: unknown
+): PaymentProvider | null {
+  const available = getAvailablePaymentProviders(settings);
+
+  if (requested !== undefined) {
+    return available.find((provider) => provider.id === requested) ?? null;
+  }
+
+  return available[0] ?? null;
+}
+
+export function toPaymentProviderOption(provider: PaymentProvider): PaymentProviderOption {
+  return {
+    id: provider.id,
+    name: provider.name,
+    description: provider.description,
+    supports_recurring: provider.supportsRecurring,
+  };
+}
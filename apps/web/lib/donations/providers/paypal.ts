@@ -0,0 +1,209 @@
+/**
+ * PayPal Payment Provider
+ *
+ * Adapts the PayPal REST client (lib/donations/paypal.ts) to the
+ * PaymentProvider interface. One-time donations are Checkout v2 orders,
+ * recurring ones are billing subscriptions.
+ */
+
+import {
+  createPayPalOrder,
+  capturePayPalOrder,
+  createPayPalSubscription,
+  getPayPalSubscription,
+  cancelPayPalSubscription,
+  refundPayPalCapture,
+  refundPayPalSale,
+  verifyPayPalWebhook,
+  isPayPalConfigured,
+  PAYPAL_WEBHOOK_EVENTS,
+  type PayPalWebhookEvent,
+} from '../paypal';
+import type { PaymentProvider } from './types';
+
+// PayPal webhook ID from your dashboard - set in environment variables
+const PAYPAL_WEBHOOK_ID = process.env.PAYPAL_WEBHOOK_ID;
+
+export const paypalProvider: PaymentProvider = {
+  id: 'paypal',
+  name: 'PayPal',
+  description: 'PayPal account or debit/credit card',
+  supportsRecurring: true,
+
+  isConfigured: isPayPalConfigured,
+
+  isEnabled: (settings) => settings.paypal_enabled,
+
+  async createCheckout(params) {
+    // PayPal appends ?token=<order ID> to the return URL
+    const { orderId, approvalUrl } = await createPayPalOrder({
+      amount: params.amount,
+      currency: params.currency,
+      description: params.description,
+      returnUrl: params.returnUrl,
+      cancelUrl: params.cancelUrl,
+    });
+
+    return { checkoutId: orderId, approvalUrl };
+  },
+
+  async createSubscription(params) {
+    // PayPal appends ?subscription_id=<ID> to the return URL
+    const { subscriptionId, approvalUrl } = await createPayPalSubscription({
+      amount: params.amount,
+      currency: params.currency,
+      frequency: params.frequency,
+      returnUrl: params.returnUrl,
+      cancelUrl: params.cancelUrl,
+      subscriberEmail: params.donorEmail,
+      subscriberName: params.donorName,
+    });
+
+    return { checkoutId: subscriptionId, subscriptionId, approvalUrl };
+  },
+
+  async completeCheckout(checkoutId, isRecurring) {
+    if (!isRecurring) {
+      const capture = await capturePayPalOrder(checkoutId);
+      return {
+        status: capture.status,
+        transactionId: capture.transactionId,
+        payerId: capture.payerId,
+        payerEmail: capture.payerEmail,
+        payerName: capture.payerName,
+        amount: capture.amount,
+        currency: capture.currency,
+      };
+    }
+
+    const subscription = await getPayPalSubscription(checkoutId);
+    let status: 'completed' | 'failed' | 'pending' = 'pending';
+    if (['ACTIVE', 'APPROVED'].includes(subscription.status)) {
+      status = 'completed';
+    } else if (['CANCELLED', 'EXPIRED'].includes(subscription.status)) {
+      status = 'failed';
+    }
+
+    return {
+      status,
+      subscriptionId: subscription.id,
+      payerId: subscription.subscriberId,
+      payerEmail: subscription.subscriberEmail,
+      payerName: subscription.subscriberName,
+      amount: subscription.lastPaymentAmount,
+      nextBillingTime: subscription.nextBillingTime,
+    };
+  },
+
+  cancelSubscription: (subscriptionId, reason) =>
+    cancelPayPalSubscription(subscriptionId, reason),
+
+  refund({ transactionId, isRecurring, amount, currency, reason }) {
+    // Subscription payments are v1 sales, one-time payments v2 captures
+    return isRecurring
+      ? refundPayPalSale({ saleId: transactionId, amount, currency })
+      : refundPayPalCapture({ captureId: transactionId, amount, currency, note: reason });
+  },
+
+  async verifyWebhook({ rawBody, headers }) {
+    if (!PAYPAL_WEBHOOK_ID) {
+      console.warn('[PayPal Webhook] PAYPAL_WEBHOOK_ID not configured - skipping verification');
+      return true;
+    }
+
+    return verifyPayPalWebhook({
+      webhookId: PAYPAL_WEBHOOK_ID,
+      headers: {
+        'paypal-auth-algo': headers.get('paypal-auth-algo') || '',
+        'paypal-cert-url': headers.get('paypal-cert-url') || '',
+        'paypal-transmission-id': headers.get('paypal-transmission-id') || '',
+        'paypal-transmission-sig': headers.get('paypal-transmission-sig') || '',
+        'paypal-transmission-time': headers.get('paypal-transmission-time') || '',
+      },
+      body: rawBody,
+    });
+  },
+
+  async parseWebhookEvent(rawBody) {
+    const event: PayPalWebhookEvent = JSON.parse(rawBody);
+    const resource = event.resource;
+    const eventId = event.id;
+
+    switch (event.event_type) {
+      case PAYPAL_WEBHOOK_EVENTS.SUBSCRIPTION_ACTIVATED: {
+        const subscription = await getPayPalSubscription(resource.id as string);
+        return {
+          type: 'subscription.activated',
+          eventId,
+          subscriptionId: subscription.id,
+          payerId: subscription.subscriberId,
+          payerEmail: subscription.subscriberEmail,
+          payerName: subscription.subscriberName,
+        };
+      }
+
+      case PAYPAL_WEBHOOK_EVENTS.SUBSCRIPTION_CANCELLED:
+        return { type: 'subscription.cancelled', eventId, subscriptionId: resource.id as string };
+
+      case PAYPAL_WEBHOOK_EVENTS.SUBSCRIPTION_SUSPENDED:
+        return { type: 'subscription.suspended', eventId, subscriptionId: resource.id as string };
+
+      case PAYPAL_WEBHOOK_EVENTS.SUBSCRIPTION_EXPIRED:
+        return { type: 'subscription.expired', eventId, subscriptionId: resource.id as string };
+
+      case PAYPAL_WEBHOOK_EVENTS.SUBSCRIPTION_PAYMENT_FAILED:
+        return { type: 'subscription.payment_failed', eventId, subscriptionId: resource.id as string };
+
+      case PAYPAL_WEBHOOK_EVENTS.PAYMENT_SALE_COMPLETED: {
+        // Sales without a billing agreement aren't subscription payments
+        const subscriptionId = resource.billing_agreement_id as string | undefined;
+        if (!subscriptionId) return null;
+
+        const amount = resource.amount as { total?: string; value?: string; currency?: string } | undefined;
+        const value = amount?.total || amount?.value;
+        return {
+          type: 'payment.completed',
+          eventId,
+          transactionId: resource.id as string,
+          subscriptionId,
+          amount: value ? parseFloat(value) : undefined,
+          currency: amount?.currency,
+        };
+      }
+
+      case PAYPAL_WEBHOOK_EVENTS.PAYMENT_CAPTURE_COMPLETED:
+        // Backup for the synchronous capture in completeCheckout
+        return {
+          type: 'payment.completed',
+          eventId,
+          transactionId: resource.id as string,
+        };
+
+      case PAYPAL_WEBHOOK_EVENTS.PAYMENT_SALE_REFUNDED:
+      case PAYPAL_WEBHOOK_EVENTS.PAYMENT_SALE_REVERSED:
+      case PAYPAL_WEBHOOK_EVENTS.PAYMENT_CAPTURE_REFUNDED:
+        return {
+          type: 'payment.refunded',
+          eventId,
+          transactionIds: [
+            resource.id as string,
+            resource.sale_id as string | undefined,
+            resource.parent_payment as string | undefined,
+            getCaptureIdFromLinks(resource),
+          ].filter((id): id is string => Boolean(id)),
+        };
+
+      default:
+        return null;
+    }
+  },
+};
+
+/**
+ * Refund resources link back to the refunded capture ("up" link)
+ */
+function getCaptureIdFromLinks(resource: Record<string, unknown>): string | undefined {
+  const links = resource.links as Array<{ href: string; rel: string }> | undefined;
+  const up = links?.find((link) => link.rel === 'up');
+  return up?.href.split('/').pop();
+}
@@ -0,0 +1,213 @@
+/**
+ * Stripe Payment Provider
+ *
+ * Adapts the Stripe REST client (lib/donations/stripe.ts) to the
+ * PaymentProvider interface. Both one-time and recurring donations go
+ * through hosted Stripe Checkout.
+ */
+
+import {
+  createStripeCheckoutSession,
+  getStripeCheckoutSession,
+  cancelStripeSubscription,
+  refundStripePayment,
+  verifyStripeWebhook,
+  isStripeConfigured,
+  fromStripeAmount,
+  STRIPE_WEBHOOK_EVENTS,
+  type StripeWebhookEvent,
+} from '../stripe';
+import type { PaymentProvider } from './types';
+
+// Endpoint signing secret from the Stripe dashboard - set in environment variables
+const STRIPE_WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET;
+
+/**
+ * Stripe fills in the session ID on redirect
+ */
+function withSessionId(returnUrl: string): string {
+  const separator = returnUrl.includes('?') ? '&' : '?';
+  return `${returnUrl}${separator}checkout_id={CHECKOUT_SESSION_ID}`;
+}
+
+export const stripeProvider: PaymentProvider = {
+  id: 'stripe',
+  name: 'Card',
+  description: 'Credit/debit card, Apple Pay or Google Pay via Stripe',
+  supportsRecurring: true,
+
+  isConfigured: isStripeConfigured,
+
+  isEnabled: (settings) => settings.stripe_enabled,
+
+  async createCheckout(params) {
+    const { sessionId, url } = await createStripeCheckoutSession({
+      amount: params.amount,
+      currency: params.currency,
+      description: params.description,
+      successUrl: withSessionId(params.returnUrl),
+      cancelUrl: params.cancelUrl,
+      customerEmail: params.donorEmail,
+    });
+
+    return { checkoutId: sessionId, approvalUrl: url };
+  },
+
+  async createSubscription(params) {
+    // The subscription only exists once the donor completes checkout
+    const { sessionId, url } = await createStripeCheckoutSession({
+      amount: params.amount,
+      currency: params.currency,
+      description: params.description,
+      successUrl: withSessionId(params.returnUrl),
+      cancelUrl: params.cancelUrl,
+      customerEmail: params.donorEmail,
+      frequency: params.frequency,
+    });
+
+    return { checkoutId: sessionId, approvalUrl: url };
+  },
+
+  async completeCheckout(checkoutId, isRecurring) {
+    // Stripe captures during checkout; just confirm the result
+    const session = await getStripeCheckoutSession(checkoutId);
+
+    let status = session.status;
+    if (isRecurring && session.subscriptionStatus) {
+      status = ['active', 'trialing'].includes(session.subscriptionStatus)
+        ? 'completed'
+        : session.subscriptionStatus === 'incomplete_expired'
+          ? 'failed'
+          : status;
+    }
+
+    return {
+      status,
+      transactionId: session.paymentIntentId,
+      subscriptionId: session.subscriptionId,
+      payerId: session.customerId,
+      payerEmail: session.customerEmail,
+      payerName: session.customerName,
+      amount: session.amount,
+      currency: session.currency,
+      nextBillingTime: session.nextBillingTime,
+    };
+  },
+
+  cancelSubscription: (subscriptionId, reason) =>
+    cancelStripeSubscription(subscriptionId, reason),
+
+  refund: ({ transactionId, requestId, amount, currency, reason }) =>
+    refundStripePayment({ paymentId: transactionId, requestId, amount, currency, reason }),
+
+  async verifyWebhook({ rawBody, headers }) {
+    if (!STRIPE_WEBHOOK_SECRET) {
+      console.error('[Stripe Webhook] STRIPE_WEBHOOK_SECRET not configured');
+      return false;
+    }
+
+    return verifyStripeWebhook({
+      signatureHeader: headers.get('stripe-signature') || '',
+      body: rawBody,
+      secret: STRIPE_WEBHOOK_SECRET,
+    });
+  },
+
+  async parseWebhookEvent(rawBody) {
+    const event: StripeWebhookEvent = JSON.parse(rawBody);
+    const object = event.data.object;
+    const eventId = event.id;
+
+    switch (event.type) {
+      case STRIPE_WEBHOOK_EVENTS.CHECKOUT_SESSION_COMPLETED:
+      case STRIPE_WEBHOOK_EVENTS.CHECKOUT_SESSION_ASYNC_PAYMENT_SUCCEEDED: {
+        // Delayed payment methods complete later with async_payment_succeeded
+        if (object.payment_status === 'unpaid') return null;
+
+        const details = object.customer_details as { email?: string; name?: string } | null;
+
+        if (object.mode === 'subscription') {
+          return {
+            type: 'subscription.activated',
+            eventId,
+            subscriptionId: object.subscription as string,
+            checkoutId: object.id as string,
+            payerId: (object.customer as string | null) ?? undefined,
+            payerEmail: details?.email,
+            payerName: details?.name,
+          };
+        }
+
+        return {
+          type: 'payment.completed',
+          eventId,
+          transactionId: object.payment_intent as string,
+          checkoutId: object.id as string,
+          payerEmail: details?.email,
+          payerName: details?.name,
+        };
+      }
+
+      case STRIPE_WEBHOOK_EVENTS.INVOICE_PAID: {
+        // The first invoice is paid during checkout (subscription.activated)
+        if (object.billing_reason === 'subscription_create') return null;
+
+        const subscriptionId = getInvoiceSubscriptionId(object);
+        if (!subscriptionId) return null;
+
+        const currency = (object.currency as string).toUpperCase();
+        return {
+          type: 'payment.completed',
+          eventId,
+          transactionId: ((object.payment_intent || object.charge || object.id) as string),
+          subscriptionId,
+          amount: fromStripeAmount(object.amount_paid as number, currency),
+          currency,
+        };
+      }
+
+      case STRIPE_WEBHOOK_EVENTS.INVOICE_PAYMENT_FAILED: {
+        const subscriptionId = getInvoiceSubscriptionId(object);
+        return subscriptionId
+          ? { type: 'subscription.payment_failed', eventId, subscriptionId }
+          : null;
+      }
+
+      case STRIPE_WEBHOOK_EVENTS.SUBSCRIPTION_DELETED:
+        return { type: 'subscription.cancelled', eventId, subscriptionId: object.id as string };
+
+      case STRIPE_WEBHOOK_EVENTS.SUBSCRIPTION_PAUSED:
+        return { type: 'subscription.suspended', eventId, subscriptionId: object.id as string };
+
+      case STRIPE_WEBHOOK_EVENTS.CHARGE_REFUNDED: {
+        // Sent for partial refunds too; `refunded` is only set once the whole charge is
+        const currency = (object.currency as string).toUpperCase();
+        return {
+          type: 'payment.refunded',
+          eventId,
+          transactionIds: [
+            object.id as string,
+            object.payment_intent as string | null,
+          ].filter((id): id is string => Boolean(id)),
+          partial: object.refunded !== true,
+          amount: fromStripeAmount(object.amount_refunded as number, currency),
+          currency,
+        };
+      }
+
+      default:
+        return null;
+    }
+  },
+};
+
+/**
+ * Invoices carry the subscription at the top level in older API versions
+ * and under parent.subscription_details in newer ones
+ */
+function getInvoiceSubscriptionId(invoice: Record<string, unknown>): string | undefined {
+  if (typeof invoice.subscription === 'string') return invoice.subscription;
+
+  const parent = invoice.parent as { subscription_details?: { subscription?: string } } | null;
+  return parent?.subscription_details?.subscription;
+}
@@ -0,0 +1,150 @@
+/**
+ * Payment Provider Types
+ *
+ * The contract every payment provider implements. Routes under
+ * /api/donations only talk to this interface; provider specifics
+ * (APIs, webhook formats, status names) stay in the adapters.
+ */
+
+import type { DonationSettings, PaymentProviderId, RecurringFrequency } from '../types';
+
+// ============================================================================
+// CHECKOUT
+// ============================================================================
+
+export interface CheckoutParams {
+  amount: number;
+  currency: string;
+  description: string;
+  /** Where the donor lands after paying; providers append their own IDs */
+  returnUrl: string;
+  cancelUrl: string;
+  donorEmail?: string;
+  donorName?: string;
+}
+
+export interface SubscriptionParams extends CheckoutParams {
+  frequency: RecurringFrequency;
+}
+
+export interface CheckoutSession {
+  /** ID the donation is stored under and the donor returns with */
+  checkoutId: string;
+  /** Set when the provider already knows the subscription (PayPal) */
+  subscriptionId?: string;
+  approvalUrl: string;
+}
+
+export interface CheckoutResult {
+  status: 'completed' | 'failed' | 'pending';
+  transactionId?: string;
+  subscriptionId?: string;
+  payerId?: string;
+  payerEmail?: string;
+  payerName?: string;
+  amount?: number;
+  currency?: string;
+  nextBillingTime?: string;
+}
+
+export interface RefundResult {
+  refundId: string;
+  status: 'completed' | 'pending' | 'failed';
+}
+
+// ============================================================================
+// WEBHOOKS
+// ============================================================================
+
+/**
+ * Provider webhook events, normalized. Anything a provider sends that
+ * doesn't map to one of these is ignored.
+ */
+export type PaymentEvent =
+  | {
+      /** A payment went through: one-time checkout or a subscription renewal */
+      type: 'payment.completed';
+      eventId: string;
+      transactionId: string;
+      checkoutId?: string;
+      /** Set for subscription renewals, which become new donation rows */
+      subscriptionId?: string;
+      amount?: number;
+      currency?: string;
+      payerEmail?: string;
+      payerName?: string;
+    }
+  | {
+      type: 'payment.refunded';
+      eventId: string;
+      /** Any of these may identify the original payment */
+      transactionIds: string[];
+      /** Part of the payment is still kept; the donation stays completed */
+      partial?: boolean;
+      /** Total refunded so far */
+      amount?: number;
+      currency?: string;
+    }
+  | {
+      type: 'subscription.activated';
+      eventId: string;
+      subscriptionId: string;
+      checkoutId?: string;
+      payerId?: string;
+      payerEmail?: string;
+      payerName?: string;
+    }
+  | {
+      type:
+        | 'subscription.cancelled'
+        | 'subscription.suspended'
+        | 'subscription.expired'
+        | 'subscription.payment_failed';
+      eventId: string;
+      subscriptionId: string;
+    };
+
+export interface WebhookRequest {
+  rawBody: string;
+  headers: Headers;
+}
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+export interface PaymentProvider {
+  id: PaymentProviderId;
+  name: string;
+  /** Shown under the provider name in the donation modal */
+  description: string;
+  supportsRecurring: boolean;
+
+  /** Credentials are present */
+  isConfigured(): boolean;
+  /** Switched on in the admin donation settings */
+  isEnabled(settings: DonationSettings): boolean;
+
+  createCheckout(params: CheckoutParams): Promise<CheckoutSession>;
+  createSubscription(params: SubscriptionParams): Promise<CheckoutSession>;
+  /**
+   * Finish a checkout after the donor returns: capture the payment, or
+   * confirm the subscription is active
+   */
+  completeCheckout(checkoutId: string, isRecurring: boolean): Promise<CheckoutResult>;
+  cancelSubscription(subscriptionId: string, reason?: string): Promise<void>;
+  refund(params: {
+    transactionId: string;
+    /** Unique per refund request; a retry of the same request reuses it */
+    requestId: string;
+    isRecurring: boolean;
+    amount?: number;
+    currency?: string;
+    reason?: string;
+  }): Promise<RefundResult>;
+
+  /** Check the request really comes from the provider */
+  verifyWebhook(request: WebhookRequest): Promise<boolean>;
+  /** Map a verified webhook body to an event, or null to ignore it */
+  parseWebhookEvent(rawBody: string): Promise<PaymentEvent | null>;
+}
@@ -0,0 +1,270 @@
+/**
+ * Donation Receipt Documents
+ *
+ * Renders per-donation receipts and annual donor statements as PDFs
+ * (see pdf.ts). Documents are rendered on request from the database, so
+ * corrections to a donation show up the next time it is downloaded.
+ */
+
+import { pool } from '@/lib/db';
+import { createPdfDocument, PAGE_WIDTH, type PdfPage } from './pdf';
+import {
+  formatDonationAmount,
+  type DonationAnnualStatement,
+  type PaymentMethod,
+  type ReceiptOrganization,
+} from './types';
+
+const MARGIN = 56;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const ACCENT: [number, number, number] = [0.486, 0.227, 0.929]; // violet-600
+const MUTED: [number, number, number] = [0.42, 0.45, 0.5];
+const ROWS_PER_PAGE = 28;
+
+const DEFAULT_NOTE =
+  'No goods or services were provided in exchange for this contribution. ' +
+  'Please keep this receipt for your records.';
+
+const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  paypal: 'PayPal',
+  stripe: 'Card (Stripe)',
+  bank_transfer: 'Bank transfer',
+  other: 'Other',
+};
+
+export interface ReceiptDonation {
+  id: string;
+  amount: number;
+  currency: string;
+  payment_method: PaymentMethod;
+  transaction_id: string | null;
+  is_recurring: boolean;
+  recurring_frequency: string | null;
+  donor_name: string | null;
+  donor_email: string | null;
+  created_at: string;
+}
+
+const formatDate = (date: string | Date) =>
+  new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+
+// ============================================================================
+// LAYOUT HELPERS
+// ============================================================================
+
+/**
+ * Issuer block and document title; returns the y to continue from
+ */
+function drawHeader(page: PdfPage, org: ReceiptOrganization, title: string): number {
+  page.rect(0, 0, PAGE_WIDTH, 6, ACCENT);
+
+  let y = MARGIN + 10;
+  page.text(MARGIN, y, org.name, { size: 18, bold: true });
+  page.text(RIGHT, y, title, { size: 14, bold: true, color: ACCENT, align: 'right' });
+
+  y += 18;
+  for (const line of (org.address || '').split('\n').filter(Boolean)) {
+    page.text(MARGIN, y, line.trim(), { size: 9, color: MUTED });
+    y += 12;
+  }
+  if (org.tax_id) {
+    page.text(MARGIN, y, `Tax ID: ${org.tax_id}`, { size: 9, color: MUTED });
+    y += 12;
+  }
+  if (org.email) {
+    page.text(MARGIN, y, org.email, { size: 9, color: MUTED });
+    y += 12;
+  }
+
+  y += 10;
+  page.line(MARGIN, y, RIGHT, y);
+  return y + 24;
+}
+
+/**
+ * Label/value pairs, two columns
+ */
+function drawFields(page: PdfPage, y: number, fields: Array<[string, string]>): number {
+  fields.forEach(([label, value], index) => {
+    const x = index % 2 === 0 ? MARGIN : PAGE_WIDTH / 2 + 10;
+    const rowY = y + Math.floor(index / 2) * 34;
+    page.text(x, rowY, label.toUpperCase(), { size: 7.5, bold: true, color: MUTED });
+    page.text(x, rowY + 14, value, { size: 11 });
+  });
+  return y + Math.ceil(fields.length / 2) * 34 + 10;
+}
+
+function drawFooter(page: PdfPage, org: ReceiptOrganization, pageLabel?: string): void {
+  const note = org.note || DEFAULT_NOTE;
+  let y = 770;
+
+  // Wrap at roughly 110 characters
+  const words = note.split(/\s+/);
+  let line = '';
+  for (const word of words) {
+    if ((line + ' ' + word).length > 110) {
+      page.text(MARGIN, y, line, { size: 8, color: MUTED });
+      y += 11;
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) page.text(MARGIN, y, line, { size: 8, color: MUTED });
+
+  if (pageLabel) {
+    page.text(RIGHT, 805, pageLabel, { size: 8, color: MUTED, align: 'right' });
+  }
+}
+
+// ============================================================================
+// DOCUMENTS
+// ============================================================================
+
+/**
+ * Receipt for a single donation
+ */
+export function renderDonationReceipt(
+  donation: ReceiptDonation,
+  receipt: { receipt_number: string; generated_at: string },
+  org: ReceiptOrganization
+): Buffer {
+  const doc = createPdfDocument({ title: `Donation Receipt ${receipt.receipt_number}`, author: org.name });
+  const page = doc.addPage();
+
+  let y = drawHeader(page, org, 'Donation Receipt');
+
+  y = drawFields(page, y, [
+    ['Receipt number', receipt.receipt_number],
+    ['Date issued', formatDate(receipt.generated_at)],
+    ['Received from', donation.donor_name || 'Donor'],
+    ['Email', donation.donor_email || '-'],
+  ]);
+
+  // Donation line
+  y += 10;
+  page.rect(MARGIN, y, RIGHT - MARGIN, 22, [0.96, 0.96, 0.98]);
+  page.text(MARGIN + 8, y + 14, 'DATE', { size: 7.5, bold: true, color: MUTED });
+  page.text(MARGIN + 120, y + 14, 'DESCRIPTION', { size: 7.5, bold: true, color: MUTED });
+  page.text(RIGHT - 8, y + 14, 'AMOUNT', { size: 7.5, bold: true, color: MUTED, align: 'right' });
+
+  y += 40;
+  const description = donation.is_recurring
+    ? `Recurring donation${donation.recurring_frequency ? ` (${donation.recurring_frequency})` : ''}`
+    : 'One-time donation';
+  page.text(MARGIN + 8, y, formatDate(donation.created_at), { size: 10 });
+  page.text(MARGIN + 120, y, description, { size: 10 });
+  page.text(RIGHT - 8, y, formatDonationAmount(Number(donation.amount), donation.currency), {
+    size: 10,
+    align: 'right',
+  });
+
+  y += 16;
+  const method = PAYMENT_METHOD_LABELS[donation.payment_method] ?? donation.payment_method;
+  page.text(
+    MARGIN + 120,
+    y,
+    donation.transaction_id ? `${method} - transaction ${donation.transaction_id}` : method,
+    { size: 8.5, color: MUTED }
+  );
+
+  y += 18;
+  page.line(MARGIN, y, RIGHT, y);
+  y += 22;
+  page.text(RIGHT - 150, y, 'Total received', { size: 11, bold: true });
+  page.text(RIGHT - 8, y, `${formatDonationAmount(Number(donation.amount), donation.currency)} ${donation.currency}`, {
+    size: 11,
+    bold: true,
+    align: 'right',
+  });
+
+  y += 50;
+  page.text(MARGIN, y, `Thank you for supporting ${org.name}.`, { size: 11, color: ACCENT });
+
+  drawFooter(page, org);
+  return doc.toBuffer();
+}
+
+/**
+ * Consolidated statement of a donor's completed donations in a year
+ */
+export async function renderAnnualStatement(
+  statement: DonationAnnualStatement,
+  donor: { name: string | null; email: string | null },
+  org: ReceiptOrganization
+): Promise<Buffer> {
+  const result = await pool.query<{
+    created_at: string;
+    amount: string;
+    currency: string;
+    payment_method: PaymentMethod;
+    is_recurring: boolean;
+    receipt_number: string | null;
+  }>(
+    `SELECT d.created_at, d.amount, d.currency, d.payment_method, d.is_recurring,
+            (SELECT r.receipt_number FROM donation_receipts r
+             WHERE r.donation_id = d.id ORDER BY r.generated_at LIMIT 1) AS receipt_number
+     FROM donations d
+     WHERE d.user_id = $1 AND d.status = 'completed'
+       AND d.created_at >= make_date($2, 1, 1) AND d.created_at < make_date($2 + 1, 1, 1)
+     ORDER BY d.created_at ASC`,
+    [statement.user_id, statement.year]
+  );
+
+  const title = `Donation Statement ${statement.year}`;
+  const doc = createPdfDocument({ title: `${title} (${statement.statement_number})`, author: org.name });
+  const rows = result.rows;
+  const pageCount = Math.max(1, Math.ceil(rows.length / ROWS_PER_PAGE));
+
+  for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+    const page = doc.addPage();
+    let y = drawHeader(page, org, title);
+
+    if (pageIndex === 0) {
+      y = drawFields(page, y, [
+        ['Statement number', statement.statement_number],
+        ['Period', `January 1 - December 31, ${statement.year}`],
+        ['Donor', donor.name || 'Donor'],
+        ['Email', donor.email || '-'],
+      ]);
+    }
+
+    page.rect(MARGIN, y, RIGHT - MARGIN, 22, [0.96, 0.96, 0.98]);
+    page.text(MARGIN + 8, y + 14, 'DATE', { size: 7.5, bold: true, color: MUTED });
+    page.text(MARGIN + 130, y + 14, 'RECEIPT', { size: 7.5, bold: true, color: MUTED });
+    page.text(MARGIN + 250, y + 14, 'METHOD', { size: 7.5, bold: true, color: MUTED });
+    page.text(RIGHT - 8, y + 14, 'AMOUNT', { size: 7.5, bold: true, color: MUTED, align: 'right' });
+    y += 40;
+
+    for (const row of rows.slice(pageIndex * ROWS_PER_PAGE, (pageIndex + 1) * ROWS_PER_PAGE)) {
+      const method = PAYMENT_METHOD_LABELS[row.payment_method] ?? row.payment_method;
+      page.text(MARGIN + 8, y, formatDate(row.created_at), { size: 9.5 });
+      page.text(MARGIN + 130, y, row.receipt_number || '-', { size: 9.5 });
+      page.text(MARGIN + 250, y, row.is_recurring ? `${method}, recurring` : method, { size: 9.5 });
+      page.text(RIGHT - 8, y, formatDonationAmount(Number(row.amount), row.currency), {
+        size: 9.5,
+        align: 'right',
+      });
+      y += 18;
+    }
+
+    if (pageIndex === pageCount - 1) {
+      y += 4;
+      page.line(MARGIN, y, RIGHT, y);
+      y += 22;
+      page.text(MARGIN + 8, y, `${statement.donation_count} donation${statement.donation_count === 1 ? '' : 's'}`, {
+        size: 10,
+        color: MUTED,
+      });
+      for (const [currency, total] of Object.entries(statement.totals)) {
+        page.text(RIGHT - 160, y, `Total (${currency})`, { size: 11, bold: true });
+        page.text(RIGHT - 8, y, formatDonationAmount(total, currency), { size: 11, bold: true, align: 'right' });
+        y += 18;
+      }
+    }
+
+    drawFooter(page, org, pageCount > 1 ? `Page ${pageIndex + 1} of ${pageCount}` : undefined);
+  }
+
+  return doc.toBuffer();
+}
@@ -2,7 +2,7 @@
  * Donation Server Utilities
  *
  * Server-side functions for donation management including
- * PayPal integration, badge updates, and receipt generation.
+ * provider payments, campaigns, badge updates, and receipt generation.
  */
 
 import { pool } from '@/lib/db';
@@ -15,6 +15,12 @@ import type {
   DonorWallItem,
   DonorBadgeTier,
   PaymentMethod,
+  PaymentProviderId,
+  DonationAnnualStatement,
+  DonationCampaign,
+  DonationCampaignProgress,
+  DonationCampaignStats,
+  ReceiptOrganization,
 } from './types';
 
 // ============================================================================
@@ -27,6 +33,9 @@ export async function createDonation(data: {
   currency?: string;
   payment_method: PaymentMethod;
   paypal_order_id?: string;
+  provider_checkout_id?: string;
+  subscription_id?: string;
+  campaign_id?: string;
   is_recurring?: boolean;
   recurring_frequency?: string;
   donor_name?: string;
@@ -39,9 +48,10 @@ export async function createDonation(data: {
   const result = await pool.query(
     `INSERT INTO donations (
       user_id, amount, currency, payment_method, paypal_order_id,
+      provider_checkout_id, subscription_id, campaign_id,
       is_recurring, recurring_frequency, donor_name, donor_email,
       is_anonymous, message, ip_address, user_agent, status
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, 'pending')
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, 'pending')
     RETURNING *`,
     [
       data.user_id || null,
@@ -49,6 +59,9 @@ export async function createDonation(data: {
       data.currency || 'USD',
       data.payment_method,
       data.paypal_order_id || null,
+      data.provider_checkout_id || null,
+      data.subscription_id || null,
+      data.campaign_id || null,
       data.is_recurring || false,
       data.recurring_frequency || null,
       data.donor_name || null,
@@ -62,6 +75,10 @@ export async function createDonation(data: {
   return result.rows[0];
 }
 
+/**
+ * Settle a pending donation. Returns null if it isn't pending any more, e.g.
+ * because a provider webhook completed it first.
+ */
 export async function updateDonationStatus(
   donationId: string,
   status: string,
@@ -83,7 +100,7 @@ export async function updateDonationStatus(
          donor_email = COALESCE(donor_email, $5),
          donor_name = COALESCE(donor_name, $6),
          updated_at = NOW()
-     WHERE id = $1
+     WHERE id = $1 AND status = 'pending'
      RETURNING *`,
     [donationId, status, transactionId || null, paypalPayerId || null, paypalPayerEmail || null, paypalPayerName || null]
   );
@@ -98,6 +115,86 @@ export async function getDonationByPayPalOrderId(orderId: string): Promise<Donat
   return result.rows[0] || null;
 }
 
+/**
+ * Find the donation started by a provider checkout. Recurring checkouts are
+ * also matched on the subscription ID, which PayPal returns to the donor.
+ */
+export async function getDonationByCheckoutId(
+  provider: PaymentProviderId,
+  checkoutId: string
+): Promise<Donation | null> {
+  const result = await pool.query(
+    `SELECT * FROM donations
+     WHERE payment_method = $1
+       AND (provider_checkout_id = $2 OR paypal_order_id = $2 OR subscription_id = $2)
+     ORDER BY created_at ASC
+     LIMIT 1`,
+    [provider, checkoutId]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Record the outcome of a provider payment. Payer details fill in donor
+ * info the account didn't provide; PayPal's also go to the paypal_* columns.
+ * Only pending donations are updated, so returns null when the donation was
+ * already settled (e.g. concurrently by the provider webhook) - callers must
+ * then skip the completion side effects.
+ */
+export async function recordProviderPayment(
+  donationId: string,
+  provider: PaymentProviderId,
+  payment: {
+    status: 'completed' | 'failed' | 'pending';
+    transactionId?: string;
+    subscriptionId?: string;
+    payerId?: string;
+    payerEmail?: string;
+    payerName?: string;
+  }
+): Promise<Donation | null> {
+  if (provider === 'paypal') {
+    const updated = await updateDonationStatus(
+      donationId,
+      payment.status,
+      payment.transactionId,
+      payment.payerId,
+      payment.payerEmail,
+      payment.payerName
+    );
+    if (updated && payment.subscriptionId && !updated.subscription_id) {
+      await pool.query('UPDATE donations SET subscription_id = $2 WHERE id = $1', [
+        donationId,
+        payment.subscriptionId,
+      ]);
+    }
+    return updated;
+  }
+
+  const result = await pool.query(
+    `UPDATE donations
+     SET status = $2,
+         transaction_id = COALESCE($3, transaction_id),
+         subscription_id = COALESCE(subscription_id, $4),
+         donor_email = COALESCE(donor_email, $5),
+         donor_name = COALESCE(donor_name, $6),
+         metadata = COALESCE(metadata, '{}'::JSONB) || jsonb_strip_nulls(jsonb_build_object('payer_id', $7::TEXT)),
+         updated_at = NOW()
+     WHERE id = $1 AND status = 'pending'
+     RETURNING *`,
+    [
+      donationId,
+      payment.status,
+      payment.transactionId || null,
+      payment.subscriptionId || null,
+      payment.payerEmail || null,
+      payment.payerName || null,
+      payment.payerId || null,
+    ]
+  );
+  return result.rows[0] || null;
+}
+
 export async function getDonationById(id: string): Promise<Donation | null> {
   const result = await pool.query('SELECT * FROM donations WHERE id = $1', [id]);
   return result.rows[0] || null;
@@ -245,7 +342,10 @@ export async function getDonationSettings(): Promise<DonationSettings> {
 
   return {
     paypal_enabled: settings.paypal_enabled !== false,
+    stripe_enabled: settings.stripe_enabled === true,
     bank_transfer_enabled: settings.bank_transfer_enabled !== false,
+    default_payment_provider:
+      settings.default_payment_provider === 'stripe' ? 'stripe' : 'paypal',
     preset_amounts: (settings.preset_amounts as number[]) || [5, 10, 25, 50, 100],
     minimum_amount: Number(settings.minimum_amount) || 1,
     maximum_amount: Number(settings.maximum_amount) || 10000,
@@ -253,6 +353,7 @@ export async function getDonationSettings(): Promise<DonationSettings> {
     donor_wall_enabled: settings.donor_wall_enabled !== false,
     tax_receipts_enabled: settings.tax_receipts_enabled !== false,
     thank_you_email_enabled: settings.thank_you_email_enabled !== false,
+    receipt_organization: (settings.receipt_organization as Partial<ReceiptOrganization>) || {},
     badge_thresholds: (settings.badge_thresholds as Record<DonorBadgeTier, number>) || {
       bronze: 10,
       silver: 50,
@@ -318,7 +419,7 @@ export async function getDonationStats(): Promise<DonationStats> {
 
   const stats = statsResult.rows[0];
   const byTier: Record<DonorBadgeTier, number> = { bronze: 0, silver: 0, gold: 0, platinum: 0 };
-  const byMethod: Record<PaymentMethod, number> = { paypal: 0, bank_transfer: 0, other: 0 };
+  const byMethod: Record<PaymentMethod, number> = { paypal: 0, stripe: 0, bank_transfer: 0, other: 0 };
 
   for (const row of tierResult.rows) {
     byTier[row.tier as DonorBadgeTier] = parseInt(row.count);
@@ -340,28 +441,374 @@ export async function getDonationStats(): Promise<DonationStats> {
   };
 }
 
+// ============================================================================
+// CAMPAIGNS
+// ============================================================================
+
+// Campaign columns plus its donation totals
+const CAMPAIGN_PROGRESS_SELECT = `
+  SELECT
+    c.*,
+    COALESCE(t.raised_amount, 0) as raised_amount,
+    COALESCE(t.donation_count, 0) as donation_count,
+    COALESCE(t.donor_count, 0) as donor_count,
+    COALESCE(t.pending_amount, 0) as pending_amount,
+    COALESCE(t.recurring_donations, 0) as recurring_donations,
+    COALESCE(t.average_donation, 0) as average_donation,
+    t.last_donation_at,
+    (c.is_active AND c.starts_at <= NOW() AND (c.ends_at IS NULL OR c.ends_at > NOW())) as is_open
+  FROM donation_campaigns c
+  LEFT JOIN LATERAL (
+    SELECT
+      SUM(amount) FILTER (WHERE status = 'completed') as raised_amount,
+      COUNT(*) FILTER (WHERE status = 'completed') as donation_count,
+      COUNT(DISTINCT COALESCE(user_id, donor_email, id::TEXT)) FILTER (WHERE status = 'completed') as donor_count,
+      SUM(amount) FILTER (WHERE status = 'pending') as pending_amount,
+      COUNT(*) FILTER (WHERE status = 'completed' AND is_recurring) as recurring_donations,
+      AVG(amount) FILTER (WHERE status = 'completed') as average_donation,
+      MAX(created_at) FILTER (WHERE status = 'completed') as last_donation_at
+    FROM donations
+    WHERE campaign_id = c.id
+  ) t ON TRUE
+`;
+
+function toCampaignStats(row: Record<string, unknown>): DonationCampaignStats {
+  const target = parseFloat(String(row.target_amount));
+  const raised = parseFloat(String(row.raised_amount));
+  return {
+    id: row.id as string,
+    slug: row.slug as string,
+    title: row.title as string,
+    description: row.description as string | null,
+    target_amount: target,
+    currency: row.currency as string,
+    starts_at: row.starts_at as string,
+    ends_at: row.ends_at as string | null,
+    is_featured: row.is_featured as boolean,
+    is_active: row.is_active as boolean,
+    is_open: row.is_open as boolean,
+    raised_amount: raised,
+    donation_count: parseInt(String(row.donation_count)),
+    donor_count: parseInt(String(row.donor_count)),
+    percent_funded: target > 0 ? Math.min(100, Math.round((raised / target) * 100)) : 0,
+    pending_amount: parseFloat(String(row.pending_amount)),
+    recurring_donations: parseInt(String(row.recurring_donations)),
+    average_donation: parseFloat(String(row.average_donation)),
+    last_donation_at: row.last_donation_at as string | null,
+  };
+}
+
+function toCampaignProgress(row: Record<string, unknown>): DonationCampaignProgress {
+  const {
+    is_active: _isActive,
+    pending_amount: _pendingAmount,
+    recurring_donations: _recurringDonations,
+    average_donation: _averageDonation,
+    last_donation_at: _lastDonationAt,
+    ...progress
+  } = toCampaignStats(row);
+  return progress;
+}
+
+export async function getCampaignById(id: string): Promise<DonationCampaign | null> {
+  const result = await pool.query('SELECT * FROM donation_campaigns WHERE id = $1', [id]);
+  return result.rows[0] || null;
+}
+
+/**
+ * A campaign that is taking donations right now, or null
+ */
+export async function getOpenCampaign(id: string): Promise<DonationCampaign | null> {
+  const result = await pool.query(
+    `SELECT * FROM donation_campaigns
+     WHERE id = $1 AND is_active = TRUE
+       AND starts_at <= NOW() AND (ends_at IS NULL OR ends_at > NOW())`,
+    [id]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * Open campaigns with their progress, featured first, then by deadline
+ */
+export async function getActiveCampaigns(): Promise<DonationCampaignProgress[]> {
+  const result = await pool.query(
+    `${CAMPAIGN_PROGRESS_SELECT}
+     WHERE c.is_active = TRUE
+       AND c.starts_at <= NOW() AND (c.ends_at IS NULL OR c.ends_at > NOW())
+     ORDER BY c.is_featured DESC, c.ends_at ASC NULLS LAST, c.created_at DESC`
+  );
+  return result.rows.map(toCampaignProgress);
+}
+
+/**
+ * Every campaign with its totals, for the donations dashboard
+ */
+export async function getCampaignStats(): Promise<DonationCampaignStats[]> {
+  const result = await pool.query(
+    `${CAMPAIGN_PROGRESS_SELECT}
+     ORDER BY c.is_active DESC, c.created_at DESC`
+  );
+  return result.rows.map(toCampaignStats);
+}
+
+export async function createCampaign(
+  data: {
+    slug: string;
+    title: string;
+    description?: string | null;
+    target_amount: number;
+    currency?: string;
+    starts_at?: string | null;
+    ends_at?: string | null;
+    is_featured?: boolean;
+  },
+  createdBy: string
+): Promise<DonationCampaign> {
+  const result = await pool.query(
+    `INSERT INTO donation_campaigns (
+      slug, title, description, target_amount, currency,
+      starts_at, ends_at, is_featured, created_by
+    ) VALUES ($1, $2, $3, $4, $5, COALESCE($6, NOW()), $7, $8, $9)
+    RETURNING *`,
+    [
+      data.slug,
+      data.title,
+      data.description || null,
+      data.target_amount,
+      data.currency || 'USD',
+      data.starts_at || null,
+      data.ends_at || null,
+      data.is_featured || false,
+      createdBy,
+    ]
+  );
+  return result.rows[0];
+}
+
+export async function updateCampaign(
+  id: string,
+  data: Partial<Pick<
+    DonationCampaign,
+    'title' | 'description' | 'target_amount' | 'ends_at' | 'is_active' | 'is_featured'
+  >>
+): Promise<DonationCampaign | null> {
+  // ends_at may be cleared, so it is only touched when present
+  const result = await pool.query(
+    `UPDATE donation_campaigns
+     SET title = COALESCE($2, title),
+         description = COALESCE($3, description),
+         target_amount = COALESCE($4, target_amount),
+         ends_at = CASE WHEN $5 THEN $6::TIMESTAMPTZ ELSE ends_at END,
+         is_active = COALESCE($7, is_active),
+         is_featured = COALESCE($8, is_featured),
+         updated_at = NOW()
+     WHERE id = $1
+     RETURNING *`,
+    [
+      id,
+      data.title ?? null,
+      data.description ?? null,
+      data.target_amount ?? null,
+      'ends_at' in data,
+      data.ends_at ?? null,
+      data.is_active ?? null,
+      data.is_featured ?? null,
+    ]
+  );
+  return result.rows[0] || null;
+}
+
+/**
+ * All donations made to a campaign, newest first (for CSV export)
+ */
+export async function getCampaignDonations(campaignId: string): Promise<Array<Donation & { user_name: string | null; receipt_number: string | null }>> {
+  const result = await pool.query(
+    `SELECT d.*, u.name as user_name,
+            (SELECT r.receipt_number FROM donation_receipts r
+             WHERE r.donation_id = d.id ORDER BY r.generated_at LIMIT 1) as receipt_number
+     FROM donations d
+     LEFT JOIN "user" u ON u.id = d.user_id
+     WHERE d.campaign_id = $1
+     ORDER BY d.created_at DESC`,
+    [campaignId]
+  );
+  return result.rows;
+}
+
 // ============================================================================
 // RECEIPTS
 // ============================================================================
 
+/**
+ * Where a donation's PDF receipt is served from (rendered on request)
+ */
+export function getReceiptUrl(donationId: string): string {
+  return `/api/donations/receipts/${donationId}`;
+}
+
+/**
+ * Issue a receipt for a completed donation. Safe to call again: the
+ * existing receipt number is returned.
+ */
 export async function createDonationReceipt(donationId: string): Promise<string> {
-  // Generate receipt number using the database function
-  const numberResult = await pool.query('SELECT generate_receipt_number() as receipt_number');
-  const receiptNumber = numberResult.rows[0].receipt_number;
+  const existing = await getReceiptByDonationId(donationId);
+  if (existing) return existing.receipt_number;
+
+  // Numbered in the same statement so generate_receipt_number()'s lock
+  // covers the insert; a concurrent call for this donation inserts nothing
+  const inserted = await pool.query(
+    `INSERT INTO donation_receipts (donation_id, receipt_number, pdf_url)
+     VALUES ($1, generate_receipt_number(), $2)
+     ON CONFLICT (donation_id) DO NOTHING
+     RETURNING receipt_number`,
+    [donationId, getReceiptUrl(donationId)]
+  );
+  if (inserted.rows[0]) return inserted.rows[0].receipt_number;
+
+  const receipt = await getReceiptByDonationId(donationId);
+  if (!receipt) throw new Error(`Receipt for donation ${donationId} not found`);
+  return receipt.receipt_number;
+}
+
+export async function getReceiptByDonationId(donationId: string): Promise<{ receipt_number: string; pdf_url: string | null; generated_at: string } | null> {
+  const result = await pool.query(
+    'SELECT receipt_number, pdf_url, generated_at FROM donation_receipts WHERE donation_id = $1',
+    [donationId]
+  );
+  return result.rows[0] || null;
+}
 
+export async function recordReceiptDownload(donationId: string): Promise<void> {
   await pool.query(
-    `INSERT INTO donation_receipts (donation_id, receipt_number)
-     VALUES ($1, $2)`,
-    [donationId, receiptNumber]
+    `UPDATE donation_receipts
+     SET downloaded_at = NOW(), download_count = download_count + 1
+     WHERE donation_id = $1`,
+    [donationId]
   );
+}
 
-  return receiptNumber;
+/**
+ * Issuer details for receipts: donation settings first, then the primary
+ * bank account holder
+ */
+export async function getReceiptOrganization(): Promise<ReceiptOrganization> {
+  const [settings, bankAccounts] = await Promise.all([
+    getDonationSettings(),
+    getActiveBankInfo(),
+  ]);
+  const configured = settings.receipt_organization;
+  const bank = bankAccounts[0];
+
+  return {
+    name: configured.name || bank?.account_holder || 'Claude Insider',
+    address: configured.address || bank?.bank_address || null,
+    tax_id: configured.tax_id || null,
+    email: configured.email || null,
+    note: configured.note || null,
+  };
 }
 
-export async function getReceiptByDonationId(donationId: string): Promise<{ receipt_number: string; pdf_url: string | null } | null> {
+// ============================================================================
+// ANNUAL STATEMENTS
+// ============================================================================
+
+export function getStatementUrl(year: number): string {
+  return `/api/donations/statements/${year}`;
+}
+
+/**
+ * Create or refresh a donor's statement for a year. Returns null if they
+ * have no completed donations in it.
+ */
+export async function createAnnualStatement(
+  userId: string,
+  year: number
+): Promise<DonationAnnualStatement | null> {
+  const totalsResult = await pool.query<{ currency: string; total: string; count: string }>(
+    `SELECT currency, SUM(amount) AS total, COUNT(*) AS count
+     FROM donations
+     WHERE user_id = $1 AND status = 'completed'
+       AND created_at >= make_date($2, 1, 1) AND created_at < make_date($2 + 1, 1, 1)
+     GROUP BY currency`,
+    [userId, year]
+  );
+
+  if (totalsResult.rows.length === 0) return null;
+
+  const totals: Record<string, number> = {};
+  let donationCount = 0;
+  for (const row of totalsResult.rows) {
+    totals[row.currency] = Number(row.total);
+    donationCount += parseInt(row.count);
+  }
+
   const result = await pool.query(
-    'SELECT receipt_number, pdf_url FROM donation_receipts WHERE donation_id = $1',
-    [donationId]
+    `INSERT INTO donation_annual_statements (user_id, year, statement_number, totals, donation_count)
+     VALUES ($1, $2, generate_statement_number($2), $3, $4)
+     ON CONFLICT (user_id, year) DO UPDATE
+       SET totals = EXCLUDED.totals,
+           donation_count = EXCLUDED.donation_count,
+           generated_at = NOW()
+     RETURNING *`,
+    [userId, year, JSON.stringify(totals), donationCount]
+  );
+
+  return result.rows[0];
+}
+
+export async function getAnnualStatement(
+  userId: string,
+  year: number
+): Promise<DonationAnnualStatement | null> {
+  const result = await pool.query(
+    'SELECT * FROM donation_annual_statements WHERE user_id = $1 AND year = $2',
+    [userId, year]
   );
   return result.rows[0] || null;
 }
+
+export async function getUserAnnualStatements(userId: string): Promise<DonationAnnualStatement[]> {
+  const result = await pool.query(
+    'SELECT * FROM donation_annual_statements WHERE user_id = $1 ORDER BY year DESC',
+    [userId]
+  );
+  return result.rows;
+}
+
+/**
+ * Completed years in which a donor has completed donations
+ */
+export async function getUserStatementYears(userId: string): Promise<number[]> {
+  const result = await pool.query<{ year: number }>(
+    `SELECT DISTINCT EXTRACT(YEAR FROM created_at)::INTEGER AS year
+     FROM donations
+     WHERE user_id = $1 AND status = 'completed'
+       AND created_at < date_trunc('year', NOW())
+     ORDER BY year DESC`,
+    [userId]
+  );
+  return result.rows.map((row) => row.year);
+}
+
+export async function recordStatementDownload(statementId: string): Promise<void> {
+  await pool.query(
+    `UPDATE donation_annual_statements
+     SET downloaded_at = NOW(), download_count = download_count + 1
+     WHERE id = $1`,
+    [statementId]
+  );
+}
+
+/**
+ * Donors with completed donations in a year (for the January statement run)
+ */
+export async function getDonorIdsForYear(year: number): Promise<string[]> {
+  const result = await pool.query<{ user_id: string }>(
+    `SELECT DISTINCT user_id FROM donations
+     WHERE user_id IS NOT NULL AND status = 'completed'
+       AND created_at >= make_date($1, 1, 1) AND created_at < make_date($1 + 1, 1, 1)`,
+    [year]
+  );
+  return result.rows.map((row) => row.user_id);
+}
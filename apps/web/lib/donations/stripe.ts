@@ -0,0 +1,355 @@
+/**
+ * Stripe Integration Client
+ *
+ * Server-side Stripe REST API client for processing donations.
+ * Uses Stripe Checkout for one-time payments and subscriptions, so card
+ * details never touch our servers. Requests are form-encoded as the
+ * Stripe API expects.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { RecurringFrequency } from './types';
+
+const STRIPE_API_BASE = 'https://api.stripe.com/v1';
+
+/** Reject webhook signatures older than this (replay protection) */
+const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/** Currencies Stripe takes in whole units rather than cents */
+const ZERO_DECIMAL_CURRENCIES = new Set([
+  'BIF', 'CLP', 'DJF', 'GNF', 'JPY', 'KMF', 'KRW', 'MGA',
+  'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF',
+]);
+
+interface StripeCheckoutSession {
+  id: string;
+  url: string | null;
+  mode: 'payment' | 'subscription' | 'setup';
+  status: 'open' | 'complete' | 'expired';
+  payment_status: 'paid' | 'unpaid' | 'no_payment_required';
+  payment_intent: string | null;
+  subscription: string | StripeSubscription | null;
+  customer: string | null;
+  customer_details: { email: string | null; name: string | null } | null;
+  amount_total: number | null;
+  currency: string | null;
+}
+
+interface StripeSubscription {
+  id: string;
+  status: 'incomplete' | 'incomplete_expired' | 'trialing' | 'active' | 'past_due' | 'canceled' | 'unpaid' | 'paused';
+  current_period_end?: number;
+  items?: { data: Array<{ current_period_end?: number }> };
+}
+
+type FormValue = string | number | boolean | undefined | null | FormObject | FormValue[];
+interface FormObject {
+  [key: string]: FormValue;
+}
+
+// ============================================================================
+// REQUEST HELPERS
+// ============================================================================
+
+/**
+ * Encode nested params the way Stripe expects: a[b][0][c]=value
+ */
+function toFormBody(params: FormObject): string {
+  const pairs: string[] = [];
+
+  const append = (key: string, value: FormValue) => {
+    if (value === undefined || value === null) return;
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => append(`${key}[${index}]`, item));
+    } else if (typeof value === 'object') {
+      for (const [childKey, childValue] of Object.entries(value)) {
+        append(`${key}[${childKey}]`, childValue);
+      }
+    } else {
+      pairs.push(`${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`);
+    }
+  };
+
+  for (const [key, value] of Object.entries(params)) {
+    append(key, value);
+  }
+
+  return pairs.join('&');
+}
+
+async function stripeRequest<T>(
+  method: 'GET' | 'POST' | 'DELETE',
+  path: string,
+  params?: FormObject,
+  idempotencyKey?: string
+): Promise<T> {
+  const secretKey = process.env.STRIPE_SECRET_KEY;
+  if (!secretKey) {
+    throw new Error('Stripe credentials not configured. Set STRIPE_SECRET_KEY.');
+  }
+
+  const query = method === 'GET' && params ? `?${toFormBody(params)}` : '';
+
+  const response = await fetch(`${STRIPE_API_BASE}${path}${query}`, {
+    method,
+    headers: {
+      'Authorization': `Bearer ${secretKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      ...(idempotencyKey && { 'Idempotency-Key': idempotencyKey }),
+    },
+    body: method !== 'GET' && params ? toFormBody(params) : undefined,
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Stripe request ${method} ${path} failed: ${error}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Convert an amount to Stripe's smallest currency unit
+ */
+export function toStripeAmount(amount: number, currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.has(currency.toUpperCase())
+    ? Math.round(amount)
+    : Math.round(amount * 100);
+}
+
+/**
+ * Convert a Stripe amount back to a decimal amount
+ */
+export function fromStripeAmount(amount: number, currency: string): number {
+  return ZERO_DECIMAL_CURRENCIES.has(currency.toUpperCase()) ? amount : amount / 100;
+}
+
+// ============================================================================
+// CHECKOUT
+// ============================================================================
+
+const FREQUENCY_INTERVALS: Record<RecurringFrequency, { interval: 'month' | 'year'; interval_count: number }> = {
+  monthly: { interval: 'month', interval_count: 1 },
+  quarterly: { interval: 'month', interval_count: 3 },
+  yearly: { interval: 'year', interval_count: 1 },
+};
+
+/**
+ * Create a Stripe Checkout session for a one-time or recurring donation.
+ * `{CHECKOUT_SESSION_ID}` in the success URL is filled in by Stripe.
+ */
+export async function createStripeCheckoutSession(params: {
+  amount: number;
+  currency: string;
+  description: string;
+  successUrl: string;
+  cancelUrl: string;
+  customerEmail?: string;
+  frequency?: RecurringFrequency;
+}): Promise<{ sessionId: string; url: string }> {
+  const currency = params.currency.toLowerCase();
+  const isRecurring = Boolean(params.frequency);
+
+  const session = await stripeRequest<StripeCheckoutSession>(
+    'POST',
+    '/checkout/sessions',
+    {
+      mode: isRecurring ? 'subscription' : 'payment',
+      success_url: params.successUrl,
+      cancel_url: params.cancelUrl,
+      customer_email: params.customerEmail,
+      submit_type: isRecurring ? undefined : 'donate',
+      line_items: [
+        {
+          quantity: 1,
+          price_data: {
+            currency,
+            unit_amount: toStripeAmount(params.amount, params.currency),
+            product_data: { name: params.description },
+            recurring: params.frequency ? FREQUENCY_INTERVALS[params.frequency] : undefined,
+          },
+        },
+      ],
+      payment_intent_data: isRecurring ? undefined : { description: params.description },
+    },
+    `checkout-${Date.now()}-${Math.random().toString(36).slice(2)}`
+  );
+
+  if (!session.url) {
+    throw new Error('Stripe checkout session missing URL');
+  }
+
+  return { sessionId: session.id, url: session.url };
+}
+
+/**
+ * Get a Checkout session with its subscription (for verification)
+ */
+export async function getStripeCheckoutSession(sessionId: string): Promise<{
+  id: string;
+  mode: StripeCheckoutSession['mode'];
+  status: 'completed' | 'failed' | 'pending';
+  paymentIntentId?: string;
+  subscriptionId?: string;
+  subscriptionStatus?: StripeSubscription['status'];
+  nextBillingTime?: string;
+  customerId?: string;
+  customerEmail?: string;
+  customerName?: string;
+  amount?: number;
+  currency?: string;
+}> {
+  const session = await stripeRequest<StripeCheckoutSession>(
+    'GET',
+    `/checkout/sessions/${encodeURIComponent(sessionId)}`,
+    { expand: ['subscription'] }
+  );
+
+  const subscription = typeof session.subscription === 'object' ? session.subscription : null;
+  const periodEnd = subscription?.items?.data[0]?.current_period_end ?? subscription?.current_period_end;
+
+  let status: 'completed' | 'failed' | 'pending' = 'pending';
+  if (session.payment_status === 'paid' || session.payment_status === 'no_payment_required') {
+    status = 'completed';
+  } else if (session.status === 'expired') {
+    status = 'failed';
+  }
+
+  const currency = session.currency?.toUpperCase();
+
+  return {
+    id: session.id,
+    mode: session.mode,
+    status,
+    paymentIntentId: session.payment_intent ?? undefined,
+    subscriptionId: subscription?.id ?? (typeof session.subscription === 'string' ? session.subscription : undefined),
+    subscriptionStatus: subscription?.status,
+    nextBillingTime: periodEnd ? new Date(periodEnd * 1000).toISOString() : undefined,
+    customerId: session.customer ?? undefined,
+    customerEmail: session.customer_details?.email ?? undefined,
+    customerName: session.customer_details?.name ?? undefined,
+    amount: session.amount_total !== null && currency
+      ? fromStripeAmount(session.amount_total, currency)
+      : undefined,
+    currency,
+  };
+}
+
+/**
+ * Check if Stripe is properly configured
+ */
+export function isStripeConfigured(): boolean {
+  return !!process.env.STRIPE_SECRET_KEY;
+}
+
+// ============================================================================
+// SUBSCRIPTIONS AND REFUNDS
+// ============================================================================
+
+/**
+ * Cancel a Stripe subscription immediately
+ */
+export async function cancelStripeSubscription(
+  subscriptionId: string,
+  reason: string = 'Cancelled by user'
+): Promise<void> {
+  await stripeRequest('DELETE', `/subscriptions/${encodeURIComponent(subscriptionId)}`, {
+    cancellation_details: { comment: reason },
+  });
+}
+
+/**
+ * Refund a payment, in full or in part. Accepts a PaymentIntent or Charge ID.
+ */
+export async function refundStripePayment(params: {
+  paymentId: string;
+  /** Idempotency key: one per refund request, so repeated partial refunds aren't merged */
+  requestId: string;
+  amount?: number;
+  currency?: string;
+  reason?: string;
+}): Promise<{ refundId: string; status: 'completed' | 'pending' | 'failed' }> {
+  const target = params.paymentId.startsWith('ch_')
+    ? { charge: params.paymentId }
+    : params.paymentId.startsWith('pi_')
+      ? { payment_intent: params.paymentId }
+      : null;
+
+  if (!target) {
+    throw new Error(`Cannot refund Stripe object ${params.paymentId}`);
+  }
+
+  const refund = await stripeRequest<{ id: string; status: string }>(
+    'POST',
+    '/refunds',
+    {
+      ...target,
+      amount: params.amount !== undefined
+        ? toStripeAmount(params.amount, params.currency || 'USD')
+        : undefined,
+      metadata: params.reason ? { reason: params.reason } : undefined,
+    },
+    `refund-${params.requestId}`
+  );
+
+  return {
+    refundId: refund.id,
+    status: refund.status === 'succeeded'
+      ? 'completed'
+      : refund.status === 'failed' || refund.status === 'canceled'
+        ? 'failed'
+        : 'pending',
+  };
+}
+
+// ============================================================================
+// WEBHOOK VERIFICATION
+// ============================================================================
+
+export interface StripeWebhookEvent {
+  id: string;
+  type: string;
+  created: number;
+  data: {
+    object: Record<string, unknown>;
+  };
+}
+
+/**
+ * Verify a Stripe-Signature header: an HMAC-SHA256 of "<timestamp>.<body>"
+ * with the endpoint's signing secret
+ */
+export function verifyStripeWebhook(params: {
+  signatureHeader: string;
+  body: string;
+  secret: string;
+}): boolean {
+  const parts = params.signatureHeader.split(',').map((part) => part.split('='));
+  const timestamp = parts.find(([key]) => key === 't')?.[1];
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value ?? '');
+
+  if (!timestamp || signatures.length === 0) return false;
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > WEBHOOK_TOLERANCE_SECONDS) return false;
+
+  const expected = createHmac('sha256', params.secret)
+    .update(`${timestamp}.${params.body}`)
+    .digest();
+
+  return signatures.some((signature) => {
+    const provided = Buffer.from(signature, 'hex');
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+  });
+}
+
+// Webhook event types we handle
+export const STRIPE_WEBHOOK_EVENTS = {
+  CHECKOUT_SESSION_COMPLETED: 'checkout.session.completed',
+  CHECKOUT_SESSION_ASYNC_PAYMENT_SUCCEEDED: 'checkout.session.async_payment_succeeded',
+  INVOICE_PAID: 'invoice.paid',
+  INVOICE_PAYMENT_FAILED: 'invoice.payment_failed',
+  SUBSCRIPTION_DELETED: 'customer.subscription.deleted',
+  SUBSCRIPTION_PAUSED: 'customer.subscription.paused',
+  CHARGE_REFUNDED: 'charge.refunded',
+} as const;
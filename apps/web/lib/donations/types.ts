@@ -1,15 +1,17 @@
 /**
  * Donation System Types
  *
- * Type definitions for the donation system including PayPal integration,
- * bank transfers, donor badges, and receipts.
+ * Type definitions for the donation system including payment providers
+ * (PayPal, Stripe), bank transfers, campaigns, donor badges, and receipts.
  */
 
 // ============================================================================
 // ENUMS
 // ============================================================================
 
-export type PaymentMethod = 'paypal' | 'bank_transfer' | 'other';
+export type PaymentMethod = 'paypal' | 'stripe' | 'bank_transfer' | 'other';
+/** Payment methods processed through a provider integration (lib/donations/providers) */
+export type PaymentProviderId = 'paypal' | 'stripe';
 export type DonationStatus = 'pending' | 'completed' | 'failed' | 'refunded' | 'cancelled';
 export type RecurringFrequency = 'monthly' | 'quarterly' | 'yearly';
 export type DonorBadgeTier = 'bronze' | 'silver' | 'gold' | 'platinum';
@@ -29,10 +31,12 @@ export interface Donation {
   paypal_payer_id: string | null;
   paypal_payer_email: string | null;  // Email from PayPal transaction
   paypal_payer_name: string | null;   // Name from PayPal transaction
+  provider_checkout_id: string | null; // Provider order / checkout session ID
   status: DonationStatus;
   is_recurring: boolean;
   recurring_frequency: RecurringFrequency | null;
   subscription_id: string | null;
+  campaign_id: string | null;         // Campaign the donation was made to
   donor_name: string | null;          // From user account (for logged-in users)
   donor_email: string | null;         // From user account (for logged-in users)
   is_anonymous: boolean;
@@ -47,6 +51,23 @@ export interface Donation {
   updated_at: string;
 }
 
+export interface DonationCampaign {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  target_amount: number;
+  currency: string;
+  starts_at: string;
+  /** Deadline; open-ended if null */
+  ends_at: string | null;
+  is_active: boolean;
+  is_featured: boolean;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface DonorBadge {
   id: string;
   user_id: string;
@@ -74,6 +95,30 @@ export interface DonationReceipt {
   created_at: string;
 }
 
+export interface DonationAnnualStatement {
+  id: string;
+  user_id: string;
+  year: number;
+  statement_number: string;
+  /** Completed donations in the year, summed per currency */
+  totals: Record<string, number>;
+  donation_count: number;
+  generated_at: string;
+  emailed_at: string | null;
+  downloaded_at: string | null;
+  download_count: number;
+}
+
+/** Issuer details printed on receipts and statements */
+export interface ReceiptOrganization {
+  name: string;
+  address: string | null;
+  tax_id: string | null;
+  email: string | null;
+  /** Footer text, e.g. tax-deductibility wording */
+  note: string | null;
+}
+
 export interface DonationBankInfo {
   id: string;
   bank_name: string;
@@ -94,7 +139,10 @@ export interface DonationBankInfo {
 
 export interface DonationSettings {
   paypal_enabled: boolean;
+  stripe_enabled: boolean;
   bank_transfer_enabled: boolean;
+  /** Provider preselected in the donation modal */
+  default_payment_provider: PaymentProviderId;
   preset_amounts: number[];
   minimum_amount: number;
   maximum_amount: number;
@@ -102,6 +150,8 @@ export interface DonationSettings {
   donor_wall_enabled: boolean;
   tax_receipts_enabled: boolean;
   thank_you_email_enabled: boolean;
+  /** Admin-provided issuer details; bank info fills any gaps */
+  receipt_organization: Partial<ReceiptOrganization>;
   badge_thresholds: Record<DonorBadgeTier, number>;
 }
 
@@ -109,29 +159,43 @@ export interface DonationSettings {
 // API REQUEST/RESPONSE TYPES
 // ============================================================================
 
-export interface CreatePayPalOrderRequest {
+export interface CreateCheckoutRequest {
+  provider?: PaymentProviderId;
   amount: number;
   currency?: string;
   is_recurring?: boolean;
   recurring_frequency?: RecurringFrequency;
   message?: string;
   is_anonymous?: boolean;
+  /** Attribute the donation to a campaign (charged in its currency) */
+  campaign_id?: string;
 }
 
-export interface CreatePayPalOrderResponse {
-  order_id: string;
+export interface CreateCheckoutResponse {
+  provider: PaymentProviderId;
+  checkout_id: string;
   approval_url: string;
 }
 
-export interface CapturePayPalOrderRequest {
-  order_id: string;
+export interface CompleteCheckoutRequest {
+  provider: PaymentProviderId;
+  checkout_id: string;
 }
 
-export interface CapturePayPalOrderResponse {
+export interface CompleteCheckoutResponse {
   donation_id: string;
   status: DonationStatus;
+  is_recurring: boolean;
+  next_billing?: string;
   badge_tier?: DonorBadgeTier;
-  badge_upgraded?: boolean;
+}
+
+/** A payment provider as offered to donors (GET /api/donations/settings) */
+export interface PaymentProviderOption {
+  id: PaymentProviderId;
+  name: string;
+  description: string;
+  supports_recurring: boolean;
 }
 
 export interface BankTransferConfirmRequest {
@@ -142,6 +206,7 @@ export interface BankTransferConfirmRequest {
   message?: string;
   is_anonymous?: boolean;
   reference_number?: string;
+  campaign_id?: string;
 }
 
 export interface DonationHistoryItem {
@@ -154,6 +219,7 @@ export interface DonationHistoryItem {
   is_anonymous: boolean;
   message: string | null;
   receipt_number: string | null;
+  receipt_url: string | null;
   created_at: string;
 }
 
@@ -168,6 +234,35 @@ export interface DonorWallItem {
   message: string | null;
 }
 
+/** A campaign with its funding progress, as shown on /donate and the donor wall */
+export interface DonationCampaignProgress {
+  id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  target_amount: number;
+  currency: string;
+  starts_at: string;
+  ends_at: string | null;
+  is_featured: boolean;
+  raised_amount: number;
+  donation_count: number;
+  donor_count: number;
+  /** raised / target, capped at 100 */
+  percent_funded: number;
+  /** Whether the campaign is still taking donations */
+  is_open: boolean;
+}
+
+/** Campaign-level figures for the donations dashboard */
+export interface DonationCampaignStats extends DonationCampaignProgress {
+  is_active: boolean;
+  pending_amount: number;
+  recurring_donations: number;
+  average_donation: number;
+  last_donation_at: string | null;
+}
+
 export interface DonationStats {
   total_amount: number;
   total_donations: number;
@@ -0,0 +1,209 @@
+/**
+ * E2EE Attachment Cryptography
+ *
+ * Files shared in conversations are encrypted in the browser before upload:
+ * - Each file (and its thumbnail) gets its own random AES-256-GCM key and IV
+ * - The ciphertext is stored as an opaque blob in the message-attachments
+ *   bucket (lib/storage.ts); the server never sees the name or type
+ * - The key, IV and ciphertext hash travel inside the Olm/Megolm message
+ *   payload (see encodeMessageContent in message-crypto.ts)
+ *
+ * Deliberately has no "use client" directive so the upload route can share
+ * ATTACHMENT_LIMITS; the crypto itself only runs in the browser.
+ */
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const ATTACHMENT_LIMITS = {
+  /** Largest file that can be attached (plaintext bytes) */
+  maxFileSize: 25 * 1024 * 1024,
+  /** Largest encrypted thumbnail accepted by the upload route */
+  maxThumbnailSize: 256 * 1024,
+  /** Attachments per message */
+  maxPerMessage: 5,
+  /** Days before an attachment's blob is deleted */
+  expiryDays: 30,
+} as const;
+
+/** Bytes AES-GCM adds to the ciphertext (auth tag) */
+export const AES_GCM_OVERHEAD = 16;
+
+/** Image types rendered inline (and thumbnailed) */
+export const INLINE_IMAGE_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+const ATTACHMENT_VERSION = 1;
+const IV_LENGTH = 12;
+const THUMBNAIL_MAX_DIMENSION = 320;
+const THUMBNAIL_QUALITY = 0.7;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Everything needed to decrypt an uploaded blob */
+export interface EncryptedAttachmentInfo {
+  v: number;
+  /** Base64 raw AES-256 key */
+  key: string;
+  /** Base64 12-byte IV */
+  iv: string;
+  /** Base64 SHA-256 of the ciphertext, checked before decrypting */
+  sha256: string;
+}
+
+export interface EncryptedAttachment {
+  ciphertext: Blob;
+  info: EncryptedAttachmentInfo;
+}
+
+export interface ImageThumbnail {
+  blob: Blob;
+  width: number;
+  height: number;
+  /** Dimensions of the original image */
+  originalWidth: number;
+  originalHeight: number;
+}
+
+// ============================================================================
+// ENCRYPTION / DECRYPTION
+// ============================================================================
+
+/**
+ * Encrypt a file with a fresh per-file key
+ */
+export async function encryptAttachment(data: Blob): Promise<EncryptedAttachment> {
+  const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, [
+    "encrypt",
+    "decrypt",
+  ]);
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv: iv.buffer as ArrayBuffer },
+    key,
+    await data.arrayBuffer()
+  );
+  const rawKey = await crypto.subtle.exportKey("raw", key);
+  const hash = await crypto.subtle.digest("SHA-256", ciphertext);
+
+  return {
+    ciphertext: new Blob([ciphertext], { type: "application/octet-stream" }),
+    info: {
+      v: ATTACHMENT_VERSION,
+      key: uint8ArrayToBase64(new Uint8Array(rawKey)),
+      iv: uint8ArrayToBase64(iv),
+      sha256: uint8ArrayToBase64(new Uint8Array(hash)),
+    },
+  };
+}
+
+/**
+ * Decrypt a downloaded blob. Throws if it was modified or the key is wrong.
+ */
+export async function decryptAttachment(
+  ciphertext: ArrayBuffer,
+  info: EncryptedAttachmentInfo,
+  mimeType = "application/octet-stream"
+): Promise<Blob> {
+  if (info.v !== ATTACHMENT_VERSION) {
+    throw new Error(`Unsupported attachment version: ${info.v}`);
+  }
+
+  const hash = uint8ArrayToBase64(
+    new Uint8Array(await crypto.subtle.digest("SHA-256", ciphertext))
+  );
+  if (hash !== info.sha256) {
+    throw new Error("Attachment hash mismatch");
+  }
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    base64ToUint8Array(info.key).buffer as ArrayBuffer,
+    "AES-GCM",
+    false,
+    ["decrypt"]
+  );
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: base64ToUint8Array(info.iv).buffer as ArrayBuffer },
+    key,
+    ciphertext
+  );
+
+  return new Blob([plaintext], { type: mimeType });
+}
+
+// ============================================================================
+// THUMBNAILS
+// ============================================================================
+
+/**
+ * Render a small JPEG preview of an image, or null if the browser can't
+ * decode it
+ */
+export async function createImageThumbnail(file: Blob): Promise<ImageThumbnail | null> {
+  if (!INLINE_IMAGE_TYPES.includes(file.type)) return null;
+
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    return null;
+  }
+
+  try {
+    const scale = Math.min(
+      1,
+      THUMBNAIL_MAX_DIMENSION / Math.max(bitmap.width, bitmap.height)
+    );
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext("2d");
+    if (!context) return null;
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    const blob = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/jpeg", THUMBNAIL_QUALITY)
+    );
+    if (!blob) return null;
+
+    return {
+      blob,
+      width,
+      height,
+      originalWidth: bitmap.width,
+      originalHeight: bitmap.height,
+    };
+  } finally {
+    bitmap.close();
+  }
+}
+
+// ============================================================================
+// UTILITY FUNCTIONS
+// ============================================================================
+
+/**
+ * Human-readable file size
+ */
+export function formatAttachmentSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function uint8ArrayToBase64(bytes: Uint8Array): string {
+  const binString = Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+  return btoa(binString);
+}
+
+function base64ToUint8Array(base64: string): Uint8Array {
+  const binString = atob(base64);
+  return Uint8Array.from(binString, (char) => char.charCodeAt(0));
+}
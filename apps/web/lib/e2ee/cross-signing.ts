@@ -0,0 +1,410 @@
+/**
+ * E2EE Cross-Signing
+ *
+ * Matrix-style cross-signing on top of per-device keys:
+ * - Master key: the user's identity; signs the two keys below
+ * - Self-signing key: signs each of the user's own devices
+ * - User-signing key: signs other users' master keys once verified
+ *
+ * Verifying a user once (SAS emoji comparison) signs their master key, and
+ * every device their self-signing key signs is trusted from then on.
+ *
+ * Private keys stay in IndexedDB (and the password-protected backup). Trust
+ * is only anchored in the local keys: signatures fetched from the server are
+ * always checked here, never taken on the server's word.
+ */
+
+"use client";
+
+import { getCrossSigningKeys, storeCrossSigningKeys } from "./key-storage";
+import {
+  deviceLogPublicKey,
+  findUnloggedDevices,
+  verifyKeyLogChain,
+  type KeyLogEntry,
+} from "./key-transparency";
+import {
+  crossSigningKeyObject,
+  deviceKeysObject,
+  generateSigningKeyPair,
+  signObject,
+  verifyObjectSignature,
+} from "./signing";
+import type { StoredCrossSigningKeys } from "./types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CrossSigningDevice {
+  deviceId: string;
+  identityKey: string;
+  signingKey: string;
+}
+
+interface PublishedCrossSigningKeys {
+  userId: string;
+  master: { publicKey: string; signatures: Record<string, string> } | null;
+  selfSigning: { publicKey: string; signatures: Record<string, string> } | null;
+  userSigning: { publicKey: string; signatures: Record<string, string> } | null;
+  devices: Array<CrossSigningDevice & { deviceName: string | null; signatures: Record<string, string> }>;
+  userSignature: { signerKeyId: string; masterKey: string; signature: string } | null;
+  trust: { masterKey: string; level: string; method: string | null } | null;
+}
+
+export interface UserTrustStatus {
+  /** The user has published valid cross-signing keys */
+  hasCrossSigning: boolean;
+  /** We've verified the user's current master key */
+  isVerified: boolean;
+  /** Current master public key, if any */
+  masterKey: string | null;
+  /** Device ID -> signed by the user's current self-signing key */
+  devices: Record<string, boolean>;
+  /** Device ID -> published keys, as deviceLogPublicKey() */
+  deviceKeys: Record<string, string>;
+}
+
+export interface KeyTransparencyResult {
+  /** The chain verified and still contains the last entry we saw */
+  valid: boolean;
+  /** Why the chain failed, if it did */
+  reason?: string;
+  /** Entries appended since the last check */
+  newEntries: KeyLogEntry[];
+  /** New entries that cross-signing doesn't account for */
+  unexpectedChanges: KeyLogEntry[];
+  /** Devices the server serves that the log doesn't account for */
+  unloggedDevices: string[];
+}
+
+// ============================================================================
+// API HELPERS
+// ============================================================================
+
+async function fetchPublishedKeys(userId: string): Promise<PublishedCrossSigningKeys> {
+  const response = await fetch(`/api/e2ee/cross-signing?userId=${encodeURIComponent(userId)}`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch cross-signing keys");
+  }
+  return response.json();
+}
+
+async function uploadSignatures(body: {
+  deviceSignatures?: Array<{ deviceId: string; signature: string }>;
+  userSignature?: { userId: string; masterKey: string; signature: string };
+}): Promise<void> {
+  const response = await fetch("/api/e2ee/cross-signing/signatures", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to upload signatures");
+  }
+}
+
+// ============================================================================
+// OWN KEYS
+// ============================================================================
+
+/**
+ * Create and publish new cross-signing keys, then sign this device with them.
+ * Replaces any published keys, which contacts will see as a master key change.
+ */
+export async function bootstrapCrossSigning(
+  userId: string,
+  device: CrossSigningDevice
+): Promise<StoredCrossSigningKeys> {
+  const [master, selfSigning, userSigning] = await Promise.all([
+    generateSigningKeyPair(),
+    generateSigningKeyPair(),
+    generateSigningKeyPair(),
+  ]);
+
+  const [selfSigningSignature, userSigningSignature] = await Promise.all([
+    signObject(master.privateKey, crossSigningKeyObject(userId, "self_signing", selfSigning.publicKey)),
+    signObject(master.privateKey, crossSigningKeyObject(userId, "user_signing", userSigning.publicKey)),
+  ]);
+
+  const response = await fetch("/api/e2ee/cross-signing", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      masterKey: { publicKey: master.publicKey },
+      selfSigningKey: { publicKey: selfSigning.publicKey, signature: selfSigningSignature },
+      userSigningKey: { publicKey: userSigning.publicKey, signature: userSigningSignature },
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to publish cross-signing keys");
+  }
+
+  const keys: StoredCrossSigningKeys = {
+    userId,
+    master,
+    selfSigning,
+    userSigning,
+    createdAt: Date.now(),
+  };
+  await storeCrossSigningKeys(keys);
+
+  await signOwnDevice(userId, device);
+  return keys;
+}
+
+/**
+ * Sign one of our devices with the local self-signing key
+ */
+export async function signOwnDevice(userId: string, device: CrossSigningDevice): Promise<boolean> {
+  const keys = await getCrossSigningKeys();
+  if (!keys || keys.userId !== userId) return false;
+
+  const signature = await signObject(keys.selfSigning.privateKey, deviceKeysObject(userId, device));
+  await uploadSignatures({ deviceSignatures: [{ deviceId: device.deviceId, signature }] });
+  return true;
+}
+
+/**
+ * Sign another of our devices after verifying it from this one
+ */
+export async function signVerifiedOwnDevice(userId: string, deviceId: string): Promise<boolean> {
+  const published = await fetchPublishedKeys(userId);
+  const device = published.devices.find((d) => d.deviceId === deviceId);
+  if (!device) return false;
+
+  return signOwnDevice(userId, device);
+}
+
+/**
+ * Make sure this device is cross-signed. Signs it if the keys are here,
+ * bootstraps if the user has never published keys, and otherwise leaves the
+ * device unsigned until the keys arrive (backup restore or self-verification).
+ */
+export async function ensureCrossSigning(userId: string, device: CrossSigningDevice): Promise<void> {
+  const local = await getCrossSigningKeys();
+  if (local && local.userId === userId) {
+    await signOwnDevice(userId, device);
+    return;
+  }
+
+  const published = await fetchPublishedKeys(userId);
+  if (!published.master) {
+    await bootstrapCrossSigning(userId, device);
+  }
+}
+
+/**
+ * Whether this browser holds the user's current cross-signing keys
+ */
+export async function hasLocalCrossSigningKeys(userId: string): Promise<boolean> {
+  const local = await getCrossSigningKeys();
+  if (!local || local.userId !== userId) return false;
+
+  const published = await fetchPublishedKeys(userId);
+  return published.master?.publicKey === local.master.publicKey;
+}
+
+// ============================================================================
+// OTHER USERS
+// ============================================================================
+
+/**
+ * Sign another user's current master key after verifying them
+ */
+export async function crossSignUser(targetUserId: string): Promise<boolean> {
+  const keys = await getCrossSigningKeys();
+  if (!keys || keys.userId === targetUserId) return false;
+
+  const published = await fetchPublishedKeys(targetUserId);
+  if (!published.master || !(await hasValidSelfSigningKey(targetUserId, published))) {
+    return false;
+  }
+
+  const signature = await signObject(
+    keys.userSigning.privateKey,
+    crossSigningKeyObject(targetUserId, "master", published.master.publicKey)
+  );
+  await uploadSignatures({
+    userSignature: { userId: targetUserId, masterKey: published.master.publicKey, signature },
+  });
+  return true;
+}
+
+async function hasValidSelfSigningKey(
+  userId: string,
+  published: PublishedCrossSigningKeys
+): Promise<boolean> {
+  if (!published.master || !published.selfSigning) return false;
+
+  const signature = published.selfSigning.signatures[published.master.publicKey];
+  if (!signature) return false;
+
+  return verifyObjectSignature(
+    published.master.publicKey,
+    crossSigningKeyObject(userId, "self_signing", published.selfSigning.publicKey),
+    signature
+  );
+}
+
+/**
+ * Work out how far we trust a user and each of their devices
+ */
+export async function getUserTrustStatus(userId: string): Promise<UserTrustStatus> {
+  const [published, local] = await Promise.all([fetchPublishedKeys(userId), getCrossSigningKeys()]);
+
+  const hasCrossSigning = await hasValidSelfSigningKey(userId, published);
+  const masterKey = published.master?.publicKey ?? null;
+
+  let isVerified = false;
+  if (hasCrossSigning && masterKey) {
+    if (local?.userId === userId) {
+      // Our own identity: trusted if it's the master key we hold
+      isVerified = local.master.publicKey === masterKey;
+    } else if (
+      local &&
+      published.userSignature?.masterKey === masterKey &&
+      published.userSignature.signerKeyId === local.userSigning.publicKey
+    ) {
+      isVerified = await verifyObjectSignature(
+        local.userSigning.publicKey,
+        crossSigningKeyObject(userId, "master", masterKey),
+        published.userSignature.signature
+      );
+    } else {
+      // Verified by SAS before our user-signing key existed on this browser
+      isVerified =
+        published.trust?.level === "verified" && published.trust.masterKey === masterKey;
+    }
+  }
+
+  const selfSigningKey = hasCrossSigning ? published.selfSigning?.publicKey : undefined;
+  const devices: Record<string, boolean> = {};
+  const deviceKeys: Record<string, string> = {};
+  for (const device of published.devices) {
+    deviceKeys[device.deviceId] = deviceLogPublicKey(device.identityKey, device.signingKey);
+    const signature = selfSigningKey ? device.signatures[selfSigningKey] : undefined;
+    devices[device.deviceId] =
+      !!selfSigningKey &&
+      !!signature &&
+      (await verifyObjectSignature(selfSigningKey, deviceKeysObject(userId, device), signature));
+  }
+
+  return { hasCrossSigning, isVerified, masterKey, devices, deviceKeys };
+}
+
+// ============================================================================
+// KEY TRANSPARENCY
+// ============================================================================
+
+const KEY_LOG_PIN_PREFIX = "e2ee-key-log-pin:";
+
+interface KeyLogPin {
+  seq: number;
+  entryHash: string;
+}
+
+function getKeyLogPin(userId: string): KeyLogPin | null {
+  try {
+    const raw = localStorage.getItem(KEY_LOG_PIN_PREFIX + userId);
+    return raw ? (JSON.parse(raw) as KeyLogPin) : null;
+  } catch {
+    return null;
+  }
+}
+
+function setKeyLogPin(userId: string, entry: KeyLogEntry | undefined): void {
+  if (!entry) return;
+  const pin: KeyLogPin = { seq: entry.seq, entryHash: entry.entryHash };
+  localStorage.setItem(KEY_LOG_PIN_PREFIX + userId, JSON.stringify(pin));
+}
+
+async function fetchKeyLog(userId: string): Promise<KeyLogEntry[]> {
+  const response = await fetch(`/api/e2ee/key-log?userId=${encodeURIComponent(userId)}`);
+  if (!response.ok) {
+    throw new Error("Failed to fetch key log");
+  }
+  const { entries } = await response.json();
+  return entries;
+}
+
+/**
+ * Check a user's key log against the last entry we saw.
+ *
+ * Master key changes and devices the user's self-signing key hasn't signed
+ * are unexpected. Expected changes (signed devices, removals) advance the
+ * pin automatically; unexpected ones wait for acknowledgeKeyChanges().
+ * The first check pins the current head (trust on first use).
+ *
+ * Devices the server serves are also compared with the log on every check:
+ * one missing from it, or with other keys, can't be acknowledged away.
+ */
+export async function checkKeyTransparency(
+  userId: string,
+  trust?: UserTrustStatus
+): Promise<KeyTransparencyResult> {
+  const entries = await fetchKeyLog(userId);
+
+  const verification = await verifyKeyLogChain(entries);
+  if (!verification.valid) {
+    return {
+      valid: false,
+      reason: `Entry ${verification.seq}: ${verification.reason}`,
+      newEntries: [],
+      unexpectedChanges: [],
+      unloggedDevices: [],
+    };
+  }
+
+  const pin = getKeyLogPin(userId);
+  if (pin) {
+    const pinned = entries[pin.seq - 1];
+    if (!pinned || pinned.entryHash !== pin.entryHash) {
+      return {
+        valid: false,
+        reason: "Key history was rewritten since the last check",
+        newEntries: [],
+        unexpectedChanges: [],
+        unloggedDevices: [],
+      };
+    }
+  }
+
+  const status = trust ?? (await getUserTrustStatus(userId));
+  const unloggedDevices = findUnloggedDevices(entries, status.deviceKeys);
+
+  if (!pin) {
+    setKeyLogPin(userId, entries[entries.length - 1]);
+    return { valid: true, newEntries: [], unexpectedChanges: [], unloggedDevices };
+  }
+
+  const newEntries = entries.slice(pin.seq);
+  const unexpectedChanges = newEntries.filter((entry) => {
+    if (entry.eventType === "cross_signing_key_changed") return entry.keyType === "master";
+    if (entry.eventType === "device_removed") return false;
+    // A device added or changed later and now gone needs no warning
+    return entry.keyId in status.devices && !status.devices[entry.keyId];
+  });
+
+  if (unexpectedChanges.length === 0) {
+    setKeyLogPin(userId, entries[entries.length - 1]);
+  }
+
+  return { valid: true, newEntries, unexpectedChanges, unloggedDevices };
+}
+
+/**
+ * Accept a user's current keys after reviewing a change
+ */
+export async function acknowledgeKeyChanges(userId: string): Promise<void> {
+  const entries = await fetchKeyLog(userId);
+  const verification = await verifyKeyLogChain(entries);
+  if (!verification.valid) {
+    throw new Error("Key log failed verification");
+  }
+  setKeyLogPin(userId, entries[entries.length - 1]);
+}
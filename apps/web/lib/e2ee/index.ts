@@ -39,6 +39,10 @@ export type {
   ClaimPrekeyResponse,
   KeyBackup,
   BackupData,
+  StoredCrossSigningKeys,
+  InboundSessionInfo,
+  StoredRoomKeyBackupKey,
+  HistoryVisibility,
   CreateBackupRequest,
   RestoreBackupRequest,
   E2EEStatus,
@@ -79,6 +83,11 @@ export {
   exportAllE2EEData,
   importE2EEData,
   getE2EEStorageStats,
+  getCrossSigningKeys,
+  storeCrossSigningKeys,
+  getRoomKeyBackupKey,
+  storeRoomKeyBackupKey,
+  updateInboundSessionInfo,
 } from "./key-storage";
 
 // Key backup
@@ -93,7 +102,11 @@ export {
   verifyBackupPassword,
   estimateBackupSize,
   formatBackupSize,
+  generateRoomKeyBackupKey,
+  encryptRoomKey,
+  decryptRoomKey,
   type PasswordStrength,
+  type RoomKeyBackupSession,
 } from "./key-backup";
 
 // Message cryptography
@@ -110,13 +123,43 @@ export {
   processInboundOlmMessage,
   getOrCreateMegolmSession,
   importMegolmSession,
+  exportMegolmSession,
+  hasInboundMegolmSession,
+  encryptSessionKeyForDevice,
   decryptMegolmMessage,
+  encodeMessageContent,
+  decodeMessageContent,
   type EncryptedMessagePayload,
   type DecryptedMessageResult,
   type SessionSharePayload,
   type DeviceInfo,
+  type MessageAttachment,
+  type MessageContent,
 } from "./message-crypto";
 
+// Room keys (key requests and server-side backup)
+export {
+  requestRoomKey,
+  answerRoomKeyRequests,
+  getOrCreateRoomKeyBackupKey,
+  backupRoomKeys,
+  restoreRoomKeys,
+} from "./room-keys";
+
+// Attachment cryptography
+export {
+  encryptAttachment,
+  decryptAttachment,
+  createImageThumbnail,
+  formatAttachmentSize,
+  ATTACHMENT_LIMITS,
+  AES_GCM_OVERHEAD,
+  INLINE_IMAGE_TYPES,
+  type EncryptedAttachmentInfo,
+  type EncryptedAttachment,
+  type ImageThumbnail,
+} from "./attachment-crypto";
+
 // Device verification
 export {
   startVerification,
@@ -132,6 +175,46 @@ export {
   type StartVerificationResult,
 } from "./device-verification";
 
+// Cross-signing
+export {
+  bootstrapCrossSigning,
+  signOwnDevice,
+  signVerifiedOwnDevice,
+  ensureCrossSigning,
+  hasLocalCrossSigningKeys,
+  crossSignUser,
+  getUserTrustStatus,
+  checkKeyTransparency,
+  acknowledgeKeyChanges,
+  type CrossSigningDevice,
+  type UserTrustStatus,
+  type KeyTransparencyResult,
+} from "./cross-signing";
+
+// Signing primitives
+export {
+  canonicalJson,
+  generateSigningKeyPair,
+  signObject,
+  verifyObjectSignature,
+  crossSigningKeyObject,
+  deviceKeysObject,
+  type SigningKeyPair,
+  type SignedCrossSigningKey,
+  type SignedDeviceKeys,
+} from "./signing";
+
+// Key transparency
+export {
+  hashKeyLogEntry,
+  verifyKeyLogChain,
+  KEY_LOG_GENESIS_HASH,
+  type KeyLogEntry,
+  type KeyLogEventType,
+  type KeyLogKeyType,
+  type KeyLogVerification,
+} from "./key-transparency";
+
 // AI consent
 export {
   getConversationAIStatus,
@@ -10,11 +10,15 @@
  * - Server never sees plaintext keys or password
  * - Salt stored with backup for recovery
  * - Auth tag prevents tampering
+ *
+ * Megolm sessions are also backed up one by one as they arrive (room key
+ * backup), encrypted with a random key that is itself carried in the
+ * password-protected backup. New devices restore group history from it.
  */
 
 "use client";
 
-import type { BackupData } from "./types";
+import type { BackupData, StoredRoomKeyBackupKey } from "./types";
 
 // ============================================================================
 // CONSTANTS
@@ -172,13 +176,17 @@ export async function createBackupData(
   accountPickle: string,
   deviceId: string,
   olmSessions: Record<string, string>,
-  megolmSessions: Record<string, import("./types").StoredMegolmSession>
+  megolmSessions: Record<string, import("./types").StoredMegolmSession>,
+  crossSigningKeys?: import("./types").StoredCrossSigningKeys,
+  roomKeyBackupKey?: StoredRoomKeyBackupKey
 ): Promise<BackupData> {
   return {
     accountPickle,
     deviceId,
     olmSessions,
     megolmSessions,
+    crossSigningKeys,
+    roomKeyBackupKey,
     createdAt: Date.now(),
     version: BACKUP_VERSION,
   };
@@ -202,6 +210,102 @@ export function validateBackupData(data: unknown): data is BackupData {
   );
 }
 
+// ============================================================================
+// ROOM KEY BACKUP
+// ============================================================================
+
+/**
+ * A Megolm session as stored in the room key backup
+ */
+export interface RoomKeyBackupSession {
+  conversationId: string;
+  sessionId: string;
+  /** Exported inbound session (see importMegolmSession) */
+  sessionKey: string;
+  createdAt: number;
+  firstKnownIndex: number;
+  forwardedCount: number;
+}
+
+/**
+ * Generate a new random room key backup key
+ */
+export async function generateRoomKeyBackupKey(): Promise<StoredRoomKeyBackupKey> {
+  const keyBytes = crypto.getRandomValues(new Uint8Array(KEY_LENGTH / 8));
+  const digest = await crypto.subtle.digest("SHA-256", keyBytes);
+
+  return {
+    key: uint8ArrayToBase64(keyBytes),
+    // First 16 bytes of the hash identify the key without revealing it
+    keyId: uint8ArrayToBase64(new Uint8Array(digest).slice(0, 16)),
+    createdAt: Date.now(),
+  };
+}
+
+async function importRoomKeyBackupKey(
+  backupKey: StoredRoomKeyBackupKey,
+  usage: "encrypt" | "decrypt"
+): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    base64ToUint8Array(backupKey.key).buffer as ArrayBuffer,
+    { name: "AES-GCM" },
+    false,
+    [usage]
+  );
+}
+
+/**
+ * Encrypt one session for the room key backup. The session ID is bound as
+ * additional data so ciphertexts can't be swapped between rows.
+ */
+export async function encryptRoomKey(
+  backupKey: StoredRoomKeyBackupKey,
+  session: RoomKeyBackupSession
+): Promise<{ encryptedSession: string; sessionIv: string }> {
+  const key = await importRoomKeyBackupKey(backupKey, "encrypt");
+  const iv = generateIV();
+
+  const ciphertext = await crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv: iv.buffer as ArrayBuffer,
+      additionalData: new TextEncoder().encode(session.sessionId),
+    },
+    key,
+    new TextEncoder().encode(JSON.stringify(session))
+  );
+
+  return {
+    encryptedSession: uint8ArrayToBase64(new Uint8Array(ciphertext)),
+    sessionIv: uint8ArrayToBase64(iv),
+  };
+}
+
+/**
+ * Decrypt one session from the room key backup
+ */
+export async function decryptRoomKey(
+  backupKey: StoredRoomKeyBackupKey,
+  sessionId: string,
+  encryptedSession: string,
+  sessionIv: string
+): Promise<RoomKeyBackupSession> {
+  const key = await importRoomKeyBackupKey(backupKey, "decrypt");
+
+  const plaintext = await crypto.subtle.decrypt(
+    {
+      name: "AES-GCM",
+      iv: base64ToUint8Array(sessionIv).buffer as ArrayBuffer,
+      additionalData: new TextEncoder().encode(sessionId),
+    },
+    key,
+    base64ToUint8Array(encryptedSession).buffer as ArrayBuffer
+  );
+
+  return JSON.parse(new TextDecoder().decode(plaintext)) as RoomKeyBackupSession;
+}
+
 // ============================================================================
 // PASSWORD STRENGTH VALIDATION
 // ============================================================================
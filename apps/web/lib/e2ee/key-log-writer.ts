@@ -0,0 +1,81 @@
+/**
+ * E2EE Key Transparency Log Writer (server only)
+ *
+ * Appends key changes to a user's hash chain (see key-transparency.ts).
+ * Callers pass a client inside their own transaction so the log entry
+ * commits or rolls back with the key change it records.
+ */
+
+import type { PoolClient } from "pg";
+import {
+  hashKeyLogEntry,
+  KEY_LOG_GENESIS_HASH,
+  type KeyLogEntry,
+  type KeyLogEventType,
+  type KeyLogKeyType,
+} from "./key-transparency";
+
+export { deviceLogPublicKey } from "./key-transparency";
+
+export interface KeyLogChange {
+  eventType: KeyLogEventType;
+  keyType: KeyLogKeyType;
+  keyId: string;
+  publicKey: string;
+}
+
+/**
+ * Append changes to a user's chain, in order
+ */
+export async function appendKeyLogEntries(
+  client: Pick<PoolClient, "query">,
+  userId: string,
+  changes: KeyLogChange[]
+): Promise<KeyLogEntry[]> {
+  if (changes.length === 0) return [];
+
+  // Serialize appends per user so two writers can't fork the chain
+  await client.query(`SELECT pg_advisory_xact_lock(hashtext('e2ee_key_log:' || $1))`, [userId]);
+
+  const head = await client.query<{ seq: number; entry_hash: string }>(
+    `SELECT seq, entry_hash FROM e2ee_key_log
+     WHERE user_id = $1
+     ORDER BY seq DESC
+     LIMIT 1`,
+    [userId]
+  );
+
+  let seq = head.rows[0]?.seq ?? 0;
+  let prevHash = head.rows[0]?.entry_hash ?? KEY_LOG_GENESIS_HASH;
+  const appended: KeyLogEntry[] = [];
+
+  for (const change of changes) {
+    seq++;
+    // Millisecond precision, so the stored timestamp hashes the same in clients
+    const createdAt = new Date().toISOString();
+    const entry = { userId, seq, ...change, prevHash, createdAt };
+    const entryHash = await hashKeyLogEntry(entry);
+
+    await client.query(
+      `INSERT INTO e2ee_key_log
+         (user_id, seq, event_type, key_type, key_id, public_key, prev_hash, entry_hash, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        userId,
+        seq,
+        change.eventType,
+        change.keyType,
+        change.keyId,
+        change.publicKey,
+        prevHash,
+        entryHash,
+        createdAt,
+      ]
+    );
+
+    appended.push({ ...entry, entryHash });
+    prevHash = entryHash;
+  }
+
+  return appended;
+}
@@ -8,19 +8,28 @@
  * - account: Single entry with pickled Olm account
  * - sessions: Olm sessions keyed by recipient device ID
  * - megolmSessions: Megolm sessions keyed by conversation ID
+ * - crossSigning: Single entry with this user's cross-signing keys
+ * - roomKeyBackup: Single entry with the room key backup key
  */
 
 "use client";
 
 import { openDB, type IDBPDatabase, type DBSchema } from "idb";
-import type { StoredAccount, StoredSession, StoredMegolmSession } from "./types";
+import type {
+  StoredAccount,
+  StoredSession,
+  StoredMegolmSession,
+  StoredCrossSigningKeys,
+  StoredRoomKeyBackupKey,
+  InboundSessionInfo,
+} from "./types";
 
 // ============================================================================
 // DATABASE SCHEMA
 // ============================================================================
 
 const DB_NAME = "claude-insider-e2ee";
-const DB_VERSION = 1;
+const DB_VERSION = 3;
 
 interface E2EEDBSchema extends DBSchema {
   account: {
@@ -42,6 +51,14 @@ interface E2EEDBSchema extends DBSchema {
       "by-created": number;
     };
   };
+  crossSigning: {
+    key: string;
+    value: StoredCrossSigningKeys;
+  };
+  roomKeyBackup: {
+    key: string;
+    value: StoredRoomKeyBackupKey;
+  };
 }
 
 // ============================================================================
@@ -78,6 +95,16 @@ export async function getE2EEDatabase(): Promise<IDBPDatabase<E2EEDBSchema>> {
         const megolmStore = database.createObjectStore("megolmSessions");
         megolmStore.createIndex("by-created", "outboundCreatedAt");
       }
+
+      // Version 2: Cross-signing keys
+      if (oldVersion < 2) {
+        database.createObjectStore("crossSigning");
+      }
+
+      // Version 3: Room key backup key
+      if (oldVersion < 3) {
+        database.createObjectStore("roomKeyBackup");
+      }
     },
     blocked() {
       console.warn("[E2EE] Database upgrade blocked - close other tabs");
@@ -147,6 +174,50 @@ export async function hasStoredAccount(): Promise<boolean> {
   return account !== undefined;
 }
 
+// ============================================================================
+// CROSS-SIGNING KEY OPERATIONS
+// ============================================================================
+
+const CROSS_SIGNING_KEY = "current";
+
+/**
+ * Get this user's stored cross-signing keys
+ */
+export async function getCrossSigningKeys(): Promise<StoredCrossSigningKeys | undefined> {
+  const database = await getE2EEDatabase();
+  return database.get("crossSigning", CROSS_SIGNING_KEY);
+}
+
+/**
+ * Store cross-signing keys (replaces any existing keys)
+ */
+export async function storeCrossSigningKeys(keys: StoredCrossSigningKeys): Promise<void> {
+  const database = await getE2EEDatabase();
+  await database.put("crossSigning", keys, CROSS_SIGNING_KEY);
+}
+
+// ============================================================================
+// ROOM KEY BACKUP KEY OPERATIONS
+// ============================================================================
+
+const ROOM_KEY_BACKUP_KEY = "current";
+
+/**
+ * Get the stored room key backup key
+ */
+export async function getRoomKeyBackupKey(): Promise<StoredRoomKeyBackupKey | undefined> {
+  const database = await getE2EEDatabase();
+  return database.get("roomKeyBackup", ROOM_KEY_BACKUP_KEY);
+}
+
+/**
+ * Store the room key backup key (replaces any existing key)
+ */
+export async function storeRoomKeyBackupKey(key: StoredRoomKeyBackupKey): Promise<void> {
+  const database = await getE2EEDatabase();
+  await database.put("roomKeyBackup", key, ROOM_KEY_BACKUP_KEY);
+}
+
 // ============================================================================
 // OLM SESSION OPERATIONS
 // ============================================================================
@@ -271,13 +342,17 @@ export async function getAllMegolmSessions(): Promise<StoredMegolmSession[]> {
 export async function addInboundMegolmSession(
   conversationId: string,
   sessionId: string,
-  pickle: string
+  pickle: string,
+  info?: InboundSessionInfo
 ): Promise<void> {
   const database = await getE2EEDatabase();
   const existing = await database.get("megolmSessions", conversationId);
 
   if (existing) {
     existing.inboundSessions[sessionId] = pickle;
+    if (info) {
+      existing.inboundSessionInfo = { ...existing.inboundSessionInfo, [sessionId]: info };
+    }
     await database.put("megolmSessions", existing, conversationId);
   } else {
     // Create new entry with only inbound session
@@ -287,11 +362,31 @@ export async function addInboundMegolmSession(
       inboundSessions: { [sessionId]: pickle },
       outboundCreatedAt: null,
       messageCount: 0,
+      inboundSessionInfo: info ? { [sessionId]: info } : undefined,
     };
     await database.put("megolmSessions", newSession, conversationId);
   }
 }
 
+/**
+ * Replace the metadata of existing inbound sessions
+ */
+export async function updateInboundSessionInfo(
+  conversationId: string,
+  infos: Record<string, InboundSessionInfo>
+): Promise<void> {
+  const database = await getE2EEDatabase();
+  const existing = await database.get("megolmSessions", conversationId);
+  if (!existing) return;
+
+  const inboundSessionInfo = { ...existing.inboundSessionInfo };
+  for (const [sessionId, info] of Object.entries(infos)) {
+    if (existing.inboundSessions[sessionId]) inboundSessionInfo[sessionId] = info;
+  }
+  existing.inboundSessionInfo = inboundSessionInfo;
+  await database.put("megolmSessions", existing, conversationId);
+}
+
 /**
  * Increment message count and check for rotation
  */
@@ -333,7 +428,7 @@ export async function clearAllE2EEData(): Promise<void> {
   const database = await getE2EEDatabase();
 
   const tx = database.transaction(
-    ["account", "sessions", "megolmSessions"],
+    ["account", "sessions", "megolmSessions", "crossSigning", "roomKeyBackup"],
     "readwrite"
   );
 
@@ -341,6 +436,8 @@ export async function clearAllE2EEData(): Promise<void> {
     tx.objectStore("account").clear(),
     tx.objectStore("sessions").clear(),
     tx.objectStore("megolmSessions").clear(),
+    tx.objectStore("crossSigning").clear(),
+    tx.objectStore("roomKeyBackup").clear(),
     tx.done,
   ]);
 }
@@ -0,0 +1,164 @@
+/**
+ * E2EE Key Transparency Log
+ *
+ * Every change to a user's published keys (devices added, changed or removed,
+ * cross-signing keys replaced) is appended to a public log. Each user's
+ * entries form a hash chain: an entry's hash covers its content and the
+ * previous entry's hash, so the server can't rewrite or drop history without
+ * breaking the chain for anyone who saw it.
+ *
+ * Clients pin the last entry they've seen per contact. On the next check the
+ * chain must verify from the start and still contain the pinned entry, and
+ * anything appended since is a key change to review.
+ *
+ * Shared by the server (which computes hashes on append) and the browser
+ * (which recomputes them).
+ */
+
+import { canonicalJson, sha256Base64 } from "./signing";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type KeyLogEventType =
+  | "device_added"
+  | "device_changed"
+  | "device_removed"
+  | "cross_signing_key_changed";
+
+export type KeyLogKeyType = "device" | "master" | "self_signing" | "user_signing";
+
+export interface KeyLogEntry {
+  userId: string;
+  /** Position in the user's chain, starting at 1 */
+  seq: number;
+  eventType: KeyLogEventType;
+  keyType: KeyLogKeyType;
+  /** Device ID, or the public key for cross-signing keys */
+  keyId: string;
+  /** Public key material the entry commits to (empty for removals) */
+  publicKey: string;
+  prevHash: string;
+  entryHash: string;
+  createdAt: string;
+}
+
+/** prevHash of each user's first entry */
+export const KEY_LOG_GENESIS_HASH = "";
+
+export type KeyLogVerification =
+  | { valid: true }
+  | { valid: false; seq: number; reason: string };
+
+// ============================================================================
+// HASHING
+// ============================================================================
+
+/**
+ * Hash an entry's content together with the previous entry's hash
+ */
+export async function hashKeyLogEntry(
+  entry: Omit<KeyLogEntry, "entryHash">
+): Promise<string> {
+  return sha256Base64(
+    canonicalJson({
+      user_id: entry.userId,
+      seq: entry.seq,
+      event_type: entry.eventType,
+      key_type: entry.keyType,
+      key_id: entry.keyId,
+      public_key: entry.publicKey,
+      prev_hash: entry.prevHash,
+      created_at: new Date(entry.createdAt).toISOString(),
+    })
+  );
+}
+
+/**
+ * Check a user's full chain, in order, from the first entry
+ */
+export async function verifyKeyLogChain(entries: KeyLogEntry[]): Promise<KeyLogVerification> {
+  let prevHash = KEY_LOG_GENESIS_HASH;
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i]!;
+
+    if (entry.seq !== i + 1) {
+      return { valid: false, seq: entry.seq, reason: "Entries are missing or out of order" };
+    }
+    if (entry.prevHash !== prevHash) {
+      return { valid: false, seq: entry.seq, reason: "Entry does not follow the previous one" };
+    }
+    if ((await hashKeyLogEntry(entry)) !== entry.entryHash) {
+      return { valid: false, seq: entry.seq, reason: "Entry hash does not match its content" };
+    }
+
+    prevHash = entry.entryHash;
+  }
+
+  return { valid: true };
+}
+
+// ============================================================================
+// DEVICES
+// ============================================================================
+
+/**
+ * Public key material a device entry commits to
+ */
+export function deviceLogPublicKey(identityKey: string, signingKey: string): string {
+  return `${identityKey}|${signingKey}`;
+}
+
+/**
+ * Served devices whose keys don't match their latest log entry: never
+ * logged, logged as removed, or logged with other keys. Every device the
+ * server hands out must be in the log, so any of these is unexpected.
+ *
+ * @param deviceKeys - Device ID -> deviceLogPublicKey() of the served keys
+ */
+export function findUnloggedDevices(
+  entries: KeyLogEntry[],
+  deviceKeys: Record<string, string>
+): string[] {
+  const logged = new Map<string, string | null>();
+  for (const entry of entries) {
+    if (entry.keyType !== "device") continue;
+    logged.set(entry.keyId, entry.eventType === "device_removed" ? null : entry.publicKey);
+  }
+
+  return Object.entries(deviceKeys)
+    .filter(([deviceId, publicKey]) => logged.get(deviceId) !== publicKey)
+    .map(([deviceId]) => deviceId);
+}
+
+// ============================================================================
+// ROW MAPPING
+// ============================================================================
+
+export interface KeyLogRow {
+  user_id: string;
+  seq: number;
+  event_type: KeyLogEventType;
+  key_type: KeyLogKeyType;
+  key_id: string;
+  public_key: string;
+  prev_hash: string;
+  entry_hash: string;
+  created_at: string | Date;
+}
+
+export function keyLogEntryFromRow(row: KeyLogRow): KeyLogEntry {
+  return {
+    userId: row.user_id,
+    seq: row.seq,
+    eventType: row.event_type,
+    keyType: row.key_type,
+    keyId: row.key_id,
+    publicKey: row.public_key,
+    prevHash: row.prev_hash,
+    entryHash: row.entry_hash,
+    createdAt: new Date(row.created_at).toISOString(),
+  };
+}
@@ -25,7 +25,9 @@ import type {
   VodozemacGroupSession,
   OlmMessage,
   DecryptedMessage,
+  InboundSessionInfo,
 } from "./types";
+import type { EncryptedAttachmentInfo } from "./attachment-crypto";
 
 // ============================================================================
 // TYPES
@@ -69,6 +71,35 @@ export interface DeviceInfo {
   identityKey: string;
 }
 
+/**
+ * A file shared in an encrypted message. Name, type and keys only exist
+ * inside the ciphertext; the server just knows the blob's ID and size.
+ */
+export interface MessageAttachment {
+  /** dm_message_attachments row ID */
+  id: string;
+  name: string;
+  mimeType: string;
+  /** Plaintext size in bytes */
+  size: number;
+  width?: number;
+  height?: number;
+  file: EncryptedAttachmentInfo;
+  thumbnail?: {
+    file: EncryptedAttachmentInfo;
+    width: number;
+    height: number;
+  };
+}
+
+/** What gets encrypted for a message */
+export interface MessageContent {
+  body: string;
+  attachments?: MessageAttachment[];
+  /** Previous versions of an edited message, newest first */
+  edits?: Array<{ body: string; writtenAt: string }>;
+}
+
 // ============================================================================
 // CONSTANTS
 // ============================================================================
@@ -265,15 +296,26 @@ export async function getOrCreateMegolmSession(
 
   // Create new session
   const session = Account.createGroupSession();
-  // Session ID is stored in the pickle, no need to track separately
-  void session.session_id();
+  const sessionId = session.session_id();
+  const createdAt = Date.now();
+
+  // Keep an inbound copy so this device can read, forward and back up
+  // its own messages
+  const inboundSession = Account.createInboundGroupSession(session.session_key());
 
   // Store new session
   await storeMegolmSession({
     conversationId,
     outboundPickle: session.pickle(getPickleKey()),
-    inboundSessions: stored?.inboundSessions || {},
-    outboundCreatedAt: Date.now(),
+    inboundSessions: {
+      ...stored?.inboundSessions,
+      [sessionId]: inboundSession.pickle(getPickleKey()),
+    },
+    inboundSessionInfo: {
+      ...stored?.inboundSessionInfo,
+      [sessionId]: { createdAt, firstKnownIndex: 0, forwardedCount: 0 },
+    },
+    outboundCreatedAt: createdAt,
     messageCount: 0,
   });
 
@@ -281,25 +323,78 @@ export async function getOrCreateMegolmSession(
 }
 
 /**
- * Import an inbound Megolm session from a session share
+ * Import an inbound Megolm session from a session share, a forwarded key or
+ * the room key backup. A copy that can decrypt from an earlier message
+ * index is never replaced by a later one.
  */
 export async function importMegolmSession(
   conversationId: string,
   sessionId: string,
   sessionKey: string,
-  _firstKnownIndex: number
-): Promise<void> {
+  firstKnownIndex: number,
+  info?: Partial<Omit<InboundSessionInfo, "firstKnownIndex">>
+): Promise<boolean> {
   const vodozemac = await initVodozemac();
   if (!vodozemac) {
     throw new Error("Vodozemac not available");
   }
 
+  const stored = await getMegolmSession(conversationId);
+  const existing = stored?.inboundSessionInfo?.[sessionId];
+  if (
+    stored?.inboundSessions[sessionId] &&
+    (!existing || existing.firstKnownIndex <= firstKnownIndex)
+  ) {
+    return false;
+  }
+
   // Create inbound session from session key
   const inboundSession = Account.createInboundGroupSession(sessionKey);
   const pickle = inboundSession.pickle(getPickleKey());
 
   // Store the inbound session
-  await addInboundMegolmSession(conversationId, sessionId, pickle);
+  await addInboundMegolmSession(conversationId, sessionId, pickle, {
+    createdAt: info?.createdAt ?? Date.now(),
+    firstKnownIndex,
+    forwardedCount: info?.forwardedCount ?? 0,
+  });
+  return true;
+}
+
+/**
+ * Export an inbound Megolm session for forwarding or backup
+ */
+export async function exportMegolmSession(
+  conversationId: string,
+  sessionId: string
+): Promise<{ sessionKey: string; info: InboundSessionInfo } | null> {
+  const stored = await getMegolmSession(conversationId);
+  const pickle = stored?.inboundSessions[sessionId];
+  if (!pickle) return null;
+
+  const session = Account.inboundGroupSessionFromPickle(pickle, getPickleKey());
+  const firstKnownIndex = session.first_known_index();
+
+  return {
+    sessionKey: session.export_at(firstKnownIndex),
+    info: stored.inboundSessionInfo?.[sessionId] ?? {
+      // Received before session metadata was tracked
+      createdAt: 0,
+      firstKnownIndex,
+      forwardedCount: 0,
+    },
+  };
+}
+
+/**
+ * Whether this device holds the keys for a Megolm session
+ */
+export async function hasInboundMegolmSession(
+  conversationId: string,
+  sessionId: string
+): Promise<boolean> {
+  const stored = await getMegolmSession(conversationId);
+  return Boolean(stored?.inboundSessions[sessionId]);
 }
 
 /**
@@ -471,30 +566,18 @@ async function encryptWithMegolm(
     sessionShares = [];
     for (const device of recipientDevices) {
       try {
-        const olmSession = await getOrCreateOlmSession(device, () =>
-          claimPrekey(device.userId, device.deviceId)
+        const encryptedSessionKey = await encryptSessionKeyForDevice(
+          device,
+          sessionId,
+          sessionKey,
+          claimPrekey
         );
 
-        if (olmSession) {
-          // Encrypt the session key with Olm
-          const encrypted = await olmSession.encrypt(
-            JSON.stringify({ sessionId, sessionKey })
-          );
-          const message =
-            typeof encrypted === "object" ? encrypted : JSON.parse(encrypted);
-
+        if (encryptedSessionKey) {
           sessionShares.push({
             recipientUserId: device.userId,
             recipientDeviceId: device.deviceId,
-            encryptedSessionKey: JSON.stringify(message),
-          });
-
-          // Update Olm session
-          await storeOlmSession({
-            recipientDeviceId: device.deviceId,
-            pickle: olmSession.pickle(getPickleKey()),
-            lastUsed: Date.now(),
-            recipientIdentityKey: device.identityKey,
+            encryptedSessionKey,
           });
         }
       } catch (error) {
@@ -518,6 +601,94 @@ async function encryptWithMegolm(
   };
 }
 
+/**
+ * Olm-encrypt a Megolm session key for one device, as a session share
+ * (see processMegolmSessionShare). Returns null if no Olm session could be
+ * established.
+ */
+export async function encryptSessionKeyForDevice(
+  device: DeviceInfo,
+  sessionId: string,
+  sessionKey: string,
+  claimPrekey: (
+    userId: string,
+    deviceId: string
+  ) => Promise<{ keyId: number; publicKey: string } | null>
+): Promise<string | null> {
+  const olmSession = await getOrCreateOlmSession(device, () =>
+    claimPrekey(device.userId, device.deviceId)
+  );
+  if (!olmSession) return null;
+
+  // Encrypt the session key with Olm
+  const encrypted = await olmSession.encrypt(JSON.stringify({ sessionId, sessionKey }));
+  const message = typeof encrypted === "object" ? encrypted : JSON.parse(encrypted);
+
+  // Update Olm session
+  await storeOlmSession({
+    recipientDeviceId: device.deviceId,
+    pickle: olmSession.pickle(getPickleKey()),
+    lastUsed: Date.now(),
+    recipientIdentityKey: device.identityKey,
+  });
+
+  return JSON.stringify(message);
+}
+
+// ============================================================================
+// MESSAGE CONTENT
+// ============================================================================
+
+const MESSAGE_CONTENT_TYPE = "ci.message.v1";
+
+/**
+ * Serialize message content for encryption. Unedited text-only messages
+ * stay plain strings so older clients can still read them.
+ */
+export function encodeMessageContent(content: MessageContent): string {
+  const hasAttachments = !!content.attachments && content.attachments.length > 0;
+  const hasEdits = !!content.edits && content.edits.length > 0;
+  if (!hasAttachments && !hasEdits) {
+    return content.body;
+  }
+  return JSON.stringify({
+    type: MESSAGE_CONTENT_TYPE,
+    body: content.body,
+    ...(hasAttachments && { attachments: content.attachments }),
+    ...(hasEdits && { edits: content.edits }),
+  });
+}
+
+/**
+ * Parse decrypted plaintext back into message content
+ */
+export function decodeMessageContent(plaintext: string): MessageContent {
+  if (!plaintext.startsWith("{")) return { body: plaintext };
+
+  try {
+    const parsed = JSON.parse(plaintext) as {
+      type?: unknown;
+      body?: unknown;
+      attachments?: unknown;
+      edits?: unknown;
+    };
+    if (parsed.type !== MESSAGE_CONTENT_TYPE || typeof parsed.body !== "string") {
+      return { body: plaintext };
+    }
+    return {
+      body: parsed.body,
+      attachments: Array.isArray(parsed.attachments)
+        ? (parsed.attachments as MessageAttachment[])
+        : undefined,
+      edits: Array.isArray(parsed.edits)
+        ? (parsed.edits as NonNullable<MessageContent["edits"]>)
+        : undefined,
+    };
+  } catch {
+    return { body: plaintext };
+  }
+}
+
 // ============================================================================
 // HIGH-LEVEL MESSAGE DECRYPTION
 // ============================================================================
@@ -596,7 +767,8 @@ export async function processMegolmSessionShare(
   conversationId: string,
   senderDeviceId: string,
   senderIdentityKey: string,
-  encryptedSessionKey: string
+  encryptedSessionKey: string,
+  metadata?: { firstKnownIndex?: number; forwardedCount?: number; sessionCreatedAt?: string }
 ): Promise<void> {
   // First decrypt the share with Olm
   const olmMessage = JSON.parse(encryptedSessionKey) as OlmMessage;
@@ -613,7 +785,10 @@ export async function processMegolmSessionShare(
   };
 
   // Import the Megolm session
-  await importMegolmSession(conversationId, sessionId, sessionKey, 0);
+  await importMegolmSession(conversationId, sessionId, sessionKey, metadata?.firstKnownIndex ?? 0, {
+    forwardedCount: metadata?.forwardedCount,
+    createdAt: metadata?.sessionCreatedAt ? new Date(metadata.sessionCreatedAt).getTime() : undefined,
+  });
 }
 
 // ============================================================================
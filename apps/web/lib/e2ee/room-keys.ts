@@ -0,0 +1,354 @@
+/**
+ * E2EE Room Keys
+ *
+ * Gets Megolm session keys to devices that weren't around when a session
+ * was shared:
+ * - Key requests: a device that can't decrypt a group message asks for the
+ *   session. The user's other devices answer if they've cross-signed the
+ *   requester; other members answer within the group's history visibility
+ *   (sessions since the requester joined, since they were invited, or all).
+ *   Keys are only ever forwarded to devices their owner has cross-signed.
+ * - Room key backup: every inbound session is encrypted with the user's
+ *   room key backup key and uploaded, so a new device that restores the
+ *   key (from the password-protected backup) gets the whole history.
+ */
+
+"use client";
+
+import { getUserTrustStatus } from "./cross-signing";
+import {
+  decryptRoomKey,
+  encryptRoomKey,
+  generateRoomKeyBackupKey,
+} from "./key-backup";
+import {
+  getAllMegolmSessions,
+  getRoomKeyBackupKey,
+  storeRoomKeyBackupKey,
+  updateInboundSessionInfo,
+} from "./key-storage";
+import {
+  encryptSessionKeyForDevice,
+  exportMegolmSession,
+  getCurrentDeviceId,
+  importMegolmSession,
+} from "./message-crypto";
+import type { InboundSessionInfo, StoredRoomKeyBackupKey } from "./types";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type ClaimPrekey = (
+  userId: string,
+  deviceId: string
+) => Promise<{ keyId: number; publicKey: string } | null>;
+
+interface RoomKeyRequest {
+  id: string;
+  requesterUserId: string;
+  requesterDeviceId: string;
+  requesterIdentityKey: string;
+  conversationId: string;
+  sessionId: string;
+  isOwnDevice: boolean;
+  /** Earliest session creation time the requester may read; null = any */
+  sharedSince: string | null;
+}
+
+interface BackedUpRoomKey {
+  conversationId: string;
+  sessionId: string;
+  keyId: string;
+  encryptedSession: string;
+  sessionIv: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Wait this long to batch key requests from a burst of failed decryptions */
+const REQUEST_BATCH_DELAY_MS = 2000;
+const MAX_REQUESTS_PER_BATCH = 100;
+const BACKUP_UPLOAD_BATCH_SIZE = 200;
+
+// ============================================================================
+// KEY REQUESTS
+// ============================================================================
+
+/** Session IDs already requested this page load */
+const requestedSessions = new Set<string>();
+const queuedRequests = new Map<string, { conversationId: string; sessionId: string }>();
+let requestFlushTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Ask other devices for a Megolm session this device is missing.
+ * Requests are batched and each session is only requested once per page load.
+ */
+export function requestRoomKey(conversationId: string, sessionId: string): void {
+  if (requestedSessions.has(sessionId)) return;
+
+  requestedSessions.add(sessionId);
+  queuedRequests.set(sessionId, { conversationId, sessionId });
+
+  if (!requestFlushTimer) {
+    requestFlushTimer = setTimeout(() => void flushRoomKeyRequests(), REQUEST_BATCH_DELAY_MS);
+  }
+}
+
+async function flushRoomKeyRequests(): Promise<void> {
+  requestFlushTimer = null;
+
+  const requests = Array.from(queuedRequests.values()).slice(0, MAX_REQUESTS_PER_BATCH);
+  for (const request of requests) queuedRequests.delete(request.sessionId);
+  if (queuedRequests.size > 0) {
+    requestFlushTimer = setTimeout(() => void flushRoomKeyRequests(), REQUEST_BATCH_DELAY_MS);
+  }
+
+  const deviceId = await getCurrentDeviceId();
+  if (!deviceId || requests.length === 0) return;
+
+  try {
+    const response = await fetch("/api/e2ee/room-keys/requests", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ deviceId, requests }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to request room keys: ${response.status}`);
+    }
+  } catch (error) {
+    // Let the next failed decryption ask again
+    for (const request of requests) requestedSessions.delete(request.sessionId);
+    console.warn("[E2EE] Room key request failed:", error);
+  }
+}
+
+/**
+ * Forward the sessions other devices have asked for, where allowed.
+ * Returns the number of keys forwarded.
+ */
+export async function answerRoomKeyRequests(claimPrekey: ClaimPrekey): Promise<number> {
+  const deviceId = await getCurrentDeviceId();
+  if (!deviceId) return 0;
+
+  const response = await fetch(
+    `/api/e2ee/room-keys/requests?deviceId=${encodeURIComponent(deviceId)}`
+  );
+  if (!response.ok) {
+    throw new Error("Failed to fetch room key requests");
+  }
+
+  const { requests } = (await response.json()) as { requests: RoomKeyRequest[] };
+
+  // Per-user map of cross-signed devices, fetched once per user
+  const signedDevices = new Map<string, Record<string, boolean>>();
+  let forwarded = 0;
+
+  for (const request of requests) {
+    try {
+      const exported = await exportMegolmSession(request.conversationId, request.sessionId);
+      if (!exported) continue;
+
+      if (
+        !request.isOwnDevice &&
+        request.sharedSince &&
+        exported.info.createdAt < new Date(request.sharedSince).getTime()
+      ) {
+        continue;
+      }
+
+      if (!signedDevices.has(request.requesterUserId)) {
+        const trust = await getUserTrustStatus(request.requesterUserId);
+        signedDevices.set(request.requesterUserId, trust.devices);
+      }
+      if (!signedDevices.get(request.requesterUserId)?.[request.requesterDeviceId]) {
+        continue;
+      }
+
+      const encryptedSessionKey = await encryptSessionKeyForDevice(
+        {
+          userId: request.requesterUserId,
+          deviceId: request.requesterDeviceId,
+          identityKey: request.requesterIdentityKey,
+        },
+        request.sessionId,
+        exported.sessionKey,
+        claimPrekey
+      );
+      if (!encryptedSessionKey) continue;
+
+      const forwardResponse = await fetch("/api/e2ee/room-keys/forward", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          requestId: request.id,
+          senderDeviceId: deviceId,
+          encryptedSessionKey,
+          firstKnownIndex: exported.info.firstKnownIndex,
+          forwardedCount: exported.info.forwardedCount + 1,
+          sessionCreatedAt: exported.info.createdAt
+            ? new Date(exported.info.createdAt).toISOString()
+            : undefined,
+        }),
+      });
+
+      if (forwardResponse.ok) forwarded++;
+    } catch (error) {
+      console.warn(`[E2EE] Failed to answer room key request ${request.id}:`, error);
+    }
+  }
+
+  return forwarded;
+}
+
+// ============================================================================
+// ROOM KEY BACKUP
+// ============================================================================
+
+/**
+ * Get the room key backup key, creating one if this device has none
+ */
+export async function getOrCreateRoomKeyBackupKey(): Promise<StoredRoomKeyBackupKey> {
+  const existing = await getRoomKeyBackupKey();
+  if (existing) return existing;
+
+  const backupKey = await generateRoomKeyBackupKey();
+  await storeRoomKeyBackupKey(backupKey);
+  return backupKey;
+}
+
+/**
+ * Upload inbound sessions not yet backed up with the current key.
+ * Does nothing until a backup key exists. Returns the number uploaded.
+ */
+export async function backupRoomKeys(): Promise<number> {
+  const backupKey = await getRoomKeyBackupKey();
+  if (!backupKey) return 0;
+
+  const pending: Array<{
+    conversationId: string;
+    sessionId: string;
+    info: InboundSessionInfo;
+    upload: Record<string, unknown>;
+  }> = [];
+
+  for (const stored of await getAllMegolmSessions()) {
+    for (const sessionId of Object.keys(stored.inboundSessions)) {
+      if (stored.inboundSessionInfo?.[sessionId]?.backedUpWith === backupKey.keyId) continue;
+
+      const exported = await exportMegolmSession(stored.conversationId, sessionId);
+      if (!exported) continue;
+
+      const encrypted = await encryptRoomKey(backupKey, {
+        conversationId: stored.conversationId,
+        sessionId,
+        sessionKey: exported.sessionKey,
+        createdAt: exported.info.createdAt,
+        firstKnownIndex: exported.info.firstKnownIndex,
+        forwardedCount: exported.info.forwardedCount,
+      });
+
+      pending.push({
+        conversationId: stored.conversationId,
+        sessionId,
+        info: exported.info,
+        upload: {
+          conversationId: stored.conversationId,
+          sessionId,
+          keyId: backupKey.keyId,
+          ...encrypted,
+          firstKnownIndex: exported.info.firstKnownIndex,
+          forwardedCount: exported.info.forwardedCount,
+        },
+      });
+    }
+  }
+
+  for (let i = 0; i < pending.length; i += BACKUP_UPLOAD_BATCH_SIZE) {
+    const batch = pending.slice(i, i + BACKUP_UPLOAD_BATCH_SIZE);
+
+    const response = await fetch("/api/e2ee/room-keys/backup", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ keys: batch.map((p) => p.upload) }),
+    });
+    if (!response.ok) {
+      throw new Error(`Failed to back up room keys: ${response.status}`);
+    }
+
+    await markBackedUp(batch, backupKey.keyId);
+  }
+
+  return pending.length;
+}
+
+async function markBackedUp(
+  sessions: Array<{ conversationId: string; sessionId: string; info: InboundSessionInfo }>,
+  keyId: string
+): Promise<void> {
+  const byConversation = new Map<string, Record<string, InboundSessionInfo>>();
+  for (const { conversationId, sessionId, info } of sessions) {
+    const infos = byConversation.get(conversationId) ?? {};
+    infos[sessionId] = { ...info, backedUpWith: keyId };
+    byConversation.set(conversationId, infos);
+  }
+
+  for (const [conversationId, infos] of byConversation) {
+    await updateInboundSessionInfo(conversationId, infos);
+  }
+}
+
+/**
+ * Import every session in the room key backup that the key can decrypt.
+ * Returns the number of sessions imported.
+ */
+export async function restoreRoomKeys(backupKey: StoredRoomKeyBackupKey): Promise<number> {
+  const response = await fetch(
+    `/api/e2ee/room-keys/backup?keyId=${encodeURIComponent(backupKey.keyId)}`
+  );
+  if (!response.ok) {
+    throw new Error("Failed to fetch room key backup");
+  }
+
+  const { keys } = (await response.json()) as { keys: BackedUpRoomKey[] };
+  const restored: Array<{ conversationId: string; sessionId: string; info: InboundSessionInfo }> = [];
+
+  for (const key of keys) {
+    try {
+      const session = await decryptRoomKey(
+        backupKey,
+        key.sessionId,
+        key.encryptedSession,
+        key.sessionIv
+      );
+
+      const imported = await importMegolmSession(
+        session.conversationId,
+        session.sessionId,
+        session.sessionKey,
+        session.firstKnownIndex,
+        { createdAt: session.createdAt, forwardedCount: session.forwardedCount }
+      );
+      if (!imported) continue;
+
+      restored.push({
+        conversationId: session.conversationId,
+        sessionId: session.sessionId,
+        info: {
+          createdAt: session.createdAt,
+          firstKnownIndex: session.firstKnownIndex,
+          forwardedCount: session.forwardedCount,
+        },
+      });
+    } catch (error) {
+      console.warn(`[E2EE] Failed to restore session ${key.sessionId}:`, error);
+    }
+  }
+
+  // Already in the backup, so don't upload them again
+  await markBackedUp(restored, backupKey.keyId);
+  return restored.length;
+}
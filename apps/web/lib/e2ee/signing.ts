@@ -0,0 +1,178 @@
+/**
+ * E2EE Signing Primitives
+ *
+ * Ed25519 signatures over canonical JSON, shared by the browser (cross-signing
+ * keys, device and user signatures) and the server (signature checks on
+ * upload). Uses Web Crypto, which is available in both environments.
+ *
+ * Canonical JSON follows the Matrix rules: object keys sorted, no
+ * insignificant whitespace, and any `signatures` field left out so a signed
+ * object can carry its own signatures.
+ */
+
+// ============================================================================
+// CANONICAL JSON
+// ============================================================================
+
+/**
+ * Serialize a value with sorted keys and no whitespace
+ */
+export function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([key, v]) => key !== "signatures" && v !== undefined)
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+  return `{${entries.map(([key, v]) => `${JSON.stringify(key)}:${canonicalJson(v)}`).join(",")}}`;
+}
+
+// ============================================================================
+// BASE64 UTILITIES
+// ============================================================================
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * SHA-256 of a string, base64 encoded
+ */
+export async function sha256Base64(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(input));
+  return bytesToBase64(new Uint8Array(digest));
+}
+
+// ============================================================================
+// ED25519
+// ============================================================================
+
+export interface SigningKeyPair {
+  /** Raw public key, base64 (also used as the key ID) */
+  publicKey: string;
+  /** PKCS#8 private key, base64 */
+  privateKey: string;
+}
+
+/**
+ * Generate an Ed25519 key pair
+ */
+export async function generateSigningKeyPair(): Promise<SigningKeyPair> {
+  const keyPair = (await crypto.subtle.generateKey({ name: "Ed25519" }, true, [
+    "sign",
+    "verify",
+  ])) as CryptoKeyPair;
+
+  const [publicKey, privateKey] = await Promise.all([
+    crypto.subtle.exportKey("raw", keyPair.publicKey),
+    crypto.subtle.exportKey("pkcs8", keyPair.privateKey),
+  ]);
+
+  return {
+    publicKey: bytesToBase64(new Uint8Array(publicKey)),
+    privateKey: bytesToBase64(new Uint8Array(privateKey)),
+  };
+}
+
+/**
+ * Sign the canonical JSON of an object
+ */
+export async function signObject(privateKey: string, object: unknown): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "pkcs8",
+    base64ToBytes(privateKey),
+    { name: "Ed25519" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    { name: "Ed25519" },
+    key,
+    new TextEncoder().encode(canonicalJson(object))
+  );
+  return bytesToBase64(new Uint8Array(signature));
+}
+
+/**
+ * Verify a signature over the canonical JSON of an object.
+ * Malformed keys or signatures count as invalid.
+ */
+export async function verifyObjectSignature(
+  publicKey: string,
+  object: unknown,
+  signature: string
+): Promise<boolean> {
+  try {
+    const key = await crypto.subtle.importKey(
+      "raw",
+      base64ToBytes(publicKey),
+      { name: "Ed25519" },
+      false,
+      ["verify"]
+    );
+    return await crypto.subtle.verify(
+      { name: "Ed25519" },
+      key,
+      base64ToBytes(signature),
+      new TextEncoder().encode(canonicalJson(object))
+    );
+  } catch {
+    return false;
+  }
+}
+
+// ============================================================================
+// SIGNED OBJECTS
+// ============================================================================
+
+/**
+ * What a cross-signing key signs. Each object names its owner so a
+ * signature can't be replayed for another user or device.
+ */
+export type SignedCrossSigningKey = {
+  user_id: string;
+  usage: "master" | "self_signing" | "user_signing";
+  public_key: string;
+};
+
+export type SignedDeviceKeys = {
+  user_id: string;
+  device_id: string;
+  identity_key: string;
+  signing_key: string;
+};
+
+export function crossSigningKeyObject(
+  userId: string,
+  usage: SignedCrossSigningKey["usage"],
+  publicKey: string
+): SignedCrossSigningKey {
+  return { user_id: userId, usage, public_key: publicKey };
+}
+
+export function deviceKeysObject(
+  userId: string,
+  device: { deviceId: string; identityKey: string; signingKey: string }
+): SignedDeviceKeys {
+  return {
+    user_id: userId,
+    device_id: device.deviceId,
+    identity_key: device.identityKey,
+    signing_key: device.signingKey,
+  };
+}
@@ -239,6 +239,21 @@ export interface StoredAccount {
   pickleKey?: string;
 }
 
+/**
+ * Cross-signing key pairs (Ed25519, base64 raw public / PKCS#8 private)
+ */
+export interface StoredCrossSigningKeys {
+  /** Owner of the keys */
+  userId: string;
+  /** Signs the self-signing and user-signing keys */
+  master: { publicKey: string; privateKey: string };
+  /** Signs the owner's devices */
+  selfSigning: { publicKey: string; privateKey: string };
+  /** Signs other users' master keys after verification */
+  userSigning: { publicKey: string; privateKey: string };
+  createdAt: number;
+}
+
 /**
  * Stored Olm session in IndexedDB
  */
@@ -267,8 +282,45 @@ export interface StoredMegolmSession {
   outboundCreatedAt: number | null;
   /** Message count for rotation policy */
   messageCount: number;
+  /** Map of session ID to inbound session metadata */
+  inboundSessionInfo?: Record<string, InboundSessionInfo>;
+}
+
+/**
+ * Where an inbound Megolm session came from
+ */
+export interface InboundSessionInfo {
+  /** When the sending device created the session */
+  createdAt: number;
+  /** Earliest message index the session can decrypt */
+  firstKnownIndex: number;
+  /** 0 when shared by the session's creator, +1 per forward */
+  forwardedCount: number;
+  /** Room key backup key ID the session was last backed up with */
+  backedUpWith?: string;
+}
+
+/**
+ * Key for the server-side room key backup. Random, not password derived,
+ * so devices can back up sessions as they arrive; it travels to new devices
+ * inside the password-protected backup.
+ */
+export interface StoredRoomKeyBackupKey {
+  /** AES-256 key, base64 */
+  key: string;
+  /** Fingerprint stored next to each backed up session */
+  keyId: string;
+  createdAt: number;
 }
 
+/**
+ * Which earlier group sessions are shared with members who join later
+ * - joined: sessions since they joined
+ * - invited: sessions since they were invited
+ * - full: all sessions members hold
+ */
+export type HistoryVisibility = "joined" | "invited" | "full";
+
 // ============================================================================
 // API TYPES
 // ============================================================================
@@ -369,6 +421,10 @@ export interface BackupData {
   olmSessions: Record<string, string>;
   /** All Megolm session data */
   megolmSessions: Record<string, StoredMegolmSession>;
+  /** Cross-signing keys, so a restored device can sign itself */
+  crossSigningKeys?: StoredCrossSigningKeys;
+  /** Room key backup key, so new devices can restore group history */
+  roomKeyBackupKey?: StoredRoomKeyBackupKey;
   /** Backup creation timestamp */
   createdAt: number;
   /** Backup version for migration */
@@ -491,6 +547,9 @@ export interface E2EEActions {
   /** Restore from backup */
   restoreFromBackup: (password: string) => Promise<void>;
 
+  /** Restore message history from the room key backup on a set-up device */
+  restoreMessageHistory: (password: string) => Promise<number>;
+
   /** Check if backup exists */
   checkBackupExists: () => Promise<boolean>;
 
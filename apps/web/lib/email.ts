@@ -491,6 +491,96 @@ function getPasswordResetEmailHtml(resetUrl: string, userName?: string): string
   return getEmailWrapper(content);
 }
 
+export interface NewSignInAlertParams {
+  email: string;
+  userName?: string;
+  device: string;
+  location: string | null;
+  ipAddress: string | null;
+  signedInAt: Date;
+}
+
+/**
+ * Alert a user to a sign-in from a device they haven't used before
+ */
+export async function sendNewSignInAlertEmail(
+  params: NewSignInAlertParams
+): Promise<EmailResult> {
+  try {
+    const { error } = await resend.emails.send({
+      from: FROM_EMAIL,
+      to: params.email,
+      subject: `New sign-in to your ${APP_NAME} account`,
+      html: getNewSignInAlertEmailHtml(params),
+    });
+
+    if (error) {
+      console.error("[Email] New sign-in alert send error:", error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("[Email] Unexpected error:", error);
+    return { success: false, error: "Failed to send email" };
+  }
+}
+
+/**
+ * New sign-in alert template
+ */
+function getNewSignInAlertEmailHtml(params: NewSignInAlertParams): string {
+  const greeting = params.userName ? `Hi ${params.userName},` : "Hi there,";
+  const sessionsUrl = `${APP_URL}/settings#sessions`;
+  const signedInAt = params.signedInAt.toLocaleString("en-US", {
+    dateStyle: "long",
+    timeStyle: "short",
+    timeZone: "UTC",
+  });
+
+  const rows = [
+    ["Device", params.device],
+    ["Location", params.location || "Unknown"],
+    ["IP address", params.ipAddress || "Unknown"],
+    ["Time", `${signedInAt} UTC`],
+  ]
+    .map(
+      ([label, value]) => `
+      <tr>
+        <td style="padding: 6px 16px 6px 0; color: #71717a; font-size: 14px;">${label}</td>
+        <td style="padding: 6px 0; color: #18181b; font-size: 14px; font-weight: 500;">${value}</td>
+      </tr>`
+    )
+    .join("");
+
+  const content = `
+    <h2 style="margin: 0 0 16px 0; font-size: 20px; font-weight: 600; color: #18181b;">
+      New sign-in to your account
+    </h2>
+    <p style="margin: 0 0 24px 0; color: #52525b; line-height: 1.6;">
+      ${greeting}<br><br>
+      Your account was just signed in to from a device you haven't used before.
+    </p>
+    <table role="presentation" cellspacing="0" cellpadding="0" style="margin-bottom: 24px;">
+      ${rows}
+    </table>
+    <p style="margin: 0 0 24px 0; color: #52525b; line-height: 1.6;">
+      If this was you, there's nothing to do. If not, sign out that session and change your password right away.
+    </p>
+    <table role="presentation" cellspacing="0" cellpadding="0" style="margin-bottom: 24px;">
+      <tr>
+        <td style="background: linear-gradient(to right, #7c3aed, #2563eb, #06b6d4); border-radius: 8px;">
+          <a href="${sessionsUrl}" style="display: inline-block; padding: 12px 32px; color: #ffffff; text-decoration: none; font-weight: 600; font-size: 16px;">
+            Review Devices &amp; Sessions
+          </a>
+        </td>
+      </tr>
+    </table>
+  `;
+
+  return getEmailWrapper(content);
+}
+
 /**
  * Welcome email template
  */
@@ -699,7 +789,7 @@ function getNotificationButtonText(type: NotificationEmailParams["type"]): strin
 export interface DigestEmailParams {
   email: string;
   userName?: string;
-  frequency: "daily" | "weekly" | "monthly";
+  frequency: "hourly" | "daily" | "weekly" | "monthly";
   period: string; // e.g., "Dec 8-15, 2025"
   stats: {
     newComments: number;
@@ -799,7 +889,7 @@ function getDigestEmailHtml(params: DigestEmailParams): string {
     </p>
     <p style="margin: 0 0 24px 0; color: #52525b; line-height: 1.6;">
       ${greeting}<br><br>
-      Here's what happened on ${APP_NAME} ${params.frequency === "daily" ? "today" : params.frequency === "weekly" ? "this week" : "this month"}.
+      Here's what happened on ${APP_NAME} ${params.frequency === "hourly" ? "in the last hour" : params.frequency === "daily" ? "today" : params.frequency === "weekly" ? "this week" : "this month"}.
     </p>
 
     <!-- Stats Grid -->
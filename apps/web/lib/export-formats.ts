@@ -3,18 +3,37 @@
  *
  * Handles data export in multiple formats:
  * - JSON: Native serialization
+ * - NDJSON: One JSON object per line
  * - CSV: Comma-separated values with proper escaping
  * - XLSX: Excel spreadsheet (requires xlsx package)
+ * - Parquet: Columnar format for analytics tools (see lib/parquet-writer.ts)
+ * - SQL: PostgreSQL INSERT statements
  *
  * Features:
- * - Streaming support for large datasets
+ * - Streaming support for large datasets (every format except XLSX)
  * - Column mapping and renaming
  * - Data anonymization
  * - Type coercion
  */
 
+import {
+  inferParquetColumns,
+  ParquetWriter,
+  type ParquetColumn,
+  type ParquetColumnType,
+} from "@/lib/parquet-writer";
+
 // Export format types
-export type ExportFormat = "json" | "csv" | "xlsx";
+export type ExportFormat = "json" | "ndjson" | "csv" | "xlsx" | "parquet" | "sql";
+
+// Formats that streamExport can produce chunk by chunk
+export type StreamableExportFormat = Exclude<ExportFormat, "xlsx">;
+
+export function isStreamableFormat(
+  format: ExportFormat
+): format is StreamableExportFormat {
+  return format !== "xlsx";
+}
 
 // Export options
 export interface ExportOptions {
@@ -32,6 +51,8 @@ export interface ExportOptions {
   prettyPrint?: boolean;
   /** Sheet name for XLSX */
   sheetName?: string;
+  /** Target table for SQL dumps (defaults to sheetName or "export") */
+  tableName?: string;
 }
 
 // Column definition for mapping
@@ -44,6 +65,8 @@ export interface ColumnDefinition {
   transform?: (value: unknown) => string | number | boolean | null;
   /** Width hint for XLSX */
   width?: number;
+  /** Parquet column type (streamed Parquet exports write undeclared columns as strings) */
+  parquetType?: ParquetColumnType;
 }
 
 // Export result
@@ -58,6 +81,25 @@ export interface ExportResult {
   rowCount: number;
 }
 
+// MIME type and file extension per format
+export const EXPORT_FORMAT_INFO: Record<
+  ExportFormat,
+  { mimeType: string; extension: string }
+> = {
+  json: { mimeType: "application/json", extension: "json" },
+  ndjson: { mimeType: "application/x-ndjson", extension: "ndjson" },
+  csv: { mimeType: "text/csv;charset=utf-8", extension: "csv" },
+  xlsx: {
+    mimeType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    extension: "xlsx",
+  },
+  parquet: { mimeType: "application/vnd.apache.parquet", extension: "parquet" },
+  sql: { mimeType: "application/sql;charset=utf-8", extension: "sql" },
+};
+
+// Rows per INSERT statement in SQL dumps
+const SQL_INSERT_BATCH_SIZE = 500;
+
 // Default anonymization fields
 const DEFAULT_ANONYMIZE_FIELDS = [
   "email",
@@ -84,6 +126,7 @@ export async function exportData<T extends Record<string, unknown>>(
     includeHeaders = true,
     prettyPrint = false,
     sheetName = "Export",
+    tableName = sheetName,
   } = options;
 
   // Process data with column mapping and anonymization
@@ -96,12 +139,45 @@ export async function exportData<T extends Record<string, unknown>>(
     case "json":
       return exportToJSON(processedData, prettyPrint);
 
+    case "ndjson":
+      return {
+        data: processedData.map(toNDJSONLine).join(""),
+        ...EXPORT_FORMAT_INFO.ndjson,
+        rowCount: processedData.length,
+      };
+
     case "csv":
       return exportToCSV(processedData, headers, includeHeaders);
 
     case "xlsx":
       return exportToXLSX(processedData, headers, sheetName, columns);
 
+    case "parquet": {
+      const writer = new ParquetWriter(
+        getParquetColumns(headers, columns, processedData),
+        formatValue
+      );
+      return {
+        data: Buffer.concat([
+          writer.start(),
+          writer.writeRowGroup(processedData),
+          writer.finish(),
+        ]),
+        ...EXPORT_FORMAT_INFO.parquet,
+        rowCount: processedData.length,
+      };
+    }
+
+    case "sql":
+      return {
+        data:
+          sqlDumpHeader(tableName) +
+          toSQLInserts(processedData, headers, tableName) +
+          SQL_DUMP_FOOTER,
+        ...EXPORT_FORMAT_INFO.sql,
+        rowCount: processedData.length,
+      };
+
     default:
       throw new Error(`Unsupported export format: ${format}`);
   }
@@ -212,6 +288,13 @@ function exportToJSON(
   };
 }
 
+/**
+ * Serialize one row as an NDJSON line
+ */
+function toNDJSONLine(row: Record<string, unknown>): string {
+  return JSON.stringify(row) + "\n";
+}
+
 /**
  * Export to CSV format
  * Implements RFC 4180 compliant CSV output
@@ -275,6 +358,64 @@ function formatValue(value: unknown): string {
   return String(value);
 }
 
+/**
+ * Quote a PostgreSQL identifier
+ */
+function quoteSQLIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Format a value as a PostgreSQL literal
+ * Assumes standard_conforming_strings (the default since PostgreSQL 9.1)
+ */
+function toSQLLiteral(value: unknown): string {
+  if (value === null || value === undefined) return "NULL";
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? String(value) : "NULL";
+  }
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE";
+
+  // Text columns cannot hold NUL bytes
+  const text = formatValue(value).split("\u0000").join("");
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+function sqlDumpHeader(tableName: string): string {
+  return (
+    `-- Claude Insider export: ${tableName}\n` +
+    `-- Generated ${new Date().toISOString()}\n\n` +
+    "BEGIN;\n\n"
+  );
+}
+
+const SQL_DUMP_FOOTER = "COMMIT;\n";
+
+/**
+ * Build multi-row INSERT statements, SQL_INSERT_BATCH_SIZE rows each
+ */
+function toSQLInserts(
+  data: Record<string, unknown>[],
+  headers: string[],
+  tableName: string
+): string {
+  if (data.length === 0 || headers.length === 0) return "";
+
+  const prefix = `INSERT INTO ${quoteSQLIdentifier(tableName)} (${headers
+    .map(quoteSQLIdentifier)
+    .join(", ")}) VALUES\n`;
+  const statements: string[] = [];
+
+  for (let i = 0; i < data.length; i += SQL_INSERT_BATCH_SIZE) {
+    const values = data
+      .slice(i, i + SQL_INSERT_BATCH_SIZE)
+      .map((row) => `  (${headers.map((h) => toSQLLiteral(row[h])).join(", ")})`);
+    statements.push(prefix + values.join(",\n") + ";\n");
+  }
+
+  return statements.join("\n") + "\n";
+}
+
 /**
  * Export to XLSX format
  * Note: Requires 'xlsx' package to be installed
@@ -353,8 +494,8 @@ export const USER_EXPORT_COLUMNS: ColumnDefinition[] = [
     width: 20,
     transform: (v) => (v ? new Date(v as string).toISOString() : ""),
   },
-  { key: "emailVerified", label: "Email Verified", width: 15 },
-  { key: "banned", label: "Banned", width: 8 },
+  { key: "emailVerified", label: "Email Verified", width: 15, parquetType: "boolean" },
+  { key: "banned", label: "Banned", width: 8, parquetType: "boolean" },
 ];
 
 /**
@@ -405,16 +546,66 @@ export const ACTIVITY_EXPORT_COLUMNS: ColumnDefinition[] = [
   },
 ];
 
+/**
+ * Common column definitions for content (reviews and comments) export
+ */
+export const CONTENT_EXPORT_COLUMNS: ColumnDefinition[] = [
+  { key: "type", label: "Type", width: 10 },
+  { key: "id", label: "ID", width: 36 },
+  {
+    key: "createdAt",
+    label: "Timestamp",
+    width: 20,
+    transform: (v) => (v ? new Date(v as string).toISOString() : ""),
+  },
+  { key: "userId", label: "User ID", width: 36 },
+  { key: "resourceId", label: "Resource ID", width: 36 },
+  { key: "docSlug", label: "Doc Slug", width: 30 },
+  { key: "rating", label: "Rating", width: 8, parquetType: "double" },
+  { key: "content", label: "Content", width: 60 },
+];
+
+export interface StreamExportOptions extends Omit<ExportOptions, "format"> {
+  format: StreamableExportFormat;
+  /** Called after each chunk with the running row count */
+  onProgress?: (rowCount: number) => void | Promise<void>;
+}
+
+/**
+ * Parquet schema for an export. Declared column types win; the rest are
+ * inferred from `rows`, which must be every row the file will hold.
+ */
+function getParquetColumns(
+  headers: string[],
+  columns: ColumnDefinition[] | undefined,
+  rows: Record<string, unknown>[]
+): ParquetColumn[] {
+  return inferParquetColumns(headers, rows).map((column) => ({
+    ...column,
+    type: columns?.find((c) => c.label === column.name)?.parquetType ?? column.type,
+  }));
+}
+
 /**
  * Utility to stream large exports in chunks
+ *
+ * Each chunk from `dataGenerator` is processed and serialized on its own,
+ * so memory stays bounded by the chunk size. Text formats yield strings;
+ * Parquet yields Buffers (one row group per chunk).
  */
 export async function* streamExport<T extends Record<string, unknown>>(
   dataGenerator: AsyncGenerator<T[], void, unknown>,
-  options: Omit<ExportOptions, "format"> & { format: "csv" }
-): AsyncGenerator<string, void, unknown> {
-  const columns = options.columns;
-  const headers = columns?.map((c) => c.label) || [];
-  let isFirst = true;
+  options: StreamExportOptions
+): AsyncGenerator<string | Buffer, void, unknown> {
+  const { format, columns, prettyPrint = false, onProgress } = options;
+  const tableName = options.tableName || options.sheetName || "export";
+  let headers = columns?.map((c) => c.label) || [];
+  let rowCount = 0;
+  let parquet: ParquetWriter | null = null;
+
+  // Preamble
+  if (format === "json") yield "[";
+  if (format === "sql") yield sqlDumpHeader(tableName);
 
   for await (const chunk of dataGenerator) {
     const processed = processData(
@@ -423,24 +614,86 @@ export async function* streamExport<T extends Record<string, unknown>>(
       options.anonymize,
       options.anonymizeFields
     );
+    if (processed.length === 0) continue;
 
-    // Build CSV rows
-    const rows: string[] = [];
-
-    // Add headers only on first chunk
-    if (isFirst && options.includeHeaders !== false && headers.length > 0) {
-      rows.push(headers.map(escapeCSVField).join(","));
-      isFirst = false;
+    // Without column definitions, headers come from the first row
+    if (headers.length === 0) {
+      headers = Object.keys(processed[0] || {});
     }
 
-    // Add data rows
-    for (const row of processed) {
-      const values = headers.map((header) =>
-        escapeCSVField(formatValue(row[header]))
-      );
-      rows.push(values.join(","));
+    switch (format) {
+      case "json":
+        yield processed
+          .map((row, i) => {
+            const separator = rowCount === 0 && i === 0 ? "\n" : ",\n";
+            const json = prettyPrint
+              ? JSON.stringify(row, null, 2).replace(/\n/g, "\n  ")
+              : JSON.stringify(row);
+            return separator + "  " + json;
+          })
+          .join("");
+        break;
+
+      case "ndjson":
+        yield processed.map(toNDJSONLine).join("");
+        break;
+
+      case "csv": {
+        const rows: string[] = [];
+
+        // Add headers only on first chunk
+        if (rowCount === 0 && options.includeHeaders !== false) {
+          rows.push(headers.map(escapeCSVField).join(","));
+        }
+
+        // Add data rows
+        for (const row of processed) {
+          const values = headers.map((header) =>
+            escapeCSVField(formatValue(row[header]))
+          );
+          rows.push(values.join(","));
+        }
+
+        yield rows.join("\r\n") + "\r\n";
+        break;
+      }
+
+      case "parquet":
+        // Later chunks can't change a column's type, so only declared
+        // types are used and everything else is a string
+        if (!parquet) {
+          parquet = new ParquetWriter(getParquetColumns(headers, columns, []), formatValue);
+          yield parquet.start();
+        }
+        yield parquet.writeRowGroup(processed);
+        break;
+
+      case "sql":
+        yield toSQLInserts(processed, headers, tableName);
+        break;
     }
 
-    yield rows.join("\r\n") + "\r\n";
+    rowCount += processed.length;
+    await onProgress?.(rowCount);
+  }
+
+  // Trailer
+  if (format === "json") yield rowCount > 0 ? "\n]\n" : "]\n";
+  if (format === "sql") yield SQL_DUMP_FOOTER;
+  if (format === "parquet") {
+    if (!parquet) {
+      // No rows: still write a valid file with the known schema
+      parquet = new ParquetWriter(getParquetColumns(headers, columns, []), formatValue);
+      yield parquet.start();
+    }
+    yield parquet.finish();
+  }
+  if (
+    format === "csv" &&
+    rowCount === 0 &&
+    options.includeHeaders !== false &&
+    headers.length > 0
+  ) {
+    yield headers.map(escapeCSVField).join(",") + "\r\n";
   }
 }
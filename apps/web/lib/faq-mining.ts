@@ -0,0 +1,197 @@
+/**
+ * FAQ Mining
+ *
+ * Records questions asked through the assistant, AI search and site search
+ * into clusters (see getQueryClusterKey in lib/faq-generator.ts), and drafts
+ * FAQ entries for the most-asked clusters from the documentation index.
+ * Drafts wait in the /dashboard/faq-analytics review queue until published.
+ */
+
+import "server-only";
+import { pool } from "@/lib/db";
+import { anthropic, DEFAULT_MODEL } from "@/lib/claude";
+import { getRAGContext, searchDocuments } from "@/lib/rag";
+import {
+  detectCategory,
+  getQueryClusterKey,
+  type FAQQuerySource,
+} from "@/lib/faq-generator";
+
+/** A cluster needs this many questions before it's drafted */
+export const MIN_CLUSTER_QUERIES = 5;
+
+/** Only clusters asked about recently are drafted */
+const DRAFT_WINDOW_DAYS = 30;
+
+const SAMPLE_QUERIES_PER_CLUSTER = 5;
+
+export interface FAQCluster {
+  id: string;
+  representative_query: string;
+  category: string;
+  query_count: number;
+  source_counts: Partial<Record<FAQQuerySource, number>>;
+  first_asked_at: string;
+  last_asked_at: string;
+}
+
+export interface DraftFAQsResult {
+  drafted: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Record a question. Never throws - callers fire and forget.
+ */
+export async function recordFaqQuery(input: {
+  query: string;
+  source: FAQQuerySource;
+  userId?: string | null;
+}): Promise<void> {
+  const query = input.query.trim();
+  const clusterKey = getQueryClusterKey(query);
+  if (!clusterKey) return;
+
+  try {
+    const cluster = await pool.query(
+      `INSERT INTO faq_query_clusters (cluster_key, representative_query, category, query_count, source_counts)
+       VALUES ($1, $2, $3, 1, jsonb_build_object($4::text, 1))
+       ON CONFLICT (cluster_key) DO UPDATE SET
+         query_count = faq_query_clusters.query_count + 1,
+         source_counts = faq_query_clusters.source_counts || jsonb_build_object(
+           $4::text, COALESCE((faq_query_clusters.source_counts->>$4)::int, 0) + 1
+         ),
+         last_asked_at = NOW()
+       RETURNING id`,
+      [clusterKey, query, detectCategory(query), input.source]
+    );
+
+    const clusterId = cluster.rows[0]?.id as string | undefined;
+    if (!clusterId) return;
+
+    await pool.query(
+      `INSERT INTO faq_queries (cluster_id, query, source, user_id) VALUES ($1, $2, $3, $4)`,
+      [clusterId, query, input.source, input.userId ?? null]
+    );
+  } catch (error) {
+    console.error("[FAQ Mining] Failed to record query:", error);
+  }
+}
+
+/**
+ * Popular, recently-asked clusters that don't have an FAQ entry yet
+ */
+export async function getClustersReadyForDrafting(limit: number): Promise<FAQCluster[]> {
+  const result = await pool.query(
+    `SELECT c.id, c.representative_query, c.category, c.query_count, c.source_counts,
+            c.first_asked_at, c.last_asked_at
+     FROM faq_query_clusters c
+     WHERE c.query_count >= $1
+       AND c.last_asked_at > NOW() - make_interval(days => $2)
+       AND NOT EXISTS (SELECT 1 FROM faq_entries e WHERE e.cluster_id = c.id)
+     ORDER BY c.query_count DESC, c.last_asked_at DESC
+     LIMIT $3`,
+    [MIN_CLUSTER_QUERIES, DRAFT_WINDOW_DAYS, limit]
+  );
+  return result.rows as FAQCluster[];
+}
+
+/**
+ * Distinct wordings of a cluster's question, most recent first
+ */
+export async function getClusterSampleQueries(clusterId: string): Promise<string[]> {
+  const result = await pool.query(
+    `SELECT query FROM (
+       SELECT DISTINCT ON (lower(query)) query, created_at
+       FROM faq_queries
+       WHERE cluster_id = $1
+       ORDER BY lower(query), created_at DESC
+     ) q
+     ORDER BY created_at DESC
+     LIMIT $2`,
+    [clusterId, SAMPLE_QUERIES_PER_CLUSTER]
+  );
+  return result.rows.map((row) => row.query as string);
+}
+
+/**
+ * Draft an FAQ entry for a cluster, grounded in the documentation index.
+ * Returns the new entry ID, or null when the docs have nothing to go on.
+ */
+export async function draftFaqForCluster(cluster: FAQCluster): Promise<string | null> {
+  const docs = searchDocuments(cluster.representative_query, 4);
+  if (docs.length === 0) return null;
+
+  const ragContext = getRAGContext(cluster.representative_query, 4);
+  const samples = await getClusterSampleQueries(cluster.id);
+
+  const response = await anthropic.messages.create({
+    model: DEFAULT_MODEL,
+    max_tokens: 800,
+    system: `You write FAQ entries for Claude Insider, a documentation site about Claude Code and the Claude API. Given several ways visitors asked the same question and the relevant documentation, write one FAQ entry:
+1. question: a clear, general phrasing of what they're asking
+2. answer: 2-4 sentences answering it using only the documentation provided. Use markdown for inline code. If the documentation doesn't answer it, say what it does cover and where to look.
+
+Output JSON only: {"question":"...","answer":"..."}`,
+    messages: [
+      {
+        role: "user",
+        content: `Visitors asked:\n${samples.map((q) => `- ${q}`).join("\n")}\n${ragContext}`,
+      },
+    ],
+  });
+
+  const content = response.content[0];
+  if (!content || content.type !== "text") {
+    throw new Error("Empty FAQ draft response");
+  }
+
+  const json = content.text.match(/\{[\s\S]*\}/)?.[0];
+  const parsed = json ? (JSON.parse(json) as { question?: unknown; answer?: unknown }) : {};
+  if (typeof parsed.question !== "string" || typeof parsed.answer !== "string") {
+    throw new Error("FAQ draft response was not valid JSON");
+  }
+
+  const sourceDocs = docs.map((doc) => ({ title: doc.chunk.title, url: doc.chunk.url }));
+  const uniqueDocs = sourceDocs.filter(
+    (doc, i) => sourceDocs.findIndex((d) => d.url === doc.url) === i
+  );
+
+  const result = await pool.query(
+    `INSERT INTO faq_entries (cluster_id, question, answer, category, status, origin, source_docs)
+     VALUES ($1, $2, $3, $4, 'draft', 'generated', $5)
+     ON CONFLICT (cluster_id) WHERE cluster_id IS NOT NULL DO NOTHING
+     RETURNING id`,
+    [
+      cluster.id,
+      parsed.question.trim(),
+      parsed.answer.trim(),
+      cluster.category,
+      JSON.stringify(uniqueDocs),
+    ]
+  );
+
+  return (result.rows[0]?.id as string | undefined) ?? null;
+}
+
+/**
+ * Draft FAQ entries for the most popular undrafted clusters
+ */
+export async function draftFaqsFromPopularQueries(limit: number): Promise<DraftFAQsResult> {
+  const clusters = await getClustersReadyForDrafting(limit);
+  const totals: DraftFAQsResult = { drafted: 0, skipped: 0, failed: 0 };
+
+  for (const cluster of clusters) {
+    try {
+      const id = await draftFaqForCluster(cluster);
+      if (id) totals.drafted++;
+      else totals.skipped++;
+    } catch (error) {
+      totals.failed++;
+      console.error(`[FAQ Mining] Failed to draft FAQ for cluster ${cluster.id}:`, error);
+    }
+  }
+
+  return totals;
+}
@@ -1,9 +1,12 @@
 /**
  * Gamification System
  *
- * Points, streaks, levels, and rewards configuration.
+ * Points, streaks, levels, and rewards configuration. Points are awarded
+ * and limits enforced server-side by lib/points-ledger.ts.
  */
 
+import type { AchievementEvent } from "@/lib/achievement-events";
+
 export interface PointAction {
   id: string;
   name: string;
@@ -12,6 +15,8 @@ export interface PointAction {
   category: "reading" | "engagement" | "contribution" | "social";
   daily_limit?: number;
   cooldown_minutes?: number;
+  // Awarded automatically when this event is emitted (lib/achievement-engine.ts)
+  event?: AchievementEvent;
 }
 
 export interface Level {
@@ -30,6 +35,15 @@ export interface Streak {
   freeze_available: boolean;
 }
 
+export type LeaderboardWindow = "weekly" | "monthly" | "season" | "all_time";
+
+export const LEADERBOARD_WINDOWS: Record<LeaderboardWindow, string> = {
+  weekly: "This Week",
+  monthly: "This Month",
+  season: "Season",
+  all_time: "All Time",
+};
+
 export interface LeaderboardEntry {
   user_id: string;
   username: string;
@@ -76,6 +90,7 @@ export const pointActions: PointAction[] = [
     points: 10,
     category: "engagement",
     daily_limit: 1,
+    event: "user.active",
   },
   {
     id: "use_search",
@@ -92,6 +107,7 @@ export const pointActions: PointAction[] = [
     points: 5,
     category: "engagement",
     daily_limit: 10,
+    event: "resource.favorited",
   },
   {
     id: "create_collection",
@@ -100,6 +116,7 @@ export const pointActions: PointAction[] = [
     points: 15,
     category: "engagement",
     daily_limit: 3,
+    event: "collection.created",
   },
 
   // Contribution actions
@@ -110,6 +127,7 @@ export const pointActions: PointAction[] = [
     points: 50,
     category: "contribution",
     daily_limit: 5,
+    event: "suggestion.submitted",
   },
   {
     id: "suggestion_approved",
@@ -117,6 +135,7 @@ export const pointActions: PointAction[] = [
     description: "Your suggestion was approved",
     points: 100,
     category: "contribution",
+    event: "suggestion.approved",
   },
   {
     id: "post_comment",
@@ -125,6 +144,7 @@ export const pointActions: PointAction[] = [
     points: 10,
     category: "contribution",
     daily_limit: 10,
+    event: "comment.created",
   },
   {
     id: "helpful_comment",
@@ -140,6 +160,7 @@ export const pointActions: PointAction[] = [
     points: 20,
     category: "contribution",
     daily_limit: 5,
+    event: "review.created",
   },
 
   // Social actions
@@ -166,6 +187,7 @@ export const pointActions: PointAction[] = [
     points: 5,
     category: "social",
     daily_limit: 10,
+    event: "user.followed",
   },
 ];
 
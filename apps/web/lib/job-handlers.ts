@@ -0,0 +1,419 @@
+/**
+ * Job Handlers
+ *
+ * Typed handler registry for every JobType in lib/job-queue.ts.
+ * Consumed by /api/cron/process-jobs; adding a JobType without a handler
+ * is a compile error because the registry is a mapped type over JobType.
+ */
+
+import "server-only";
+import { pool } from "@/lib/db";
+import { sendEmail, sendBulkEmail, sendNewSignInAlertEmail } from "@/lib/email";
+import {
+  createDonationReceipt,
+  createAnnualStatement,
+  getStatementUrl,
+} from "@/lib/donations/server";
+import { formatDonationAmount } from "@/lib/donations/types";
+import { createNotification, type NotificationType } from "@/app/actions/notifications";
+import { cleanupOldJobs, type Job, type JobPayload, type JobType } from "@/lib/job-queue";
+import { getCurrentEncryptionKeyId } from "@/lib/api-keys";
+import { reencryptStoredApiKeys } from "@/lib/api-key-rotation";
+import { backfillAchievement } from "@/lib/achievement-engine";
+import { deliverWebhook } from "@/lib/webhooks/server";
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || "https://www.claudeinsider.com";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type JobHandler<T extends JobType> = (
+  payload: NonNullable<JobPayload[T]>,
+  job: Job
+) => Promise<void>;
+
+export type JobHandlerRegistry = { [T in JobType]: JobHandler<T> };
+
+// =============================================================================
+// EMAIL JOBS
+// =============================================================================
+
+const handleEmailJob: JobHandler<"email"> = async (payload) => {
+  const result = await sendEmail({
+    to: payload.to,
+    subject: payload.subject,
+    html: payload.html,
+  });
+
+  if (!result.success) {
+    throw new Error(result.error || "Email send failed");
+  }
+
+  console.log(`[JobHandlers] Email sent to ${payload.to}`);
+};
+
+const handleBulkEmailJob: JobHandler<"email_bulk"> = async (payload) => {
+  const result = await sendBulkEmail({
+    emails: payload.emails,
+    subject: payload.subject,
+    html: payload.html,
+    text: payload.text,
+  });
+
+  if (result.failed > 0) {
+    throw new Error(`Bulk email partially failed: ${result.failed}/${payload.emails.length}`);
+  }
+
+  console.log(`[JobHandlers] Bulk email sent to ${result.sent} recipients`);
+};
+
+const handleSignInAlertJob: JobHandler<"sign_in_alert"> = async (payload) => {
+  const userResult = await pool.query(
+    `SELECT email, name FROM "user" WHERE id = $1`,
+    [payload.userId]
+  );
+  const user = userResult.rows[0];
+  if (!user?.email) {
+    console.log(`[JobHandlers] Skipped sign-in alert, user ${payload.userId} has no email`);
+    return;
+  }
+
+  const result = await sendNewSignInAlertEmail({
+    email: user.email,
+    userName: user.name || undefined,
+    device: payload.device,
+    location: payload.location,
+    ipAddress: payload.ipAddress,
+    signedInAt: new Date(payload.signedInAt),
+  });
+
+  if (!result.success) {
+    throw new Error(result.error || "Sign-in alert send failed");
+  }
+
+  console.log(`[JobHandlers] Sign-in alert sent to user ${payload.userId}`);
+};
+
+// =============================================================================
+// DONATION JOBS
+// =============================================================================
+
+const handleDonationReceiptJob: JobHandler<"donation_receipt"> = async (payload) => {
+  await createDonationReceipt(payload.donationId);
+  console.log(`[JobHandlers] Receipt created for donation ${payload.donationId}`);
+};
+
+// Thank-you email for one-time and recurring donations
+const handleDonationThankYouJob: JobHandler<"donation_thank_you"> = async (payload) => {
+  const { email, donorName, amount, currency, isRecurring } = payload;
+
+  // Format amount
+  const formattedAmount = new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+  }).format(amount);
+
+  const subject = isRecurring
+    ? `Thank you for your monthly support! 💜`
+    : `Thank you for your donation! 💜`;
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="text-align: center; margin-bottom: 30px;">
+    <h1 style="color: #7c3aed; margin: 0;">Thank You! 💜</h1>
+  </div>
+
+  <p>Dear ${donorName || "Supporter"},</p>
+
+  <p>Thank you so much for your ${isRecurring ? "monthly " : ""}donation of <strong>${formattedAmount}</strong> to Claude Insider!</p>
+
+  <p>Your generosity helps us continue to provide high-quality documentation, tutorials, and resources for the Claude AI community.</p>
+
+  ${isRecurring ? `
+  <div style="background: linear-gradient(135deg, #7c3aed 0%, #2563eb 100%); color: white; padding: 20px; border-radius: 12px; margin: 20px 0;">
+    <p style="margin: 0; font-weight: 600;">🌟 You're now a Monthly Supporter!</p>
+    <p style="margin: 8px 0 0 0; opacity: 0.9;">Your recurring support makes a huge difference in keeping this project sustainable.</p>
+  </div>
+  ` : ""}
+
+  <p>As a donor, you'll receive:</p>
+  <ul>
+    <li>A special donor badge on your profile</li>
+    <li>Recognition on our donor wall (unless you prefer to remain anonymous)</li>
+    <li>Our heartfelt gratitude! 🙏</li>
+  </ul>
+
+  <p>If you have any questions or feedback, feel free to reach out anytime.</p>
+
+  <p>With gratitude,<br>
+  <strong>Vladimir Dukelic</strong><br>
+  Claude Insider</p>
+
+  <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+
+  <p style="font-size: 12px; color: #6b7280; text-align: center;">
+    This email was sent from <a href="https://www.claudeinsider.com" style="color: #7c3aed;">Claude Insider</a>.<br>
+    You received this because you made a donation.
+  </p>
+</body>
+</html>
+  `.trim();
+
+  const result = await sendEmail({ to: email, subject, html });
+
+  if (!result.success) {
+    throw new Error(result.error || "Thank you email failed");
+  }
+
+  console.log(`[JobHandlers] Thank you email sent to ${email}`);
+};
+
+// Annual statement: generate it and email the donor a download link
+const handleDonationAnnualStatementJob: JobHandler<"donation_annual_statement"> = async (payload) => {
+  const { userId, year } = payload;
+
+  const statement = await createAnnualStatement(userId, year);
+  if (!statement) {
+    console.log(`[JobHandlers] No ${year} donations for user ${userId}, no statement`);
+    return;
+  }
+
+  if (statement.emailed_at) {
+    console.log(`[JobHandlers] ${year} statement already emailed to user ${userId}`);
+    return;
+  }
+
+  const userResult = await pool.query<{ email: string; name: string | null }>(
+    `SELECT email, name FROM "user" WHERE id = $1`,
+    [userId]
+  );
+  const user = userResult.rows[0];
+  if (!user?.email) {
+    console.log(`[JobHandlers] ${year} statement for user ${userId} created, no email on file`);
+    return;
+  }
+
+  const totals = Object.entries(statement.totals)
+    .map(([currency, total]) => formatDonationAmount(total, currency))
+    .join(" + ");
+  const downloadUrl = `${APP_URL}${getStatementUrl(year)}`;
+
+  const html = `
+<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <h1 style="color: #7c3aed; margin: 0 0 20px 0;">Your ${year} Donation Statement</h1>
+
+  <p>Dear ${user.name || "Supporter"},</p>
+
+  <p>Thank you for supporting Claude Insider in ${year}. You made <strong>${statement.donation_count}</strong> donation${statement.donation_count === 1 ? "" : "s"} totalling <strong>${totals}</strong>.</p>
+
+  <p>Your consolidated statement (${statement.statement_number}) is ready for your tax records:</p>
+
+  <p style="text-align: center; margin: 30px 0;">
+    <a href="${downloadUrl}" style="background: #7c3aed; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: 600;">Download Statement (PDF)</a>
+  </p>
+
+  <p>You can also find it, along with receipts for each donation, in your account settings.</p>
+
+  <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 30px 0;">
+
+  <p style="font-size: 12px; color: #6b7280; text-align: center;">
+    This email was sent from <a href="https://www.claudeinsider.com" style="color: #7c3aed;">Claude Insider</a>.<br>
+    You received this because you donated in ${year}.
+  </p>
+</body>
+</html>
+  `.trim();
+
+  const result = await sendEmail({
+    to: user.email,
+    subject: `Your ${year} donation statement from Claude Insider`,
+    html,
+  });
+
+  if (!result.success) {
+    throw new Error(result.error || "Statement email failed");
+  }
+
+  await pool.query(
+    "UPDATE donation_annual_statements SET emailed_at = NOW() WHERE id = $1",
+    [statement.id]
+  );
+
+  console.log(`[JobHandlers] ${year} statement emailed to ${user.email}`);
+};
+
+// =============================================================================
+// WEBHOOK JOBS
+// =============================================================================
+
+const handleWebhookJob: JobHandler<"webhook"> = async (payload) => {
+  const response = await fetch(payload.url, {
+    method: payload.method,
+    headers: {
+      "Content-Type": "application/json",
+      ...payload.headers,
+    },
+    body: payload.body ? JSON.stringify(payload.body) : undefined,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Webhook failed: ${response.status} ${response.statusText}`);
+  }
+
+  console.log(`[JobHandlers] Webhook sent to ${payload.url}`);
+};
+
+const handleWebhookDeliveryJob: JobHandler<"webhook_delivery"> = async (payload, job) => {
+  await deliverWebhook(payload.deliveryId, job.attempts >= job.max_attempts);
+  console.log(`[JobHandlers] Webhook delivery ${payload.deliveryId} sent`);
+};
+
+// =============================================================================
+// NOTIFICATION JOBS
+// =============================================================================
+
+const handleNotificationJob: JobHandler<"notification"> = async (payload) => {
+  const { data } = payload;
+  const str = (value: unknown) => (typeof value === "string" ? value : undefined);
+
+  const result = await createNotification({
+    userId: payload.userId,
+    type: payload.type as NotificationType,
+    title: str(data.title) ?? payload.type,
+    message: str(data.message),
+    data,
+    actorId: str(data.actorId),
+    resourceType: str(data.resourceType),
+    resourceId: str(data.resourceId),
+  });
+
+  if (result.error) {
+    throw new Error(result.error);
+  }
+
+  console.log(`[JobHandlers] Notification for user ${payload.userId}: ${payload.type}`);
+};
+
+// =============================================================================
+// CLEANUP JOBS
+// =============================================================================
+
+/**
+ * Tables that cleanup jobs may prune, and the timestamp column that decides age.
+ * Table names are interpolated into SQL, so only these are accepted.
+ */
+const CLEANUP_TABLES: Record<string, string> = {
+  security_logs: "created_at",
+  api_key_usage_logs: "created_at",
+  email_verification_codes: "expires_at",
+  magic_login_links: "expires_at",
+  webauthn_challenges: "expires_at",
+  webhook_deliveries: "created_at",
+};
+
+const handleCleanupJob: JobHandler<"cleanup"> = async (payload) => {
+  const { table, olderThanDays } = payload;
+
+  if (!Number.isFinite(olderThanDays) || olderThanDays < 1) {
+    throw new Error(`Invalid cleanup age: ${olderThanDays}`);
+  }
+
+  let deleted: number;
+  if (table === "job_queue") {
+    deleted = await cleanupOldJobs(olderThanDays);
+  } else {
+    const column = CLEANUP_TABLES[table];
+    if (!column) {
+      throw new Error(`Cleanup not allowed for table: ${table}`);
+    }
+    const result = await pool.query(
+      `DELETE FROM ${table} WHERE ${column} < now() - ($1 || ' days')::INTERVAL`,
+      [olderThanDays]
+    );
+    deleted = result.rowCount || 0;
+  }
+
+  console.log(`[JobHandlers] Cleanup ${table}: deleted ${deleted} rows older than ${olderThanDays} days`);
+};
+
+// =============================================================================
+// API KEY ROTATION JOBS
+// =============================================================================
+
+const handleApiKeyReencryptJob: JobHandler<"api_key_reencrypt"> = async (payload) => {
+  // A newer rotation schedules its own job
+  if (payload.keyId !== getCurrentEncryptionKeyId()) {
+    console.log(`[JobHandlers] Skipping re-encryption to superseded key ${payload.keyId}`);
+    return;
+  }
+
+  const result = await reencryptStoredApiKeys();
+  if (result.failed > 0) {
+    throw new Error(`Failed to re-encrypt ${result.failed} API keys (${result.reencrypted} succeeded)`);
+  }
+
+  console.log(`[JobHandlers] Re-encrypted ${result.reencrypted} API keys with key ${result.keyId}`);
+};
+
+// =============================================================================
+// ACHIEVEMENT JOBS
+// =============================================================================
+
+const handleAchievementBackfillJob: JobHandler<"achievement_backfill"> = async (payload) => {
+  const result = await backfillAchievement(payload.slug);
+  console.log(`[JobHandlers] Backfilled achievement ${payload.slug}: ${result.awarded} awarded`);
+};
+
+// =============================================================================
+// REGISTRY
+// =============================================================================
+
+export const jobHandlers: JobHandlerRegistry = {
+  email: handleEmailJob,
+  email_bulk: handleBulkEmailJob,
+  sign_in_alert: handleSignInAlertJob,
+  donation_receipt: handleDonationReceiptJob,
+  donation_thank_you: handleDonationThankYouJob,
+  donation_annual_statement: handleDonationAnnualStatementJob,
+  webhook: handleWebhookJob,
+  webhook_delivery: handleWebhookDeliveryJob,
+  notification: handleNotificationJob,
+  cleanup: handleCleanupJob,
+  api_key_reencrypt: handleApiKeyReencryptJob,
+  achievement_backfill: handleAchievementBackfillJob,
+};
+
+function getHandler<T extends JobType>(type: T): JobHandler<T> | undefined {
+  return jobHandlers[type];
+}
+
+/**
+ * Run a claimed job through its handler. Throws on failure so the caller can
+ * hand the error to failJob().
+ */
+export async function runJob(job: Job): Promise<void> {
+  const handler = getHandler(job.type);
+  if (!handler) {
+    throw new Error(`Unknown job type: ${job.type}`);
+  }
+
+  const payload = job.payload[job.type];
+  if (!payload) {
+    throw new Error(`Missing ${job.type} payload`);
+  }
+
+  await handler(payload, job);
+}
@@ -6,6 +6,8 @@
  *
  * Features:
  * - Automatic retries with exponential backoff
+ * - Dead-letter state with full error history once retries are exhausted
+ * - Idempotency keys to prevent duplicate jobs
  * - Priority queue
  * - Delayed/scheduled jobs
  * - Type-safe job definitions
@@ -19,6 +21,9 @@
  *
  * // Add a delayed job (run in 5 minutes)
  * await addJob('reminder', { userId: '...' }, { delay: 5 * 60 * 1000 });
+ *
+ * // Add a job at most once per key
+ * await addJob('donation_receipt', { donationId }, { idempotencyKey: donationId });
  */
 
 import { pool } from "@/lib/db";
@@ -30,11 +35,16 @@ import { pool } from "@/lib/db";
 export type JobType =
   | "email"
   | "email_bulk"
+  | "sign_in_alert"
   | "donation_receipt"
   | "donation_thank_you"
+  | "donation_annual_statement"
   | "webhook"
+  | "webhook_delivery"
   | "notification"
-  | "cleanup";
+  | "cleanup"
+  | "api_key_reencrypt"
+  | "achievement_backfill";
 
 export interface JobPayload {
   // Email jobs
@@ -50,6 +60,14 @@ export interface JobPayload {
     html: string;
     text?: string;
   };
+  // New device alert for a sign-in_events row (lib/sign-in-history.ts)
+  sign_in_alert?: {
+    userId: string;
+    device: string;
+    location: string | null;
+    ipAddress: string | null;
+    signedInAt: string;
+  };
   // Donation jobs
   donation_receipt?: {
     donationId: string;
@@ -61,6 +79,10 @@ export interface JobPayload {
     currency: string;
     isRecurring?: boolean;
   };
+  donation_annual_statement?: {
+    userId: string;
+    year: number;
+  };
   // Webhook jobs
   webhook?: {
     url: string;
@@ -68,6 +90,10 @@ export interface JobPayload {
     headers?: Record<string, string>;
     body?: unknown;
   };
+  // Signed delivery to a registered endpoint (lib/webhooks/server.ts)
+  webhook_delivery?: {
+    deliveryId: string;
+  };
   // Notification jobs
   notification?: {
     userId: string;
@@ -79,13 +105,34 @@ export interface JobPayload {
     table: string;
     olderThanDays: number;
   };
+  // Re-encrypt stored user API keys with the given master key
+  api_key_reencrypt?: {
+    keyId: string;
+  };
+  // Award an achievement retroactively after it is published or its rule changes
+  achievement_backfill?: {
+    slug: string;
+  };
+}
+
+export type JobStatus =
+  | "pending"
+  | "processing"
+  | "completed"
+  | "dead_letter"
+  | "cancelled";
+
+export interface JobError {
+  attempt: number;
+  error: string;
+  failedAt: string;
 }
 
 export interface Job {
   id: string;
   type: JobType;
   payload: JobPayload;
-  status: "pending" | "processing" | "completed" | "failed" | "cancelled";
+  status: JobStatus;
   attempts: number;
   max_attempts: number;
   run_at: string;
@@ -95,12 +142,23 @@ export interface Job {
   completed_at: string | null;
   last_error: string | null;
   error_count: number;
+  error_history: JobError[];
+  dead_lettered_at: string | null;
+  idempotency_key: string | null;
 }
 
 export interface AddJobOptions {
   priority?: number; // Higher = more important (default: 0)
   delay?: number; // Milliseconds to wait before running
   maxAttempts?: number; // Max retry attempts (default: 3)
+  idempotencyKey?: string; // Skip enqueueing if a job of this type already has this key
+}
+
+export interface ListJobsOptions {
+  status?: JobStatus;
+  type?: JobType;
+  limit?: number;
+  offset?: number;
 }
 
 export interface QueueStats {
@@ -113,6 +171,10 @@ export interface QueueStats {
 // JOB QUEUE FUNCTIONS
 // =============================================================================
 
+// Retry backoff: 30s, 60s, 120s, ... capped at 1 hour
+const RETRY_BASE_DELAY_SECONDS = 30;
+const RETRY_MAX_DELAY_SECONDS = 60 * 60;
+
 /**
  * Add a job to the queue
  */
@@ -121,16 +183,27 @@ export async function addJob(
   payload: JobPayload[JobType],
   options: AddJobOptions = {}
 ): Promise<string> {
-  const { priority = 0, delay = 0, maxAttempts = 3 } = options;
+  const { priority = 0, delay = 0, maxAttempts = 3, idempotencyKey } = options;
   const runAt = delay > 0 ? new Date(Date.now() + delay).toISOString() : new Date().toISOString();
 
   const result = await pool.query(
-    `INSERT INTO job_queue (type, payload, priority, run_at, max_attempts)
-     VALUES ($1, $2, $3, $4, $5)
+    `INSERT INTO job_queue (type, payload, priority, run_at, max_attempts, idempotency_key)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (type, idempotency_key) WHERE idempotency_key IS NOT NULL DO NOTHING
      RETURNING id`,
-    [type, JSON.stringify({ [type]: payload }), priority, runAt, maxAttempts]
+    [type, JSON.stringify({ [type]: payload }), priority, runAt, maxAttempts, idempotencyKey ?? null]
   );
 
+  if (result.rows.length === 0 && idempotencyKey) {
+    const existing = await pool.query(
+      `SELECT id FROM job_queue WHERE type = $1 AND idempotency_key = $2`,
+      [type, idempotencyKey]
+    );
+    const existingId = existing.rows[0]?.id;
+    console.log(`[JobQueue] Skipped duplicate job: ${type} (key: ${idempotencyKey}, id: ${existingId})`);
+    return existingId;
+  }
+
   const jobId = result.rows[0]?.id;
   console.log(`[JobQueue] Added job: ${type} (id: ${jobId})`);
   return jobId;
@@ -195,20 +268,38 @@ export async function completeJob(jobId: string): Promise<void> {
 }
 
 /**
- * Mark a job as failed (will retry if attempts < max_attempts)
+ * Mark a job as failed.
+ * Retries with exponential backoff while attempts < max_attempts,
+ * then moves the job to the dead-letter state.
  */
 export async function failJob(jobId: string, error: string): Promise<void> {
-  await pool.query(
+  const result = await pool.query(
     `UPDATE job_queue
      SET
-       status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'pending' END,
+       status = CASE WHEN attempts >= max_attempts THEN 'dead_letter' ELSE 'pending' END,
        last_error = $2,
        error_count = error_count + 1,
+       error_history = error_history || jsonb_build_array(jsonb_build_object(
+         'attempt', attempts,
+         'error', $2::TEXT,
+         'failedAt', now()
+       )),
+       dead_lettered_at = CASE WHEN attempts >= max_attempts THEN now() ELSE NULL END,
+       run_at = CASE
+         WHEN attempts >= max_attempts THEN run_at
+         ELSE now() + LEAST($3 * POWER(2, GREATEST(attempts - 1, 0)), $4) * INTERVAL '1 second'
+       END,
        started_at = CASE WHEN attempts >= max_attempts THEN started_at ELSE NULL END
-     WHERE id = $1`,
-    [jobId, error]
+     WHERE id = $1
+     RETURNING status`,
+    [jobId, error, RETRY_BASE_DELAY_SECONDS, RETRY_MAX_DELAY_SECONDS]
   );
-  console.log(`[JobQueue] Failed job: ${jobId} - ${error}`);
+
+  if (result.rows[0]?.status === "dead_letter") {
+    console.error(`[JobQueue] Dead-lettered job: ${jobId} - ${error}`);
+  } else {
+    console.log(`[JobQueue] Failed job: ${jobId} - ${error}`);
+  }
 }
 
 /**
@@ -223,12 +314,99 @@ export async function getQueueStats(): Promise<QueueStats[]> {
 }
 
 /**
- * Clean up old completed jobs
+ * List jobs, most recent first
+ */
+export async function listJobs(
+  options: ListJobsOptions = {}
+): Promise<{ jobs: Job[]; total: number }> {
+  const { status, type, limit = 50, offset = 0 } = options;
+
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (status) {
+    params.push(status);
+    conditions.push(`status = $${params.length}`);
+  }
+  if (type) {
+    params.push(type);
+    conditions.push(`type = $${params.length}`);
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+
+  const [jobsResult, countResult] = await Promise.all([
+    pool.query(
+      `SELECT * FROM job_queue ${where}
+       ORDER BY COALESCE(dead_lettered_at, created_at) DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    ),
+    pool.query(`SELECT COUNT(*)::INT as count FROM job_queue ${where}`, params),
+  ]);
+
+  return {
+    jobs: jobsResult.rows as Job[],
+    total: countResult.rows[0]?.count ?? 0,
+  };
+}
+
+/**
+ * Get a single job with its payload and error history
+ */
+export async function getJob(jobId: string): Promise<Job | null> {
+  const result = await pool.query(`SELECT * FROM job_queue WHERE id = $1`, [jobId]);
+  return (result.rows[0] as Job | undefined) ?? null;
+}
+
+/**
+ * Re-queue dead-lettered or cancelled jobs with a fresh set of attempts.
+ * Error history is kept so repeated failures stay visible.
+ */
+export async function retryJobs(jobIds: string[]): Promise<number> {
+  if (jobIds.length === 0) return 0;
+
+  const result = await pool.query(
+    `UPDATE job_queue
+     SET
+       status = 'pending',
+       attempts = 0,
+       run_at = now(),
+       started_at = NULL,
+       completed_at = NULL,
+       dead_lettered_at = NULL
+     WHERE id = ANY($1::UUID[])
+       AND status IN ('dead_letter', 'cancelled')`,
+    [jobIds]
+  );
+  const retried = result.rowCount || 0;
+  console.log(`[JobQueue] Retried ${retried} jobs`);
+  return retried;
+}
+
+/**
+ * Cancel jobs that are waiting to run or sitting in the dead-letter state
+ */
+export async function cancelJobs(jobIds: string[]): Promise<number> {
+  if (jobIds.length === 0) return 0;
+
+  const result = await pool.query(
+    `UPDATE job_queue
+     SET status = 'cancelled', completed_at = now()
+     WHERE id = ANY($1::UUID[])
+       AND status IN ('pending', 'dead_letter')`,
+    [jobIds]
+  );
+  const cancelled = result.rowCount || 0;
+  console.log(`[JobQueue] Cancelled ${cancelled} jobs`);
+  return cancelled;
+}
+
+/**
+ * Clean up old completed and cancelled jobs (dead letters are kept for inspection)
  */
 export async function cleanupOldJobs(days: number = 7): Promise<number> {
   const result = await pool.query(
     `DELETE FROM job_queue
-     WHERE status IN ('completed', 'failed', 'cancelled')
+     WHERE status IN ('completed', 'cancelled')
        AND completed_at < now() - ($1 || ' days')::INTERVAL`,
     [days]
   );
@@ -248,15 +426,25 @@ export async function queueEmail(
   to: string,
   subject: string,
   html: string,
-  options: { text?: string; priority?: number } = {}
+  options: { text?: string; priority?: number; idempotencyKey?: string } = {}
 ): Promise<string> {
   return addJob(
     "email",
     { to, subject, html, text: options.text },
-    { priority: options.priority ?? 5 }
+    { priority: options.priority ?? 5, idempotencyKey: options.idempotencyKey }
   );
 }
 
+/**
+ * Queue a new device sign-in alert, keyed by its sign_in_events row
+ */
+export async function queueSignInAlert(
+  eventId: string,
+  alert: NonNullable<JobPayload["sign_in_alert"]>
+): Promise<string> {
+  return addJob("sign_in_alert", alert, { priority: 8, idempotencyKey: eventId });
+}
+
 /**
  * Queue a donation thank you email
  */
@@ -281,7 +469,18 @@ export async function queueDonationReceipt(donationId: string): Promise<string>
   return addJob(
     "donation_receipt",
     { donationId },
-    { priority: 8 }
+    { priority: 8, idempotencyKey: donationId } // One receipt per donation
+  );
+}
+
+/**
+ * Queue a donor's annual statement (generated and emailed once per year)
+ */
+export async function queueAnnualStatement(userId: string, year: number): Promise<string> {
+  return addJob(
+    "donation_annual_statement",
+    { userId, year },
+    { priority: 3, idempotencyKey: `${userId}:${year}` }
   );
 }
 
@@ -291,7 +490,12 @@ export async function queueDonationReceipt(donationId: string): Promise<string>
 export async function queueWebhook(
   url: string,
   body: unknown,
-  options: { method?: "POST" | "GET"; headers?: Record<string, string>; priority?: number } = {}
+  options: {
+    method?: "POST" | "GET";
+    headers?: Record<string, string>;
+    priority?: number;
+    idempotencyKey?: string;
+  } = {}
 ): Promise<string> {
   return addJob(
     "webhook",
@@ -301,6 +505,20 @@ export async function queueWebhook(
       headers: options.headers,
       body,
     },
-    { priority: options.priority ?? 5 }
+    { priority: options.priority ?? 5, idempotencyKey: options.idempotencyKey }
+  );
+}
+
+/**
+ * Queue a delivery to a registered webhook endpoint
+ */
+export async function queueWebhookDelivery(
+  deliveryId: string,
+  options: { idempotencyKey?: string } = {}
+): Promise<string> {
+  return addJob(
+    "webhook_delivery",
+    { deliveryId },
+    { priority: 5, maxAttempts: 5, idempotencyKey: options.idempotencyKey }
   );
 }
@@ -0,0 +1,344 @@
+/**
+ * Leaderboards
+ *
+ * Rankings over the points ledger (lib/points-ledger.ts) for a window:
+ * this calendar week (ISO, Monday-based), this calendar month, the current
+ * season (leaderboard_seasons) or all time. Windows are UTC. Accounts with
+ * a confirmed farming flag are left out.
+ *
+ * Completed weeks, months and seasons are archived into leaderboard_results
+ * by /api/cron/leaderboards, so past standings survive later adjustments.
+ */
+
+import "server-only";
+import { pool } from "@/lib/db";
+import {
+  getLevelFromPoints,
+  LEADERBOARD_WINDOWS,
+  type LeaderboardEntry,
+  type LeaderboardWindow,
+} from "@/lib/gamification";
+
+export type ArchivedPeriod = Exclude<LeaderboardWindow, "all_time">;
+
+export interface LeaderboardRange {
+  window: LeaderboardWindow;
+  /** "2026-W42", "2026-10", a season slug, or "all_time" */
+  key: string;
+  label: string;
+  startsAt: Date | null;
+  endsAt: Date | null;
+}
+
+export interface LeaderboardSeason {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  startsAt: string;
+  endsAt: string;
+  archivedAt: string | null;
+}
+
+export interface ArchivedLeaderboard {
+  period: ArchivedPeriod;
+  key: string;
+  startsAt: string;
+  endsAt: string;
+  entries: number;
+}
+
+type DatedRange = LeaderboardRange & { startsAt: Date; endsAt: Date };
+
+// Standings kept per archived period
+const ARCHIVE_SIZE = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Per-user points between $1 and $2 (either may be null)
+ */
+const STANDINGS = `SELECT l.user_id, SUM(l.points)::int AS points, MAX(l.created_at) AS last_earned_at
+  FROM points_ledger l
+  WHERE ($1::timestamptz IS NULL OR l.created_at >= $1)
+    AND ($2::timestamptz IS NULL OR l.created_at < $2)
+    AND NOT EXISTS (
+      SELECT 1 FROM points_flags f WHERE f.user_id = l.user_id AND f.status = 'confirmed'
+    )
+  GROUP BY l.user_id
+  HAVING SUM(l.points) > 0`;
+
+function toSeason(row: Record<string, unknown>): LeaderboardSeason {
+  return {
+    id: row.id as string,
+    slug: row.slug as string,
+    name: row.name as string,
+    description: (row.description as string | null) ?? null,
+    startsAt: (row.starts_at as Date).toISOString(),
+    endsAt: (row.ends_at as Date).toISOString(),
+    archivedAt: row.archived_at ? (row.archived_at as Date).toISOString() : null,
+  };
+}
+
+function getWeekRange(at: Date): DatedRange {
+  const daysSinceMonday = (at.getUTCDay() + 6) % 7;
+  const start = new Date(
+    Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate() - daysSinceMonday)
+  );
+  const end = new Date(start.getTime() + 7 * DAY_MS);
+
+  // The ISO week belongs to the year of its Thursday
+  const thursday = new Date(start.getTime() + 3 * DAY_MS);
+  const year = thursday.getUTCFullYear();
+  const week = Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / (7 * DAY_MS)) + 1;
+
+  return {
+    window: "weekly",
+    key: `${year}-W${String(week).padStart(2, "0")}`,
+    label: `Week of ${start.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" })}`,
+    startsAt: start,
+    endsAt: end,
+  };
+}
+
+function getMonthRange(at: Date): DatedRange {
+  const start = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), 1));
+  const end = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth() + 1, 1));
+
+  return {
+    window: "monthly",
+    key: `${start.getUTCFullYear()}-${String(start.getUTCMonth() + 1).padStart(2, "0")}`,
+    label: start.toLocaleDateString("en-US", { month: "long", year: "numeric", timeZone: "UTC" }),
+    startsAt: start,
+    endsAt: end,
+  };
+}
+
+function getSeasonRange(season: LeaderboardSeason): DatedRange {
+  return {
+    window: "season",
+    key: season.slug,
+    label: season.name,
+    startsAt: new Date(season.startsAt),
+    endsAt: new Date(season.endsAt),
+  };
+}
+
+/**
+ * The season running at `at`, if any. Overlapping seasons resolve to the
+ * most recently started.
+ */
+export async function getCurrentSeason(at: Date = new Date()): Promise<LeaderboardSeason | null> {
+  const result = await pool.query(
+    `SELECT * FROM leaderboard_seasons
+     WHERE starts_at <= $1 AND ends_at > $1
+     ORDER BY starts_at DESC
+     LIMIT 1`,
+    [at]
+  );
+  return result.rows[0] ? toSeason(result.rows[0]) : null;
+}
+
+/**
+ * The window containing `at`. Null for "season" when no season is running.
+ */
+export async function getLeaderboardRange(
+  window: LeaderboardWindow,
+  at: Date = new Date()
+): Promise<LeaderboardRange | null> {
+  switch (window) {
+    case "weekly":
+      return getWeekRange(at);
+    case "monthly":
+      return getMonthRange(at);
+    case "season": {
+      const season = await getCurrentSeason(at);
+      return season ? getSeasonRange(season) : null;
+    }
+    default:
+      return {
+        window: "all_time",
+        key: "all_time",
+        label: LEADERBOARD_WINDOWS.all_time,
+        startsAt: null,
+        endsAt: null,
+      };
+  }
+}
+
+/**
+ * Top users for the current window
+ */
+export async function getLeaderboard(
+  window: LeaderboardWindow,
+  limit: number = 10
+): Promise<{ range: LeaderboardRange | null; entries: LeaderboardEntry[] }> {
+  const range = await getLeaderboardRange(window);
+  if (!range) {
+    return { range: null, entries: [] };
+  }
+
+  const result = await pool.query(
+    `SELECT s.user_id, s.points, u.username, u.image,
+       (SELECT COALESCE(SUM(t.points), 0)::int FROM points_ledger t WHERE t.user_id = s.user_id) AS total_points
+     FROM (${STANDINGS}) s
+     JOIN "user" u ON u.id = s.user_id
+     ORDER BY s.points DESC, s.last_earned_at ASC
+     LIMIT $3`,
+    [range.startsAt, range.endsAt, limit]
+  );
+
+  const entries: LeaderboardEntry[] = result.rows.map((row, index) => ({
+    user_id: row.user_id,
+    username: row.username || "Anonymous",
+    avatar: row.image || undefined,
+    points: row.points,
+    // Levels always reflect all-time points
+    level: getLevelFromPoints(row.total_points).level,
+    rank: index + 1,
+    streak: 0,
+  }));
+
+  return { range, entries };
+}
+
+/**
+ * Snapshot the final standings of a completed window, once: a period that
+ * was already archived is left as it is. Returns how many rows were written.
+ */
+export async function archiveLeaderboard(range: LeaderboardRange): Promise<number> {
+  if (range.window === "all_time" || !range.startsAt || !range.endsAt) {
+    throw new Error("Only weekly, monthly and season leaderboards can be archived");
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const claimed = await client.query(
+      `INSERT INTO leaderboard_archives (period, period_key)
+       VALUES ($1, $2)
+       ON CONFLICT (period, period_key) DO NOTHING`,
+      [range.window, range.key]
+    );
+
+    let written = 0;
+    if (claimed.rowCount) {
+      const result = await client.query(
+        `INSERT INTO leaderboard_results (period, period_key, starts_at, ends_at, user_id, rank, points)
+         SELECT $3, $4, $1, $2, s.user_id,
+           ROW_NUMBER() OVER (ORDER BY s.points DESC, s.last_earned_at ASC), s.points
+         FROM (${STANDINGS} ORDER BY points DESC, last_earned_at ASC LIMIT $5) s`,
+        [range.startsAt, range.endsAt, range.window, range.key, ARCHIVE_SIZE]
+      );
+      written = result.rowCount ?? 0;
+    }
+
+    await client.query("COMMIT");
+    return written;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Archive last week, last month and every ended season that hasn't been
+ * archived yet
+ */
+export async function archiveCompletedLeaderboards(now: Date = new Date()): Promise<{
+  weekly: string;
+  monthly: string;
+  seasons: string[];
+}> {
+  const currentWeek = getWeekRange(now);
+  const lastWeek = getWeekRange(new Date(currentWeek.startsAt.getTime() - 1));
+  await archiveLeaderboard(lastWeek);
+
+  const currentMonth = getMonthRange(now);
+  const lastMonth = getMonthRange(new Date(currentMonth.startsAt.getTime() - 1));
+  await archiveLeaderboard(lastMonth);
+
+  const ended = await pool.query(
+    `SELECT * FROM leaderboard_seasons
+     WHERE ends_at <= $1 AND archived_at IS NULL
+     ORDER BY ends_at`,
+    [now]
+  );
+
+  const seasons: string[] = [];
+  for (const row of ended.rows) {
+    const season = toSeason(row);
+    await archiveLeaderboard(getSeasonRange(season));
+    await pool.query(
+      `UPDATE leaderboard_seasons SET archived_at = NOW() WHERE id = $1`,
+      [season.id]
+    );
+    seasons.push(season.slug);
+  }
+
+  return { weekly: lastWeek.key, monthly: lastMonth.key, seasons };
+}
+
+/**
+ * Seasons, newest first
+ */
+export async function listSeasons(): Promise<LeaderboardSeason[]> {
+  const result = await pool.query(
+    `SELECT * FROM leaderboard_seasons ORDER BY starts_at DESC`
+  );
+  return result.rows.map(toSeason);
+}
+
+/**
+ * Archived periods, newest first
+ */
+export async function listArchivedLeaderboards(limit: number = 20): Promise<ArchivedLeaderboard[]> {
+  const result = await pool.query(
+    `SELECT period, period_key, starts_at, ends_at, COUNT(*)::int AS entries
+     FROM leaderboard_results
+     GROUP BY period, period_key, starts_at, ends_at
+     ORDER BY ends_at DESC, period
+     LIMIT $1`,
+    [limit]
+  );
+
+  return result.rows.map((row) => ({
+    period: row.period,
+    key: row.period_key,
+    startsAt: row.starts_at.toISOString(),
+    endsAt: row.ends_at.toISOString(),
+    entries: row.entries,
+  }));
+}
+
+/**
+ * Final standings of an archived period
+ */
+export async function getArchivedLeaderboard(
+  period: ArchivedPeriod,
+  key: string,
+  limit: number = 10
+): Promise<LeaderboardEntry[]> {
+  const result = await pool.query(
+    `SELECT r.user_id, r.rank, r.points, u.username, u.image
+     FROM leaderboard_results r
+     JOIN "user" u ON u.id = r.user_id
+     WHERE r.period = $1 AND r.period_key = $2
+     ORDER BY r.rank
+     LIMIT $3`,
+    [period, key, limit]
+  );
+
+  return result.rows.map((row) => ({
+    user_id: row.user_id,
+    username: row.username || "Anonymous",
+    avatar: row.image || undefined,
+    points: row.points,
+    level: getLevelFromPoints(row.points).level,
+    rank: row.rank,
+    streak: 0,
+  }));
+}
@@ -0,0 +1,96 @@
+/**
+ * Message Reactions Utility
+ *
+ * Shared between the messaging server actions, which aggregate
+ * dm_message_reactions rows, and the conversation view, which applies
+ * realtime reaction events to the aggregated lists.
+ */
+
+/**
+ * Emoji offered in the quick reaction picker
+ */
+export const QUICK_REACTIONS = ["👍", "❤️", "😂", "🎉", "😮", "😢"];
+
+/** Emoji characters only (including ZWJ sequences and skin tones) */
+const EMOJI_REGEX = /^(?:\p{Extended_Pictographic}|\p{Emoji_Component}|\u200d|\ufe0f)+$/u;
+
+export interface MessageReaction {
+  emoji: string;
+  count: number;
+  userIds: string[];
+}
+
+export interface ReactionChange {
+  messageId: string;
+  userId: string;
+  emoji: string;
+  added: boolean;
+}
+
+/**
+ * Check that a reaction is a single short emoji sequence
+ */
+export function isValidReactionEmoji(emoji: string): boolean {
+  // Emoji_Component alone also matches digits, # and *
+  return (
+    emoji.length > 0 &&
+    emoji.length <= 16 &&
+    EMOJI_REGEX.test(emoji) &&
+    /\p{Extended_Pictographic}/u.test(emoji)
+  );
+}
+
+/**
+ * Aggregate reaction rows into per-emoji counts, in order of first use
+ */
+export function summarizeReactions(
+  rows: Array<{ user_id: string; emoji: string }>
+): MessageReaction[] {
+  const byEmoji = new Map<string, MessageReaction>();
+
+  for (const row of rows) {
+    const existing = byEmoji.get(row.emoji);
+    if (existing) {
+      if (!existing.userIds.includes(row.user_id)) {
+        existing.userIds.push(row.user_id);
+        existing.count++;
+      }
+    } else {
+      byEmoji.set(row.emoji, { emoji: row.emoji, count: 1, userIds: [row.user_id] });
+    }
+  }
+
+  return Array.from(byEmoji.values());
+}
+
+/**
+ * Apply a single add/remove to an aggregated reaction list
+ */
+export function applyReactionChange(
+  reactions: MessageReaction[] | undefined,
+  change: ReactionChange
+): MessageReaction[] {
+  const list = reactions ?? [];
+  const existing = list.find((r) => r.emoji === change.emoji);
+
+  if (change.added) {
+    if (existing?.userIds.includes(change.userId)) return list;
+    if (existing) {
+      return list.map((r) =>
+        r.emoji === change.emoji
+          ? { ...r, count: r.count + 1, userIds: [...r.userIds, change.userId] }
+          : r
+      );
+    }
+    return [...list, { emoji: change.emoji, count: 1, userIds: [change.userId] }];
+  }
+
+  if (!existing?.userIds.includes(change.userId)) return list;
+  return list
+    .map((r) =>
+      r.emoji === change.emoji
+        ? { ...r, count: r.count - 1, userIds: r.userIds.filter((id) => id !== change.userId) }
+        : r
+    )
+    .filter((r) => r.count > 0);
+}
@@ -0,0 +1,283 @@
+/**
+ * Notification Digests
+ *
+ * Queue and deliver push/email notifications that were batched into an
+ * hourly or daily digest, or held back by quiet hours (see
+ * lib/notification-routing.ts). Queued items are delivered by
+ * /api/cron/send-digests?frequency=hourly as one email and one push per user.
+ */
+
+import "server-only";
+import { pool } from "@/lib/db";
+import { sendDigestEmail, type DigestEmailParams } from "@/lib/email";
+import { sendPushNotificationToUser, isWebPushConfigured } from "@/lib/web-push";
+import {
+  DEFAULT_QUIET_HOURS,
+  isWithinQuietHours,
+  type QuietHours,
+} from "@/lib/notification-routing";
+import { getNextTimeInTimezone } from "@/lib/timezone";
+
+export type DigestReason = "hourly" | "daily" | "quiet_hours";
+
+export interface QueuedDigestItem {
+  id: string;
+  type: string;
+  title: string;
+  message: string | null;
+  action_url: string | null;
+  send_push: boolean;
+  send_email: boolean;
+  reason: DigestReason;
+  deliver_after: string;
+  created_at: string;
+}
+
+export interface DigestSummary {
+  stats: DigestEmailParams["stats"];
+  highlights: DigestEmailParams["highlights"];
+  total: number;
+}
+
+const MAX_DIGEST_ITEMS = 50;
+
+/**
+ * Add a batched or held-back notification to the user's digest queue
+ */
+export async function queueDigestItem(item: {
+  userId: string;
+  notificationId?: string;
+  type: string;
+  title: string;
+  message?: string;
+  actionUrl?: string;
+  sendPush: boolean;
+  sendEmail: boolean;
+  reason: DigestReason;
+  deliverAfter: Date;
+}): Promise<void> {
+  await pool.query(
+    `INSERT INTO notification_digest_queue
+       (user_id, notification_id, type, title, message, action_url, send_push, send_email, reason, deliver_after)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+    [
+      item.userId,
+      item.notificationId ?? null,
+      item.type,
+      item.title,
+      item.message ?? null,
+      item.actionUrl ?? null,
+      item.sendPush,
+      item.sendEmail,
+      item.reason,
+      item.deliverAfter.toISOString(),
+    ]
+  );
+}
+
+/**
+ * Undelivered digest items for a user, oldest first
+ */
+export async function getQueuedDigestItems(userId: string): Promise<QueuedDigestItem[]> {
+  const result = await pool.query(
+    `SELECT id, type, title, message, action_url, send_push, send_email, reason, deliver_after, created_at
+     FROM notification_digest_queue
+     WHERE user_id = $1 AND delivered_at IS NULL
+     ORDER BY created_at ASC
+     LIMIT $2`,
+    [userId, MAX_DIGEST_ITEMS]
+  );
+  return result.rows as QueuedDigestItem[];
+}
+
+/**
+ * Map notification type to digest highlight type
+ */
+function mapNotificationType(type: string): DigestEmailParams["highlights"][0]["type"] {
+  switch (type) {
+    case "comment":
+      return "comment";
+    case "reply":
+      return "reply";
+    case "follow":
+      return "follow";
+    case "mention":
+      return "mention";
+    case "suggestion_approved":
+    case "suggestion_rejected":
+    case "suggestion_merged":
+      return "suggestion";
+    default:
+      return "comment";
+  }
+}
+
+/**
+ * Count notifications by category and pick the first five as highlights
+ */
+export function buildDigestSummary(
+  items: { type: string; title: string; message: string | null; created_at: string; action_url?: string | null }[]
+): DigestSummary {
+  const stats = {
+    newComments: 0,
+    newReplies: 0,
+    newFollowers: 0,
+    newMentions: 0,
+    suggestionsUpdated: 0,
+  };
+  const highlights: DigestEmailParams["highlights"] = [];
+
+  for (const item of items) {
+    switch (item.type) {
+      case "comment":
+        stats.newComments++;
+        break;
+      case "reply":
+        stats.newReplies++;
+        break;
+      case "follow":
+        stats.newFollowers++;
+        break;
+      case "mention":
+        stats.newMentions++;
+        break;
+      case "suggestion_approved":
+      case "suggestion_rejected":
+      case "suggestion_merged":
+        stats.suggestionsUpdated++;
+        break;
+    }
+
+    if (highlights.length < 5) {
+      highlights.push({
+        type: mapNotificationType(item.type),
+        title: item.title,
+        message: item.message || "",
+        url: item.action_url || undefined,
+        timestamp: item.created_at,
+      });
+    }
+  }
+
+  return { stats, highlights, total: items.length };
+}
+
+interface DueDigestRow extends QueuedDigestItem {
+  user_id: string;
+  email: string | null;
+  name: string | null;
+  timezone: string | null;
+  quiet_hours_enabled: boolean | null;
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+}
+
+export interface DeliverDigestsResult {
+  users: number;
+  delivered: number;
+  deferred: number;
+  failed: number;
+}
+
+/**
+ * Deliver every digest item that is due, grouped per user.
+ * Users currently in quiet hours are pushed back to when they end.
+ */
+export async function deliverDueDigests(now: Date = new Date()): Promise<DeliverDigestsResult> {
+  const result = await pool.query(
+    `SELECT
+       q.id, q.user_id, q.type, q.title, q.message, q.action_url,
+       q.send_push, q.send_email, q.reason, q.deliver_after, q.created_at,
+       u.email, u.name, u.timezone,
+       np.quiet_hours_enabled, np.quiet_hours_start::text, np.quiet_hours_end::text
+     FROM notification_digest_queue q
+     JOIN "user" u ON u.id = q.user_id
+     LEFT JOIN notification_preferences np ON np.user_id = q.user_id
+     WHERE q.delivered_at IS NULL AND q.deliver_after <= $1
+     ORDER BY q.user_id, q.created_at ASC`,
+    [now.toISOString()]
+  );
+
+  const byUser = new Map<string, DueDigestRow[]>();
+  for (const row of result.rows as DueDigestRow[]) {
+    const rows = byUser.get(row.user_id);
+    if (rows) rows.push(row);
+    else byUser.set(row.user_id, [row]);
+  }
+
+  const totals: DeliverDigestsResult = { users: byUser.size, delivered: 0, deferred: 0, failed: 0 };
+
+  for (const [userId, rows] of byUser) {
+    const first = rows[0];
+    if (!first) continue;
+    const ids = rows.map((r) => r.id);
+
+    const quietHours: QuietHours = {
+      enabled: first.quiet_hours_enabled === true,
+      start: first.quiet_hours_start ?? DEFAULT_QUIET_HOURS.start,
+      end: first.quiet_hours_end ?? DEFAULT_QUIET_HOURS.end,
+      timezone: first.timezone || "UTC",
+    };
+
+    // Quiet hours may have been turned on after these were queued
+    if (isWithinQuietHours(quietHours, now)) {
+      await pool.query(
+        `UPDATE notification_digest_queue SET deliver_after = $1 WHERE id = ANY($2)`,
+        [getNextTimeInTimezone(quietHours.timezone, quietHours.end, now).toISOString(), ids]
+      );
+      totals.deferred += ids.length;
+      continue;
+    }
+
+    try {
+      const emailRows = rows.filter((r) => r.send_email);
+      const pushRows = rows.filter((r) => r.send_push);
+
+      if (emailRows.length > 0 && first.email) {
+        const emailSummary = buildDigestSummary(emailRows);
+        const emailResult = await sendDigestEmail({
+          email: first.email,
+          userName: first.name || undefined,
+          frequency: emailRows.every((r) => r.reason === "hourly") ? "hourly" : "daily",
+          period: formatDigestPeriod(emailRows, now),
+          stats: emailSummary.stats,
+          highlights: emailSummary.highlights,
+        });
+        if (!emailResult.success) {
+          throw new Error(emailResult.error || "Digest email failed");
+        }
+      }
+
+      if (pushRows.length > 0 && isWebPushConfigured()) {
+        const latest = pushRows[pushRows.length - 1];
+        await sendPushNotificationToUser(userId, {
+          title: "Claude Insider",
+          body:
+            pushRows.length === 1 && latest
+              ? latest.title
+              : `${pushRows.length} new notifications while you were away`,
+          url: "/notifications",
+          tag: "notification-digest",
+          data: { digest: true, count: pushRows.length },
+        });
+      }
+
+      await pool.query(
+        `UPDATE notification_digest_queue SET delivered_at = $1 WHERE id = ANY($2)`,
+        [now.toISOString(), ids]
+      );
+      totals.delivered += ids.length;
+    } catch (error) {
+      totals.failed += ids.length;
+      console.error(`[Digest] Failed to deliver queued digest for ${userId}:`, error);
+    }
+  }
+
+  return totals;
+}
+
+function formatDigestPeriod(rows: { created_at: string }[], now: Date): string {
+  const options: Intl.DateTimeFormatOptions = { month: "short", day: "numeric", hour: "numeric", minute: "2-digit" };
+  const start = new Date(rows[0]?.created_at ?? now);
+  return `${start.toLocaleString("en-US", options)} - ${now.toLocaleString("en-US", options)}`;
+}
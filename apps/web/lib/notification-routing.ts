@@ -0,0 +1,218 @@
+/**
+ * Notification Routing
+ *
+ * Per-type channel routing, quiet hours and digest scheduling for
+ * notifications. Shared by createNotification() in
+ * app/actions/notifications.ts, the digest cron and the settings UI.
+ *
+ * Each notification type routes to any of in-app, web push and email.
+ * Push and email are either sent immediately or batched into an hourly or
+ * daily digest. In-app notifications are always created immediately; quiet
+ * hours hold back push and email until they end, then deliver them as a
+ * digest.
+ *
+ * Types without an explicit route fall back to the legacy per-category
+ * toggles (in_app_comments, email_replies, browser_notifications, ...).
+ */
+
+import type { NotificationPreferences, NotificationType } from "@/app/actions/notifications";
+import { getNextTimeInTimezone, isTimeInRange } from "@/lib/timezone";
+
+export type NotificationChannel = "in_app" | "push" | "email";
+export type NotificationDelivery = "immediate" | "hourly" | "daily";
+export type NotificationPriority = "high" | "normal" | "low";
+
+export interface ChannelRoute {
+  in_app: boolean;
+  push: boolean;
+  email: boolean;
+  delivery: NotificationDelivery;
+}
+
+export type NotificationRouting = Partial<Record<NotificationType, ChannelRoute>>;
+
+export interface NotificationTypeInfo {
+  type: NotificationType;
+  label: string;
+  description: string;
+  priority: NotificationPriority;
+}
+
+/**
+ * Types users can route, in settings order. Low-priority types default to
+ * the daily digest. Admin notifications pick their own channels when sent
+ * (see /api/cron/send-notifications), so they aren't routable.
+ */
+export const NOTIFICATION_TYPE_INFO: NotificationTypeInfo[] = [
+  { type: "mention", label: "Mentions", description: "Someone mentions you", priority: "high" },
+  { type: "reply", label: "Replies", description: "Replies to your comments", priority: "high" },
+  { type: "comment", label: "Comments", description: "Comments on your content", priority: "normal" },
+  { type: "suggestion_approved", label: "Suggestion approved", description: "Your edit suggestion was approved", priority: "normal" },
+  { type: "suggestion_rejected", label: "Suggestion rejected", description: "Your edit suggestion was rejected", priority: "normal" },
+  { type: "suggestion_merged", label: "Suggestion merged", description: "Your edit suggestion was merged", priority: "normal" },
+  { type: "follow", label: "New followers", description: "Someone starts following you", priority: "low" },
+  { type: "version_update", label: "Version updates", description: "New releases and features", priority: "low" },
+  { type: "system", label: "System", description: "Account and security notices", priority: "high" },
+];
+
+export const NOTIFICATION_DELIVERY_OPTIONS: { value: NotificationDelivery; label: string }[] = [
+  { value: "immediate", label: "Immediately" },
+  { value: "hourly", label: "Hourly digest" },
+  { value: "daily", label: "Daily digest" },
+];
+
+/** Local time daily digests go out, matching the legacy digest schedule */
+export const DAILY_DIGEST_TIME = "09:00";
+
+export const DEFAULT_QUIET_HOURS = { start: "22:00", end: "07:00" } as const;
+
+/**
+ * Legacy preference columns that routing falls back to
+ */
+export interface LegacyChannelPreferences {
+  [key: string]: unknown;
+  browser_notifications?: boolean;
+}
+
+export function getNotificationPriority(type: NotificationType): NotificationPriority {
+  return NOTIFICATION_TYPE_INFO.find((t) => t.type === type)?.priority ?? "normal";
+}
+
+/**
+ * Coerce a stored route into a complete ChannelRoute, or null if unusable
+ */
+function normalizeRoute(raw: unknown): ChannelRoute | null {
+  if (!raw || typeof raw !== "object") return null;
+  const route = raw as Record<string, unknown>;
+  return {
+    in_app: route.in_app !== false,
+    push: route.push === true,
+    email: route.email === true,
+    delivery: NOTIFICATION_DELIVERY_OPTIONS.some((o) => o.value === route.delivery)
+      ? (route.delivery as NotificationDelivery)
+      : "immediate",
+  };
+}
+
+/**
+ * Read the stored channel_routing JSON, dropping unknown types and bad routes
+ */
+export function normalizeNotificationRouting(raw: unknown): NotificationRouting {
+  const routing: NotificationRouting = {};
+  if (!raw || typeof raw !== "object") return routing;
+
+  for (const { type } of NOTIFICATION_TYPE_INFO) {
+    const route = normalizeRoute((raw as Record<string, unknown>)[type]);
+    if (route) routing[type] = route;
+  }
+  return routing;
+}
+
+/**
+ * Resolve where a notification goes for a user
+ *
+ * @param prefs - notification_preferences row (or null for defaults)
+ */
+export function resolveChannelRoute(
+  type: NotificationType,
+  prefs: LegacyChannelPreferences | null
+): ChannelRoute {
+  const explicit = normalizeNotificationRouting(prefs?.channel_routing)[type];
+  if (explicit) return explicit;
+
+  return {
+    in_app: prefs ? prefs[getInAppPrefKey(type)] !== false : true,
+    push: prefs ? prefs.browser_notifications === true : false,
+    email: prefs ? prefs[getEmailPrefKey(type)] === true : false,
+    delivery: getNotificationPriority(type) === "low" ? "daily" : "immediate",
+  };
+}
+
+/**
+ * Get in-app preference key for notification type
+ */
+export function getInAppPrefKey(type: NotificationType): keyof NotificationPreferences {
+  switch (type) {
+    case "comment":
+      return "in_app_comments";
+    case "reply":
+      return "in_app_replies";
+    case "suggestion_approved":
+    case "suggestion_rejected":
+    case "suggestion_merged":
+      return "in_app_suggestions";
+    case "follow":
+      return "in_app_follows";
+    case "mention":
+      return "in_app_mentions";
+    case "version_update":
+      return "in_app_version_updates";
+    default:
+      return "in_app_comments"; // Default fallback
+  }
+}
+
+/**
+ * Get email preference key for notification type
+ */
+export function getEmailPrefKey(type: NotificationType): keyof NotificationPreferences {
+  switch (type) {
+    case "comment":
+      return "email_comments";
+    case "reply":
+      return "email_replies";
+    case "suggestion_approved":
+    case "suggestion_rejected":
+    case "suggestion_merged":
+      return "email_suggestions";
+    case "follow":
+      return "email_follows";
+    case "version_update":
+      return "email_version_updates";
+    default:
+      return "email_comments"; // Default fallback
+  }
+}
+
+// =============================================================================
+// QUIET HOURS & SCHEDULING
+// =============================================================================
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+  timezone: string;
+}
+
+/**
+ * Whether `date` falls inside the user's quiet hours
+ */
+export function isWithinQuietHours(quietHours: QuietHours, date: Date = new Date()): boolean {
+  return quietHours.enabled && isTimeInRange(quietHours.timezone, quietHours.start, quietHours.end, date);
+}
+
+/**
+ * When a batched or held-back notification should be delivered
+ */
+export function getDigestDeliveryTime(
+  delivery: NotificationDelivery,
+  quietHours: QuietHours,
+  from: Date = new Date()
+): Date {
+  let deliverAt: Date;
+  if (delivery === "daily") {
+    deliverAt = getNextTimeInTimezone(quietHours.timezone, DAILY_DIGEST_TIME, from);
+  } else if (delivery === "hourly") {
+    deliverAt = new Date(from);
+    deliverAt.setUTCMinutes(60, 0, 0);
+  } else {
+    deliverAt = from;
+  }
+
+  // Anything landing in quiet hours waits for them to end
+  if (isWithinQuietHours(quietHours, deliverAt)) {
+    deliverAt = getNextTimeInTimezone(quietHours.timezone, quietHours.end, deliverAt);
+  }
+  return deliverAt;
+}
@@ -0,0 +1,382 @@
+/**
+ * Parquet Writer
+ *
+ * Minimal streaming Apache Parquet writer for admin exports.
+ * Writes one row group per batch so large exports never sit in memory:
+ *
+ *   "PAR1" | row group | row group | ... | footer (FileMetaData) | len | "PAR1"
+ *
+ * Scope is deliberately small:
+ * - Flat schema, every column OPTIONAL
+ * - Column types: DOUBLE, BOOLEAN, or UTF8 string, fixed for the whole file
+ * - One PLAIN-encoded, uncompressed data page (v1) per column chunk
+ *
+ * The footer is encoded with the Thrift compact protocol, which is all the
+ * Parquet spec requires of a writer.
+ */
+
+export type ParquetColumnType = "double" | "boolean" | "string";
+
+export interface ParquetColumn {
+  name: string;
+  type: ParquetColumnType;
+}
+
+// Parquet enums (parquet.thrift)
+const PHYSICAL_TYPE = { boolean: 0, double: 5, string: 6 } as const; // BOOLEAN, DOUBLE, BYTE_ARRAY
+const CONVERTED_TYPE_UTF8 = 0;
+const REPETITION_OPTIONAL = 1;
+const ENCODING_PLAIN = 0;
+const ENCODING_RLE = 3;
+const CODEC_UNCOMPRESSED = 0;
+const PAGE_TYPE_DATA = 0;
+
+const MAGIC = Buffer.from("PAR1", "ascii");
+
+/**
+ * Infer column types from rows. A column is numeric or boolean only if
+ * every non-null value is; otherwise it is a string. Pass every row the
+ * file will hold: later values that don't fit the type are lost.
+ */
+export function inferParquetColumns(
+  headers: string[],
+  rows: Record<string, unknown>[]
+): ParquetColumn[] {
+  return headers.map((name) => {
+    let type: ParquetColumnType | null = null;
+    for (const row of rows) {
+      const value = row[name];
+      if (value === null || value === undefined) continue;
+      const valueType: ParquetColumnType =
+        typeof value === "number" && Number.isFinite(value)
+          ? "double"
+          : typeof value === "boolean"
+            ? "boolean"
+            : "string";
+      if (type && type !== valueType) return { name, type: "string" };
+      type = valueType;
+    }
+    return { name, type: type ?? "string" };
+  });
+}
+
+interface ColumnChunkMeta {
+  column: ParquetColumn;
+  numValues: number;
+  offset: number;
+  size: number;
+}
+
+interface RowGroupMeta {
+  numRows: number;
+  totalByteSize: number;
+  chunks: ColumnChunkMeta[];
+}
+
+/**
+ * Streaming writer. Call `start()` once, `writeRowGroup()` per batch,
+ * then `finish()`; each returns the bytes to append to the file.
+ */
+export class ParquetWriter {
+  private offset = 0;
+  private numRows = 0;
+  private readonly rowGroups: RowGroupMeta[] = [];
+
+  constructor(
+    private readonly columns: ParquetColumn[],
+    private readonly formatValue: (value: unknown) => string = String
+  ) {}
+
+  start(): Buffer {
+    this.offset = MAGIC.length;
+    return MAGIC;
+  }
+
+  writeRowGroup(rows: Record<string, unknown>[]): Buffer {
+    if (rows.length === 0) return Buffer.alloc(0);
+
+    const parts: Buffer[] = [];
+    const chunks: ColumnChunkMeta[] = [];
+    const groupStart = this.offset;
+
+    for (const column of this.columns) {
+      const page = this.encodeColumnPage(column, rows);
+      chunks.push({
+        column,
+        numValues: rows.length,
+        offset: this.offset,
+        size: page.length,
+      });
+      parts.push(page);
+      this.offset += page.length;
+    }
+
+    this.rowGroups.push({
+      numRows: rows.length,
+      totalByteSize: this.offset - groupStart,
+      chunks,
+    });
+    this.numRows += rows.length;
+
+    return Buffer.concat(parts);
+  }
+
+  finish(): Buffer {
+    const footer = this.encodeFileMetaData();
+    const length = Buffer.alloc(4);
+    length.writeUInt32LE(footer.length, 0);
+    return Buffer.concat([footer, length, MAGIC]);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Pages
+  // ---------------------------------------------------------------------------
+
+  private encodeColumnPage(column: ParquetColumn, rows: Record<string, unknown>[]): Buffer {
+    const defined: boolean[] = [];
+    const values: unknown[] = [];
+
+    for (const row of rows) {
+      const value = this.coerce(column, row[column.name]);
+      defined.push(value !== null);
+      if (value !== null) values.push(value);
+    }
+
+    // Definition levels (max level 1) with a 4-byte length prefix; no
+    // repetition levels because the schema is flat
+    const levels = encodeBitPackedHybrid(defined);
+    const levelsLength = Buffer.alloc(4);
+    levelsLength.writeUInt32LE(levels.length, 0);
+
+    const body = Buffer.concat([levelsLength, levels, this.encodePlain(column, values)]);
+
+    const header = new CompactWriter();
+    header.i32(1, PAGE_TYPE_DATA);
+    header.i32(2, body.length);
+    header.i32(3, body.length);
+    header.structBegin(5); // data_page_header
+    header.i32(1, rows.length);
+    header.i32(2, ENCODING_PLAIN);
+    header.i32(3, ENCODING_RLE);
+    header.i32(4, ENCODING_RLE);
+    header.structEnd();
+    header.stop();
+
+    return Buffer.concat([header.toBuffer(), body]);
+  }
+
+  private coerce(column: ParquetColumn, value: unknown): unknown {
+    if (value === null || value === undefined) return null;
+    switch (column.type) {
+      case "double": {
+        const num = typeof value === "number" ? value : Number(value);
+        return Number.isFinite(num) ? num : null;
+      }
+      case "boolean":
+        return typeof value === "boolean" ? value : value === "true";
+      default:
+        return this.formatValue(value);
+    }
+  }
+
+  private encodePlain(column: ParquetColumn, values: unknown[]): Buffer {
+    switch (column.type) {
+      case "double": {
+        const buffer = Buffer.alloc(values.length * 8);
+        values.forEach((v, i) => buffer.writeDoubleLE(v as number, i * 8));
+        return buffer;
+      }
+      case "boolean": {
+        const buffer = Buffer.alloc(Math.ceil(values.length / 8));
+        values.forEach((v, i) => {
+          if (v) buffer[i >> 3] = (buffer[i >> 3] ?? 0) | (1 << (i & 7));
+        });
+        return buffer;
+      }
+      default: {
+        const parts: Buffer[] = [];
+        for (const v of values) {
+          const bytes = Buffer.from(v as string, "utf-8");
+          const length = Buffer.alloc(4);
+          length.writeUInt32LE(bytes.length, 0);
+          parts.push(length, bytes);
+        }
+        return Buffer.concat(parts);
+      }
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Footer
+  // ---------------------------------------------------------------------------
+
+  private encodeFileMetaData(): Buffer {
+    const w = new CompactWriter();
+    w.i32(1, 1); // version
+
+    // Schema: root element followed by one leaf per column
+    w.listBegin(2, CompactType.STRUCT, this.columns.length + 1);
+    w.elementStructBegin();
+    w.string(4, "schema");
+    w.i32(5, this.columns.length);
+    w.elementStructEnd();
+    for (const column of this.columns) {
+      w.elementStructBegin();
+      w.i32(1, PHYSICAL_TYPE[column.type]);
+      w.i32(3, REPETITION_OPTIONAL);
+      w.string(4, column.name);
+      if (column.type === "string") w.i32(6, CONVERTED_TYPE_UTF8);
+      w.elementStructEnd();
+    }
+
+    w.i64(3, this.numRows);
+
+    w.listBegin(4, CompactType.STRUCT, this.rowGroups.length);
+    for (const group of this.rowGroups) {
+      w.elementStructBegin();
+      w.listBegin(1, CompactType.STRUCT, group.chunks.length);
+      for (const chunk of group.chunks) {
+        w.elementStructBegin();
+        w.i64(2, chunk.offset); // file_offset
+        w.structBegin(3); // meta_data
+        w.i32(1, PHYSICAL_TYPE[chunk.column.type]);
+        w.listBegin(2, CompactType.I32, 2);
+        w.elementI32(ENCODING_PLAIN);
+        w.elementI32(ENCODING_RLE);
+        w.listBegin(3, CompactType.BINARY, 1);
+        w.elementString(chunk.column.name);
+        w.i32(4, CODEC_UNCOMPRESSED);
+        w.i64(5, chunk.numValues);
+        w.i64(6, chunk.size);
+        w.i64(7, chunk.size);
+        w.i64(9, chunk.offset); // data_page_offset
+        w.structEnd();
+        w.elementStructEnd();
+      }
+      w.i64(2, group.totalByteSize);
+      w.i64(3, group.numRows);
+      w.elementStructEnd();
+    }
+
+    w.string(6, "Claude Insider export");
+    w.stop();
+    return w.toBuffer();
+  }
+}
+
+/**
+ * RLE/bit-packed hybrid encoding of bit width 1, as a single bit-packed run
+ */
+function encodeBitPackedHybrid(bits: boolean[]): Buffer {
+  const groups = Math.ceil(bits.length / 8);
+  const packed = Buffer.alloc(groups);
+  bits.forEach((bit, i) => {
+    if (bit) packed[i >> 3] = (packed[i >> 3] ?? 0) | (1 << (i & 7));
+  });
+  return Buffer.concat([encodeVarint((groups << 1) | 1), packed]);
+}
+
+function encodeVarint(value: number | bigint): Buffer {
+  let n = BigInt(value);
+  const bytes: number[] = [];
+  while (n >= BigInt(0x80)) {
+    bytes.push(Number(n & BigInt(0x7f)) | 0x80);
+    n >>= BigInt(7);
+  }
+  bytes.push(Number(n));
+  return Buffer.from(bytes);
+}
+
+function zigzag(value: number): bigint {
+  const n = BigInt(value);
+  return n >= BigInt(0) ? n << BigInt(1) : ((-n) << BigInt(1)) - BigInt(1);
+}
+
+// Thrift compact protocol type ids
+const CompactType = {
+  STOP: 0,
+  I32: 5,
+  I64: 6,
+  BINARY: 8,
+  LIST: 9,
+  STRUCT: 12,
+} as const;
+
+/**
+ * Just enough of the Thrift compact protocol to write Parquet metadata
+ */
+class CompactWriter {
+  private readonly parts: Buffer[] = [];
+  private lastFieldId = 0;
+  private readonly fieldIdStack: number[] = [];
+
+  private fieldHeader(fieldId: number, type: number): void {
+    const delta = fieldId - this.lastFieldId;
+    if (delta > 0 && delta <= 15) {
+      this.parts.push(Buffer.from([(delta << 4) | type]));
+    } else {
+      this.parts.push(Buffer.from([type]), encodeVarint(zigzag(fieldId)));
+    }
+    this.lastFieldId = fieldId;
+  }
+
+  i32(fieldId: number, value: number): void {
+    this.fieldHeader(fieldId, CompactType.I32);
+    this.parts.push(encodeVarint(zigzag(value)));
+  }
+
+  i64(fieldId: number, value: number): void {
+    this.fieldHeader(fieldId, CompactType.I64);
+    this.parts.push(encodeVarint(zigzag(value)));
+  }
+
+  string(fieldId: number, value: string): void {
+    this.fieldHeader(fieldId, CompactType.BINARY);
+    this.elementString(value);
+  }
+
+  listBegin(fieldId: number, elementType: number, size: number): void {
+    this.fieldHeader(fieldId, CompactType.LIST);
+    if (size < 15) {
+      this.parts.push(Buffer.from([(size << 4) | elementType]));
+    } else {
+      this.parts.push(Buffer.from([0xf0 | elementType]), encodeVarint(size));
+    }
+  }
+
+  elementI32(value: number): void {
+    this.parts.push(encodeVarint(zigzag(value)));
+  }
+
+  elementString(value: string): void {
+    const bytes = Buffer.from(value, "utf-8");
+    this.parts.push(encodeVarint(bytes.length), bytes);
+  }
+
+  structBegin(fieldId: number): void {
+    this.fieldHeader(fieldId, CompactType.STRUCT);
+    this.elementStructBegin();
+  }
+
+  structEnd(): void {
+    this.elementStructEnd();
+  }
+
+  elementStructBegin(): void {
+    this.fieldIdStack.push(this.lastFieldId);
+    this.lastFieldId = 0;
+  }
+
+  elementStructEnd(): void {
+    this.stop();
+    this.lastFieldId = this.fieldIdStack.pop() ?? 0;
+  }
+
+  stop(): void {
+    this.parts.push(Buffer.from([CompactType.STOP]));
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.concat(this.parts);
+  }
+}
@@ -4,9 +4,15 @@
  * Syncs achievements, tiers, and categories from Payload CMS to Supabase.
  * This enables the existing frontend code to continue reading from Supabase
  * while admins manage content through Payload CMS.
+ *
+ * Achievement rules (trigger, condition, availability) are evaluated by
+ * lib/achievement-engine.ts. Publishing a rule or changing it queues an
+ * achievement_backfill job so existing users earn it retroactively.
  */
 
 import { pool } from '@/lib/db';
+import { addJob } from '@/lib/job-queue';
+import { isAchievementCondition, isAchievementEvent } from '@/lib/achievement-events';
 
 /**
  * Map Payload tier slug to Supabase tier value
@@ -33,11 +39,16 @@ interface PayloadAchievement {
   icon: string;
   basePoints: number;
   conditionType: string;
-  metric?: string;
+  trigger?: string | null;
   threshold?: number;
+  windowDays?: number | null;
   isActive: boolean;
   isHidden: boolean;
   isSecret: boolean;
+  isLimited?: boolean;
+  startDate?: string | null;
+  endDate?: string | null;
+  updatedAt?: string;
   tier?: {
     id: string | number;
     slug: string;
@@ -111,13 +122,19 @@ export async function syncAchievementToSupabase(
       }
     }
 
-    // Map condition type and value
-    const requirementType = doc.conditionType || 'special';
+    // Map the rule. A rule without a known trigger can't be evaluated.
+    const requirementType = isAchievementCondition(doc.conditionType) ? doc.conditionType : 'special';
     const requirementValue = doc.threshold || 1;
+    const triggerEvent =
+      requirementType !== 'special' && isAchievementEvent(doc.trigger) ? doc.trigger : null;
+    const windowDays = requirementType === 'threshold' ? doc.windowDays || null : null;
 
     await pool.query(
-      `INSERT INTO public.achievements (slug, name, description, icon, category, points, tier, requirement_type, requirement_value, is_hidden)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      `INSERT INTO public.achievements (
+         slug, name, description, icon, category, points, tier, requirement_type, requirement_value,
+         is_hidden, trigger_event, window_days, is_active, available_from, available_until
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
        ON CONFLICT (slug) DO UPDATE SET
          name = EXCLUDED.name,
          description = EXCLUDED.description,
@@ -127,7 +144,12 @@ export async function syncAchievementToSupabase(
          tier = EXCLUDED.tier,
          requirement_type = EXCLUDED.requirement_type,
          requirement_value = EXCLUDED.requirement_value,
-         is_hidden = EXCLUDED.is_hidden`,
+         is_hidden = EXCLUDED.is_hidden,
+         trigger_event = EXCLUDED.trigger_event,
+         window_days = EXCLUDED.window_days,
+         is_active = EXCLUDED.is_active,
+         available_from = EXCLUDED.available_from,
+         available_until = EXCLUDED.available_until`,
       [
         doc.slug,
         doc.name,
@@ -139,6 +161,11 @@ export async function syncAchievementToSupabase(
         requirementType,
         requirementValue,
         doc.isHidden || doc.isSecret || false,
+        triggerEvent,
+        windowDays,
+        doc.isActive !== false,
+        doc.isLimited ? doc.startDate || null : null,
+        doc.isLimited ? doc.endDate || null : null,
       ]
     );
 
@@ -149,6 +176,41 @@ export async function syncAchievementToSupabase(
   }
 }
 
+/**
+ * Whether saving `doc` published a rule or changed how it is earned, so
+ * users who already qualify should be awarded it
+ */
+function needsBackfill(doc: PayloadAchievement, previousDoc?: PayloadAchievement): boolean {
+  const isEvaluated = (d?: PayloadAchievement) =>
+    !!d && d.isActive !== false && d.conditionType !== 'special' && isAchievementEvent(d.trigger);
+
+  if (!isEvaluated(doc)) return false;
+  if (!previousDoc || !isEvaluated(previousDoc)) return true;
+
+  const ruleFields = (d: PayloadAchievement) =>
+    [
+      d.conditionType,
+      d.trigger,
+      d.threshold,
+      d.windowDays,
+      d.isLimited,
+      d.startDate,
+      d.endDate,
+    ].join('|');
+  return ruleFields(doc) !== ruleFields(previousDoc);
+}
+
+/**
+ * Queue a retroactive award of an achievement
+ */
+export async function queueAchievementBackfill(doc: PayloadAchievement): Promise<string> {
+  return addJob(
+    'achievement_backfill',
+    { slug: doc.slug },
+    { idempotencyKey: `${doc.slug}:${doc.updatedAt ?? Date.now()}` }
+  );
+}
+
 /**
  * Delete an achievement from Supabase
  */
@@ -168,15 +230,23 @@ export async function deleteAchievementFromSupabase(slug: string): Promise<void>
 export function createAchievementSyncHook() {
   return async ({
     doc,
+    previousDoc,
     operation,
   }: {
     doc: PayloadAchievement;
+    previousDoc?: PayloadAchievement;
     operation: 'create' | 'update';
   }) => {
     // Fire and forget - don't block the CMS response
-    syncAchievementToSupabase(doc, operation).catch((error) => {
-      console.error('[Sync Hook] Achievement sync failed:', error);
-    });
+    syncAchievementToSupabase(doc, operation)
+      .then(async () => {
+        if (needsBackfill(doc, operation === 'update' ? previousDoc : undefined)) {
+          await queueAchievementBackfill(doc);
+        }
+      })
+      .catch((error) => {
+        console.error('[Sync Hook] Achievement sync failed:', error);
+      });
 
     return doc;
   };
@@ -6,6 +6,7 @@
  */
 
 import { pool } from '@/lib/db';
+import { emitResourcePublished } from '@/lib/webhooks/server';
 
 interface PayloadResource {
   id: string | number;
@@ -97,8 +98,10 @@ export async function syncResourceToSupabase(
     // Generate slug from title
     const slug = generateSlug(doc.title);
 
-    await pool.query(
-      `INSERT INTO resources (
+    // The CTE sees the row as it was before the upsert
+    const upserted = await pool.query<{ id: string; was_published: boolean | null }>(
+      `WITH previous AS (SELECT is_published FROM resources WHERE slug = $1)
+      INSERT INTO resources (
         slug, title, description, url, category, status, is_featured, featured_reason,
         difficulty, version, namespace,
         github_owner, github_repo, github_stars, github_forks, github_last_commit, github_language,
@@ -124,7 +127,8 @@ export async function syncResourceToSupabase(
         github_language = EXCLUDED.github_language,
         last_verified_at = EXCLUDED.last_verified_at,
         is_published = EXCLUDED.is_published,
-        updated_at = NOW()`,
+        updated_at = NOW()
+      RETURNING id, (SELECT is_published FROM previous) AS was_published`,
       [
         slug,
         doc.title,
@@ -149,6 +153,17 @@ export async function syncResourceToSupabase(
       ]
     );
 
+    const synced = upserted.rows[0];
+    if (isPublished && synced && !synced.was_published) {
+      await emitResourcePublished({
+        id: synced.id,
+        slug,
+        title: doc.title,
+        description: doc.description,
+        category: categorySlug,
+      });
+    }
+
     // Sync tags if present
     if (doc.tags && Array.isArray(doc.tags) && doc.tags.length > 0) {
       // Get resource ID
@@ -0,0 +1,218 @@
+/**
+ * Points Ledger
+ *
+ * Every point a user earns is a row in points_ledger (migration 121):
+ * point actions from lib/gamification.ts, awarded here with their daily
+ * limits and cooldowns enforced, and achievement points. The ledger is
+ * append-only; totals and leaderboards (lib/leaderboards.ts) are sums over it.
+ *
+ * After each award the account is checked for farming: earning points too
+ * fast, or earning while the visitor trust score (lib/trust-score.ts) is
+ * suspicious, opens a points_flags entry for moderators. A confirmed flag
+ * freezes the account's points.
+ */
+
+import "server-only";
+import { pool } from "@/lib/db";
+import { createAdminClient } from "@/lib/supabase/server";
+import { getPointAction, pointActions, type PointAction } from "@/lib/gamification";
+import { getTrustScore, TRUST_THRESHOLDS } from "@/lib/trust-score";
+import type { AchievementEvent } from "@/lib/achievement-events";
+
+export type PointsRejection =
+  | "unknown_action"
+  | "daily_limit"
+  | "cooldown"
+  | "duplicate"
+  | "frozen"
+  | "error";
+
+export type PointsAwardResult =
+  | { awarded: true; points: number }
+  | { awarded: false; reason: PointsRejection };
+
+export type PointsFlagReason = "velocity" | "low_trust";
+
+export type PointsFlagStatus = "open" | "dismissed" | "confirmed";
+
+// Farming detection
+const VELOCITY_MAX_POINTS_PER_HOUR = 300;
+const LOW_TRUST_MIN_POINTS_PER_DAY = 50;
+
+/**
+ * Award a point action. `subjectId` identifies what the points are for (a
+ * comment, a doc...); an action only pays once per subject. Never throws.
+ */
+export async function awardPoints(
+  userId: string,
+  actionId: string,
+  subjectId?: string
+): Promise<PointsAwardResult> {
+  const action = getPointAction(actionId);
+  if (!action) {
+    return { awarded: false, reason: "unknown_action" };
+  }
+
+  let result: PointsAwardResult;
+  try {
+    result = await insertAward(userId, action, subjectId ?? null);
+  } catch (error) {
+    console.error(`[Points] Failed to award ${action.id} to ${userId}:`, error);
+    return { awarded: false, reason: "error" };
+  }
+
+  if (result.awarded) {
+    await detectFarming(userId);
+  }
+
+  return result;
+}
+
+async function insertAward(
+  userId: string,
+  action: PointAction,
+  subjectId: string | null
+): Promise<PointsAwardResult> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    // Serialize awards of the same action to the same user so concurrent
+    // requests can't both pass the limit checks
+    await client.query(`SELECT pg_advisory_xact_lock(hashtext($1))`, [
+      `points:${userId}:${action.id}`,
+    ]);
+
+    const usage = await client.query(
+      `SELECT
+         EXISTS (SELECT 1 FROM points_flags WHERE user_id = $1 AND status = 'confirmed') AS frozen,
+         (SELECT COUNT(*)::int FROM points_ledger
+          WHERE user_id = $1 AND action = $2
+            AND created_at >= date_trunc('day', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC') AS today,
+         (SELECT MAX(created_at) FROM points_ledger WHERE user_id = $1 AND action = $2) AS last_at`,
+      [userId, action.id]
+    );
+    const { frozen, today, last_at: lastAt } = usage.rows[0];
+
+    let result: PointsAwardResult;
+    if (frozen) {
+      result = { awarded: false, reason: "frozen" };
+    } else if (action.daily_limit !== undefined && today >= action.daily_limit) {
+      result = { awarded: false, reason: "daily_limit" };
+    } else if (
+      action.cooldown_minutes !== undefined &&
+      lastAt &&
+      Date.now() - new Date(lastAt).getTime() < action.cooldown_minutes * 60 * 1000
+    ) {
+      result = { awarded: false, reason: "cooldown" };
+    } else {
+      const inserted = await client.query(
+        `INSERT INTO points_ledger (user_id, action, points, reason, subject_id)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (user_id, action, subject_id) WHERE subject_id IS NOT NULL DO NOTHING`,
+        [userId, action.id, action.points, action.name, subjectId]
+      );
+      result =
+        inserted.rowCount === 0
+          ? { awarded: false, reason: "duplicate" }
+          : { awarded: true, points: action.points };
+    }
+
+    await client.query("COMMIT");
+    return result;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Award the point action tied to an achievement event, if any
+ */
+export async function awardPointsForEvent(
+  userId: string,
+  event: AchievementEvent,
+  subjectId: string
+): Promise<PointsAwardResult | null> {
+  const action = pointActions.find((a) => a.event === event);
+  if (!action) return null;
+  return awardPoints(userId, action.id, subjectId);
+}
+
+/**
+ * Record the points of a newly earned achievement. Achievements have no
+ * limits, but a frozen account doesn't receive the points.
+ */
+export async function recordAchievementPoints(
+  userId: string,
+  achievement: { slug: string; name: string; points: number }
+): Promise<void> {
+  await pool.query(
+    `INSERT INTO points_ledger (user_id, action, points, reason, subject_id)
+     SELECT $1, 'achievement', $2, $3, $4
+     WHERE NOT EXISTS (SELECT 1 FROM points_flags WHERE user_id = $1 AND status = 'confirmed')
+     ON CONFLICT (user_id, action, subject_id) WHERE subject_id IS NOT NULL DO NOTHING`,
+    [userId, achievement.points, `Achievement: ${achievement.name}`, achievement.slug]
+  );
+}
+
+/**
+ * Flag the account if its recent point velocity or trust score looks like
+ * farming. Never throws.
+ */
+export async function detectFarming(userId: string): Promise<void> {
+  try {
+    const velocity = await pool.query(
+      `SELECT
+         COALESCE(SUM(points) FILTER (WHERE created_at > NOW() - INTERVAL '1 hour'), 0)::int AS last_hour,
+         COALESCE(SUM(points), 0)::int AS last_day
+       FROM points_ledger
+       WHERE user_id = $1 AND action <> 'achievement' AND points > 0
+         AND created_at > NOW() - INTERVAL '1 day'`,
+      [userId]
+    );
+    const { last_hour: lastHour, last_day: lastDay } = velocity.rows[0];
+
+    if (lastHour > VELOCITY_MAX_POINTS_PER_HOUR) {
+      await openFlag(userId, "velocity", {
+        details: `Earned ${lastHour} points in the last hour (limit ${VELOCITY_MAX_POINTS_PER_HOUR})`,
+        lastHour,
+        lastDay,
+      });
+    }
+
+    if (lastDay >= LOW_TRUST_MIN_POINTS_PER_DAY) {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const supabase = (await createAdminClient()) as any;
+      const trustScore = await getTrustScore(supabase, { ip: "", userId });
+      if (trustScore < TRUST_THRESHOLDS.SUSPICIOUS) {
+        await openFlag(userId, "low_trust", {
+          details: `Earned ${lastDay} points in the last day with a trust score of ${trustScore}`,
+          lastHour,
+          lastDay,
+          trustScore,
+        });
+      }
+    }
+  } catch (error) {
+    console.error(`[Points] Farming check failed for ${userId}:`, error);
+  }
+}
+
+async function openFlag(
+  userId: string,
+  reason: PointsFlagReason,
+  data: { details: string; lastHour: number; lastDay: number; trustScore?: number }
+): Promise<void> {
+  const result = await pool.query(
+    `INSERT INTO points_flags (user_id, reason, details, points_last_hour, points_last_day, trust_score)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (user_id, reason) WHERE status = 'open' DO NOTHING`,
+    [userId, reason, data.details, data.lastHour, data.lastDay, data.trustScore ?? null]
+  );
+  if ((result.rowCount ?? 0) > 0) {
+    console.warn(`[Points] Flagged ${userId} for ${reason}: ${data.details}`);
+  }
+}
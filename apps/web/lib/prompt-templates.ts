@@ -0,0 +1,237 @@
+/**
+ * Prompt Templates
+ *
+ * Typed variable schema for prompt library templates, shared by the
+ * prompts API and the prompt pages.
+ *
+ * Templates use {{name}} placeholders. Each variable declares a type:
+ * - string: single-line text
+ * - multiline: free text (code, documents)
+ * - number: numeric value with optional min/max
+ * - enum: one of a fixed list of options
+ *
+ * Prompts saved before typed variables only stored
+ * { name, description, default }; normalizePromptVariables() reads those
+ * as optional string variables.
+ */
+
+export type PromptVariableType = "string" | "multiline" | "number" | "enum";
+
+export interface PromptVariable {
+  name: string;
+  type: PromptVariableType;
+  label?: string;
+  description?: string;
+  default?: string;
+  required?: boolean;
+  /** Allowed values for enum variables */
+  options?: string[];
+  /** Bounds for number variables */
+  min?: number;
+  max?: number;
+  /** Length limit for string and multiline variables */
+  maxLength?: number;
+}
+
+export const PROMPT_VARIABLE_TYPES: { value: PromptVariableType; label: string }[] = [
+  { value: "string", label: "Text" },
+  { value: "multiline", label: "Multiline" },
+  { value: "number", label: "Number" },
+  { value: "enum", label: "Choice" },
+];
+
+export const MAX_PROMPT_VARIABLES = 20;
+const MAX_ENUM_OPTIONS = 50;
+const DEFAULT_MAX_LENGTH = { string: 500, multiline: 20000 } as const;
+
+const VARIABLE_NAME_PATTERN = /^\w+$/;
+const PLACEHOLDER_PATTERN = /\{\{(\w+)\}\}/g;
+
+/**
+ * Variable names referenced in a template, in order of first use
+ */
+export function extractTemplateVariables(content: string): string[] {
+  const names = [...content.matchAll(PLACEHOLDER_PATTERN)].map((m) => m[1] ?? "");
+  return [...new Set(names)].filter(Boolean);
+}
+
+/**
+ * Coerce stored variables (typed or legacy) into the typed schema.
+ * Unknown types fall back to string; malformed entries are dropped.
+ */
+export function normalizePromptVariables(raw: unknown): PromptVariable[] {
+  if (!Array.isArray(raw)) return [];
+
+  const variables: PromptVariable[] = [];
+  for (const entry of raw) {
+    if (!entry || typeof entry !== "object") continue;
+    const v = entry as Record<string, unknown>;
+    if (typeof v.name !== "string" || !VARIABLE_NAME_PATTERN.test(v.name)) continue;
+
+    const type = PROMPT_VARIABLE_TYPES.some((t) => t.value === v.type)
+      ? (v.type as PromptVariableType)
+      : "string";
+
+    variables.push({
+      name: v.name,
+      type,
+      label: typeof v.label === "string" && v.label ? v.label : undefined,
+      description: typeof v.description === "string" && v.description ? v.description : undefined,
+      default: v.default !== undefined && v.default !== null && v.default !== "" ? String(v.default) : undefined,
+      required: v.required === true,
+      options:
+        type === "enum" && Array.isArray(v.options)
+          ? v.options.filter((o): o is string => typeof o === "string" && o.length > 0)
+          : undefined,
+      min: type === "number" && typeof v.min === "number" ? v.min : undefined,
+      max: type === "number" && typeof v.max === "number" ? v.max : undefined,
+      maxLength:
+        (type === "string" || type === "multiline") && typeof v.maxLength === "number"
+          ? v.maxLength
+          : undefined,
+    });
+  }
+
+  return variables;
+}
+
+/**
+ * Validate a variable schema against its template.
+ * Returns a list of problems; empty when the schema is valid.
+ */
+export function validatePromptVariables(
+  content: string,
+  variables: PromptVariable[]
+): string[] {
+  const errors: string[] = [];
+
+  if (variables.length > MAX_PROMPT_VARIABLES) {
+    errors.push(`Too many variables (max ${MAX_PROMPT_VARIABLES})`);
+  }
+
+  const seen = new Set<string>();
+  for (const variable of variables) {
+    if (seen.has(variable.name)) {
+      errors.push(`Duplicate variable "${variable.name}"`);
+    }
+    seen.add(variable.name);
+
+    if (variable.type === "enum") {
+      const options = variable.options ?? [];
+      if (options.length === 0) {
+        errors.push(`"${variable.name}" needs at least one option`);
+      } else if (options.length > MAX_ENUM_OPTIONS) {
+        errors.push(`"${variable.name}" has too many options (max ${MAX_ENUM_OPTIONS})`);
+      }
+    }
+
+    if (
+      variable.type === "number" &&
+      variable.min !== undefined &&
+      variable.max !== undefined &&
+      variable.min > variable.max
+    ) {
+      errors.push(`"${variable.name}" has a minimum above its maximum`);
+    }
+
+    // A default must itself be a valid value
+    if (variable.default !== undefined) {
+      const error = validateVariableValue(variable, variable.default);
+      if (error) errors.push(`Default for "${variable.name}": ${error}`);
+    }
+  }
+
+  for (const name of extractTemplateVariables(content)) {
+    if (!seen.has(name)) {
+      errors.push(`{{${name}}} is used in the prompt but not defined`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate a single filled-in value. Returns an error message or null.
+ */
+export function validateVariableValue(
+  variable: PromptVariable,
+  value: string | undefined
+): string | null {
+  const trimmed = value?.trim() ?? "";
+
+  if (!trimmed) {
+    return variable.required ? "Required" : null;
+  }
+
+  switch (variable.type) {
+    case "number": {
+      const num = Number(trimmed);
+      if (!Number.isFinite(num)) return "Must be a number";
+      if (variable.min !== undefined && num < variable.min) {
+        return `Must be at least ${variable.min}`;
+      }
+      if (variable.max !== undefined && num > variable.max) {
+        return `Must be at most ${variable.max}`;
+      }
+      return null;
+    }
+    case "enum":
+      return variable.options?.includes(trimmed) ? null : "Choose one of the options";
+    default: {
+      const maxLength = variable.maxLength ?? DEFAULT_MAX_LENGTH[variable.type];
+      if (value && value.length > maxLength) {
+        return `Must be ${maxLength.toLocaleString()} characters or fewer`;
+      }
+      if (variable.type === "string" && value?.includes("\n")) {
+        return "Must be a single line";
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Validate all filled-in values. Returns errors keyed by variable name.
+ */
+export function validateVariableValues(
+  variables: PromptVariable[],
+  values: Record<string, string>
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const variable of variables) {
+    const error = validateVariableValue(variable, values[variable.name]);
+    if (error) errors[variable.name] = error;
+  }
+  return errors;
+}
+
+/**
+ * Initial values for the fill-in form
+ */
+export function getDefaultVariableValues(variables: PromptVariable[]): Record<string, string> {
+  const values: Record<string, string> = {};
+  for (const variable of variables) {
+    values[variable.name] =
+      variable.default ?? (variable.type === "enum" && variable.required ? variable.options?.[0] ?? "" : "");
+  }
+  return values;
+}
+
+/**
+ * Fill a template. Empty values fall back to the variable default; with
+ * `keepUnfilled` any still-empty placeholder is left as {{name}}.
+ */
+export function renderPromptTemplate(
+  content: string,
+  variables: PromptVariable[],
+  values: Record<string, string>,
+  options: { keepUnfilled?: boolean } = {}
+): string {
+  const byName = new Map(variables.map((v) => [v.name, v]));
+
+  return content.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+    const value = values[name] || byName.get(name)?.default || "";
+    if (!value && options.keepUnfilled) return placeholder;
+    return value;
+  });
+}
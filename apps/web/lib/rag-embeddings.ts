@@ -0,0 +1,169 @@
+/**
+ * Local dense embeddings for the RAG index
+ *
+ * Produces a fixed-size vector per text without calling an external model:
+ * - Word tokens are stemmed and mapped onto synonym concepts, so "hook" and
+ *   "callback" or "permission" and "allowlist" land on the same features
+ * - Character trigrams capture morphology and typos
+ * - Features are hashed into EMBEDDING_DIMENSIONS buckets (signed feature hashing)
+ *   and the result is L2-normalized, so a dot product is the cosine similarity
+ *
+ * Vectors are computed at build time by scripts/generate-rag-index.cjs, which
+ * carries a CommonJS copy of this algorithm. EMBEDDING_MODEL must be bumped in
+ * both places whenever the algorithm or synonym table changes; the runtime
+ * ignores prebuilt vectors whose model id does not match.
+ */
+
+export const EMBEDDING_MODEL = "hashed-ngram-v1";
+export const EMBEDDING_DIMENSIONS = 256;
+
+// Weights for each feature family
+const TOKEN_WEIGHT = 1.0;
+const CONCEPT_WEIGHT = 1.5;
+const TRIGRAM_WEIGHT = 0.35;
+
+/**
+ * Synonym groups for the Claude / developer tooling domain.
+ * The first entry of each group is used as the concept name.
+ */
+const SYNONYM_GROUPS: string[][] = [
+  ["hook", "callback", "handler", "listener", "trigger"],
+  ["permission", "allowlist", "whitelist", "allow", "approve", "authorize", "authorization"],
+  ["deny", "denylist", "blacklist", "block", "forbid", "reject"],
+  ["setting", "config", "configuration", "option", "preference", "parameter"],
+  ["command", "cli", "terminal", "shell", "bash", "console"],
+  ["install", "setup", "installation", "onboard", "bootstrap"],
+  ["error", "failure", "exception", "crash", "bug", "issue"],
+  ["fix", "resolve", "troubleshoot", "debug", "repair"],
+  ["token", "credential", "secret", "apikey", "key"],
+  ["model", "llm", "opus", "sonnet", "haiku"],
+  ["prompt", "instruction", "system"],
+  ["context", "memory", "window"],
+  ["agent", "subagent", "assistant", "bot"],
+  ["mcp", "server", "integration", "connector", "plugin", "extension"],
+  ["tool", "utility", "library", "package", "sdk"],
+  ["file", "document", "path", "directory", "folder"],
+  ["edit", "modify", "change", "update", "rewrite"],
+  ["run", "execute", "launch", "start", "invoke"],
+  ["test", "spec", "assertion", "verify"],
+  ["cost", "price", "pricing", "billing", "usage"],
+  ["fast", "speed", "performance", "latency", "quick"],
+  ["env", "environment", "variable", "envvar"],
+];
+
+const CONCEPTS = new Map<string, string>();
+for (const group of SYNONYM_GROUPS) {
+  const concept = group[0];
+  if (!concept) continue;
+  for (const word of group) {
+    CONCEPTS.set(word, concept);
+  }
+}
+
+/**
+ * Very small suffix stripper, enough to fold "hooks"/"hooked"/"hooking" together
+ */
+export function stemToken(word: string): string {
+  if (word.length > 5 && word.endsWith("ing")) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith("ed")) return word.slice(0, -2);
+  if (word.length > 4 && word.endsWith("es") && !word.endsWith("ses")) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+/**
+ * Map a (stemmed) token onto its synonym concept, if any
+ */
+export function conceptFor(token: string): string | undefined {
+  return CONCEPTS.get(token) ?? CONCEPTS.get(stemToken(token));
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function addFeature(vector: Float32Array, feature: string, weight: number): void {
+  const hash = fnv1a(feature);
+  const bucket = hash % EMBEDDING_DIMENSIONS;
+  const sign = hash & 0x80000000 ? -1 : 1;
+  vector[bucket] = (vector[bucket] ?? 0) + sign * weight;
+}
+
+/**
+ * Embed pre-tokenized text into a normalized dense vector
+ */
+export function embedTokens(tokens: string[]): Float32Array {
+  const vector = new Float32Array(EMBEDDING_DIMENSIONS);
+
+  for (const token of tokens) {
+    const stem = stemToken(token);
+    addFeature(vector, `w:${stem}`, TOKEN_WEIGHT);
+
+    const concept = conceptFor(token);
+    if (concept) {
+      addFeature(vector, `c:${concept}`, CONCEPT_WEIGHT);
+    }
+
+    const padded = `#${stem}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(vector, `g:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+    }
+  }
+
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    const value = vector[i] ?? 0;
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] = (vector[i] ?? 0) / norm;
+    }
+  }
+
+  return vector;
+}
+
+/**
+ * Dot product of two normalized vectors (= cosine similarity)
+ */
+export function cosineSimilarity(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    dot += (a[i] ?? 0) * (b[i] ?? 0);
+  }
+  return dot;
+}
+
+/**
+ * Decode a vector stored in the prebuilt index (base64 of int8 components scaled by 127)
+ */
+export function decodeEmbedding(encoded: string): Float32Array {
+  const bytes = Buffer.from(encoded, "base64");
+  const vector = new Float32Array(bytes.length);
+  let norm = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i] ?? 0;
+    const value = (byte > 127 ? byte - 256 : byte) / 127;
+    vector[i] = value;
+    norm += value * value;
+  }
+  // Re-normalize to absorb quantization error
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] = (vector[i] ?? 0) / norm;
+    }
+  }
+  return vector;
+}
@@ -1,6 +1,9 @@
 /**
  * RAG (Retrieval Augmented Generation) system for documentation
- * Uses TF-IDF based search to find relevant documentation chunks
+ * Uses hybrid retrieval to find relevant documentation chunks:
+ * - BM25 lexical scoring over chunk text
+ * - Dense vector similarity from locally computed embeddings (lib/rag-embeddings.ts)
+ * - Reciprocal-rank fusion of both rankings, then intent/context boosts as a rerank
  *
  * Supports both:
  * 1. Pre-built index from build time (faster, generated by scripts/generate-rag-index.cjs)
@@ -17,6 +20,13 @@ import fs from "fs";
 import path from "path";
 import matter from "gray-matter";
 import { PROJECT_KNOWLEDGE_CHUNKS } from "../data/system-prompt";
+import {
+  EMBEDDING_MODEL,
+  EMBEDDING_DIMENSIONS,
+  embedTokens,
+  cosineSimilarity,
+  decodeEmbedding,
+} from "./rag-embeddings";
 
 // Document chunk for RAG
 export interface DocumentChunk {
@@ -60,20 +70,58 @@ export interface SearchResult {
   score: number;
 }
 
+// BM25 statistics stored in the pre-built index
+interface Bm25Index {
+  k1: number;
+  b: number;
+  avgDocLength: number;
+  documentFrequencies: Record<string, number>;
+  termFrequencies: Record<string, Record<string, number>>;
+}
+
+// Dense vectors stored in the pre-built index (base64 int8 per chunk)
+interface EmbeddingIndex {
+  model: string;
+  dimensions: number;
+  vectors: Record<string, string>;
+}
+
 // Pre-built RAG index structure
 interface RagIndex {
   version: string;
   generatedAt: string;
   documentCount: number;
   chunks: DocumentChunk[];
-  tfidfIndex: Record<string, Record<string, number>>;
-  idfValues: Record<string, number>;
+  bm25?: Bm25Index;
+  embeddings?: EmbeddingIndex;
 }
 
+// In-memory BM25 posting data for a single chunk
+interface Bm25Document {
+  length: number;
+  termFreq: Map<string, number>;
+}
+
+// BM25 tuning (standard Okapi defaults), used when the index is built at
+// runtime; a pre-built index scores with the k1/b it was generated with
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Reciprocal-rank fusion constant and candidate depth per retriever
+const RRF_K = 60;
+const RRF_CANDIDATES = 100;
+
+// Minimum cosine similarity for a chunk to count as a dense match
+const MIN_DENSE_SIMILARITY = 0.1;
+
 // In-memory document index
 let documentIndex: DocumentChunk[] | null = null;
-let tfidfIndex: Map<string, Map<string, number>> | null = null;
-let idfValues: Map<string, number> | null = null;
+let bm25Documents: Map<string, Bm25Document> | null = null;
+let bm25Idf: Map<string, number> | null = null;
+let bm25AvgDocLength = 0;
+let bm25K1 = BM25_K1;
+let bm25B = BM25_B;
+let chunkEmbeddings: Map<string, Float32Array> | null = null;
 let indexLoadedFromPrebuilt = false;
 
 /**
@@ -116,23 +164,46 @@ function loadPrebuiltIndex(): boolean {
     const indexContent = fs.readFileSync(indexPath, "utf-8");
     const ragIndex: RagIndex = JSON.parse(indexContent);
 
+    // Older index formats (TF-IDF only) are rebuilt at runtime
+    if (!ragIndex.bm25) {
+      console.log(`RAG: Pre-built index v${ragIndex.version} has no BM25 data, will build at runtime`);
+      return false;
+    }
+
     // Load chunks
     documentIndex = ragIndex.chunks;
 
-    // Convert tfidfIndex from object to Map
-    tfidfIndex = new Map();
-    for (const [docId, terms] of Object.entries(ragIndex.tfidfIndex)) {
-      const termMap = new Map<string, number>();
-      for (const [term, score] of Object.entries(terms)) {
-        termMap.set(term, score);
+    // Convert BM25 term frequencies from objects to Maps
+    bm25Documents = new Map();
+    for (const [docId, terms] of Object.entries(ragIndex.bm25.termFrequencies)) {
+      const termFreq = new Map<string, number>();
+      let length = 0;
+      for (const [term, count] of Object.entries(terms)) {
+        termFreq.set(term, count);
+        length += count;
       }
-      tfidfIndex.set(docId, termMap);
+      bm25Documents.set(docId, { length, termFreq });
     }
-
-    // Convert idfValues from object to Map
-    idfValues = new Map();
-    for (const [term, score] of Object.entries(ragIndex.idfValues)) {
-      idfValues.set(term, score);
+    bm25AvgDocLength = ragIndex.bm25.avgDocLength;
+    bm25K1 = ragIndex.bm25.k1 ?? BM25_K1;
+    bm25B = ragIndex.bm25.b ?? BM25_B;
+    bm25Idf = computeBm25Idf(
+      new Map(Object.entries(ragIndex.bm25.documentFrequencies)),
+      ragIndex.chunks.length
+    );
+
+    // Decode dense vectors, recomputing them if the embedding algorithm changed
+    if (
+      ragIndex.embeddings?.model === EMBEDDING_MODEL &&
+      ragIndex.embeddings.dimensions === EMBEDDING_DIMENSIONS
+    ) {
+      chunkEmbeddings = new Map();
+      for (const [docId, encoded] of Object.entries(ragIndex.embeddings.vectors)) {
+        chunkEmbeddings.set(docId, decodeEmbedding(encoded));
+      }
+    } else {
+      console.log("RAG: Pre-built embeddings missing or outdated, computing at runtime");
+      buildEmbeddingIndex(ragIndex.chunks);
     }
 
     indexLoadedFromPrebuilt = true;
@@ -309,50 +380,151 @@ export function loadDocumentIndex(): DocumentChunk[] {
 
   documentIndex = chunks;
 
-  // Build TF-IDF index
-  buildTfidfIndex(chunks);
+  // Build lexical and dense indexes
+  buildBm25Index(chunks);
+  buildEmbeddingIndex(chunks);
 
   console.log(`RAG: Built runtime index with ${chunks.length} chunks (including ${PROJECT_KNOWLEDGE_CHUNKS.length} project knowledge chunks)`);
   return chunks;
 }
 
 /**
- * Build TF-IDF index for search
+ * Text used for both BM25 and embeddings of a chunk
  */
-function buildTfidfIndex(chunks: DocumentChunk[]): void {
-  tfidfIndex = new Map();
+function chunkText(chunk: DocumentChunk): string {
+  return chunk.content + " " + chunk.title + " " + chunk.section;
+}
+
+/**
+ * BM25 inverse document frequency (Robertson-Sparck Jones, floored at zero)
+ */
+function computeBm25Idf(docFreq: Map<string, number>, numDocs: number): Map<string, number> {
+  const idf = new Map<string, number>();
+  for (const [term, freq] of docFreq) {
+    idf.set(term, Math.log(1 + (numDocs - freq + 0.5) / (freq + 0.5)));
+  }
+  return idf;
+}
+
+/**
+ * Build BM25 index for lexical search
+ */
+function buildBm25Index(chunks: DocumentChunk[]): void {
+  bm25Documents = new Map();
   const docFreq = new Map<string, number>();
+  let totalLength = 0;
 
-  // Calculate term frequency for each document
   for (const chunk of chunks) {
-    const words = tokenize(chunk.content + " " + chunk.title + " " + chunk.section);
+    const words = tokenize(chunkText(chunk));
     const termFreq = new Map<string, number>();
 
     for (const word of words) {
       termFreq.set(word, (termFreq.get(word) || 0) + 1);
     }
 
-    // Normalize by document length
-    const maxFreq = Math.max(...termFreq.values());
-    for (const [term, freq] of termFreq) {
-      termFreq.set(term, freq / maxFreq);
+    bm25Documents.set(chunk.id, { length: words.length, termFreq });
+    totalLength += words.length;
+
+    for (const term of termFreq.keys()) {
+      docFreq.set(term, (docFreq.get(term) || 0) + 1);
     }
+  }
 
-    tfidfIndex.set(chunk.id, termFreq);
+  bm25AvgDocLength = chunks.length > 0 ? totalLength / chunks.length : 0;
+  bm25K1 = BM25_K1;
+  bm25B = BM25_B;
+  bm25Idf = computeBm25Idf(docFreq, chunks.length);
+}
 
-    // Track document frequency
-    const uniqueTerms = new Set(words);
-    for (const term of uniqueTerms) {
-      docFreq.set(term, (docFreq.get(term) || 0) + 1);
+/**
+ * Build dense vectors for every chunk
+ */
+function buildEmbeddingIndex(chunks: DocumentChunk[]): void {
+  chunkEmbeddings = new Map();
+  for (const chunk of chunks) {
+    chunkEmbeddings.set(chunk.id, embedTokens(tokenize(chunkText(chunk))));
+  }
+}
+
+/**
+ * Rank chunks by BM25 score for the query terms
+ */
+function rankByBm25(chunks: DocumentChunk[], queryTerms: string[]): DocumentChunk[] {
+  if (!bm25Documents || !bm25Idf) return [];
+
+  const avgLength = bm25AvgDocLength || 1;
+  const scored: { chunk: DocumentChunk; score: number }[] = [];
+
+  for (const chunk of chunks) {
+    const doc = bm25Documents.get(chunk.id);
+    if (!doc) continue;
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = doc.termFreq.get(term);
+      if (!tf) continue;
+      const idf = bm25Idf.get(term) || 0;
+      const norm = tf + bm25K1 * (1 - bm25B + bm25B * (doc.length / avgLength));
+      score += idf * ((tf * (bm25K1 + 1)) / norm);
+    }
+
+    if (score > 0) {
+      scored.push({ chunk, score });
     }
   }
 
-  // Calculate IDF values
-  idfValues = new Map();
-  const numDocs = chunks.length;
-  for (const [term, freq] of docFreq) {
-    idfValues.set(term, Math.log(numDocs / (1 + freq)));
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, RRF_CANDIDATES)
+    .map((s) => s.chunk);
+}
+
+/**
+ * Rank chunks by cosine similarity to the query embedding
+ */
+function rankByEmbedding(chunks: DocumentChunk[], queryTerms: string[]): DocumentChunk[] {
+  if (!chunkEmbeddings) return [];
+
+  const queryVector = embedTokens(queryTerms);
+  const scored: { chunk: DocumentChunk; score: number }[] = [];
+
+  for (const chunk of chunks) {
+    const vector = chunkEmbeddings.get(chunk.id);
+    if (!vector) continue;
+
+    const score = cosineSimilarity(queryVector, vector);
+    if (score >= MIN_DENSE_SIMILARITY) {
+      scored.push({ chunk, score });
+    }
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, RRF_CANDIDATES)
+    .map((s) => s.chunk);
+}
+
+/**
+ * Combine rankings with reciprocal-rank fusion.
+ * Scores are scaled by (RRF_K + 1) so a chunk ranked first by one retriever
+ * scores 1.0 and a chunk ranked first by both scores 2.0.
+ */
+function fuseRankings(rankings: DocumentChunk[][]): Map<string, { chunk: DocumentChunk; score: number }> {
+  const fused = new Map<string, { chunk: DocumentChunk; score: number }>();
+
+  for (const ranking of rankings) {
+    ranking.forEach((chunk, rank) => {
+      const contribution = (RRF_K + 1) / (RRF_K + rank + 1);
+      const existing = fused.get(chunk.id);
+      if (existing) {
+        existing.score += contribution;
+      } else {
+        fused.set(chunk.id, { chunk, score: contribution });
+      }
+    });
   }
+
+  return fused;
 }
 
 /**
@@ -376,86 +548,96 @@ function detectQueryIntent(query: string): {
 }
 
 /**
- * Search documents using TF-IDF scoring with context-aware boosting
+ * Apply title, phrase, intent and context boosts to a fused score
  */
-export function searchDocuments(
+function rerankScore(
+  chunk: DocumentChunk,
+  baseScore: number,
   query: string,
-  limit: number = 5,
+  queryTerms: string[],
+  intent: ReturnType<typeof detectQueryIntent>,
   context?: { type?: string; category?: string }
-): SearchResult[] {
-  const chunks = loadDocumentIndex();
-  if (!tfidfIndex || !idfValues) return [];
-
-  const queryTerms = tokenize(query);
-  if (queryTerms.length === 0) return [];
+): number {
+  let score = baseScore;
 
-  // Detect query intent for smart boosting
-  const intent = detectQueryIntent(query);
+  // Boost for title/section matches
+  const titleLower = chunk.title.toLowerCase();
+  const sectionLower = chunk.section.toLowerCase();
 
-  const scores: { chunk: DocumentChunk; score: number }[] = [];
+  for (const term of queryTerms) {
+    if (titleLower.includes(term)) score *= 1.5;
+    if (sectionLower.includes(term)) score *= 1.3;
+    if (chunk.keywords.includes(term)) score *= 1.2;
+  }
 
-  for (const chunk of chunks) {
-    const docTf = tfidfIndex.get(chunk.id);
-    if (!docTf) continue;
+  // Boost for exact phrase matches
+  const queryLower = query.toLowerCase();
+  if (chunk.content.toLowerCase().includes(queryLower)) {
+    score *= 2;
+  }
 
-    let score = 0;
+  // Context-aware boosting based on query intent
+  if (intent.isSettingQuery && chunk.isConfigOption) {
+    score *= 2.5; // Strong boost for settings when asking about configuration
+  }
+  if (intent.isCommandQuery && chunk.isCommand) {
+    score *= 2.5; // Strong boost for commands when asking how to do something
+  }
+  if (intent.isEnvVarQuery && chunk.isEnvVar) {
+    score *= 2.5; // Strong boost for env vars when asking about environment
+  }
+  if (intent.isFeatureQuery && chunk.isFeature) {
+    score *= 2.0; // Boost features when asking about capabilities
+  }
+  if (intent.isResourceQuery && chunk.isResource) {
+    score *= 2.0; // Boost resources when asking for recommendations
+  }
 
-    // Calculate TF-IDF score
-    for (const term of queryTerms) {
-      const tf = docTf.get(term) || 0;
-      const idf = idfValues.get(term) || 0;
-      score += tf * idf;
-    }
+  // Boost based on context if provided
+  if (context?.category && chunk.category.toLowerCase().includes(context.category.toLowerCase())) {
+    score *= 1.5;
+  }
+  if (context?.type === "code" && (chunk.isCommand || chunk.isConfigOption)) {
+    score *= 1.3;
+  }
 
-    // Boost for title/section matches
-    const titleLower = chunk.title.toLowerCase();
-    const sectionLower = chunk.section.toLowerCase();
+  // Slight boost for structured data chunks (they have more precise info)
+  if (chunk.settingData || chunk.commandData) {
+    score *= 1.1;
+  }
 
-    for (const term of queryTerms) {
-      if (titleLower.includes(term)) score *= 1.5;
-      if (sectionLower.includes(term)) score *= 1.3;
-      if (chunk.keywords.includes(term)) score *= 1.2;
-    }
+  return score;
+}
 
-    // Boost for exact phrase matches
-    const queryLower = query.toLowerCase();
-    if (chunk.content.toLowerCase().includes(queryLower)) {
-      score *= 2;
-    }
+/**
+ * Search documents using hybrid BM25 + embedding retrieval with context-aware reranking
+ */
+export function searchDocuments(
+  query: string,
+  limit: number = 5,
+  context?: { type?: string; category?: string }
+): SearchResult[] {
+  const chunks = loadDocumentIndex();
+  if (!bm25Documents || !bm25Idf) return [];
 
-    // Context-aware boosting based on query intent
-    if (intent.isSettingQuery && chunk.isConfigOption) {
-      score *= 2.5; // Strong boost for settings when asking about configuration
-    }
-    if (intent.isCommandQuery && chunk.isCommand) {
-      score *= 2.5; // Strong boost for commands when asking how to do something
-    }
-    if (intent.isEnvVarQuery && chunk.isEnvVar) {
-      score *= 2.5; // Strong boost for env vars when asking about environment
-    }
-    if (intent.isFeatureQuery && chunk.isFeature) {
-      score *= 2.0; // Boost features when asking about capabilities
-    }
-    if (intent.isResourceQuery && chunk.isResource) {
-      score *= 2.0; // Boost resources when asking for recommendations
-    }
+  const queryTerms = tokenize(query);
+  if (queryTerms.length === 0) return [];
 
-    // Boost based on context if provided
-    if (context?.category && chunk.category.toLowerCase().includes(context.category.toLowerCase())) {
-      score *= 1.5;
-    }
-    if (context?.type === "code" && (chunk.isCommand || chunk.isConfigOption)) {
-      score *= 1.3;
-    }
+  // Retrieve candidates from both retrievers and fuse their rankings
+  const fused = fuseRankings([
+    rankByBm25(chunks, queryTerms),
+    rankByEmbedding(chunks, queryTerms),
+  ]);
 
-    // Slight boost for structured data chunks (they have more precise info)
-    if (chunk.settingData || chunk.commandData) {
-      score *= 1.1;
-    }
+  // Detect query intent for smart boosting
+  const intent = detectQueryIntent(query);
 
-    if (score > 0) {
-      scores.push({ chunk, score });
-    }
+  const scores: SearchResult[] = [];
+  for (const { chunk, score } of fused.values()) {
+    scores.push({
+      chunk,
+      score: rerankScore(chunk, score, query, queryTerms, intent, context),
+    });
   }
 
   // Sort by score and return top results
@@ -550,7 +732,11 @@ export function isIndexPrebuilt(): boolean {
  */
 export function clearIndex(): void {
   documentIndex = null;
-  tfidfIndex = null;
-  idfValues = null;
+  bm25Documents = null;
+  bm25Idf = null;
+  bm25AvgDocLength = 0;
+  bm25K1 = BM25_K1;
+  bm25B = BM25_B;
+  chunkEmbeddings = null;
   indexLoadedFromPrebuilt = false;
 }
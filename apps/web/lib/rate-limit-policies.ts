@@ -0,0 +1,302 @@
+/**
+ * Rate Limit Policies
+ *
+ * Resolves the rate limit for a request from the endpoint policy, the
+ * caller's role (lib/roles.ts) and trust level (lib/trust-score.ts, looked
+ * up from the caller's visitor fingerprint unless given).
+ *
+ * Policies are edited in the Payload "rate-limit-settings" global and
+ * cached here for a minute. Endpoints without a CMS policy, or all
+ * endpoints when the CMS is unavailable, use DEFAULT_RATE_LIMIT_POLICIES.
+ */
+
+import "server-only";
+import { getPayload } from "payload";
+import config from "@payload-config";
+import type { RateLimitSetting } from "@/payload-types";
+import { getRoleLevel, ROLE_HIERARCHY, type UserRole } from "@/lib/roles";
+import { createAdminClient } from "@/lib/supabase/server";
+import { getTrustLevel, getTrustScore, type TrustLevel } from "@/lib/trust-score";
+import type { RateLimitConfig, RateLimitAlgorithm } from "@/lib/rate-limiter";
+
+export interface RateLimitPolicy {
+  endpoint: string;
+  algorithm: RateLimitAlgorithm;
+  /** Cost units per window for regular users */
+  limit: number;
+  windowMs: number;
+  /** Per-role overrides of `limit`; higher roles inherit the nearest lower one */
+  roleLimits?: Partial<Record<UserRole, number>>;
+  /** Multipliers applied to the role limit by trust level */
+  trustMultipliers?: Partial<Record<TrustLevel, number>>;
+  /** Estimated LLM tokens per cost unit, for AI endpoints */
+  tokensPerCostUnit?: number;
+}
+
+/**
+ * Who is making the request. Without a role the base limit applies; without
+ * a trust level it is looked up (resolveSubjectTrustLevel).
+ */
+export interface RateLimitSubject {
+  id: string | number;
+  role?: UserRole | null;
+  trustLevel?: TrustLevel;
+  /** Set when `id` is a client IP rather than a user ID */
+  ip?: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_TRUST_MULTIPLIERS: Record<TrustLevel, number> = {
+  trusted: 1.5,
+  neutral: 1,
+  suspicious: 0.5,
+  untrusted: 0.1,
+};
+
+// Defaults mirror the original fixed RATE_LIMITS table for regular users,
+// with more headroom for staff
+export const DEFAULT_RATE_LIMIT_POLICIES: Record<string, RateLimitPolicy> = {
+  // Discovery - expensive operation (AI + scraping)
+  discover: {
+    endpoint: "discover",
+    algorithm: "sliding_window",
+    limit: 10,
+    windowMs: HOUR_MS,
+    roleLimits: { admin: 30, superadmin: 60 },
+  },
+  // Scraping - external API calls
+  scrape: {
+    endpoint: "scrape",
+    algorithm: "token_bucket",
+    limit: 20,
+    windowMs: HOUR_MS,
+    roleLimits: { admin: 60 },
+  },
+  // AI Analysis - weighted by estimated LLM tokens
+  analyze: {
+    endpoint: "analyze",
+    algorithm: "sliding_window",
+    limit: 30,
+    windowMs: HOUR_MS,
+    roleLimits: { admin: 90, superadmin: 180 },
+    tokensPerCostUnit: 2000,
+  },
+  // Prompt runner on the site's Anthropic key (own keys aren't limited) -
+  // weighted by estimated LLM tokens
+  prompt_runner: {
+    endpoint: "prompt_runner",
+    algorithm: "sliding_window",
+    limit: 30,
+    windowMs: HOUR_MS,
+    roleLimits: { admin: 90 },
+    tokensPerCostUnit: 2000,
+  },
+  // Queue operations - relatively cheap
+  queue: {
+    endpoint: "queue",
+    algorithm: "token_bucket",
+    limit: 100,
+    windowMs: HOUR_MS,
+    roleLimits: { admin: 300 },
+  },
+  // Bulk operations - more expensive
+  bulk: {
+    endpoint: "bulk",
+    algorithm: "token_bucket",
+    limit: 20,
+    windowMs: HOUR_MS,
+    roleLimits: { admin: 60 },
+  },
+  // Import operations
+  import: {
+    endpoint: "import",
+    algorithm: "sliding_window",
+    limit: 5,
+    windowMs: HOUR_MS,
+    roleLimits: { superadmin: 20 },
+  },
+  // Public API (/api/v1), per user across all of their tokens
+  api: {
+    endpoint: "api",
+    algorithm: "token_bucket",
+    limit: 1000,
+    windowMs: HOUR_MS,
+    roleLimits: { admin: 5000 },
+  },
+  // Default fallback
+  default: {
+    endpoint: "default",
+    algorithm: "token_bucket",
+    limit: 60,
+    windowMs: HOUR_MS,
+    roleLimits: { admin: 300 },
+  },
+};
+
+// Cache for CMS policies
+let policyCache: Record<string, RateLimitPolicy> | null = null;
+let cacheTimestamp = 0;
+const CACHE_TTL = 60 * 1000; // 1 minute cache
+
+/**
+ * Convert the Payload global into policies keyed by endpoint
+ */
+function policiesFromSettings(
+  settings: RateLimitSetting
+): Record<string, RateLimitPolicy> {
+  const policies: Record<string, RateLimitPolicy> = {};
+  if (settings.enabled === false) return policies;
+
+  for (const entry of settings.policies ?? []) {
+    const roleLimits: Partial<Record<UserRole, number>> = {};
+    for (const rule of entry.roleLimits ?? []) {
+      roleLimits[rule.role] = rule.limit;
+    }
+
+    const trustMultipliers: Partial<Record<TrustLevel, number>> = {};
+    for (const level of Object.keys(DEFAULT_TRUST_MULTIPLIERS) as TrustLevel[]) {
+      const value = entry.trustMultipliers?.[level];
+      if (typeof value === "number") trustMultipliers[level] = value;
+    }
+
+    policies[entry.endpoint] = {
+      endpoint: entry.endpoint,
+      algorithm: entry.algorithm,
+      limit: entry.limit,
+      windowMs: entry.windowMinutes * 60 * 1000,
+      roleLimits,
+      trustMultipliers,
+      tokensPerCostUnit: entry.tokensPerCostUnit ?? undefined,
+    };
+  }
+
+  return policies;
+}
+
+/**
+ * Fetch policies from Payload CMS, merged over the defaults
+ * Falls back to defaults if CMS is unavailable
+ */
+export async function getRateLimitPolicies(): Promise<Record<string, RateLimitPolicy>> {
+  const now = Date.now();
+
+  if (policyCache && now - cacheTimestamp < CACHE_TTL) {
+    return policyCache;
+  }
+
+  try {
+    const payload = await getPayload({ config });
+    const settings = await payload.findGlobal({ slug: "rate-limit-settings" });
+
+    policyCache = {
+      ...DEFAULT_RATE_LIMIT_POLICIES,
+      ...policiesFromSettings(settings),
+    };
+    cacheTimestamp = now;
+
+    return policyCache;
+  } catch (error) {
+    console.warn("[Rate Limiter] Failed to load policies from CMS, using defaults:", error);
+    return DEFAULT_RATE_LIMIT_POLICIES;
+  }
+}
+
+/**
+ * Get the policy for an endpoint, or the default policy
+ */
+export async function getRateLimitPolicy(endpoint: string): Promise<RateLimitPolicy> {
+  const policies = await getRateLimitPolicies();
+  return policies[endpoint] || policies.default || DEFAULT_RATE_LIMIT_POLICIES.default!;
+}
+
+/**
+ * Force refresh the policy cache
+ * Call this after CMS updates
+ */
+export function clearRateLimitPolicyCache(): void {
+  policyCache = null;
+  cacheTimestamp = 0;
+}
+
+// Cache for trust levels, so limited endpoints don't each query fingerprints
+const trustLevelCache = new Map<string, { level: TrustLevel; expiresAt: number }>();
+const TRUST_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Trust level of a subject from its visitor fingerprint (lib/trust-score.ts),
+ * by user ID, or by IP when the subject is anonymous. Unknown visitors and
+ * lookup failures are neutral.
+ */
+export async function resolveSubjectTrustLevel(
+  subject: Pick<RateLimitSubject, "id" | "ip">
+): Promise<TrustLevel> {
+  const cacheKey = subject.ip ? `ip:${subject.ip}` : `user:${subject.id}`;
+  const cached = trustLevelCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.level;
+  }
+
+  let level: TrustLevel = "neutral";
+  try {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const supabase = (await createAdminClient()) as any;
+    const score = await getTrustScore(
+      supabase,
+      subject.ip ? { ip: subject.ip } : { ip: "", userId: String(subject.id) }
+    );
+    level = getTrustLevel(score);
+  } catch (error) {
+    console.warn("[Rate Limiter] Trust lookup failed, treating as neutral:", error);
+  }
+
+  trustLevelCache.set(cacheKey, { level, expiresAt: Date.now() + TRUST_CACHE_TTL });
+  return level;
+}
+
+/**
+ * Limit for a role: its own override, else the nearest lower role's,
+ * else the policy's base limit
+ */
+function getRoleLimit(policy: RateLimitPolicy, role?: UserRole | null): number {
+  if (!role || !policy.roleLimits) return policy.limit;
+
+  for (let level = getRoleLevel(role); level >= 0; level--) {
+    const candidate = ROLE_HIERARCHY[level];
+    const limit = candidate ? policy.roleLimits[candidate] : undefined;
+    if (limit !== undefined) return limit;
+  }
+
+  return policy.limit;
+}
+
+/**
+ * Resolve the limiter config for a subject under a policy
+ */
+export function resolveRateLimitConfig(
+  policy: RateLimitPolicy,
+  subject: Omit<RateLimitSubject, "id">
+): RateLimitConfig {
+  const roleLimit = getRoleLimit(policy, subject.role);
+  const multiplier = subject.trustLevel
+    ? policy.trustMultipliers?.[subject.trustLevel] ??
+      DEFAULT_TRUST_MULTIPLIERS[subject.trustLevel]
+    : 1;
+  const maxTokens = Math.max(1, Math.floor(roleLimit * multiplier));
+
+  return {
+    maxTokens,
+    refillRate: maxTokens,
+    windowMs: policy.windowMs,
+    algorithm: policy.algorithm,
+  };
+}
+
+/**
+ * Cost of a request in policy units from an estimated LLM token count.
+ * Endpoints without tokensPerCostUnit charge one unit per request.
+ */
+export function getLlmTokenCost(policy: RateLimitPolicy, estimatedTokens: number): number {
+  if (!policy.tokensPerCostUnit || estimatedTokens <= 0) return 1;
+  return Math.max(1, Math.ceil(estimatedTokens / policy.tokensPerCostUnit));
+}
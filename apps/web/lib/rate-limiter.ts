@@ -1,8 +1,12 @@
 /**
  * Rate Limiter
  *
- * Token bucket algorithm for API rate limiting.
- * Supports per-user and per-IP limiting with configurable windows.
+ * Token bucket and sliding window log algorithms for API rate limiting.
+ * Supports per-user and per-IP limiting with configurable windows, and
+ * cost-weighted requests (e.g. by estimated LLM tokens).
+ *
+ * Limits per endpoint, role, and trust level come from lib/rate-limit-policies.ts
+ * via checkPolicyRateLimit(); checkRateLimit() applies an explicit config.
  *
  * Uses Redis (Vercel KV) for distributed rate limiting across serverless instances.
  * Falls back to in-memory store when KV is unavailable.
@@ -10,8 +14,16 @@
 
 import "server-only";
 import { kv } from "@vercel/kv";
-
-// In-memory fallback store for rate limits
+import {
+  DEFAULT_RATE_LIMIT_POLICIES,
+  getLlmTokenCost,
+  getRateLimitPolicy,
+  resolveRateLimitConfig,
+  resolveSubjectTrustLevel,
+  type RateLimitSubject,
+} from "@/lib/rate-limit-policies";
+
+// In-memory fallback store for token buckets
 const rateLimitStore = new Map<
   string,
   {
@@ -20,18 +32,36 @@ const rateLimitStore = new Map<
   }
 >();
 
+// In-memory fallback store for sliding window logs
+const slidingWindowStore = new Map<
+  string,
+  {
+    timestamp: number;
+    cost: number;
+  }[]
+>();
+
 // Check if Vercel KV is available
 function isKvAvailable(): boolean {
   return !!(process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN);
 }
 
+export type RateLimitAlgorithm = "token_bucket" | "sliding_window";
+
 export interface RateLimitConfig {
-  /** Maximum tokens in bucket */
+  /** Maximum tokens in bucket (or cost units per sliding window) */
   maxTokens: number;
   /** Tokens to refill per window */
   refillRate: number;
   /** Window duration in milliseconds */
   windowMs: number;
+  /** Defaults to token_bucket */
+  algorithm?: RateLimitAlgorithm;
+}
+
+export interface RateLimitOptions {
+  /** Tokens this request consumes (default: 1) */
+  cost?: number;
 }
 
 export interface RateLimitResult {
@@ -47,84 +77,90 @@ export interface RateLimitResult {
   retryAfter?: number;
 }
 
-// Default rate limit configurations by endpoint type
-export const RATE_LIMITS: Record<string, RateLimitConfig> = {
-  // Discovery - expensive operation (AI + scraping)
-  discover: {
-    maxTokens: 10,
-    refillRate: 10,
-    windowMs: 60 * 60 * 1000, // 1 hour
-  },
-  // Scraping - external API calls
-  scrape: {
-    maxTokens: 20,
-    refillRate: 20,
-    windowMs: 60 * 60 * 1000, // 1 hour
-  },
-  // AI Analysis - API costs
-  analyze: {
-    maxTokens: 30,
-    refillRate: 30,
-    windowMs: 60 * 60 * 1000, // 1 hour
-  },
-  // Queue operations - relatively cheap
-  queue: {
-    maxTokens: 100,
-    refillRate: 100,
-    windowMs: 60 * 60 * 1000, // 1 hour
-  },
-  // Bulk operations - more expensive
-  bulk: {
-    maxTokens: 20,
-    refillRate: 20,
-    windowMs: 60 * 60 * 1000, // 1 hour
-  },
-  // Import operations
-  import: {
-    maxTokens: 5,
-    refillRate: 5,
-    windowMs: 60 * 60 * 1000, // 1 hour
-  },
-  // Default fallback
-  default: {
-    maxTokens: 60,
-    refillRate: 60,
-    windowMs: 60 * 60 * 1000, // 1 hour
-  },
-};
+// Default rate limit configurations by endpoint type, for regular users.
+// Role and trust adjustments only apply through checkPolicyRateLimit().
+export const RATE_LIMITS: Record<string, RateLimitConfig> = Object.fromEntries(
+  Object.entries(DEFAULT_RATE_LIMIT_POLICIES).map(([endpoint, policy]) => [
+    endpoint,
+    resolveRateLimitConfig(policy, {}),
+  ])
+);
 
 /**
- * Generate a unique key for rate limiting
+ * Generate a unique key for rate limiting. The algorithm is part of the key:
+ * token buckets are counters and sliding windows sorted sets, so a policy
+ * switching algorithms starts a fresh key instead of hitting WRONGTYPE.
  */
 export function getRateLimitKey(
   identifier: string,
-  endpoint: string
+  endpoint: string,
+  algorithm: RateLimitAlgorithm = "token_bucket"
 ): string {
-  return `ratelimit:${endpoint}:${identifier}`;
+  return `ratelimit:${endpoint}:${algorithm}:${identifier}`;
 }
 
 /**
- * Check and consume a rate limit token (async for Redis support)
+ * Check and consume rate limit tokens (async for Redis support)
  */
 export async function checkRateLimit(
   identifier: string | number,
   endpoint: string,
-  config?: RateLimitConfig
+  config?: RateLimitConfig,
+  options?: RateLimitOptions
 ): Promise<RateLimitResult> {
   const id = String(identifier);
-  const key = getRateLimitKey(id, endpoint);
   const limitConfig = config || RATE_LIMITS[endpoint] || RATE_LIMITS.default!;
+  const key = getRateLimitKey(id, endpoint, limitConfig.algorithm);
+  // A request can cost at most the whole budget, so it is never permanently blocked
+  const cost = Math.min(
+    limitConfig.maxTokens,
+    Math.max(1, Math.ceil(options?.cost ?? 1))
+  );
+
+  if (limitConfig.algorithm === "sliding_window") {
+    return checkSlidingWindow(key, limitConfig, cost);
+  }
+  return checkTokenBucket(key, limitConfig, cost);
+}
+
+/**
+ * Check a rate limit using the policy for the subject's role and trust level
+ * (looked up when the subject doesn't carry one).
+ * Pass `estimatedTokens` on AI endpoints to charge by LLM usage.
+ */
+export async function checkPolicyRateLimit(
+  subject: RateLimitSubject,
+  endpoint: string,
+  options?: RateLimitOptions & { estimatedTokens?: number }
+): Promise<RateLimitResult> {
+  const policy = await getRateLimitPolicy(endpoint);
+  const trustLevel = subject.trustLevel ?? (await resolveSubjectTrustLevel(subject));
+  const config = resolveRateLimitConfig(policy, { ...subject, trustLevel });
+  const cost =
+    options?.cost ??
+    (options?.estimatedTokens !== undefined
+      ? getLlmTokenCost(policy, options.estimatedTokens)
+      : 1);
+
+  return checkRateLimit(subject.id, endpoint, config, { cost });
+}
+
+async function checkTokenBucket(
+  key: string,
+  limitConfig: RateLimitConfig,
+  cost: number
+): Promise<RateLimitResult> {
   const now = Date.now();
   const windowSeconds = Math.ceil(limitConfig.windowMs / 1000);
 
   // Use Redis if available
   if (isKvAvailable()) {
     try {
-      // Use Redis INCR with expiry for atomic rate limiting
-      const count = await kv.incr(key);
+      // Use Redis INCRBY with expiry for atomic rate limiting
+      const count = await kv.incrby(key, cost);
 
       // Set expiry on first request
-      if (count === 1) {
+      if (count === cost) {
         await kv.expire(key, windowSeconds);
       }
 
@@ -141,9 +177,12 @@ export async function checkRateLimit(
         };
       }
 
+      // Don't charge for rejected requests
+      await kv.decrby(key, cost);
+
       return {
         allowed: false,
-        remaining: 0,
+        remaining: Math.max(0, limitConfig.maxTokens - (count - cost)),
         limit: limitConfig.maxTokens,
         resetTime,
         retryAfter: ttl > 0 ? ttl : windowSeconds,
@@ -186,8 +225,8 @@ export async function checkRateLimit(
   );
 
   // Check if request is allowed
-  if (bucket.tokens > 0) {
-    bucket.tokens -= 1;
+  if (bucket.tokens >= cost) {
+    bucket.tokens -= cost;
     rateLimitStore.set(key, bucket);
 
     return {
@@ -198,19 +237,146 @@ export async function checkRateLimit(
     };
   }
 
-  // Calculate retry after
-  const timeUntilRefill = bucket.lastRefill + limitConfig.windowMs - now;
+  // Calculate retry after: time until enough tokens have refilled
+  const missing = cost - bucket.tokens;
+  const timeUntilRefill =
+    bucket.lastRefill +
+    Math.ceil(missing / limitConfig.refillRate) * limitConfig.windowMs -
+    now;
   const retryAfter = Math.ceil(timeUntilRefill / 1000);
 
   return {
     allowed: false,
-    remaining: 0,
+    remaining: bucket.tokens,
     limit: limitConfig.maxTokens,
     resetTime,
     retryAfter: Math.max(1, retryAfter),
   };
 }
 
+// KEYS[1] = log key; ARGV = now, windowMs, limit, cost, member.
+// Returns { allowed (1/0), members in the window before this request }.
+const SLIDING_WINDOW_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+redis.call("ZREMRANGEBYSCORE", KEYS[1], 0, now - window)
+local members = redis.call("ZRANGE", KEYS[1], 0, -1)
+local used = 0
+for _, member in ipairs(members) do
+  used = used + (tonumber(string.match(member, "^[^:]+:([^:]+)")) or 1)
+end
+local allowed = 0
+if used + tonumber(ARGV[4]) <= tonumber(ARGV[3]) then
+  redis.call("ZADD", KEYS[1], now, ARGV[5])
+  redis.call("PEXPIRE", KEYS[1], window)
+  allowed = 1
+end
+return { allowed, members }
+`;
+
+/**
+ * Sliding window log: every accepted request is logged with its cost, and a
+ * request is allowed if the logged cost within the last window plus its own
+ * cost fits the limit. No bursts at window boundaries, unlike token bucket.
+ */
+async function checkSlidingWindow(
+  key: string,
+  limitConfig: RateLimitConfig,
+  cost: number
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const windowStart = now - limitConfig.windowMs;
+
+  // Use Redis if available
+  if (isKvAvailable()) {
+    try {
+      // Members encode "timestamp:cost:nonce" so cost survives in the sorted set.
+      // Trim, check and add run in one script so concurrent requests can't
+      // all pass the check before any of them is logged.
+      const [, members] = await kv.eval<
+        [number, number, number, number, string],
+        [number, string[]]
+      >(
+        SLIDING_WINDOW_SCRIPT,
+        [key],
+        [
+          now,
+          limitConfig.windowMs,
+          limitConfig.maxTokens,
+          cost,
+          `${now}:${cost}:${Math.random().toString(36).slice(2, 10)}`,
+        ]
+      );
+      const log = members.map((member) => {
+        const [timestamp, entryCost] = String(member).split(":");
+        return { timestamp: Number(timestamp), cost: Number(entryCost) || 1 };
+      });
+
+      // Same rule as the script, against the log it saw before adding
+      return evaluateSlidingWindow(log, limitConfig, cost, now);
+    } catch (error) {
+      console.warn("[Rate Limiter] Redis error, falling back to memory:", error);
+      // Fall through to in-memory implementation
+    }
+  }
+
+  // In-memory fallback
+  const log = (slidingWindowStore.get(key) || []).filter(
+    (entry) => entry.timestamp > windowStart
+  );
+
+  const result = evaluateSlidingWindow(log, limitConfig, cost, now);
+  if (result.allowed) {
+    log.push({ timestamp: now, cost });
+  }
+  slidingWindowStore.set(key, log);
+
+  return result;
+}
+
+/**
+ * Decide a sliding window request against a log already trimmed to the window
+ */
+function evaluateSlidingWindow(
+  log: { timestamp: number; cost: number }[],
+  limitConfig: RateLimitConfig,
+  cost: number,
+  now: number
+): RateLimitResult {
+  const sorted = [...log].sort((a, b) => a.timestamp - b.timestamp);
+  const used = sorted.reduce((sum, entry) => sum + entry.cost, 0);
+  const oldest = sorted[0]?.timestamp ?? now;
+  const resetTime = Math.ceil((oldest + limitConfig.windowMs) / 1000);
+
+  if (used + cost <= limitConfig.maxTokens) {
+    return {
+      allowed: true,
+      remaining: limitConfig.maxTokens - used - cost,
+      limit: limitConfig.maxTokens,
+      resetTime,
+    };
+  }
+
+  // Retry once enough of the oldest entries have aged out
+  let freed = 0;
+  let retryAt = now + limitConfig.windowMs;
+  for (const entry of sorted) {
+    freed += entry.cost;
+    if (used - freed + cost <= limitConfig.maxTokens) {
+      retryAt = entry.timestamp + limitConfig.windowMs;
+      break;
+    }
+  }
+
+  return {
+    allowed: false,
+    remaining: Math.max(0, limitConfig.maxTokens - used),
+    limit: limitConfig.maxTokens,
+    resetTime,
+    retryAfter: Math.max(1, Math.ceil((retryAt - now) / 1000)),
+  };
+}
+
 /**
  * Get rate limit headers for response
  */
@@ -250,22 +416,31 @@ export function createRateLimitResponse(result: RateLimitResult): Response {
 
 /**
  * Rate limit middleware wrapper for API routes
+ *
+ * `getSubject` may return a plain identifier or a subject with role and
+ * trust level, which selects the matching policy quota.
  */
 export function withRateLimit(
   endpoint: string,
   handler: (request: Request, identifier: string) => Promise<Response>,
-  getIdentifier?: (request: Request) => string
+  getSubject?: (
+    request: Request
+  ) => string | RateLimitSubject | Promise<string | RateLimitSubject>
 ): (request: Request) => Promise<Response> {
   return async (request: Request) => {
     // Get identifier (user ID from auth, or IP address as fallback)
-    const identifier = getIdentifier
-      ? getIdentifier(request)
-      : request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
-        request.headers.get("x-real-ip") ||
-        "anonymous";
+    const ip =
+      request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ||
+      request.headers.get("x-real-ip") ||
+      "anonymous";
+    const resolved = getSubject ? await getSubject(request) : ip;
+    // Anonymous callers are trusted by IP (a string from getSubject is a user ID)
+    const subject: RateLimitSubject =
+      typeof resolved !== "string" ? resolved : getSubject ? { id: resolved } : { id: ip, ip };
+    const identifier = String(subject.id);
 
     // Check rate limit (now async for Redis support)
-    const result = await checkRateLimit(identifier, endpoint);
+    const result = await checkPolicyRateLimit(subject, endpoint);
 
     if (!result.allowed) {
       return createRateLimitResponse(result);
@@ -290,16 +465,33 @@ export function withRateLimit(
 
 /**
  * Get current rate limit status for a user/endpoint
+ * Pass the resolved config to report a policy limit rather than the default.
  */
 export function getRateLimitStatus(
   identifier: string | number,
-  endpoint: string
+  endpoint: string,
+  config?: RateLimitConfig
 ): RateLimitResult {
   const id = String(identifier);
-  const key = getRateLimitKey(id, endpoint);
-  const limitConfig = RATE_LIMITS[endpoint] || RATE_LIMITS.default!;
+  const limitConfig = config || RATE_LIMITS[endpoint] || RATE_LIMITS.default!;
+  const key = getRateLimitKey(id, endpoint, limitConfig.algorithm);
   const now = Date.now();
 
+  if (limitConfig.algorithm === "sliding_window") {
+    const log = (slidingWindowStore.get(key) || []).filter(
+      (entry) => entry.timestamp > now - limitConfig.windowMs
+    );
+    const status = evaluateSlidingWindow(log, limitConfig, 1, now);
+    return {
+      ...status,
+      remaining: Math.max(
+        0,
+        limitConfig.maxTokens - log.reduce((sum, entry) => sum + entry.cost, 0)
+      ),
+      retryAfter: undefined,
+    };
+  }
+
   const bucket = rateLimitStore.get(key);
 
   if (!bucket) {
@@ -333,8 +525,8 @@ export function getRateLimitStatus(
  * Reset rate limit for a specific user/endpoint (admin only)
  */
 export function resetRateLimit(identifier: string, endpoint: string): void {
-  const key = getRateLimitKey(identifier, endpoint);
-  rateLimitStore.delete(key);
+  rateLimitStore.delete(getRateLimitKey(identifier, endpoint, "token_bucket"));
+  slidingWindowStore.delete(getRateLimitKey(identifier, endpoint, "sliding_window"));
 }
 
 /**
@@ -342,18 +534,22 @@ export function resetRateLimit(identifier: string, endpoint: string): void {
  */
 export function clearAllRateLimits(): void {
   rateLimitStore.clear();
+  slidingWindowStore.clear();
 }
 
 /**
  * Get all active rate limit entries (for monitoring)
+ * For sliding windows, `tokens` is the cost used in the current window.
  */
 export function getAllRateLimits(): Array<{
   key: string;
+  algorithm: RateLimitAlgorithm;
   tokens: number;
   lastRefill: Date;
 }> {
   const entries: Array<{
     key: string;
+    algorithm: RateLimitAlgorithm;
     tokens: number;
     lastRefill: Date;
   }> = [];
@@ -361,10 +557,22 @@ export function getAllRateLimits(): Array<{
   rateLimitStore.forEach((value, key) => {
     entries.push({
       key,
+      algorithm: "token_bucket",
       tokens: value.tokens,
       lastRefill: new Date(value.lastRefill),
     });
   });
 
+  slidingWindowStore.forEach((log, key) => {
+    const latest = log[log.length - 1];
+    if (!latest) return;
+    entries.push({
+      key,
+      algorithm: "sliding_window",
+      tokens: log.reduce((sum, entry) => sum + entry.cost, 0),
+      lastRefill: new Date(latest.timestamp),
+    });
+  });
+
   return entries;
 }
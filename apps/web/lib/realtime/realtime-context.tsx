@@ -6,6 +6,7 @@
  * Provides a centralized realtime subscription manager to:
  * 1. Pool subscriptions - prevent duplicate connections to the same conversation
  * 2. Use Broadcast for ephemeral data (typing indicators, presence)
+ *    and postgres_changes for persisted data (messages, edits, reactions)
  * 3. Handle reconnection with exponential backoff
  * 4. Manage subscription lifecycle
  *
@@ -26,6 +27,7 @@ import {
 import { createBrowserClient } from "@supabase/ssr";
 import type { RealtimeChannel, SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "../database.types";
+import type { ReactionChange } from "../message-reactions";
 
 // ============================================================================
 // Types
@@ -63,6 +65,8 @@ export interface ReadReceiptPayload {
 
 export interface ChannelHandlers {
   onMessage?: (payload: MessagePayload) => void;
+  onMessageUpdate?: (payload: MessagePayload) => void;
+  onReaction?: (change: ReactionChange) => void;
   onTyping?: (payload: TypingPayload) => void;
   onReadReceipt?: (payload: ReadReceiptPayload) => void;
   onPresenceSync?: (state: Record<string, PresenceState[]>) => void;
@@ -162,6 +166,49 @@ export function RealtimeProvider({ children }: RealtimeProviderProps) {
         }
       );
 
+      // Edits and deletions (content, edited_at, deleted_at)
+      channel.on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "dm_messages",
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          const msg = payload.new as MessagePayload;
+          state.handlers.forEach((h) => h.onMessageUpdate?.(msg));
+        }
+      );
+
+      // Reactions added (INSERT) and removed (DELETE, full old row via REPLICA IDENTITY)
+      channel.on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "dm_message_reactions",
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          const added = payload.eventType === "INSERT";
+          const row = (added ? payload.new : payload.old) as {
+            message_id?: string;
+            user_id?: string;
+            emoji?: string;
+          };
+          if (!row.message_id || !row.user_id || !row.emoji) return;
+
+          const change: ReactionChange = {
+            messageId: row.message_id,
+            userId: row.user_id,
+            emoji: row.emoji,
+            added,
+          };
+          state.handlers.forEach((h) => h.onReaction?.(change));
+        }
+      );
+
       // Subscribe to typing via broadcast (ephemeral - NO DB!)
       channel.on("broadcast", { event: "typing" }, ({ payload }) => {
         const typingPayload = payload as TypingPayload;
@@ -400,6 +447,8 @@ interface UseConversationRealtimeOptions {
   conversationId: string;
   currentUserId: string;
   onMessage?: (payload: MessagePayload) => void;
+  onMessageUpdate?: (payload: MessagePayload) => void;
+  onReactionChange?: (change: ReactionChange) => void;
   onTypingChange?: (typingUserIds: string[]) => void;
   onReadReceipt?: (payload: ReadReceiptPayload) => void;
   enabled?: boolean;
@@ -409,6 +458,8 @@ export function useConversationRealtime({
   conversationId,
   currentUserId,
   onMessage,
+  onMessageUpdate,
+  onReactionChange,
   onTypingChange,
   onReadReceipt,
   enabled = true,
@@ -425,6 +476,16 @@ export function useConversationRealtime({
         if (payload.sender_id === currentUserId) return;
         onMessage?.(payload);
       },
+      onMessageUpdate: (payload) => {
+        // Own edits and deletions are applied when they're made, but
+        // updates from the user's other devices still need to come through
+        onMessageUpdate?.(payload);
+      },
+      onReaction: (change) => {
+        // Skip own reactions (already applied optimistically)
+        if (change.userId === currentUserId) return;
+        onReactionChange?.(change);
+      },
       onTyping: (payload) => {
         // Skip own typing indicators
         if (payload.userId === currentUserId) return;
@@ -475,6 +536,8 @@ export function useConversationRealtime({
     subscribe,
     trackPresence,
     onMessage,
+    onMessageUpdate,
+    onReactionChange,
     onTypingChange,
     onReadReceipt,
   ]);
@@ -14,7 +14,7 @@
  * - State machine with clear transitions
  * - Error handling and retry logic
  * - Progress tracking
- * - Webhook notifications (future)
+ * - Webhook notifications (resource.update.ready_for_review, lib/webhooks)
  */
 
 import "server-only";
@@ -32,6 +32,9 @@ import {
   deleteResourceScreenshots,
   getScreenshotUrls,
 } from "./screenshot-service";
+import { emitWebhookEvent } from "@/lib/webhooks/server";
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || "https://www.claudeinsider.com";
 
 /**
  * Job status enum
@@ -244,6 +247,25 @@ export async function processUpdateJob(jobId: string): Promise<void> {
       screenshot_errors: screenshotErrors.length > 0 ? screenshotErrors : null,
     });
 
+    await emitWebhookEvent("resource.update.ready_for_review", {
+      title: `Resource update ready for review: ${resource.name}`,
+      text: analysis.summary,
+      url: `${APP_URL}/dashboard/resource-updates/${jobId}`,
+      fields: [
+        { name: "Proposed changes", value: String(analysis.proposedChanges.length) },
+        { name: "Confidence", value: `${Math.round(analysis.overallConfidence * 100)}%` },
+        { name: "Trigger", value: job.trigger_type },
+      ],
+      data: {
+        jobId,
+        resourceId: resource.id,
+        resourceSlug: resource.slug,
+        proposedChanges: analysis.proposedChanges.length,
+        overallConfidence: analysis.overallConfidence,
+        screenshots: screenshots.length,
+      },
+    });
+
     // TODO: Send notification to admins
   } catch (error) {
     const errorMessage =
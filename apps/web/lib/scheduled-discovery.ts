@@ -106,12 +106,24 @@ async function processSource(source: ResourceSource): Promise<DiscoveryRunResult
       `SELECT url FROM resources WHERE url IS NOT NULL`
     );
     const existingUrls = new Set(existingResult.rows.map((r) => r.url));
-    const existingUrlsArray = Array.from(existingUrls);
+
+    // URLs and feed GUIDs this source already queued, so feed entries
+    // waiting for review aren't rediscovered on every run
+    const queuedResult = await pool.query<{ url: string; guid: string | null }>(
+      `SELECT discovered_url AS url, discovered_data->'feed'->>'guid' AS guid
+       FROM resource_discovery_queue
+       WHERE source_id = $1`,
+      [source.id]
+    );
+    const skipExisting = [
+      ...existingUrls,
+      ...queuedResult.rows.flatMap((r) => (r.guid ? [r.url, r.guid] : [r.url])),
+    ];
 
     // Run discovery
     const discoveryResult = await discoverResources(adapterConfig, {
       limit: 50,
-      skipExisting: existingUrlsArray,
+      skipExisting,
       minStars: source.min_stars,
       minDownloads: source.min_downloads,
     });
@@ -145,6 +157,10 @@ async function processSource(source: ResourceSource): Promise<DiscoveryRunResult
               JSON.stringify({
                 github: resource.metadata?.github,
                 npm: resource.metadata?.npm,
+                pypi: resource.metadata?.pypi,
+                crates: resource.metadata?.crates,
+                vscode: resource.metadata?.vscode,
+                feed: resource.metadata?.feed,
                 sourceType: resource.sourceType,
                 discoveredAt: resource.discoveredAt,
                 context: resource.context,
@@ -209,9 +225,11 @@ function mapSourceTypeToAdapter(sourceType: string): SourceType {
     github_search: "github_search",
     awesome_list: "awesome_list",
     npm: "npm_search",
-    pypi: "npm_search", // Use npm adapter structure for PyPI for now
+    pypi: "pypi_package",
+    crates: "crates_package",
+    vscode: "vscode_extension",
     website: "website",
-    rss: "website",
+    rss: "rss_feed",
     api: "website",
     manual: "manual",
   };
@@ -275,15 +293,36 @@ function buildAdapterConfig(source: ResourceSource): Parameters<typeof discoverR
       };
 
     case "pypi":
-      // PyPI uses similar structure to npm for now
       return {
-        npm: {
+        pypi: {
           searchQuery: registryConfig?.searchQuery,
         },
       };
 
-    case "website":
+    case "crates":
+      return {
+        crates: {
+          searchQuery: registryConfig?.searchQuery,
+          category: registryConfig?.scope,
+        },
+      };
+
+    case "vscode":
+      return {
+        vscode: {
+          searchQuery: registryConfig?.searchQuery,
+          publisher: registryConfig?.scope,
+        },
+      };
+
     case "rss":
+      return {
+        rssFeed: {
+          url: source.url,
+        },
+      };
+
+    case "website":
     case "api":
       return {
         website: {
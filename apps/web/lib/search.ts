@@ -1,4 +1,19 @@
-import Fuse from "fuse.js";
+import Fuse, { type FuseResultMatch, type RangeTuple } from "fuse.js";
+import { defaultLocale } from "@/i18n/config";
+
+/**
+ * Site Search
+ *
+ * Quick (Fuse.js) search over a content-derived index generated at build time by
+ * scripts/generate-search-index.cjs into public/search-index.json. The index covers
+ * MDX docs (per page and per heading anchor), resources, public prompts and
+ * user-facing site pages, with localized site page entries per locale.
+ *
+ * The index is a static file fetched on first search, so it stays out of the
+ * JS bundles and is cached by the browser like any other asset.
+ */
+
+export type SearchDocumentType = "doc" | "heading" | "page" | "resource" | "prompt";
 
 export interface SearchDocument {
   title: string;
@@ -6,465 +21,241 @@ export interface SearchDocument {
   content: string;
   url: string;
   category: string;
+  type: SearchDocumentType;
+  // Heading entries: anchor id and the page the heading belongs to
+  anchor?: string;
+  parentTitle?: string;
+  tags?: string[];
+  // Set on localized entries only
+  locale?: string;
+}
+
+// Shape of public/search-index.json
+interface SearchIndexFile {
+  version: string;
+  generatedAt: string;
+  defaultLocale: string;
+  documents: SearchDocument[];
+  locales: Record<string, SearchDocument[]>;
+}
+
+export interface SearchFacet {
+  category: string;
+  count: number;
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchHit {
+  item: SearchDocument;
+  score: number;
+  // Title split into highlighted/plain segments
+  title: HighlightSegment[];
+  // Excerpt around the best body match (description or content)
+  snippet: HighlightSegment[];
+}
+
+export interface SearchOptions {
+  limit?: number;
+  categories?: string[];
+  types?: SearchDocumentType[];
+}
+
+export interface SearchResponse {
+  hits: SearchHit[];
+  facets: SearchFacet[];
+  total: number;
+}
+
+// Characters of context shown on each side of a snippet match
+const SNIPPET_RADIUS = 60;
+
+const SEARCH_INDEX_URL = "/search-index.json";
+
+let indexFilePromise: Promise<SearchIndexFile> | null = null;
+const localeCache = new Map<string, SearchDocument[]>();
+
+function loadIndexFile(): Promise<SearchIndexFile> {
+  if (!indexFilePromise) {
+    indexFilePromise = fetch(SEARCH_INDEX_URL)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to load search index: ${response.status}`);
+        }
+        return response.json() as Promise<SearchIndexFile>;
+      })
+      .catch((error) => {
+        indexFilePromise = null;
+        throw error;
+      });
+  }
+  return indexFilePromise;
+}
+
+/**
+ * Load search documents for a locale.
+ * Localized entries replace the default-locale entry with the same URL.
+ */
+export async function loadSearchIndex(locale: string = defaultLocale): Promise<SearchDocument[]> {
+  const cached = localeCache.get(locale);
+  if (cached) return cached;
+
+  const index = await loadIndexFile();
+  const localized = locale === index.defaultLocale ? [] : index.locales[locale] ?? [];
+
+  let documents = index.documents;
+  if (localized.length > 0) {
+    const localizedUrls = new Set(localized.map((doc) => doc.url));
+    documents = [
+      ...localized,
+      ...index.documents.filter((doc) => !localizedUrls.has(doc.url)),
+    ];
+  }
+
+  localeCache.set(locale, documents);
+  return documents;
+}
+
+/**
+ * Count documents per category, most common first
+ */
+export function getCategoryFacets(documents: SearchDocument[]): SearchFacet[] {
+  const counts = new Map<string, number>();
+  for (const doc of documents) {
+    counts.set(doc.category, (counts.get(doc.category) || 0) + 1);
+  }
+  return Array.from(counts.entries())
+    .map(([category, count]) => ({ category, count }))
+    .sort((a, b) => b.count - a.count || a.category.localeCompare(b.category));
+}
+
+/**
+ * Split text into highlighted/plain segments from Fuse match ranges
+ */
+function toSegments(text: string, ranges: readonly RangeTuple[], offset: number = 0): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+
+  for (const [rawStart, rawEnd] of ranges) {
+    const start = Math.max(rawStart - offset, 0);
+    const end = Math.min(rawEnd - offset + 1, text.length);
+    if (end <= cursor || start >= text.length) continue;
+
+    if (start > cursor) {
+      segments.push({ text: text.slice(cursor, start), highlight: false });
+    }
+    segments.push({ text: text.slice(Math.max(start, cursor), end), highlight: true });
+    cursor = end;
+  }
+
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), highlight: false });
+  }
+
+  return segments;
+}
+
+/**
+ * Build an excerpt around the longest match range
+ */
+function buildSnippet(text: string, ranges: readonly RangeTuple[]): HighlightSegment[] {
+  if (ranges.length === 0) {
+    return [{ text: text.slice(0, SNIPPET_RADIUS * 2), highlight: false }];
+  }
+
+  const [bestStart, bestEnd] = ranges.reduce((best, range) =>
+    range[1] - range[0] > best[1] - best[0] ? range : best
+  );
+
+  let start = Math.max(bestStart - SNIPPET_RADIUS, 0);
+  let end = Math.min(bestEnd + SNIPPET_RADIUS + 1, text.length);
+
+  // Expand to word boundaries
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    if (space !== -1 && space < bestStart) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > bestEnd) end = space;
+  }
+
+  const segments = toSegments(text.slice(start, end), ranges, start);
+  if (start > 0) segments.unshift({ text: "…", highlight: false });
+  if (end < text.length) segments.push({ text: "…", highlight: false });
+  return segments;
 }
 
-// Build search index from all website pages
-export function buildSearchIndex(): SearchDocument[] {
-  // This is a static list of all searchable pages
-  // Includes documentation, resources, legal pages, and other site pages
-  return [
-    // Getting Started
-    {
-      title: "Getting Started",
-      description: "Begin your journey with Claude Code",
-      content:
-        "Introduction to Claude Code, your AI-powered coding companion. Learn how to install, configure, and start using Claude Code in your development workflow.",
-      url: "/docs/getting-started",
-      category: "Getting Started",
-    },
-    {
-      title: "Installation",
-      description: "Install Claude Code on your system",
-      content:
-        "Install Claude Code using npm, Homebrew, or download directly. System requirements, installation methods, verify installation, authenticate, first run.",
-      url: "/docs/getting-started/installation",
-      category: "Getting Started",
-    },
-    {
-      title: "Quick Start",
-      description: "Get up and running with Claude Code in minutes",
-      content:
-        "Quick start guide, first session, basic commands, file operations, code generation, debugging, git integration, best practices.",
-      url: "/docs/getting-started/quickstart",
-      category: "Getting Started",
-    },
-    {
-      title: "Troubleshooting",
-      description: "Common issues and solutions for Claude Code",
-      content:
-        "Troubleshooting, common errors, installation problems, authentication issues, network errors, permission denied, debugging tips, FAQ.",
-      url: "/docs/getting-started/troubleshooting",
-      category: "Getting Started",
-    },
-    {
-      title: "Migration Guide",
-      description: "Transitioning to Claude Code from other AI assistants",
-      content:
-        "Migration, GitHub Copilot, Cursor, Codeium, ChatGPT, transition guide, workflow changes, configuration migration.",
-      url: "/docs/getting-started/migration",
-      category: "Getting Started",
-    },
-
-    // Configuration
-    {
-      title: "Configuration",
-      description: "Customize Claude Code for your workflow",
-      content:
-        "Configuration overview, settings files, CLAUDE.md, environment variables, project settings, global settings.",
-      url: "/docs/configuration",
-      category: "Configuration",
-    },
-    {
-      title: "CLAUDE.md Guide",
-      description: "Configure project-specific AI instructions",
-      content:
-        "CLAUDE.md file, project instructions, memory file, context, rules, conventions, workflows, best practices.",
-      url: "/docs/configuration/claude-md",
-      category: "Configuration",
-    },
-    {
-      title: "Settings",
-      description: "All configuration options for Claude Code",
-      content:
-        "Settings reference, JSON configuration, environment variables, API keys, model selection, permissions, themes, keybindings.",
-      url: "/docs/configuration/settings",
-      category: "Configuration",
-    },
-    {
-      title: "Environment Variables",
-      description: "Complete reference for Claude Code environment variables",
-      content:
-        "Environment variables, ANTHROPIC_API_KEY, ANTHROPIC_MODEL, configuration, shell profile, direnv, secrets management.",
-      url: "/docs/configuration/environment",
-      category: "Configuration",
-    },
-    {
-      title: "Permissions & Security",
-      description: "Configure Claude Code permissions for safe operation",
-      content:
-        "Permissions, security, auto-approve, tool permissions, bash commands, file access, network access, git operations, safety.",
-      url: "/docs/configuration/permissions",
-      category: "Configuration",
-    },
-
-    // Tips & Tricks
-    {
-      title: "Tips & Tricks",
-      description: "Maximize your productivity with Claude AI",
-      content:
-        "Tips and tricks overview, quick wins, pro tips, file references, git context, chain operations.",
-      url: "/docs/tips-and-tricks",
-      category: "Tips & Tricks",
-    },
-    {
-      title: "Prompting Strategies",
-      description: "Master the art of communicating with Claude",
-      content:
-        "Prompting techniques, context, constraints, format, chain of thought, role assignment, few-shot examples, structured output.",
-      url: "/docs/tips-and-tricks/prompting",
-      category: "Tips & Tricks",
-    },
-    {
-      title: "Productivity Hacks",
-      description: "Work faster and smarter with Claude Code",
-      content:
-        "Keyboard shortcuts, slash commands, workflow optimization, session management, automation, daily workflows.",
-      url: "/docs/tips-and-tricks/productivity",
-      category: "Tips & Tricks",
-    },
-    {
-      title: "Advanced Prompting",
-      description: "Advanced prompting techniques for Claude Code",
-      content:
-        "Advanced prompting, chain of thought, meta-prompting, system prompts, role-based prompting, structured output, reasoning.",
-      url: "/docs/tips-and-tricks/advanced-prompting",
-      category: "Tips & Tricks",
-    },
-    {
-      title: "Debugging",
-      description: "Debugging techniques with Claude Code",
-      content:
-        "Debugging, error analysis, stack traces, reproduction, bug hunting, binary search, git bisect, logging, troubleshooting.",
-      url: "/docs/tips-and-tricks/debugging",
-      category: "Tips & Tricks",
-    },
-
-    // API
-    {
-      title: "API Reference",
-      description: "Complete reference for the Claude API",
-      content:
-        "API reference, REST API, Messages API, streaming, models, Claude Opus, Claude Sonnet, Claude Haiku, error handling, rate limits.",
-      url: "/docs/api",
-      category: "API",
-    },
-    {
-      title: "Authentication",
-      description: "Secure your Claude API integration",
-      content:
-        "API authentication, API keys, environment variables, secrets management, security best practices, server-side integration.",
-      url: "/docs/api/authentication",
-      category: "API",
-    },
-    {
-      title: "Tool Use",
-      description: "Enable Claude to interact with external systems",
-      content:
-        "Tool use, function calling, tool definitions, input schema, tool calls, tool results, streaming, tool choice, best practices.",
-      url: "/docs/api/tool-use",
-      category: "API",
-    },
-    {
-      title: "Streaming",
-      description: "Implement real-time streaming responses",
-      content:
-        "Streaming, SSE, server-sent events, real-time, progressive rendering, cancellation, React hooks, async iteration.",
-      url: "/docs/api/streaming",
-      category: "API",
-    },
-    {
-      title: "Error Handling",
-      description: "Handle API errors gracefully",
-      content:
-        "Error handling, HTTP status codes, retry logic, exponential backoff, rate limit errors, authentication errors, best practices.",
-      url: "/docs/api/error-handling",
-      category: "API",
-    },
-    {
-      title: "Rate Limits",
-      description: "Understand and work within API rate limits",
-      content:
-        "Rate limits, quotas, tokens per minute, requests per minute, throttling, queuing, optimization, tier limits.",
-      url: "/docs/api/rate-limits",
-      category: "API",
-    },
-    {
-      title: "Models",
-      description: "Compare and select Claude models",
-      content:
-        "Models, Claude Opus, Claude Sonnet, Claude Haiku, model selection, comparison, pricing, performance, capabilities.",
-      url: "/docs/api/models",
-      category: "API",
-    },
-
-    // Integrations
-    {
-      title: "Integrations",
-      description: "Connect Claude Code with your development tools",
-      content:
-        "Integrations overview, MCP servers, IDE plugins, hooks, database access, git integration, CI/CD.",
-      url: "/docs/integrations",
-      category: "Integrations",
-    },
-    {
-      title: "MCP Servers",
-      description: "Extend Claude Code with Model Context Protocol servers",
-      content:
-        "MCP servers, Model Context Protocol, filesystem server, PostgreSQL, SQLite, Git, GitHub, Slack, Google Drive, custom servers.",
-      url: "/docs/integrations/mcp-servers",
-      category: "Integrations",
-    },
-    {
-      title: "IDE Plugins",
-      description: "Integrate Claude Code into your code editor",
-      content:
-        "IDE plugins, VS Code extension, JetBrains plugins, Neovim integration, Sublime Text, Emacs, inline chat, code actions.",
-      url: "/docs/integrations/ide-plugins",
-      category: "Integrations",
-    },
-    {
-      title: "Hooks",
-      description: "Automate workflows with Claude Code hooks",
-      content:
-        "Hooks, pre-tool hooks, post-tool hooks, notification hooks, matchers, environment variables, automation, code quality pipeline.",
-      url: "/docs/integrations/hooks",
-      category: "Integrations",
-    },
-    {
-      title: "GitHub Actions",
-      description: "Automate workflows with Claude Code in CI/CD",
-      content:
-        "GitHub Actions, CI/CD, automation, code review, documentation generation, test generation, workflows, pull requests.",
-      url: "/docs/integrations/github-actions",
-      category: "Integrations",
-    },
-    {
-      title: "Docker",
-      description: "Run Claude Code in containerized environments",
-      content:
-        "Docker, containers, Dockerfile, docker-compose, Kubernetes, CI/CD, development environment, production deployment.",
-      url: "/docs/integrations/docker",
-      category: "Integrations",
-    },
-    {
-      title: "Databases",
-      description: "Connect Claude Code to databases via MCP",
-      content:
-        "Databases, PostgreSQL, MySQL, SQLite, MongoDB, Redis, MCP servers, queries, schema exploration, data analysis.",
-      url: "/docs/integrations/databases",
-      category: "Integrations",
-    },
-
-    // Tutorials
-    {
-      title: "Tutorials",
-      description: "Step-by-step tutorials for common development workflows",
-      content:
-        "Tutorials, guides, code review, documentation generation, test generation, workflows, best practices.",
-      url: "/docs/tutorials",
-      category: "Tutorials",
-    },
-    {
-      title: "Code Review",
-      description: "Automated code review with Claude",
-      content:
-        "Code review, automated review, security audit, performance review, bug detection, pull request review, best practices.",
-      url: "/docs/tutorials/code-review",
-      category: "Tutorials",
-    },
-    {
-      title: "Documentation Generation",
-      description: "Auto-generate comprehensive documentation",
-      content:
-        "Documentation generation, README, API docs, JSDoc, docstrings, architecture docs, user guides, automated documentation.",
-      url: "/docs/tutorials/documentation-generation",
-      category: "Tutorials",
-    },
-    {
-      title: "Test Generation",
-      description: "Generate comprehensive test suites with Claude",
-      content:
-        "Test generation, unit tests, integration tests, Jest, pytest, testing library, mocking, test coverage, TDD.",
-      url: "/docs/tutorials/test-generation",
-      category: "Tutorials",
-    },
-
-    // Examples
-    {
-      title: "Examples",
-      description: "Real-world examples and case studies",
-      content:
-        "Examples, case studies, real-world projects, workflows, web development, API development, automation.",
-      url: "/docs/examples",
-      category: "Examples",
-    },
-    {
-      title: "Real-World Projects",
-      description: "Case studies of Claude Code in production",
-      content:
-        "Real-world projects, case studies, e-commerce API, CLI tools, component library, data pipeline, production, success stories.",
-      url: "/docs/examples/real-world-projects",
-      category: "Examples",
-    },
-
-    // Resources
-    {
-      title: "Resources",
-      description: "Curated collection of Claude Code resources",
-      content:
-        "Resources, MCP servers, tools, SDKs, tutorials, showcases, community, prompts, agents, rules, CLAUDE.md templates.",
-      url: "/resources",
-      category: "Resources",
-    },
-    {
-      title: "MCP Servers",
-      description: "Model Context Protocol servers for Claude Code",
-      content:
-        "MCP servers, Model Context Protocol, filesystem, PostgreSQL, SQLite, Git, GitHub, Slack, Google Drive, Puppeteer, Brave Search.",
-      url: "/resources/mcp-servers",
-      category: "Resources",
-    },
-    {
-      title: "Tools & SDKs",
-      description: "Development tools and SDKs for Claude",
-      content:
-        "Tools, SDKs, development utilities, libraries, frameworks, integrations, Anthropic SDK, TypeScript SDK, Python SDK.",
-      url: "/resources/tools",
-      category: "Resources",
-    },
-    {
-      title: "CLAUDE.md Rules",
-      description: "Project configuration templates and rules",
-      content:
-        "CLAUDE.md rules, templates, project configuration, coding standards, best practices, conventions, workflows.",
-      url: "/resources/rules",
-      category: "Resources",
-    },
-    {
-      title: "Prompts",
-      description: "Effective prompts and prompt libraries for Claude",
-      content:
-        "Prompts, prompt engineering, prompt templates, effective prompts, prompt libraries, Claude prompts, AI prompts.",
-      url: "/resources/prompts",
-      category: "Resources",
-    },
-    {
-      title: "Agents",
-      description: "AI agents and autonomous systems built with Claude",
-      content:
-        "Agents, AI agents, autonomous systems, agent frameworks, multi-agent, Claude agents, agentic workflows.",
-      url: "/resources/agents",
-      category: "Resources",
-    },
-    {
-      title: "Tutorials",
-      description: "Step-by-step tutorials and learning resources",
-      content:
-        "Tutorials, guides, learning resources, step-by-step, walkthroughs, Claude tutorials, coding tutorials.",
-      url: "/resources/tutorials",
-      category: "Resources",
-    },
-    {
-      title: "Showcases",
-      description: "Example projects and showcases built with Claude",
-      content:
-        "Showcases, example projects, demos, sample code, real-world examples, Claude projects, inspiration.",
-      url: "/resources/showcases",
-      category: "Resources",
-    },
-    {
-      title: "Community",
-      description: "Community forums, Discord, and discussion groups",
-      content:
-        "Community, forums, Discord, discussions, support, help, Claude community, user groups, social.",
-      url: "/resources/community",
-      category: "Resources",
-    },
-    {
-      title: "Official Resources",
-      description: "Official Anthropic documentation and resources",
-      content:
-        "Official resources, Anthropic documentation, official docs, API reference, official guides, announcements.",
-      url: "/resources/official",
-      category: "Resources",
-    },
-
-    // Site Pages
-    {
-      title: "AI Assistant",
-      description: "Chat with Claude about Claude Code",
-      content:
-        "AI assistant, chat, Claude AI, documentation assistant, ask questions, voice search, natural language.",
-      url: "/assistant",
-      category: "Site",
-    },
-    {
-      title: "Playground",
-      description: "Interactive Claude Code playground",
-      content:
-        "Playground, interactive, sandbox, experiment, try Claude, test prompts, live demo.",
-      url: "/playground",
-      category: "Site",
-    },
-    {
-      title: "Donate",
-      description: "Support Claude Insider development",
-      content:
-        "Donate, support, contribution, PayPal, bank transfer, funding, sponsor, help maintain.",
-      url: "/donate",
-      category: "Site",
-    },
-    {
-      title: "Changelog",
-      description: "Version history and release notes",
-      content:
-        "Changelog, version history, release notes, updates, new features, bug fixes, improvements.",
-      url: "/changelog",
-      category: "Site",
-    },
-    {
-      title: "Settings",
-      description: "Account and application settings",
-      content:
-        "Settings, account, preferences, API key, theme, notifications, profile, security, two-factor authentication.",
-      url: "/settings",
-      category: "Site",
-    },
-
-    // Legal Pages
-    {
-      title: "Privacy Policy",
-      description: "How we handle your data and privacy",
-      content:
-        "Privacy policy, data protection, GDPR, CCPA, cookies, personal information, data handling, privacy rights.",
-      url: "/privacy",
-      category: "Legal",
-    },
-    {
-      title: "Terms of Service",
-      description: "Terms and conditions for using Claude Insider",
-      content:
-        "Terms of service, terms and conditions, user agreement, acceptable use, legal terms, service agreement.",
-      url: "/terms",
-      category: "Legal",
-    },
-    {
-      title: "Disclaimer",
-      description: "Important disclaimers and limitations",
-      content:
-        "Disclaimer, limitations, liability, warranty, accuracy, third-party content, professional advice.",
-      url: "/disclaimer",
-      category: "Legal",
-    },
-    {
-      title: "Accessibility",
-      description: "Accessibility features and standards",
-      content:
-        "Accessibility, WCAG, screen reader, keyboard navigation, accessible, inclusive design, a11y.",
-      url: "/accessibility",
-      category: "Legal",
-    },
-  ];
+/**
+ * Ranges of literal query-term occurrences in text (case-insensitive, merged)
+ */
+function findTermRanges(text: string, terms: string[]): RangeTuple[] {
+  const lower = text.toLowerCase();
+  const ranges: RangeTuple[] = [];
+
+  for (const term of terms) {
+    let from = lower.indexOf(term);
+    while (from !== -1) {
+      ranges.push([from, from + term.length - 1]);
+      from = lower.indexOf(term, from + term.length);
+    }
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: RangeTuple[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1] + 1) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Turn a query and its Fuse matches into title and snippet highlights.
+ * Literal query terms are highlighted when present; otherwise the fuzzy
+ * Fuse ranges are used, ignoring very short ones (mostly noise).
+ */
+function buildHighlights(
+  item: SearchDocument,
+  query: string,
+  matches: readonly FuseResultMatch[] | undefined
+): Pick<SearchHit, "title" | "snippet"> {
+  // Strip extended-search operators (', !, ^, $, |) from the terms
+  const terms = query
+    .toLowerCase()
+    .split(/\s+/)
+    .map((term) => term.replace(/^[!'^=]+|\$$/g, ""))
+    .filter((term) => term.length >= 2 && term !== "|");
+
+  const rangesFor = (key: "title" | "description" | "content"): RangeTuple[] => {
+    const literal = findTermRanges(item[key], terms);
+    if (literal.length > 0) return literal;
+    return (matches ?? [])
+      .filter((m) => m.key === key)
+      .flatMap((m) => m.indices)
+      .filter(([start, end]) => end - start >= 2)
+      .sort((a, b) => a[0] - b[0]);
+  };
+
+  const titleRanges = rangesFor("title");
+  const descriptionRanges = rangesFor("description");
+  const contentRanges = rangesFor("content");
+
+  // Prefer the description unless only the content matched
+  const useContent = descriptionRanges.length === 0 && contentRanges.length > 0;
+  const snippetText = useContent ? item.content : item.description;
+
+  return {
+    title: toSegments(item.title, titleRanges),
+    snippet: buildSnippet(snippetText, useContent ? contentRanges : descriptionRanges),
+  };
 }
 
 // Create a Fuse instance for searching
@@ -472,27 +263,74 @@ export function createSearchInstance(documents: SearchDocument[]): Fuse<SearchDo
   return new Fuse(documents, {
     keys: [
       { name: "title", weight: 0.4 },
-      { name: "description", weight: 0.3 },
-      { name: "content", weight: 0.2 },
-      { name: "category", weight: 0.1 },
+      { name: "description", weight: 0.25 },
+      { name: "content", weight: 0.15 },
+      { name: "tags", weight: 0.1 },
+      { name: "parentTitle", weight: 0.05 },
+      { name: "category", weight: 0.05 },
     ],
     threshold: 0.4,
+    ignoreLocation: true,
     includeScore: true,
     includeMatches: true,
     minMatchCharLength: 2,
   });
 }
 
+function matchesFilters(item: SearchDocument, options: SearchOptions): boolean {
+  if (options.categories?.length && !options.categories.includes(item.category)) return false;
+  if (options.types?.length && !options.types.includes(item.type)) return false;
+  return true;
+}
+
 // Search function
 export function search(
   fuse: Fuse<SearchDocument>,
   query: string,
-  limit: number = 10
+  limit: number = 10,
+  options: Omit<SearchOptions, "limit"> = {}
 ): SearchDocument[] {
   if (!query || query.length < 2) {
     return [];
   }
 
-  const results = fuse.search(query, { limit });
-  return results.map((result) => result.item);
+  if (!options.categories?.length && !options.types?.length) {
+    return fuse.search(query, { limit }).map((result) => result.item);
+  }
+
+  return fuse
+    .search(query)
+    .filter((result) => matchesFilters(result.item, options))
+    .slice(0, limit)
+    .map((result) => result.item);
+}
+
+/**
+ * Search with category facets and highlighted snippets.
+ * Facets count all matches before the category/type filters are applied,
+ * so the UI can show how many results each facet would give.
+ */
+export function searchWithFacets(
+  fuse: Fuse<SearchDocument>,
+  query: string,
+  options: SearchOptions = {}
+): SearchResponse {
+  if (!query || query.length < 2) {
+    return { hits: [], facets: [], total: 0 };
+  }
+
+  const { limit = 10 } = options;
+  const results = fuse.search(query);
+  const facets = getCategoryFacets(results.map((result) => result.item));
+  const filtered = results.filter((result) => matchesFilters(result.item, options));
+
+  return {
+    hits: filtered.slice(0, limit).map((result) => ({
+      item: result.item,
+      score: result.score ?? 0,
+      ...buildHighlights(result.item, query, result.matches),
+    })),
+    facets,
+    total: filtered.length,
+  };
 }
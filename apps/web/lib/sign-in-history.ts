@@ -0,0 +1,281 @@
+/**
+ * Sign-in History & Sessions
+ *
+ * Records sign-ins and 2FA/passkey verifications (sign_in_events,
+ * migration 119) and lists/revokes the user's Better Auth sessions for
+ * Settings → Devices & sessions. A successful sign-in from a device the
+ * user hasn't signed in from before queues an email alert.
+ *
+ * Revoking goes through Better Auth's revoke endpoints. Better Auth also
+ * caches sessions in a cookie (session.cookieCache in lib/auth.ts), so a
+ * revoked device can keep reading pages until that short cache expires;
+ * security-sensitive actions use getFreshSession(), which rejects it at once.
+ */
+
+import "server-only";
+import { pool } from "@/lib/db";
+import { getClientIP, getApproximateLocation } from "@/lib/client-ip";
+import { queueSignInAlert } from "@/lib/job-queue";
+
+export type SignInEventType = "sign_in" | "two_factor" | "passkey";
+
+export type DeviceType = "desktop" | "mobile" | "tablet" | "unknown";
+
+export interface DeviceInfo {
+  deviceType: DeviceType;
+  browser: string | null;
+  os: string | null;
+}
+
+/** A signed-in session, as listed in settings */
+export interface ActiveSession extends DeviceInfo {
+  id: string;
+  ipAddress: string | null;
+  location: string | null;
+  method: string | null;
+  createdAt: string;
+  /** Better Auth refreshes this at most once a day (session.updateAge) */
+  lastActiveAt: string;
+  isCurrent: boolean;
+}
+
+export interface SignInEvent extends DeviceInfo {
+  id: string;
+  eventType: SignInEventType;
+  method: string | null;
+  success: boolean;
+  ipAddress: string | null;
+  location: string | null;
+  isNewDevice: boolean;
+  createdAt: string;
+}
+
+/**
+ * Coarse device, browser and OS from a User-Agent header. Order matters:
+ * Edge and Opera also claim to be Chrome, and Chrome claims to be Safari.
+ */
+export function parseUserAgent(userAgent: string | null | undefined): DeviceInfo {
+  if (!userAgent) {
+    return { deviceType: "unknown", browser: null, os: null };
+  }
+
+  let deviceType: DeviceType = "desktop";
+  if (/iPad|Tablet/i.test(userAgent) || (/Android/i.test(userAgent) && !/Mobi/i.test(userAgent))) {
+    deviceType = "tablet";
+  } else if (/Mobi|iPhone|iPod/i.test(userAgent)) {
+    deviceType = "mobile";
+  }
+
+  let browser: string | null = null;
+  if (/Edg(e|A|iOS)?\//.test(userAgent)) browser = "Edge";
+  else if (/OPR\/|Opera/.test(userAgent)) browser = "Opera";
+  else if (/SamsungBrowser\//.test(userAgent)) browser = "Samsung Internet";
+  else if (/Firefox\/|FxiOS\//.test(userAgent)) browser = "Firefox";
+  else if (/Chrome\/|CriOS\//.test(userAgent)) browser = "Chrome";
+  else if (/Safari\//.test(userAgent)) browser = "Safari";
+
+  let os: string | null = null;
+  if (/Windows/.test(userAgent)) os = "Windows";
+  else if (/iPhone|iPad|iPod/.test(userAgent)) os = "iOS";
+  else if (/Mac OS X|Macintosh/.test(userAgent)) os = "macOS";
+  else if (/Android/.test(userAgent)) os = "Android";
+  else if (/CrOS/.test(userAgent)) os = "ChromeOS";
+  else if (/Linux/.test(userAgent)) os = "Linux";
+
+  return { deviceType, browser, os };
+}
+
+/**
+ * "Chrome on macOS", "Safari on iOS", "Unknown device"
+ */
+export function describeDevice(device: DeviceInfo): string {
+  if (device.browser && device.os) return `${device.browser} on ${device.os}`;
+  return device.browser || device.os || "Unknown device";
+}
+
+function getDeviceKey(device: DeviceInfo): string {
+  return [device.deviceType, device.os || "unknown", device.browser || "unknown"]
+    .join(":")
+    .toLowerCase();
+}
+
+/**
+ * Record a sign-in or verification. Never throws: history is best-effort
+ * and must not block signing in.
+ */
+export async function recordSignInEvent(params: {
+  userId: string;
+  eventType: SignInEventType;
+  method?: string | null;
+  success?: boolean;
+  sessionId?: string | null;
+  headers?: Headers | null;
+}): Promise<void> {
+  const success = params.success ?? true;
+  const headers = params.headers ?? null;
+  const userAgent = headers?.get("user-agent") || null;
+  const device = parseUserAgent(userAgent);
+  const deviceKey = getDeviceKey(device);
+  const ipAddress = headers ? getClientIP({ headers }) : null;
+  const location = headers ? getApproximateLocation({ headers }) : null;
+
+  try {
+    // A new device is one the user has never signed in from, as long as
+    // they have signed in before (the first sign-in isn't "new")
+    let isNewDevice = false;
+    if (params.eventType === "sign_in" && success) {
+      const history = await pool.query(
+        `SELECT
+           EXISTS (SELECT 1 FROM sign_in_events
+                   WHERE user_id = $1 AND event_type = 'sign_in' AND success = TRUE) as has_history,
+           EXISTS (SELECT 1 FROM sign_in_events
+                   WHERE user_id = $1 AND event_type = 'sign_in' AND success = TRUE
+                     AND device_key = $2) as is_known`,
+        [params.userId, deviceKey]
+      );
+      isNewDevice = history.rows[0].has_history && !history.rows[0].is_known;
+    }
+
+    const inserted = await pool.query(
+      `INSERT INTO sign_in_events (
+         user_id, session_id, event_type, method, success, ip_address, location,
+         user_agent, device_type, browser, os, device_key, is_new_device
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       RETURNING id, created_at`,
+      [
+        params.userId,
+        params.sessionId || null,
+        params.eventType,
+        params.method || null,
+        success,
+        ipAddress === "unknown" ? null : ipAddress,
+        location,
+        userAgent,
+        device.deviceType,
+        device.browser,
+        device.os,
+        deviceKey,
+        isNewDevice,
+      ]
+    );
+
+    // Sent by the job queue so email delivery stays off the sign-in path
+    if (isNewDevice && process.env.RESEND_API_KEY) {
+      const event = inserted.rows[0];
+      await queueSignInAlert(event.id, {
+        userId: params.userId,
+        device: describeDevice(device),
+        location,
+        ipAddress: ipAddress === "unknown" ? null : ipAddress,
+        signedInAt: event.created_at.toISOString(),
+      });
+    }
+  } catch (error) {
+    console.error("[Sign-in History] Record error:", error);
+  }
+}
+
+/**
+ * The user's unexpired sessions, most recently active first
+ */
+export async function listActiveSessions(
+  userId: string,
+  currentSessionId: string
+): Promise<ActiveSession[]> {
+  const result = await pool.query(
+    `SELECT s.id, s."ipAddress", s."userAgent", s."createdAt", s."updatedAt",
+       e.location, e.method
+     FROM session s
+     LEFT JOIN LATERAL (
+       SELECT location, method FROM sign_in_events
+       WHERE session_id = s.id
+       ORDER BY created_at
+       LIMIT 1
+     ) e ON TRUE
+     WHERE s."userId" = $1 AND s."expiresAt" > NOW()
+     ORDER BY s.id = $2 DESC, s."updatedAt" DESC`,
+    [userId, currentSessionId]
+  );
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    ...parseUserAgent(row.userAgent),
+    ipAddress: row.ipAddress || null,
+    location: row.location || null,
+    method: row.method || null,
+    createdAt: row.createdAt.toISOString(),
+    lastActiveAt: (row.updatedAt || row.createdAt).toISOString(),
+    isCurrent: row.id === currentSessionId,
+  }));
+}
+
+/**
+ * Recent sign-ins and verifications, newest first
+ */
+export async function getSignInHistory(userId: string, limit = 50): Promise<SignInEvent[]> {
+  const result = await pool.query(
+    `SELECT id, event_type, method, success, ip_address, location,
+       device_type, browser, os, is_new_device, created_at
+     FROM sign_in_events
+     WHERE user_id = $1
+     ORDER BY created_at DESC
+     LIMIT $2`,
+    [userId, limit]
+  );
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    eventType: row.event_type,
+    method: row.method,
+    success: row.success,
+    deviceType: row.device_type || "unknown",
+    browser: row.browser,
+    os: row.os,
+    ipAddress: row.ip_address,
+    location: row.location,
+    isNewDevice: row.is_new_device,
+    createdAt: row.created_at.toISOString(),
+  }));
+}
+
+/**
+ * End one of the user's sessions through Better Auth, so its session store
+ * is updated too. Returns false if it isn't theirs. `headers` must carry
+ * the current session.
+ */
+export async function revokeSession(
+  userId: string,
+  sessionId: string,
+  headers: Headers
+): Promise<boolean> {
+  const result = await pool.query(
+    `SELECT token FROM session WHERE id = $1 AND "userId" = $2`,
+    [sessionId, userId]
+  );
+  const token = result.rows[0]?.token;
+  if (!token) return false;
+
+  // Imported lazily: lib/auth.ts imports this module for its hooks
+  const { auth } = await import("@/lib/auth");
+  await auth.api.revokeSession({ body: { token }, headers });
+  return true;
+}
+
+/**
+ * End every session except the current one. Returns how many were ended.
+ */
+export async function revokeOtherSessions(
+  userId: string,
+  currentSessionId: string,
+  headers: Headers
+): Promise<number> {
+  const result = await pool.query(
+    `SELECT COUNT(*)::int AS count FROM session
+     WHERE "userId" = $1 AND id <> $2 AND "expiresAt" > NOW()`,
+    [userId, currentSessionId]
+  );
+
+  const { auth } = await import("@/lib/auth");
+  await auth.api.revokeOtherSessions({ headers });
+  return result.rows[0].count;
+}
@@ -2,7 +2,8 @@
  * Supabase Storage Utilities
  *
  * Helper functions for managing file uploads to Supabase Storage.
- * Used for avatar uploads, cover photos, and feedback screenshots.
+ * Used for avatar uploads, cover photos, feedback screenshots, and
+ * encrypted message attachments.
  *
  * NOTE: Uses createAdminClient() to bypass RLS policies because
  * the app uses Better Auth instead of Supabase Auth. Authentication
@@ -10,6 +11,7 @@
  */
 
 import { createAdminClient } from "@/lib/supabase/server";
+import { ATTACHMENT_LIMITS, AES_GCM_OVERHEAD } from "@/lib/e2ee/attachment-crypto";
 
 // Avatar configuration
 const AVATAR_BUCKET = "avatars";
@@ -21,6 +23,10 @@ const COVER_PHOTO_BUCKET = "covers";
 const MAX_COVER_PHOTO_SIZE = 5 * 1024 * 1024; // 5MB
 const ALLOWED_COVER_PHOTO_TYPES = ["image/jpeg", "image/png", "image/webp"];
 
+// Message attachment configuration (blobs are encrypted client-side)
+const MESSAGE_ATTACHMENT_BUCKET = "message-attachments";
+const MESSAGE_ATTACHMENT_URL_TTL = 5 * 60; // 5 minutes
+
 export interface UploadResult {
   success: boolean;
   url?: string;
@@ -407,3 +413,129 @@ export async function cleanupOldCoverPhotos(userId: string, keepPath: string): P
     console.error("[Storage] Cover photo cleanup error:", error);
   }
 }
+
+// =============================================================================
+// Message Attachment Functions
+// =============================================================================
+
+/**
+ * Upload an encrypted message attachment (or its thumbnail)
+ *
+ * The blob is ciphertext from lib/e2ee/attachment-crypto.ts, so only its
+ * size is validated here.
+ *
+ * @param conversationId - The conversation the attachment was shared in
+ * @param attachmentId - The dm_message_attachments row ID
+ * @param blob - The encrypted file
+ * @param kind - Whether this is the file itself or its thumbnail
+ * @returns Upload result with the storage path (no URL; see createMessageAttachmentUrl)
+ */
+export async function uploadMessageAttachment(
+  conversationId: string,
+  attachmentId: string,
+  blob: Blob,
+  kind: "file" | "thumbnail"
+): Promise<UploadResult> {
+  const maxSize =
+    kind === "file"
+      ? ATTACHMENT_LIMITS.maxFileSize + AES_GCM_OVERHEAD
+      : ATTACHMENT_LIMITS.maxThumbnailSize;
+
+  if (blob.size > maxSize) {
+    return {
+      success: false,
+      error:
+        kind === "file"
+          ? `File size must be less than ${ATTACHMENT_LIMITS.maxFileSize / 1024 / 1024}MB`
+          : "Thumbnail is too large",
+    };
+  }
+
+  try {
+    const supabase = await createAdminClient();
+    const path = `${conversationId}/${attachmentId}${kind === "thumbnail" ? ".thumb" : ""}`;
+
+    const { error: uploadError } = await supabase.storage
+      .from(MESSAGE_ATTACHMENT_BUCKET)
+      .upload(path, blob, {
+        contentType: "application/octet-stream",
+        upsert: false,
+      });
+
+    if (uploadError) {
+      console.error("[Storage] Message attachment upload error:", uploadError);
+      return {
+        success: false,
+        error: uploadError.message,
+      };
+    }
+
+    return { success: true, path };
+  } catch (error) {
+    console.error("[Storage] Message attachment upload error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Upload failed",
+    };
+  }
+}
+
+/**
+ * Create a short-lived download URL for an encrypted attachment
+ *
+ * @param path - The file path in the bucket
+ * @returns Signed URL, or null on failure
+ */
+export async function createMessageAttachmentUrl(path: string): Promise<string | null> {
+  try {
+    const supabase = await createAdminClient();
+
+    const { data, error } = await supabase.storage
+      .from(MESSAGE_ATTACHMENT_BUCKET)
+      .createSignedUrl(path, MESSAGE_ATTACHMENT_URL_TTL);
+
+    if (error || !data) {
+      console.error("[Storage] Message attachment URL error:", error);
+      return null;
+    }
+
+    return data.signedUrl;
+  } catch (error) {
+    console.error("[Storage] Message attachment URL error:", error);
+    return null;
+  }
+}
+
+/**
+ * Delete encrypted attachments (and thumbnails) from storage
+ *
+ * @param paths - File paths in the bucket
+ * @returns Success status
+ */
+export async function deleteMessageAttachments(
+  paths: string[]
+): Promise<{ success: boolean; error?: string }> {
+  if (paths.length === 0) return { success: true };
+
+  try {
+    const supabase = await createAdminClient();
+
+    const { error } = await supabase.storage.from(MESSAGE_ATTACHMENT_BUCKET).remove(paths);
+
+    if (error) {
+      console.error("[Storage] Message attachment delete error:", error);
+      return {
+        success: false,
+        error: error.message,
+      };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error("[Storage] Message attachment delete error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Delete failed",
+    };
+  }
+}
@@ -227,3 +227,71 @@ export function isValidTimezone(timezone: string): boolean {
     return false;
   }
 }
+
+/**
+ * Parse "HH:MM" (or Postgres TIME "HH:MM:SS") into minutes since midnight
+ * @returns null if the value isn't a valid time of day
+ */
+export function parseTimeOfDay(value: string | null | undefined): number | null {
+  const match = value?.match(/^([01]\d|2[0-3]):([0-5]\d)/);
+  if (!match) return null;
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Format minutes since midnight as "HH:MM"
+ */
+export function formatTimeOfDay(minutes: number): string {
+  const normalized = ((minutes % 1440) + 1440) % 1440;
+  const hours = Math.floor(normalized / 60);
+  return `${String(hours).padStart(2, "0")}:${String(normalized % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Minutes since local midnight in a timezone (invalid timezones use UTC)
+ */
+export function getMinutesInTimezone(timezone: string, date: Date = new Date()): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: isValidTimezone(timezone) ? timezone : "UTC",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const hour = Number(parts.find((p) => p.type === "hour")?.value ?? 0);
+  const minute = Number(parts.find((p) => p.type === "minute")?.value ?? 0);
+  return hour * 60 + minute;
+}
+
+/**
+ * Whether the local time in a timezone is inside [start, end).
+ * Ranges may wrap midnight, e.g. "22:00" to "07:00".
+ */
+export function isTimeInRange(
+  timezone: string,
+  start: string,
+  end: string,
+  date: Date = new Date()
+): boolean {
+  const startMinutes = parseTimeOfDay(start);
+  const endMinutes = parseTimeOfDay(end);
+  if (startMinutes === null || endMinutes === null || startMinutes === endMinutes) return false;
+
+  const now = getMinutesInTimezone(timezone, date);
+  return startMinutes < endMinutes
+    ? now >= startMinutes && now < endMinutes
+    : now >= startMinutes || now < endMinutes;
+}
+
+/**
+ * Next moment (at or after `from`) the local clock in a timezone reads `time`
+ * @param time "HH:MM"
+ */
+export function getNextTimeInTimezone(timezone: string, time: string, from: Date = new Date()): Date {
+  const target = parseTimeOfDay(time) ?? 0;
+  const delta = (target - getMinutesInTimezone(timezone, from) + 1440) % 1440;
+
+  const next = new Date(from.getTime() + delta * 60_000);
+  next.setUTCSeconds(0, 0);
+  return next;
+}
@@ -266,7 +266,8 @@ export interface TrustFactors {
 }
 
 /**
- * Get trust score for a visitor from the database
+ * Get trust score for a visitor from the database. A user can have several
+ * fingerprints (one per device); the least trusted one decides.
  */
 export async function getTrustScore(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -279,33 +280,35 @@ export async function getTrustScore(
         .from("visitor_fingerprints")
         .select("*")
         .eq("linked_user_id", params.userId)
-        .single()
     : supabase
         .from("visitor_fingerprints")
         .select("*")
         .eq("visitor_id", params.ip)
-        .single();
+        .limit(1);
 
   const { data } = await query;
 
-  if (!data) {
+  if (!data?.length) {
     // New visitor - return neutral score
     return 50;
   }
 
-  const result = calculateTrustScore({
-    visitorId: data.visitor_id || params.ip,
-    linkedUserId: data.linked_user_id,
-    totalRequests: data.total_requests || 0,
-    botRequests: data.bot_requests || 0,
-    humanRequests: data.human_requests || 0,
-    honeypotTriggers: data.honeypot_triggers || 0,
-    lastSeenAt: new Date(data.last_seen_at || Date.now()),
-    firstSeenAt: new Date(data.first_seen_at || Date.now()),
-    isBlocked: data.is_blocked || false,
-  });
-
-  return result.score;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const scores = data.map((row: any) =>
+    calculateTrustScore({
+      visitorId: row.visitor_id || params.ip,
+      linkedUserId: row.linked_user_id,
+      totalRequests: row.total_requests || 0,
+      botRequests: row.bot_requests || 0,
+      humanRequests: row.human_requests || 0,
+      honeypotTriggers: row.honeypot_triggers || 0,
+      lastSeenAt: new Date(row.last_seen_at || Date.now()),
+      firstSeenAt: new Date(row.first_seen_at || Date.now()),
+      isBlocked: row.is_blocked || false,
+    }).score
+  );
+
+  return Math.min(...scores);
 }
 
 /**
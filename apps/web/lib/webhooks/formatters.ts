@@ -0,0 +1,114 @@
+/**
+ * Webhook Payload Formatters
+ *
+ * Turn a delivery envelope into the request body for an endpoint's format:
+ * - json: the envelope as-is, for receivers that verify the signature
+ * - slack: Slack incoming webhook message (text fallback + Block Kit)
+ * - discord: Discord incoming webhook message with one embed
+ */
+
+import { WEBHOOK_EVENTS, type WebhookEnvelope, type WebhookFormat } from "./types";
+
+const APP_NAME = "Claude Insider";
+
+// Brand violet (#8b5cf6) as Discord expects it
+const DISCORD_EMBED_COLOR = 0x8b5cf6;
+
+// Platform limits
+const SLACK_TEXT_LIMIT = 3000;
+const SLACK_MAX_FIELDS = 10;
+const DISCORD_TITLE_LIMIT = 256;
+const DISCORD_DESCRIPTION_LIMIT = 4096;
+const DISCORD_FIELD_VALUE_LIMIT = 1024;
+const DISCORD_MAX_FIELDS = 25;
+
+function truncate(value: string, limit: number): string {
+  return value.length > limit ? `${value.slice(0, limit - 1)}…` : value;
+}
+
+function getEventLabel(envelope: WebhookEnvelope): string {
+  return envelope.event in WEBHOOK_EVENTS
+    ? WEBHOOK_EVENTS[envelope.event as keyof typeof WEBHOOK_EVENTS]
+    : "Test event";
+}
+
+/**
+ * Slack treats &, < and > as control characters in mrkdwn
+ */
+function escapeSlack(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function formatSlack(envelope: WebhookEnvelope): Record<string, unknown> {
+  const title = escapeSlack(envelope.title);
+  const heading = envelope.url ? `*<${envelope.url}|${title}>*` : `*${title}*`;
+  const body = envelope.text ? `\n${escapeSlack(envelope.text)}` : "";
+
+  const blocks: Record<string, unknown>[] = [
+    {
+      type: "section",
+      text: { type: "mrkdwn", text: truncate(`${heading}${body}`, SLACK_TEXT_LIMIT) },
+    },
+  ];
+
+  if (envelope.fields && envelope.fields.length > 0) {
+    blocks.push({
+      type: "section",
+      fields: envelope.fields.slice(0, SLACK_MAX_FIELDS).map((field) => ({
+        type: "mrkdwn",
+        text: truncate(`*${escapeSlack(field.name)}*\n${escapeSlack(field.value)}`, 2000),
+      })),
+    });
+  }
+
+  blocks.push({
+    type: "context",
+    elements: [{ type: "mrkdwn", text: `${APP_NAME} · ${getEventLabel(envelope)}` }],
+  });
+
+  return {
+    // Shown in notifications and by clients without Block Kit
+    text: `${getEventLabel(envelope)}: ${envelope.title}`,
+    blocks,
+  };
+}
+
+function formatDiscord(envelope: WebhookEnvelope): Record<string, unknown> {
+  return {
+    username: APP_NAME,
+    // Don't let payload text ping @everyone or roles
+    allowed_mentions: { parse: [] },
+    embeds: [
+      {
+        title: truncate(envelope.title, DISCORD_TITLE_LIMIT),
+        description: envelope.text ? truncate(envelope.text, DISCORD_DESCRIPTION_LIMIT) : undefined,
+        url: envelope.url,
+        color: DISCORD_EMBED_COLOR,
+        fields: envelope.fields?.slice(0, DISCORD_MAX_FIELDS).map((field) => ({
+          name: truncate(field.name, DISCORD_TITLE_LIMIT),
+          value: truncate(field.value || "—", DISCORD_FIELD_VALUE_LIMIT),
+          inline: field.value.length <= 40,
+        })),
+        footer: { text: getEventLabel(envelope) },
+        timestamp: envelope.createdAt,
+      },
+    ],
+  };
+}
+
+/**
+ * Build the request body for a format
+ */
+export function formatWebhookBody(
+  format: WebhookFormat,
+  envelope: WebhookEnvelope
+): Record<string, unknown> {
+  switch (format) {
+    case "slack":
+      return formatSlack(envelope);
+    case "discord":
+      return formatDiscord(envelope);
+    default:
+      return { ...envelope };
+  }
+}
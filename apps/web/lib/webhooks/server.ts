@@ -0,0 +1,247 @@
+/**
+ * Outbound Webhooks
+ *
+ * Admins register endpoints on /dashboard/webhooks and subscribe them to
+ * events (types.ts). Code that produces an event calls:
+ *
+ *   await emitWebhookEvent("report.created", { title, url, fields, data });
+ *
+ * Each subscribed endpoint gets a row in webhook_deliveries (the delivery
+ * log) and a webhook_delivery job, so failed requests are retried with the
+ * job queue's backoff. Requests are signed with the endpoint's secret:
+ *
+ *   X-Webhook-Timestamp: <unix seconds>
+ *   X-Webhook-Signature: sha256=HMAC_SHA256(secret, "<timestamp>.<body>")
+ *
+ * Slack and Discord endpoints get their message formats (formatters.ts).
+ */
+
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { pool } from "@/lib/db";
+import { queueWebhookDelivery } from "@/lib/job-queue";
+import { formatWebhookBody } from "./formatters";
+import {
+  WEBHOOK_TEST_EVENT,
+  type WebhookDeliveryStatus,
+  type WebhookEnvelope,
+  type WebhookEvent,
+  type WebhookMessage,
+} from "./types";
+
+const APP_URL = process.env.NEXT_PUBLIC_APP_URL || "https://www.claudeinsider.com";
+
+const DELIVERY_TIMEOUT_MS = 10_000;
+// Response bodies kept in the delivery log
+const RESPONSE_BODY_LIMIT = 1000;
+
+/**
+ * New signing secret, shown to the admin once
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("hex")}`;
+}
+
+/**
+ * Hex HMAC-SHA256 of "<timestamp>.<body>"
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * Log a delivery for one endpoint and queue it
+ */
+async function createDelivery(
+  endpointId: string,
+  event: WebhookEnvelope["event"],
+  message: WebhookMessage
+): Promise<string> {
+  const envelope: WebhookEnvelope = {
+    id: randomUUID(),
+    event,
+    createdAt: new Date().toISOString(),
+    ...message,
+  };
+
+  await pool.query(
+    `INSERT INTO webhook_deliveries (id, endpoint_id, event, payload)
+     VALUES ($1, $2, $3, $4)`,
+    [envelope.id, endpointId, event, JSON.stringify(envelope)]
+  );
+  await queueWebhookDelivery(envelope.id, { idempotencyKey: envelope.id });
+
+  return envelope.id;
+}
+
+/**
+ * Deliver an event to every active endpoint subscribed to it. Never throws:
+ * webhooks must not break the action that produced the event.
+ */
+export async function emitWebhookEvent(
+  event: WebhookEvent,
+  message: WebhookMessage
+): Promise<void> {
+  try {
+    const endpoints = await pool.query(
+      `SELECT id FROM webhook_endpoints WHERE is_active = TRUE AND $1 = ANY(events)`,
+      [event]
+    );
+    for (const row of endpoints.rows) {
+      await createDelivery(row.id, event, message);
+    }
+  } catch (error) {
+    console.error(`[Webhooks] Failed to emit ${event}:`, error);
+  }
+}
+
+/**
+ * Emit resource.published for a resource that just became public
+ */
+export async function emitResourcePublished(resource: {
+  id: string;
+  slug: string;
+  title: string;
+  description?: string | null;
+  category?: string | null;
+}): Promise<void> {
+  await emitWebhookEvent("resource.published", {
+    title: `New resource: ${resource.title}`,
+    text: resource.description ?? undefined,
+    url: `${APP_URL}/resources/${resource.slug}`,
+    fields: resource.category ? [{ name: "Category", value: resource.category }] : undefined,
+    data: {
+      resourceId: resource.id,
+      slug: resource.slug,
+      title: resource.title,
+      category: resource.category ?? null,
+    },
+  });
+}
+
+/**
+ * Queue a test delivery to one endpoint, whatever its subscriptions
+ */
+export async function sendWebhookTest(endpointId: string): Promise<string> {
+  return createDelivery(endpointId, WEBHOOK_TEST_EVENT, {
+    title: "Test webhook",
+    text: "This endpoint is receiving webhooks from Claude Insider.",
+    url: `${APP_URL}/dashboard/webhooks`,
+    data: { test: true },
+  });
+}
+
+/**
+ * Send a finished delivery again with a fresh set of attempts. Returns
+ * false if it doesn't exist or is still being attempted.
+ */
+export async function redeliverWebhook(deliveryId: string): Promise<boolean> {
+  const result = await pool.query(
+    `UPDATE webhook_deliveries
+     SET status = 'pending', delivered_at = NULL
+     WHERE id = $1 AND status IN ('delivered', 'failed')`,
+    [deliveryId]
+  );
+  if (result.rowCount === 0) return false;
+
+  await queueWebhookDelivery(deliveryId);
+  return true;
+}
+
+async function recordAttempt(
+  deliveryId: string,
+  status: WebhookDeliveryStatus,
+  attempt: {
+    responseStatus?: number | null;
+    responseBody?: string | null;
+    error?: string | null;
+    durationMs?: number | null;
+  }
+): Promise<void> {
+  await pool.query(
+    `UPDATE webhook_deliveries
+     SET status = $2,
+         attempts = attempts + 1,
+         response_status = $3,
+         response_body = $4,
+         error = $5,
+         duration_ms = $6,
+         last_attempt_at = NOW(),
+         delivered_at = CASE WHEN $2 = 'delivered' THEN NOW() ELSE NULL END
+     WHERE id = $1`,
+    [
+      deliveryId,
+      status,
+      attempt.responseStatus ?? null,
+      attempt.responseBody ?? null,
+      attempt.error ?? null,
+      attempt.durationMs ?? null,
+    ]
+  );
+}
+
+/**
+ * Make one delivery attempt and record it in the delivery log. Throws if
+ * the endpoint didn't accept it, so the job queue retries; `isFinalAttempt`
+ * marks the delivery failed instead of retrying.
+ */
+export async function deliverWebhook(deliveryId: string, isFinalAttempt: boolean): Promise<void> {
+  const result = await pool.query(
+    `SELECT d.event, d.payload, e.url, e.format, e.secret, e.is_active
+     FROM webhook_deliveries d
+     JOIN webhook_endpoints e ON e.id = d.endpoint_id
+     WHERE d.id = $1`,
+    [deliveryId]
+  );
+
+  // The endpoint was deleted along with its deliveries
+  const row = result.rows[0];
+  if (!row) return;
+
+  // Disabled endpoints only receive tests, and aren't retried
+  if (!row.is_active && row.event !== WEBHOOK_TEST_EVENT) {
+    await recordAttempt(deliveryId, "failed", { error: "Endpoint is disabled" });
+    return;
+  }
+
+  const body = JSON.stringify(formatWebhookBody(row.format, row.payload as WebhookEnvelope));
+  const startedAt = Date.now();
+  const timestamp = Math.floor(startedAt / 1000);
+
+  let responseStatus: number | null = null;
+  let responseBody: string | null = null;
+  let error: string | null = null;
+  try {
+    const response = await fetch(row.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "ClaudeInsider-Webhooks/1.0",
+        "X-Webhook-Event": row.event,
+        "X-Webhook-Delivery": deliveryId,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": `sha256=${signWebhookPayload(row.secret, timestamp, body)}`,
+      },
+      body,
+      // A redirect is a misconfigured endpoint, not a delivery
+      redirect: "manual",
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    responseBody = (await response.text()).slice(0, RESPONSE_BODY_LIMIT) || null;
+    if (!response.ok) {
+      error = `HTTP ${response.status} ${response.statusText}`.trim();
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : "Request failed";
+  }
+
+  await recordAttempt(
+    deliveryId,
+    error === null ? "delivered" : isFinalAttempt ? "failed" : "retrying",
+    { responseStatus, responseBody, error, durationMs: Date.now() - startedAt }
+  );
+
+  if (error) {
+    throw new Error(`Webhook delivery failed: ${error}`);
+  }
+}
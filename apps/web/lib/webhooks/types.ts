@@ -0,0 +1,97 @@
+/**
+ * Webhook Types
+ *
+ * Events that outbound webhooks can subscribe to, the payload formats
+ * endpoints can receive, and the shapes stored in webhook_endpoints and
+ * webhook_deliveries (migration 122). Safe to import from client code.
+ */
+
+/**
+ * Subscribable events and their labels
+ */
+export const WEBHOOK_EVENTS = {
+  "resource.update.ready_for_review": "Resource update ready for review",
+  "resource.published": "Resource published",
+  "report.created": "Report created",
+  "donation.completed": "Donation completed",
+} as const;
+
+export type WebhookEvent = keyof typeof WEBHOOK_EVENTS;
+
+/** Sent by "Send test" on the dashboard; endpoints can't subscribe to it */
+export const WEBHOOK_TEST_EVENT = "webhook.test";
+
+export function isWebhookEvent(value: unknown): value is WebhookEvent {
+  return typeof value === "string" && value in WEBHOOK_EVENTS;
+}
+
+/**
+ * Payload formats: signed JSON for custom receivers, or the message
+ * formats of Slack and Discord incoming webhooks
+ */
+export const WEBHOOK_FORMATS = {
+  json: "JSON",
+  slack: "Slack",
+  discord: "Discord",
+} as const;
+
+export type WebhookFormat = keyof typeof WEBHOOK_FORMATS;
+
+export function isWebhookFormat(value: unknown): value is WebhookFormat {
+  return typeof value === "string" && value in WEBHOOK_FORMATS;
+}
+
+/**
+ * What an event reports. title/text/url/fields are rendered by the Slack
+ * and Discord formatters; `data` is the machine-readable part of the JSON
+ * format.
+ */
+export interface WebhookMessage {
+  title: string;
+  text?: string;
+  url?: string;
+  fields?: { name: string; value: string }[];
+  data: Record<string, unknown>;
+}
+
+/**
+ * Stored with each delivery and handed to the formatters
+ */
+export interface WebhookEnvelope extends WebhookMessage {
+  id: string;
+  event: WebhookEvent | typeof WEBHOOK_TEST_EVENT;
+  createdAt: string;
+}
+
+export type WebhookDeliveryStatus = "pending" | "retrying" | "delivered" | "failed";
+
+export interface WebhookEndpoint {
+  id: string;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  events: WebhookEvent[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastDeliveryAt: string | null;
+  lastDeliveryStatus: WebhookDeliveryStatus | null;
+  failedLastDay: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpointId: string;
+  endpointName: string;
+  event: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  error: string | null;
+  durationMs: number | null;
+  payload: WebhookEnvelope;
+  createdAt: string;
+  lastAttemptAt: string | null;
+  deliveredAt: string | null;
+}
@@ -0,0 +1,69 @@
+import { MigrateUpArgs, MigrateDownArgs, sql } from '@payloadcms/db-postgres'
+
+/**
+ * Migration: Add Rate Limit Settings Global
+ *
+ * Creates the tables for the rate-limit-settings global:
+ * 1. rate_limit_settings (the global document)
+ * 2. rate_limit_settings_policies (one row per endpoint policy)
+ * 3. rate_limit_settings_policies_role_limits (per-role overrides)
+ */
+export async function up({ db, payload, req }: MigrateUpArgs): Promise<void> {
+  await db.execute(sql`
+    -- Enums for select fields
+    CREATE TYPE "public"."enum_rate_limit_settings_policies_algorithm" AS ENUM('token_bucket', 'sliding_window');
+    CREATE TYPE "public"."enum_rate_limit_settings_policies_role_limits_role" AS ENUM('user', 'editor', 'moderator', 'admin', 'superadmin');
+
+    -- Global document
+    CREATE TABLE IF NOT EXISTS "rate_limit_settings" (
+      "id" serial PRIMARY KEY NOT NULL,
+      "enabled" boolean DEFAULT true,
+      "updated_at" timestamp(3) with time zone,
+      "created_at" timestamp(3) with time zone
+    );
+
+    -- Endpoint policies array
+    CREATE TABLE IF NOT EXISTS "rate_limit_settings_policies" (
+      "_order" integer NOT NULL,
+      "_parent_id" integer NOT NULL REFERENCES "rate_limit_settings"("id") ON DELETE CASCADE,
+      "id" varchar PRIMARY KEY NOT NULL,
+      "endpoint" varchar NOT NULL,
+      "algorithm" "enum_rate_limit_settings_policies_algorithm" DEFAULT 'token_bucket' NOT NULL,
+      "limit" numeric DEFAULT 60 NOT NULL,
+      "window_minutes" numeric DEFAULT 60 NOT NULL,
+      "tokens_per_cost_unit" numeric,
+      "trust_multipliers_trusted" numeric,
+      "trust_multipliers_neutral" numeric,
+      "trust_multipliers_suspicious" numeric,
+      "trust_multipliers_untrusted" numeric
+    );
+
+    -- Per-role overrides nested in each policy
+    CREATE TABLE IF NOT EXISTS "rate_limit_settings_policies_role_limits" (
+      "_order" integer NOT NULL,
+      "_parent_id" varchar NOT NULL REFERENCES "rate_limit_settings_policies"("id") ON DELETE CASCADE,
+      "id" varchar PRIMARY KEY NOT NULL,
+      "role" "enum_rate_limit_settings_policies_role_limits_role" NOT NULL,
+      "limit" numeric NOT NULL
+    );
+
+    -- Add indexes to array tables
+    CREATE INDEX IF NOT EXISTS "rate_limit_settings_policies_order_idx" ON "rate_limit_settings_policies" USING btree ("_order");
+    CREATE INDEX IF NOT EXISTS "rate_limit_settings_policies_parent_id_idx" ON "rate_limit_settings_policies" USING btree ("_parent_id");
+    CREATE INDEX IF NOT EXISTS "rate_limit_settings_policies_role_limits_order_idx" ON "rate_limit_settings_policies_role_limits" USING btree ("_order");
+    CREATE INDEX IF NOT EXISTS "rate_limit_settings_policies_role_limits_parent_id_idx" ON "rate_limit_settings_policies_role_limits" USING btree ("_parent_id");
+  `)
+}
+
+export async function down({ db, payload, req }: MigrateDownArgs): Promise<void> {
+  await db.execute(sql`
+    -- Drop tables (children first)
+    DROP TABLE IF EXISTS "rate_limit_settings_policies_role_limits";
+    DROP TABLE IF EXISTS "rate_limit_settings_policies";
+    DROP TABLE IF EXISTS "rate_limit_settings";
+
+    -- Drop enums
+    DROP TYPE IF EXISTS "public"."enum_rate_limit_settings_policies_role_limits_role";
+    DROP TYPE IF EXISTS "public"."enum_rate_limit_settings_policies_algorithm";
+  `)
+}
@@ -2,6 +2,7 @@ import * as migration_20251212_090731 from './20251212_090731';
 import * as migration_20251212_094918 from './20251212_094918';
 import * as migration_20251212_114827 from './20251212_114827';
 import * as migration_20251212_120000 from './20251212_120000';
+import * as migration_20261019_120000 from './20261019_120000';
 
 export const migrations = [
   {
@@ -24,4 +25,9 @@ export const migrations = [
     down: migration_20251212_120000.down,
     name: '20251212_120000',
   },
+  {
+    up: migration_20261019_120000.up,
+    down: migration_20261019_120000.down,
+    name: '20261019_120000',
+  },
 ];
@@ -161,10 +161,12 @@ export interface Config {
   globals: {
     'site-settings': SiteSetting;
     'cross-link-settings': CrossLinkSetting;
+    'rate-limit-settings': RateLimitSetting;
   };
   globalsSelect: {
     'site-settings': SiteSettingsSelect<false> | SiteSettingsSelect<true>;
     'cross-link-settings': CrossLinkSettingsSelect<false> | CrossLinkSettingsSelect<true>;
+    'rate-limit-settings': RateLimitSettingsSelect<false> | RateLimitSettingsSelect<true>;
   };
   locale:
     | 'en'
@@ -2367,6 +2369,68 @@ export interface CrossLinkSetting {
   updatedAt?: string | null;
   createdAt?: string | null;
 }
+/**
+ * Configure API rate limit policies by endpoint, role, and trust level - Superadmin only
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "rate-limit-settings".
+ */
+export interface RateLimitSetting {
+  id: number;
+  /**
+   * When off, the built-in default policies apply to every endpoint
+   */
+  enabled?: boolean | null;
+  /**
+   * One policy per endpoint key (e.g. discover, analyze, queue, default)
+   */
+  policies?:
+    | {
+        /**
+         * Endpoint key passed to the rate limiter
+         */
+        endpoint: string;
+        /**
+         * Token bucket allows bursts; sliding window is strict
+         */
+        algorithm: 'token_bucket' | 'sliding_window';
+        /**
+         * Cost units per window for regular users
+         */
+        limit: number;
+        /**
+         * Window length in minutes
+         */
+        windowMinutes: number;
+        /**
+         * For AI endpoints: estimated LLM tokens per cost unit (e.g. 1000 = one unit per 1K tokens). Leave empty to charge one unit per request.
+         */
+        tokensPerCostUnit?: number | null;
+        /**
+         * Replace the base limit for a role. Higher roles inherit the nearest lower override.
+         */
+        roleLimits?:
+          | {
+              role: 'user' | 'editor' | 'moderator' | 'admin' | 'superadmin';
+              limit: number;
+              id?: string | null;
+            }[]
+          | null;
+        /**
+         * Scale the limit by visitor trust level (1 = unchanged). Leave empty for defaults.
+         */
+        trustMultipliers?: {
+          trusted?: number | null;
+          neutral?: number | null;
+          suspicious?: number | null;
+          untrusted?: number | null;
+        };
+        id?: string | null;
+      }[]
+    | null;
+  updatedAt?: string | null;
+  createdAt?: string | null;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "site-settings_select".
@@ -2479,6 +2543,41 @@ export interface CrossLinkSettingsSelect<T extends boolean = true> {
   createdAt?: T;
   globalType?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "rate-limit-settings_select".
+ */
+export interface RateLimitSettingsSelect<T extends boolean = true> {
+  enabled?: T;
+  policies?:
+    | T
+    | {
+        endpoint?: T;
+        algorithm?: T;
+        limit?: T;
+        windowMinutes?: T;
+        tokensPerCostUnit?: T;
+        roleLimits?:
+          | T
+          | {
+              role?: T;
+              limit?: T;
+              id?: T;
+            };
+        trustMultipliers?:
+          | T
+          | {
+              trusted?: T;
+              neutral?: T;
+              suspicious?: T;
+              untrusted?: T;
+            };
+        id?: T;
+      };
+  updatedAt?: T;
+  createdAt?: T;
+  globalType?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "auth".
@@ -34,7 +34,7 @@ import {
   Achievements,
   Badges,
 } from './collections';
-import { SiteSettings, SEOSettings, CrossLinkSettings, GamificationSettings, AIPipelineSettings } from './globals';
+import { SiteSettings, SEOSettings, CrossLinkSettings, GamificationSettings, AIPipelineSettings, RateLimitSettings } from './globals';
 
 const filename = fileURLToPath(import.meta.url);
 const dirname = path.dirname(filename);
@@ -93,7 +93,7 @@ export default buildConfig({
   ],
 
   // Globals (single-instance documents for site-wide config)
-  globals: [SiteSettings, SEOSettings, CrossLinkSettings, GamificationSettings, AIPipelineSettings],
+  globals: [SiteSettings, SEOSettings, CrossLinkSettings, GamificationSettings, AIPipelineSettings, RateLimitSettings],
 
   // Database - Supabase PostgreSQL via Drizzle
   // Using Session Pooler with PgBouncer compatibility
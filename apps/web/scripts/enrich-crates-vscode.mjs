@@ -0,0 +1,193 @@
+import './lib/env.mjs';
+import pg from 'pg';
+
+const { Pool } = pg;
+
+const pool = new Pool({
+  connectionString: process.env.DATABASE_URL,
+  ssl: { rejectUnauthorized: false }
+});
+
+// crates.io rejects requests without an identifying User-Agent
+const CRATES_HEADERS = {
+  'User-Agent': 'Claude-Insider-Resource-Discovery (https://claudeinsider.com)',
+  Accept: 'application/json',
+};
+
+// Known crates for resources
+const cratesPackages = {
+  'rust-mcp-sdk': 'rmcp',
+  'mcp-rust-sdk': 'rmcp',
+};
+
+// Known VS Code extensions for resources
+const vscodeExtensions = {
+  'claude-code': 'anthropic.claude-code',
+  'continue-dev': 'Continue.continue',
+  'cline': 'saoudrizwan.claude-dev',
+  'roo-code': 'RooVeterinaryInc.roo-cline',
+};
+
+// Identify a crate or extension from the resource URL itself
+function parseRegistryUrl(url) {
+  if (!url) return {};
+  const crate = url.match(/(?:crates\.io|lib\.rs)\/crates\/([^/?#]+)/);
+  if (crate) return { crate: decodeURIComponent(crate[1]) };
+  const extension = url.match(/marketplace\.visualstudio\.com\/items\?itemName=([\w.-]+)/);
+  if (extension) return { extension: extension[1] };
+  return {};
+}
+
+// Fetch crates.io crate info
+async function fetchCrateInfo(crateName) {
+  try {
+    const res = await fetch(`https://crates.io/api/v1/crates/${encodeURIComponent(crateName)}`, {
+      headers: CRATES_HEADERS,
+    });
+    if (!res.ok) return null;
+    const data = await res.json();
+
+    return {
+      name: data.crate?.name,
+      version: data.crate?.max_stable_version || data.crate?.newest_version,
+      downloads: data.crate?.recent_downloads || 0,
+      description: data.crate?.description,
+      repository: data.crate?.repository,
+    };
+  } catch (e) {
+    console.log(`  crates.io error for ${crateName}:`, e.message);
+    return null;
+  }
+}
+
+// Fetch VS Code Marketplace extension info
+async function fetchExtensionInfo(extensionId) {
+  try {
+    const res = await fetch('https://marketplace.visualstudio.com/_apis/public/gallery/extensionquery', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json;api-version=3.0-preview.1',
+      },
+      body: JSON.stringify({
+        filters: [{
+          criteria: [
+            { filterType: 8, value: 'Microsoft.VisualStudio.Code' },
+            { filterType: 7, value: extensionId },
+          ],
+          pageNumber: 1,
+          pageSize: 1,
+        }],
+        // IncludeStatistics | IncludeLatestVersionOnly
+        flags: 0x100 | 0x200,
+      }),
+    });
+    if (!res.ok) return null;
+    const data = await res.json();
+    const extension = data.results?.[0]?.extensions?.[0];
+    if (!extension) return null;
+
+    const installs = extension.statistics?.find(s => s.statisticName === 'install')?.value || 0;
+
+    return {
+      id: `${extension.publisher.publisherName}.${extension.extensionName}`,
+      version: extension.versions?.[0]?.version,
+      installs: Math.round(installs),
+      description: extension.shortDescription,
+    };
+  } catch (e) {
+    console.log(`  marketplace error for ${extensionId}:`, e.message);
+    return null;
+  }
+}
+
+async function enrichResources() {
+  console.log('=== ENRICHING RESOURCES WITH CRATES.IO/VS CODE METADATA ===\n');
+
+  // Get all resources
+  const { rows: resources } = await pool.query(`
+    SELECT id, slug, title, url, category, crates_package, vscode_extension
+    FROM resources
+    ORDER BY category, title
+  `);
+
+  console.log(`Total resources: ${resources.length}\n`);
+
+  let cratesUpdates = 0;
+  let vscodeUpdates = 0;
+
+  for (const resource of resources) {
+    const updates = {};
+    let hasUpdate = false;
+    const fromUrl = parseRegistryUrl(resource.url);
+
+    // Try to identify crate
+    const crateName = resource.crates_package || cratesPackages[resource.slug] || fromUrl.crate;
+    if (crateName) {
+      console.log(`🦀 ${resource.title}: Checking crates.io ${crateName}...`);
+      const crateInfo = await fetchCrateInfo(crateName);
+      if (crateInfo) {
+        updates.crates_package = crateInfo.name;
+        updates.crates_downloads_recent = crateInfo.downloads;
+        hasUpdate = true;
+        console.log(`   ✓ Found: ${crateInfo.downloads.toLocaleString()} downloads (90 days)`);
+      }
+    }
+
+    // Try to identify VS Code extension
+    const extensionId = resource.vscode_extension || vscodeExtensions[resource.slug] || fromUrl.extension;
+    if (extensionId) {
+      console.log(`🧩 ${resource.title}: Checking VS Code Marketplace ${extensionId}...`);
+      const extensionInfo = await fetchExtensionInfo(extensionId);
+      if (extensionInfo) {
+        updates.vscode_extension = extensionInfo.id;
+        updates.vscode_installs = extensionInfo.installs;
+        hasUpdate = true;
+        console.log(`   ✓ Found: ${extensionInfo.installs.toLocaleString()} installs`);
+      }
+    }
+
+    // Apply updates
+    if (hasUpdate) {
+      const setClauses = [];
+      const values = [];
+      let paramIndex = 1;
+
+      for (const [key, value] of Object.entries(updates)) {
+        setClauses.push(`${key} = $${paramIndex}`);
+        values.push(value);
+        paramIndex++;
+      }
+
+      values.push(resource.id);
+
+      await pool.query(
+        `UPDATE resources SET ${setClauses.join(', ')}, updated_at = NOW() WHERE id = $${paramIndex}`,
+        values
+      );
+
+      if (updates.crates_package) cratesUpdates++;
+      if (updates.vscode_extension) vscodeUpdates++;
+    }
+
+    // Rate limit to avoid API throttling (crates.io asks for at most 1 req/s)
+    if (crateName || extensionId) {
+      await new Promise(r => setTimeout(r, 1000));
+    }
+  }
+
+  console.log('\n=== SUMMARY ===');
+  console.log(`Crates updated: ${cratesUpdates}`);
+  console.log(`VS Code extensions updated: ${vscodeUpdates}`);
+
+  // Show final counts
+  const { rows: cratesCount } = await pool.query('SELECT COUNT(*) as count FROM resources WHERE crates_package IS NOT NULL');
+  const { rows: vscodeCount } = await pool.query('SELECT COUNT(*) as count FROM resources WHERE vscode_extension IS NOT NULL');
+
+  console.log(`\nTotal with crates.io: ${cratesCount[0].count}`);
+  console.log(`Total with VS Code Marketplace: ${vscodeCount[0].count}`);
+
+  await pool.end();
+}
+
+enrichResources().catch(console.error);
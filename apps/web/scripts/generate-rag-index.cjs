@@ -4,8 +4,9 @@
  * RAG Index Generator for Claude Insider
  *
  * Generates the RAG (Retrieval-Augmented Generation) index at build time
- * for faster AI assistant responses. This pre-computes the document index
- * and TF-IDF scores.
+ * for faster AI assistant responses. This pre-computes the document index,
+ * BM25 term statistics and a dense embedding per chunk for hybrid retrieval
+ * in lib/rag.ts.
  *
  * Index Sources:
  * - MDX documentation (34 pages across 7 categories)
@@ -73,7 +74,7 @@ try {
 // ===========================================================================
 
 const VERBOSE = true;
-const VERSION = "7.0"; // Increment when making significant changes - Added Ask AI context chunks
+const VERSION = "8.0"; // Increment when making significant changes - BM25 + embeddings replace TF-IDF
 const FORCE_REGENERATE = process.argv.includes("--force");
 
 // ===========================================================================
@@ -273,7 +274,8 @@ function logFinalStats(stats) {
   log("╠══════════════════════════════════════════════════════════════════════╣", colors.green);
   log(`║  TOTAL CHUNKS: ${colors.green + colors.bright}${stats.totalChunks.toLocaleString().padStart(8)}${colors.reset}                                            ║`);
   log("╠══════════════════════════════════════════════════════════════════════╣", colors.green);
-  log(`║  TF-IDF Terms: ${stats.tfidfTerms.toLocaleString().padStart(8)}                                            ║`, colors.white);
+  log(`║  BM25 Terms: ${stats.bm25Terms.toLocaleString().padStart(10)}                                            ║`, colors.white);
+  log(`║  Embeddings: ${stats.embeddingCount.toLocaleString().padStart(10)} x ${String(EMBEDDING_DIMENSIONS).padEnd(4)}                                     ║`, colors.white);
   log(`║  File Size: ${stats.fileSizeKB.toLocaleString().padStart(8)} KB                                          ║`, colors.white);
   log("╠══════════════════════════════════════════════════════════════════════╣", colors.green);
   log("║  CATEGORIES                                                          ║", colors.yellow + colors.bright);
@@ -760,62 +762,197 @@ function generateResourceChunks() {
 }
 
 // ===========================================================================
-// TF-IDF INDEX
+// BM25 INDEX
 // ===========================================================================
 
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
 /**
- * Build TF-IDF index
+ * Build BM25 statistics (raw term counts, document frequencies, avg length).
+ * IDF is derived at load time in lib/rag.ts from documentFrequencies.
  */
-function buildTfidfIndex(chunks) {
-  logSubsection("Computing TF-IDF scores...");
+function buildBm25Index(chunks) {
+  logSubsection("Computing BM25 statistics...");
 
-  const tfidfIndex = {};
+  const termFrequencies = {};
   const docFreq = new Map();
+  let totalLength = 0;
   let processedCount = 0;
 
-  // Calculate term frequency for each document
   for (const chunk of chunks) {
     const words = tokenize(chunk.content + " " + chunk.title + " " + chunk.section);
-    const termFreq = new Map();
+    const termFreq = {};
 
     for (const word of words) {
-      termFreq.set(word, (termFreq.get(word) || 0) + 1);
-    }
-
-    // Normalize by document length
-    const maxFreq = Math.max(...termFreq.values()) || 1;
-    const normalizedTermFreq = {};
-    for (const [term, freq] of termFreq) {
-      normalizedTermFreq[term] = freq / maxFreq;
+      termFreq[word] = (termFreq[word] || 0) + 1;
     }
 
-    tfidfIndex[chunk.id] = normalizedTermFreq;
+    termFrequencies[chunk.id] = termFreq;
+    totalLength += words.length;
 
-    // Track document frequency
-    const uniqueTerms = new Set(words);
-    for (const term of uniqueTerms) {
+    for (const term of Object.keys(termFreq)) {
       docFreq.set(term, (docFreq.get(term) || 0) + 1);
     }
 
     processedCount++;
     if (VERBOSE && processedCount % 200 === 0) {
-      logProgress(processedCount, chunks.length, `TF computed for ${processedCount} chunks`);
+      logProgress(processedCount, chunks.length, `Term counts for ${processedCount} chunks`);
     }
   }
 
-  // Calculate IDF values
-  const idfValues = {};
-  const numDocs = chunks.length;
-  for (const [term, freq] of docFreq) {
-    idfValues[term] = Math.log(numDocs / (1 + freq));
-  }
+  const bm25 = {
+    k1: BM25_K1,
+    b: BM25_B,
+    avgDocLength: chunks.length > 0 ? totalLength / chunks.length : 0,
+    documentFrequencies: Object.fromEntries(docFreq),
+    termFrequencies,
+  };
 
   if (VERBOSE) {
-    logProgress(chunks.length, chunks.length, "TF-IDF computation complete");
+    logProgress(chunks.length, chunks.length, "BM25 statistics complete");
     logStat("Unique terms indexed:", docFreq.size.toLocaleString());
+    logStat("Average chunk length:", bm25.avgDocLength.toFixed(1));
+  }
+
+  return { bm25, termCount: docFreq.size };
+}
+
+// ===========================================================================
+// DENSE EMBEDDINGS
+// ===========================================================================
+// CommonJS copy of lib/rag-embeddings.ts. Keep EMBEDDING_MODEL, the synonym
+// table and the hashing scheme identical, or query vectors will not match.
+
+const EMBEDDING_MODEL = "hashed-ngram-v1";
+const EMBEDDING_DIMENSIONS = 256;
+const TOKEN_WEIGHT = 1.0;
+const CONCEPT_WEIGHT = 1.5;
+const TRIGRAM_WEIGHT = 0.35;
+
+const SYNONYM_GROUPS = [
+  ["hook", "callback", "handler", "listener", "trigger"],
+  ["permission", "allowlist", "whitelist", "allow", "approve", "authorize", "authorization"],
+  ["deny", "denylist", "blacklist", "block", "forbid", "reject"],
+  ["setting", "config", "configuration", "option", "preference", "parameter"],
+  ["command", "cli", "terminal", "shell", "bash", "console"],
+  ["install", "setup", "installation", "onboard", "bootstrap"],
+  ["error", "failure", "exception", "crash", "bug", "issue"],
+  ["fix", "resolve", "troubleshoot", "debug", "repair"],
+  ["token", "credential", "secret", "apikey", "key"],
+  ["model", "llm", "opus", "sonnet", "haiku"],
+  ["prompt", "instruction", "system"],
+  ["context", "memory", "window"],
+  ["agent", "subagent", "assistant", "bot"],
+  ["mcp", "server", "integration", "connector", "plugin", "extension"],
+  ["tool", "utility", "library", "package", "sdk"],
+  ["file", "document", "path", "directory", "folder"],
+  ["edit", "modify", "change", "update", "rewrite"],
+  ["run", "execute", "launch", "start", "invoke"],
+  ["test", "spec", "assertion", "verify"],
+  ["cost", "price", "pricing", "billing", "usage"],
+  ["fast", "speed", "performance", "latency", "quick"],
+  ["env", "environment", "variable", "envvar"],
+];
+
+const CONCEPTS = new Map();
+for (const group of SYNONYM_GROUPS) {
+  for (const word of group) {
+    CONCEPTS.set(word, group[0]);
   }
+}
 
-  return { tfidfIndex, idfValues, termCount: docFreq.size };
+function stemToken(word) {
+  if (word.length > 5 && word.endsWith("ing")) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith("ed")) return word.slice(0, -2);
+  if (word.length > 4 && word.endsWith("es") && !word.endsWith("ses")) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+function fnv1a(text) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function addFeature(vector, feature, weight) {
+  const hash = fnv1a(feature);
+  const bucket = hash % EMBEDDING_DIMENSIONS;
+  const sign = hash & 0x80000000 ? -1 : 1;
+  vector[bucket] += sign * weight;
+}
+
+function embedTokens(tokens) {
+  const vector = new Float32Array(EMBEDDING_DIMENSIONS);
+
+  for (const token of tokens) {
+    const stem = stemToken(token);
+    addFeature(vector, `w:${stem}`, TOKEN_WEIGHT);
+
+    const concept = CONCEPTS.get(token) || CONCEPTS.get(stem);
+    if (concept) {
+      addFeature(vector, `c:${concept}`, CONCEPT_WEIGHT);
+    }
+
+    const padded = `#${stem}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(vector, `g:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+    }
+  }
+
+  let norm = 0;
+  for (const value of vector) norm += value * value;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  }
+
+  return vector;
+}
+
+/**
+ * Quantize a normalized vector to int8 and encode as base64 (256 bytes per chunk)
+ */
+function encodeEmbedding(vector) {
+  const bytes = Buffer.alloc(vector.length);
+  for (let i = 0; i < vector.length; i++) {
+    bytes.writeInt8(Math.max(-127, Math.min(127, Math.round(vector[i] * 127))), i);
+  }
+  return bytes.toString("base64");
+}
+
+/**
+ * Build dense embeddings for every chunk
+ */
+function buildEmbeddingIndex(chunks) {
+  logSubsection("Computing dense embeddings...");
+
+  const vectors = {};
+  let processedCount = 0;
+
+  for (const chunk of chunks) {
+    const tokens = tokenize(chunk.content + " " + chunk.title + " " + chunk.section);
+    vectors[chunk.id] = encodeEmbedding(embedTokens(tokens));
+
+    processedCount++;
+    if (VERBOSE && processedCount % 200 === 0) {
+      logProgress(processedCount, chunks.length, `Embedded ${processedCount} chunks`);
+    }
+  }
+
+  if (VERBOSE) {
+    logProgress(chunks.length, chunks.length, "Embeddings complete");
+    logStat("Embedding model:", `${EMBEDDING_MODEL} (${EMBEDDING_DIMENSIONS} dims)`);
+  }
+
+  return {
+    embeddings: { model: EMBEDDING_MODEL, dimensions: EMBEDDING_DIMENSIONS, vectors },
+    embeddingCount: processedCount,
+  };
 }
 
 // ===========================================================================
@@ -1078,11 +1215,12 @@ function generateRagIndex() {
   }
 
   // =========================================================================
-  // 9. BUILD TF-IDF INDEX
+  // 9. BUILD BM25 + EMBEDDING INDEXES
   // =========================================================================
-  logSection("TF-IDF INDEX");
+  logSection("HYBRID SEARCH INDEX");
 
-  const { tfidfIndex, idfValues, termCount } = buildTfidfIndex(chunks);
+  const { bm25, termCount } = buildBm25Index(chunks);
+  const { embeddings, embeddingCount } = buildEmbeddingIndex(chunks);
 
   // =========================================================================
   // 10. CREATE AND WRITE RAG INDEX
@@ -1108,8 +1246,8 @@ function generateRagIndex() {
     resourceRelationships: resourceRelationships,
     docRelationships: docRelationships,
     chunks,
-    tfidfIndex,
-    idfValues,
+    bm25,
+    embeddings,
   };
 
   // Write to JSON file
@@ -1142,7 +1280,8 @@ function generateRagIndex() {
     externalSourceCount: sourceChunkCount,
     codeExamplesCount: codeChunkCount,
     askAIContextCount: askAIChunkCount,
-    tfidfTerms: termCount,
+    bm25Terms: termCount,
+    embeddingCount: embeddingCount,
     fileSizeKB: fileSizeKB,
     categories: [
       ...Object.keys(categoryCounts),
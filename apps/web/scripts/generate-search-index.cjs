@@ -0,0 +1,523 @@
+#!/usr/bin/env node
+
+/**
+ * Site Search Index Generator
+ *
+ * Builds the Fuse.js quick-search index used by lib/search.ts from the actual
+ * site content instead of a hand-maintained list.
+ *
+ * Sources:
+ * - MDX documentation (content/**\/*.mdx): one entry per page plus one per
+ *   ## / ### heading, linked to the heading anchor
+ * - Resources data layer (data/resources/*.json)
+ * - Prompts table (public, active prompts) when DATABASE_URL is available;
+ *   otherwise the prompt entries from the previous index are kept
+ * - User-facing pages under app/(main) (static routes, metadata + visible text)
+ * - Per-locale entries for site pages, using titles from i18n/messages/*.json
+ *
+ * Output: public/search-index.json (generated on dev and build, not committed),
+ * fetched by the browser on first search
+ *
+ * Run with: node scripts/generate-search-index.cjs
+ */
+
+const fs = require("fs");
+const path = require("path");
+const matter = require("gray-matter");
+
+// ===========================================================================
+// CONFIGURATION
+// ===========================================================================
+
+const VERSION = "1.0";
+const ROOT_DIR = path.join(__dirname, "..");
+const CONTENT_DIR = path.join(ROOT_DIR, "content");
+const RESOURCES_DIR = path.join(ROOT_DIR, "data/resources");
+const PAGES_DIR = path.join(ROOT_DIR, "app/(main)");
+const MESSAGES_DIR = path.join(ROOT_DIR, "i18n/messages");
+const OUTPUT_PATH = path.join(ROOT_DIR, "public/search-index.json");
+
+const DEFAULT_LOCALE = "en";
+
+// Field length limits keep the client-side index small
+const MAX_DESCRIPTION_LENGTH = 200;
+const MAX_HEADING_DESCRIPTION_LENGTH = 140;
+const MAX_CONTENT_LENGTH = 300;
+const MAX_PAGE_CONTENT_LENGTH = 500;
+
+// Documentation category mapping (matches lib/rag.ts)
+const DOC_CATEGORIES = {
+  "getting-started": "Getting Started",
+  configuration: "Configuration",
+  "tips-and-tricks": "Tips & Tricks",
+  api: "API Reference",
+  integrations: "Integrations",
+  tutorials: "Tutorials",
+  examples: "Examples",
+};
+
+// Resource category labels
+const RESOURCE_CATEGORY_NAMES = {
+  official: "Official Resources",
+  tools: "Development Tools",
+  "mcp-servers": "MCP Servers",
+  rules: "CLAUDE.md Rules",
+  prompts: "System Prompts",
+  agents: "AI Agents",
+  tutorials: "Tutorials",
+  sdks: "SDKs & Libraries",
+  showcases: "Showcases",
+  community: "Community",
+};
+
+// Static routes under app/(main) that should not be searchable
+const EXCLUDED_ROUTES = [
+  "/dashboard",
+  "/donate/success",
+  "/search",
+  "/assistant", // Redirects to /chat
+];
+
+const LEGAL_ROUTES = new Set(["/privacy", "/terms", "/disclaimer", "/accessibility"]);
+
+// Site routes with translated titles in i18n/messages (key path into the messages file)
+const LOCALIZED_ROUTE_TITLES = {
+  "/": "navigation.home",
+  "/docs": "navigation.docs",
+  "/resources": "navigation.resources",
+  "/favorites": "navigation.favorites",
+  "/favorites/collections": "navigation.collections",
+  "/reading-lists": "navigation.readingLists",
+  "/notifications": "navigation.notifications",
+  "/profile": "navigation.profile",
+  "/settings": "navigation.settings",
+  "/privacy": "footer.privacy",
+  "/terms": "footer.terms",
+  "/disclaimer": "footer.disclaimer",
+  "/accessibility": "footer.accessibility",
+  "/changelog": "footer.changelog",
+  "/donate": "footer.donate",
+  "/docs/getting-started": "footer.gettingStarted",
+};
+
+// ===========================================================================
+// HELPERS
+// ===========================================================================
+
+function truncate(text, maxLength) {
+  if (!text) return "";
+  const clean = text.replace(/\s+/g, " ").trim();
+  if (clean.length <= maxLength) return clean;
+  return clean.slice(0, maxLength - 1).replace(/\s+\S*$/, "") + "…";
+}
+
+function titleCase(segment) {
+  return segment
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+/**
+ * Heading anchor ids (matches generateHeadingId in lib/cross-linking/extract-sections.ts)
+ */
+function generateHeadingId(text) {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, "")
+    .replace(/\s+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/**
+ * Strip MDX/markdown syntax, leaving readable text
+ */
+function stripMarkdown(content) {
+  return content
+    .replace(/```[\s\S]*?```/g, " ")
+    .replace(/import\s+.*?from\s+['"][^'"]+['"];?/g, " ")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/\{[^}]*\}/g, " ")
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, " ")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/`([^`]+)`/g, "$1")
+    .replace(/[*_~>#|]/g, " ")
+    .replace(/^\s*[-+]\s+/gm, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function getByPath(obj, keyPath) {
+  return keyPath.split(".").reduce((acc, key) => (acc && typeof acc === "object" ? acc[key] : undefined), obj);
+}
+
+// ===========================================================================
+// DOCUMENTATION
+// ===========================================================================
+
+function collectMdxFiles(dir, files = []) {
+  if (!fs.existsSync(dir)) return files;
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      collectMdxFiles(fullPath, files);
+    } else if (entry.name.endsWith(".mdx")) {
+      files.push(fullPath);
+    }
+  }
+  return files.sort();
+}
+
+/**
+ * One entry per MDX page plus one per ## / ### heading
+ */
+function generateDocEntries() {
+  const entries = [];
+
+  for (const filePath of collectMdxFiles(CONTENT_DIR)) {
+    const raw = fs.readFileSync(filePath, "utf-8");
+    const { data: frontmatter, content } = matter(raw);
+
+    const slug = path
+      .relative(CONTENT_DIR, filePath)
+      .replace(/\\/g, "/")
+      .replace(/\.mdx$/, "")
+      .replace(/\/index$/, "");
+    const url = `/docs/${slug}`;
+    const categorySlug = slug.split("/")[0];
+    const category = DOC_CATEGORIES[categorySlug] || titleCase(categorySlug);
+    const title = frontmatter.title || titleCase(slug.split("/").pop() || slug);
+    const description = frontmatter.description || "";
+
+    // Split into sections by ## / ### headings (outside code fences)
+    const sections = [];
+    let current = { heading: null, lines: [] };
+    let inCodeBlock = false;
+    for (const line of content.split("\n")) {
+      if (line.trim().startsWith("```")) inCodeBlock = !inCodeBlock;
+      const match = !inCodeBlock && line.match(/^(#{2,3})\s+(.+)$/);
+      if (match) {
+        sections.push(current);
+        current = { heading: match[2].trim(), lines: [] };
+      } else {
+        current.lines.push(line);
+      }
+    }
+    sections.push(current);
+
+    const intro = stripMarkdown(sections[0].lines.join("\n"));
+    const headingTexts = sections.slice(1).map((s) => stripMarkdown(s.heading));
+    const tags = Array.isArray(frontmatter.tags) ? frontmatter.tags : [];
+
+    entries.push({
+      type: "doc",
+      title,
+      description: truncate(description, MAX_DESCRIPTION_LENGTH),
+      content: truncate([intro, headingTexts.join(", ")].filter(Boolean).join(" "), MAX_CONTENT_LENGTH),
+      url,
+      category,
+      ...(tags.length > 0 && { tags }),
+    });
+
+    const usedIds = new Map();
+    for (const section of sections.slice(1)) {
+      const headingText = stripMarkdown(section.heading);
+      const baseId = generateHeadingId(headingText);
+      if (!baseId) continue;
+
+      // Duplicate headings get -1, -2 suffixes like rehype-slug
+      const seen = usedIds.get(baseId) || 0;
+      usedIds.set(baseId, seen + 1);
+      const anchor = seen === 0 ? baseId : `${baseId}-${seen}`;
+
+      const sectionText = stripMarkdown(section.lines.join("\n"));
+      if (sectionText.length < 20) continue;
+
+      // Short sections only need the description field
+      const description = truncate(sectionText, MAX_HEADING_DESCRIPTION_LENGTH);
+      const content = sectionText.length > MAX_HEADING_DESCRIPTION_LENGTH ? truncate(sectionText, MAX_CONTENT_LENGTH) : "";
+
+      entries.push({
+        type: "heading",
+        title: headingText,
+        description,
+        content,
+        url: `${url}#${anchor}`,
+        category,
+        anchor,
+        parentTitle: title,
+      });
+    }
+  }
+
+  return entries;
+}
+
+// ===========================================================================
+// RESOURCES
+// ===========================================================================
+
+function generateResourceEntries() {
+  const entries = [];
+  const files = fs.readdirSync(RESOURCES_DIR).filter((f) => f.endsWith(".json")).sort();
+
+  for (const file of files) {
+    const resources = JSON.parse(fs.readFileSync(path.join(RESOURCES_DIR, file), "utf-8"));
+    if (!Array.isArray(resources)) continue;
+
+    for (const resource of resources) {
+      if (!resource.id || !resource.title || resource.status === "deprecated") continue;
+
+      const tags = Array.isArray(resource.tags) ? resource.tags : [];
+      const categoryName = RESOURCE_CATEGORY_NAMES[resource.category] || titleCase(resource.category || "resources");
+
+      entries.push({
+        type: "resource",
+        title: resource.title,
+        description: truncate(resource.description, MAX_DESCRIPTION_LENGTH),
+        content: truncate(
+          [categoryName, resource.subcategory, tags.join(" ")].filter(Boolean).join(" "),
+          MAX_CONTENT_LENGTH
+        ),
+        url: `/resources/${resource.id}`,
+        category: "Resources",
+        ...(tags.length > 0 && { tags: tags.slice(0, 8) }),
+      });
+    }
+  }
+
+  return entries;
+}
+
+// ===========================================================================
+// PROMPTS
+// ===========================================================================
+
+/**
+ * Public prompts from the database. Falls back to the prompt entries of the
+ * previous index when the database is not reachable at build time.
+ */
+async function generatePromptEntries(previousIndex) {
+  const previousPrompts = (previousIndex?.documents || []).filter((d) => d.type === "prompt");
+
+  if (!process.env.DATABASE_URL) {
+    console.log(`  Prompts: DATABASE_URL not set, keeping ${previousPrompts.length} previous entries`);
+    return previousPrompts;
+  }
+
+  let pool;
+  try {
+    const { Pool } = require("pg");
+    pool = new Pool({
+      connectionString: process.env.DATABASE_URL,
+      ssl: { rejectUnauthorized: false },
+      max: 1,
+      connectionTimeoutMillis: 10000,
+    });
+
+    const result = await pool.query(`
+      SELECT p.slug, p.title, p.description, p.tags, c.name AS category_name
+      FROM prompts p
+      LEFT JOIN prompt_categories c ON c.id = p.category_id
+      WHERE p.status = 'active' AND (p.visibility = 'public' OR p.is_system = TRUE)
+      ORDER BY p.is_featured DESC, p.use_count DESC
+    `);
+
+    return result.rows.map((row) => {
+      const tags = Array.isArray(row.tags) ? row.tags : [];
+      return {
+        type: "prompt",
+        title: row.title,
+        description: truncate(row.description, MAX_DESCRIPTION_LENGTH),
+        content: truncate([row.category_name, tags.join(" ")].filter(Boolean).join(" "), MAX_CONTENT_LENGTH),
+        url: `/prompts/${row.slug}`,
+        category: "Prompts",
+        ...(tags.length > 0 && { tags: tags.slice(0, 8) }),
+      };
+    });
+  } catch (error) {
+    console.warn(`  Prompts: query failed (${error.message}), keeping ${previousPrompts.length} previous entries`);
+    return previousPrompts;
+  } finally {
+    if (pool) await pool.end().catch(() => {});
+  }
+}
+
+// ===========================================================================
+// SITE PAGES
+// ===========================================================================
+
+function collectStaticRoutes(dir, segments = [], routes = []) {
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    if (!entry.isDirectory()) continue;
+    // Skip dynamic segments, private folders and nested route groups
+    if (entry.name.startsWith("[") || entry.name.startsWith("_")) continue;
+    const nextSegments = entry.name.startsWith("(") ? segments : [...segments, entry.name];
+    collectStaticRoutes(path.join(dir, entry.name), nextSegments, routes);
+  }
+  if (fs.existsSync(path.join(dir, "page.tsx"))) {
+    routes.push({ route: "/" + segments.join("/"), dir });
+  }
+  return routes;
+}
+
+function extractMetadata(source) {
+  const block = source.match(/export const metadata[^=]*=\s*\{([\s\S]*?)\n\};/);
+  if (!block) return {};
+  const title = block[1].match(/^\s{2}title:\s*["'`]([^"'`]+)["'`]/m);
+  const description = block[1].match(/^\s{2}description:\s*\n?\s*["'`]([^"'`]+)["'`]/m);
+  // Interpolated template strings can't be resolved statically
+  const usable = (match) => (match && !match[1].includes("${") ? match[1].trim() : undefined);
+  return {
+    title: usable(title)?.replace(/\s*[|-]\s*Claude Insider$/, ""),
+    description: usable(description),
+  };
+}
+
+/**
+ * Visible JSX text from a page component (headings, paragraphs, labels)
+ */
+function extractVisibleText(source) {
+  const texts = [];
+  const pattern = />\s*([^<>{}\n][^<>{}]*?)\s*</g;
+  let match;
+  while ((match = pattern.exec(source)) !== null) {
+    const text = match[1].replace(/&[a-z]+;/g, " ").trim();
+    if (text.length >= 3 && /^[\p{L}\p{N}"'“]/u.test(text) && /[a-zA-Z]{3}/.test(text) && !/[=;()]/.test(text)) {
+      texts.push(text);
+    }
+  }
+  return [...new Set(texts)].join(" ");
+}
+
+function generatePageEntries() {
+  const entries = [];
+
+  for (const { route, dir } of collectStaticRoutes(PAGES_DIR)) {
+    if (route === "/docs" || route.startsWith("/docs/")) continue; // Covered by MDX entries
+    if (EXCLUDED_ROUTES.some((excluded) => route === excluded || route.startsWith(`${excluded}/`))) continue;
+
+    const pageSource = fs.readFileSync(path.join(dir, "page.tsx"), "utf-8");
+    const layoutPath = path.join(dir, "layout.tsx");
+    const layoutSource = fs.existsSync(layoutPath) ? fs.readFileSync(layoutPath, "utf-8") : "";
+
+    const metadata = { ...extractMetadata(layoutSource), ...extractMetadata(pageSource) };
+    const visibleText = extractVisibleText(pageSource);
+    const fallbackTitle = route === "/" ? "Home" : titleCase(route.split("/").pop());
+
+    entries.push({
+      type: "page",
+      title: metadata.title || fallbackTitle,
+      description: truncate(metadata.description || visibleText, MAX_DESCRIPTION_LENGTH),
+      content: truncate(visibleText, MAX_PAGE_CONTENT_LENGTH),
+      url: route,
+      category: LEGAL_ROUTES.has(route) ? "Legal" : "Site",
+    });
+  }
+
+  return entries.sort((a, b) => a.url.localeCompare(b.url));
+}
+
+// ===========================================================================
+// LOCALES
+// ===========================================================================
+
+/**
+ * Localized copies of site pages and docs landing pages whose titles are
+ * translated in i18n/messages. English title stays in content so both match.
+ */
+function generateLocaleEntries(documents) {
+  const byUrl = new Map(documents.map((doc) => [doc.url, doc]));
+  const locales = {};
+
+  const messageFiles = fs.readdirSync(MESSAGES_DIR).filter((f) => f.endsWith(".json")).sort();
+  for (const file of messageFiles) {
+    const locale = file.replace(/\.json$/, "");
+    if (locale === DEFAULT_LOCALE) continue;
+
+    const messages = JSON.parse(fs.readFileSync(path.join(MESSAGES_DIR, file), "utf-8"));
+    const localized = [];
+
+    for (const [url, keyPath] of Object.entries(LOCALIZED_ROUTE_TITLES)) {
+      const base = byUrl.get(url);
+      const translated = getByPath(messages, keyPath);
+      if (!base || typeof translated !== "string" || translated === base.title) continue;
+
+      localized.push({
+        ...base,
+        title: translated,
+        content: truncate(`${base.title} ${base.content}`, MAX_PAGE_CONTENT_LENGTH),
+        locale,
+      });
+    }
+
+    locales[locale] = localized;
+  }
+
+  return locales;
+}
+
+// ===========================================================================
+// MAIN
+// ===========================================================================
+
+async function generateSearchIndex() {
+  const startTime = Date.now();
+  console.log("\n🔎 Generating site search index...");
+
+  let previousIndex = null;
+  if (fs.existsSync(OUTPUT_PATH)) {
+    try {
+      previousIndex = JSON.parse(fs.readFileSync(OUTPUT_PATH, "utf-8"));
+    } catch {
+      previousIndex = null;
+    }
+  }
+
+  const docEntries = generateDocEntries();
+  const resourceEntries = generateResourceEntries();
+  const promptEntries = await generatePromptEntries(previousIndex);
+  const pageEntries = generatePageEntries();
+
+  const documents = [...docEntries, ...pageEntries, ...resourceEntries, ...promptEntries];
+  const locales = generateLocaleEntries(documents);
+
+  const stats = {
+    totalDocuments: documents.length,
+    docPages: docEntries.filter((d) => d.type === "doc").length,
+    headings: docEntries.filter((d) => d.type === "heading").length,
+    pages: pageEntries.length,
+    resources: resourceEntries.length,
+    prompts: promptEntries.length,
+    localizedEntries: Object.values(locales).reduce((sum, entries) => sum + entries.length, 0),
+  };
+
+  const index = {
+    version: VERSION,
+    generatedAt: new Date().toISOString(),
+    defaultLocale: DEFAULT_LOCALE,
+    stats,
+    documents,
+    locales,
+  };
+
+  fs.writeFileSync(OUTPUT_PATH, JSON.stringify(index, null, 1) + "\n");
+
+  const sizeKB = Math.round(fs.statSync(OUTPUT_PATH).size / 1024);
+  console.log(`  Docs: ${stats.docPages} pages, ${stats.headings} headings`);
+  console.log(`  Site pages: ${stats.pages}`);
+  console.log(`  Resources: ${stats.resources}`);
+  console.log(`  Prompts: ${stats.prompts}`);
+  console.log(`  Localized entries: ${stats.localizedEntries} across ${Object.keys(locales).length} locales`);
+  console.log(`  ✓ Wrote ${path.relative(ROOT_DIR, OUTPUT_PATH)} (${sizeKB} KB) in ${Date.now() - startTime}ms\n`);
+}
+
+module.exports = { generateSearchIndex };
+
+if (require.main === module) {
+  generateSearchIndex().catch((error) => {
+    console.error("Search index generation failed:", error);
+    process.exit(1);
+  });
+}
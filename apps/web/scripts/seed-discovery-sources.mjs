@@ -206,6 +206,32 @@ const sources = [
     min_downloads: 100
   },
 
+  // crates.io Registry
+  {
+    name: 'crates.io: Claude crates',
+    description: 'Rust crates and CLIs related to Claude AI',
+    type: 'crates',
+    url: 'https://crates.io/search?q=claude',
+    registry_config: { searchQuery: 'claude', keywords: ['claude', 'anthropic', 'mcp'] },
+    default_category: 'sdks',
+    default_tags: ['crates', 'rust', 'claude'],
+    scan_frequency: 'weekly',
+    min_downloads: 100
+  },
+
+  // VS Code Marketplace
+  {
+    name: 'VS Code: Claude extensions',
+    description: 'Editor extensions that integrate Claude',
+    type: 'vscode',
+    url: 'https://marketplace.visualstudio.com/search?term=claude&target=VSCode',
+    registry_config: { searchQuery: 'claude', keywords: ['claude', 'anthropic'] },
+    default_category: 'tools',
+    default_tags: ['vscode', 'extension', 'ide'],
+    scan_frequency: 'weekly',
+    min_downloads: 500
+  },
+
   // Websites
   {
     name: 'Anthropic Documentation',
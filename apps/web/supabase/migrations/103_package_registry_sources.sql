@@ -0,0 +1,24 @@
+-- ============================================================================
+-- Migration 103: crates.io and VS Code Marketplace Sources
+-- ============================================================================
+-- Adds package registries beyond npm/PyPI to resource discovery:
+-- - Allows 'crates' and 'vscode' as resource_sources types
+-- - Tracks crate and extension metadata on resources, mirroring the
+--   existing npm_package / pypi_package columns
+-- ============================================================================
+
+-- Extend allowed source types
+ALTER TABLE resource_sources DROP CONSTRAINT IF EXISTS resource_sources_type_check;
+ALTER TABLE resource_sources ADD CONSTRAINT resource_sources_type_check CHECK (type IN (
+  'github_repo', 'github_search', 'awesome_list',
+  'npm', 'pypi', 'crates', 'vscode', 'website', 'rss', 'api', 'manual'
+));
+
+-- crates.io / VS Code Marketplace integration
+ALTER TABLE resources ADD COLUMN IF NOT EXISTS crates_package VARCHAR(255);
+ALTER TABLE resources ADD COLUMN IF NOT EXISTS crates_downloads_recent INTEGER DEFAULT 0;
+ALTER TABLE resources ADD COLUMN IF NOT EXISTS vscode_extension VARCHAR(255);
+ALTER TABLE resources ADD COLUMN IF NOT EXISTS vscode_installs INTEGER DEFAULT 0;
+
+COMMENT ON COLUMN resources.crates_downloads_recent IS 'crates.io downloads over the last 90 days';
+COMMENT ON COLUMN resources.vscode_extension IS 'Marketplace identifier, e.g. publisher.extension';
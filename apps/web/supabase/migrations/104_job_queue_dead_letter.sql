@@ -0,0 +1,95 @@
+-- ============================================================================
+-- Migration 104: Job Queue Dead-Letter State
+-- ============================================================================
+-- - Jobs that exhaust max_attempts move to 'dead_letter' instead of 'failed'
+--   and stay there until an admin retries or cancels them
+-- - error_history keeps every failed attempt, not just last_error
+-- - idempotency_key lets callers enqueue the same logical job more than once
+--   without it running twice
+-- ============================================================================
+
+-- Error history and dead-letter bookkeeping
+ALTER TABLE job_queue ADD COLUMN IF NOT EXISTS error_history JSONB NOT NULL DEFAULT '[]'::JSONB;
+ALTER TABLE job_queue ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMPTZ;
+ALTER TABLE job_queue ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+
+-- Existing exhausted jobs become dead letters
+ALTER TABLE job_queue DROP CONSTRAINT IF EXISTS job_queue_status_check;
+
+UPDATE job_queue
+SET
+  status = 'dead_letter',
+  dead_lettered_at = COALESCE(completed_at, started_at, now()),
+  error_history = CASE
+    WHEN last_error IS NULL THEN '[]'::JSONB
+    ELSE jsonb_build_array(jsonb_build_object(
+      'attempt', attempts,
+      'error', last_error,
+      'failedAt', COALESCE(started_at, created_at)
+    ))
+  END
+WHERE status = 'failed';
+
+ALTER TABLE job_queue ADD CONSTRAINT job_queue_status_check
+  CHECK (status IN ('pending', 'processing', 'completed', 'dead_letter', 'cancelled'));
+
+-- One job per (type, idempotency_key)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_job_queue_idempotency
+  ON job_queue(type, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+-- Dead-letter inspection in the admin console
+CREATE INDEX IF NOT EXISTS idx_job_queue_dead_letter
+  ON job_queue(dead_lettered_at DESC)
+  WHERE status = 'dead_letter';
+
+-- Cleanup no longer touches dead letters
+DROP INDEX IF EXISTS idx_job_queue_completed;
+CREATE INDEX IF NOT EXISTS idx_job_queue_completed
+  ON job_queue(status, completed_at)
+  WHERE status IN ('completed', 'cancelled');
+
+-- Keep the SQL helpers from migration 059 consistent with lib/job-queue.ts
+CREATE OR REPLACE FUNCTION fail_job(
+  p_job_id UUID,
+  p_error TEXT DEFAULT NULL
+) RETURNS VOID AS $$
+BEGIN
+  UPDATE job_queue
+  SET
+    status = CASE WHEN attempts >= max_attempts THEN 'dead_letter' ELSE 'pending' END,
+    last_error = p_error,
+    error_count = error_count + 1,
+    error_history = error_history || jsonb_build_array(jsonb_build_object(
+      'attempt', attempts,
+      'error', p_error,
+      'failedAt', now()
+    )),
+    dead_lettered_at = CASE WHEN attempts >= max_attempts THEN now() ELSE NULL END,
+    -- Exponential backoff: 30s, 60s, 120s, ... capped at 1 hour
+    run_at = CASE
+      WHEN attempts >= max_attempts THEN run_at
+      ELSE now() + LEAST(30 * POWER(2, GREATEST(attempts - 1, 0)), 3600) * INTERVAL '1 second'
+    END,
+    started_at = CASE WHEN attempts >= max_attempts THEN started_at ELSE NULL END
+  WHERE id = p_job_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION cleanup_old_jobs(
+  p_days INT DEFAULT 7
+) RETURNS INT AS $$
+DECLARE
+  v_deleted INT;
+BEGIN
+  DELETE FROM job_queue
+  WHERE status IN ('completed', 'cancelled')
+    AND completed_at < now() - (p_days || ' days')::INTERVAL;
+
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN job_queue.error_history IS 'Every failed attempt: [{ attempt, error, failedAt }]';
+COMMENT ON COLUMN job_queue.idempotency_key IS 'Optional caller-supplied key; unique per job type';
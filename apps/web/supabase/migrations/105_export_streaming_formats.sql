@@ -0,0 +1,17 @@
+-- ============================================================================
+-- Migration 105: Streaming Export Formats
+-- ============================================================================
+-- - Allows 'ndjson', 'parquet' and 'sql' export formats
+-- - Tracks rows written while an export streams to storage, so the
+--   dashboard can show "rows_processed of total_rows"
+-- ============================================================================
+
+ALTER TABLE export_jobs DROP CONSTRAINT IF EXISTS export_jobs_format_check;
+ALTER TABLE export_jobs ADD CONSTRAINT export_jobs_format_check
+  CHECK (format IN ('json', 'ndjson', 'csv', 'xlsx', 'parquet', 'sql'));
+
+ALTER TABLE export_jobs ADD COLUMN IF NOT EXISTS rows_processed INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE export_jobs ADD COLUMN IF NOT EXISTS total_rows INTEGER;
+
+COMMENT ON COLUMN export_jobs.rows_processed IS 'Rows written so far; updated per streamed chunk';
+COMMENT ON COLUMN export_jobs.total_rows IS 'Row count estimated before streaming starts';
@@ -0,0 +1,75 @@
+-- ============================================================================
+-- Migration 106: Prompt Versions
+-- ============================================================================
+-- - Every edit to a prompt's title, description, content or variables
+--   creates an immutable row in prompt_versions
+-- - prompts.current_version points at the latest version
+-- - Saved prompts can be pinned to a version so an author's edits don't
+--   change them underneath the user
+-- - prompts.variables now holds typed variables (see lib/prompt-templates.ts)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS prompt_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  prompt_id UUID NOT NULL REFERENCES prompts(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+
+  -- Snapshot of the versioned fields
+  title TEXT NOT NULL,
+  description TEXT,
+  content TEXT NOT NULL,
+  variables JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  change_note TEXT,
+  created_by TEXT REFERENCES "user"(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE(prompt_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prompt_versions_prompt ON prompt_versions(prompt_id, version DESC);
+
+ALTER TABLE prompts ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE user_prompt_saves ADD COLUMN IF NOT EXISTS pinned_version INTEGER;
+
+-- Existing prompts start at version 1
+INSERT INTO prompt_versions (prompt_id, version, title, description, content, variables, created_by, created_at)
+SELECT id, 1, title, description, content, COALESCE(variables, '[]'::jsonb), author_id, created_at
+FROM prompts
+ON CONFLICT (prompt_id, version) DO NOTHING;
+
+-- Versions are append-only
+CREATE OR REPLACE FUNCTION prevent_prompt_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'prompt_versions rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_prompt_versions_immutable ON prompt_versions;
+CREATE TRIGGER trigger_prompt_versions_immutable
+  BEFORE UPDATE ON prompt_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_prompt_version_update();
+
+-- RLS: versions follow the visibility of their prompt
+ALTER TABLE prompt_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Prompt versions follow prompt visibility" ON prompt_versions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM prompts p
+      WHERE p.id = prompt_versions.prompt_id
+        AND (
+          p.visibility IN ('public', 'unlisted')
+          OR p.is_system = TRUE
+          OR p.author_id = auth.uid()::text
+        )
+    )
+  );
+
+COMMENT ON TABLE prompt_versions IS 'Immutable history of prompt template edits';
+COMMENT ON COLUMN prompts.current_version IS 'Latest prompt_versions.version for this prompt';
+COMMENT ON COLUMN user_prompt_saves.pinned_version IS 'Version the user pinned; NULL follows the latest';
+COMMENT ON COLUMN prompts.variables IS 'JSON array of typed template variables: name, type (string, multiline, number, enum), label, description, default, required, options, min, max, maxLength';
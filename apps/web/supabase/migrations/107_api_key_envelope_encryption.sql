@@ -0,0 +1,24 @@
+-- ============================================================================
+-- Migration 107: API Key Envelope Encryption and Providers
+-- ============================================================================
+-- - api_key_encrypted now holds envelope-encrypted values prefixed with the
+--   master key ID (see lib/api-keys.ts); encryption_key_id mirrors that ID so
+--   the re-encryption job can find rows still on an old master key
+-- - Existing rows keep the legacy format (encryption_key_id NULL) until the
+--   api_key_reencrypt job rewrites them
+-- - provider can now also be 'bedrock' or 'vertex'; their credentials are
+--   stored as encrypted JSON
+-- ============================================================================
+
+ALTER TABLE user_api_keys ADD COLUMN IF NOT EXISTS encryption_key_id VARCHAR(32);
+
+CREATE INDEX IF NOT EXISTS idx_user_api_keys_encryption_key
+  ON user_api_keys(encryption_key_id);
+
+ALTER TABLE user_api_keys DROP CONSTRAINT IF EXISTS user_api_keys_provider_check;
+ALTER TABLE user_api_keys ADD CONSTRAINT user_api_keys_provider_check
+  CHECK (provider IN ('anthropic', 'bedrock', 'vertex'));
+
+COMMENT ON COLUMN user_api_keys.api_key_encrypted IS 'Envelope-encrypted credential: v1:keyId:wrappedDataKey:iv:authTag:ciphertext (legacy rows: iv:authTag:ciphertext)';
+COMMENT ON COLUMN user_api_keys.encryption_key_id IS 'Master key ID the credential is encrypted with; NULL for the legacy format';
+COMMENT ON COLUMN user_api_keys.provider IS 'anthropic (API key), bedrock (AWS access key JSON) or vertex (service account JSON)';
@@ -0,0 +1,57 @@
+-- ============================================================================
+-- Migration 108: Notification Routing, Quiet Hours and Digests
+-- ============================================================================
+-- - channel_routing: per-notification-type channels (in_app, push, email)
+--   and delivery (immediate, hourly, daily); see lib/notification-routing.ts.
+--   Types without an entry keep using the existing per-category toggles
+-- - Quiet hours hold back push and email in the user's timezone
+--   ("user".timezone) until they end
+-- - notification_digest_queue holds push/email deliveries that were batched
+--   or held back; /api/cron/send-digests?frequency=hourly delivers them
+-- ============================================================================
+
+ALTER TABLE notification_preferences
+  ADD COLUMN IF NOT EXISTS channel_routing JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS quiet_hours_enabled BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS quiet_hours_start TIME NOT NULL DEFAULT '22:00',
+  ADD COLUMN IF NOT EXISTS quiet_hours_end TIME NOT NULL DEFAULT '07:00';
+
+CREATE TABLE IF NOT EXISTS notification_digest_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES "user"(id) ON DELETE CASCADE,
+  notification_id UUID REFERENCES notifications(id) ON DELETE SET NULL,
+
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT,
+  action_url TEXT,
+
+  -- Channels to deliver the digest on
+  send_push BOOLEAN NOT NULL DEFAULT false,
+  send_email BOOLEAN NOT NULL DEFAULT false,
+  -- 'hourly' | 'daily' | 'quiet_hours'
+  reason TEXT NOT NULL CHECK (reason IN ('hourly', 'daily', 'quiet_hours')),
+
+  deliver_after TIMESTAMPTZ NOT NULL,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_digest_queue_due
+  ON notification_digest_queue(deliver_after)
+  WHERE delivered_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notification_digest_queue_user
+  ON notification_digest_queue(user_id, created_at DESC)
+  WHERE delivered_at IS NULL;
+
+ALTER TABLE notification_digest_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own queued digests" ON notification_digest_queue
+  FOR SELECT
+  USING (user_id = auth.uid()::text);
+
+COMMENT ON COLUMN notification_preferences.channel_routing IS 'Per-type routing: { [type]: { in_app, push, email, delivery: immediate|hourly|daily } }';
+COMMENT ON COLUMN notification_preferences.quiet_hours_start IS 'Local time (user timezone) quiet hours begin';
+COMMENT ON COLUMN notification_preferences.quiet_hours_end IS 'Local time (user timezone) quiet hours end; may be earlier than start to wrap midnight';
+COMMENT ON TABLE notification_digest_queue IS 'Batched or quiet-hours-deferred push/email notifications awaiting digest delivery';
@@ -0,0 +1,58 @@
+-- ============================================================================
+-- Migration 109: Synced Assistant Conversations
+-- ============================================================================
+-- ai_conversations becomes the single store for assistant chats; the browser
+-- keeps a localStorage cache (lib/assistant-storage.ts) that syncs on sign-in
+-- - client_id: ID the conversation was created with in the browser, so
+--   offline-created conversations upsert idempotently
+-- - parent_id / branch_message_index: conversations forked from a message
+-- - context / summary: used by Ask AI (app/actions/ai-conversations.ts)
+-- - ai_messages.position orders messages; tool_steps stores assistant tool
+--   calls shown in the chat
+-- - Full-text search over message content and titles
+-- ============================================================================
+
+ALTER TABLE ai_conversations
+  ADD COLUMN IF NOT EXISTS client_id TEXT,
+  ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES ai_conversations(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS branch_message_index INTEGER,
+  ADD COLUMN IF NOT EXISTS context JSONB,
+  ADD COLUMN IF NOT EXISTS summary TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_conversations_client_id
+  ON ai_conversations(user_id, client_id)
+  WHERE client_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ai_conversations_parent
+  ON ai_conversations(parent_id)
+  WHERE parent_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_ai_conversations_user_updated
+  ON ai_conversations(user_id, updated_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_ai_conversations_title_search
+  ON ai_conversations USING GIN(to_tsvector('english', coalesce(title, '')));
+
+ALTER TABLE ai_messages
+  ADD COLUMN IF NOT EXISTS position INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS tool_steps JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_ai_messages_conversation_position
+  ON ai_messages(conversation_id, position);
+
+CREATE INDEX IF NOT EXISTS idx_ai_messages_search
+  ON ai_messages USING GIN(to_tsvector('english', content));
+
+-- Existing messages keep their chronological order
+UPDATE ai_messages m
+SET position = ordered.rn
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY conversation_id ORDER BY created_at, id) - 1 AS rn
+  FROM ai_messages
+) ordered
+WHERE m.id = ordered.id;
+
+COMMENT ON COLUMN ai_conversations.client_id IS 'Browser-generated conversation ID (localStorage cache key)';
+COMMENT ON COLUMN ai_conversations.parent_id IS 'Conversation this one was branched from';
+COMMENT ON COLUMN ai_conversations.branch_message_index IS 'Index of the parent message the branch was forked after';
+COMMENT ON COLUMN ai_messages.tool_steps IS 'Assistant tool calls made while generating the message';
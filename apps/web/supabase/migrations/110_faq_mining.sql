@@ -0,0 +1,146 @@
+-- ============================================================================
+-- Migration 110: Server-side FAQ Mining
+-- ============================================================================
+-- - faq_query_clusters groups differently-worded questions by a stemmed
+--   term signature (getQueryClusterKey in lib/faq-generator.ts)
+-- - faq_queries records each question asked through the assistant, AI search
+--   and site search (lib/faq-mining.ts)
+-- - faq_entries holds published FAQs and drafts generated by
+--   /api/cron/faq-mining for popular clusters, reviewed in
+--   /dashboard/faq-analytics
+-- - faq_votes stores one helpful/not-helpful vote per visitor per FAQ
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS faq_query_clusters (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cluster_key TEXT NOT NULL UNIQUE,
+  -- First wording seen; shown in the dashboard and used to draft the FAQ
+  representative_query TEXT NOT NULL,
+  category TEXT NOT NULL DEFAULT 'general',
+
+  query_count INTEGER NOT NULL DEFAULT 0,
+  -- Per-source counts: { "assistant": 3, "ai_search": 1, "search": 5 }
+  source_counts JSONB NOT NULL DEFAULT '{}'::jsonb,
+
+  first_asked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_asked_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_faq_query_clusters_popular
+  ON faq_query_clusters(query_count DESC, last_asked_at DESC);
+
+CREATE TABLE IF NOT EXISTS faq_queries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cluster_id UUID NOT NULL REFERENCES faq_query_clusters(id) ON DELETE CASCADE,
+  query TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('assistant', 'ai_search', 'search')),
+  user_id TEXT REFERENCES "user"(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_faq_queries_cluster
+  ON faq_queries(cluster_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS faq_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cluster_id UUID REFERENCES faq_query_clusters(id) ON DELETE SET NULL,
+
+  question TEXT NOT NULL,
+  answer TEXT NOT NULL,
+  category TEXT NOT NULL DEFAULT 'general',
+
+  -- 'draft' | 'published' | 'rejected'
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'rejected')),
+  -- 'generated' (drafted from a query cluster) | 'manual'
+  origin TEXT NOT NULL DEFAULT 'manual' CHECK (origin IN ('generated', 'manual')),
+  -- Documentation pages the draft was grounded in: [{ title, url }]
+  source_docs JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Manual display weight; generated entries rank by their cluster's query_count
+  query_count INTEGER NOT NULL DEFAULT 0,
+
+  helpful_count INTEGER NOT NULL DEFAULT 0,
+  not_helpful_count INTEGER NOT NULL DEFAULT 0,
+
+  reviewed_by TEXT REFERENCES "user"(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  published_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_faq_entries_status
+  ON faq_entries(status, updated_at DESC);
+
+-- A cluster is drafted at most once; rejected drafts keep it from coming back
+CREATE UNIQUE INDEX IF NOT EXISTS idx_faq_entries_cluster
+  ON faq_entries(cluster_id)
+  WHERE cluster_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS faq_votes (
+  faq_id UUID NOT NULL REFERENCES faq_entries(id) ON DELETE CASCADE,
+  -- "user:<id>", "visitor:<fingerprint>" or "ip:<hash>"
+  voter_key TEXT NOT NULL,
+  helpful BOOLEAN NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (faq_id, voter_key)
+);
+
+-- Starter FAQs previously seeded into each visitor's localStorage
+INSERT INTO faq_entries (question, answer, category, status, origin, query_count, published_at)
+SELECT v.question, v.answer, v.category, 'published', 'manual', v.query_count, NOW()
+FROM (VALUES
+  (
+    'What is Claude Code?',
+    'Claude Code is an AI-powered CLI tool that helps developers with coding tasks. It can read and write files, execute commands, and assist with complex development workflows. Think of it as having an AI pair programmer right in your terminal.',
+    'general',
+    100
+  ),
+  (
+    'How do I install Claude Code?',
+    'You can install Claude Code using npm: `npm install -g @anthropic-ai/claude-code`. After installation, authenticate with your Anthropic API key by running `claude login`. For detailed installation steps, see our Installation guide.',
+    'installation',
+    95
+  ),
+  (
+    'What is CLAUDE.md?',
+    'CLAUDE.md is a project configuration file that gives Claude Code context about your project. It can include coding conventions, project structure, preferred libraries, and specific instructions. Claude reads this file to better understand how to help with your codebase.',
+    'configuration',
+    85
+  ),
+  (
+    'What are MCP servers?',
+    'MCP (Model Context Protocol) servers extend Claude''s capabilities by providing access to external systems. They allow Claude to interact with databases, file systems, APIs, and more. Popular MCP servers include filesystem, PostgreSQL, and GitHub integrations.',
+    'mcp',
+    80
+  ),
+  (
+    'How do I write effective prompts?',
+    'Effective prompts are clear, specific, and provide context. Start with the task, include relevant constraints, and specify the desired output format. Break complex tasks into steps, use examples when helpful, and iterate based on results.',
+    'prompting',
+    75
+  ),
+  (
+    'What API models are available?',
+    'Anthropic offers several Claude models: Claude Opus 4.5 (most capable), Claude Sonnet 4 (balanced), and Claude Haiku 3.5 (fast and efficient). Choose based on your needs - Opus for complex tasks, Sonnet for everyday use, Haiku for simple queries.',
+    'api',
+    70
+  ),
+  (
+    'How do I handle rate limits?',
+    'Implement exponential backoff when you hit rate limits. Start with a 1-second delay, then double it on each retry. Most applications benefit from request queuing and batching. Monitor your usage in the Anthropic Console.',
+    'api',
+    65
+  ),
+  (
+    'What IDE integrations are available?',
+    'Claude Code integrates with VS Code, JetBrains IDEs, Neovim, and Sublime Text. The VS Code extension provides inline chat, code actions, and side panel features. JetBrains plugins offer similar functionality for their IDE family.',
+    'features',
+    60
+  )
+) AS v(question, answer, category, query_count)
+WHERE NOT EXISTS (SELECT 1 FROM faq_entries);
+
+COMMENT ON TABLE faq_query_clusters IS 'Questions from the assistant and search, grouped by stemmed term signature';
+COMMENT ON TABLE faq_entries IS 'Published FAQs and AI drafts awaiting review';
+COMMENT ON TABLE faq_votes IS 'Helpful/not-helpful votes, one per voter per FAQ';
@@ -0,0 +1,56 @@
+-- ============================================================================
+-- Migration 111: Encrypted Message Attachments
+-- ============================================================================
+-- - message-attachments bucket holds files shared in direct and group
+--   messages, encrypted in the browser (lib/e2ee/attachment-crypto.ts);
+--   objects are opaque blobs read through short-lived signed URLs
+-- - dm_message_attachments tracks each blob. File names, types and keys are
+--   only inside the encrypted message payload, never stored here
+-- - Uploads are linked to their message when it is sent; unsent uploads and
+--   expired attachments are removed by /api/cron/e2ee-cleanup
+-- ============================================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'message-attachments',
+  'message-attachments',
+  false,  -- Private bucket, accessed via signed URLs
+  26214416,  -- 25MB + AES-GCM auth tag
+  ARRAY['application/octet-stream']
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+CREATE TABLE IF NOT EXISTS dm_message_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id UUID NOT NULL REFERENCES dm_conversations(id) ON DELETE CASCADE,
+  -- NULL until the message carrying the attachment's key is sent
+  message_id UUID REFERENCES dm_messages(id) ON DELETE SET NULL,
+  uploader_id TEXT NOT NULL REFERENCES "user"(id) ON DELETE CASCADE,
+
+  storage_path TEXT NOT NULL,
+  thumbnail_path TEXT,
+  -- Ciphertext size
+  size_bytes BIGINT NOT NULL,
+
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dm_message_attachments_message
+  ON dm_message_attachments(message_id)
+  WHERE message_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_dm_message_attachments_expires
+  ON dm_message_attachments(expires_at);
+
+CREATE INDEX IF NOT EXISTS idx_dm_message_attachments_unsent
+  ON dm_message_attachments(created_at)
+  WHERE message_id IS NULL;
+
+ALTER TABLE dm_message_attachments ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE dm_message_attachments IS 'Encrypted files shared in direct and group messages';
+COMMENT ON COLUMN dm_message_attachments.size_bytes IS 'Size of the encrypted blob in bytes';
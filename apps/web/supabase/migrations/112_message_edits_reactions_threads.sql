@@ -0,0 +1,64 @@
+-- ============================================================================
+-- Migration 112: Message Edits, Reactions and Threads
+-- ============================================================================
+-- - dm_messages.reply_to_id: the message a reply was sent to. Replies show a
+--   quote of their parent and are collected in the parent's thread panel
+-- - dm_message_edits keeps each message's previous versions. E2EE messages
+--   are re-encrypted on edit and carry their own history inside the
+--   ciphertext, so only the previous ciphertext is kept here
+-- - dm_message_reactions stores one row per user per emoji per message;
+--   conversation_id is denormalized for the realtime subscription filter
+-- ============================================================================
+
+ALTER TABLE dm_messages
+  ADD COLUMN IF NOT EXISTS reply_to_id UUID REFERENCES dm_messages(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_dm_messages_reply_to
+  ON dm_messages(reply_to_id, created_at)
+  WHERE reply_to_id IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS dm_message_edits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID NOT NULL REFERENCES dm_messages(id) ON DELETE CASCADE,
+  -- The version that was replaced (NULL content for E2EE messages)
+  content TEXT,
+  encrypted_content TEXT,
+  -- When the replaced version was written (the message's created_at or previous edited_at)
+  written_at TIMESTAMPTZ NOT NULL,
+  edited_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dm_message_edits_message
+  ON dm_message_edits(message_id, edited_at DESC);
+
+CREATE TABLE IF NOT EXISTS dm_message_reactions (
+  message_id UUID NOT NULL REFERENCES dm_messages(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES dm_conversations(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL REFERENCES "user"(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (message_id, user_id, emoji)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dm_message_reactions_conversation
+  ON dm_message_reactions(conversation_id);
+
+ALTER TABLE dm_message_edits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE dm_message_reactions ENABLE ROW LEVEL SECURITY;
+
+-- Realtime: DELETE events need the full old row to know which reaction went
+ALTER TABLE dm_message_reactions REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'dm_message_reactions'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE dm_message_reactions;
+  END IF;
+END $$;
+
+COMMENT ON COLUMN dm_messages.reply_to_id IS 'Parent message of a threaded reply';
+COMMENT ON TABLE dm_message_edits IS 'Previous versions of edited messages';
+COMMENT ON TABLE dm_message_reactions IS 'Emoji reactions, one row per user per emoji per message';
@@ -0,0 +1,149 @@
+-- ============================================================================
+-- Migration 113: Cross-Signing and Key Transparency
+-- ============================================================================
+-- - e2ee_cross_signing_keys (from migration 056) gets used: each user has a
+--   master key that signs their self-signing and user-signing keys. The
+--   self-signing key signs the user's devices; the user-signing key signs
+--   other users' master keys once they're verified. Verifying a user once
+--   therefore covers every device they sign later.
+--   The old UNIQUE(user_id, key_type, is_active) allowed only one revoked key
+--   per type, so it's replaced with a partial index on active keys.
+-- - e2ee_user_signatures holds user-signing key signatures on other users'
+--   master keys (e2ee_device_signatures already covers devices)
+-- - e2ee_key_log is an append-only, per-user hash chain of key changes that
+--   clients check to warn when a contact's keys change unexpectedly. user_id
+--   has no foreign key: the log outlives deleted accounts.
+-- - Devices registered before this migration are backfilled as device_added
+--   entries, so clients can flag any served device the log doesn't contain.
+-- ============================================================================
+
+ALTER TABLE e2ee_cross_signing_keys
+  DROP CONSTRAINT IF EXISTS e2ee_cross_signing_keys_user_id_key_type_is_active_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cross_signing_keys_one_active
+  ON e2ee_cross_signing_keys(user_id, key_type)
+  WHERE is_active = TRUE;
+
+-- ----------------------------------------------------------------------------
+-- User signatures
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS e2ee_user_signatures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  signer_user_id TEXT NOT NULL REFERENCES "user"(id) ON DELETE CASCADE,
+  -- The signer's user-signing public key
+  signer_key_id TEXT NOT NULL,
+  target_user_id TEXT NOT NULL REFERENCES "user"(id) ON DELETE CASCADE,
+  -- The master public key that was signed
+  target_master_key TEXT NOT NULL,
+  signature TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(signer_user_id, target_user_id, target_master_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_signatures_signer
+  ON e2ee_user_signatures(signer_user_id, target_user_id);
+
+ALTER TABLE e2ee_user_signatures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "user_signatures_select_own" ON e2ee_user_signatures FOR SELECT USING (
+  signer_user_id = current_setting('request.jwt.claims', true)::json->>'sub'
+);
+CREATE POLICY "user_signatures_service_role" ON e2ee_user_signatures FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- ----------------------------------------------------------------------------
+-- Key transparency log
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS e2ee_key_log (
+  id BIGSERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  seq INTEGER NOT NULL CHECK (seq > 0),
+  event_type TEXT NOT NULL CHECK (
+    event_type IN ('device_added', 'device_changed', 'device_removed', 'cross_signing_key_changed')
+  ),
+  key_type TEXT NOT NULL CHECK (key_type IN ('device', 'master', 'self_signing', 'user_signing')),
+  key_id TEXT NOT NULL,
+  public_key TEXT NOT NULL DEFAULT '',
+  prev_hash TEXT NOT NULL,
+  entry_hash TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ NOT NULL,
+  UNIQUE(user_id, seq)
+);
+
+ALTER TABLE e2ee_key_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "key_log_select_all" ON e2ee_key_log FOR SELECT USING (true);
+CREATE POLICY "key_log_service_role" ON e2ee_key_log FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- Append-only, including for the service role
+CREATE OR REPLACE FUNCTION prevent_key_log_mutation()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'e2ee_key_log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS e2ee_key_log_append_only ON e2ee_key_log;
+CREATE TRIGGER e2ee_key_log_append_only
+  BEFORE UPDATE OR DELETE ON e2ee_key_log
+  FOR EACH ROW EXECUTE FUNCTION prevent_key_log_mutation();
+
+-- ----------------------------------------------------------------------------
+-- Backfill existing devices
+-- ----------------------------------------------------------------------------
+-- Hashes are computed exactly like hashKeyLogEntry() in
+-- lib/e2ee/key-transparency.ts: SHA-256 (base64) of the entry's canonical
+-- JSON (sorted keys, ISO timestamp with milliseconds). Users that already
+-- have a chain are skipped, so re-running the migration is a no-op.
+
+DO $$
+DECLARE
+  device RECORD;
+  chain_user_id TEXT := NULL;
+  next_seq INTEGER;
+  prev_entry_hash TEXT;
+  logged_at TIMESTAMPTZ;
+  device_public_key TEXT;
+  new_entry_hash TEXT;
+BEGIN
+  FOR device IN
+    SELECT d.user_id, d.device_id, d.identity_key, d.signing_key, d.created_at
+    FROM device_keys d
+    WHERE NOT EXISTS (SELECT 1 FROM e2ee_key_log l WHERE l.user_id = d.user_id)
+    ORDER BY d.user_id, d.created_at, d.device_id
+  LOOP
+    IF chain_user_id IS DISTINCT FROM device.user_id THEN
+      chain_user_id := device.user_id;
+      next_seq := 1;
+      prev_entry_hash := '';
+    END IF;
+
+    logged_at := date_trunc('milliseconds', device.created_at);
+    device_public_key := device.identity_key || '|' || device.signing_key;
+    new_entry_hash := encode(sha256(convert_to(
+      '{"created_at":' || to_json(to_char(logged_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'))::TEXT
+      || ',"event_type":"device_added"'
+      || ',"key_id":' || to_json(device.device_id)::TEXT
+      || ',"key_type":"device"'
+      || ',"prev_hash":' || to_json(prev_entry_hash)::TEXT
+      || ',"public_key":' || to_json(device_public_key)::TEXT
+      || ',"seq":' || next_seq
+      || ',"user_id":' || to_json(device.user_id)::TEXT
+      || '}',
+      'UTF8'
+    )), 'base64');
+
+    INSERT INTO e2ee_key_log
+      (user_id, seq, event_type, key_type, key_id, public_key, prev_hash, entry_hash, created_at)
+    VALUES
+      (device.user_id, next_seq, 'device_added', 'device', device.device_id,
+       device_public_key, prev_entry_hash, new_entry_hash, logged_at);
+
+    next_seq := next_seq + 1;
+    prev_entry_hash := new_entry_hash;
+  END LOOP;
+END $$;
+
+COMMENT ON TABLE e2ee_user_signatures IS 'User-signing key signatures on verified users'' master keys';
+COMMENT ON TABLE e2ee_key_log IS 'Append-only hash chain of published key changes, one chain per user';
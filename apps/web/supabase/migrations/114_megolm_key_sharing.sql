@@ -0,0 +1,173 @@
+-- ============================================================================
+-- Migration 114: Megolm Key Sharing and Room Key Backup
+-- ============================================================================
+-- - e2ee_conversation_settings.history_visibility controls which earlier
+--   Megolm sessions members forward to someone who joins a group later:
+--   'joined' (sessions since they joined), 'invited' (since they were
+--   invited) or 'full' (everything the member holds)
+-- - megolm_session_shares records when each session started and how often a
+--   key was forwarded; share_megolm_session/claim_megolm_sessions carry the
+--   new fields (and share_megolm_session now reads the camelCase shares the
+--   client sends)
+-- - e2ee_room_key_requests: a device asks for sessions it can't decrypt.
+--   The user's other verified devices answer every request; other members
+--   answer within the group's history visibility
+-- - e2ee_room_key_backup: each Megolm session, encrypted in the browser with
+--   the user's room key backup key, so new devices can restore history
+-- ============================================================================
+
+ALTER TABLE e2ee_conversation_settings
+  ADD COLUMN IF NOT EXISTS history_visibility TEXT NOT NULL DEFAULT 'joined'
+    CHECK (history_visibility IN ('joined', 'invited', 'full'));
+
+ALTER TABLE megolm_session_shares
+  ADD COLUMN IF NOT EXISTS session_created_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- ----------------------------------------------------------------------------
+-- Session share functions
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION share_megolm_session(
+  p_conversation_id UUID,
+  p_session_id TEXT,
+  p_sender_user_id TEXT,
+  p_sender_device_id TEXT,
+  -- Array of {recipientUserId, recipientDeviceId, encryptedSessionKey,
+  -- firstKnownIndex?, forwardedCount?, sessionCreatedAt?}
+  p_shares JSONB
+)
+RETURNS void AS $$
+DECLARE
+  v_share JSONB;
+BEGIN
+  FOR v_share IN SELECT * FROM jsonb_array_elements(p_shares)
+  LOOP
+    INSERT INTO megolm_session_shares (
+      conversation_id,
+      session_id,
+      sender_user_id,
+      sender_device_id,
+      recipient_user_id,
+      recipient_device_id,
+      encrypted_session_key,
+      first_known_index,
+      forwarded_count,
+      session_created_at
+    ) VALUES (
+      p_conversation_id,
+      p_session_id,
+      p_sender_user_id,
+      p_sender_device_id,
+      v_share->>'recipientUserId',
+      v_share->>'recipientDeviceId',
+      v_share->>'encryptedSessionKey',
+      COALESCE((v_share->>'firstKnownIndex')::INTEGER, 0),
+      COALESCE((v_share->>'forwardedCount')::INTEGER, 0),
+      COALESCE((v_share->>'sessionCreatedAt')::TIMESTAMPTZ, NOW())
+    )
+    ON CONFLICT (session_id, recipient_device_id) DO NOTHING;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS claim_megolm_sessions(TEXT, TEXT);
+
+CREATE FUNCTION claim_megolm_sessions(
+  p_user_id TEXT,
+  p_device_id TEXT
+)
+RETURNS TABLE (
+  conversation_id UUID,
+  session_id TEXT,
+  sender_user_id TEXT,
+  sender_device_id TEXT,
+  encrypted_session_key TEXT,
+  first_known_index INTEGER,
+  forwarded_count INTEGER,
+  session_created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE megolm_session_shares s
+  SET claimed_at = NOW()
+  WHERE s.recipient_user_id = p_user_id
+    AND s.recipient_device_id = p_device_id
+    AND s.claimed_at IS NULL
+  RETURNING
+    s.conversation_id,
+    s.session_id,
+    s.sender_user_id,
+    s.sender_device_id,
+    s.encrypted_session_key,
+    s.first_known_index,
+    s.forwarded_count,
+    s.session_created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ----------------------------------------------------------------------------
+-- Room key requests
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS e2ee_room_key_requests (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  requester_user_id TEXT NOT NULL REFERENCES "user"(id) ON DELETE CASCADE,
+  requester_device_id TEXT NOT NULL,
+  conversation_id UUID NOT NULL REFERENCES dm_conversations(id) ON DELETE CASCADE,
+  session_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'fulfilled', 'cancelled')),
+  fulfilled_by_user_id TEXT REFERENCES "user"(id) ON DELETE SET NULL,
+  fulfilled_by_device_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  fulfilled_at TIMESTAMPTZ,
+  UNIQUE(requester_device_id, session_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_key_requests_pending
+  ON e2ee_room_key_requests(conversation_id, created_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_room_key_requests_requester
+  ON e2ee_room_key_requests(requester_user_id)
+  WHERE status = 'pending';
+
+ALTER TABLE e2ee_room_key_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "room_key_requests_select_own" ON e2ee_room_key_requests FOR SELECT USING (
+  requester_user_id = current_setting('request.jwt.claims', true)::json->>'sub'
+);
+CREATE POLICY "room_key_requests_service_role" ON e2ee_room_key_requests FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+-- ----------------------------------------------------------------------------
+-- Room key backup
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS e2ee_room_key_backup (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES "user"(id) ON DELETE CASCADE,
+  conversation_id UUID NOT NULL REFERENCES dm_conversations(id) ON DELETE CASCADE,
+  session_id TEXT NOT NULL,
+  -- Fingerprint of the backup key the session is encrypted with
+  key_id TEXT NOT NULL,
+  encrypted_session TEXT NOT NULL,
+  session_iv TEXT NOT NULL,
+  -- Kept in the clear so a better copy (lower index) can replace a worse one
+  first_known_index INTEGER NOT NULL DEFAULT 0,
+  forwarded_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(user_id, session_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_room_key_backup_user
+  ON e2ee_room_key_backup(user_id, conversation_id);
+
+ALTER TABLE e2ee_room_key_backup ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "room_key_backup_manage_own" ON e2ee_room_key_backup FOR ALL USING (
+  user_id = current_setting('request.jwt.claims', true)::json->>'sub'
+);
+CREATE POLICY "room_key_backup_service_role" ON e2ee_room_key_backup FOR ALL TO service_role USING (true) WITH CHECK (true);
+
+COMMENT ON COLUMN e2ee_conversation_settings.history_visibility IS 'Which earlier Megolm sessions are forwarded to members who join later';
+COMMENT ON TABLE e2ee_room_key_requests IS 'Requests for Megolm session keys a device is missing';
+COMMENT ON TABLE e2ee_room_key_backup IS 'Megolm sessions encrypted client-side with the user''s room key backup key';
@@ -0,0 +1,44 @@
+-- ============================================================================
+-- Migration 115: Payment Provider Abstraction (Stripe)
+-- ============================================================================
+-- - donations.payment_method accepts 'stripe'
+-- - donations.provider_checkout_id: the provider's order / checkout session
+--   ID the donation was started with (PayPal order or subscription ID,
+--   Stripe Checkout session ID). Stripe subscriptions only get their
+--   subscription_id once checkout completes
+-- - donation_settings: stripe_enabled (off until keys are configured) and
+--   default_payment_provider (preselected in the donation modal)
+-- ============================================================================
+
+ALTER TABLE public.donations
+  DROP CONSTRAINT IF EXISTS donations_payment_method_check;
+
+ALTER TABLE public.donations
+  ADD CONSTRAINT donations_payment_method_check
+    CHECK (payment_method IN ('paypal', 'stripe', 'bank_transfer', 'other'));
+
+ALTER TABLE public.donations
+  ADD COLUMN IF NOT EXISTS provider_checkout_id VARCHAR(255);
+
+-- Existing one-time PayPal donations were started with their order ID,
+-- subscriptions with their subscription ID
+UPDATE public.donations
+SET provider_checkout_id = COALESCE(paypal_order_id, subscription_id)
+WHERE payment_method = 'paypal' AND provider_checkout_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_donations_provider_checkout_id
+  ON public.donations(payment_method, provider_checkout_id)
+  WHERE provider_checkout_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_donations_subscription_id
+  ON public.donations(subscription_id)
+  WHERE subscription_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_donations_transaction_id
+  ON public.donations(payment_method, transaction_id)
+  WHERE transaction_id IS NOT NULL;
+
+INSERT INTO public.donation_settings (key, value, description) VALUES
+  ('stripe_enabled', 'false', 'Enable Stripe (card) donations'),
+  ('default_payment_provider', '"paypal"', 'Payment provider preselected for donors (paypal or stripe)')
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,97 @@
+-- ============================================================================
+-- Migration 116: PDF Receipts and Annual Donation Statements
+-- ============================================================================
+-- - Receipts are rendered as PDFs on request; donation_receipts.pdf_url
+--   points at /api/donations/receipts/<donation id>
+-- - donation_annual_statements: one consolidated statement per donor and
+--   year, created each January by the donation_annual_statement job
+--   (queued by /api/cron/annual-statements) and emailed to the donor
+-- - generate_receipt_number() is recreated: it read the sequence from the
+--   wrong offset, and databases built from 000_fresh_start.sql lack it. It
+--   now takes a lock so concurrent receipts can't get the same number
+-- - donation_receipts.donation_id is unique: one receipt per donation
+--   (duplicates from earlier races are removed, keeping the first)
+-- - donation_settings.receipt_organization: issuer details printed on
+--   receipts and statements (name, address, tax_id, email, note)
+-- ============================================================================
+
+UPDATE public.donation_receipts
+SET pdf_url = '/api/donations/receipts/' || donation_id
+WHERE pdf_url IS NULL;
+
+DELETE FROM public.donation_receipts r
+USING public.donation_receipts earlier
+WHERE earlier.donation_id = r.donation_id
+  AND (earlier.generated_at, earlier.id) < (r.generated_at, r.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_donation_receipts_donation_id_unique
+  ON public.donation_receipts(donation_id);
+
+CREATE TABLE IF NOT EXISTS public.donation_annual_statements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT REFERENCES public."user"(id) ON DELETE CASCADE NOT NULL,
+  year INTEGER NOT NULL,
+  statement_number VARCHAR(50) UNIQUE NOT NULL,
+  totals JSONB NOT NULL DEFAULT '{}',
+  donation_count INTEGER NOT NULL DEFAULT 0,
+  generated_at TIMESTAMPTZ DEFAULT NOW(),
+  emailed_at TIMESTAMPTZ,
+  downloaded_at TIMESTAMPTZ,
+  download_count INTEGER DEFAULT 0,
+  UNIQUE (user_id, year)
+);
+
+CREATE INDEX IF NOT EXISTS idx_donation_annual_statements_user
+  ON public.donation_annual_statements(user_id, year DESC);
+
+ALTER TABLE public.donation_annual_statements ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "donation_annual_statements_select" ON public.donation_annual_statements FOR SELECT USING (
+  user_id = auth.uid()::TEXT OR
+  EXISTS (SELECT 1 FROM public."user" WHERE id = auth.uid()::TEXT AND role IN ('admin', 'superadmin'))
+);
+
+CREATE OR REPLACE FUNCTION generate_receipt_number()
+RETURNS VARCHAR(50) AS $$
+DECLARE
+  v_year VARCHAR(4);
+  v_sequence INTEGER;
+BEGIN
+  v_year := EXTRACT(YEAR FROM NOW())::VARCHAR;
+
+  -- Serialize numbering; call it in the statement that inserts the receipt
+  -- so the lock is held until the new number is committed
+  PERFORM pg_advisory_xact_lock(hashtext('donation_receipt_number'));
+
+  SELECT COALESCE(MAX(CAST(SUBSTRING(receipt_number FROM 9) AS INTEGER)), 0) + 1
+  INTO v_sequence
+  FROM public.donation_receipts
+  WHERE receipt_number LIKE 'CI-' || v_year || '-%';
+
+  RETURN 'CI-' || v_year || '-' || LPAD(v_sequence::VARCHAR, 6, '0');
+END;
+$$ LANGUAGE plpgsql;
+
+-- CI-S2025-000001, numbered per statement year
+CREATE OR REPLACE FUNCTION generate_statement_number(p_year INTEGER)
+RETURNS VARCHAR(50) AS $$
+DECLARE
+  v_prefix VARCHAR(20);
+  v_sequence INTEGER;
+BEGIN
+  v_prefix := 'CI-S' || p_year::VARCHAR || '-';
+
+  -- Serialize numbering within a year
+  PERFORM pg_advisory_xact_lock(hashtext('donation_statement_number'), p_year);
+
+  SELECT COALESCE(MAX(CAST(SUBSTRING(statement_number FROM LENGTH(v_prefix) + 1) AS INTEGER)), 0) + 1
+  INTO v_sequence
+  FROM public.donation_annual_statements
+  WHERE statement_number LIKE v_prefix || '%';
+
+  RETURN v_prefix || LPAD(v_sequence::VARCHAR, 6, '0');
+END;
+$$ LANGUAGE plpgsql;
+
+INSERT INTO public.donation_settings (key, value, description) VALUES
+  ('receipt_organization', '{}', 'Issuer details on receipts: name, address, tax_id, email, note')
+ON CONFLICT (key) DO NOTHING;
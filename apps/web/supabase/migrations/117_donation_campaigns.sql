@@ -0,0 +1,44 @@
+-- ============================================================================
+-- Migration 117: Donation Campaigns
+-- ============================================================================
+-- - donation_campaigns: time-boxed funding goals ("fund hosting for 2027")
+--   with a target amount, currency and optional deadline. A campaign takes
+--   donations while it is active and its deadline hasn't passed
+-- - donations.campaign_id: the campaign a donation was made to (NULL for
+--   the general fund). Campaign donations are taken in the campaign's
+--   currency, so progress is a plain sum of completed donations
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.donation_campaigns (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug VARCHAR(100) UNIQUE NOT NULL,
+  title VARCHAR(255) NOT NULL,
+  description TEXT,
+  target_amount DECIMAL(10,2) NOT NULL CHECK (target_amount > 0),
+  currency VARCHAR(3) DEFAULT 'USD' NOT NULL,
+  starts_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  ends_at TIMESTAMPTZ,
+  is_active BOOLEAN DEFAULT TRUE,
+  is_featured BOOLEAN DEFAULT FALSE,
+  created_by TEXT REFERENCES public."user"(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (ends_at IS NULL OR ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_donation_campaigns_active
+  ON public.donation_campaigns(is_featured DESC, ends_at)
+  WHERE is_active = TRUE;
+
+ALTER TABLE public.donation_campaigns ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "donation_campaigns_select" ON public.donation_campaigns FOR SELECT USING (is_active = TRUE);
+CREATE POLICY "donation_campaigns_admin" ON public.donation_campaigns FOR ALL USING (
+  EXISTS (SELECT 1 FROM public."user" WHERE id = auth.uid()::TEXT AND role IN ('admin', 'superadmin'))
+);
+
+ALTER TABLE public.donations
+  ADD COLUMN IF NOT EXISTS campaign_id UUID REFERENCES public.donation_campaigns(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_donations_campaign
+  ON public.donations(campaign_id, status)
+  WHERE campaign_id IS NOT NULL;
@@ -0,0 +1,32 @@
+-- ============================================================================
+-- Migration 118: Personal Access Tokens
+-- ============================================================================
+-- - personal_access_tokens: user-scoped bearer tokens for /api/v1, issued
+--   from settings. Only a SHA-256 hash of the token is stored; token_prefix
+--   keeps its first characters so users can tell tokens apart
+-- - scopes: e.g. read:resources, read:prompts, write:favorites
+--   (see lib/api-tokens.ts)
+-- - Revoked tokens are kept for the audit trail (revoked_at)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.personal_access_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES public."user"(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  token_prefix VARCHAR(20) NOT NULL,
+  token_hash CHAR(64) UNIQUE NOT NULL,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  last_used_ip TEXT,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_personal_access_tokens_user
+  ON public.personal_access_tokens(user_id, created_at DESC);
+
+ALTER TABLE public.personal_access_tokens ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "personal_access_tokens_own" ON public.personal_access_tokens FOR ALL USING (
+  user_id = auth.uid()::TEXT
+);
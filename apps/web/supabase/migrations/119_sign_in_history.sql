@@ -0,0 +1,47 @@
+-- ============================================================================
+-- Migration 119: Sign-in History
+-- ============================================================================
+-- - sign_in_events: one row per sign-in and per 2FA/passkey verification,
+--   successful or not, shown to the user under Settings → Devices & sessions
+-- - method: password, github, google, sign_up... for sign-ins; totp or
+--   backup_code for 2FA; the passkey's name for passkeys
+-- - session_id links a sign-in to the Better Auth session it created, so
+--   the sessions list can show where each session started. It is not a
+--   foreign key: history outlives the session
+-- - device_key identifies a browser/OS/device combination; a successful
+--   sign-in with a device_key the user hasn't used before triggers an
+--   email alert
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.sign_in_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES public."user"(id) ON DELETE CASCADE,
+  session_id TEXT,
+  event_type VARCHAR(20) NOT NULL
+    CHECK (event_type IN ('sign_in', 'two_factor', 'passkey')),
+  method VARCHAR(100),
+  success BOOLEAN NOT NULL DEFAULT TRUE,
+  ip_address TEXT,
+  location TEXT,
+  user_agent TEXT,
+  device_type VARCHAR(20),
+  browser VARCHAR(50),
+  os VARCHAR(50),
+  device_key VARCHAR(100),
+  is_new_device BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sign_in_events_user
+  ON public.sign_in_events(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_sign_in_events_session
+  ON public.sign_in_events(session_id)
+  WHERE session_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_sign_in_events_device
+  ON public.sign_in_events(user_id, device_key)
+  WHERE success = TRUE;
+
+ALTER TABLE public.sign_in_events ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "sign_in_events_select_own" ON public.sign_in_events FOR SELECT USING (
+  user_id = auth.uid()::TEXT
+);
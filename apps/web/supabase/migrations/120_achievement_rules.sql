@@ -0,0 +1,72 @@
+-- ============================================================================
+-- Migration 120: Achievement Rules
+-- ============================================================================
+-- Achievements become data-driven rules evaluated by lib/achievement-engine.ts
+-- instead of per-action checks:
+-- - trigger_event: the event that advances the achievement (lib/achievement-events.ts)
+-- - requirement_type: the condition - special (manual), count, streak or
+--   threshold (count within window_days); requirement_value is the target
+-- - is_active / available_from / available_until: rules outside their
+--   availability window are not evaluated
+-- - achievement_events: one row per user event, deduplicated per subject
+--   (favoriting the same resource twice counts once). Conditions are
+--   computed from this table, which is also what backfill replays into
+-- ============================================================================
+
+ALTER TABLE public.achievements
+  ADD COLUMN IF NOT EXISTS trigger_event TEXT,
+  ADD COLUMN IF NOT EXISTS window_days INTEGER,
+  ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  ADD COLUMN IF NOT EXISTS available_from TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS available_until TIMESTAMPTZ;
+
+-- Seeded achievements used requirement_type for the metric; move the metric
+-- to trigger_event and keep requirement_type for the condition
+UPDATE public.achievements SET
+  trigger_event = CASE requirement_type
+    WHEN 'favorites' THEN 'resource.favorited'
+    WHEN 'comments' THEN 'comment.created'
+    WHEN 'ratings' THEN 'resource.rated'
+    WHEN 'collections' THEN 'collection.created'
+    WHEN 'suggestions' THEN 'suggestion.submitted'
+    WHEN 'approved_suggestions' THEN 'suggestion.approved'
+    WHEN 'followers' THEN 'follower.gained'
+    WHEN 'streak' THEN 'user.active'
+  END,
+  requirement_type = CASE requirement_type
+    WHEN 'streak' THEN 'streak'
+    WHEN 'beta_tester' THEN 'special'
+    ELSE 'count'
+  END
+WHERE requirement_type IN (
+  'favorites', 'comments', 'ratings', 'collections', 'suggestions',
+  'approved_suggestions', 'followers', 'streak', 'beta_tester'
+);
+
+UPDATE public.achievements
+SET trigger_event = 'onboarding.completed', requirement_type = 'count', requirement_value = 1
+WHERE slug = 'welcome_aboard';
+
+CREATE INDEX IF NOT EXISTS idx_achievements_trigger
+  ON public.achievements(trigger_event)
+  WHERE is_active = TRUE AND trigger_event IS NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.achievement_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES public."user"(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  subject_id TEXT NOT NULL,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE(user_id, event, subject_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_achievement_events_user_event
+  ON public.achievement_events(user_id, event, occurred_at DESC);
+CREATE INDEX IF NOT EXISTS idx_achievement_events_event
+  ON public.achievement_events(event);
+
+ALTER TABLE public.achievement_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own achievement events" ON public.achievement_events;
+CREATE POLICY "Users can view own achievement events" ON public.achievement_events
+  FOR SELECT USING (user_id = auth.uid()::text);
@@ -0,0 +1,135 @@
+-- ============================================================================
+-- Migration 121: Points Ledger & Seasonal Leaderboards
+-- ============================================================================
+-- - points_ledger: append-only record of every point award, with the
+--   pointActions id (lib/gamification.ts) or 'achievement' and a readable
+--   reason. Corrections are new rows with negative points, never updates.
+--   A subject can only earn a given action once per user
+-- - leaderboard_seasons: admin-defined seasons (e.g. a monthly challenge);
+--   weekly and monthly windows are calendar-based and need no rows
+-- - leaderboard_results: archived final standings of completed weeks,
+--   months and seasons; leaderboard_archives records which periods have
+--   been archived, so each is snapshotted exactly once
+-- - points_flags: accounts flagged by farming detection. A confirmed flag
+--   freezes the account's points and hides it from leaderboards
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.points_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES public."user"(id) ON DELETE CASCADE,
+  action VARCHAR(50) NOT NULL,
+  points INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  subject_id TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_points_ledger_subject
+  ON public.points_ledger(user_id, action, subject_id)
+  WHERE subject_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_points_ledger_user_action
+  ON public.points_ledger(user_id, action, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_points_ledger_created
+  ON public.points_ledger(created_at);
+
+-- Rows can't be changed or deleted, except when the user is deleted
+-- (cascades run from a foreign key trigger, so the depth is > 1)
+CREATE OR REPLACE FUNCTION public.points_ledger_append_only()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'points_ledger is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS points_ledger_append_only ON public.points_ledger;
+CREATE TRIGGER points_ledger_append_only
+  BEFORE UPDATE OR DELETE ON public.points_ledger
+  FOR EACH ROW EXECUTE FUNCTION public.points_ledger_append_only();
+
+-- Achievements already earned count towards all-time points
+INSERT INTO public.points_ledger (user_id, action, points, reason, subject_id, created_at)
+SELECT ua.user_id, 'achievement', a.points, 'Achievement: ' || a.name, a.slug, ua.earned_at
+FROM public.user_achievements ua
+JOIN public.achievements a ON a.id = ua.achievement_id
+WHERE a.points > 0
+ON CONFLICT (user_id, action, subject_id) WHERE subject_id IS NOT NULL DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.leaderboard_seasons (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug VARCHAR(100) NOT NULL UNIQUE,
+  name VARCHAR(200) NOT NULL,
+  description TEXT,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  archived_at TIMESTAMPTZ,
+  created_by TEXT REFERENCES public."user"(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_seasons_range
+  ON public.leaderboard_seasons(starts_at, ends_at);
+
+CREATE TABLE IF NOT EXISTS public.leaderboard_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  period VARCHAR(20) NOT NULL CHECK (period IN ('weekly', 'monthly', 'season')),
+  period_key VARCHAR(100) NOT NULL,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  user_id TEXT NOT NULL REFERENCES public."user"(id) ON DELETE CASCADE,
+  rank INTEGER NOT NULL,
+  points INTEGER NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(period, period_key, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_results_period
+  ON public.leaderboard_results(period, starts_at DESC, rank);
+
+CREATE TABLE IF NOT EXISTS public.leaderboard_archives (
+  period VARCHAR(20) NOT NULL CHECK (period IN ('weekly', 'monthly', 'season')),
+  period_key VARCHAR(100) NOT NULL,
+  archived_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (period, period_key)
+);
+
+INSERT INTO public.leaderboard_archives (period, period_key)
+SELECT DISTINCT period, period_key FROM public.leaderboard_results
+ON CONFLICT (period, period_key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.points_flags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL REFERENCES public."user"(id) ON DELETE CASCADE,
+  reason VARCHAR(20) NOT NULL CHECK (reason IN ('velocity', 'low_trust')),
+  details TEXT NOT NULL,
+  points_last_hour INTEGER NOT NULL DEFAULT 0,
+  points_last_day INTEGER NOT NULL DEFAULT 0,
+  trust_score INTEGER,
+  status VARCHAR(20) NOT NULL DEFAULT 'open'
+    CHECK (status IN ('open', 'dismissed', 'confirmed')),
+  reviewed_by TEXT REFERENCES public."user"(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One open flag per reason; a dismissed account can be flagged again
+CREATE UNIQUE INDEX IF NOT EXISTS idx_points_flags_open
+  ON public.points_flags(user_id, reason)
+  WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_points_flags_status
+  ON public.points_flags(status, created_at DESC);
+
+ALTER TABLE public.points_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.leaderboard_seasons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.leaderboard_results ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.leaderboard_archives ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.points_flags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "points_ledger_select_own" ON public.points_ledger FOR SELECT USING (
+  user_id = auth.uid()::TEXT
+);
+CREATE POLICY "leaderboard_seasons_select_all" ON public.leaderboard_seasons FOR SELECT USING (TRUE);
+CREATE POLICY "leaderboard_results_select_all" ON public.leaderboard_results FOR SELECT USING (TRUE);
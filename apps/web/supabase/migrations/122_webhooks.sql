@@ -0,0 +1,53 @@
+-- ============================================================================
+-- Migration 122: Outbound Webhooks
+-- ============================================================================
+-- - webhook_endpoints: admin-registered URLs subscribed to events
+--   (lib/webhooks/types.ts), with the payload format (json, slack, discord)
+--   and the secret used to sign requests
+-- - webhook_deliveries: the delivery log - one row per event per endpoint,
+--   updated by every attempt of its webhook_delivery job
+-- Both are only accessed server-side, so RLS has no policies.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  url TEXT NOT NULL,
+  format VARCHAR(20) NOT NULL DEFAULT 'json'
+    CHECK (format IN ('json', 'slack', 'discord')),
+  secret TEXT NOT NULL,
+  events TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_by TEXT REFERENCES public."user"(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_events
+  ON public.webhook_endpoints USING GIN(events)
+  WHERE is_active = TRUE;
+
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+  event VARCHAR(100) NOT NULL,
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'retrying', 'delivered', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  response_status INTEGER,
+  response_body TEXT,
+  error TEXT,
+  duration_ms INTEGER,
+  last_attempt_at TIMESTAMPTZ,
+  delivered_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint
+  ON public.webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_created
+  ON public.webhook_deliveries(created_at DESC);
+
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;